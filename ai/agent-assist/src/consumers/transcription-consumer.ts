@@ -2,7 +2,12 @@ import { Consumer } from 'kafkajs';
 import { FastifyInstance } from 'fastify';
 import { SuggestionEngine, type ConversationContext } from '../services/suggestion-engine.js';
 import { KnowledgeBaseService } from '../services/knowledge-base.js';
-import { aiTranscriptionReadySchema, type AITranscriptionReadyEvent } from '@nexusdialer/events';
+import {
+  TOPICS,
+  aiTranscriptionReadySchema,
+  callRecordingStateSchema,
+  type AITranscriptionReadyEvent,
+} from '@nexusdialer/events';
 
 /**
  * Start consuming transcription events to generate real-time suggestions
@@ -15,7 +20,7 @@ export async function startTranscriptionConsumer(
   const suggestionEngine = new SuggestionEngine(knowledgeBase);
 
   await consumer.subscribe({
-    topics: ['ai-events'],
+    topics: ['ai-events', TOPICS.CALLS_RECORDING_STATE],
     fromBeginning: false,
   });
 
@@ -31,6 +36,12 @@ export async function startTranscriptionConsumer(
           const validatedEvent = aiTranscriptionReadySchema.parse(event);
           await handleTranscriptionReady(validatedEvent, suggestionEngine, fastify);
         }
+
+        // Track whether each call's recording is paused
+        if (event.type === 'calls.recording-state') {
+          const { callId, paused } = callRecordingStateSchema.parse(event).payload;
+          await suggestionEngine.setRecordingPaused(callId, paused);
+        }
       } catch (error) {
         fastify.log.error('Error processing transcription event:', error);
       }
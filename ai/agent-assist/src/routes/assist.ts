@@ -88,6 +88,7 @@ export default async function assistRoutes(fastify: FastifyInstance) {
           recentTranscript: data.recentTranscript,
           fullTranscript: data.fullTranscript,
           customerSentiment: data.customerSentiment,
+          isLive: true,
           callMetadata: data.callMetadata,
         };
 
@@ -1,5 +1,9 @@
+import { randomUUID } from 'crypto';
 import OpenAI from 'openai';
+import { TOPICS, type CallRecordingControlEvent } from '@nexusdialer/events';
+import { containsCardNumber } from '@nexusdialer/utils';
 import { getRedis } from '../lib/redis.js';
+import { publishEvent } from '../lib/kafka.js';
 import { KnowledgeBaseService } from './knowledge-base.js';
 
 export interface Suggestion {
@@ -22,6 +26,7 @@ export interface ConversationContext {
   recentTranscript: string;
   fullTranscript?: string;
   customerSentiment?: 'positive' | 'neutral' | 'negative';
+  isLive?: boolean; // call still in progress, so its recording can be paused
   callMetadata?: {
     duration: number;
     leadInfo?: any;
@@ -29,6 +34,10 @@ export interface ConversationContext {
   };
 }
 
+// Set while a call's recording is paused, so payment talk pauses it only once
+const RECORDING_PAUSED_KEY = (callId: string) => `assist:recording-paused:${callId}`;
+const RECORDING_PAUSED_TTL = 4 * 60 * 60;
+
 export class SuggestionEngine {
   private openai: OpenAI;
   private knowledgeBase: KnowledgeBaseService;
@@ -319,12 +328,22 @@ Provide suggestions in JSON format:
     }
 
     // Payment card information
-    if (/(?:credit card|debit card|card number|cvv|expir)/i.test(lowerTranscript)) {
+    const cardNumberHeard = containsCardNumber(context.recentTranscript);
+
+    if (
+      cardNumberHeard ||
+      /(?:credit card|debit card|card number|cvv|expir)/i.test(lowerTranscript)
+    ) {
+      const recordingPaused =
+        context.isLive &&
+        (await this.pauseRecording(context, cardNumberHeard ? 'card_number' : 'payment_mention'));
+
       suggestions.push({
         id: `compliance-pci-${Date.now()}`,
         type: 'compliance',
-        content:
-          'Payment information detected - DO NOT collect card details over the phone unless PCI compliant',
+        content: recordingPaused
+          ? 'Payment information detected - the recording has been paused. Resume it once the card details are taken'
+          : 'Payment information detected - DO NOT collect card details over the phone unless PCI compliant',
         confidence: 0.95,
         priority: 'high',
         context: {
@@ -352,6 +371,57 @@ Provide suggestions in JSON format:
     return suggestions;
   }
 
+  /**
+   * Ask the dialer engine to pause the call's recording while card details
+   * are given. The agent resumes it from the softphone. Only the first
+   * mention while the recording runs sends a pause.
+   */
+  private async pauseRecording(context: ConversationContext, reason: string): Promise<boolean> {
+    const key = RECORDING_PAUSED_KEY(context.callId);
+    const changed = await this.redis.set(key, reason, 'EX', RECORDING_PAUSED_TTL, 'NX');
+
+    if (!changed) {
+      return true;
+    }
+
+    const event: CallRecordingControlEvent = {
+      eventId: randomUUID(),
+      tenantId: context.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.recording-control',
+      payload: {
+        callId: context.callId,
+        action: 'pause',
+        source: 'auto',
+        reason,
+      },
+    };
+
+    try {
+      await publishEvent(TOPICS.CALLS_RECORDING_CONTROL, event);
+      return true;
+    } catch (error) {
+      console.error('Error pausing call recording:', error);
+      await this.redis.del(key);
+      return false;
+    }
+  }
+
+  /**
+   * Follow the recording state the dialer engine reports, so payment talk
+   * after the agent resumes pauses the recording again
+   */
+  async setRecordingPaused(callId: string, paused: boolean): Promise<void> {
+    const key = RECORDING_PAUSED_KEY(callId);
+
+    if (paused) {
+      await this.redis.setex(key, RECORDING_PAUSED_TTL, 'reported');
+    } else {
+      await this.redis.del(key);
+    }
+  }
+
   /**
    * Get cached suggestions for a call
    */
@@ -1,15 +1,91 @@
 import { eq, and, desc } from 'drizzle-orm';
-import { getDb, transcriptions, type NewTranscription, type Transcription } from '@nexusdialer/database';
+import {
+  getDb,
+  transcriptions,
+  type NewTranscription,
+  type Transcription,
+} from '@nexusdialer/database';
+import type { RecordingPauseWindow } from '@nexusdialer/events';
+import { REDACTED, redactCardNumbers } from '@nexusdialer/utils';
 import { publishEvent } from '../lib/kafka.js';
+import { getRedis } from '../lib/redis.js';
+import type { SentimentResult } from '../sentiment/analyzer.js';
 import { v4 as uuidv4 } from 'crypto';
 
+interface TranscriptSegment {
+  start: number; // seconds
+  end: number;
+  text: string;
+  confidence: number;
+}
+
+interface TranscriptSpeaker {
+  id: string;
+  role: 'agent' | 'customer';
+  segments: TranscriptSegment[];
+}
+
+// Written by the dialer engine while the call is live
+const RECORDING_PAUSES_KEY = (callId: string) => `recording:pauses:${callId}`;
+
 export class TranscriptService {
   private db = getDb();
 
   /**
-   * Create a new transcription record
+   * Create a new transcription record. Card numbers, and anything said while
+   * the call recording was paused, are redacted before it is stored or
+   * published. Segment times are seconds into the recording, or into the
+   * live stream when streamStartedAt (epoch ms) is given.
    */
-  async create(data: Omit<NewTranscription, 'id' | 'createdAt'>): Promise<Transcription> {
+  async create(
+    data: Omit<NewTranscription, 'id' | 'createdAt'>,
+    options: { streamStartedAt?: number } = {}
+  ): Promise<Transcription> {
+    const isPaused = this.pauseMatcher(
+      await this.getPauseWindows(data.callId),
+      options.streamStartedAt
+    );
+    const redact = (text: string, start: number, end = start) =>
+      isPaused(start, end) ? REDACTED : redactCardNumbers(text);
+
+    const speakers = ((data.speakers ?? []) as TranscriptSpeaker[]).map((speaker) => ({
+      ...speaker,
+      segments: speaker.segments.map((segment) => ({
+        ...segment,
+        text: redact(segment.text, segment.start, segment.end),
+      })),
+    }));
+    const segments = speakers.flatMap((speaker) => speaker.segments);
+
+    // The flat transcript has no timings, so when a pause cut into it,
+    // rebuild it from the segments in the order they were spoken
+    const content = segments.some((segment) => segment.text === REDACTED)
+      ? segments
+          .sort((a, b) => a.start - b.start)
+          .map((segment) => segment.text)
+          .join(' ')
+      : redactCardNumbers(data.content);
+
+    // Sentiment keeps a copy of each segment's text
+    const sentiment = data.sentiment as SentimentResult | undefined;
+
+    data = {
+      ...data,
+      content,
+      speakers,
+      // Digits are never useful keywords and may be pieces of a card number
+      keywords: ((data.keywords ?? []) as string[]).filter((keyword) => !/\d/.test(keyword)),
+      sentiment: sentiment?.segments
+        ? {
+            ...sentiment,
+            segments: sentiment.segments.map((segment) => ({
+              ...segment,
+              text: segment.text && redact(segment.text, segment.time),
+            })),
+          }
+        : data.sentiment,
+    };
+
     const [transcription] = await this.db
       .insert(transcriptions)
       .values({
@@ -40,6 +116,47 @@ export class TranscriptService {
     return transcription;
   }
 
+  /**
+   * Pause windows stored with the call's recording, or the dialer engine's
+   * live copy when the recording has not been stored yet
+   */
+  private async getPauseWindows(callId: string): Promise<RecordingPauseWindow[]> {
+    // The callback's eq is the database package's drizzle, not this service's older copy
+    const recording = await this.db.query.recordings.findFirst({
+      where: (recording, { eq }) => eq(recording.callId, callId),
+      columns: { pauseWindows: true },
+    });
+
+    if (recording) {
+      return recording.pauseWindows as RecordingPauseWindow[];
+    }
+
+    const live = await getRedis().get(RECORDING_PAUSES_KEY(callId));
+    return live ? JSON.parse(live) : [];
+  }
+
+  /**
+   * Whether a stretch of the transcript falls inside a pause window
+   */
+  private pauseMatcher(
+    pauseWindows: RecordingPauseWindow[],
+    streamStartedAt?: number
+  ): (start: number, end: number) => boolean {
+    return (start, end) =>
+      pauseWindows.some((window) => {
+        if (streamStartedAt === undefined) {
+          return start < (window.end ?? Infinity) && end >= window.start;
+        }
+
+        const resumedAt = window.resumedAt ? Date.parse(window.resumedAt) : Infinity;
+
+        return (
+          streamStartedAt + start * 1000 < resumedAt &&
+          streamStartedAt + end * 1000 >= Date.parse(window.pausedAt)
+        );
+      });
+  }
+
   /**
    * Get transcription by ID
    */
@@ -246,26 +246,30 @@ async function finalizeSession(session: StreamSession, connection: WebSocket): P
       .slice(0, 10)
       .map(([word]) => word);
 
-    // Save to database
-    const transcription = await session.transcriptService.create({
-      tenantId: session.metadata.tenantId,
-      callId: session.metadata.callId,
-      content: session.fullTranscript,
-      speakers: [
-        {
-          id: 'speaker_0',
-          role: 'agent' as const,
-          segments: session.segments,
-        },
-      ] as any,
-      keywords: keywords as any,
-      sentiment: sentiment as any,
-      language: session.metadata.languageCode || 'en-US',
-      confidence: (
-        session.segments.reduce((sum, seg) => sum + seg.confidence, 0) / session.segments.length || 0
-      ).toString(),
-      processingTime,
-    });
+    // Save to database (redacted against the recording's pause windows)
+    const transcription = await session.transcriptService.create(
+      {
+        tenantId: session.metadata.tenantId,
+        callId: session.metadata.callId,
+        content: session.fullTranscript,
+        speakers: [
+          {
+            id: 'speaker_0',
+            role: 'agent' as const,
+            segments: session.segments,
+          },
+        ] as any,
+        keywords: keywords as any,
+        sentiment: sentiment as any,
+        language: session.metadata.languageCode || 'en-US',
+        confidence: (
+          session.segments.reduce((sum, seg) => sum + seg.confidence, 0) /
+            session.segments.length || 0
+        ).toString(),
+        processingTime,
+      },
+      { streamStartedAt: session.startTime }
+    );
 
     // Send final result
     connection.send(
@@ -273,7 +277,7 @@ async function finalizeSession(session: StreamSession, connection: WebSocket): P
         type: 'completed',
         data: {
           transcriptionId: transcription.id,
-          transcript: session.fullTranscript,
+          transcript: transcription.content,
           sentiment,
           keywords,
           processingTime,
@@ -3,6 +3,7 @@ import cors from '@fastify/cors';
 import jwt from '@fastify/jwt';
 import cookie from '@fastify/cookie';
 import rateLimit from '@fastify/rate-limit';
+import multipart from '@fastify/multipart';
 import { authRoutes } from './routes/auth';
 import { userRoutes } from './routes/users';
 import { tenantRoutes } from './routes/tenants';
@@ -13,12 +14,30 @@ import { agentRoutes } from './routes/agents';
 import { teamRoutes } from './routes/teams';
 import { skillRoutes } from './routes/skills';
 import { leadListRoutes } from './routes/lead-lists';
+import { leadImportRoutes } from './routes/lead-imports';
+import { leadExportRoutes } from './routes/lead-exports';
+import { dialingRuleRoutes } from './routes/dialing-rules';
 import { dispositionRoutes } from './routes/dispositions';
+import { callRoutes } from './routes/calls';
 import { dncRoutes } from './routes/dnc';
 import { scriptRoutes } from './routes/scripts';
+import { recordingRoutes } from './routes/recordings';
+import { retentionRoutes } from './routes/retention';
+import { monitoringRoutes } from './routes/monitoring';
+import { trunkRoutes } from './routes/trunks';
+import { callerIdRoutes } from './routes/caller-ids';
 import { healthRoutes } from './routes/health';
 import { errorHandler } from './middleware/error-handler';
 import { initializeSocketServer } from './socket';
+import { initKafkaProducer } from './lib/kafka';
+import { startCampaignCommandResultConsumer } from './lib/campaign-commands';
+import { startCallbackEventConsumer } from './lib/callbacks';
+import { startRecordingStateConsumer } from './lib/recording-control';
+import { startMonitorStateConsumer } from './lib/monitoring';
+import { startTransferStateConsumer } from './lib/call-transfer';
+import { startCallQualityConsumer } from './lib/call-quality';
+import { startDialingRuleConsumer, startDialingRuleSchedule } from './lib/dialing-rules';
+import { startLeadImportSweep } from './lib/lead-import';
 
 const envToLogger = {
   development: {
@@ -51,6 +70,9 @@ async function buildApp() {
 
   await app.register(jwt, {
     secret: process.env.JWT_SECRET || 'nexusdialer-jwt-secret',
+    sign: {
+      expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    },
     cookie: {
       cookieName: 'token',
       signed: false,
@@ -62,6 +84,14 @@ async function buildApp() {
     timeWindow: '1 minute',
   });
 
+  // Lead import uploads
+  await app.register(multipart, {
+    limits: {
+      fileSize: parseInt(process.env.LEAD_IMPORT_MAX_BYTES || String(200 * 1024 * 1024), 10),
+      files: 1,
+    },
+  });
+
   // Error handler
   app.setErrorHandler(errorHandler);
 
@@ -72,14 +102,23 @@ async function buildApp() {
   await app.register(tenantRoutes, { prefix: '/api/v1/tenants' });
   await app.register(campaignRoutes, { prefix: '/api/v1/campaigns' });
   await app.register(leadRoutes, { prefix: '/api/v1/leads' });
+  await app.register(leadImportRoutes, { prefix: '/api/v1/leads/imports' });
+  await app.register(leadExportRoutes, { prefix: '/api/v1/leads/exports' });
   await app.register(leadListRoutes, { prefix: '/api/v1/lead-lists' });
+  await app.register(dialingRuleRoutes, { prefix: '/api/v1/dialing-rules' });
   await app.register(queueRoutes, { prefix: '/api/v1/queues' });
   await app.register(agentRoutes, { prefix: '/api/v1/agents' });
   await app.register(teamRoutes, { prefix: '/api/v1/teams' });
   await app.register(skillRoutes, { prefix: '/api/v1/skills' });
   await app.register(dispositionRoutes, { prefix: '/api/v1/dispositions' });
+  await app.register(callRoutes, { prefix: '/api/v1/calls' });
   await app.register(dncRoutes, { prefix: '/api/v1/dnc' });
   await app.register(scriptRoutes, { prefix: '/api/v1/scripts' });
+  await app.register(recordingRoutes, { prefix: '/api/v1/recordings' });
+  await app.register(retentionRoutes, { prefix: '/api/v1/retention' });
+  await app.register(monitoringRoutes, { prefix: '/api/v1/monitoring' });
+  await app.register(trunkRoutes, { prefix: '/api/v1/trunks' });
+  await app.register(callerIdRoutes, { prefix: '/api/v1/caller-ids' });
 
   return app;
 }
@@ -93,11 +132,35 @@ async function start() {
     await app.listen({ port, host });
 
     // Initialize Socket.io with the HTTP server
-    const httpServer = app.server;
-    initializeSocketServer(httpServer);
+    initializeSocketServer(app);
 
     console.log(`API Gateway running at http://${host}:${port}`);
     console.log(`WebSocket server initialized`);
+
+    // Connect to Kafka for dialer engine commands and events
+    try {
+      await initKafkaProducer();
+      await startCampaignCommandResultConsumer();
+      await startCallbackEventConsumer();
+      await startRecordingStateConsumer();
+      await startMonitorStateConsumer();
+      await startTransferStateConsumer();
+      await startCallQualityConsumer();
+      await startDialingRuleConsumer();
+      console.log('Kafka producer and event consumers connected');
+    } catch (err) {
+      app.log.error(
+        err,
+        'Failed to connect to Kafka - campaigns, callbacks, recording, monitors, transfers, ' +
+          'quality alerts, post-call dialing rules down'
+      );
+    }
+
+    // Also catches leads whose calls ended while Kafka was unreachable
+    startDialingRuleSchedule();
+
+    // Imports a previous run left part way, and uploads no import holds
+    startLeadImportSweep();
   } catch (err) {
     app.log.error(err);
     process.exit(1);
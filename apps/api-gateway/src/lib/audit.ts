@@ -0,0 +1,24 @@
+import { getDb, auditLogs } from '@nexusdialer/database';
+
+const db = getDb();
+
+interface AuditEntry {
+  tenantId: string;
+  actorId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record a compliance change a user made (legal holds, retention policy)
+ * or a supervisor joining a call. System jobs write their own entries.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  await db.insert(auditLogs).values({
+    ...entry,
+    actorType: 'user',
+    details: entry.details ?? {},
+  });
+}
@@ -0,0 +1,66 @@
+import type { Consumer } from 'kafkajs';
+import { eq } from 'drizzle-orm';
+import { getDb, users } from '@nexusdialer/database';
+import {
+  TOPICS,
+  callQualitySampleSchema,
+  type CallQualityAlertPayload,
+} from '@nexusdialer/events';
+import { createKafkaConsumer } from './kafka';
+import { listLiveCalls } from './redis';
+import { emitToDashboard } from '../socket';
+
+const db = getDb();
+
+/**
+ * Alert supervisors when an agent's call quality drops below the WebRTC
+ * gateway's threshold, and again when it recovers
+ */
+export async function startCallQualityConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-call-quality');
+
+  await consumer.subscribe({ topic: TOPICS.CALLS_QUALITY, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = callQualitySampleSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid call quality sample:', parsed.error.flatten());
+        return;
+      }
+
+      const { tenantId, timestamp, payload } = parsed.data;
+
+      // Only changes are alerted; every other sample is just kept on the call
+      if (!payload.alert) {
+        return;
+      }
+
+      const call = (await listLiveCalls(tenantId)).find((row) => row.agentId === payload.agentId);
+      const agent = await db.query.users.findFirst({
+        where: eq(users.id, payload.agentId),
+        columns: { firstName: true, lastName: true },
+      });
+
+      const alert: CallQualityAlertPayload = {
+        callId: call?.id,
+        agentId: payload.agentId,
+        agentName: agent ? `${agent.firstName} ${agent.lastName}` : undefined,
+        phoneNumber: call?.phoneNumber,
+        status: payload.alert,
+        mos: payload.mos,
+        jitter: payload.jitter,
+        packetLoss: payload.packetLoss,
+        roundTripTime: payload.roundTripTime,
+        timestamp,
+      };
+
+      emitToDashboard(tenantId, 'call:quality-alert', alert);
+    },
+  });
+
+  return consumer;
+}
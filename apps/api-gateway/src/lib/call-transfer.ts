@@ -0,0 +1,339 @@
+import { randomUUID } from 'crypto';
+import type { Consumer } from 'kafkajs';
+import { eq, and } from 'drizzle-orm';
+import { getDb, users, agentProfiles, queues } from '@nexusdialer/database';
+import {
+  TOPICS,
+  callTransferStateSchema,
+  type CallTransferControlEvent,
+  type CallTransferPayload,
+  type TransferTarget,
+  type TransferType,
+} from '@nexusdialer/events';
+import { isValidPhoneNumber, normalizePhoneNumber } from '@nexusdialer/utils';
+import { publishEvent, createKafkaConsumer } from './kafka';
+import { getRedis, getLiveCall } from './redis';
+import { emitToUser } from '../socket';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler';
+
+const db = getDb();
+
+export interface TransferActor {
+  id: string;
+  tenantId: string;
+}
+
+export interface CallTransfer {
+  transferId: string;
+  tenantId: string;
+  callId: string;
+  agentId: string;
+  transferType: TransferType;
+  target: TransferTarget;
+  targetName: string;
+  extension?: string;
+  status: CallTransferPayload['status'];
+  startedAt: string;
+}
+
+// Longest a transfer is kept if the dialer never reports it settled
+const TRANSFER_TTL = 60 * 60;
+
+// Statuses after which the transfer is over
+const SETTLED_STATUSES: CallTransferPayload['status'][] = [
+  'completed',
+  'cancelled',
+  'conferenced',
+  'failed',
+];
+
+const TRANSFER_KEYS = {
+  transfer: (transferId: string) => `transfer:${transferId}`,
+  call: (callId: string) => `transfer:call:${callId}`,
+};
+
+async function getTransfer(transferId: string): Promise<CallTransfer | null> {
+  const data = await getRedis().get(TRANSFER_KEYS.transfer(transferId));
+  return data ? JSON.parse(data) : null;
+}
+
+async function saveTransfer(transfer: CallTransfer): Promise<void> {
+  await getRedis()
+    .multi()
+    .setex(TRANSFER_KEYS.transfer(transfer.transferId), TRANSFER_TTL, JSON.stringify(transfer))
+    .setex(TRANSFER_KEYS.call(transfer.callId), TRANSFER_TTL, transfer.transferId)
+    .exec();
+}
+
+async function removeTransfer(transfer: CallTransfer): Promise<void> {
+  await getRedis()
+    .multi()
+    .del(TRANSFER_KEYS.transfer(transfer.transferId))
+    .del(TRANSFER_KEYS.call(transfer.callId))
+    .exec();
+}
+
+/**
+ * Check the target exists in the tenant and can take this kind of transfer
+ */
+async function resolveTarget(
+  actor: TransferActor,
+  target: TransferTarget,
+  type: TransferType
+): Promise<{ target: TransferTarget; targetName: string; extension?: string }> {
+  switch (target.type) {
+    case 'agent': {
+      if (target.id === actor.id) {
+        throw new ValidationError('You cannot transfer a call to yourself');
+      }
+
+      const [agent] = await db
+        .select({
+          firstName: users.firstName,
+          lastName: users.lastName,
+          extension: agentProfiles.extension,
+        })
+        .from(users)
+        .innerJoin(agentProfiles, eq(agentProfiles.userId, users.id))
+        .where(and(eq(users.id, target.id), eq(users.tenantId, actor.tenantId)))
+        .limit(1);
+
+      if (!agent) {
+        throw new NotFoundError('Agent not found');
+      }
+
+      if (!agent.extension) {
+        throw new ValidationError('The agent has no softphone extension');
+      }
+
+      return {
+        target,
+        targetName: `${agent.firstName} ${agent.lastName}`,
+        extension: agent.extension,
+      };
+    }
+
+    case 'queue': {
+      if (type === 'warm') {
+        throw new ValidationError('Queues only take blind transfers');
+      }
+
+      const queue = await db.query.queues.findFirst({
+        where: and(eq(queues.id, target.id), eq(queues.tenantId, actor.tenantId)),
+      });
+
+      if (!queue) {
+        throw new NotFoundError('Queue not found');
+      }
+
+      return { target, targetName: queue.name };
+    }
+
+    case 'external': {
+      if (!isValidPhoneNumber(target.id)) {
+        throw new ValidationError('Invalid phone number');
+      }
+
+      const phoneNumber = normalizePhoneNumber(target.id);
+
+      return { target: { type: 'external', id: phoneNumber }, targetName: phoneNumber };
+    }
+  }
+}
+
+async function publishControl(
+  transfer: CallTransfer,
+  action: CallTransferControlEvent['payload']['action']
+): Promise<void> {
+  const event: CallTransferControlEvent = {
+    eventId: randomUUID(),
+    tenantId: transfer.tenantId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type: 'calls.transfer-control',
+    payload: {
+      transferId: transfer.transferId,
+      callId: transfer.callId,
+      agentId: transfer.agentId,
+      action,
+      transferType: transfer.transferType,
+      target: transfer.target,
+      extension: transfer.extension,
+    },
+  };
+
+  await publishEvent(TOPICS.CALLS_TRANSFER_CONTROL, event, transfer.callId);
+}
+
+/**
+ * Tell the transferring agent, and an agent being transferred to, how the
+ * transfer is going
+ */
+function broadcast(
+  transfer: CallTransfer,
+  status: CallTransferPayload['status'] = transfer.status,
+  error?: string
+): void {
+  const { tenantId, extension, startedAt, ...rest } = transfer;
+  const payload: CallTransferPayload = {
+    ...rest,
+    status,
+    error,
+    timestamp: new Date().toISOString(),
+  };
+
+  emitToUser(transfer.agentId, 'call:transfer-updated', payload);
+
+  if (transfer.target.type === 'agent') {
+    emitToUser(transfer.target.id, 'call:transfer-updated', payload);
+  }
+}
+
+/**
+ * Start a blind or warm transfer of the agent's live call. The dialer
+ * engine carries it out and reports progress on calls.transfer-state.
+ */
+export async function startTransfer(
+  actor: TransferActor,
+  callId: string,
+  type: TransferType,
+  target: TransferTarget
+): Promise<CallTransfer> {
+  const call = await getLiveCall(callId);
+
+  if (!call || call.tenantId !== actor.tenantId || call.endTime) {
+    throw new NotFoundError('Call not found');
+  }
+
+  if (call.agentId !== actor.id) {
+    throw new ForbiddenError('Not your call');
+  }
+
+  if (!call.answerTime) {
+    throw new ValidationError('Call is not connected');
+  }
+
+  if (await getRedis().exists(TRANSFER_KEYS.call(callId))) {
+    throw new ConflictError('A transfer of this call is already in progress');
+  }
+
+  const resolved = await resolveTarget(actor, target, type);
+
+  const transfer: CallTransfer = {
+    transferId: randomUUID(),
+    tenantId: actor.tenantId,
+    callId,
+    agentId: actor.id,
+    transferType: type,
+    ...resolved,
+    status: 'consulting',
+    startedAt: new Date().toISOString(),
+  };
+
+  await saveTransfer(transfer);
+  await publishControl(transfer, 'start');
+
+  return transfer;
+}
+
+/**
+ * Load a warm transfer for the agent who started it
+ */
+async function getOwnTransfer(actor: TransferActor, transferId: string): Promise<CallTransfer> {
+  const transfer = await getTransfer(transferId);
+
+  if (!transfer || transfer.tenantId !== actor.tenantId) {
+    throw new NotFoundError('Transfer not found');
+  }
+
+  if (transfer.agentId !== actor.id) {
+    throw new ForbiddenError('Only the agent who started a transfer can settle it');
+  }
+
+  if (transfer.transferType !== 'warm') {
+    throw new ValidationError('Only warm transfers can be completed, cancelled or conferenced');
+  }
+
+  return transfer;
+}
+
+/**
+ * Hand the customer to the target and drop the agent
+ */
+export async function completeTransfer(actor: TransferActor, transferId: string): Promise<void> {
+  const transfer = await getOwnTransfer(actor, transferId);
+
+  if (transfer.status !== 'connected') {
+    throw new ValidationError('The transfer target has not answered yet');
+  }
+
+  await publishControl(transfer, 'complete');
+}
+
+/**
+ * Drop the target and go back to the customer
+ */
+export async function cancelTransfer(actor: TransferActor, transferId: string): Promise<void> {
+  const transfer = await getOwnTransfer(actor, transferId);
+
+  await publishControl(transfer, 'cancel');
+}
+
+/**
+ * Bring the customer, agent and target into one conference
+ */
+export async function conferenceTransfer(actor: TransferActor, transferId: string): Promise<void> {
+  const transfer = await getOwnTransfer(actor, transferId);
+
+  if (transfer.status !== 'connected') {
+    throw new ValidationError('The transfer target has not answered yet');
+  }
+
+  await publishControl(transfer, 'conference');
+}
+
+/**
+ * Track transfers as the dialer engine carries them out
+ */
+export async function startTransferStateConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-transfer-state');
+
+  await consumer.subscribe({ topic: TOPICS.CALLS_TRANSFER_STATE, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = callTransferStateSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid transfer state:', parsed.error.flatten());
+        return;
+      }
+
+      const { transferId, status, error } = parsed.data.payload;
+      const transfer = await getTransfer(transferId);
+
+      if (!transfer) {
+        return;
+      }
+
+      if (SETTLED_STATUSES.includes(status)) {
+        await removeTransfer(transfer);
+        broadcast(transfer, status, error);
+        return;
+      }
+
+      const updated: CallTransfer = { ...transfer, status };
+      await saveTransfer(updated);
+      broadcast(updated, status, error);
+    },
+  });
+
+  return consumer;
+}
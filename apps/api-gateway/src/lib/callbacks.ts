@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import type { Consumer } from 'kafkajs';
+import { eq, and } from 'drizzle-orm';
+import { getDb, callbackSchedules, type CallbackSchedule } from '@nexusdialer/database';
+import {
+  TOPICS,
+  callbackReminderSchema,
+  callbackStatusChangedSchema,
+  type CallbackStatus,
+  type CallbackStatusChangedEvent,
+} from '@nexusdialer/events';
+import { publishEvent, createKafkaConsumer } from './kafka';
+import { emitToUser } from '../socket';
+
+const db = getDb();
+
+/**
+ * Move a callback to a new time. The old row is kept as rescheduled and a
+ * new pending row takes its place, so the history of a callback survives.
+ * Returns null if the callback changed status in the meantime.
+ */
+export async function rescheduleCallback(
+  callback: CallbackSchedule,
+  scheduledAt: Date,
+  notes?: string
+): Promise<CallbackSchedule | null> {
+  const next = await db.transaction(async (tx) => {
+    const [previous] = await tx
+      .update(callbackSchedules)
+      .set({ status: 'rescheduled', updatedAt: new Date() })
+      .where(
+        and(eq(callbackSchedules.id, callback.id), eq(callbackSchedules.status, callback.status))
+      )
+      .returning();
+
+    if (!previous) {
+      return null;
+    }
+
+    const [created] = await tx
+      .insert(callbackSchedules)
+      .values({
+        tenantId: callback.tenantId,
+        leadId: callback.leadId,
+        callId: callback.callId,
+        agentId: callback.agentId,
+        queueId: callback.queueId,
+        phoneNumber: callback.phoneNumber,
+        scheduledAt,
+        callbackType: callback.callbackType,
+        source: callback.source,
+        notes: notes ?? callback.notes,
+      })
+      .returning();
+
+    return created;
+  });
+
+  if (!next) {
+    return null;
+  }
+
+  const event: CallbackStatusChangedEvent = {
+    eventId: randomUUID(),
+    tenantId: callback.tenantId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type: 'callbacks.status-changed',
+    payload: {
+      callbackId: callback.id,
+      agentId: callback.agentId ?? undefined,
+      status: 'rescheduled',
+      previousStatus: callback.status as CallbackStatus,
+      rescheduledTo: { callbackId: next.id, scheduledAt: scheduledAt.toISOString() },
+      reason: 'Rescheduled by agent',
+    },
+  };
+
+  await publishEvent(TOPICS.CALLBACKS_STATUS_CHANGED, event, callback.id);
+
+  return next;
+}
+
+/**
+ * Relay callback reminders and status changes from the dialer engine to
+ * the agent the callback is with
+ */
+export async function startCallbackEventConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-callbacks');
+
+  await consumer.subscribe({
+    topics: [TOPICS.CALLBACKS_REMINDER, TOPICS.CALLBACKS_STATUS_CHANGED],
+    fromBeginning: false,
+  });
+
+  await consumer.run({
+    eachMessage: async ({ topic, message }) => {
+      if (!message.value) return;
+
+      const event = JSON.parse(message.value.toString());
+
+      if (topic === TOPICS.CALLBACKS_REMINDER) {
+        const parsed = callbackReminderSchema.safeParse(event);
+
+        if (!parsed.success) {
+          console.error('Invalid callback reminder:', parsed.error.flatten());
+          return;
+        }
+
+        const { agentId, ...reminder } = parsed.data.payload;
+
+        emitToUser(agentId, 'callback:reminder', {
+          ...reminder,
+          timestamp: parsed.data.timestamp,
+        });
+        return;
+      }
+
+      const parsed = callbackStatusChangedSchema.safeParse(event);
+
+      if (!parsed.success) {
+        console.error('Invalid callback status change:', parsed.error.flatten());
+        return;
+      }
+
+      const { agentId, ...status } = parsed.data.payload;
+
+      if (agentId) {
+        emitToUser(agentId, 'callback:status-changed', {
+          ...status,
+          timestamp: parsed.data.timestamp,
+        });
+      }
+    },
+  });
+
+  return consumer;
+}
@@ -0,0 +1,94 @@
+import type { Consumer } from 'kafkajs';
+import { eq, and } from 'drizzle-orm';
+import {
+  getDb,
+  campaigns,
+  dispatchCampaignCommand,
+  DialerUnavailableError,
+  type Campaign,
+} from '@nexusdialer/database';
+import {
+  TOPICS,
+  campaignCommandResultSchema,
+  type CampaignCommandAction,
+} from '@nexusdialer/events';
+import { publishEvent, createKafkaConsumer } from './kafka';
+import { AppError } from '../middleware/error-handler';
+import { emitToTenant } from '../socket';
+
+const db = getDb();
+
+/**
+ * Change a campaign's status and send the dialer engine the matching command,
+ * answering 503 when the command cannot be published
+ */
+export async function sendCampaignCommand(
+  campaign: Campaign,
+  status: string,
+  action: CampaignCommandAction,
+  requestedBy: string
+): Promise<{ campaign: Campaign; commandId: string }> {
+  try {
+    return await dispatchCampaignCommand(campaign, status, action, requestedBy, publishEvent);
+  } catch (error) {
+    if (error instanceof DialerUnavailableError) {
+      throw new AppError(error.message, 503, 'DIALER_UNAVAILABLE');
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Consume command results from the dialer engine and relay the real
+ * running state to connected clients. A failed start leaves the campaign
+ * paused so the UI never shows "active" for a campaign that is not dialing.
+ */
+export async function startCampaignCommandResultConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-campaign-commands');
+
+  await consumer.subscribe({ topic: TOPICS.CAMPAIGNS_COMMAND_RESULTS, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = campaignCommandResultSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid campaign command result:', parsed.error.flatten());
+        return;
+      }
+
+      const { tenantId, payload } = parsed.data;
+
+      if (payload.status === 'failed' && payload.action === 'start') {
+        await db
+          .update(campaigns)
+          .set({ status: 'paused', updatedAt: new Date() })
+          .where(
+            and(
+              eq(campaigns.id, payload.campaignId),
+              eq(campaigns.tenantId, tenantId),
+              eq(campaigns.status, 'active')
+            )
+          );
+      }
+
+      const campaign = await db.query.campaigns.findFirst({
+        where: and(eq(campaigns.id, payload.campaignId), eq(campaigns.tenantId, tenantId)),
+      });
+
+      emitToTenant(tenantId, 'campaign:status-changed', {
+        campaignId: payload.campaignId,
+        status: campaign?.status ?? 'unknown',
+        isRunning: payload.isRunning,
+        commandId: payload.commandId,
+        error: payload.error,
+        timestamp: payload.handledAt,
+      });
+    },
+  });
+
+  return consumer;
+}
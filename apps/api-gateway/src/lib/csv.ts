@@ -0,0 +1,17 @@
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV line, quoting values that hold a quote, comma or line break.
+ * Values that would open as a formula get a leading apostrophe, so the
+ * spreadsheet shows them as text.
+ */
+export function toCsvLine(values: string[]): string {
+  const escaped = values.map((value) => {
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  });
+
+  return `${escaped.join(',')}\n`;
+}
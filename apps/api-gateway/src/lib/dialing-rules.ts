@@ -0,0 +1,406 @@
+import type { Consumer } from 'kafkajs';
+import { eq, and, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import {
+  getDb,
+  calls,
+  dialingRules,
+  dispositions,
+  leadHistory,
+  leadLists,
+  leads,
+  type DialingRule,
+} from '@nexusdialer/database';
+import { TOPICS, callEndedSchema } from '@nexusdialer/events';
+import { ValidationError } from '../middleware/error-handler';
+import { createKafkaConsumer } from './kafka';
+
+const db = getDb();
+
+// Rules also run on a schedule, so rule changes reach leads whose calls
+// ended before them. Rules are idempotent, so every gateway may run it.
+const SWEEP_INTERVAL = parseInt(process.env.DIALING_RULES_INTERVAL || '300', 10) * 1000;
+
+const HISTORY_BATCH_SIZE = 1000;
+
+// The only rule type evaluated here; the others are settings read elsewhere
+export const RECYCLE_RULE_TYPE = 'recycle';
+
+// Lead statuses rules apply to unless they say otherwise. Callback leads
+// are left out: their next attempt is the time promised to the customer.
+const DEFAULT_STATUSES = ['new'];
+
+export interface RecycleConditions {
+  // What the lead's latest call ended as: a disposition code, or for calls
+  // no agent dispositioned, the call status in capitals (NO_ANSWER, BUSY, ...)
+  outcomes?: string[];
+  minOutcomeCount?: number; // calls with one of the outcomes, e.g. 3 for "no answer 3 times"
+  minAttempts?: number;
+  maxAttempts?: number;
+  statuses?: string[];
+}
+
+export interface RecycleActions {
+  retryAfterMinutes?: number; // counted from the end of the latest call
+  retryHourOffset?: number; // hours added on top, to retry at a different time of day
+  status?: string;
+  priority?: number;
+}
+
+// Enough of a rule to evaluate it, so unsaved drafts can be dry-run too
+type EvaluatedRule = Pick<DialingRule, 'id' | 'campaignId' | 'conditions' | 'actions'>;
+
+export const recycleConditionsSchema = {
+  type: 'object',
+  properties: {
+    outcomes: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 50 },
+      maxItems: 50,
+    },
+    minOutcomeCount: { type: 'integer', minimum: 1 },
+    minAttempts: { type: 'integer', minimum: 0 },
+    maxAttempts: { type: 'integer', minimum: 0 },
+    statuses: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 50 },
+      maxItems: 20,
+    },
+  },
+  additionalProperties: false,
+};
+
+export const recycleActionsSchema = {
+  type: 'object',
+  properties: {
+    retryAfterMinutes: { type: 'integer', minimum: 0, maximum: 525600 },
+    retryHourOffset: { type: 'integer', minimum: 0, maximum: 23 },
+    status: { type: 'string', minLength: 1, maxLength: 50 },
+    priority: { type: 'integer' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Schemas only check shapes; these are the rules a recycle rule must also follow
+ */
+export function validateRecycleRule(conditions: RecycleConditions, actions: RecycleActions): void {
+  if (
+    actions.retryAfterMinutes === undefined &&
+    actions.status === undefined &&
+    actions.priority === undefined
+  ) {
+    throw new ValidationError('A rule must retry the lead, or change its status or priority');
+  }
+
+  if (actions.retryHourOffset !== undefined && actions.retryAfterMinutes === undefined) {
+    throw new ValidationError('retryHourOffset needs retryAfterMinutes');
+  }
+
+  if (conditions.minOutcomeCount !== undefined && !conditions.outcomes?.length) {
+    throw new ValidationError('minOutcomeCount needs outcomes to count');
+  }
+
+  if (
+    conditions.minAttempts !== undefined &&
+    conditions.maxAttempts !== undefined &&
+    conditions.minAttempts > conditions.maxAttempts
+  ) {
+    throw new ValidationError('minAttempts cannot be more than maxAttempts');
+  }
+}
+
+// What each of the lead's calls ended as
+const callOutcome = sql`COALESCE(
+  (SELECT ${dispositions.code} FROM ${dispositions}
+    WHERE ${dispositions.id} = ${calls.dispositionId}),
+  UPPER(${calls.status})
+)`;
+
+const lastOutcome = sql`(SELECT ${callOutcome} FROM ${calls}
+  WHERE ${calls.leadId} = ${leads.id}
+  ORDER BY ${calls.startTime} DESC LIMIT 1)`;
+
+const lastCallEnd = sql`(SELECT MAX(COALESCE(${calls.endTime}, ${calls.startTime})) FROM ${calls}
+  WHERE ${calls.leadId} = ${leads.id})`;
+
+/**
+ * Whether a rule covers a lead, as a condition on leads that is never null,
+ * so it can be negated for the rules below it
+ */
+function matches(rule: EvaluatedRule): SQL {
+  const conditions = rule.conditions as RecycleConditions;
+  const actions = rule.actions as RecycleActions;
+  const parts: SQL[] = [
+    inArray(leads.status, conditions.statuses?.length ? conditions.statuses : DEFAULT_STATUSES),
+  ];
+
+  if (rule.campaignId) {
+    parts.push(
+      sql`${leads.listId} IN (SELECT ${leadLists.id} FROM ${leadLists}
+        WHERE ${leadLists.campaignId} = ${rule.campaignId})`
+    );
+  }
+
+  if (conditions.outcomes?.length) {
+    const outcomes = sql.join(
+      conditions.outcomes.map((outcome) => sql`${outcome}`),
+      sql`, `
+    );
+
+    parts.push(sql`${lastOutcome} IN (${outcomes})`);
+
+    if (conditions.minOutcomeCount !== undefined) {
+      parts.push(sql`(SELECT COUNT(*) FROM ${calls}
+        WHERE ${calls.leadId} = ${leads.id} AND ${callOutcome} IN (${outcomes})
+      ) >= ${conditions.minOutcomeCount}`);
+    }
+  }
+
+  if (conditions.minAttempts !== undefined) {
+    parts.push(sql`${leads.attemptCount} >= ${conditions.minAttempts}`);
+  }
+
+  if (conditions.maxAttempts !== undefined) {
+    parts.push(sql`${leads.attemptCount} <= ${conditions.maxAttempts}`);
+  }
+
+  // A retry is timed from the latest call, so there must be one. Outcomes
+  // and retries wait while an attempt's call is still going, or they would
+  // act on the call before it.
+  if (conditions.outcomes?.length || actions.retryAfterMinutes !== undefined) {
+    parts.push(sql`${lastCallEnd} IS NOT NULL`);
+    parts.push(sql`(${leads.lastAttemptAt} IS NULL OR ${lastCallEnd} >= ${leads.lastAttemptAt})`);
+  }
+
+  return sql`COALESCE((${and(...parts)}), false)`;
+}
+
+function retryAt(actions: RecycleActions): SQL {
+  return sql`${lastCallEnd} + make_interval(
+    mins => ${actions.retryAfterMinutes ?? 0},
+    hours => ${actions.retryHourOffset ?? 0}
+  )`;
+}
+
+/**
+ * A retry only ever pushes the next attempt back; one already scheduled
+ * later (a callback, a longer retry) is kept
+ */
+function nextAttemptAt(actions: RecycleActions): SQL {
+  return sql`GREATEST(${leads.nextAttemptAt}, ${retryAt(actions)})`;
+}
+
+/**
+ * Leads the rule would change: those it covers that no rule above it covers,
+ * and that are not already as the rule would leave them
+ */
+function affected(rule: EvaluatedRule, above: EvaluatedRule[], tenantId: string): SQL {
+  const actions = rule.actions as RecycleActions;
+  const changes: SQL[] = [];
+
+  if (actions.retryAfterMinutes !== undefined) {
+    changes.push(
+      sql`(${leads.nextAttemptAt} IS NULL OR ${leads.nextAttemptAt} < ${retryAt(actions)})`
+    );
+  }
+
+  if (actions.status !== undefined) {
+    changes.push(sql`${leads.status} IS DISTINCT FROM ${actions.status}`);
+  }
+
+  if (actions.priority !== undefined) {
+    changes.push(sql`${leads.priority} IS DISTINCT FROM ${actions.priority}`);
+  }
+
+  // Rules saved before their shape was checked may do nothing
+  if (changes.length === 0) {
+    return sql`false`;
+  }
+
+  return and(
+    eq(leads.tenantId, tenantId),
+    matches(rule),
+    ...above.map((higher) => sql`NOT ${matches(higher)}`),
+    sql`(${sql.join(changes, sql` OR `)})`
+  )!;
+}
+
+/**
+ * Active recycle rules in the order they are evaluated: highest priority
+ * first, then oldest first
+ */
+async function getActiveRules(tenantId?: string): Promise<DialingRule[]> {
+  return db.query.dialingRules.findMany({
+    where: and(
+      tenantId ? eq(dialingRules.tenantId, tenantId) : undefined,
+      eq(dialingRules.ruleType, RECYCLE_RULE_TYPE),
+      eq(dialingRules.isActive, true)
+    ),
+    orderBy: [desc(dialingRules.priority), asc(dialingRules.createdAt)],
+  });
+}
+
+/**
+ * Apply the tenant's rules to its leads, or only the given ones. Each lead
+ * is changed by the first rule that covers it.
+ */
+export async function applyDialingRules(tenantId: string, leadIds?: string[]): Promise<number> {
+  const rules = await getActiveRules(tenantId);
+  let changed = 0;
+
+  for (const [index, rule] of rules.entries()) {
+    const actions = rule.actions as RecycleActions;
+    const now = new Date();
+
+    const updated = await db
+      .update(leads)
+      .set({
+        ...(actions.retryAfterMinutes !== undefined
+          ? { nextAttemptAt: nextAttemptAt(actions) }
+          : {}),
+        ...(actions.status !== undefined ? { status: actions.status } : {}),
+        ...(actions.priority !== undefined ? { priority: actions.priority } : {}),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          affected(rule, rules.slice(0, index), tenantId),
+          leadIds ? inArray(leads.id, leadIds) : undefined
+        )
+      )
+      .returning({
+        id: leads.id,
+        status: leads.status,
+        priority: leads.priority,
+        nextAttemptAt: leads.nextAttemptAt,
+      });
+
+    for (let start = 0; start < updated.length; start += HISTORY_BATCH_SIZE) {
+      await db.insert(leadHistory).values(
+        updated.slice(start, start + HISTORY_BATCH_SIZE).map((lead) => ({
+          tenantId,
+          leadId: lead.id,
+          eventType: 'dialing_rule',
+          newValue: {
+            status: lead.status,
+            priority: lead.priority,
+            nextAttemptAt: lead.nextAttemptAt?.toISOString() ?? null,
+          },
+          metadata: { ruleId: rule.id, ruleName: rule.name },
+        }))
+      );
+    }
+
+    changed += updated.length;
+  }
+
+  return changed;
+}
+
+/**
+ * How many leads each rule would change if the rules ran now, inactive
+ * rules counted as if they were switched on
+ */
+export async function dryRunDialingRules(
+  tenantId: string,
+  rules: DialingRule[]
+): Promise<Map<string, number>> {
+  const active = await getActiveRules(tenantId);
+  const counts = new Map<string, number>();
+
+  for (const rule of rules) {
+    const index = active.findIndex((activeRule) => activeRule.id === rule.id);
+    const above =
+      index === -1
+        ? active.filter((activeRule) => ranksAbove(activeRule, rule))
+        : active.slice(0, index);
+
+    counts.set(rule.id, await countAffected(rule, above, tenantId));
+  }
+
+  return counts;
+}
+
+/**
+ * How many leads an unsaved rule would change, below the active rules that
+ * rank at or above its priority
+ */
+export async function dryRunDraftRule(
+  tenantId: string,
+  draft: Omit<EvaluatedRule, 'id'> & { priority: number }
+): Promise<number> {
+  const active = await getActiveRules(tenantId);
+  const above = active.filter((rule) => rule.priority >= draft.priority);
+
+  return countAffected({ id: 'draft', ...draft }, above, tenantId);
+}
+
+async function countAffected(
+  rule: EvaluatedRule,
+  above: EvaluatedRule[],
+  tenantId: string
+): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(leads)
+    .where(affected(rule, above, tenantId));
+
+  return Number(result.count);
+}
+
+function ranksAbove(rule: DialingRule, other: DialingRule): boolean {
+  return (
+    rule.priority > other.priority ||
+    (rule.priority === other.priority && rule.createdAt < other.createdAt)
+  );
+}
+
+/**
+ * Run the rules for a lead as soon as one of its calls ends
+ */
+export async function startDialingRuleConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-dialing-rules');
+
+  await consumer.subscribe({ topic: TOPICS.CALLS_ENDED, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = callEndedSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid call ended event:', parsed.error.flatten());
+        return;
+      }
+
+      const call = await db.query.calls.findFirst({
+        where: eq(calls.id, parsed.data.payload.callId),
+        columns: { tenantId: true, leadId: true },
+      });
+
+      if (call?.leadId) {
+        await applyDialingRules(call.tenantId, [call.leadId]).catch((error) => {
+          console.error(`Dialing rules failed for lead ${call.leadId}:`, error);
+        });
+      }
+    },
+  });
+
+  return consumer;
+}
+
+export function startDialingRuleSchedule(): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const rules = await getActiveRules();
+      const tenantIds = new Set(rules.map((rule) => rule.tenantId));
+
+      for (const tenantId of tenantIds) {
+        await applyDialingRules(tenantId);
+      }
+    } catch (error) {
+      console.error('Scheduled dialing rules run failed:', error);
+    }
+  }, SWEEP_INTERVAL);
+}
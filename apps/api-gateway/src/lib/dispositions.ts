@@ -0,0 +1,619 @@
+import { createHmac, randomUUID } from 'crypto';
+import { lookup } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, isIPv4, type LookupFunction } from 'net';
+import { eq, and, inArray, isNull, sql } from 'drizzle-orm';
+import {
+  getDb,
+  calls,
+  callbackSchedules,
+  dncLists,
+  leadHistory,
+  leadLists,
+  leads,
+  type Call,
+  type Disposition,
+  type Lead,
+  type NewLeadHistoryEntry,
+} from '@nexusdialer/database';
+import {
+  TOPICS,
+  dispositionActionsSchema,
+  type DispositionAction,
+  type LeadFollowUpEvent,
+  type NextAction,
+} from '@nexusdialer/events';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+import { applyDialingRules } from './dialing-rules';
+import { publishEvent } from './kafka';
+
+const db = getDb();
+
+// Webhooks that take longer than this are recorded as failed
+const WEBHOOK_TIMEOUT = 10000;
+
+// Addresses webhooks may not reach: loopback, private, link-local and
+// unspecified, so a tenant's URL cannot probe our own network
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+// Lead fields SMS and email follow-ups may use, as {{firstName}}; custom fields as {{custom.key}}
+const TEMPLATE_FIELDS = ['firstName', 'lastName', 'company', 'phoneNumber', 'email'] as const;
+
+export interface DispositionSubmission {
+  notes?: string;
+  callbackAt?: Date;
+  callbackType?: 'any' | 'agent_specific';
+  fields?: Record<string, string>; // extra details the agent captured, kept on the call
+}
+
+export interface ActionOutcome {
+  action: string;
+  // queued: handed on to be done after the response (webhooks, SMS, email)
+  status: 'completed' | 'queued' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface DispositionResult {
+  call: Call;
+  callbackId?: string;
+  actions: ActionOutcome[];
+}
+
+/**
+ * Parse a disposition's follow-up actions and check the lists they move
+ * leads to are the tenant's
+ */
+export async function validateDispositionActions(
+  tenantId: string,
+  input: unknown
+): Promise<DispositionAction[]> {
+  const parsed = dispositionActionsSchema.safeParse(input);
+
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new ValidationError(`actions/${issue.path.join('/')}: ${issue.message}`);
+  }
+
+  const actions = parsed.data;
+  const listIds = actions.flatMap((action) => (action.type === 'move_list' ? [action.listId] : []));
+
+  if (listIds.length === 0) {
+    return actions;
+  }
+
+  const lists = await db.query.leadLists.findMany({
+    where: and(eq(leadLists.tenantId, tenantId), inArray(leadLists.id, listIds)),
+    columns: { id: true },
+  });
+
+  if (lists.length < new Set(listIds).size) {
+    throw new NotFoundError('Lead list not found');
+  }
+
+  return actions;
+}
+
+/**
+ * Whether a call given this disposition must come with a callback time
+ */
+export function requiresCallbackTime(disposition: Disposition): boolean {
+  return disposition.requiresCallback === 1 || disposition.nextAction === 'callback';
+}
+
+function renderTemplate(template: string, lead: Lead): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+    let value: unknown;
+
+    if (key.startsWith('custom.')) {
+      value = (lead.customFields as Record<string, unknown>)[key.slice('custom.'.length)];
+    } else if ((TEMPLATE_FIELDS as readonly string[]).includes(key)) {
+      value = lead[key as (typeof TEMPLATE_FIELDS)[number]];
+    } else {
+      return match;
+    }
+
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+type HistoryValues = Pick<NewLeadHistoryEntry, 'previousValue' | 'newValue'>;
+
+function actionEntry(
+  call: Call,
+  disposition: Disposition,
+  agentId: string,
+  outcome: ActionOutcome,
+  values: HistoryValues = {}
+): NewLeadHistoryEntry {
+  return {
+    tenantId: call.tenantId,
+    leadId: call.leadId!,
+    eventType: 'disposition_action',
+    ...values,
+    metadata: { callId: call.id, dispositionCode: disposition.code, ...outcome },
+    createdBy: agentId,
+  };
+}
+
+/**
+ * Give a call its disposition and run what the disposition is set up to do:
+ * its nextAction, then its follow-up actions in order. The call, its lead
+ * and the callback change together; webhooks, SMS and email are sent after,
+ * so a slow endpoint never holds the agent up. Everything done to the lead is
+ * written to its history.
+ */
+export async function dispositionCall(
+  call: Call,
+  disposition: Disposition,
+  agentId: string,
+  submission: DispositionSubmission
+): Promise<DispositionResult> {
+  if (disposition.campaignId && disposition.campaignId !== call.campaignId) {
+    throw new ValidationError("Disposition is not one of this call's campaign");
+  }
+
+  const { notes, callbackAt, callbackType = 'any', fields = {} } = submission;
+
+  if (requiresCallbackTime(disposition)) {
+    if (!callbackAt) {
+      throw new ValidationError(`${disposition.name} needs a callback time`);
+    }
+
+    if (callbackAt.getTime() <= Date.now()) {
+      throw new ValidationError('Callback must be scheduled in the future');
+    }
+  }
+
+  const nextAction = disposition.nextAction as NextAction;
+  const followUps = disposition.actions as DispositionAction[];
+  const done: Array<{ outcome: ActionOutcome; values?: HistoryValues }> = [];
+
+  const result = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(calls)
+      .set({
+        dispositionId: disposition.id,
+        metadata: sql`${calls.metadata} || ${JSON.stringify({
+          disposition: { agentId, notes, fields, at: new Date().toISOString() },
+        })}::jsonb`,
+      })
+      .where(and(eq(calls.id, call.id), isNull(calls.dispositionId)))
+      .returning();
+
+    if (!updated) {
+      return null;
+    }
+
+    const lead = call.leadId
+      ? await tx.query.leads.findFirst({
+          where: and(eq(leads.id, call.leadId), eq(leads.tenantId, call.tenantId)),
+        })
+      : undefined;
+
+    const history: NewLeadHistoryEntry[] = [];
+    const leadUpdates: Partial<Pick<Lead, 'status' | 'listId'>> = {};
+    let callbackId: string | undefined;
+
+    const setStatus = (action: string, status: string) => {
+      const previous = leadUpdates.status ?? lead?.status;
+      leadUpdates.status = status;
+      done.push({
+        outcome: { action, status: 'completed' },
+        values: { previousValue: { status: previous }, newValue: { status } },
+      });
+    };
+
+    if (lead) {
+      history.push({
+        tenantId: call.tenantId,
+        leadId: lead.id,
+        eventType: 'disposition',
+        newValue: { code: disposition.code, name: disposition.name },
+        metadata: {
+          callId: call.id,
+          dispositionId: disposition.id,
+          isPositive: disposition.isPositive === 1,
+          notes,
+        },
+        createdBy: agentId,
+      });
+    }
+
+    if (requiresCallbackTime(disposition)) {
+      // Inbound callers without a lead are called back on the number they called from
+      const [callback] = await tx
+        .insert(callbackSchedules)
+        .values({
+          tenantId: call.tenantId,
+          leadId: lead?.id,
+          callId: call.id,
+          agentId,
+          phoneNumber: lead ? null : call.phoneNumber,
+          scheduledAt: callbackAt!,
+          callbackType,
+          notes,
+        })
+        .returning();
+
+      callbackId = callback.id;
+      // The callback scheduler dials it from here, not the campaign's dialer
+      leadUpdates.status = 'contacted';
+
+      done.push({
+        outcome: { action: 'callback', status: 'completed' },
+        values: {
+          previousValue: { status: lead?.status },
+          newValue: { status: 'contacted', callbackId, scheduledAt: callbackAt!.toISOString() },
+        },
+      });
+    }
+
+    if (nextAction === 'dnc') {
+      await tx
+        .insert(dncLists)
+        .values({
+          tenantId: call.tenantId,
+          phoneNumber: call.phoneNumber,
+          source: 'disposition',
+          reason: `Dispositioned ${disposition.code}`,
+        })
+        .onConflictDoNothing();
+
+      setStatus('dnc', 'dnc');
+    }
+
+    if (nextAction === 'remove') {
+      setStatus('remove', 'invalid');
+    }
+
+    for (const action of followUps) {
+      if (action.type === 'webhook' || action.type === 'sms' || action.type === 'email') {
+        continue;
+      }
+
+      if (!lead) {
+        done.push({
+          outcome: { action: action.type, status: 'skipped', reason: 'Call has no lead' },
+        });
+        continue;
+      }
+
+      if (action.type === 'set_status') {
+        setStatus('set_status', action.status);
+        continue;
+      }
+
+      const list = await tx.query.leadLists.findFirst({
+        where: and(eq(leadLists.id, action.listId), eq(leadLists.tenantId, call.tenantId)),
+        columns: { id: true },
+      });
+
+      if (!list) {
+        done.push({
+          outcome: { action: 'move_list', status: 'failed', reason: 'Lead list not found' },
+        });
+        continue;
+      }
+
+      done.push({
+        outcome: { action: 'move_list', status: 'completed' },
+        values: {
+          previousValue: { listId: leadUpdates.listId ?? lead.listId },
+          newValue: { listId: list.id },
+        },
+      });
+      leadUpdates.listId = list.id;
+    }
+
+    if (lead && (leadUpdates.status !== undefined || leadUpdates.listId !== undefined)) {
+      await tx
+        .update(leads)
+        .set({ ...leadUpdates, updatedAt: new Date() })
+        .where(eq(leads.id, lead.id));
+
+      if (leadUpdates.listId && leadUpdates.listId !== lead.listId) {
+        await tx
+          .update(leadLists)
+          .set({ totalLeads: sql`${leadLists.totalLeads} - 1`, updatedAt: new Date() })
+          .where(eq(leadLists.id, lead.listId));
+
+        await tx
+          .update(leadLists)
+          .set({ totalLeads: sql`${leadLists.totalLeads} + 1`, updatedAt: new Date() })
+          .where(eq(leadLists.id, leadUpdates.listId));
+      }
+    }
+
+    if (lead) {
+      history.push(
+        ...done.map(({ outcome, values }) =>
+          actionEntry(call, disposition, agentId, outcome, values)
+        )
+      );
+
+      await tx.insert(leadHistory).values(history);
+    }
+
+    return { call: updated, lead, callbackId };
+  });
+
+  if (!result) {
+    throw new ConflictError('Call has already been dispositioned');
+  }
+
+  const { lead } = result;
+
+  // The recycle rules take outcomes as disposition codes, so a lead the
+  // disposition left dialable gets its next attempt from them now
+  if (lead && (nextAction === 'none' || nextAction === 'recycle')) {
+    try {
+      await applyDialingRules(call.tenantId, [lead.id]);
+    } catch (error) {
+      // The scheduled run catches the lead up
+      console.error('Failed to apply dialing rules after disposition:', error);
+    }
+  }
+
+  const later: ActionOutcome[] = [];
+  const laterHistory: NewLeadHistoryEntry[] = [];
+
+  for (const action of followUps) {
+    if (action.type === 'webhook') {
+      void deliverWebhook(action, result.call, disposition, agentId, lead, submission);
+      later.push({ action: 'webhook', status: 'queued' });
+      continue;
+    }
+
+    if (action.type !== 'sms' && action.type !== 'email') {
+      continue;
+    }
+
+    const to = action.type === 'sms' ? lead?.phoneNumber : lead?.email;
+
+    if (!lead || !to) {
+      later.push({
+        action: action.type,
+        status: 'skipped',
+        reason: !lead ? 'Call has no lead' : 'Lead has no email address',
+      });
+      continue;
+    }
+
+    const event: LeadFollowUpEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'leads.follow-up',
+      payload: {
+        followUpId: randomUUID(),
+        leadId: lead.id,
+        callId: call.id,
+        dispositionCode: disposition.code,
+        channel: action.type,
+        to,
+        subject: action.type === 'email' ? renderTemplate(action.subject, lead) : undefined,
+        body: renderTemplate(action.message, lead),
+      },
+    };
+
+    let outcome: ActionOutcome = { action: action.type, status: 'queued' };
+
+    try {
+      await publishEvent(TOPICS.LEADS_FOLLOW_UP, event, lead.id);
+    } catch (error) {
+      console.error(`Failed to queue ${action.type} follow-up:`, error);
+      outcome = { action: action.type, status: 'failed', reason: 'Messaging unavailable' };
+    }
+
+    later.push(outcome);
+    laterHistory.push(
+      actionEntry(call, disposition, agentId, outcome, {
+        newValue: { followUpId: event.payload.followUpId, to },
+      })
+    );
+  }
+
+  if (lead) {
+    laterHistory.push(
+      ...later
+        .filter((outcome) => outcome.status === 'skipped')
+        .map((outcome) => actionEntry(call, disposition, agentId, outcome))
+    );
+
+    if (laterHistory.length > 0) {
+      await db.insert(leadHistory).values(laterHistory);
+    }
+  }
+
+  return {
+    call: result.call,
+    callbackId: result.callbackId,
+    actions: [...done.map(({ outcome }) => outcome), ...later],
+  };
+}
+
+function isInternalAddress(address: string, family: number): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : undefined;
+
+  return mapped && isIPv4(mapped)
+    ? BLOCKED_ADDRESSES.check(mapped, 'ipv4')
+    : BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve a webhook's host for the connection itself and refuse it if any
+ * of its addresses is internal, so the address checked is the one dialed
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.some(({ address, family }) => isInternalAddress(address, family))) {
+      callback(new Error(`${hostname} resolves to an internal address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST to a webhook and return the response status. Redirects are not
+ * followed, as they could lead to an internal address.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(hostname);
+
+  // Connections to an IP address skip the lookup
+  if (family && isInternalAddress(hostname, family)) {
+    return Promise.reject(new Error(`${hostname} is an internal address`));
+  }
+
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicLookup,
+      },
+      (response) => {
+        clearTimeout(timer);
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    const timer = setTimeout(
+      () => outgoing.destroy(new Error('Request timed out')),
+      WEBHOOK_TIMEOUT
+    );
+
+    outgoing.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    outgoing.end(body);
+  });
+}
+
+/**
+ * POST the disposition to a tenant's endpoint, signed with the action's
+ * secret when it has one, and record on the lead whether it was accepted
+ */
+async function deliverWebhook(
+  action: Extract<DispositionAction, { type: 'webhook' }>,
+  call: Call,
+  disposition: Disposition,
+  agentId: string,
+  lead: Lead | undefined,
+  submission: DispositionSubmission
+): Promise<void> {
+  const body = JSON.stringify({
+    event: 'call.dispositioned',
+    timestamp: new Date().toISOString(),
+    tenantId: call.tenantId,
+    call: {
+      id: call.id,
+      campaignId: call.campaignId,
+      agentId,
+      direction: call.direction,
+      status: call.status,
+      phoneNumber: call.phoneNumber,
+      startTime: call.startTime,
+      endTime: call.endTime,
+      talkDuration: call.talkDuration,
+    },
+    disposition: {
+      id: disposition.id,
+      code: disposition.code,
+      name: disposition.name,
+      isPositive: disposition.isPositive === 1,
+      nextAction: disposition.nextAction,
+    },
+    lead: lead
+      ? {
+          id: lead.id,
+          listId: lead.listId,
+          phoneNumber: lead.phoneNumber,
+          firstName: lead.firstName,
+          lastName: lead.lastName,
+          email: lead.email,
+          company: lead.company,
+          customFields: lead.customFields,
+        }
+      : null,
+    notes: submission.notes ?? null,
+    callbackAt: submission.callbackAt?.toISOString() ?? null,
+    fields: submission.fields ?? {},
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-NexusDialer-Event': 'call.dispositioned',
+  };
+
+  if (action.secret) {
+    const signature = createHmac('sha256', action.secret).update(body).digest('hex');
+    headers['X-NexusDialer-Signature'] = `sha256=${signature}`;
+  }
+
+  let outcome: ActionOutcome;
+  let httpStatus: number | undefined;
+
+  try {
+    httpStatus = await postWebhook(action.url, headers, body);
+    outcome =
+      httpStatus >= 200 && httpStatus < 300
+        ? { action: 'webhook', status: 'completed' }
+        : { action: 'webhook', status: 'failed', reason: `HTTP ${httpStatus}` };
+  } catch (error) {
+    outcome = {
+      action: 'webhook',
+      status: 'failed',
+      reason: error instanceof Error ? error.message : 'Request failed',
+    };
+  }
+
+  if (outcome.status === 'failed') {
+    console.error(`Disposition webhook to ${action.url} failed:`, outcome.reason);
+  }
+
+  if (!lead) {
+    return;
+  }
+
+  try {
+    await db.insert(leadHistory).values(
+      actionEntry(call, disposition, agentId, outcome, {
+        newValue: { url: action.url, httpStatus },
+      })
+    );
+  } catch (error) {
+    console.error('Failed to record disposition webhook:', error);
+  }
+}
@@ -0,0 +1,484 @@
+import { eq, and, inArray, sql, type SQL } from 'drizzle-orm';
+import {
+  getDb,
+  calls,
+  callbackSchedules,
+  leadHistory,
+  leadLists,
+  leadScorePredictions,
+  leads,
+  type Lead,
+} from '@nexusdialer/database';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+
+const db = getDb();
+
+export const DUPLICATE_MATCHES = ['phone', 'email', 'name'] as const;
+export type DuplicateMatch = (typeof DUPLICATE_MATCHES)[number];
+
+// Lead columns a merge can take from any of the merged leads
+export const MERGE_FIELDS = [
+  'phoneNumber',
+  'altPhone',
+  'firstName',
+  'lastName',
+  'email',
+  'company',
+  'timezone',
+] as const;
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+export const MAX_MERGE_LEADS = 20;
+
+// Bounds on one scan, so a tenant with a badly duplicated list cannot
+// exhaust the gateway; merging the first groups surfaces the rest
+const MAX_KEY_GROUPS = 5000;
+const MAX_NAME_BLOCK = 500;
+
+// Names at least this similar (1 - edit distance / length) at the same company match
+const NAME_SIMILARITY = 0.85;
+
+// Phone numbers compared on their last ten digits, so +1 (555) 010-0000
+// and 5550100000 are one number
+const phoneKey = sql<string>`right(regexp_replace(${leads.phoneNumber}, '[^0-9]', '', 'g'), 10)`;
+const emailKey = sql<string>`lower(trim(${leads.email}))`;
+// Company without punctuation or a trailing legal suffix: "Acme, Inc." is "acme"
+const companyKey = sql<string>`regexp_replace(
+  regexp_replace(lower(${leads.company}), '[^a-z0-9]', '', 'g'),
+  '(incorporated|corporation|company|limited|inc|llc|ltd|corp|co)$', '')`;
+
+export interface DuplicateSearch {
+  matchBy: DuplicateMatch[];
+  listId?: string; // only groups with a lead in this list
+  limit: number;
+}
+
+export interface DuplicateLead extends Lead {
+  listName: string | null;
+  campaignId: string | null;
+}
+
+export interface DuplicateGroup {
+  matchedBy: DuplicateMatch[];
+  leads: DuplicateLead[];
+}
+
+export interface MergeLeadsInput {
+  canonicalId: string;
+  duplicateIds: string[];
+  // Field or custom field key -> ID of the merged lead whose value to keep;
+  // anything not chosen keeps the canonical lead's value, or the newest other one
+  fields?: Partial<Record<MergeField, string>>;
+  customFields?: Record<string, string>;
+}
+
+/**
+ * Find leads of a tenant that are the same person, by phone number, email
+ * or similar name at the same company. Leads linked by any match form one
+ * group, largest first.
+ */
+export async function findDuplicateGroups(
+  tenantId: string,
+  search: DuplicateSearch
+): Promise<{ groups: DuplicateGroup[]; total: number }> {
+  const links = new DisjointSet();
+
+  if (search.matchBy.includes('phone')) {
+    const groups = await findKeyGroups(
+      tenantId,
+      phoneKey,
+      sql`length(${phoneKey}) >= 7`,
+      search.listId
+    );
+
+    for (const ids of groups) {
+      links.union(ids, 'phone');
+    }
+  }
+
+  if (search.matchBy.includes('email')) {
+    const groups = await findKeyGroups(tenantId, emailKey, sql`${emailKey} <> ''`, search.listId);
+
+    for (const ids of groups) {
+      links.union(ids, 'email');
+    }
+  }
+
+  if (search.matchBy.includes('name')) {
+    for (const ids of await findNameGroups(tenantId, search.listId)) {
+      links.union(ids, 'name');
+    }
+  }
+
+  const all = links.clusters().sort((a, b) => b.ids.length - a.ids.length);
+  const clusters = all.slice(0, search.limit);
+
+  const ids = clusters.flatMap((cluster) => cluster.ids);
+
+  if (ids.length === 0) {
+    return { groups: [], total: 0 };
+  }
+
+  const rows = await db
+    .select({ lead: leads, listName: leadLists.name, campaignId: leadLists.campaignId })
+    .from(leads)
+    .leftJoin(leadLists, eq(leadLists.id, leads.listId))
+    .where(and(eq(leads.tenantId, tenantId), inArray(leads.id, ids)));
+
+  const byId = new Map<string, DuplicateLead>(
+    rows.map((row) => [
+      row.lead.id,
+      { ...row.lead, listName: row.listName, campaignId: row.campaignId },
+    ])
+  );
+
+  return {
+    groups: clusters.map((cluster) => ({
+      matchedBy: DUPLICATE_MATCHES.filter((match) => cluster.matchedBy.has(match)),
+      leads: cluster.ids
+        .map((id) => byId.get(id))
+        .filter((lead): lead is DuplicateLead => lead !== undefined)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    })),
+    total: all.length,
+  };
+}
+
+/**
+ * Merge leads into a canonical one: combine their fields, move their calls,
+ * callbacks and history onto it, then delete them. The merged leads are kept
+ * in full in the canonical lead's history.
+ */
+export async function mergeLeads(
+  tenantId: string,
+  userId: string,
+  input: MergeLeadsInput
+): Promise<Lead> {
+  const duplicateIds = Array.from(new Set(input.duplicateIds));
+
+  if (duplicateIds.includes(input.canonicalId)) {
+    throw new ValidationError('The canonical lead cannot also be merged into itself');
+  }
+
+  const ids = [input.canonicalId, ...duplicateIds];
+
+  const choices = { ...input.fields, ...input.customFields };
+  const unknownChoice = Object.values(choices).find((id) => !ids.includes(id as string));
+
+  if (unknownChoice) {
+    throw new ValidationError(`Lead ${unknownChoice} is not one of the leads being merged`);
+  }
+
+  return db.transaction(async (tx) => {
+    const rows = await tx
+      .select()
+      .from(leads)
+      .where(and(eq(leads.tenantId, tenantId), inArray(leads.id, ids)))
+      .for('update');
+
+    if (rows.length !== ids.length) {
+      throw new NotFoundError('Lead not found');
+    }
+
+    const canonical = rows.find((row) => row.id === input.canonicalId)!;
+    const duplicates = rows
+      .filter((row) => row.id !== input.canonicalId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+    const merged = combineLeads(canonical, duplicates, input);
+
+    const [updated] = await tx
+      .update(leads)
+      .set({ ...merged, updatedAt: new Date() })
+      .where(eq(leads.id, canonical.id))
+      .returning();
+
+    await tx.update(calls).set({ leadId: canonical.id }).where(inArray(calls.leadId, duplicateIds));
+
+    await tx
+      .update(callbackSchedules)
+      .set({ leadId: canonical.id, updatedAt: new Date() })
+      .where(inArray(callbackSchedules.leadId, duplicateIds));
+
+    await tx
+      .update(leadHistory)
+      .set({ leadId: canonical.id })
+      .where(inArray(leadHistory.leadId, duplicateIds));
+
+    await tx
+      .update(leadScorePredictions)
+      .set({ leadId: canonical.id })
+      .where(inArray(leadScorePredictions.leadId, duplicateIds));
+
+    await tx.delete(leads).where(inArray(leads.id, duplicateIds));
+
+    const removedPerList = new Map<string, number>();
+
+    for (const duplicate of duplicates) {
+      removedPerList.set(duplicate.listId, (removedPerList.get(duplicate.listId) ?? 0) + 1);
+    }
+
+    for (const [listId, removed] of removedPerList) {
+      await tx
+        .update(leadLists)
+        .set({
+          totalLeads: sql`GREATEST(${leadLists.totalLeads} - ${removed}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(leadLists.id, listId));
+    }
+
+    await tx.insert(leadHistory).values({
+      tenantId,
+      leadId: canonical.id,
+      eventType: 'merged',
+      previousValue: { canonical, duplicates },
+      newValue: merged,
+      metadata: {
+        mergedLeadIds: duplicateIds,
+        fields: input.fields ?? {},
+        customFields: input.customFields ?? {},
+      },
+      createdBy: userId,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Lead values after a merge. Chosen values win; otherwise the canonical
+ * lead's, then the most recently updated duplicate's. A DNC on any of the
+ * leads carries over, as do their attempts so dialing limits still hold.
+ */
+function combineLeads(canonical: Lead, duplicates: Lead[], input: MergeLeadsInput) {
+  const all = [canonical, ...duplicates];
+  const byId = new Map(all.map((lead) => [lead.id, lead]));
+
+  const pick = <K extends keyof Lead>(field: K, chosenId?: string): Lead[K] => {
+    if (chosenId) {
+      return byId.get(chosenId)![field];
+    }
+
+    const withValue = all.find((lead) => lead[field] !== null && lead[field] !== '');
+
+    return (withValue ?? canonical)[field];
+  };
+
+  const fields = Object.fromEntries(
+    MERGE_FIELDS.map((field) => [field, pick(field, input.fields?.[field])])
+  ) as Pick<Lead, MergeField>;
+
+  // Keep a duplicate's other number reachable when the canonical lead has no second one
+  if (!fields.altPhone) {
+    const other = duplicates.find(
+      (lead) => digits(lead.phoneNumber) !== digits(fields.phoneNumber)
+    );
+    fields.altPhone = other?.phoneNumber ?? null;
+  }
+
+  const customFields: Record<string, unknown> = {};
+
+  for (const lead of [...all].reverse()) {
+    Object.assign(customFields, asRecord(lead.customFields));
+  }
+
+  for (const [key, chosenId] of Object.entries(input.customFields ?? {})) {
+    const chosen = asRecord(byId.get(chosenId)!.customFields);
+
+    if (key in chosen) {
+      customFields[key] = chosen[key];
+    } else {
+      delete customFields[key];
+    }
+  }
+
+  const latest = (dates: Array<Date | null>) =>
+    dates.reduce<Date | null>((max, date) => (date && (!max || date > max) ? date : max), null);
+
+  return {
+    ...fields,
+    customFields,
+    status: all.some((lead) => lead.status === 'dnc') ? 'dnc' : canonical.status,
+    priority: Math.max(...all.map((lead) => lead.priority)),
+    leadScore: pick('leadScore'),
+    bestTimeToCall: pick('bestTimeToCall'),
+    assignedAgentId: pick('assignedAgentId'),
+    attemptCount: all.reduce((sum, lead) => sum + lead.attemptCount, 0),
+    lastAttemptAt: latest(all.map((lead) => lead.lastAttemptAt)),
+    nextAttemptAt: latest(all.map((lead) => lead.nextAttemptAt)),
+    legalHold: all.some((lead) => lead.legalHold),
+  };
+}
+
+/**
+ * IDs of leads sharing a key, per key; with a list, only keys found in it
+ */
+async function findKeyGroups(
+  tenantId: string,
+  key: SQL<string>,
+  hasKey: SQL,
+  listId?: string
+): Promise<string[][]> {
+  const rows = await db
+    .select({ ids: sql<string[]>`array_agg(${leads.id})` })
+    .from(leads)
+    .where(and(eq(leads.tenantId, tenantId), hasKey))
+    .groupBy(key)
+    .having(listId ? sql`count(*) > 1 AND bool_or(${leads.listId} = ${listId})` : sql`count(*) > 1`)
+    .limit(MAX_KEY_GROUPS);
+
+  return rows.map((row) => row.ids);
+}
+
+/**
+ * Leads at the same company whose names are equal or nearly so, which
+ * catches typos and spacing but not nicknames
+ */
+async function findNameGroups(tenantId: string, listId?: string): Promise<string[][]> {
+  const blocks = await findKeyGroups(
+    tenantId,
+    companyKey,
+    sql`${companyKey} <> '' AND coalesce(${leads.firstName}, ${leads.lastName}) IS NOT NULL`,
+    listId
+  );
+
+  const groups: string[][] = [];
+
+  for (const block of blocks) {
+    if (block.length > MAX_NAME_BLOCK) {
+      continue;
+    }
+
+    const rows = await db
+      .select({ id: leads.id, firstName: leads.firstName, lastName: leads.lastName })
+      .from(leads)
+      .where(inArray(leads.id, block));
+
+    const names = rows.map((row) => ({
+      id: row.id,
+      name: [row.firstName, row.lastName]
+        .join('')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, ''),
+    }));
+
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        if (isSimilarName(names[i].name, names[j].name)) {
+          groups.push([names[i].id, names[j].id]);
+        }
+      }
+    }
+  }
+
+  return groups;
+}
+
+function isSimilarName(a: string, b: string): boolean {
+  if (a.length < 3 || b.length < 3) {
+    return false;
+  }
+
+  if (a === b) {
+    return true;
+  }
+
+  const length = Math.max(a.length, b.length);
+
+  return 1 - editDistance(a, b) / length >= NAME_SIMILARITY;
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function digits(phoneNumber: string | null): string {
+  return (phoneNumber ?? '').replace(/\D/g, '').slice(-10);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Union-find over lead IDs, remembering which matches linked each group
+ */
+class DisjointSet {
+  private parent = new Map<string, string>();
+  private matches = new Map<string, Set<DuplicateMatch>>();
+
+  union(ids: string[], match: DuplicateMatch): void {
+    const root = this.find(ids[0]);
+
+    for (const id of ids.slice(1)) {
+      const other = this.find(id);
+
+      if (other !== root) {
+        this.parent.set(other, root);
+
+        for (const linked of this.matchesOf(other)) {
+          this.matchesOf(root).add(linked);
+        }
+
+        this.matches.delete(other);
+      }
+    }
+
+    this.matchesOf(root).add(match);
+  }
+
+  clusters(): Array<{ ids: string[]; matchedBy: Set<DuplicateMatch> }> {
+    const byRoot = new Map<string, string[]>();
+
+    for (const id of this.parent.keys()) {
+      const root = this.find(id);
+      byRoot.set(root, [...(byRoot.get(root) ?? []), id]);
+    }
+
+    return Array.from(byRoot, ([root, ids]) => ({ ids, matchedBy: this.matchesOf(root) }));
+  }
+
+  private find(id: string): string {
+    if (!this.parent.has(id)) {
+      this.parent.set(id, id);
+    }
+
+    let root = id;
+
+    while (this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+
+    this.parent.set(id, root);
+
+    return root;
+  }
+
+  private matchesOf(root: string): Set<DuplicateMatch> {
+    if (!this.matches.has(root)) {
+      this.matches.set(root, new Set());
+    }
+
+    return this.matches.get(root)!;
+  }
+}
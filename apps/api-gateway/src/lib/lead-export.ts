@@ -0,0 +1,304 @@
+import { createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { finished } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import { eq, and, asc, gt, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { getDb, leadExports, leadLists, leads, type LeadExport } from '@nexusdialer/database';
+import { ValidationError } from '../middleware/error-handler';
+import { toCsvLine } from './csv';
+import { buildLeadConditions, leadCallStats, type LeadFilters } from './lead-filters';
+import { uploadFile } from './storage';
+
+const db = getDb();
+
+const EXPORT_DIR = join(tmpdir(), 'nexusdialer-exports');
+
+const BATCH_SIZE = 1000;
+
+export type LeadExportFormat = 'csv' | 'xlsx';
+
+type CellValue = string | number | Date | null;
+
+interface ExportColumn {
+  field: PgColumn | SQL;
+  kind: 'text' | 'number' | 'date';
+}
+
+// Columns an export can include; anything else is a custom:<key> column
+// read from the lead's customFields
+const LEAD_EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  id: { field: leads.id, kind: 'text' },
+  phoneNumber: { field: leads.phoneNumber, kind: 'text' },
+  altPhone: { field: leads.altPhone, kind: 'text' },
+  firstName: { field: leads.firstName, kind: 'text' },
+  lastName: { field: leads.lastName, kind: 'text' },
+  email: { field: leads.email, kind: 'text' },
+  company: { field: leads.company, kind: 'text' },
+  timezone: { field: leads.timezone, kind: 'text' },
+  status: { field: leads.status, kind: 'text' },
+  priority: { field: leads.priority, kind: 'number' },
+  listName: {
+    field: sql`(SELECT ${leadLists.name} FROM ${leadLists}
+      WHERE ${leadLists.id} = ${leads.listId})`,
+    kind: 'text',
+  },
+  attemptCount: { field: leads.attemptCount, kind: 'number' },
+  lastAttemptAt: { field: leads.lastAttemptAt, kind: 'date' },
+  nextAttemptAt: { field: leads.nextAttemptAt, kind: 'date' },
+  callCount: { field: leadCallStats.callCount, kind: 'number' },
+  lastCallAt: { field: leadCallStats.lastCallAt, kind: 'date' },
+  lastDisposition: { field: leadCallStats.lastDisposition, kind: 'text' },
+  totalTalkTime: { field: leadCallStats.totalTalkTime, kind: 'number' },
+  createdAt: { field: leads.createdAt, kind: 'date' },
+};
+
+export const LEAD_EXPORT_COLUMN_NAMES = Object.keys(LEAD_EXPORT_COLUMNS);
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'phoneNumber',
+  'firstName',
+  'lastName',
+  'email',
+  'company',
+  'status',
+  'listName',
+  'attemptCount',
+  'lastCallAt',
+  'lastDisposition',
+];
+
+const CUSTOM_COLUMN_PREFIX = 'custom:';
+
+const CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function validateExportColumns(columns: string[]): void {
+  if (columns.length === 0) {
+    throw new ValidationError('Choose at least one column to export');
+  }
+
+  for (const column of columns) {
+    const custom = column.startsWith(CUSTOM_COLUMN_PREFIX);
+
+    if (custom ? column.length === CUSTOM_COLUMN_PREFIX.length : !LEAD_EXPORT_COLUMNS[column]) {
+      throw new ValidationError(`Unknown export column "${column}"`);
+    }
+  }
+}
+
+export function getExportFileName(leadExport: LeadExport): string {
+  return `leads-${leadExport.createdAt.toISOString().slice(0, 10)}.${leadExport.format}`;
+}
+
+/**
+ * Run an export in the background. The export row tracks its status, and
+ * once completed, where the file was stored.
+ */
+export function startLeadExport(leadExport: LeadExport): void {
+  runLeadExport(leadExport).catch(async (error) => {
+    console.error(`Lead export ${leadExport.id} failed:`, error);
+
+    await db
+      .update(leadExports)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Export failed',
+        updatedAt: new Date(),
+      })
+      .where(eq(leadExports.id, leadExport.id))
+      .catch(() => undefined);
+  });
+}
+
+async function runLeadExport(leadExport: LeadExport): Promise<void> {
+  await db
+    .update(leadExports)
+    .set({ status: 'processing', updatedAt: new Date() })
+    .where(eq(leadExports.id, leadExport.id));
+
+  const format = leadExport.format as LeadExportFormat;
+  const columns = leadExport.columns as string[];
+
+  await mkdir(EXPORT_DIR, { recursive: true });
+
+  const filePath = join(EXPORT_DIR, `${leadExport.id}.${format}`);
+
+  try {
+    const rowCount =
+      format === 'xlsx'
+        ? await writeXlsx(filePath, leadExport, columns)
+        : await writeCsv(filePath, leadExport, columns);
+
+    const { size } = await stat(filePath);
+    const storageUrl = await uploadFile({
+      key: `lead-exports/${leadExport.tenantId}/${leadExport.id}.${format}`,
+      filePath,
+      size,
+      contentType: CONTENT_TYPES[format],
+    });
+
+    await db
+      .update(leadExports)
+      .set({
+        status: 'completed',
+        rowCount,
+        fileSize: size,
+        storageUrl,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(leadExports.id, leadExport.id));
+  } finally {
+    await rm(filePath, { force: true });
+  }
+}
+
+async function writeCsv(filePath: string, leadExport: LeadExport, columns: string[]) {
+  const output = createWriteStream(filePath);
+  const write = async (line: string) => {
+    if (!output.write(line)) {
+      await once(output, 'drain');
+    }
+  };
+
+  let rowCount = 0;
+
+  try {
+    await write(toCsvLine(columns.map(toHeader)));
+
+    for await (const rows of readLeads(leadExport, columns)) {
+      for (const row of rows) {
+        await write(toCsvLine(row.map(toCsvValue)));
+      }
+
+      rowCount += rows.length;
+    }
+  } finally {
+    output.end();
+  }
+
+  await finished(output);
+
+  return rowCount;
+}
+
+async function writeXlsx(filePath: string, leadExport: LeadExport, columns: string[]) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: filePath });
+  const worksheet = workbook.addWorksheet('Leads');
+
+  worksheet.addRow(columns.map(toHeader)).commit();
+
+  let rowCount = 0;
+
+  for await (const rows of readLeads(leadExport, columns)) {
+    for (const row of rows) {
+      worksheet.addRow(row).commit();
+    }
+
+    rowCount += rows.length;
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+
+  return rowCount;
+}
+
+/**
+ * The export's leads in batches of cell values, paged by id so later batches
+ * stay as cheap as the first. Only the call aggregates the export's columns
+ * use are computed.
+ */
+async function* readLeads(
+  leadExport: LeadExport,
+  columns: string[]
+): AsyncGenerator<CellValue[][]> {
+  const conditions = buildLeadConditions(leadExport.tenantId, leadExport.filters as LeadFilters);
+  const fields: Record<string, PgColumn | SQL> = {
+    id: leads.id,
+    customFields: leads.customFields,
+  };
+
+  for (const column of columns) {
+    const exportColumn = LEAD_EXPORT_COLUMNS[column];
+
+    if (exportColumn) {
+      fields[column] = exportColumn.field;
+    }
+  }
+
+  let lastId: string | null = null;
+
+  while (true) {
+    const rows: Record<string, unknown>[] = await db
+      .select(fields)
+      .from(leads)
+      .where(and(...conditions, lastId ? gt(leads.id, lastId) : undefined))
+      .orderBy(asc(leads.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    const batch: CellValue[][] = [];
+
+    for (const row of rows) {
+      batch.push(columns.map((column) => toCellValue(row, column)));
+    }
+
+    yield batch;
+
+    if (rows.length < BATCH_SIZE) {
+      return;
+    }
+
+    lastId = rows[rows.length - 1].id as string;
+  }
+}
+
+function toCellValue(row: Record<string, unknown>, column: string): CellValue {
+  if (column.startsWith(CUSTOM_COLUMN_PREFIX)) {
+    const customFields = (row.customFields ?? {}) as Record<string, unknown>;
+    const value = customFields[column.slice(CUSTOM_COLUMN_PREFIX.length)];
+
+    return value === undefined || value === null ? null : String(value);
+  }
+
+  const value = row[column];
+
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  switch (LEAD_EXPORT_COLUMNS[column].kind) {
+    case 'number':
+      // Counts come back from postgres as strings
+      return Number(value);
+    case 'date':
+      return value instanceof Date ? value : new Date(String(value));
+    default:
+      return String(value);
+  }
+}
+
+function toCsvValue(value: CellValue): string {
+  if (value === null) {
+    return '';
+  }
+
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// Custom columns are headed by their key alone, so the file can be imported again
+function toHeader(column: string): string {
+  return column.startsWith(CUSTOM_COLUMN_PREFIX)
+    ? column.slice(CUSTOM_COLUMN_PREFIX.length)
+    : column;
+}
@@ -0,0 +1,123 @@
+import { eq, or, like, gte, lte, sql, type SQL } from 'drizzle-orm';
+import { calls, dispositions, leads } from '@nexusdialer/database';
+import { ValidationError } from '../middleware/error-handler';
+
+/**
+ * Which leads to list or export
+ */
+export interface LeadFilters {
+  listId?: string;
+  status?: string;
+  search?: string;
+  priority?: number;
+  minAttempts?: number;
+  maxAttempts?: number;
+  lastDisposition?: string; // code of the disposition of the lead's latest dispositioned call
+  customFields?: Record<string, string>; // each must match exactly
+}
+
+export const leadFiltersSchema = {
+  type: 'object',
+  properties: {
+    listId: { type: 'string', format: 'uuid' },
+    status: { type: 'string' },
+    search: { type: 'string' },
+    priority: { type: 'integer' },
+    minAttempts: { type: 'integer', minimum: 0 },
+    maxAttempts: { type: 'integer', minimum: 0 },
+    lastDisposition: { type: 'string' },
+    customFields: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  additionalProperties: false,
+};
+
+// Call history aggregates per lead, as correlated subqueries on leads
+export const leadCallStats = {
+  callCount: sql<number>`(SELECT COUNT(*) FROM ${calls} WHERE ${calls.leadId} = ${leads.id})`,
+  lastCallAt: sql<Date | null>`(SELECT MAX(${calls.startTime}) FROM ${calls}
+    WHERE ${calls.leadId} = ${leads.id})`,
+  totalTalkTime: sql<number>`(SELECT COALESCE(SUM(${calls.talkDuration}), 0) FROM ${calls}
+    WHERE ${calls.leadId} = ${leads.id})`,
+  lastDisposition: sql<string | null>`(SELECT ${dispositions.code} FROM ${calls}
+    INNER JOIN ${dispositions} ON ${dispositions.id} = ${calls.dispositionId}
+    WHERE ${calls.leadId} = ${leads.id}
+    ORDER BY ${calls.startTime} DESC LIMIT 1)`,
+};
+
+export function buildLeadConditions(tenantId: string, filters: LeadFilters): SQL[] {
+  const conditions = [eq(leads.tenantId, tenantId)];
+
+  if (filters.listId) {
+    conditions.push(eq(leads.listId, filters.listId));
+  }
+
+  if (filters.status) {
+    conditions.push(eq(leads.status, filters.status));
+  }
+
+  if (filters.priority !== undefined) {
+    conditions.push(eq(leads.priority, filters.priority));
+  }
+
+  if (filters.minAttempts !== undefined) {
+    conditions.push(gte(leads.attemptCount, filters.minAttempts));
+  }
+
+  if (filters.maxAttempts !== undefined) {
+    conditions.push(lte(leads.attemptCount, filters.maxAttempts));
+  }
+
+  if (filters.lastDisposition) {
+    conditions.push(sql`${leadCallStats.lastDisposition} = ${filters.lastDisposition}`);
+  }
+
+  if (filters.customFields && Object.keys(filters.customFields).length > 0) {
+    conditions.push(
+      sql`${leads.customFields} @> ${JSON.stringify(filters.customFields)}::jsonb`
+    );
+  }
+
+  if (filters.search) {
+    const { search } = filters;
+
+    conditions.push(
+      or(
+        like(leads.phoneNumber, `%${search}%`),
+        like(leads.firstName, `%${search}%`),
+        like(leads.lastName, `%${search}%`),
+        like(leads.email, `%${search}%`),
+        like(leads.company, `%${search}%`)
+      )!
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Custom field filters arrive in a querystring as a JSON object
+ */
+export function parseCustomFieldsFilter(raw?: string): Record<string, string> | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ValidationError('customFields must be a JSON object');
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((value) => typeof value !== 'string')
+  ) {
+    throw new ValidationError('customFields must map field names to strings');
+  }
+
+  return parsed as Record<string, string>;
+}
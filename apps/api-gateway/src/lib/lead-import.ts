@@ -0,0 +1,747 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { parse } from 'csv-parse';
+import ExcelJS from 'exceljs';
+import { eq, and, or, gt, lt, inArray, isNull, sql } from 'drizzle-orm';
+import {
+  getDb,
+  dncLists,
+  leadImportErrors,
+  leadImports,
+  leadLists,
+  leads,
+  type LeadImport,
+  type NewLead,
+  type NewLeadImportError,
+} from '@nexusdialer/database';
+import type { LeadImportProgressPayload } from '@nexusdialer/events';
+import {
+  emailSchema,
+  formatForDNC,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+} from '@nexusdialer/utils';
+import { ValidationError } from '../middleware/error-handler';
+import { emitToUser } from '../socket';
+
+const db = getDb();
+
+const IMPORT_DIR = process.env.LEAD_IMPORT_DIR || join(tmpdir(), 'nexusdialer-imports');
+
+const BATCH_SIZE = 1000;
+
+// A running import saves its counts after every batch, so one that has not
+// in this long died with the gateway running it. Uploads this old that no
+// import holds were left by an upload that failed part way.
+const STALE_AFTER = parseInt(process.env.LEAD_IMPORT_STALE_AFTER || '1800', 10) * 1000;
+const SWEEP_INTERVAL = 15 * 60 * 1000;
+const SAMPLE_ROWS = 5;
+
+export type LeadImportFileType = 'csv' | 'xlsx';
+export type DuplicatePolicy = 'skip' | 'update' | 'allow';
+export type DuplicateScope = 'list' | 'tenant';
+
+// Lead fields a file column can be mapped to, with their column lengths;
+// anything else goes into customFields as custom:<key>
+export const LEAD_IMPORT_FIELDS = {
+  phoneNumber: 20,
+  altPhone: 20,
+  firstName: 100,
+  lastName: 100,
+  email: 255,
+  company: 255,
+  timezone: 50,
+  priority: null,
+} as const;
+
+export const CUSTOM_FIELD_PREFIX = 'custom:';
+
+type LeadImportField = keyof typeof LEAD_IMPORT_FIELDS;
+type TextField = 'firstName' | 'lastName' | 'company' | 'timezone';
+
+// File column header -> lead field or custom:<key>
+export type LeadImportMapping = Record<string, string>;
+
+interface ImportRow {
+  rowNumber: number; // as the file's author sees it, the header being row 1
+  cells: string[];
+}
+
+interface MappedLead {
+  phoneNumber: string;
+  fields: Partial<Record<Exclude<LeadImportField, 'phoneNumber' | 'priority'>, string>>;
+  priority?: number;
+  customFields: Record<string, string>;
+}
+
+interface ImportCounts {
+  processedRows: number;
+  importedRows: number;
+  updatedRows: number;
+  duplicateRows: number;
+  dncRows: number;
+  errorRows: number;
+}
+
+export function getLeadImportFileType(fileName: string): LeadImportFileType | null {
+  const extension = extname(fileName).toLowerCase();
+
+  if (extension === '.csv' || extension === '.txt') {
+    return 'csv';
+  }
+
+  return extension === '.xlsx' ? 'xlsx' : null;
+}
+
+/**
+ * Write an upload to disk for the import to read later. Returns its size in bytes.
+ */
+export async function spoolImportFile(file: Readable, fileType: LeadImportFileType) {
+  await mkdir(IMPORT_DIR, { recursive: true });
+
+  const filePath = join(IMPORT_DIR, `${randomUUID()}.${fileType}`);
+
+  try {
+    await pipeline(file, createWriteStream(filePath));
+  } catch (error) {
+    await removeImportFile(filePath);
+    throw error;
+  }
+
+  const { size } = await stat(filePath);
+
+  return { filePath, fileSize: size };
+}
+
+export async function removeImportFile(filePath: string | null): Promise<void> {
+  if (filePath) {
+    await rm(filePath, { force: true });
+  }
+}
+
+/**
+ * The file's column headers and first few rows, to map columns against.
+ * Blank headers are named after their position and repeated ones numbered,
+ * so every column can be told apart in a mapping.
+ */
+export async function readImportPreview(filePath: string, fileType: LeadImportFileType) {
+  const input = createReadStream(filePath);
+  let headers: string[] | null = null;
+  const sampleRows: string[][] = [];
+
+  try {
+    for await (const row of readRows(input, fileType)) {
+      if (!headers) {
+        headers = toHeaders(row.cells);
+        continue;
+      }
+
+      sampleRows.push(row.cells);
+
+      if (sampleRows.length >= SAMPLE_ROWS) {
+        break;
+      }
+    }
+  } finally {
+    input.destroy();
+  }
+
+  if (!headers || headers.length === 0) {
+    throw new ValidationError('The file has no header row');
+  }
+
+  return { headers, sampleRows };
+}
+
+/**
+ * Check a mapping against the file's headers. The phone number must be
+ * mapped, and each lead field from one column at most.
+ */
+export function validateImportMapping(mapping: LeadImportMapping, headers: string[]): void {
+  const targets = new Set<string>();
+
+  for (const [header, target] of Object.entries(mapping)) {
+    if (!headers.includes(header)) {
+      throw new ValidationError(`The file has no column named "${header}"`);
+    }
+
+    if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      if (!target.slice(CUSTOM_FIELD_PREFIX.length).trim()) {
+        throw new ValidationError(`Column "${header}" is mapped to a custom field with no name`);
+      }
+    } else if (!(target in LEAD_IMPORT_FIELDS)) {
+      throw new ValidationError(`Column "${header}" is mapped to unknown field "${target}"`);
+    }
+
+    if (targets.has(target)) {
+      throw new ValidationError(`More than one column is mapped to "${target}"`);
+    }
+
+    targets.add(target);
+  }
+
+  if (!targets.has('phoneNumber')) {
+    throw new ValidationError('A column must be mapped to phoneNumber');
+  }
+}
+
+/**
+ * Run an import in the background. Progress goes to the user who started
+ * it over the socket server, and the import row keeps the final counts.
+ */
+export function startLeadImport(leadImport: LeadImport): void {
+  runLeadImport(leadImport).catch(async (error) => {
+    console.error(`Lead import ${leadImport.id} failed:`, error);
+
+    const message = error instanceof Error ? error.message : 'Import failed';
+
+    await db
+      .update(leadImports)
+      .set({ status: 'failed', error: message, filePath: null, updatedAt: new Date() })
+      .where(eq(leadImports.id, leadImport.id))
+      .catch(() => undefined);
+
+    await removeImportFile(leadImport.filePath).catch(() => undefined);
+
+    notify(leadImport, { status: 'failed', percent: 100, error: message });
+  });
+}
+
+/**
+ * Fail imports left running by a gateway that stopped, and delete uploads
+ * no import holds. Runs at startup and then on a schedule; every gateway
+ * may run it, as it only touches imports and files gone stale.
+ */
+export function startLeadImportSweep(): NodeJS.Timeout {
+  const sweep = () =>
+    sweepLeadImports().catch((error) => {
+      console.error('Lead import sweep failed:', error);
+    });
+
+  sweep();
+
+  return setInterval(sweep, SWEEP_INTERVAL);
+}
+
+async function sweepLeadImports(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER);
+  const message = 'The import was interrupted; start it again from a new upload';
+
+  const interrupted = await db
+    .update(leadImports)
+    .set({ status: 'failed', error: message, filePath: null, updatedAt: new Date() })
+    .where(and(eq(leadImports.status, 'processing'), lt(leadImports.updatedAt, staleBefore)))
+    .returning();
+
+  for (const leadImport of interrupted) {
+    await removeImportFile(leadImport.filePath);
+    notify(leadImport, { status: 'failed', percent: 100, error: message });
+  }
+
+  const fileNames = await readdir(IMPORT_DIR).catch(() => [] as string[]);
+  const candidates: string[] = [];
+
+  for (const fileName of fileNames) {
+    const filePath = join(IMPORT_DIR, fileName);
+    const stats = await stat(filePath).catch(() => null);
+
+    if (stats?.isFile() && stats.mtime < staleBefore) {
+      candidates.push(filePath);
+    }
+  }
+
+  for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+    const chunk = candidates.slice(i, i + BATCH_SIZE);
+    const held = await db
+      .select({ filePath: leadImports.filePath })
+      .from(leadImports)
+      .where(inArray(leadImports.filePath, chunk));
+    const heldPaths = new Set(held.map((row) => row.filePath));
+
+    for (const filePath of chunk) {
+      if (!heldPaths.has(filePath)) {
+        await removeImportFile(filePath);
+      }
+    }
+  }
+}
+
+async function runLeadImport(leadImport: LeadImport): Promise<void> {
+  if (!leadImport.filePath) {
+    throw new Error('The uploaded file is no longer available');
+  }
+
+  const fileType = leadImport.fileType as LeadImportFileType;
+  const headers = leadImport.headers as string[];
+  const mapping = leadImport.mapping as LeadImportMapping;
+
+  const columns = headers
+    .map((header, index) => ({ index, target: mapping[header] }))
+    .filter((column) => Boolean(column.target));
+
+  const counts: ImportCounts = {
+    processedRows: 0,
+    importedRows: 0,
+    updatedRows: 0,
+    duplicateRows: 0,
+    dncRows: 0,
+    errorRows: 0,
+  };
+
+  // Phone numbers seen so far in the file, with the row they were first on;
+  // only needed to skip duplicates, as updates find earlier rows' leads
+  const seen = new Map<string, number>();
+  const input = createReadStream(leadImport.filePath);
+  const percent = () =>
+    Math.min(99, Math.floor((input.bytesRead / Math.max(leadImport.fileSize, 1)) * 100));
+
+  let batch: ImportRow[] = [];
+  let header = true;
+
+  try {
+    for await (const row of readRows(input, fileType)) {
+      if (header) {
+        header = false;
+        continue;
+      }
+
+      if (row.cells.every((cell) => cell === '')) {
+        continue;
+      }
+
+      batch.push(row);
+
+      if (batch.length >= BATCH_SIZE) {
+        await processBatch(leadImport, columns, batch, seen, counts);
+        batch = [];
+        notify(leadImport, { status: 'processing', percent: percent(), ...counts });
+      }
+    }
+
+    if (batch.length > 0) {
+      await processBatch(leadImport, columns, batch, seen, counts);
+    }
+  } finally {
+    input.destroy();
+  }
+
+  await db
+    .update(leadImports)
+    .set({
+      ...counts,
+      status: 'completed',
+      totalRows: counts.processedRows,
+      filePath: null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(leadImports.id, leadImport.id));
+
+  await removeImportFile(leadImport.filePath);
+
+  notify(leadImport, { status: 'completed', percent: 100, ...counts });
+}
+
+/**
+ * Validate, scrub and dedupe a batch of rows, then write the leads it adds
+ * or updates, its rejected rows and the running counts together
+ */
+async function processBatch(
+  leadImport: LeadImport,
+  columns: Array<{ index: number; target: string }>,
+  rows: ImportRow[],
+  seen: Map<string, number>,
+  counts: ImportCounts
+): Promise<void> {
+  const rejected: NewLeadImportError[] = [];
+  const reject = (row: ImportRow, reason: string, message: string) => {
+    rejected.push({
+      importId: leadImport.id,
+      rowNumber: row.rowNumber,
+      reason,
+      message,
+      row: row.cells,
+    });
+  };
+
+  const mapped: Array<{ row: ImportRow; lead: MappedLead }> = [];
+
+  for (const row of rows) {
+    const result = mapRow(row.cells, columns);
+
+    if ('reason' in result) {
+      reject(row, result.reason, result.message);
+      counts.errorRows++;
+    } else {
+      mapped.push({ row, lead: result });
+    }
+  }
+
+  const phoneNumbers = Array.from(new Set(mapped.map(({ lead }) => lead.phoneNumber)));
+  const dnc = leadImport.scrubDnc
+    ? await findDncNumbers(leadImport.tenantId, phoneNumbers)
+    : new Set<string>();
+  const existing =
+    leadImport.duplicatePolicy === 'allow'
+      ? new Map<string, string[]>()
+      : await findExistingLeads(leadImport, phoneNumbers);
+
+  const inserts = new Map<string, NewLead>();
+  const allowed: NewLead[] = [];
+  const updates: Array<{ ids: string[]; lead: MappedLead }> = [];
+
+  for (const { row, lead } of mapped) {
+    if (dnc.has(lead.phoneNumber)) {
+      reject(row, 'dnc', 'Phone number is on the Do Not Call list');
+      counts.dncRows++;
+      continue;
+    }
+
+    if (leadImport.duplicatePolicy === 'allow') {
+      allowed.push(toNewLead(leadImport, lead));
+      continue;
+    }
+
+    const existingIds = existing.get(lead.phoneNumber);
+
+    if (leadImport.duplicatePolicy === 'skip') {
+      const firstRow = seen.get(lead.phoneNumber);
+
+      if (firstRow || existingIds) {
+        reject(
+          row,
+          'duplicate',
+          firstRow
+            ? `Same phone number as row ${firstRow}`
+            : leadImport.duplicateScope === 'tenant'
+              ? 'Phone number is already a lead'
+              : 'Phone number is already a lead in the list'
+        );
+        counts.duplicateRows++;
+        continue;
+      }
+
+      seen.set(lead.phoneNumber, row.rowNumber);
+    }
+
+    // Rows of earlier batches are leads by now, so only this batch's are pending
+    const pending = inserts.get(lead.phoneNumber);
+
+    if (pending) {
+      Object.assign(pending, toNewLead(leadImport, lead), {
+        customFields: { ...(pending.customFields as object), ...lead.customFields },
+      });
+      counts.updatedRows++;
+    } else if (existingIds) {
+      updates.push({ ids: existingIds, lead });
+      counts.updatedRows++;
+    } else {
+      inserts.set(lead.phoneNumber, toNewLead(leadImport, lead));
+    }
+  }
+
+  const newLeads = [...inserts.values(), ...allowed];
+  counts.importedRows += newLeads.length;
+  counts.processedRows += rows.length;
+
+  await db.transaction(async (tx) => {
+    if (newLeads.length > 0) {
+      await tx.insert(leads).values(newLeads);
+
+      await tx
+        .update(leadLists)
+        .set({
+          totalLeads: sql`${leadLists.totalLeads} + ${newLeads.length}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(leadLists.id, leadImport.listId));
+    }
+
+    for (const { ids, lead } of updates) {
+      await tx
+        .update(leads)
+        .set({
+          ...lead.fields,
+          ...(lead.priority === undefined ? {} : { priority: lead.priority }),
+          customFields: sql`${leads.customFields} || ${JSON.stringify(lead.customFields)}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(leads.tenantId, leadImport.tenantId), inArray(leads.id, ids)));
+    }
+
+    if (rejected.length > 0) {
+      await tx.insert(leadImportErrors).values(rejected);
+    }
+
+    await tx
+      .update(leadImports)
+      .set({ ...counts, updatedAt: new Date() })
+      .where(eq(leadImports.id, leadImport.id));
+  });
+}
+
+/**
+ * Build a lead from a row's mapped cells; empty cells leave their field unset
+ */
+function mapRow(
+  cells: string[],
+  columns: Array<{ index: number; target: string }>
+): MappedLead | { reason: string; message: string } {
+  const lead: MappedLead = { phoneNumber: '', fields: {}, customFields: {} };
+
+  for (const { index, target } of columns) {
+    const value = cells[index] ?? '';
+
+    if (!value) {
+      continue;
+    }
+
+    if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      lead.customFields[target.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+      continue;
+    }
+
+    switch (target as LeadImportField) {
+      case 'phoneNumber':
+        if (!isValidPhoneNumber(value)) {
+          return { reason: 'invalid_phone', message: `Invalid phone number "${value}"` };
+        }
+        lead.phoneNumber = normalizePhoneNumber(value);
+        break;
+
+      case 'altPhone':
+        if (!isValidPhoneNumber(value)) {
+          return { reason: 'invalid_alt_phone', message: `Invalid alternate phone "${value}"` };
+        }
+        lead.fields.altPhone = normalizePhoneNumber(value);
+        break;
+
+      case 'email':
+        if (!emailSchema.safeParse(value).success) {
+          return { reason: 'invalid_email', message: `Invalid email "${value}"` };
+        }
+        lead.fields.email = value.slice(0, LEAD_IMPORT_FIELDS.email);
+        break;
+
+      case 'priority': {
+        const priority = Number(value);
+
+        if (!Number.isInteger(priority)) {
+          return {
+            reason: 'invalid_priority',
+            message: `Priority "${value}" is not a whole number`,
+          };
+        }
+        lead.priority = priority;
+        break;
+      }
+
+      case 'firstName':
+      case 'lastName':
+      case 'company':
+      case 'timezone':
+        lead.fields[target as TextField] = value.slice(0, LEAD_IMPORT_FIELDS[target as TextField]);
+        break;
+    }
+  }
+
+  if (!lead.phoneNumber) {
+    return { reason: 'missing_phone', message: 'No phone number' };
+  }
+
+  return lead;
+}
+
+function toNewLead(leadImport: LeadImport, lead: MappedLead): NewLead {
+  return {
+    tenantId: leadImport.tenantId,
+    listId: leadImport.listId,
+    phoneNumber: lead.phoneNumber,
+    ...lead.fields,
+    ...(lead.priority === undefined ? {} : { priority: lead.priority }),
+    customFields: lead.customFields,
+    status: 'new',
+    attemptCount: 0,
+  };
+}
+
+/**
+ * Numbers on the tenant's DNC list, matched as E.164 or in DNC digit format
+ * the way the dialer's compliance check does; expired entries do not count
+ */
+async function findDncNumbers(tenantId: string, phoneNumbers: string[]): Promise<Set<string>> {
+  const matched = new Set<string>();
+
+  if (phoneNumbers.length === 0) {
+    return matched;
+  }
+
+  const entries = await db
+    .select({ phoneNumber: dncLists.phoneNumber })
+    .from(dncLists)
+    .where(
+      and(
+        eq(dncLists.tenantId, tenantId),
+        inArray(dncLists.phoneNumber, [...phoneNumbers, ...phoneNumbers.map(formatForDNC)]),
+        or(isNull(dncLists.expiresAt), gt(dncLists.expiresAt, new Date()))
+      )
+    );
+
+  const listed = new Set(entries.map((entry) => entry.phoneNumber));
+
+  for (const phoneNumber of phoneNumbers) {
+    if (listed.has(phoneNumber) || listed.has(formatForDNC(phoneNumber))) {
+      matched.add(phoneNumber);
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * IDs of the leads already in the import's list, or its tenant, by phone number
+ */
+async function findExistingLeads(
+  leadImport: LeadImport,
+  phoneNumbers: string[]
+): Promise<Map<string, string[]>> {
+  const existing = new Map<string, string[]>();
+
+  if (phoneNumbers.length === 0) {
+    return existing;
+  }
+
+  const rows = await db
+    .select({ id: leads.id, phoneNumber: leads.phoneNumber })
+    .from(leads)
+    .where(
+      and(
+        eq(leads.tenantId, leadImport.tenantId),
+        inArray(leads.phoneNumber, phoneNumbers),
+        leadImport.duplicateScope === 'tenant' ? undefined : eq(leads.listId, leadImport.listId)
+      )
+    );
+
+  for (const row of rows) {
+    existing.set(row.phoneNumber, [...(existing.get(row.phoneNumber) ?? []), row.id]);
+  }
+
+  return existing;
+}
+
+function notify(
+  leadImport: LeadImport,
+  progress: Partial<LeadImportProgressPayload> &
+    Pick<LeadImportProgressPayload, 'status' | 'percent'>
+): void {
+  if (!leadImport.createdBy) {
+    return;
+  }
+
+  emitToUser(leadImport.createdBy, 'leads:import-progress', {
+    importId: leadImport.id,
+    listId: leadImport.listId,
+    processedRows: 0,
+    importedRows: 0,
+    updatedRows: 0,
+    duplicateRows: 0,
+    dncRows: 0,
+    errorRows: 0,
+    ...progress,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Rows of a CSV or of an XLSX file's first sheet, as trimmed strings
+ */
+async function* readRows(input: Readable, fileType: LeadImportFileType): AsyncGenerator<ImportRow> {
+  if (fileType === 'csv') {
+    const parser = input.pipe(
+      parse({ bom: true, info: true, relax_column_count: true, skip_empty_lines: true, trim: true })
+    );
+
+    // A row's number is the line it ends on
+    for await (const { record, info } of parser as AsyncIterable<{
+      record: string[];
+      info: { lines: number };
+    }>) {
+      yield { rowNumber: info.lines, cells: record };
+    }
+
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'ignore',
+    worksheets: 'emit',
+  });
+
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      const values = row.values as ExcelJS.CellValue[];
+
+      yield {
+        rowNumber: row.number,
+        cells: Array.from({ length: Math.max(values.length - 1, 0) }, (_, index) =>
+          cellText(values[index + 1])
+        ),
+      };
+    }
+
+    // Only the first sheet is imported
+    break;
+  }
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value !== 'object') {
+    return String(value).trim();
+  }
+
+  if ('richText' in value) {
+    return value.richText.map((part) => part.text).join('').trim();
+  }
+
+  if ('text' in value) {
+    return String(value.text).trim();
+  }
+
+  if ('result' in value) {
+    return cellText(value.result as ExcelJS.CellValue);
+  }
+
+  return '';
+}
+
+function toHeaders(cells: string[]): string[] {
+  const headers: string[] = [];
+
+  cells.forEach((cell, index) => {
+    const name = cell || `Column ${index + 1}`;
+    let header = name;
+
+    for (let n = 2; headers.includes(header); n++) {
+      header = `${name} (${n})`;
+    }
+
+    headers.push(header);
+  });
+
+  return headers;
+}
@@ -0,0 +1,432 @@
+import { randomUUID } from 'crypto';
+import type { Consumer } from 'kafkajs';
+import { eq, and } from 'drizzle-orm';
+import { getDb, users, agentProfiles, teams, teamMembers } from '@nexusdialer/database';
+import {
+  TOPICS,
+  callMonitorStateSchema,
+  type CallMonitorControlEvent,
+  type MonitorMode,
+  type MonitorSessionPayload,
+} from '@nexusdialer/events';
+import { publishEvent, createKafkaConsumer } from './kafka';
+import { getRedis, getLiveCall, type LiveCall } from './redis';
+import { recordAudit } from './audit';
+import { emitToDashboard, emitToUser } from '../socket';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler';
+
+const db = getDb();
+
+export interface MonitorActor {
+  id: string;
+  tenantId: string;
+  role: string;
+}
+
+export interface MonitorSession {
+  sessionId: string;
+  tenantId: string;
+  callId: string;
+  agentId?: string;
+  supervisorId: string;
+  supervisorName: string;
+  extension: string;
+  mode: MonitorMode;
+  status: 'connecting' | 'active';
+  startedAt: string;
+}
+
+// Modes the agent hears the supervisor in; only one supervisor at a time
+const SPEAKING_MODES: MonitorMode[] = ['whisper', 'barge'];
+
+// Longest a session is kept if the dialer never reports it ended
+const SESSION_TTL = 4 * 60 * 60;
+
+const MONITOR_KEYS = {
+  session: (sessionId: string) => `monitor:session:${sessionId}`,
+  call: (callId: string) => `monitor:call:${callId}`,
+  tenant: (tenantId: string) => `monitor:tenant:${tenantId}`,
+  // Held by the one session whispering or barging into the call
+  speaker: (callId: string) => `monitor:speaker:${callId}`,
+};
+
+async function getSession(sessionId: string): Promise<MonitorSession | null> {
+  const data = await getRedis().get(MONITOR_KEYS.session(sessionId));
+  return data ? JSON.parse(data) : null;
+}
+
+async function saveSession(session: MonitorSession): Promise<void> {
+  await getRedis()
+    .multi()
+    .setex(MONITOR_KEYS.session(session.sessionId), SESSION_TTL, JSON.stringify(session))
+    .sadd(MONITOR_KEYS.call(session.callId), session.sessionId)
+    .expire(MONITOR_KEYS.call(session.callId), SESSION_TTL)
+    .sadd(MONITOR_KEYS.tenant(session.tenantId), session.sessionId)
+    .exec();
+}
+
+async function removeSession(session: MonitorSession): Promise<void> {
+  await getRedis()
+    .multi()
+    .del(MONITOR_KEYS.session(session.sessionId))
+    .srem(MONITOR_KEYS.call(session.callId), session.sessionId)
+    .srem(MONITOR_KEYS.tenant(session.tenantId), session.sessionId)
+    .exec();
+
+  await releaseSpeaker(session);
+}
+
+/**
+ * Sessions by id, dropping ids whose session has expired
+ */
+async function loadSessions(setKey: string): Promise<MonitorSession[]> {
+  const client = getRedis();
+  const sessionIds = await client.smembers(setKey);
+
+  if (sessionIds.length === 0) {
+    return [];
+  }
+
+  const data = await client.mget(sessionIds.map(MONITOR_KEYS.session));
+  const expired = sessionIds.filter((_, index) => data[index] === null);
+
+  if (expired.length > 0) {
+    await client.srem(setKey, ...expired);
+  }
+
+  return data
+    .filter((session): session is string => session !== null)
+    .map((session) => JSON.parse(session));
+}
+
+export function listCallMonitorSessions(callId: string): Promise<MonitorSession[]> {
+  return loadSessions(MONITOR_KEYS.call(callId));
+}
+
+export function listMonitorSessions(tenantId: string): Promise<MonitorSession[]> {
+  return loadSessions(MONITOR_KEYS.tenant(tenantId));
+}
+
+/**
+ * Admins may monitor any call; supervisors only calls of agents on a team
+ * they manage
+ */
+async function authorizeCall(actor: MonitorActor, call: LiveCall): Promise<void> {
+  if (actor.role === 'admin') {
+    return;
+  }
+
+  const [membership] = await db
+    .select({ teamId: teams.id })
+    .from(teamMembers)
+    .innerJoin(teams, eq(teamMembers.teamId, teams.id))
+    .where(
+      and(
+        eq(teams.tenantId, actor.tenantId),
+        eq(teams.managerId, actor.id),
+        eq(teamMembers.userId, call.agentId!)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new ForbiddenError("Only calls of your teams' agents can be monitored");
+  }
+}
+
+/**
+ * Whisper and barge are exclusive so the agent never has two supervisors
+ * talking in their ear. The speaker key is set only if no other session
+ * holds it, so two supervisors switching at once cannot both get in.
+ */
+async function claimSpeaker(session: MonitorSession, mode: MonitorMode): Promise<void> {
+  if (!SPEAKING_MODES.includes(mode)) {
+    return;
+  }
+
+  const client = getRedis();
+  const key = MONITOR_KEYS.speaker(session.callId);
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (await client.set(key, session.sessionId, 'EX', SESSION_TTL, 'NX')) {
+      return;
+    }
+
+    const holderId = await client.get(key);
+
+    if (holderId === session.sessionId) {
+      return;
+    }
+
+    const holder = holderId ? await getSession(holderId) : null;
+
+    if (holder) {
+      throw new ConflictError(`${holder.supervisorName} is already speaking on this call`);
+    }
+
+    // Left behind by a session that has since expired
+    if (holderId && (await client.get(key)) === holderId) {
+      await client.del(key);
+    }
+  }
+
+  throw new ConflictError('Another supervisor is already speaking on this call');
+}
+
+async function releaseSpeaker(session: MonitorSession): Promise<void> {
+  const client = getRedis();
+  const key = MONITOR_KEYS.speaker(session.callId);
+
+  if ((await client.get(key)) === session.sessionId) {
+    await client.del(key);
+  }
+}
+
+async function publishControl(
+  session: MonitorSession,
+  action: CallMonitorControlEvent['payload']['action']
+): Promise<void> {
+  const event: CallMonitorControlEvent = {
+    eventId: randomUUID(),
+    tenantId: session.tenantId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type: 'calls.monitor-control',
+    payload: {
+      sessionId: session.sessionId,
+      callId: session.callId,
+      supervisorId: session.supervisorId,
+      extension: session.extension,
+      action,
+      mode: session.mode,
+    },
+  };
+
+  await publishEvent(TOPICS.CALLS_MONITOR_CONTROL, event, session.callId);
+}
+
+/**
+ * Show a session change on every supervisor's dashboard, and to the
+ * supervisor in it wherever they are
+ */
+function broadcast(
+  session: MonitorSession,
+  status: MonitorSessionPayload['status'] = session.status,
+  error?: string
+): void {
+  const { tenantId, extension, ...rest } = session;
+  const payload: MonitorSessionPayload = {
+    ...rest,
+    status,
+    error,
+    timestamp: new Date().toISOString(),
+  };
+
+  emitToDashboard(tenantId, 'call:monitor-updated', payload);
+  emitToUser(session.supervisorId, 'call:monitor-updated', payload);
+}
+
+/**
+ * Join a live call as a supervisor. The dialer engine rings the
+ * supervisor's softphone and reports when they are in on calls.monitor-state.
+ */
+export async function startMonitoring(
+  actor: MonitorActor,
+  callId: string,
+  mode: MonitorMode
+): Promise<MonitorSession> {
+  const call = await getLiveCall(callId);
+
+  if (!call || call.tenantId !== actor.tenantId || call.endTime) {
+    throw new NotFoundError('Call not found');
+  }
+
+  if (!call.answerTime || !call.agentId) {
+    throw new ValidationError('Call is not connected to an agent');
+  }
+
+  if (call.agentId === actor.id) {
+    throw new ValidationError('You cannot monitor your own call');
+  }
+
+  await authorizeCall(actor, call);
+
+  const profile = await db.query.agentProfiles.findFirst({
+    where: eq(agentProfiles.userId, actor.id),
+  });
+
+  if (!profile?.extension) {
+    throw new ValidationError('A softphone extension is needed to monitor calls');
+  }
+
+  const sessions = await listCallMonitorSessions(callId);
+
+  if (sessions.some((session) => session.supervisorId === actor.id)) {
+    throw new ConflictError('You are already monitoring this call');
+  }
+
+  const supervisor = await db.query.users.findFirst({
+    where: eq(users.id, actor.id),
+  });
+
+  const session: MonitorSession = {
+    sessionId: randomUUID(),
+    tenantId: actor.tenantId,
+    callId,
+    agentId: call.agentId,
+    supervisorId: actor.id,
+    supervisorName: supervisor ? `${supervisor.firstName} ${supervisor.lastName}` : 'Supervisor',
+    extension: profile.extension,
+    mode,
+    status: 'connecting',
+    startedAt: new Date().toISOString(),
+  };
+
+  // Saved first, so a session holding the speaker key can always be found
+  await saveSession(session);
+
+  try {
+    await claimSpeaker(session, mode);
+    await publishControl(session, 'start');
+  } catch (error) {
+    await removeSession(session);
+    throw error;
+  }
+
+  await recordAudit({
+    tenantId: actor.tenantId,
+    actorId: actor.id,
+    action: 'monitor.started',
+    resourceType: 'call',
+    resourceId: callId,
+    details: { sessionId: session.sessionId, agentId: call.agentId, mode },
+  });
+
+  broadcast(session);
+
+  return session;
+}
+
+/**
+ * Switch between listen, whisper and barge without leaving the call
+ */
+export async function changeMonitorMode(
+  actor: MonitorActor,
+  sessionId: string,
+  mode: MonitorMode
+): Promise<MonitorSession> {
+  const session = await getSession(sessionId);
+
+  if (!session || session.tenantId !== actor.tenantId) {
+    throw new NotFoundError('Monitoring session not found');
+  }
+
+  if (session.supervisorId !== actor.id) {
+    throw new ForbiddenError('Only the supervisor in a session can switch its mode');
+  }
+
+  if (session.mode === mode) {
+    return session;
+  }
+
+  await claimSpeaker(session, mode);
+
+  const updated: MonitorSession = { ...session, mode };
+
+  await saveSession(updated);
+
+  if (!SPEAKING_MODES.includes(mode)) {
+    await releaseSpeaker(updated);
+  }
+
+  await publishControl(updated, 'mode');
+
+  await recordAudit({
+    tenantId: actor.tenantId,
+    actorId: actor.id,
+    action: 'monitor.mode_changed',
+    resourceType: 'call',
+    resourceId: session.callId,
+    details: { sessionId, agentId: session.agentId, from: session.mode, to: mode },
+  });
+
+  broadcast(updated);
+
+  return updated;
+}
+
+/**
+ * Leave a call. Admins may also end another supervisor's session.
+ */
+export async function stopMonitoring(actor: MonitorActor, sessionId: string): Promise<void> {
+  const session = await getSession(sessionId);
+
+  if (!session || session.tenantId !== actor.tenantId) {
+    throw new NotFoundError('Monitoring session not found');
+  }
+
+  if (session.supervisorId !== actor.id && actor.role !== 'admin') {
+    throw new ForbiddenError('Only the supervisor in a session can end it');
+  }
+
+  await removeSession(session);
+  await publishControl(session, 'stop');
+
+  await recordAudit({
+    tenantId: actor.tenantId,
+    actorId: actor.id,
+    action: 'monitor.stopped',
+    resourceType: 'call',
+    resourceId: session.callId,
+    details: { sessionId, agentId: session.agentId, supervisorId: session.supervisorId },
+  });
+
+  broadcast(session, 'ended');
+}
+
+/**
+ * Track sessions as the dialer engine connects and ends them
+ */
+export async function startMonitorStateConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-monitor-state');
+
+  await consumer.subscribe({ topic: TOPICS.CALLS_MONITOR_STATE, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = callMonitorStateSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid monitor state:', parsed.error.flatten());
+        return;
+      }
+
+      const { sessionId, mode, status, error } = parsed.data.payload;
+      const session = await getSession(sessionId);
+
+      // Already stopped from the gateway
+      if (!session) {
+        return;
+      }
+
+      if (status === 'active') {
+        const updated: MonitorSession = { ...session, mode, status: 'active' };
+        await saveSession(updated);
+        broadcast(updated, 'active', error);
+        return;
+      }
+
+      await removeSession(session);
+      broadcast(session, status, error);
+    },
+  });
+
+  return consumer;
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import type { Consumer } from 'kafkajs';
+import {
+  TOPICS,
+  callRecordingStateSchema,
+  type CallRecordingControlEvent,
+  type RecordingControlAction,
+} from '@nexusdialer/events';
+import { publishEvent, createKafkaConsumer } from './kafka';
+import { emitToUser } from '../socket';
+
+interface RecordingControlParams {
+  tenantId: string;
+  callId: string;
+  agentId: string;
+  action: RecordingControlAction;
+  reason?: string;
+}
+
+/**
+ * Ask the dialer engine to pause or resume an agent's call recording.
+ * Keyed by call so a quick pause/resume is applied in order.
+ */
+export async function publishRecordingControl(params: RecordingControlParams): Promise<void> {
+  const event: CallRecordingControlEvent = {
+    eventId: randomUUID(),
+    tenantId: params.tenantId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type: 'calls.recording-control',
+    payload: {
+      callId: params.callId,
+      action: params.action,
+      source: 'agent',
+      agentId: params.agentId,
+      reason: params.reason,
+    },
+  };
+
+  await publishEvent(TOPICS.CALLS_RECORDING_CONTROL, event, params.callId);
+}
+
+/**
+ * Relay the recording state the dialer engine applied to the agent on the
+ * call, whether the agent or agent assist asked for it
+ */
+export async function startRecordingStateConsumer(): Promise<Consumer> {
+  const consumer = await createKafkaConsumer('api-gateway-recording-state');
+
+  await consumer.subscribe({ topic: TOPICS.CALLS_RECORDING_STATE, fromBeginning: false });
+
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) return;
+
+      const parsed = callRecordingStateSchema.safeParse(JSON.parse(message.value.toString()));
+
+      if (!parsed.success) {
+        console.error('Invalid recording state:', parsed.error.flatten());
+        return;
+      }
+
+      const { callId, agentId, status, paused, source, reason, error } = parsed.data.payload;
+
+      // Agent assist asks on every payment mention, including on calls that
+      // are not recorded; only its pauses that took effect concern the agent
+      if (status === 'failed' && source === 'auto') {
+        return;
+      }
+
+      if (agentId) {
+        emitToUser(agentId, 'call:recording-state', {
+          callId,
+          paused,
+          source,
+          reason,
+          error,
+          timestamp: parsed.data.timestamp,
+        });
+      }
+    },
+  });
+
+  return consumer;
+}
@@ -0,0 +1,47 @@
+import { AppError, NotFoundError } from '../middleware/error-handler';
+
+const RECORDING_SERVICE_URL = process.env.RECORDING_SERVICE_URL || 'http://localhost:4006';
+
+export interface RecordingPlayback {
+  recordingId: string;
+  callId: string;
+  duration: number | null; // seconds
+  fileSize: number | null; // bytes
+  format: string;
+  url: string; // signed, expires at expiresAt
+  expiresAt: string;
+}
+
+/**
+ * Ask the recording service for a short-lived URL to a call's recording.
+ * The caller has already checked the user may hear it.
+ */
+export async function getRecordingPlayback(
+  tenantId: string,
+  callId: string,
+  download = false
+): Promise<RecordingPlayback> {
+  const params = new URLSearchParams({ tenantId, download: String(download) });
+
+  let response: Response;
+
+  try {
+    response = await fetch(
+      `${RECORDING_SERVICE_URL}/api/v1/recordings/${encodeURIComponent(callId)}/url?${params}`,
+      { headers: { authorization: `Bearer ${process.env.INTERNAL_SERVICE_TOKEN ?? ''}` } }
+    );
+  } catch (error) {
+    throw new AppError('Recording service unavailable', 502, 'RECORDING_SERVICE_ERROR');
+  }
+
+  if (response.status === 404) {
+    throw new NotFoundError('Recording not found');
+  }
+
+  if (!response.ok) {
+    throw new AppError('Recording service unavailable', 502, 'RECORDING_SERVICE_ERROR');
+  }
+
+  const body = (await response.json()) as { data: RecordingPlayback };
+  return body.data;
+}
@@ -0,0 +1,106 @@
+import { Redis } from 'ioredis';
+
+let redis: Redis | null = null;
+
+/**
+ * Shared Redis connection, created on first use
+ */
+export function getRedis(): Redis {
+  if (!redis) {
+    redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: 3,
+    });
+  }
+  return redis;
+}
+
+export interface QueueRealtimeStats {
+  callsWaiting: number;
+  callsOffered: number;
+  callbacksWaiting: number; // callers who hung up for a callback and keep their place
+  longestWaitTime: number; // seconds
+  estimatedWaitTime: number | null; // seconds, for the next caller to join
+  staffedAgents: number;
+}
+
+/**
+ * Live state of a queue as kept by the queue service
+ * (queue:waiting:<id> sorted by enqueue time, queue:call:<callId> details,
+ * queue:metrics:<id> wait-time estimate)
+ */
+export async function getQueueRealtimeStats(queueId: string): Promise<QueueRealtimeStats> {
+  const client = getRedis();
+
+  // [callId, score, callId, score, ...] ordered by enqueue time
+  const entries = await client.zrange(`queue:waiting:${queueId}`, 0, -1, 'WITHSCORES');
+  const metricsData = await client.get(`queue:metrics:${queueId}`);
+  const metrics = metricsData ? JSON.parse(metricsData) : null;
+
+  const estimate = {
+    estimatedWaitTime: metrics?.estimatedWaitTime ?? null,
+    staffedAgents: metrics?.staffedAgents ?? 0,
+  };
+
+  if (entries.length === 0) {
+    return {
+      callsWaiting: 0,
+      callsOffered: 0,
+      callbacksWaiting: 0,
+      longestWaitTime: 0,
+      ...estimate,
+    };
+  }
+
+  const callIds = entries.filter((_, index) => index % 2 === 0);
+  const calls = (await client.mget(callIds.map((callId) => `queue:call:${callId}`)))
+    .filter((call): call is string => call !== null)
+    .map((call) => JSON.parse(call));
+  const oldestEnqueuedAt = Number(entries[1]);
+
+  return {
+    callsWaiting: callIds.length,
+    callsOffered: calls.filter((call) => call.offer).length,
+    callbacksWaiting: calls.filter((call) => call.callbackId).length,
+    longestWaitTime: Math.max(0, Math.floor((Date.now() - oldestEnqueuedAt) / 1000)),
+    ...estimate,
+  };
+}
+
+/**
+ * A call as kept by the dialer engine under call:<id> while it is live
+ */
+export interface LiveCall {
+  id: string;
+  tenantId: string;
+  campaignId?: string;
+  queueId?: string;
+  agentId?: string;
+  direction: 'inbound' | 'outbound';
+  status: string;
+  phoneNumber: string;
+  startTime: string;
+  answerTime?: string;
+  endTime?: string;
+}
+
+export async function getLiveCall(callId: string): Promise<LiveCall | null> {
+  const data = await getRedis().get(`call:${callId}`);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Connected calls for a tenant (calls:active holds every tenant's calls)
+ */
+export async function listLiveCalls(tenantId: string): Promise<LiveCall[]> {
+  const client = getRedis();
+  const callIds = await client.smembers('calls:active');
+
+  if (callIds.length === 0) {
+    return [];
+  }
+
+  return (await client.mget(callIds.map((callId) => `call:${callId}`)))
+    .filter((call): call is string => call !== null)
+    .map((call): LiveCall => JSON.parse(call))
+    .filter((call) => call.tenantId === tenantId && call.answerTime && !call.endTime);
+}
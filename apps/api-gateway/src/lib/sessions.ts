@@ -0,0 +1,100 @@
+import type { Redis } from 'ioredis';
+import { getRedis } from './redis';
+
+/**
+ * Claims of a gateway-issued JWT. Tokens from the auth service carry
+ * `userId` instead of `id` and no session ID.
+ */
+export interface SessionClaims {
+  id?: string;
+  userId?: string;
+  jti?: string; // session ID
+  iat?: number; // seconds
+  exp?: number; // seconds
+}
+
+export type SessionRevocation =
+  | { sessionId: string }
+  | { userId: string; revokedBefore: number }; // seconds; tokens issued earlier are void
+
+const SESSION_KEYS = {
+  revoked: (sessionId: string) => `session:revoked:${sessionId}`,
+  userRevokedBefore: (userId: string) => `session:revoked-before:${userId}`,
+  channel: 'sessions:revoked',
+};
+
+// Outlives the longest token the auth service issues (30 days with "remember me")
+const USER_REVOCATION_TTL = 30 * 24 * 60 * 60;
+
+let subscriber: Redis | null = null;
+
+/**
+ * Revoke a single session, e.g. on logout. The key expires with the token.
+ */
+export async function revokeSession(claims: SessionClaims): Promise<void> {
+  if (!claims.jti) {
+    return;
+  }
+
+  const ttl = claims.exp ? claims.exp - Math.floor(Date.now() / 1000) : USER_REVOCATION_TTL;
+
+  if (ttl <= 0) {
+    return;
+  }
+
+  const client = getRedis();
+  await client.setex(SESSION_KEYS.revoked(claims.jti), ttl, '1');
+  await client.publish(SESSION_KEYS.channel, JSON.stringify({ sessionId: claims.jti }));
+}
+
+/**
+ * Revoke every session a user holds, e.g. when they are deactivated,
+ * deleted or change role
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  const revokedBefore = Math.floor(Date.now() / 1000);
+  const client = getRedis();
+
+  await client.setex(
+    SESSION_KEYS.userRevokedBefore(userId),
+    USER_REVOCATION_TTL,
+    String(revokedBefore)
+  );
+  await client.publish(SESSION_KEYS.channel, JSON.stringify({ userId, revokedBefore }));
+}
+
+export async function isSessionRevoked(claims: SessionClaims): Promise<boolean> {
+  const client = getRedis();
+  const userId = claims.id ?? claims.userId;
+
+  if (claims.jti && (await client.exists(SESSION_KEYS.revoked(claims.jti)))) {
+    return true;
+  }
+
+  if (!userId) {
+    return false;
+  }
+
+  const revokedBefore = await client.get(SESSION_KEYS.userRevokedBefore(userId));
+
+  // Tokens issued in the same second as the revocation are void too
+  return revokedBefore !== null && (claims.iat ?? 0) <= Number(revokedBefore);
+}
+
+/**
+ * Listen for revocations from any gateway instance
+ */
+export async function subscribeToSessionRevocations(
+  handler: (revocation: SessionRevocation) => void
+): Promise<void> {
+  if (!subscriber) {
+    subscriber = getRedis().duplicate();
+    await subscriber.subscribe(SESSION_KEYS.channel);
+  }
+
+  subscriber.on('message', (channel, message) => {
+    if (channel === SESSION_KEYS.channel) {
+      handler(JSON.parse(message));
+    }
+  });
+}
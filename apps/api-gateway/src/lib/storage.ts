@@ -0,0 +1,84 @@
+import { createReadStream } from 'fs';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export const UPLOADS_BUCKET = process.env.S3_BUCKET_UPLOADS || 'uploads';
+
+// Download links are handed to browsers, so keep them short-lived
+const DOWNLOAD_URL_TTL = parseInt(process.env.LEAD_EXPORT_URL_TTL || '300', 10);
+
+function createClient(endpoint: string): S3Client {
+  return new S3Client({
+    endpoint,
+    region: process.env.S3_REGION || 'us-east-1',
+    forcePathStyle: true, // MinIO serves buckets by path, not subdomain
+    credentials: {
+      accessKeyId: process.env.S3_ACCESS_KEY || 'minioadmin',
+      secretAccessKey: process.env.S3_SECRET_KEY || 'minioadmin',
+    },
+  });
+}
+
+const endpoint = process.env.S3_ENDPOINT || 'http://localhost:9000';
+const client = createClient(endpoint);
+
+// Signed URLs must use the host browsers reach, which inside docker differs
+// from the one the gateway uploads to
+const signingClient = createClient(process.env.S3_PUBLIC_ENDPOINT || endpoint);
+
+export function toStorageUrl(key: string, bucket = UPLOADS_BUCKET): string {
+  return `s3://${bucket}/${key}`;
+}
+
+function parseStorageUrl(url: string): { bucket: string; key: string } | null {
+  const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(url);
+  return match ? { bucket: match[1], key: match[2] } : null;
+}
+
+export async function uploadFile(params: {
+  key: string;
+  filePath: string;
+  size: number;
+  contentType: string;
+}): Promise<string> {
+  await client.send(
+    new PutObjectCommand({
+      Bucket: UPLOADS_BUCKET,
+      Key: params.key,
+      Body: createReadStream(params.filePath),
+      ContentLength: params.size,
+      ContentType: params.contentType,
+    })
+  );
+
+  return toStorageUrl(params.key);
+}
+
+/**
+ * Short-lived URL that saves a stored file under the given name
+ */
+export async function getDownloadUrl(
+  storageUrl: string,
+  fileName: string
+): Promise<{ url: string; expiresAt: string } | null> {
+  const location = parseStorageUrl(storageUrl);
+
+  if (!location) {
+    return null;
+  }
+
+  const url = await getSignedUrl(
+    signingClient,
+    new GetObjectCommand({
+      Bucket: location.bucket,
+      Key: location.key,
+      ResponseContentDisposition: `attachment; filename="${fileName}"`,
+    }),
+    { expiresIn: DOWNLOAD_URL_TTL }
+  );
+
+  return {
+    url,
+    expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL * 1000).toISOString(),
+  };
+}
@@ -1,10 +1,14 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
+import { isSessionRevoked } from '../lib/sessions';
 
 export interface AuthenticatedUser {
   id: string;
   email: string;
   tenantId: string;
   role: string;
+  jti?: string; // session ID, used to revoke the token
+  iat?: number;
+  exp?: number;
 }
 
 declare module 'fastify' {
@@ -38,6 +42,16 @@ export async function authenticate(
     // Verify and decode JWT
     const decoded = await request.jwtVerify<AuthenticatedUser>();
 
+    if (await isSessionRevoked(decoded)) {
+      return reply.status(401).send({
+        success: false,
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'Session has been revoked',
+        },
+      });
+    }
+
     // Attach user to request
     request.user = decoded;
   } catch (error) {
@@ -135,7 +149,10 @@ export async function optionalAuth(
 
     if (token) {
       const decoded = await request.jwtVerify<AuthenticatedUser>();
-      request.user = decoded;
+
+      if (!(await isSessionRevoked(decoded))) {
+        request.user = decoded;
+      }
     }
   } catch (error) {
     // Ignore errors for optional auth
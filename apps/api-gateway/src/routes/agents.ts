@@ -1,8 +1,22 @@
 import type { FastifyInstance } from 'fastify';
-import { eq, and, desc, sql, count } from 'drizzle-orm';
-import { getDb, users, agentProfiles, agentStates, calls } from '@nexusdialer/database';
+import { eq, and, asc, desc, gte, lte, inArray, sql, count } from 'drizzle-orm';
+import {
+  getDb,
+  users,
+  agentProfiles,
+  agentStates,
+  calls,
+  callbackSchedules,
+  leads,
+} from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
-import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/error-handler';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  ConflictError,
+} from '../middleware/error-handler';
+import { rescheduleCallback } from '../lib/callbacks';
 
 const db = getDb();
 
@@ -11,6 +25,25 @@ interface UpdateAgentStateBody {
   reason?: string;
 }
 
+interface ListCallbacksQuery {
+  status?: string; // comma-separated
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface RescheduleCallbackBody {
+  scheduledAt: string;
+  notes?: string;
+}
+
+// Callbacks an agent can still move to another time
+const RESCHEDULABLE_STATUSES = ['pending', 'missed'];
+
+interface QualityHistoryQuery {
+  days?: number;
+}
+
 interface ListAgentsQuery {
   page?: number;
   limit?: number;
@@ -249,6 +282,95 @@ export async function agentRoutes(app: FastifyInstance) {
     });
   });
 
+  /**
+   * GET /:id/quality
+   * Daily softphone call quality of an agent, most recent day first
+   */
+  app.get<{ Params: { id: string }; Querystring: QualityHistoryQuery }>(
+    '/:id/quality',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'integer', minimum: 1, maximum: 90, default: 30 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+
+      // Agents can only see their own network quality
+      const isAdmin = request.user.role === 'admin' || request.user.role === 'supervisor';
+      if (id !== request.user.id && !isAdmin) {
+        throw new ForbiddenError('Can only view your own call quality');
+      }
+
+      const agent = await db.query.users.findFirst({
+        where: and(eq(users.id, id), eq(users.tenantId, request.user.tenantId)),
+      });
+
+      if (!agent) {
+        throw new NotFoundError('Agent not found');
+      }
+
+      const days = request.query.days ?? 30;
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+
+      const day = sql<string>`to_char(date_trunc('day', ${calls.startTime}), 'YYYY-MM-DD')`;
+
+      // Only calls the WebRTC gateway sampled have quality
+      const history = await db
+        .select({
+          date: day,
+          calls: count(),
+          avgMos: sql<number>`AVG(${calls.mos})`,
+          minMos: sql<number>`MIN(${calls.minMos})`,
+          avgJitter: sql<number>`AVG(${calls.jitter})`,
+          avgPacketLoss: sql<number>`AVG(${calls.packetLoss})`,
+          avgRoundTripTime: sql<number>`AVG(${calls.roundTripTime})`,
+        })
+        .from(calls)
+        .where(
+          and(
+            eq(calls.agentId, id),
+            eq(calls.tenantId, request.user.tenantId),
+            gte(calls.startTime, since),
+            sql`${calls.mos} IS NOT NULL`
+          )
+        )
+        .groupBy(day)
+        .orderBy(desc(day));
+
+      const round = (value: number | null) =>
+        value === null ? null : Math.round(Number(value) * 100) / 100;
+
+      return reply.send({
+        success: true,
+        data: {
+          agentId: id,
+          days,
+          history: history.map((row) => ({
+            date: row.date,
+            calls: row.calls,
+            avgMos: round(row.avgMos),
+            minMos: round(row.minMos),
+            avgJitter: round(row.avgJitter),
+            avgPacketLoss: round(row.avgPacketLoss),
+            avgRoundTripTime: round(row.avgRoundTripTime),
+          })),
+        },
+      });
+    }
+  );
+
   /**
    * POST /:id/state
    * Update agent state (available, break, lunch, offline, etc.)
@@ -422,4 +544,119 @@ export async function agentRoutes(app: FastifyInstance) {
       });
     }
   );
+  /**
+   * GET /me/callbacks
+   * Scheduled callbacks assigned to the current agent, soonest first
+   */
+  app.get<{ Querystring: ListCallbacksQuery }>('/me/callbacks', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const { status, from, to, limit = 100 } = request.query;
+
+    const conditions = [
+      eq(callbackSchedules.tenantId, request.user.tenantId),
+      eq(callbackSchedules.agentId, request.user.id),
+      eq(callbackSchedules.source, 'manual'),
+    ];
+
+    if (status) {
+      conditions.push(inArray(callbackSchedules.status, status.split(',')));
+    }
+
+    if (from) {
+      conditions.push(gte(callbackSchedules.scheduledAt, new Date(from)));
+    }
+
+    if (to) {
+      conditions.push(lte(callbackSchedules.scheduledAt, new Date(to)));
+    }
+
+    const callbacks = await db
+      .select({
+        id: callbackSchedules.id,
+        leadId: callbackSchedules.leadId,
+        callId: callbackSchedules.callId,
+        scheduledAt: callbackSchedules.scheduledAt,
+        callbackType: callbackSchedules.callbackType,
+        notes: callbackSchedules.notes,
+        status: callbackSchedules.status,
+        completedAt: callbackSchedules.completedAt,
+        createdAt: callbackSchedules.createdAt,
+        updatedAt: callbackSchedules.updatedAt,
+        phoneNumber: sql<string>`COALESCE(${callbackSchedules.phoneNumber}, ${leads.phoneNumber})`,
+        leadFirstName: leads.firstName,
+        leadLastName: leads.lastName,
+        leadCompany: leads.company,
+      })
+      .from(callbackSchedules)
+      .leftJoin(leads, eq(callbackSchedules.leadId, leads.id))
+      .where(and(...conditions))
+      .orderBy(asc(callbackSchedules.scheduledAt))
+      .limit(Math.min(limit, 500));
+
+    return reply.send({
+      success: true,
+      data: callbacks,
+    });
+  });
+
+  /**
+   * POST /me/callbacks/:id/reschedule
+   * Move one of the current agent's callbacks to a new time
+   */
+  app.post<{ Params: { id: string }; Body: RescheduleCallbackBody }>(
+    '/me/callbacks/:id/reschedule',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['scheduledAt'],
+          properties: {
+            scheduledAt: { type: 'string', format: 'date-time' },
+            notes: { type: 'string', maxLength: 2000 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const scheduledAt = new Date(request.body.scheduledAt);
+
+      if (scheduledAt.getTime() <= Date.now()) {
+        throw new ValidationError('Callback must be scheduled in the future');
+      }
+
+      const callback = await db.query.callbackSchedules.findFirst({
+        where: and(
+          eq(callbackSchedules.id, request.params.id),
+          eq(callbackSchedules.tenantId, request.user.tenantId),
+          eq(callbackSchedules.agentId, request.user.id)
+        ),
+      });
+
+      if (!callback) {
+        throw new NotFoundError('Callback not found');
+      }
+
+      if (!RESCHEDULABLE_STATUSES.includes(callback.status)) {
+        throw new ConflictError(`Callback is already ${callback.status}`);
+      }
+
+      const next = await rescheduleCallback(callback, scheduledAt, request.body.notes);
+
+      if (!next) {
+        throw new ConflictError('Callback changed while rescheduling; reload and try again');
+      }
+
+      return reply.send({
+        success: true,
+        data: next,
+      });
+    }
+  );
 }
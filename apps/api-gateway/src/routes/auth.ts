@@ -1,9 +1,11 @@
+import { randomUUID } from 'crypto';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import * as argon2 from 'argon2';
 import { getDb, users } from '@nexusdialer/database';
 import { authenticate } from '../middleware/auth';
 import { NotFoundError, UnauthorizedError, ValidationError } from '../middleware/error-handler';
+import { revokeSession } from '../lib/sessions';
 
 const db = getDb();
 
@@ -129,12 +131,13 @@ export async function authRoutes(app: FastifyInstance) {
       throw new UnauthorizedError('Account is not active');
     }
 
-    // Generate JWT token
+    // Generate JWT token; the session ID lets logout revoke it
     const token = app.jwt.sign({
       id: user.id,
       email: user.email,
       tenantId: user.tenantId,
       role: user.role,
+      jti: randomUUID(),
     });
 
     // Update last login timestamp
@@ -173,6 +176,11 @@ export async function authRoutes(app: FastifyInstance) {
    * Clear authentication session
    */
   app.post('/logout', { preHandler: authenticate }, async (request, reply) => {
+    // Also disconnects sockets opened with this token
+    if (request.user) {
+      await revokeSession(request.user);
+    }
+
     reply.clearCookie('token', {
       path: '/',
     });
@@ -203,6 +211,7 @@ export async function authRoutes(app: FastifyInstance) {
         email: request.user.email,
         tenantId: request.user.tenantId,
         role: request.user.role,
+        jti: randomUUID(),
       });
 
       // Set new cookie
@@ -0,0 +1,716 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, asc, gte, sql, count } from 'drizzle-orm';
+import {
+  getDb,
+  callerIdPools,
+  callerIdReputation,
+  callerIds,
+  calls,
+  type CallerIdPool,
+} from '@nexusdialer/database';
+import { isValidPhoneNumber, normalizePhoneNumber } from '@nexusdialer/utils';
+import { authenticate, requireRole } from '../middleware/auth';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from '../middleware/error-handler';
+import { getRedis } from '../lib/redis';
+import { recordAudit } from '../lib/audit';
+
+const db = getDb();
+
+// Shared with the dialer engine, which counts each call placed from a number
+const USAGE_KEY_PREFIX = 'callerid:usage:';
+
+interface PoolBody {
+  name: string;
+  description?: string | null;
+  localPresence?: boolean;
+  dailyCapPerNumber?: number | null;
+  minAnswerRate?: number | null;
+  minCallsForQuarantine?: number;
+  answerRateWindowHours?: number;
+  quarantineHours?: number;
+}
+
+interface CallerIdBody {
+  phoneNumber: string;
+  name: string;
+  description?: string | null;
+  poolId?: string | null;
+  status?: 'active' | 'inactive';
+}
+
+interface ListCallerIdsQuery {
+  poolId?: string;
+  status?: string;
+}
+
+interface CallerIdStatsQuery {
+  hours?: number;
+}
+
+interface ReputationQuery {
+  days?: number;
+}
+
+// Answered calls shorter than this count as short, as in the reputation history
+const SHORT_CALL_SECONDS = 6;
+
+const poolProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  description: { type: ['string', 'null'] },
+  localPresence: { type: 'boolean' },
+  dailyCapPerNumber: { type: ['integer', 'null'], minimum: 1 },
+  minAnswerRate: { type: ['number', 'null'], minimum: 0, maximum: 100 },
+  minCallsForQuarantine: { type: 'integer', minimum: 1 },
+  answerRateWindowHours: { type: 'integer', minimum: 1, maximum: 720 },
+  quarantineHours: { type: 'integer', minimum: 1, maximum: 720 },
+};
+
+const callerIdProperties = {
+  phoneNumber: { type: 'string', minLength: 1, maxLength: 20 },
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  description: { type: ['string', 'null'] },
+  poolId: { type: ['string', 'null'], format: 'uuid' },
+  status: { type: 'string', enum: ['active', 'inactive'] },
+};
+
+function toPoolResponse(pool: CallerIdPool) {
+  return {
+    ...pool,
+    minAnswerRate: pool.minAnswerRate === null ? null : Number(pool.minAnswerRate),
+  };
+}
+
+function toPoolValues(body: Partial<PoolBody>) {
+  const { minAnswerRate, ...rest } = body;
+
+  return {
+    ...rest,
+    ...(minAnswerRate !== undefined
+      ? { minAnswerRate: minAnswerRate === null ? null : String(minAnswerRate) }
+      : {}),
+  };
+}
+
+/**
+ * Calls placed from each number today (UTC), as counted against the pool's cap
+ */
+async function getCallsToday(callerIdIds: string[]): Promise<number[]> {
+  if (callerIdIds.length === 0) {
+    return [];
+  }
+
+  const day = new Date().toISOString().slice(0, 10);
+  const usage = await getRedis().mget(callerIdIds.map((id) => `${USAGE_KEY_PREFIX}${id}:${day}`));
+
+  return usage.map((value) => Number(value ?? 0));
+}
+
+async function assertPoolInTenant(poolId: string | null | undefined, tenantId: string) {
+  if (!poolId) {
+    return;
+  }
+
+  const pool = await db.query.callerIdPools.findFirst({
+    where: and(eq(callerIdPools.id, poolId), eq(callerIdPools.tenantId, tenantId)),
+  });
+
+  if (!pool) {
+    throw new ValidationError('Caller ID pool not found');
+  }
+}
+
+function toPhoneNumber(phoneNumber: string): string {
+  if (!isValidPhoneNumber(phoneNumber)) {
+    throw new ValidationError('Invalid phone number');
+  }
+
+  return normalizePhoneNumber(phoneNumber);
+}
+
+/**
+ * Caller ID and Caller ID Pool Management Routes
+ */
+export async function callerIdRoutes(app: FastifyInstance) {
+  // All routes require authentication
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * GET /pools
+   * List the tenant's caller ID pools with how many numbers each holds
+   */
+  app.get('/pools', { preHandler: requireRole('admin', 'supervisor') }, async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const pools = await db.query.callerIdPools.findMany({
+      where: eq(callerIdPools.tenantId, request.user.tenantId),
+      orderBy: [asc(callerIdPools.name)],
+    });
+
+    const counts = await db
+      .select({ poolId: callerIds.poolId, status: callerIds.status, count: count() })
+      .from(callerIds)
+      .where(eq(callerIds.tenantId, request.user.tenantId))
+      .groupBy(callerIds.poolId, callerIds.status);
+
+    return reply.send({
+      success: true,
+      data: {
+        pools: pools.map((pool) => {
+          const numbers = counts.filter((row) => row.poolId === pool.id);
+
+          return {
+            ...toPoolResponse(pool),
+            numbers: numbers.reduce((sum, row) => sum + row.count, 0),
+            quarantined: numbers.find((row) => row.status === 'quarantined')?.count ?? 0,
+          };
+        }),
+      },
+    });
+  });
+
+  /**
+   * POST /pools
+   * Create caller ID pool (admin only)
+   */
+  app.post<{ Body: PoolBody }>(
+    '/pools',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: poolProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const existing = await db.query.callerIdPools.findFirst({
+        where: and(
+          eq(callerIdPools.name, request.body.name),
+          eq(callerIdPools.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (existing) {
+        throw new ConflictError('Caller ID pool with this name already exists');
+      }
+
+      const [pool] = await db
+        .insert(callerIdPools)
+        .values({
+          ...toPoolValues(request.body),
+          name: request.body.name,
+          tenantId: request.user.tenantId,
+        })
+        .returning();
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          pool: toPoolResponse(pool),
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /pools/:id
+   * Update caller ID pool (admin only)
+   */
+  app.put<{ Params: { id: string }; Body: Partial<PoolBody> }>(
+    '/pools/:id',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          properties: poolProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+      const updates = request.body;
+
+      const existing = await db.query.callerIdPools.findFirst({
+        where: and(eq(callerIdPools.id, id), eq(callerIdPools.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Caller ID pool not found');
+      }
+
+      // Check for duplicate name if updating
+      if (updates.name && updates.name !== existing.name) {
+        const duplicate = await db.query.callerIdPools.findFirst({
+          where: and(
+            eq(callerIdPools.name, updates.name),
+            eq(callerIdPools.tenantId, request.user.tenantId)
+          ),
+        });
+
+        if (duplicate) {
+          throw new ConflictError('Caller ID pool with this name already exists');
+        }
+      }
+
+      const [updated] = await db
+        .update(callerIdPools)
+        .set({ ...toPoolValues(updates), updatedAt: new Date() })
+        .where(eq(callerIdPools.id, id))
+        .returning();
+
+      return reply.send({
+        success: true,
+        data: {
+          pool: toPoolResponse(updated),
+        },
+      });
+    }
+  );
+
+  /**
+   * DELETE /pools/:id
+   * Delete caller ID pool (admin only). Its numbers are kept, outside any
+   * pool, and campaigns using it fall back to their single caller ID.
+   */
+  app.delete<{ Params: { id: string } }>(
+    '/pools/:id',
+    { preHandler: requireRole('admin') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+
+      const existing = await db.query.callerIdPools.findFirst({
+        where: and(eq(callerIdPools.id, id), eq(callerIdPools.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Caller ID pool not found');
+      }
+
+      await db.delete(callerIdPools).where(eq(callerIdPools.id, id));
+
+      return reply.send({
+        success: true,
+        data: {
+          message: 'Caller ID pool deleted successfully',
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /
+   * List the tenant's caller IDs with the calls each has placed today
+   */
+  app.get<{ Querystring: ListCallerIdsQuery }>(
+    '/',
+    { preHandler: requireRole('admin', 'supervisor') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { poolId, status } = request.query;
+
+      const conditions = [eq(callerIds.tenantId, request.user.tenantId)];
+
+      if (poolId) {
+        conditions.push(eq(callerIds.poolId, poolId));
+      }
+
+      if (status) {
+        conditions.push(eq(callerIds.status, status));
+      }
+
+      const numbers = await db.query.callerIds.findMany({
+        where: and(...conditions),
+        orderBy: [asc(callerIds.phoneNumber)],
+      });
+
+      const callsToday = await getCallsToday(numbers.map((number) => number.id));
+
+      return reply.send({
+        success: true,
+        data: {
+          callerIds: numbers.map((number, index) => ({
+            ...number,
+            callsToday: callsToday[index],
+          })),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /stats
+   * Answer rate per caller ID over the last hours, counted as the pool's
+   * quarantine check counts it: answered by a person, not a machine
+   */
+  app.get<{ Querystring: CallerIdStatsQuery }>(
+    '/stats',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            hours: { type: 'integer', minimum: 1, maximum: 720, default: 24 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const hours = request.query.hours ?? 24;
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+      const rows = await db
+        .select({
+          callerIdId: callerIds.id,
+          attempts: count(),
+          answered: sql<number>`COUNT(*) FILTER (WHERE ${calls.answerTime} IS NOT NULL
+            AND ${calls.status} <> 'voicemail')`,
+          shortCalls: sql<number>`COUNT(*) FILTER (WHERE ${calls.answerTime} IS NOT NULL
+            AND ${calls.status} <> 'voicemail' AND ${calls.talkDuration} < ${SHORT_CALL_SECONDS})`,
+        })
+        .from(callerIds)
+        .innerJoin(
+          calls,
+          and(
+            eq(calls.tenantId, callerIds.tenantId),
+            eq(calls.callerId, callerIds.phoneNumber),
+            eq(calls.direction, 'outbound'),
+            gte(calls.startTime, since)
+          )
+        )
+        .where(eq(callerIds.tenantId, request.user.tenantId))
+        .groupBy(callerIds.id);
+
+      return reply.send({
+        success: true,
+        data: {
+          hours,
+          callerIds: rows.map((row) => {
+            const answered = Number(row.answered);
+            const shortCalls = Number(row.shortCalls);
+
+            return {
+              callerIdId: row.callerIdId,
+              attempts: row.attempts,
+              answered,
+              answerRate: row.attempts ? Math.round((answered / row.attempts) * 1000) / 10 : 0,
+              shortCalls,
+              shortCallRatio: answered ? Math.round((shortCalls / answered) * 1000) / 10 : 0,
+            };
+          }),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /:id/reputation
+   * Daily answer rate, short-call ratio and STIR/SHAKEN attestations of a
+   * caller ID, oldest first
+   */
+  app.get<{ Params: { id: string }; Querystring: ReputationQuery }>(
+    '/:id/reputation',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'integer', minimum: 1, maximum: 90, default: 30 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const callerId = await db.query.callerIds.findFirst({
+        where: and(
+          eq(callerIds.id, request.params.id),
+          eq(callerIds.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (!callerId) {
+        throw new NotFoundError('Caller ID not found');
+      }
+
+      const days = request.query.days ?? 30;
+      const since = new Date();
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+
+      const history = await db.query.callerIdReputation.findMany({
+        where: and(
+          eq(callerIdReputation.callerIdId, callerId.id),
+          gte(callerIdReputation.date, since.toISOString().slice(0, 10))
+        ),
+        orderBy: [asc(callerIdReputation.date)],
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          callerId,
+          history: history.map((day) => ({
+            date: day.date,
+            attempts: day.attempts,
+            answered: day.answered,
+            shortCalls: day.shortCalls,
+            answerRate: Number(day.answerRate),
+            shortCallRatio: Number(day.shortCallRatio),
+            attestations: day.attestations,
+            spamLikely: day.spamLikely,
+          })),
+        },
+      });
+    }
+  );
+
+  /**
+   * POST /
+   * Add caller ID (admin only)
+   */
+  app.post<{ Body: CallerIdBody }>(
+    '/',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['phoneNumber', 'name'],
+          properties: callerIdProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const phoneNumber = toPhoneNumber(request.body.phoneNumber);
+      await assertPoolInTenant(request.body.poolId, request.user.tenantId);
+
+      const existing = await db.query.callerIds.findFirst({
+        where: and(
+          eq(callerIds.phoneNumber, phoneNumber),
+          eq(callerIds.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (existing) {
+        throw new ConflictError('Caller ID with this phone number already exists');
+      }
+
+      const [callerId] = await db
+        .insert(callerIds)
+        .values({
+          ...request.body,
+          phoneNumber,
+          tenantId: request.user.tenantId,
+        })
+        .returning();
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          callerId,
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /:id
+   * Update caller ID (admin only): rename, move between pools, or take it
+   * out of rotation. Quarantine is lifted with POST /:id/release.
+   */
+  app.put<{ Params: { id: string }; Body: Partial<CallerIdBody> }>(
+    '/:id',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          properties: callerIdProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+      const updates = { ...request.body };
+
+      const existing = await db.query.callerIds.findFirst({
+        where: and(eq(callerIds.id, id), eq(callerIds.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Caller ID not found');
+      }
+
+      if (updates.status && existing.status === 'quarantined') {
+        throw new ValidationError('Release the caller ID from quarantine first');
+      }
+
+      await assertPoolInTenant(updates.poolId, request.user.tenantId);
+
+      if (updates.phoneNumber) {
+        updates.phoneNumber = toPhoneNumber(updates.phoneNumber);
+
+        if (updates.phoneNumber !== existing.phoneNumber) {
+          const duplicate = await db.query.callerIds.findFirst({
+            where: and(
+              eq(callerIds.phoneNumber, updates.phoneNumber),
+              eq(callerIds.tenantId, request.user.tenantId)
+            ),
+          });
+
+          if (duplicate) {
+            throw new ConflictError('Caller ID with this phone number already exists');
+          }
+        }
+      }
+
+      const [updated] = await db
+        .update(callerIds)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(callerIds.id, id))
+        .returning();
+
+      return reply.send({
+        success: true,
+        data: {
+          callerId: updated,
+        },
+      });
+    }
+  );
+
+  /**
+   * POST /:id/release
+   * Put a quarantined caller ID back into rotation before its quarantine
+   * ends (admin only)
+   */
+  app.post<{ Params: { id: string } }>(
+    '/:id/release',
+    { preHandler: requireRole('admin') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+
+      const existing = await db.query.callerIds.findFirst({
+        where: and(eq(callerIds.id, id), eq(callerIds.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Caller ID not found');
+      }
+
+      if (existing.status !== 'quarantined') {
+        throw new ValidationError('Caller ID is not quarantined');
+      }
+
+      const [updated] = await db
+        .update(callerIds)
+        .set({
+          status: 'active',
+          quarantinedUntil: null,
+          quarantineReason: null,
+          spamLikely: false,
+          updatedAt: new Date(),
+        })
+        .where(eq(callerIds.id, id))
+        .returning();
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: 'caller_id.release',
+        resourceType: 'caller_id',
+        resourceId: id,
+        details: {
+          phoneNumber: existing.phoneNumber,
+          quarantineReason: existing.quarantineReason,
+          quarantinedUntil: existing.quarantinedUntil?.toISOString() ?? null,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          callerId: updated,
+        },
+      });
+    }
+  );
+
+  /**
+   * DELETE /:id
+   * Delete caller ID (admin only)
+   */
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    { preHandler: requireRole('admin') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+
+      const existing = await db.query.callerIds.findFirst({
+        where: and(eq(callerIds.id, id), eq(callerIds.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Caller ID not found');
+      }
+
+      await db.delete(callerIds).where(eq(callerIds.id, id));
+
+      return reply.send({
+        success: true,
+        data: {
+          message: 'Caller ID deleted successfully',
+        },
+      });
+    }
+  );
+}
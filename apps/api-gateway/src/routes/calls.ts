@@ -0,0 +1,93 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import { getDb, calls, dispositions } from '@nexusdialer/database';
+import { authenticate } from '../middleware/auth';
+import { NotFoundError, ForbiddenError } from '../middleware/error-handler';
+import { dispositionCall } from '../lib/dispositions';
+
+const db = getDb();
+
+interface DispositionCallBody {
+  dispositionId: string;
+  notes?: string;
+  callbackAt?: string;
+  callbackType?: 'any' | 'agent_specific';
+  fields?: Record<string, string>;
+}
+
+/**
+ * Call Routes
+ */
+export async function callRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * POST /:id/disposition
+   * Disposition a call and run the disposition's actions. Agents may only
+   * disposition their own calls, and each call only once.
+   */
+  app.post<{ Params: { id: string }; Body: DispositionCallBody }>(
+    '/:id/disposition',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['dispositionId'],
+          properties: {
+            dispositionId: { type: 'string', format: 'uuid' },
+            notes: { type: 'string', maxLength: 5000 },
+            callbackAt: { type: 'string', format: 'date-time' },
+            callbackType: { type: 'string', enum: ['any', 'agent_specific'] },
+            fields: {
+              type: 'object',
+              maxProperties: 20,
+              additionalProperties: { type: 'string', maxLength: 500 },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { dispositionId, callbackAt, ...submission } = request.body;
+
+      const call = await db.query.calls.findFirst({
+        where: and(eq(calls.id, request.params.id), eq(calls.tenantId, request.user.tenantId)),
+      });
+
+      if (!call) {
+        throw new NotFoundError('Call not found');
+      }
+
+      const isAdmin = request.user.role === 'admin' || request.user.role === 'supervisor';
+
+      if (!isAdmin && call.agentId !== request.user.id) {
+        throw new ForbiddenError('Agents can only disposition their own calls');
+      }
+
+      const disposition = await db.query.dispositions.findFirst({
+        where: and(
+          eq(dispositions.id, dispositionId),
+          eq(dispositions.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (!disposition) {
+        throw new NotFoundError('Disposition not found');
+      }
+
+      const result = await dispositionCall(call, disposition, request.user.id, {
+        ...submission,
+        callbackAt: callbackAt ? new Date(callbackAt) : undefined,
+      });
+
+      return reply.send({
+        success: true,
+        data: result,
+      });
+    }
+  );
+}
@@ -1,8 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import { eq, and, desc, count } from 'drizzle-orm';
-import { getDb, campaigns } from '@nexusdialer/database';
+import { getDb, campaigns, callerIdPools } from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
 import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/error-handler';
+import { sendCampaignCommand } from '../lib/campaign-commands';
 
 const db = getDb();
 
@@ -13,6 +14,7 @@ interface CreateCampaignBody {
   settings?: any;
   schedule?: any;
   callerIdId?: string;
+  callerIdPoolId?: string | null;
 }
 
 interface UpdateCampaignBody {
@@ -23,6 +25,7 @@ interface UpdateCampaignBody {
   settings?: any;
   schedule?: any;
   callerIdId?: string;
+  callerIdPoolId?: string | null;
 }
 
 interface ListCampaignsQuery {
@@ -32,6 +35,23 @@ interface ListCampaignsQuery {
   status?: string;
 }
 
+/**
+ * A campaign may only dial from one of its own tenant's caller ID pools
+ */
+async function assertCallerIdPool(poolId: string | null | undefined, tenantId: string) {
+  if (!poolId) {
+    return;
+  }
+
+  const pool = await db.query.callerIdPools.findFirst({
+    where: and(eq(callerIdPools.id, poolId), eq(callerIdPools.tenantId, tenantId)),
+  });
+
+  if (!pool) {
+    throw new ValidationError('Caller ID pool not found');
+  }
+}
+
 /**
  * Campaign Management Routes
  */
@@ -139,6 +159,7 @@ export async function campaignRoutes(app: FastifyInstance) {
             settings: { type: 'object' },
             schedule: { type: 'object' },
             callerIdId: { type: 'string', format: 'uuid' },
+            callerIdPoolId: { type: ['string', 'null'], format: 'uuid' },
           },
         },
       },
@@ -148,7 +169,10 @@ export async function campaignRoutes(app: FastifyInstance) {
         throw new ForbiddenError('Authentication required');
       }
 
-      const { name, type, dialMode, settings, schedule, callerIdId } = request.body;
+      const { name, type, dialMode, settings, schedule, callerIdId, callerIdPoolId } =
+        request.body;
+
+      await assertCallerIdPool(callerIdPoolId, request.user.tenantId);
 
       // Create campaign
       const [newCampaign] = await db
@@ -160,6 +184,7 @@ export async function campaignRoutes(app: FastifyInstance) {
           settings,
           schedule,
           callerIdId,
+          callerIdPoolId,
           tenantId: request.user.tenantId,
           status: 'draft',
         })
@@ -203,6 +228,8 @@ export async function campaignRoutes(app: FastifyInstance) {
         delete updates.status;
       }
 
+      await assertCallerIdPool(updates.callerIdPoolId, request.user.tenantId);
+
       // Update campaign
       const [updatedCampaign] = await db
         .update(campaigns)
@@ -285,23 +312,20 @@ export async function campaignRoutes(app: FastifyInstance) {
         throw new NotFoundError('Campaign not found');
       }
 
-      // Update campaign status
-      const [updatedCampaign] = await db
-        .update(campaigns)
-        .set({
-          status: 'active',
-          updatedAt: new Date(),
-        })
-        .where(eq(campaigns.id, id))
-        .returning();
-
-      // TODO: Publish event to start dialer engine
+      // Update campaign status and hand the command to the dialer engine
+      const { campaign: updatedCampaign, commandId } = await sendCampaignCommand(
+        campaign,
+        'active',
+        'start',
+        request.user.id
+      );
 
       return reply.send({
         success: true,
         data: {
           campaign: updatedCampaign,
-          message: 'Campaign started successfully',
+          commandId,
+          message: 'Campaign start requested',
         },
       });
     }
@@ -330,23 +354,20 @@ export async function campaignRoutes(app: FastifyInstance) {
         throw new NotFoundError('Campaign not found');
       }
 
-      // Update campaign status
-      const [updatedCampaign] = await db
-        .update(campaigns)
-        .set({
-          status: 'paused',
-          updatedAt: new Date(),
-        })
-        .where(eq(campaigns.id, id))
-        .returning();
-
-      // TODO: Publish event to pause dialer engine
+      // Update campaign status and hand the command to the dialer engine
+      const { campaign: updatedCampaign, commandId } = await sendCampaignCommand(
+        campaign,
+        'paused',
+        'pause',
+        request.user.id
+      );
 
       return reply.send({
         success: true,
         data: {
           campaign: updatedCampaign,
-          message: 'Campaign paused successfully',
+          commandId,
+          message: 'Campaign pause requested',
         },
       });
     }
@@ -375,23 +396,20 @@ export async function campaignRoutes(app: FastifyInstance) {
         throw new NotFoundError('Campaign not found');
       }
 
-      // Update campaign status
-      const [updatedCampaign] = await db
-        .update(campaigns)
-        .set({
-          status: 'stopped',
-          updatedAt: new Date(),
-        })
-        .where(eq(campaigns.id, id))
-        .returning();
-
-      // TODO: Publish event to stop dialer engine
+      // Update campaign status and hand the command to the dialer engine
+      const { campaign: updatedCampaign, commandId } = await sendCampaignCommand(
+        campaign,
+        'stopped',
+        'stop',
+        request.user.id
+      );
 
       return reply.send({
         success: true,
         data: {
           campaign: updatedCampaign,
-          message: 'Campaign stopped successfully',
+          commandId,
+          message: 'Campaign stop requested',
         },
       });
     }
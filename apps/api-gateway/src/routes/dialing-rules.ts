@@ -0,0 +1,340 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { getDb, campaigns, dialingRules } from '@nexusdialer/database';
+import { authenticate, requireRole } from '../middleware/auth';
+import { NotFoundError, ForbiddenError } from '../middleware/error-handler';
+import {
+  RECYCLE_RULE_TYPE,
+  dryRunDialingRules,
+  dryRunDraftRule,
+  recycleActionsSchema,
+  recycleConditionsSchema,
+  validateRecycleRule,
+  type RecycleActions,
+  type RecycleConditions,
+} from '../lib/dialing-rules';
+
+const db = getDb();
+
+interface RuleBody {
+  name: string;
+  ruleType: string;
+  campaignId?: string | null;
+  conditions: Record<string, unknown>;
+  actions: Record<string, unknown>;
+  priority?: number;
+  isActive?: boolean;
+}
+
+interface DryRunBody {
+  campaignId?: string | null;
+  conditions: RecycleConditions;
+  actions: RecycleActions;
+  priority?: number;
+}
+
+const ruleProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  ruleType: { type: 'string', minLength: 1, maxLength: 50 }, // recycle, timezone, attempt_limit
+  campaignId: { type: ['string', 'null'], format: 'uuid' }, // null for every campaign
+  conditions: { type: 'object' },
+  actions: { type: 'object' },
+  priority: { type: 'integer' }, // higher runs first
+  isActive: { type: 'boolean' },
+};
+
+// Recycle rules are run by the rules engine, so their shape is checked;
+// conditions and actions can only be checked against the type sent with them
+const ruleShape = {
+  if: { properties: { ruleType: { const: RECYCLE_RULE_TYPE } }, required: ['ruleType'] },
+  then: {
+    properties: { conditions: recycleConditionsSchema, actions: recycleActionsSchema },
+  },
+  dependencies: { conditions: ['ruleType'], actions: ['ruleType'] },
+};
+
+async function assertCampaign(tenantId: string, campaignId?: string | null): Promise<void> {
+  if (!campaignId) {
+    return;
+  }
+
+  const campaign = await db.query.campaigns.findFirst({
+    where: and(eq(campaigns.id, campaignId), eq(campaigns.tenantId, tenantId)),
+    columns: { id: true },
+  });
+
+  if (!campaign) {
+    throw new NotFoundError('Campaign not found');
+  }
+}
+
+/**
+ * Dialing Rule Routes
+ * Recycle rules decide when a lead is dialed again, and with what status and
+ * priority, from how its calls ended. They run after every call and on a
+ * schedule; a dry-run shows how many leads each would change now.
+ */
+export async function dialingRuleRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', authenticate);
+  app.addHook('preHandler', requireRole('admin', 'supervisor'));
+
+  /**
+   * GET /
+   * The tenant's rules in the order they run
+   */
+  app.get<{ Querystring: { campaignId?: string } }>(
+    '/',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            campaignId: { type: 'string', format: 'uuid' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const conditions = [eq(dialingRules.tenantId, request.user.tenantId)];
+
+      if (request.query.campaignId) {
+        conditions.push(eq(dialingRules.campaignId, request.query.campaignId));
+      }
+
+      const rules = await db.query.dialingRules.findMany({
+        where: and(...conditions),
+        orderBy: [desc(dialingRules.priority), asc(dialingRules.createdAt)],
+      });
+
+      return reply.send({
+        success: true,
+        data: { rules },
+      });
+    }
+  );
+
+  /**
+   * GET /dry-run
+   * How many leads each recycle rule would change if the rules ran now.
+   * Inactive rules are counted as if they were switched on.
+   */
+  app.get('/dry-run', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const rules = await db.query.dialingRules.findMany({
+      where: and(
+        eq(dialingRules.tenantId, request.user.tenantId),
+        eq(dialingRules.ruleType, RECYCLE_RULE_TYPE)
+      ),
+    });
+
+    const counts = await dryRunDialingRules(request.user.tenantId, rules);
+
+    return reply.send({
+      success: true,
+      data: {
+        rules: rules.map((rule) => ({ id: rule.id, affectedLeads: counts.get(rule.id) ?? 0 })),
+      },
+    });
+  });
+
+  /**
+   * POST /dry-run
+   * How many leads an unsaved recycle rule would change, to check it while
+   * authoring it
+   */
+  app.post<{ Body: DryRunBody }>(
+    '/dry-run',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['conditions', 'actions'],
+          properties: {
+            campaignId: ruleProperties.campaignId,
+            conditions: recycleConditionsSchema,
+            actions: recycleActionsSchema,
+            priority: ruleProperties.priority,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { campaignId = null, conditions, actions, priority = 0 } = request.body;
+
+      validateRecycleRule(conditions, actions);
+      await assertCampaign(request.user.tenantId, campaignId);
+
+      const affectedLeads = await dryRunDraftRule(request.user.tenantId, {
+        campaignId,
+        conditions,
+        actions,
+        priority,
+      });
+
+      return reply.send({
+        success: true,
+        data: { affectedLeads },
+      });
+    }
+  );
+
+  /**
+   * GET /:id
+   * Get rule by ID
+   */
+  app.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const rule = await db.query.dialingRules.findFirst({
+      where: and(
+        eq(dialingRules.id, request.params.id),
+        eq(dialingRules.tenantId, request.user.tenantId)
+      ),
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Dialing rule not found');
+    }
+
+    return reply.send({
+      success: true,
+      data: { rule },
+    });
+  });
+
+  /**
+   * POST /
+   * Create rule
+   */
+  app.post<{ Body: RuleBody }>(
+    '/',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name', 'ruleType', 'conditions', 'actions'],
+          properties: ruleProperties,
+          ...ruleShape,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const body = request.body;
+
+      if (body.ruleType === RECYCLE_RULE_TYPE) {
+        validateRecycleRule(body.conditions, body.actions);
+      }
+
+      await assertCampaign(request.user.tenantId, body.campaignId);
+
+      const [rule] = await db
+        .insert(dialingRules)
+        .values({ ...body, tenantId: request.user.tenantId })
+        .returning();
+
+      return reply.status(201).send({
+        success: true,
+        data: { rule },
+      });
+    }
+  );
+
+  /**
+   * PUT /:id
+   * Update rule. Conditions and actions are replaced whole, and need the
+   * rule type sent with them.
+   */
+  app.put<{ Params: { id: string }; Body: Partial<RuleBody> }>(
+    '/:id',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          properties: ruleProperties,
+          ...ruleShape,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+      const updates = request.body;
+
+      const existing = await db.query.dialingRules.findFirst({
+        where: and(eq(dialingRules.id, id), eq(dialingRules.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Dialing rule not found');
+      }
+
+      const rule = { ...existing, ...updates };
+
+      if (rule.ruleType === RECYCLE_RULE_TYPE) {
+        validateRecycleRule(rule.conditions as RecycleConditions, rule.actions as RecycleActions);
+      }
+
+      await assertCampaign(request.user.tenantId, updates.campaignId);
+
+      const [updated] = await db
+        .update(dialingRules)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(dialingRules.id, id))
+        .returning();
+
+      return reply.send({
+        success: true,
+        data: { rule: updated },
+      });
+    }
+  );
+
+  /**
+   * DELETE /:id
+   * Delete rule. Leads it already changed keep their changes.
+   */
+  app.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const { id } = request.params;
+
+    const existing = await db.query.dialingRules.findFirst({
+      where: and(eq(dialingRules.id, id), eq(dialingRules.tenantId, request.user.tenantId)),
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Dialing rule not found');
+    }
+
+    await db.delete(dialingRules).where(eq(dialingRules.id, id));
+
+    return reply.send({
+      success: true,
+      data: {
+        message: 'Dialing rule deleted successfully',
+      },
+    });
+  });
+}
@@ -3,6 +3,8 @@ import { eq, and, asc, count } from 'drizzle-orm';
 import { getDb, dispositions } from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
 import { NotFoundError, ForbiddenError } from '../middleware/error-handler';
+import { NEXT_ACTIONS, type NextAction } from '@nexusdialer/events';
+import { validateDispositionActions } from '../lib/dispositions';
 
 const db = getDb();
 
@@ -13,7 +15,8 @@ interface CreateDispositionBody {
   description?: string;
   isPositive?: boolean;
   requiresCallback?: boolean;
-  nextAction?: 'none' | 'callback' | 'recycle' | 'dnc';
+  nextAction?: NextAction;
+  actions?: unknown[]; // checked against the shared dispositionActionsSchema
   sortOrder?: number;
 }
 
@@ -23,7 +26,8 @@ interface UpdateDispositionBody {
   description?: string | null;
   isPositive?: boolean;
   requiresCallback?: boolean;
-  nextAction?: 'none' | 'callback' | 'recycle' | 'dnc';
+  nextAction?: NextAction;
+  actions?: unknown[]; // checked against the shared dispositionActionsSchema
   sortOrder?: number;
 }
 
@@ -130,7 +134,8 @@ export async function dispositionRoutes(app: FastifyInstance) {
             description: { type: 'string' },
             isPositive: { type: 'boolean' },
             requiresCallback: { type: 'boolean' },
-            nextAction: { type: 'string', enum: ['none', 'callback', 'recycle', 'dnc'] },
+            nextAction: { type: 'string', enum: NEXT_ACTIONS },
+            actions: { type: 'array' },
             sortOrder: { type: 'integer' },
           },
         },
@@ -143,10 +148,13 @@ export async function dispositionRoutes(app: FastifyInstance) {
 
       const { isPositive, requiresCallback, ...rest } = request.body;
 
+      const actions = await validateDispositionActions(request.user.tenantId, rest.actions ?? []);
+
       const [newDisposition] = await db
         .insert(dispositions)
         .values({
           ...rest,
+          actions,
           isPositive: isPositive ? 1 : 0,
           requiresCallback: requiresCallback ? 1 : 0,
           tenantId: request.user.tenantId,
@@ -168,7 +176,24 @@ export async function dispositionRoutes(app: FastifyInstance) {
    */
   app.put<{ Params: { id: string }; Body: UpdateDispositionBody }>(
     '/:id',
-    { preHandler: requireRole('admin', 'supervisor') },
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        body: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 1, maxLength: 20 },
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            description: { type: ['string', 'null'] },
+            isPositive: { type: 'boolean' },
+            requiresCallback: { type: 'boolean' },
+            nextAction: { type: 'string', enum: NEXT_ACTIONS },
+            actions: { type: 'array' },
+            sortOrder: { type: 'integer' },
+          },
+        },
+      },
+    },
     async (request, reply) => {
       if (!request.user) {
         throw new ForbiddenError('Authentication required');
@@ -189,6 +214,10 @@ export async function dispositionRoutes(app: FastifyInstance) {
       if (isPositive !== undefined) updates.isPositive = isPositive ? 1 : 0;
       if (requiresCallback !== undefined) updates.requiresCallback = requiresCallback ? 1 : 0;
 
+      if (rest.actions) {
+        updates.actions = await validateDispositionActions(request.user.tenantId, rest.actions);
+      }
+
       const [updated] = await db
         .update(dispositions)
         .set(updates)
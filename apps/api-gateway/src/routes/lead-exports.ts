@@ -0,0 +1,190 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, desc } from 'drizzle-orm';
+import { getDb, leadExports, type LeadExport } from '@nexusdialer/database';
+import { authenticate, requireRole } from '../middleware/auth';
+import { NotFoundError, ForbiddenError, ConflictError } from '../middleware/error-handler';
+import { recordAudit } from '../lib/audit';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  LEAD_EXPORT_COLUMN_NAMES,
+  getExportFileName,
+  startLeadExport,
+  validateExportColumns,
+  type LeadExportFormat,
+} from '../lib/lead-export';
+import { leadFiltersSchema, type LeadFilters } from '../lib/lead-filters';
+import { getDownloadUrl } from '../lib/storage';
+
+const db = getDb();
+
+interface CreateExportBody {
+  format?: LeadExportFormat;
+  filters?: LeadFilters;
+  columns?: string[];
+}
+
+/**
+ * Lead Export Routes
+ * Export the leads matching the same filters as GET /leads to a CSV or XLSX
+ * file in the background, then download it from object storage.
+ */
+export async function leadExportRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', authenticate);
+  app.addHook('preHandler', requireRole('admin', 'supervisor'));
+
+  /**
+   * GET /
+   * The tenant's most recent exports, and the columns an export can include
+   */
+  app.get('/', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const exports = await db.query.leadExports.findMany({
+      where: eq(leadExports.tenantId, request.user.tenantId),
+      orderBy: [desc(leadExports.createdAt)],
+      limit: 50,
+    });
+
+    return reply.send({
+      success: true,
+      data: {
+        exports: exports.map(toExportResponse),
+        columns: LEAD_EXPORT_COLUMN_NAMES,
+        defaultColumns: DEFAULT_EXPORT_COLUMNS,
+      },
+    });
+  });
+
+  /**
+   * POST /
+   * Start exporting the leads matching the filters. Custom fields are
+   * exported as custom:<key> columns.
+   */
+  app.post<{ Body: CreateExportBody }>(
+    '/',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['csv', 'xlsx'] },
+            filters: leadFiltersSchema,
+            columns: {
+              type: 'array',
+              items: { type: 'string', minLength: 1, maxLength: 255 },
+              maxItems: 200,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { format = 'csv', filters = {}, columns = DEFAULT_EXPORT_COLUMNS } = request.body;
+
+      validateExportColumns(columns);
+
+      const [leadExport] = await db
+        .insert(leadExports)
+        .values({
+          tenantId: request.user.tenantId,
+          createdBy: request.user.id,
+          format,
+          filters,
+          columns,
+        })
+        .returning();
+
+      startLeadExport(leadExport);
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: 'lead.export',
+        resourceType: 'lead_export',
+        resourceId: leadExport.id,
+        details: { format, filters, columns },
+      });
+
+      return reply.status(202).send({
+        success: true,
+        data: { export: toExportResponse(leadExport) },
+      });
+    }
+  );
+
+  /**
+   * GET /:id
+   * An export's status, to poll until it completes
+   */
+  app.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const leadExport = await findExport(request.user.tenantId, request.params.id);
+
+    return reply.send({
+      success: true,
+      data: { export: toExportResponse(leadExport) },
+    });
+  });
+
+  /**
+   * GET /:id/download
+   * A short-lived link to a completed export's file
+   */
+  app.get<{ Params: { id: string } }>('/:id/download', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const leadExport = await findExport(request.user.tenantId, request.params.id);
+
+    if (leadExport.status !== 'completed' || !leadExport.storageUrl) {
+      throw new ConflictError('Export has not completed');
+    }
+
+    const download = await getDownloadUrl(leadExport.storageUrl, getExportFileName(leadExport));
+
+    if (!download) {
+      throw new NotFoundError('Export file not found');
+    }
+
+    await recordAudit({
+      tenantId: request.user.tenantId,
+      actorId: request.user.id,
+      action: 'lead.export_download',
+      resourceType: 'lead_export',
+      resourceId: leadExport.id,
+      details: { rowCount: leadExport.rowCount },
+    });
+
+    return reply.send({
+      success: true,
+      data: download,
+    });
+  });
+}
+
+async function findExport(tenantId: string, id: string): Promise<LeadExport> {
+  const leadExport = await db.query.leadExports.findFirst({
+    where: and(eq(leadExports.id, id), eq(leadExports.tenantId, tenantId)),
+  });
+
+  if (!leadExport) {
+    throw new NotFoundError('Export not found');
+  }
+
+  return leadExport;
+}
+
+// Where the file is stored is of no use to clients; they download it by id
+function toExportResponse({ storageUrl: _, ...leadExport }: LeadExport) {
+  return leadExport;
+}
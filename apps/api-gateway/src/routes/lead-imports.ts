@@ -0,0 +1,528 @@
+import { Readable } from 'stream';
+import type { FastifyInstance } from 'fastify';
+import { eq, and, asc, desc, gt } from 'drizzle-orm';
+import {
+  getDb,
+  leadImportErrors,
+  leadImportMappings,
+  leadImports,
+  leadLists,
+  type LeadImport,
+} from '@nexusdialer/database';
+import { authenticate, requireRole } from '../middleware/auth';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from '../middleware/error-handler';
+import { recordAudit } from '../lib/audit';
+import { toCsvLine } from '../lib/csv';
+import {
+  getLeadImportFileType,
+  readImportPreview,
+  removeImportFile,
+  spoolImportFile,
+  startLeadImport,
+  validateImportMapping,
+  type DuplicatePolicy,
+  type DuplicateScope,
+  type LeadImportMapping,
+} from '../lib/lead-import';
+
+const db = getDb();
+
+// Error report rows read from the database at a time
+const REPORT_PAGE_SIZE = 5000;
+
+interface StartImportBody {
+  mapping?: LeadImportMapping;
+  mappingId?: string;
+  saveMappingAs?: string;
+  duplicatePolicy?: DuplicatePolicy;
+  duplicateScope?: DuplicateScope;
+  scrubDnc?: boolean;
+}
+
+interface SaveMappingBody {
+  name: string;
+  mapping: LeadImportMapping;
+}
+
+const mappingSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string', minLength: 1 },
+};
+
+/**
+ * Lead Import Routes
+ * Upload a CSV or XLSX file, map its columns to lead fields and import it
+ * in the background. Progress is sent over the socket server.
+ */
+export async function leadImportRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', authenticate);
+  app.addHook('preHandler', requireRole('admin', 'supervisor'));
+
+  /**
+   * GET /
+   * The tenant's most recent imports
+   */
+  app.get<{ Querystring: { listId?: string } }>(
+    '/',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            listId: { type: 'string', format: 'uuid' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const conditions = [eq(leadImports.tenantId, request.user.tenantId)];
+
+      if (request.query.listId) {
+        conditions.push(eq(leadImports.listId, request.query.listId));
+      }
+
+      const imports = await db.query.leadImports.findMany({
+        where: and(...conditions),
+        columns: { filePath: false, sampleRows: false },
+        orderBy: [desc(leadImports.createdAt)],
+        limit: 50,
+      });
+
+      return reply.send({
+        success: true,
+        data: { imports },
+      });
+    }
+  );
+
+  /**
+   * POST /
+   * Upload a file to import into a list. Returns its headers and first rows
+   * to map columns against; nothing is imported until the import is started.
+   */
+  app.post<{ Querystring: { listId: string } }>(
+    '/',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          required: ['listId'],
+          properties: {
+            listId: { type: 'string', format: 'uuid' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const list = await db.query.leadLists.findFirst({
+        where: and(
+          eq(leadLists.id, request.query.listId),
+          eq(leadLists.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (!list) {
+        throw new NotFoundError('Lead list not found');
+      }
+
+      const file = await request.file();
+
+      if (!file) {
+        throw new ValidationError('A CSV or XLSX file is required');
+      }
+
+      const fileType = getLeadImportFileType(file.filename);
+
+      if (!fileType) {
+        file.file.resume();
+        throw new ValidationError('Only CSV and XLSX files can be imported');
+      }
+
+      const { filePath, fileSize } = await spoolImportFile(file.file, fileType);
+
+      let preview: Awaited<ReturnType<typeof readImportPreview>>;
+
+      try {
+        preview = await readImportPreview(filePath, fileType);
+      } catch (error) {
+        await removeImportFile(filePath);
+
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+
+        throw new ValidationError(`The file could not be read as ${fileType.toUpperCase()}`);
+      }
+
+      const [created] = await db
+        .insert(leadImports)
+        .values({
+          tenantId: request.user.tenantId,
+          listId: list.id,
+          createdBy: request.user.id,
+          fileName: file.filename.slice(0, 255),
+          fileType,
+          fileSize,
+          filePath,
+          headers: preview.headers,
+          sampleRows: preview.sampleRows,
+        })
+        .returning();
+
+      return reply.status(201).send({
+        success: true,
+        data: { import: toImportResponse(created) },
+      });
+    }
+  );
+
+  /**
+   * GET /mappings
+   * Saved column mappings
+   */
+  app.get('/mappings', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const mappings = await db.query.leadImportMappings.findMany({
+      where: eq(leadImportMappings.tenantId, request.user.tenantId),
+      orderBy: [asc(leadImportMappings.name)],
+    });
+
+    return reply.send({
+      success: true,
+      data: { mappings },
+    });
+  });
+
+  /**
+   * POST /mappings
+   * Save a column mapping, replacing any of the same name
+   */
+  app.post<{ Body: SaveMappingBody }>(
+    '/mappings',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name', 'mapping'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            mapping: mappingSchema,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const mapping = await saveMapping(
+        request.user.tenantId,
+        request.user.id,
+        request.body.name,
+        request.body.mapping
+      );
+
+      return reply.status(201).send({
+        success: true,
+        data: { mapping },
+      });
+    }
+  );
+
+  /**
+   * DELETE /mappings/:id
+   */
+  app.delete<{ Params: { id: string } }>('/mappings/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const [deleted] = await db
+      .delete(leadImportMappings)
+      .where(
+        and(
+          eq(leadImportMappings.id, request.params.id),
+          eq(leadImportMappings.tenantId, request.user.tenantId)
+        )
+      )
+      .returning({ id: leadImportMappings.id });
+
+    if (!deleted) {
+      throw new NotFoundError('Mapping not found');
+    }
+
+    return reply.send({
+      success: true,
+      data: { message: 'Mapping deleted successfully' },
+    });
+  });
+
+  /**
+   * GET /:id
+   */
+  app.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const leadImport = await getImport(request.user.tenantId, request.params.id);
+
+    return reply.send({
+      success: true,
+      data: { import: toImportResponse(leadImport) },
+    });
+  });
+
+  /**
+   * POST /:id/start
+   * Start importing an uploaded file with a column mapping, given or saved
+   */
+  app.post<{ Params: { id: string }; Body: StartImportBody }>(
+    '/:id/start',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          properties: {
+            mapping: mappingSchema,
+            mappingId: { type: 'string', format: 'uuid' },
+            saveMappingAs: { type: 'string', minLength: 1, maxLength: 255 },
+            duplicatePolicy: { type: 'string', enum: ['skip', 'update', 'allow'] },
+            duplicateScope: { type: 'string', enum: ['list', 'tenant'] },
+            scrubDnc: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const {
+        mappingId,
+        saveMappingAs,
+        duplicatePolicy = 'skip',
+        duplicateScope = 'list',
+        scrubDnc = true,
+      } = request.body;
+
+      const leadImport = await getImport(request.user.tenantId, request.params.id);
+
+      if (leadImport.status !== 'pending') {
+        throw new ConflictError('This import has already been started');
+      }
+
+      let mapping = request.body.mapping;
+
+      if (!mapping && mappingId) {
+        const saved = await db.query.leadImportMappings.findFirst({
+          where: and(
+            eq(leadImportMappings.id, mappingId),
+            eq(leadImportMappings.tenantId, request.user.tenantId)
+          ),
+        });
+
+        if (!saved) {
+          throw new NotFoundError('Mapping not found');
+        }
+
+        // A saved mapping may name columns this file does not have
+        const headers = leadImport.headers as string[];
+        mapping = Object.fromEntries(
+          Object.entries(saved.mapping as LeadImportMapping).filter(([header]) =>
+            headers.includes(header)
+          )
+        );
+      }
+
+      if (!mapping) {
+        throw new ValidationError('A mapping or mappingId is required');
+      }
+
+      validateImportMapping(mapping, leadImport.headers as string[]);
+
+      if (saveMappingAs) {
+        await saveMapping(request.user.tenantId, request.user.id, saveMappingAs, mapping);
+      }
+
+      const [started] = await db
+        .update(leadImports)
+        .set({
+          status: 'processing',
+          mapping,
+          duplicatePolicy,
+          duplicateScope,
+          scrubDnc,
+          startedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(leadImports.id, leadImport.id), eq(leadImports.status, 'pending')))
+        .returning();
+
+      if (!started) {
+        throw new ConflictError('This import has already been started');
+      }
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: 'lead.import',
+        resourceType: 'lead_list',
+        resourceId: started.listId,
+        details: {
+          importId: started.id,
+          fileName: started.fileName,
+          duplicatePolicy,
+          duplicateScope,
+          scrubDnc,
+        },
+      });
+
+      startLeadImport(started);
+
+      return reply.status(202).send({
+        success: true,
+        data: { import: toImportResponse(started) },
+      });
+    }
+  );
+
+  /**
+   * GET /:id/errors
+   * CSV report of the rows that were not imported, and why
+   */
+  app.get<{ Params: { id: string } }>('/:id/errors', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const leadImport = await getImport(request.user.tenantId, request.params.id);
+    const headers = leadImport.headers as string[];
+
+    const report = Readable.from(
+      (async function* () {
+        yield toCsvLine(['Row', 'Reason', 'Message', ...headers]);
+
+        let after = 0;
+
+        while (true) {
+          const page = await db
+            .select({
+              rowNumber: leadImportErrors.rowNumber,
+              reason: leadImportErrors.reason,
+              message: leadImportErrors.message,
+              row: leadImportErrors.row,
+            })
+            .from(leadImportErrors)
+            .where(
+              and(
+                eq(leadImportErrors.importId, leadImport.id),
+                gt(leadImportErrors.rowNumber, after)
+              )
+            )
+            .orderBy(asc(leadImportErrors.rowNumber))
+            .limit(REPORT_PAGE_SIZE);
+
+          for (const error of page) {
+            yield toCsvLine([
+              String(error.rowNumber),
+              error.reason,
+              error.message ?? '',
+              ...(error.row as string[]),
+            ]);
+          }
+
+          if (page.length < REPORT_PAGE_SIZE) {
+            break;
+          }
+
+          after = page[page.length - 1].rowNumber;
+        }
+      })()
+    );
+
+    const baseName = leadImport.fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+
+    return reply
+      .header('Content-Type', 'text/csv; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${baseName}-errors.csv"`)
+      .send(report);
+  });
+
+  /**
+   * DELETE /:id
+   * Discard an upload that was never started
+   */
+  app.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const leadImport = await getImport(request.user.tenantId, request.params.id);
+
+    if (leadImport.status === 'processing') {
+      throw new ConflictError('An import cannot be deleted while it is running');
+    }
+
+    await db.delete(leadImports).where(eq(leadImports.id, leadImport.id));
+    await removeImportFile(leadImport.filePath);
+
+    return reply.send({
+      success: true,
+      data: { message: 'Import deleted successfully' },
+    });
+  });
+}
+
+async function getImport(tenantId: string, id: string): Promise<LeadImport> {
+  const leadImport = await db.query.leadImports.findFirst({
+    where: and(eq(leadImports.id, id), eq(leadImports.tenantId, tenantId)),
+  });
+
+  if (!leadImport) {
+    throw new NotFoundError('Import not found');
+  }
+
+  return leadImport;
+}
+
+async function saveMapping(
+  tenantId: string,
+  createdBy: string,
+  name: string,
+  mapping: LeadImportMapping
+) {
+  const [saved] = await db
+    .insert(leadImportMappings)
+    .values({ tenantId, name, mapping, createdBy })
+    .onConflictDoUpdate({
+      target: [leadImportMappings.tenantId, leadImportMappings.name],
+      set: { mapping, updatedAt: new Date() },
+    })
+    .returning();
+
+  return saved;
+}
+
+// Where the upload sits on the gateway's disk is of no use to clients
+function toImportResponse({ filePath: _, ...leadImport }: LeadImport) {
+  return leadImport;
+}
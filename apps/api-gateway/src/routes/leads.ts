@@ -1,8 +1,19 @@
 import type { FastifyInstance } from 'fastify';
-import { eq, and, desc, or, like, count, sql } from 'drizzle-orm';
-import { getDb, leads, leadLists } from '@nexusdialer/database';
+import { eq, and, desc, count, inArray, sql } from 'drizzle-orm';
+import { getDb, leads, leadLists, leadHistory } from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
 import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/error-handler';
+import { buildLeadConditions, parseCustomFieldsFilter } from '../lib/lead-filters';
+import {
+  DUPLICATE_MATCHES,
+  MAX_MERGE_LEADS,
+  MERGE_FIELDS,
+  findDuplicateGroups,
+  mergeLeads,
+  type DuplicateMatch,
+  type MergeLeadsInput,
+} from '../lib/lead-dedupe';
+import { recordAudit } from '../lib/audit';
 
 const db = getDb();
 
@@ -39,6 +50,21 @@ interface ListLeadsQuery {
   status?: string;
   search?: string;
   priority?: number;
+  minAttempts?: string;
+  maxAttempts?: string;
+  lastDisposition?: string;
+  customFields?: string; // JSON object of field -> value
+}
+
+interface LeadHistoryQuery {
+  eventType?: string; // comma-separated
+  limit?: number;
+}
+
+interface DuplicateLeadsQuery {
+  matchBy?: string; // comma-separated phone, email, name
+  listId?: string;
+  limit?: number;
 }
 
 interface ImportLeadsBody {
@@ -73,32 +99,16 @@ export async function leadRoutes(app: FastifyInstance) {
     const { page = 1, limit = 20, listId, status, search, priority } = request.query;
     const offset = (page - 1) * limit;
 
-    // Build query conditions
-    const conditions = [eq(leads.tenantId, request.user.tenantId)];
-
-    if (listId) {
-      conditions.push(eq(leads.listId, listId));
-    }
-
-    if (status) {
-      conditions.push(eq(leads.status, status));
-    }
-
-    if (priority !== undefined) {
-      conditions.push(eq(leads.priority, priority));
-    }
-
-    if (search) {
-      conditions.push(
-        or(
-          like(leads.phoneNumber, `%${search}%`),
-          like(leads.firstName, `%${search}%`),
-          like(leads.lastName, `%${search}%`),
-          like(leads.email, `%${search}%`),
-          like(leads.company, `%${search}%`)
-        )!
-      );
-    }
+    const conditions = buildLeadConditions(request.user.tenantId, {
+      listId,
+      status,
+      search,
+      priority,
+      minAttempts: toOptionalNumber(request.query.minAttempts),
+      maxAttempts: toOptionalNumber(request.query.maxAttempts),
+      lastDisposition: request.query.lastDisposition,
+      customFields: parseCustomFieldsFilter(request.query.customFields),
+    });
 
     // Query leads
     const leadsList = await db.query.leads.findMany({
@@ -128,6 +138,117 @@ export async function leadRoutes(app: FastifyInstance) {
     });
   });
 
+  /**
+   * GET /duplicates
+   * Groups of leads that look like the same person, across all lists
+   * (admin/supervisor only)
+   */
+  app.get<{ Querystring: DuplicateLeadsQuery }>(
+    '/duplicates',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            matchBy: { type: 'string' },
+            listId: { type: 'string', format: 'uuid' },
+            limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { listId, limit = 50 } = request.query;
+      const matchBy = (request.query.matchBy ?? DUPLICATE_MATCHES.join(','))
+        .split(',')
+        .map((match) => match.trim()) as DuplicateMatch[];
+
+      const unknown = matchBy.find((match) => !DUPLICATE_MATCHES.includes(match));
+
+      if (unknown) {
+        throw new ValidationError(`Unknown duplicate match: ${unknown}`);
+      }
+
+      const { groups, total } = await findDuplicateGroups(request.user.tenantId, {
+        matchBy,
+        listId,
+        limit,
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          groups,
+          total,
+        },
+      });
+    }
+  );
+
+  /**
+   * POST /merge
+   * Merge duplicate leads into one canonical lead (admin/supervisor only)
+   */
+  app.post<{ Body: MergeLeadsInput }>(
+    '/merge',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['canonicalId', 'duplicateIds'],
+          properties: {
+            canonicalId: { type: 'string', format: 'uuid' },
+            duplicateIds: {
+              type: 'array',
+              items: { type: 'string', format: 'uuid' },
+              minItems: 1,
+              maxItems: MAX_MERGE_LEADS - 1,
+            },
+            fields: {
+              type: 'object',
+              propertyNames: { enum: [...MERGE_FIELDS] },
+              additionalProperties: { type: 'string', format: 'uuid' },
+            },
+            customFields: {
+              type: 'object',
+              additionalProperties: { type: 'string', format: 'uuid' },
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const lead = await mergeLeads(request.user.tenantId, request.user.id, request.body);
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: 'lead.merge',
+        resourceType: 'lead',
+        resourceId: lead.id,
+        details: { mergedLeadIds: request.body.duplicateIds },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          lead,
+        },
+      });
+    }
+  );
+
   /**
    * GET /:id
    * Get lead by ID
@@ -155,6 +276,50 @@ export async function leadRoutes(app: FastifyInstance) {
     });
   });
 
+  /**
+   * GET /:id/history
+   * What happened to a lead, newest first: dispositions and the actions they
+   * ran, dialing rules, status changes
+   */
+  app.get<{ Params: { id: string }; Querystring: LeadHistoryQuery }>(
+    '/:id/history',
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { eventType, limit = 100 } = request.query;
+
+      const lead = await db.query.leads.findFirst({
+        where: and(eq(leads.id, request.params.id), eq(leads.tenantId, request.user.tenantId)),
+        columns: { id: true },
+      });
+
+      if (!lead) {
+        throw new NotFoundError('Lead not found');
+      }
+
+      const conditions = [eq(leadHistory.leadId, lead.id)];
+
+      if (eventType) {
+        conditions.push(inArray(leadHistory.eventType, eventType.split(',')));
+      }
+
+      const history = await db.query.leadHistory.findMany({
+        where: and(...conditions),
+        orderBy: [desc(leadHistory.createdAt)],
+        limit: Math.min(limit, 500),
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          history,
+        },
+      });
+    }
+  );
+
   /**
    * POST /
    * Create new lead (admin/supervisor/agent)
@@ -401,3 +566,17 @@ export async function leadRoutes(app: FastifyInstance) {
     }
   );
 }
+
+function toOptionalNumber(value?: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const number = Number(value);
+
+  if (!Number.isInteger(number)) {
+    throw new ValidationError(`"${value}" is not a whole number`);
+  }
+
+  return number;
+}
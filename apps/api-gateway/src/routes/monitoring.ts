@@ -0,0 +1,185 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getDb, users, queues, campaigns } from '@nexusdialer/database';
+import type { MonitorMode } from '@nexusdialer/events';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ForbiddenError } from '../middleware/error-handler';
+import { listLiveCalls } from '../lib/redis';
+import {
+  startMonitoring,
+  changeMonitorMode,
+  stopMonitoring,
+  listMonitorSessions,
+} from '../lib/monitoring';
+
+const db = getDb();
+
+interface MonitorBody {
+  mode: MonitorMode;
+}
+
+const monitorSchema = {
+  body: {
+    type: 'object',
+    required: ['mode'],
+    properties: {
+      mode: { type: 'string', enum: ['listen', 'whisper', 'barge'] },
+    },
+  },
+};
+
+/**
+ * Supervisor Monitoring Routes (listen, whisper, barge)
+ */
+export async function monitoringRoutes(app: FastifyInstance) {
+  // All routes require authentication
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * GET /calls
+   * Connected calls with their agent and who is monitoring them
+   */
+  app.get('/calls', { preHandler: requireRole('admin', 'supervisor') }, async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const tenantId = request.user.tenantId;
+    const liveCalls = await listLiveCalls(tenantId);
+    const sessions = await listMonitorSessions(tenantId);
+
+    const agentIds = [...new Set(liveCalls.map((call) => call.agentId).filter(Boolean))];
+    const queueIds = [...new Set(liveCalls.map((call) => call.queueId).filter(Boolean))];
+    const campaignIds = [...new Set(liveCalls.map((call) => call.campaignId).filter(Boolean))];
+
+    const agents =
+      agentIds.length > 0
+        ? await db
+            .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+            .from(users)
+            .where(and(eq(users.tenantId, tenantId), inArray(users.id, agentIds as string[])))
+        : [];
+
+    const queueNames =
+      queueIds.length > 0
+        ? await db
+            .select({ id: queues.id, name: queues.name })
+            .from(queues)
+            .where(and(eq(queues.tenantId, tenantId), inArray(queues.id, queueIds as string[])))
+        : [];
+
+    const campaignNames =
+      campaignIds.length > 0
+        ? await db
+            .select({ id: campaigns.id, name: campaigns.name })
+            .from(campaigns)
+            .where(
+              and(eq(campaigns.tenantId, tenantId), inArray(campaigns.id, campaignIds as string[]))
+            )
+        : [];
+
+    const calls = liveCalls
+      .filter((call) => call.agentId)
+      .map((call) => {
+        const agent = agents.find((row) => row.id === call.agentId);
+
+        return {
+          id: call.id,
+          agentId: call.agentId,
+          agentName: agent ? `${agent.firstName} ${agent.lastName}` : null,
+          phoneNumber: call.phoneNumber,
+          direction: call.direction,
+          queueName: queueNames.find((row) => row.id === call.queueId)?.name ?? null,
+          campaignName: campaignNames.find((row) => row.id === call.campaignId)?.name ?? null,
+          answerTime: call.answerTime,
+          monitors: sessions
+            .filter((session) => session.callId === call.id)
+            .map(({ tenantId: _, extension: __, ...session }) => session),
+        };
+      });
+
+    return reply.send({
+      success: true,
+      data: {
+        calls,
+      },
+    });
+  });
+
+  /**
+   * POST /calls/:callId
+   * Join a call; the supervisor's softphone is rung into it
+   */
+  app.post<{ Params: { callId: string }; Body: MonitorBody }>(
+    '/calls/:callId',
+    { preHandler: requireRole('admin', 'supervisor'), schema: monitorSchema },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { extension: _, ...session } = await startMonitoring(
+        request.user,
+        request.params.callId,
+        request.body.mode
+      );
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          session,
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /sessions/:sessionId
+   * Switch mode mid-call
+   */
+  app.put<{ Params: { sessionId: string }; Body: MonitorBody }>(
+    '/sessions/:sessionId',
+    { preHandler: requireRole('admin', 'supervisor'), schema: monitorSchema },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { extension: _, ...session } = await changeMonitorMode(
+        request.user,
+        request.params.sessionId,
+        request.body.mode
+      );
+
+      return reply.send({
+        success: true,
+        data: {
+          session,
+        },
+      });
+    }
+  );
+
+  /**
+   * DELETE /sessions/:sessionId
+   * Leave the call
+   */
+  app.delete<{ Params: { sessionId: string } }>(
+    '/sessions/:sessionId',
+    { preHandler: requireRole('admin', 'supervisor') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      await stopMonitoring(request.user, request.params.sessionId);
+
+      return reply.send({
+        success: true,
+        data: {
+          message: 'Monitoring ended',
+        },
+      });
+    }
+  );
+}
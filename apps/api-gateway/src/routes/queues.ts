@@ -2,6 +2,7 @@ import type { FastifyInstance } from 'fastify';
 import { eq, and, desc, count, sql } from 'drizzle-orm';
 import { getDb, queues, calls } from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
+import { getQueueRealtimeStats } from '../lib/redis';
 import { NotFoundError, ForbiddenError } from '../middleware/error-handler';
 
 const db = getDb();
@@ -166,8 +167,8 @@ export async function queueRoutes(app: FastifyInstance) {
     const serviceLevelPercentage =
       serviceLevel.total > 0 ? (serviceLevel.withinSL / serviceLevel.total) * 100 : 0;
 
-    // Get calls waiting (mock - would come from real-time system)
-    const callsWaiting = 0; // TODO: Get from real-time queue state
+    // Live waiting callers from the queue service
+    const realtime = await getQueueRealtimeStats(id);
 
     return reply.send({
       success: true,
@@ -187,10 +188,7 @@ export async function queueRoutes(app: FastifyInstance) {
             serviceLevel: serviceLevelPercentage.toFixed(2),
             serviceLevelTarget,
           },
-          realtime: {
-            callsWaiting,
-            // TODO: Add more real-time metrics
-          },
+          realtime,
         },
       },
     });
@@ -212,7 +210,7 @@ export async function queueRoutes(app: FastifyInstance) {
             name: { type: 'string', minLength: 1 },
             strategy: {
               type: 'string',
-              enum: ['longest_idle', 'round_robin', 'random', 'fewest_calls', 'skills_based'],
+              enum: ['round_robin', 'longest_idle', 'least_calls', 'skills_based', 'ring_all'],
             },
             ringTimeout: { type: 'integer', minimum: 1 },
             maxWaitTime: { type: 'integer', minimum: 1 },
@@ -0,0 +1,212 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, desc, gte, lte, or, like, count, sql } from 'drizzle-orm';
+import {
+  getDb,
+  recordings,
+  calls,
+  users,
+  leads,
+  campaigns,
+  dispositions,
+} from '@nexusdialer/database';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ForbiddenError } from '../middleware/error-handler';
+import { getRecordingPlayback } from '../lib/recordings';
+
+const db = getDb();
+
+interface ListRecordingsQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  agentId?: string;
+  campaignId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Call Recording Routes
+ */
+export async function recordingRoutes(app: FastifyInstance) {
+  // All routes require authentication
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * GET /
+   * Stored recordings with their call details, newest first (paginated)
+   */
+  app.get<{ Querystring: ListRecordingsQuery }>(
+    '/',
+    { preHandler: requireRole('admin', 'supervisor') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { page = 1, limit = 20, search, agentId, campaignId, from, to } = request.query;
+      const offset = (page - 1) * limit;
+
+      const conditions = [
+        eq(recordings.tenantId, request.user.tenantId),
+        eq(recordings.status, 'ready'),
+      ];
+
+      if (agentId) {
+        conditions.push(eq(calls.agentId, agentId));
+      }
+
+      if (campaignId) {
+        conditions.push(eq(calls.campaignId, campaignId));
+      }
+
+      if (from) {
+        conditions.push(gte(calls.startTime, new Date(from)));
+      }
+
+      if (to) {
+        conditions.push(lte(calls.startTime, new Date(to)));
+      }
+
+      if (search) {
+        conditions.push(
+          or(
+            like(calls.phoneNumber, `%${search}%`),
+            like(leads.firstName, `%${search}%`),
+            like(leads.lastName, `%${search}%`),
+            sql`${calls.id}::text LIKE ${`%${search}%`}`
+          )!
+        );
+      }
+
+      const rows = await db
+        .select({
+          id: recordings.id,
+          callId: recordings.callId,
+          duration: recordings.duration,
+          fileSize: recordings.fileSize,
+          format: recordings.format,
+          codec: recordings.codec,
+          channels: recordings.channels,
+          direction: calls.direction,
+          phoneNumber: calls.phoneNumber,
+          startTime: calls.startTime,
+          hasTranscript: sql<boolean>`${calls.transcriptUrl} IS NOT NULL`,
+          legalHold: calls.legalHold,
+          leadId: calls.leadId,
+          leadLegalHold: leads.legalHold,
+          agentId: calls.agentId,
+          agentFirstName: users.firstName,
+          agentLastName: users.lastName,
+          leadFirstName: leads.firstName,
+          leadLastName: leads.lastName,
+          campaignId: calls.campaignId,
+          campaignName: campaigns.name,
+          dispositionName: dispositions.name,
+        })
+        .from(recordings)
+        .innerJoin(calls, eq(recordings.callId, calls.id))
+        .leftJoin(users, eq(calls.agentId, users.id))
+        .leftJoin(leads, eq(calls.leadId, leads.id))
+        .leftJoin(campaigns, eq(calls.campaignId, campaigns.id))
+        .leftJoin(dispositions, eq(calls.dispositionId, dispositions.id))
+        .where(and(...conditions))
+        .orderBy(desc(calls.startTime))
+        .limit(limit)
+        .offset(offset);
+
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(recordings)
+        .innerJoin(calls, eq(recordings.callId, calls.id))
+        .leftJoin(leads, eq(calls.leadId, leads.id))
+        .where(and(...conditions));
+
+      return reply.send({
+        success: true,
+        data: {
+          recordings: rows,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /stats
+   * Recording counts and storage for the tenant
+   */
+  app.get('/stats', { preHandler: requireRole('admin', 'supervisor') }, async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const [stats] = await db
+      .select({
+        total: count(),
+        thisMonth: sql<number>`COUNT(*) FILTER (WHERE ${recordings.createdAt} >= ${monthStart})`,
+        storageBytes: sql<number>`COALESCE(SUM(${recordings.fileSize}), 0)`,
+        avgDuration: sql<number>`COALESCE(AVG(${recordings.duration}), 0)`,
+        failed: sql<number>`COUNT(*) FILTER (WHERE ${recordings.status} = 'failed')`,
+        processing: sql<number>`COUNT(*) FILTER (WHERE ${recordings.status} = 'processing')`,
+      })
+      .from(recordings)
+      .where(eq(recordings.tenantId, request.user.tenantId));
+
+    return reply.send({
+      success: true,
+      data: {
+        total: Number(stats.total),
+        thisMonth: Number(stats.thisMonth),
+        storageBytes: Number(stats.storageBytes),
+        avgDuration: Math.round(Number(stats.avgDuration)),
+        failed: Number(stats.failed),
+        processing: Number(stats.processing),
+      },
+    });
+  });
+
+  /**
+   * GET /:callId/url
+   * Short-lived signed URL to play (or, with ?download=true, save) a recording
+   */
+  app.get<{ Params: { callId: string }; Querystring: { download?: boolean } }>(
+    '/:callId/url',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            download: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const playback = await getRecordingPlayback(
+        request.user.tenantId,
+        request.params.callId,
+        request.query.download
+      );
+
+      return reply.send({
+        success: true,
+        data: playback,
+      });
+    }
+  );
+}
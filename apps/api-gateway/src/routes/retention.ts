@@ -0,0 +1,460 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, desc, inArray, count, sql } from 'drizzle-orm';
+import {
+  getDb,
+  tenants,
+  campaigns,
+  calls,
+  leads,
+  users,
+  recordings,
+  transcriptions,
+  auditLogs,
+} from '@nexusdialer/database';
+import type { RetentionPolicy, TenantRetentionSettings, TenantSettings } from '@nexusdialer/types';
+import { authenticate, requireRole } from '../middleware/auth';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/error-handler';
+import { recordAudit } from '../lib/audit';
+
+const db = getDb();
+
+// null clears a period, keeping that data forever
+interface PolicyBody {
+  recordingDays?: number | null;
+  transcriptDays?: number | null;
+}
+
+interface UpdateRetentionBody extends PolicyBody {
+  campaigns?: Record<string, PolicyBody>;
+}
+
+interface LegalHoldBody {
+  legalHold: boolean;
+  reason?: string;
+}
+
+interface ListAuditQuery {
+  page?: number;
+  limit?: number;
+  action?: string;
+  resourceType?: string;
+}
+
+const periodSchema = { type: ['integer', 'null'], minimum: 1, maximum: 36500 };
+
+const policySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    recordingDays: periodSchema,
+    transcriptDays: periodSchema,
+  },
+};
+
+const legalHoldSchema = {
+  body: {
+    type: 'object',
+    required: ['legalHold'],
+    properties: {
+      legalHold: { type: 'boolean' },
+      reason: { type: 'string', maxLength: 500 },
+    },
+  },
+};
+
+/**
+ * Merge an update into a policy; undefined keeps a period, null clears it
+ */
+function applyPolicy(current: RetentionPolicy, update: PolicyBody): RetentionPolicy {
+  const policy = { ...current };
+
+  for (const field of ['recordingDays', 'transcriptDays'] as const) {
+    if (update[field] === null) {
+      delete policy[field];
+    } else if (update[field] !== undefined) {
+      policy[field] = update[field];
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Data Retention Routes
+ */
+export async function retentionRoutes(app: FastifyInstance) {
+  // All routes require authentication
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * GET /
+   * The tenant's retention policy and what is held under it today
+   */
+  app.get('/', { preHandler: requireRole('admin', 'supervisor') }, async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const tenantId = request.user.tenantId;
+
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant) {
+      throw new NotFoundError('Tenant not found');
+    }
+
+    const [audio] = await db
+      .select({
+        stored: sql<number>`COUNT(*) FILTER (WHERE ${recordings.status} = 'ready')`,
+        purged: sql<number>`COUNT(*) FILTER (WHERE ${recordings.status} = 'purged')`,
+        storageBytes: sql<number>`COALESCE(SUM(${recordings.fileSize}) FILTER (WHERE ${recordings.status} = 'ready'), 0)`,
+        oldest: sql<string | null>`MIN(${calls.startTime}) FILTER (WHERE ${recordings.status} = 'ready')`,
+      })
+      .from(recordings)
+      .innerJoin(calls, eq(recordings.callId, calls.id))
+      .where(eq(recordings.tenantId, tenantId));
+
+    const [transcripts] = await db
+      .select({
+        stored: count(),
+        oldest: sql<string | null>`MIN(${calls.startTime})`,
+      })
+      .from(transcriptions)
+      .innerJoin(calls, eq(transcriptions.callId, calls.id))
+      .where(eq(transcriptions.tenantId, tenantId));
+
+    const [heldCalls] = await db
+      .select({ total: count() })
+      .from(calls)
+      .where(and(eq(calls.tenantId, tenantId), eq(calls.legalHold, true)));
+
+    const [heldLeads] = await db
+      .select({ total: count() })
+      .from(leads)
+      .where(and(eq(leads.tenantId, tenantId), eq(leads.legalHold, true)));
+
+    const [lastPurge] = await db
+      .select({ at: sql<string | null>`MAX(${auditLogs.createdAt})` })
+      .from(auditLogs)
+      .where(and(eq(auditLogs.tenantId, tenantId), eq(auditLogs.action, 'retention.purge')));
+
+    return reply.send({
+      success: true,
+      data: {
+        policy: (tenant.settings as Partial<TenantSettings>).retention ?? {},
+        holdings: {
+          recordings: {
+            stored: Number(audio.stored),
+            purged: Number(audio.purged),
+            storageBytes: Number(audio.storageBytes),
+            oldest: audio.oldest,
+          },
+          transcripts: {
+            stored: transcripts.stored,
+            oldest: transcripts.oldest,
+          },
+          legalHolds: {
+            calls: heldCalls.total,
+            leads: heldLeads.total,
+          },
+          lastPurgeAt: lastPurge.at,
+        },
+      },
+    });
+  });
+
+  /**
+   * PUT /
+   * Update the retention policy (admin only). Campaigns given replace
+   * their override; an override with no periods left is removed.
+   */
+  app.put<{ Body: UpdateRetentionBody }>(
+    '/',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          ...policySchema,
+          properties: {
+            ...policySchema.properties,
+            campaigns: {
+              type: 'object',
+              propertyNames: { format: 'uuid' },
+              additionalProperties: policySchema,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const tenantId = request.user.tenantId;
+      const { campaigns: campaignUpdates = {}, ...tenantUpdate } = request.body;
+
+      const tenant = await db.query.tenants.findFirst({
+        where: eq(tenants.id, tenantId),
+      });
+
+      if (!tenant) {
+        throw new NotFoundError('Tenant not found');
+      }
+
+      const campaignIds = Object.keys(campaignUpdates);
+
+      if (campaignIds.length > 0) {
+        const found = await db
+          .select({ id: campaigns.id })
+          .from(campaigns)
+          .where(and(eq(campaigns.tenantId, tenantId), inArray(campaigns.id, campaignIds)));
+
+        if (found.length !== campaignIds.length) {
+          throw new ValidationError('Unknown campaign in retention overrides');
+        }
+      }
+
+      const settings = tenant.settings as Partial<TenantSettings>;
+      const previous: TenantRetentionSettings = settings.retention ?? {};
+      const overrides = { ...previous.campaigns };
+
+      for (const [campaignId, update] of Object.entries(campaignUpdates)) {
+        const policy = applyPolicy(overrides[campaignId] ?? {}, update);
+
+        if (Object.keys(policy).length > 0) {
+          overrides[campaignId] = policy;
+        } else {
+          delete overrides[campaignId];
+        }
+      }
+
+      const retention: TenantRetentionSettings = {
+        ...applyPolicy(previous, tenantUpdate),
+        campaigns: overrides,
+      };
+
+      await db
+        .update(tenants)
+        .set({
+          settings: { ...settings, retention },
+          updatedAt: new Date(),
+        })
+        .where(eq(tenants.id, tenantId));
+
+      await recordAudit({
+        tenantId,
+        actorId: request.user.id,
+        action: 'retention.policy_updated',
+        resourceType: 'tenant',
+        resourceId: tenantId,
+        details: { previous, current: retention },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          policy: retention,
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /audit
+   * Purges, legal hold changes and policy updates, newest first (paginated)
+   */
+  app.get<{ Querystring: ListAuditQuery }>(
+    '/audit',
+    { preHandler: requireRole('admin') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { page = 1, limit = 50, action, resourceType } = request.query;
+      const offset = (page - 1) * limit;
+
+      const conditions = [eq(auditLogs.tenantId, request.user.tenantId)];
+
+      if (action) {
+        conditions.push(eq(auditLogs.action, action));
+      }
+
+      if (resourceType) {
+        conditions.push(eq(auditLogs.resourceType, resourceType));
+      }
+
+      const entries = await db
+        .select({
+          id: auditLogs.id,
+          action: auditLogs.action,
+          actorType: auditLogs.actorType,
+          actorId: auditLogs.actorId,
+          actorFirstName: users.firstName,
+          actorLastName: users.lastName,
+          resourceType: auditLogs.resourceType,
+          resourceId: auditLogs.resourceId,
+          details: auditLogs.details,
+          createdAt: auditLogs.createdAt,
+        })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.actorId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(auditLogs.createdAt))
+        .limit(limit)
+        .offset(offset);
+
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(auditLogs)
+        .where(and(...conditions));
+
+      return reply.send({
+        success: true,
+        data: {
+          entries,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /legal-holds
+   * Calls and leads currently exempt from purges
+   */
+  app.get(
+    '/legal-holds',
+    { preHandler: requireRole('admin', 'supervisor') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const tenantId = request.user.tenantId;
+
+      const heldCalls = await db
+        .select({
+          id: calls.id,
+          phoneNumber: calls.phoneNumber,
+          direction: calls.direction,
+          startTime: calls.startTime,
+          leadId: calls.leadId,
+        })
+        .from(calls)
+        .where(and(eq(calls.tenantId, tenantId), eq(calls.legalHold, true)))
+        .orderBy(desc(calls.startTime));
+
+      const heldLeads = await db
+        .select({
+          id: leads.id,
+          firstName: leads.firstName,
+          lastName: leads.lastName,
+          phoneNumber: leads.phoneNumber,
+        })
+        .from(leads)
+        .where(and(eq(leads.tenantId, tenantId), eq(leads.legalHold, true)))
+        .orderBy(desc(leads.updatedAt));
+
+      return reply.send({
+        success: true,
+        data: {
+          calls: heldCalls,
+          leads: heldLeads,
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /legal-holds/calls/:callId
+   * Place or release a legal hold on a call's recording and transcript
+   */
+  app.put<{ Params: { callId: string }; Body: LegalHoldBody }>(
+    '/legal-holds/calls/:callId',
+    { preHandler: requireRole('admin', 'supervisor'), schema: legalHoldSchema },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { legalHold, reason } = request.body;
+
+      const [call] = await db
+        .update(calls)
+        .set({ legalHold })
+        .where(and(eq(calls.id, request.params.callId), eq(calls.tenantId, request.user.tenantId)))
+        .returning({ id: calls.id, legalHold: calls.legalHold });
+
+      if (!call) {
+        throw new NotFoundError('Call not found');
+      }
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: legalHold ? 'legal_hold.placed' : 'legal_hold.released',
+        resourceType: 'call',
+        resourceId: call.id,
+        details: { reason },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          call,
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /legal-holds/leads/:leadId
+   * Place or release a legal hold on every call with a lead
+   */
+  app.put<{ Params: { leadId: string }; Body: LegalHoldBody }>(
+    '/legal-holds/leads/:leadId',
+    { preHandler: requireRole('admin', 'supervisor'), schema: legalHoldSchema },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { legalHold, reason } = request.body;
+
+      const [lead] = await db
+        .update(leads)
+        .set({ legalHold, updatedAt: new Date() })
+        .where(and(eq(leads.id, request.params.leadId), eq(leads.tenantId, request.user.tenantId)))
+        .returning({ id: leads.id, legalHold: leads.legalHold });
+
+      if (!lead) {
+        throw new NotFoundError('Lead not found');
+      }
+
+      await recordAudit({
+        tenantId: request.user.tenantId,
+        actorId: request.user.id,
+        action: legalHold ? 'legal_hold.placed' : 'legal_hold.released',
+        resourceType: 'lead',
+        resourceId: lead.id,
+        details: { reason },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          lead,
+        },
+      });
+    }
+  );
+}
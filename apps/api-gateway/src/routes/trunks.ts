@@ -0,0 +1,382 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, and, asc, gte, sql, count } from 'drizzle-orm';
+import {
+  getDb,
+  sipTrunks,
+  trunkAttempts,
+  encryptSecret,
+  type SipTrunk,
+} from '@nexusdialer/database';
+import { authenticate, requireRole } from '../middleware/auth';
+import { NotFoundError, ForbiddenError, ConflictError } from '../middleware/error-handler';
+import { getRedis } from '../lib/redis';
+
+const db = getDb();
+
+// Shared with the dialer engine, which holds one entry per call on the trunk
+const TRUNK_CHANNELS_PREFIX = 'trunk:channels:';
+
+interface TrunkBody {
+  name: string;
+  gateway: string;
+  transport?: 'udp' | 'tcp' | 'tls';
+  username?: string | null;
+  password?: string | null;
+  codecs?: string[];
+  maxChannels?: number | null;
+  costPerMinute?: number;
+  prefixes?: string[];
+  priority?: number;
+  failoverCauses?: string[];
+  enabled?: boolean;
+}
+
+interface TrunkStatsQuery {
+  days?: number;
+}
+
+// Credentials go into FreeSWITCH's {key='value',...} originate variables,
+// where a quote, comma or brace would end the value early
+const CREDENTIAL_PATTERN = "^[^',{}]*$";
+
+const trunkProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  gateway: { type: 'string', minLength: 1, maxLength: 255, pattern: '^[A-Za-z0-9.-]+(:\\d+)?$' },
+  transport: { type: 'string', enum: ['udp', 'tcp', 'tls'] },
+  username: { type: ['string', 'null'], maxLength: 100, pattern: CREDENTIAL_PATTERN },
+  // Capped below the column width so the encrypted value still fits
+  password: { type: ['string', 'null'], maxLength: 128, pattern: CREDENTIAL_PATTERN },
+  codecs: {
+    type: 'array',
+    minItems: 1,
+    items: { type: 'string', pattern: '^[A-Za-z0-9.-]+$' },
+  },
+  maxChannels: { type: ['integer', 'null'], minimum: 1 },
+  costPerMinute: { type: 'number', minimum: 0 },
+  prefixes: { type: 'array', items: { type: 'string', pattern: '^\\d{1,8}$' } },
+  priority: { type: 'integer', minimum: 0 },
+  failoverCauses: { type: 'array', items: { type: 'string', pattern: '^[A-Z_]+$' } },
+  enabled: { type: 'boolean' },
+};
+
+/**
+ * Never send the carrier password back; say whether one is set
+ */
+function toTrunkResponse(trunk: SipTrunk, activeChannels: number) {
+  const { password, ...rest } = trunk;
+
+  return {
+    ...rest,
+    costPerMinute: Number(trunk.costPerMinute),
+    hasPassword: Boolean(password),
+    activeChannels,
+  };
+}
+
+async function getActiveChannels(trunkIds: string[]): Promise<number[]> {
+  if (trunkIds.length === 0) {
+    return [];
+  }
+
+  const pipeline = getRedis().pipeline();
+  trunkIds.forEach((id) => pipeline.zcard(`${TRUNK_CHANNELS_PREFIX}${id}`));
+  const results = await pipeline.exec();
+
+  return (results ?? []).map(([, value]) => Number(value ?? 0));
+}
+
+/**
+ * The password is stored encrypted; the dialer decrypts it at originate time
+ */
+function toTrunkValues(body: Partial<TrunkBody>) {
+  const { costPerMinute, password, ...rest } = body;
+
+  return {
+    ...rest,
+    ...(costPerMinute !== undefined ? { costPerMinute: String(costPerMinute) } : {}),
+    ...(password !== undefined ? { password: password ? encryptSecret(password) : null } : {}),
+  };
+}
+
+/**
+ * SIP Trunk Management Routes
+ */
+export async function trunkRoutes(app: FastifyInstance) {
+  // All routes require authentication
+  app.addHook('preHandler', authenticate);
+
+  /**
+   * GET /
+   * List the tenant's trunks with the calls each is carrying now
+   */
+  app.get('/', { preHandler: requireRole('admin', 'supervisor') }, async (request, reply) => {
+    if (!request.user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    const trunks = await db.query.sipTrunks.findMany({
+      where: eq(sipTrunks.tenantId, request.user.tenantId),
+      orderBy: [asc(sipTrunks.priority), asc(sipTrunks.name)],
+    });
+
+    const activeChannels = await getActiveChannels(trunks.map((trunk) => trunk.id));
+
+    return reply.send({
+      success: true,
+      data: {
+        trunks: trunks.map((trunk, index) => toTrunkResponse(trunk, activeChannels[index])),
+      },
+    });
+  });
+
+  /**
+   * GET /stats
+   * ASR (answered / attempted) and ACD (average talk time of answered
+   * attempts) per trunk, from the attempts recorded on call CDRs
+   */
+  app.get<{ Querystring: TrunkStatsQuery }>(
+    '/stats',
+    {
+      preHandler: requireRole('admin', 'supervisor'),
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'integer', minimum: 1, maximum: 90, default: 7 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const days = request.query.days ?? 7;
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+
+      const rows = await db
+        .select({
+          trunkId: trunkAttempts.trunkId,
+          attempts: count(),
+          answered: sql<number>`COUNT(${trunkAttempts.answerTime})`,
+          talkSeconds: sql<number>`COALESCE(SUM(${trunkAttempts.duration}), 0)`,
+          costPerMinute: sipTrunks.costPerMinute,
+        })
+        .from(trunkAttempts)
+        .innerJoin(sipTrunks, eq(sipTrunks.id, trunkAttempts.trunkId))
+        .where(
+          and(
+            eq(trunkAttempts.tenantId, request.user.tenantId),
+            gte(trunkAttempts.startTime, since)
+          )
+        )
+        .groupBy(trunkAttempts.trunkId, sipTrunks.costPerMinute);
+
+      return reply.send({
+        success: true,
+        data: {
+          days,
+          trunks: rows.map((row) => {
+            const answered = Number(row.answered);
+            const talkSeconds = Number(row.talkSeconds);
+            const minutes = Math.ceil(talkSeconds / 60);
+
+            return {
+              trunkId: row.trunkId,
+              attempts: row.attempts,
+              answered,
+              asr: row.attempts ? Math.round((answered / row.attempts) * 1000) / 10 : 0,
+              acd: answered ? Math.round(talkSeconds / answered) : 0,
+              minutes,
+              cost: Math.round(minutes * Number(row.costPerMinute) * 100) / 100,
+            };
+          }),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /:id
+   * Get trunk by ID
+   */
+  app.get<{ Params: { id: string } }>(
+    '/:id',
+    { preHandler: requireRole('admin', 'supervisor') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const trunk = await db.query.sipTrunks.findFirst({
+        where: and(
+          eq(sipTrunks.id, request.params.id),
+          eq(sipTrunks.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (!trunk) {
+        throw new NotFoundError('Trunk not found');
+      }
+
+      const [activeChannels] = await getActiveChannels([trunk.id]);
+
+      return reply.send({
+        success: true,
+        data: {
+          trunk: toTrunkResponse(trunk, activeChannels),
+        },
+      });
+    }
+  );
+
+  /**
+   * POST /
+   * Create trunk (admin only)
+   */
+  app.post<{ Body: TrunkBody }>(
+    '/',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name', 'gateway'],
+          properties: trunkProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const existing = await db.query.sipTrunks.findFirst({
+        where: and(
+          eq(sipTrunks.name, request.body.name),
+          eq(sipTrunks.tenantId, request.user.tenantId)
+        ),
+      });
+
+      if (existing) {
+        throw new ConflictError('Trunk with this name already exists');
+      }
+
+      const [trunk] = await db
+        .insert(sipTrunks)
+        .values({
+          ...toTrunkValues(request.body),
+          name: request.body.name,
+          gateway: request.body.gateway,
+          tenantId: request.user.tenantId,
+        })
+        .returning();
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          trunk: toTrunkResponse(trunk, 0),
+        },
+      });
+    }
+  );
+
+  /**
+   * PUT /:id
+   * Update trunk (admin only). Leave the password out to keep it, or send
+   * null to clear it.
+   */
+  app.put<{ Params: { id: string }; Body: Partial<TrunkBody> }>(
+    '/:id',
+    {
+      preHandler: requireRole('admin'),
+      schema: {
+        body: {
+          type: 'object',
+          properties: trunkProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+      const updates = request.body;
+
+      const existing = await db.query.sipTrunks.findFirst({
+        where: and(eq(sipTrunks.id, id), eq(sipTrunks.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Trunk not found');
+      }
+
+      // Check for duplicate name if updating
+      if (updates.name && updates.name !== existing.name) {
+        const duplicate = await db.query.sipTrunks.findFirst({
+          where: and(
+            eq(sipTrunks.name, updates.name),
+            eq(sipTrunks.tenantId, request.user.tenantId)
+          ),
+        });
+
+        if (duplicate) {
+          throw new ConflictError('Trunk with this name already exists');
+        }
+      }
+
+      const [updated] = await db
+        .update(sipTrunks)
+        .set({ ...toTrunkValues(updates), updatedAt: new Date() })
+        .where(eq(sipTrunks.id, id))
+        .returning();
+
+      const [activeChannels] = await getActiveChannels([id]);
+
+      return reply.send({
+        success: true,
+        data: {
+          trunk: toTrunkResponse(updated, activeChannels),
+        },
+      });
+    }
+  );
+
+  /**
+   * DELETE /:id
+   * Delete trunk (admin only). Disable it instead to keep its ASR/ACD history.
+   */
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    { preHandler: requireRole('admin') },
+    async (request, reply) => {
+      if (!request.user) {
+        throw new ForbiddenError('Authentication required');
+      }
+
+      const { id } = request.params;
+
+      const existing = await db.query.sipTrunks.findFirst({
+        where: and(eq(sipTrunks.id, id), eq(sipTrunks.tenantId, request.user.tenantId)),
+      });
+
+      if (!existing) {
+        throw new NotFoundError('Trunk not found');
+      }
+
+      await db.delete(sipTrunks).where(eq(sipTrunks.id, id));
+
+      return reply.send({
+        success: true,
+        data: {
+          message: 'Trunk deleted successfully',
+        },
+      });
+    }
+  );
+}
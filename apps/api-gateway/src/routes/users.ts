@@ -4,6 +4,7 @@ import * as argon2 from 'argon2';
 import { getDb, users } from '@nexusdialer/database';
 import { authenticate, requireRole } from '../middleware/auth';
 import { NotFoundError, ValidationError, ForbiddenError } from '../middleware/error-handler';
+import { revokeUserSessions } from '../lib/sessions';
 
 const db = getDb();
 
@@ -253,6 +254,14 @@ export async function userRoutes(app: FastifyInstance) {
           updatedAt: users.updatedAt,
         });
 
+      // Tokens carry the role, and deactivated users must lose access at once
+      const roleChanged = updates.role !== undefined && updates.role !== existingUser.role;
+      const deactivated = updates.status !== undefined && updates.status !== 'active';
+
+      if (roleChanged || deactivated) {
+        await revokeUserSessions(id);
+      }
+
       return reply.send({
         success: true,
         data: {
@@ -292,6 +301,7 @@ export async function userRoutes(app: FastifyInstance) {
 
       // Delete user
       await db.delete(users).where(eq(users.id, id));
+      await revokeUserSessions(id);
 
       return reply.send({
         success: true,
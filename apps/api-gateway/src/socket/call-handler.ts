@@ -8,6 +8,14 @@ import type {
 } from '@nexusdialer/events';
 import { getSocketServer, emitToTenant, emitToQueue } from './index';
 import { getDb, calls, leads, agentProfiles, campaigns } from '@nexusdialer/database';
+import { publishRecordingControl } from '../lib/recording-control';
+import {
+  startTransfer,
+  completeTransfer,
+  cancelTransfer,
+  conferenceTransfer,
+} from '../lib/call-transfer';
+import { AppError } from '../middleware/error-handler';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -33,6 +41,11 @@ const activeCalls = new Map<string, {
   muted: boolean;
 }>();
 
+// Transfer errors such as a busy or unknown target are meant for the agent
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof AppError ? error.message : fallback;
+}
+
 export function setupCallHandlers(socket: NexusSocketClient) {
   const { userId, tenantId, agentId } = socket.data;
 
@@ -294,28 +307,108 @@ export function setupCallHandlers(socket: NexusSocketClient) {
     }
   });
 
-  // Handle transfer
+  // Blind or warm transfer to an agent, queue or outside number. The
+  // dialer engine moves the call and reports progress with
+  // call:transfer-updated.
   socket.on('call:transfer', async (data, callback) => {
     try {
-      const call = activeCalls.get(data.callId);
-      if (!call) {
-        return callback({ success: false, error: 'Call not found' });
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
       }
 
-      if (call.agentId !== agentId) {
-        return callback({ success: false, error: 'Not your call' });
+      const transfer = await startTransfer(
+        { id: agentId, tenantId },
+        data.callId,
+        data.type,
+        data.target
+      );
+
+      callback({ success: true, transferId: transfer.transferId });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to transfer call') });
+    }
+  });
+
+  // Warm transfer: hand the customer to the target once they have answered
+  socket.on('call:transfer-complete', async (data, callback) => {
+    try {
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
+      }
+
+      await completeTransfer({ id: agentId, tenantId }, data.transferId);
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to complete transfer') });
+    }
+  });
+
+  // Warm transfer: drop the target and go back to the customer
+  socket.on('call:transfer-cancel', async (data, callback) => {
+    try {
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
+      }
+
+      await cancelTransfer({ id: agentId, tenantId }, data.transferId);
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to cancel transfer') });
+    }
+  });
+
+  // Warm transfer: bring the customer, agent and target into a conference
+  socket.on('call:transfer-conference', async (data, callback) => {
+    try {
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
+      }
+
+      await conferenceTransfer({ id: agentId, tenantId }, data.transferId);
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to start conference') });
+    }
+  });
+
+  // Pause the recording, e.g. while the customer reads out card details.
+  // The dialer engine checks the call is this agent's and reports the
+  // result with call:recording-state.
+  socket.on('call:recording-pause', async (data, callback) => {
+    try {
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
       }
 
-      // In real implementation, this would:
-      // 1. For blind transfer: immediately transfer the call
-      // 2. For warm transfer: conference in the target, wait for agent to drop
+      await publishRecordingControl({
+        tenantId,
+        callId: data.callId,
+        agentId,
+        action: 'pause',
+        reason: data.reason,
+      });
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: 'Failed to pause recording' });
+    }
+  });
+
+  // Handle recording resume
+  socket.on('call:recording-resume', async (data, callback) => {
+    try {
+      if (!agentId) {
+        return callback({ success: false, error: 'Not logged in as agent' });
+      }
 
-      console.log(`Transfer request: ${data.type} transfer to ${data.target}`);
+      await publishRecordingControl({ tenantId, callId: data.callId, agentId, action: 'resume' });
 
-      // Emit transfer initiated event (custom event, would need to be added to types)
       callback({ success: true });
     } catch (error) {
-      callback({ success: false, error: 'Failed to transfer call' });
+      callback({ success: false, error: 'Failed to resume recording' });
     }
   });
 }
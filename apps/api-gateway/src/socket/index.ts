@@ -1,12 +1,21 @@
-import { Server } from 'socket.io';
-import type { Server as HttpServer } from 'http';
+import { Server, type Socket } from 'socket.io';
+import type { FastifyInstance } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import { getDb, users, agentProfiles, queues, campaigns } from '@nexusdialer/database';
 import type {
   ServerToClientEvents,
   ClientToServerEvents,
   InterServerEvents,
   SocketData,
 } from '@nexusdialer/events';
+import type { AuthenticatedUser } from '../middleware/auth';
+import {
+  isSessionRevoked,
+  subscribeToSessionRevocations,
+  type SessionClaims,
+} from '../lib/sessions';
 import { setupCallHandlers, cleanupStaleCalls } from './call-handler';
+import { setupMonitorHandlers } from './monitor-handler';
 
 export type NexusSocket = Server<
   ClientToServerEvents,
@@ -15,15 +24,50 @@ export type NexusSocket = Server<
   SocketData
 >;
 
+type NexusSocketClient = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>;
+
+const db = getDb();
+
+// Roles that may watch tenant-wide dashboards
+const DASHBOARD_ROLES = ['admin', 'supervisor'];
+
 let io: NexusSocket | null = null;
 
-export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
+/**
+ * Tell the client why and drop the connection; the client does not
+ * reconnect on its own after a server-side disconnect
+ */
+function endSession(socket: NexusSocketClient, code: string, message: string) {
+  socket.emit('error', { code, message });
+  socket.disconnect(true);
+}
+
+function disconnectExpiredSockets() {
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const socket of io?.sockets.sockets.values() ?? []) {
+    if (socket.data.expiresAt && socket.data.expiresAt <= now) {
+      endSession(socket, 'SESSION_EXPIRED', 'Session expired');
+    }
+  }
+}
+
+/**
+ * Socket.io server on the gateway's HTTP server. Sockets authenticate with
+ * the same JWT as the REST API, from the handshake or the token cookie.
+ */
+export function initializeSocketServer(app: FastifyInstance): NexusSocket {
   io = new Server<
     ClientToServerEvents,
     ServerToClientEvents,
     InterServerEvents,
     SocketData
-  >(httpServer, {
+  >(app.server, {
     cors: {
       origin: process.env.CORS_ORIGIN?.split(',') || [
         'http://localhost:3000',
@@ -38,24 +82,56 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
   // Authentication middleware
   io.use(async (socket, next) => {
     try {
-      const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.replace('Bearer ', '');
+      const cookieHeader = socket.handshake.headers.cookie;
+      const token =
+        socket.handshake.auth.token ||
+        socket.handshake.headers.authorization?.replace('Bearer ', '') ||
+        (cookieHeader ? app.parseCookie(cookieHeader).token : undefined);
 
       if (!token) {
         return next(new Error('Authentication required'));
       }
 
-      // TODO: Verify JWT token and extract user data
-      // For now, accept any token for development
-      const userId = socket.handshake.auth.userId || 'anonymous';
-      const tenantId = socket.handshake.auth.tenantId || 'default';
-      const role = socket.handshake.auth.role || 'agent';
-      const agentId = socket.handshake.auth.agentId;
+      let claims: Partial<AuthenticatedUser> & SessionClaims;
+
+      try {
+        claims = app.jwt.verify<Partial<AuthenticatedUser> & SessionClaims>(token);
+      } catch {
+        return next(new Error('Invalid or expired token'));
+      }
+
+      if (await isSessionRevoked(claims)) {
+        return next(new Error('Session has been revoked'));
+      }
+
+      // Auth service tokens name the user `userId`, gateway tokens `id`
+      const userId = claims.id ?? claims.userId;
+
+      if (!userId) {
+        return next(new Error('Invalid or expired token'));
+      }
+
+      // Tenant and role come from the database, never from the client
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+      });
+
+      if (!user || user.status !== 'active') {
+        return next(new Error('Account is not active'));
+      }
+
+      const profile = await db.query.agentProfiles.findFirst({
+        where: eq(agentProfiles.userId, user.id),
+      });
 
       socket.data = {
-        userId,
-        tenantId,
-        role,
-        agentId,
+        userId: user.id,
+        tenantId: user.tenantId,
+        role: user.role,
+        agentId: profile ? user.id : undefined,
+        sessionId: claims.jti,
+        issuedAt: claims.iat,
+        expiresAt: claims.exp,
         authenticatedAt: new Date().toISOString(),
       };
 
@@ -73,6 +149,9 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
     // Auto-join tenant room
     socket.join(`tenant:${tenantId}`);
 
+    // Events meant for this user only, e.g. callback reminders
+    socket.join(`user:${userId}`);
+
     // Send connection confirmation
     socket.emit('connected', { userId, agentId });
 
@@ -91,18 +170,40 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
       socket.leave(`tenant:${leaveTenantId}`);
     });
 
-    socket.on('join:queue', (queueId, callback) => {
-      socket.join(`queue:${queueId}`);
-      callback(true);
+    socket.on('join:queue', async (queueId, callback) => {
+      try {
+        const queue = await db.query.queues.findFirst({
+          where: and(eq(queues.id, queueId), eq(queues.tenantId, tenantId)),
+        });
+
+        if (queue) {
+          socket.join(`queue:${queueId}`);
+        }
+
+        callback(!!queue);
+      } catch (error) {
+        callback(false);
+      }
     });
 
     socket.on('leave:queue', (queueId) => {
       socket.leave(`queue:${queueId}`);
     });
 
-    socket.on('join:campaign', (campaignId, callback) => {
-      socket.join(`campaign:${campaignId}`);
-      callback(true);
+    socket.on('join:campaign', async (campaignId, callback) => {
+      try {
+        const campaign = await db.query.campaigns.findFirst({
+          where: and(eq(campaigns.id, campaignId), eq(campaigns.tenantId, tenantId)),
+        });
+
+        if (campaign) {
+          socket.join(`campaign:${campaignId}`);
+        }
+
+        callback(!!campaign);
+      } catch (error) {
+        callback(false);
+      }
     });
 
     socket.on('leave:campaign', (campaignId) => {
@@ -135,6 +236,10 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
 
     // Dashboard subscription
     socket.on('subscribe:dashboard', (callback) => {
+      if (!DASHBOARD_ROLES.includes(socket.data.role)) {
+        return callback({ success: false });
+      }
+
       socket.join(`dashboard:${tenantId}`);
       callback({ success: true });
     });
@@ -146,6 +251,9 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
     // Set up call handlers
     setupCallHandlers(socket);
 
+    // Supervisor listen/whisper/barge
+    setupMonitorHandlers(socket);
+
     // Disconnect
     socket.on('disconnect', (reason) => {
       console.log(`Socket disconnected: ${socket.id} (reason: ${reason})`);
@@ -161,9 +269,29 @@ export function initializeSocketServer(httpServer: HttpServer): NexusSocket {
     });
   });
 
+  // Drop sockets whose session was revoked on any gateway instance
+  subscribeToSessionRevocations((revocation) => {
+    for (const socket of io?.sockets.sockets.values() ?? []) {
+      const revoked =
+        'sessionId' in revocation
+          ? socket.data.sessionId === revocation.sessionId
+          : socket.data.userId === revocation.userId &&
+            (socket.data.issuedAt ?? 0) <= revocation.revokedBefore;
+
+      if (revoked) {
+        endSession(socket, 'SESSION_REVOKED', 'Session has been revoked');
+      }
+    }
+  }).catch((error) => {
+    console.error('Failed to subscribe to session revocations:', error);
+  });
+
   // Set up periodic cleanup of stale calls
   setInterval(cleanupStaleCalls, 60 * 1000); // Every minute
 
+  // Tokens are only checked on connect; drop sockets once theirs expires
+  setInterval(disconnectExpiredSockets, 30 * 1000);
+
   return io;
 }
 
@@ -196,6 +324,14 @@ export function emitToCampaign<E extends keyof ServerToClientEvents>(
   io?.to(`campaign:${campaignId}`).emit(event, ...args);
 }
 
+export function emitToUser<E extends keyof ServerToClientEvents>(
+  userId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) {
+  io?.to(`user:${userId}`).emit(event, ...args);
+}
+
 export function emitToDashboard<E extends keyof ServerToClientEvents>(
   tenantId: string,
   event: E,
@@ -0,0 +1,64 @@
+import type { Socket } from 'socket.io';
+import type { ServerToClientEvents, ClientToServerEvents, SocketData } from '@nexusdialer/events';
+import { startMonitoring, changeMonitorMode, stopMonitoring } from '../lib/monitoring';
+import { AppError } from '../middleware/error-handler';
+
+type NexusSocketClient = Socket<ClientToServerEvents, ServerToClientEvents, any, SocketData>;
+
+// Roles that may listen to, whisper on or barge into calls
+const MONITOR_ROLES = ['admin', 'supervisor'];
+
+// Authorization and conflict errors are meant for the supervisor
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof AppError ? error.message : fallback;
+}
+
+export function setupMonitorHandlers(socket: NexusSocketClient) {
+  const { userId, tenantId, role } = socket.data;
+  const actor = { id: userId, tenantId, role };
+
+  // Join a call; the supervisor's softphone is rung into it
+  socket.on('call:monitor-start', async (data, callback) => {
+    try {
+      if (!MONITOR_ROLES.includes(role)) {
+        return callback({ success: false, error: 'Insufficient permissions' });
+      }
+
+      const session = await startMonitoring(actor, data.callId, data.mode);
+
+      callback({ success: true, sessionId: session.sessionId });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to monitor call') });
+    }
+  });
+
+  // Switch between listen, whisper and barge
+  socket.on('call:monitor-mode', async (data, callback) => {
+    try {
+      if (!MONITOR_ROLES.includes(role)) {
+        return callback({ success: false, error: 'Insufficient permissions' });
+      }
+
+      await changeMonitorMode(actor, data.sessionId, data.mode);
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to switch mode') });
+    }
+  });
+
+  // Leave the call
+  socket.on('call:monitor-stop', async (data, callback) => {
+    try {
+      if (!MONITOR_ROLES.includes(role)) {
+        return callback({ success: false, error: 'Insufficient permissions' });
+      }
+
+      await stopMonitoring(actor, data.sessionId);
+
+      callback({ success: true });
+    } catch (error) {
+      callback({ success: false, error: errorMessage(error, 'Failed to stop monitoring') });
+    }
+  });
+}
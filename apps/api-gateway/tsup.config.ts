@@ -18,6 +18,7 @@ export default defineConfig({
     '@fastify/websocket',
     'fastify',
     'ioredis',
+    'kafkajs',
     'socket.io',
     '@nexusdialer/database',
     '@nexusdialer/events',
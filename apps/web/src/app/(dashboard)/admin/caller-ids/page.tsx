@@ -0,0 +1,830 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Edit, Trash2, Loader2, AlertTriangle, History, Undo2 } from 'lucide-react';
+import {
+  useCallerIdPools,
+  useCallerIds,
+  useCallerIdStats,
+  useCallerIdReputation,
+  useCreateCallerIdPool,
+  useUpdateCallerIdPool,
+  useDeleteCallerIdPool,
+  useCreateCallerId,
+  useUpdateCallerId,
+  useReleaseCallerId,
+  useDeleteCallerId,
+} from '@/hooks/use-api';
+import type { CallerIdInput, CallerIdPoolInput } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface CallerIdPool {
+  id: string;
+  name: string;
+  description: string | null;
+  localPresence: boolean;
+  dailyCapPerNumber: number | null;
+  minAnswerRate: number | null;
+  minCallsForQuarantine: number;
+  answerRateWindowHours: number;
+  quarantineHours: number;
+  numbers: number;
+  quarantined: number;
+}
+
+interface CallerId {
+  id: string;
+  phoneNumber: string;
+  name: string;
+  description: string | null;
+  poolId: string | null;
+  status: 'active' | 'inactive' | 'quarantined';
+  quarantinedUntil: string | null;
+  quarantineReason: 'low_answer_rate' | 'spam_likely' | null;
+  attestation: 'A' | 'B' | 'C' | null;
+  spamLikely: boolean;
+  callsToday: number;
+}
+
+interface CallerIdStats {
+  callerIdId: string;
+  attempts: number;
+  answered: number;
+  answerRate: number; // percent
+  shortCalls: number;
+  shortCallRatio: number; // percent of answered calls
+}
+
+interface ReputationDay {
+  date: string;
+  attempts: number;
+  answered: number;
+  answerRate: number;
+  shortCallRatio: number;
+  attestations: Partial<Record<'A' | 'B' | 'C', number>>;
+  spamLikely: boolean;
+}
+
+interface PoolForm {
+  name: string;
+  description: string;
+  localPresence: boolean;
+  dailyCapPerNumber: string;
+  minAnswerRate: string;
+  minCallsForQuarantine: string;
+  answerRateWindowHours: string;
+  quarantineHours: string;
+}
+
+interface CallerIdForm {
+  phoneNumber: string;
+  name: string;
+  poolId: string;
+}
+
+const EMPTY_POOL_FORM: PoolForm = {
+  name: '',
+  description: '',
+  localPresence: true,
+  dailyCapPerNumber: '',
+  minAnswerRate: '',
+  minCallsForQuarantine: '50',
+  answerRateWindowHours: '24',
+  quarantineHours: '72',
+};
+
+const EMPTY_CALLER_ID_FORM: CallerIdForm = { phoneNumber: '', name: '', poolId: 'none' };
+
+const QUARANTINE_REASONS: Record<string, string> = {
+  low_answer_rate: 'Low answer rate',
+  spam_likely: 'Spam likely',
+};
+
+function formatAttestations(attestations: ReputationDay['attestations']): string {
+  const levels = Object.entries(attestations).map(([level, calls]) => `${level}: ${calls}`);
+  return levels.length ? levels.join(', ') : '-';
+}
+
+export default function CallerIdsPage() {
+  const [poolFormOpen, setPoolFormOpen] = useState(false);
+  const [editingPool, setEditingPool] = useState<CallerIdPool | null>(null);
+  const [deletingPool, setDeletingPool] = useState<CallerIdPool | null>(null);
+  const [poolForm, setPoolForm] = useState<PoolForm>(EMPTY_POOL_FORM);
+  const [callerIdFormOpen, setCallerIdFormOpen] = useState(false);
+  const [editingCallerId, setEditingCallerId] = useState<CallerId | null>(null);
+  const [deletingCallerId, setDeletingCallerId] = useState<CallerId | null>(null);
+  const [callerIdForm, setCallerIdForm] = useState<CallerIdForm>(EMPTY_CALLER_ID_FORM);
+  const [historyCallerId, setHistoryCallerId] = useState<CallerId | null>(null);
+  const { toast } = useToast();
+
+  const { data: poolsData } = useCallerIdPools();
+  const { data: callerIdsData, isLoading } = useCallerIds();
+  const { data: statsData } = useCallerIdStats(24);
+  const { data: reputationData, isLoading: isLoadingHistory } = useCallerIdReputation(
+    historyCallerId?.id ?? null
+  );
+  const createPool = useCreateCallerIdPool();
+  const updatePool = useUpdateCallerIdPool();
+  const deletePool = useDeleteCallerIdPool();
+  const createCallerId = useCreateCallerId();
+  const updateCallerId = useUpdateCallerId();
+  const releaseCallerId = useReleaseCallerId();
+  const deleteCallerId = useDeleteCallerId();
+
+  const pools: CallerIdPool[] = poolsData?.pools ?? [];
+  const callerIds: CallerId[] = callerIdsData?.callerIds ?? [];
+  const history: ReputationDay[] = reputationData?.history ?? [];
+  const stats = new Map<string, CallerIdStats>(
+    (statsData?.callerIds ?? []).map((row: CallerIdStats) => [row.callerIdId, row])
+  );
+  const poolNames = new Map(pools.map((pool) => [pool.id, pool.name]));
+  const flaggedCount = callerIds.filter((callerId) => callerId.spamLikely).length;
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const openPoolDialog = (pool: CallerIdPool | null) => {
+    setEditingPool(pool);
+    setPoolForm(
+      pool
+        ? {
+            name: pool.name,
+            description: pool.description ?? '',
+            localPresence: pool.localPresence,
+            dailyCapPerNumber: pool.dailyCapPerNumber ? String(pool.dailyCapPerNumber) : '',
+            minAnswerRate: pool.minAnswerRate !== null ? String(pool.minAnswerRate) : '',
+            minCallsForQuarantine: String(pool.minCallsForQuarantine),
+            answerRateWindowHours: String(pool.answerRateWindowHours),
+            quarantineHours: String(pool.quarantineHours),
+          }
+        : EMPTY_POOL_FORM
+    );
+    setPoolFormOpen(true);
+  };
+
+  const openCallerIdDialog = (callerId: CallerId | null) => {
+    setEditingCallerId(callerId);
+    setCallerIdForm(
+      callerId
+        ? {
+            phoneNumber: callerId.phoneNumber,
+            name: callerId.name,
+            poolId: callerId.poolId ?? 'none',
+          }
+        : EMPTY_CALLER_ID_FORM
+    );
+    setCallerIdFormOpen(true);
+  };
+
+  const handleSavePool = async () => {
+    const data: CallerIdPoolInput = {
+      name: poolForm.name,
+      description: poolForm.description || null,
+      localPresence: poolForm.localPresence,
+      dailyCapPerNumber: poolForm.dailyCapPerNumber ? Number(poolForm.dailyCapPerNumber) : null,
+      minAnswerRate: poolForm.minAnswerRate ? Number(poolForm.minAnswerRate) : null,
+      minCallsForQuarantine: Number(poolForm.minCallsForQuarantine) || 50,
+      answerRateWindowHours: Number(poolForm.answerRateWindowHours) || 24,
+      quarantineHours: Number(poolForm.quarantineHours) || 72,
+    };
+
+    try {
+      if (editingPool) {
+        await updatePool.mutateAsync({ id: editingPool.id, data });
+      } else {
+        await createPool.mutateAsync(data);
+      }
+
+      setPoolFormOpen(false);
+      toast({
+        title: editingPool ? 'Pool updated' : 'Pool created',
+        description: `${poolForm.name} has been saved.`,
+      });
+    } catch (error) {
+      showError('Could not save pool', error);
+    }
+  };
+
+  const handleSaveCallerId = async () => {
+    const data: CallerIdInput = {
+      phoneNumber: callerIdForm.phoneNumber,
+      name: callerIdForm.name,
+      poolId: callerIdForm.poolId === 'none' ? null : callerIdForm.poolId,
+    };
+
+    try {
+      if (editingCallerId) {
+        await updateCallerId.mutateAsync({ id: editingCallerId.id, data });
+      } else {
+        await createCallerId.mutateAsync(data);
+      }
+
+      setCallerIdFormOpen(false);
+      toast({
+        title: editingCallerId ? 'Caller ID updated' : 'Caller ID added',
+        description: `${callerIdForm.phoneNumber} has been saved.`,
+      });
+    } catch (error) {
+      showError('Could not save caller ID', error);
+    }
+  };
+
+  const handleToggle = async (callerId: CallerId, active: boolean) => {
+    try {
+      await updateCallerId.mutateAsync({
+        id: callerId.id,
+        data: { status: active ? 'active' : 'inactive' },
+      });
+    } catch (error) {
+      showError('Could not update caller ID', error);
+    }
+  };
+
+  const handleRelease = async (callerId: CallerId) => {
+    try {
+      await releaseCallerId.mutateAsync(callerId.id);
+      toast({
+        title: 'Caller ID released',
+        description: `${callerId.phoneNumber} is back in rotation.`,
+      });
+    } catch (error) {
+      showError('Could not release caller ID', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      if (deletingPool) {
+        await deletePool.mutateAsync(deletingPool.id);
+        toast({ title: 'Pool deleted', description: `${deletingPool.name} has been removed.` });
+      } else if (deletingCallerId) {
+        await deleteCallerId.mutateAsync(deletingCallerId.id);
+        toast({
+          title: 'Caller ID deleted',
+          description: `${deletingCallerId.phoneNumber} has been removed.`,
+        });
+      }
+    } catch (error) {
+      showError('Could not delete', error);
+    } finally {
+      setDeletingPool(null);
+      setDeletingCallerId(null);
+    }
+  };
+
+  const isSavingPool = createPool.isPending || updatePool.isPending;
+  const isSavingCallerId = createCallerId.isPending || updateCallerId.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Caller IDs</h1>
+          <p className="text-muted-foreground">
+            Numbers shown to leads, rotated through pools with local presence
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openPoolDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pool
+          </Button>
+          <Button onClick={() => openCallerIdDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Number
+          </Button>
+        </div>
+      </div>
+
+      {flaggedCount > 0 && (
+        <Card className="border-yellow-500">
+          <CardContent className="flex items-center gap-3 py-4">
+            <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            <p className="text-sm">
+              {flaggedCount} {flaggedCount === 1 ? 'number looks' : 'numbers look'} labeled as
+              spam: answer rates have dropped or calls are being hung up within seconds. Pool
+              numbers are taken out of rotation automatically.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pools */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pools ({pools.length})</CardTitle>
+          <CardDescription>
+            Campaigns set to a pool pick a number per call, local to the lead where possible
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pools.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground">
+              No pools yet. Campaigns use their single caller ID.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pool</TableHead>
+                  <TableHead className="text-center">Numbers</TableHead>
+                  <TableHead className="text-center">Local presence</TableHead>
+                  <TableHead className="text-right">Daily cap</TableHead>
+                  <TableHead className="text-right">Min answer rate</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pools.map((pool) => (
+                  <TableRow key={pool.id}>
+                    <TableCell>
+                      <p className="font-medium">{pool.name}</p>
+                      {pool.description && (
+                        <p className="text-xs text-muted-foreground">{pool.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {pool.numbers}
+                      {pool.quarantined > 0 && (
+                        <span className="text-muted-foreground">
+                          {' '}
+                          ({pool.quarantined} quarantined)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {pool.localPresence ? 'On' : 'Off'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pool.dailyCapPerNumber ?? 'None'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pool.minAnswerRate !== null ? `${pool.minAnswerRate}%` : 'Off'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openPoolDialog(pool)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => setDeletingPool(pool)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Numbers */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Numbers ({callerIds.length})</CardTitle>
+          <CardDescription>
+            Answer rates over the last 24 hours; attestation is the STIR/SHAKEN level carriers
+            gave most of today&apos;s calls
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : callerIds.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No caller IDs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Pool</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-center">Attestation</TableHead>
+                  <TableHead className="text-right">Calls today</TableHead>
+                  <TableHead className="text-right">Answer rate</TableHead>
+                  <TableHead className="text-right">Short calls</TableHead>
+                  <TableHead className="text-center">Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {callerIds.map((callerId) => {
+                  const numberStats = stats.get(callerId.id);
+
+                  return (
+                    <TableRow key={callerId.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div>
+                            <p className="font-medium">{callerId.phoneNumber}</p>
+                            <p className="text-xs text-muted-foreground">{callerId.name}</p>
+                          </div>
+                          {callerId.spamLikely && (
+                            <Badge variant="warning">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Spam likely
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {callerId.poolId ? (
+                          poolNames.get(callerId.poolId)
+                        ) : (
+                          <span className="text-muted-foreground">None</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {callerId.status === 'quarantined' ? (
+                          <div>
+                            <Badge variant="destructive">Quarantined</Badge>
+                            <p className="text-xs text-muted-foreground">
+                              {QUARANTINE_REASONS[callerId.quarantineReason ?? ''] ?? ''}
+                              {callerId.quarantinedUntil &&
+                                ` until ${new Date(callerId.quarantinedUntil).toLocaleString()}`}
+                            </p>
+                          </div>
+                        ) : (
+                          <Badge variant={callerId.status === 'active' ? 'success' : 'secondary'}>
+                            {callerId.status === 'active' ? 'Active' : 'Inactive'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {callerId.attestation ? (
+                          <Badge variant={callerId.attestation === 'A' ? 'outline' : 'warning'}>
+                            {callerId.attestation}
+                          </Badge>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{callerId.callsToday}</TableCell>
+                      <TableCell className="text-right">
+                        {numberStats ? `${numberStats.answerRate}%` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {numberStats?.answered ? `${numberStats.shortCallRatio}%` : '-'}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={callerId.status === 'active'}
+                          disabled={callerId.status === 'quarantined'}
+                          onCheckedChange={(checked) => handleToggle(callerId, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {callerId.status === 'quarantined' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Release from quarantine"
+                            onClick={() => handleRelease(callerId)}
+                            disabled={releaseCallerId.isPending}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Reputation history"
+                          onClick={() => setHistoryCallerId(callerId)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openCallerIdDialog(callerId)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => setDeletingCallerId(callerId)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Pool Dialog */}
+      <Dialog open={poolFormOpen} onOpenChange={setPoolFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingPool ? 'Edit Pool' : 'Add Pool'}</DialogTitle>
+            <DialogDescription>
+              Numbers under the minimum answer rate, or that look labeled as spam, are
+              quarantined for the set time
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="poolName">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="poolName"
+                value={poolForm.name}
+                onChange={(e) => setPoolForm({ ...poolForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="poolDescription">Description</Label>
+              <Input
+                id="poolDescription"
+                value={poolForm.description}
+                onChange={(e) => setPoolForm({ ...poolForm, description: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="localPresence">Local presence</Label>
+                <p className="text-xs text-muted-foreground">
+                  Show leads a number from their area code, or their state
+                </p>
+              </div>
+              <Switch
+                id="localPresence"
+                checked={poolForm.localPresence}
+                onCheckedChange={(checked) => setPoolForm({ ...poolForm, localPresence: checked })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dailyCapPerNumber">Daily calls per number</Label>
+              <Input
+                id="dailyCapPerNumber"
+                type="number"
+                min={1}
+                placeholder="No cap"
+                value={poolForm.dailyCapPerNumber}
+                onChange={(e) => setPoolForm({ ...poolForm, dailyCapPerNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minAnswerRate">Min answer rate (%)</Label>
+              <Input
+                id="minAnswerRate"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Off"
+                value={poolForm.minAnswerRate}
+                onChange={(e) => setPoolForm({ ...poolForm, minAnswerRate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minCallsForQuarantine">Calls before judging a number</Label>
+              <Input
+                id="minCallsForQuarantine"
+                type="number"
+                min={1}
+                value={poolForm.minCallsForQuarantine}
+                onChange={(e) =>
+                  setPoolForm({ ...poolForm, minCallsForQuarantine: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="answerRateWindowHours">Answer rate window (hours)</Label>
+              <Input
+                id="answerRateWindowHours"
+                type="number"
+                min={1}
+                max={720}
+                value={poolForm.answerRateWindowHours}
+                onChange={(e) =>
+                  setPoolForm({ ...poolForm, answerRateWindowHours: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quarantineHours">Quarantine (hours)</Label>
+              <Input
+                id="quarantineHours"
+                type="number"
+                min={1}
+                max={720}
+                value={poolForm.quarantineHours}
+                onChange={(e) => setPoolForm({ ...poolForm, quarantineHours: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPoolFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePool} disabled={!poolForm.name || isSavingPool}>
+              {isSavingPool && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingPool ? 'Save Changes' : 'Add Pool'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / Edit Caller ID Dialog */}
+      <Dialog open={callerIdFormOpen} onOpenChange={setCallerIdFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCallerId ? 'Edit Caller ID' : 'Add Caller ID'}</DialogTitle>
+            <DialogDescription>A number your carriers let you call from</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="phoneNumber">
+                Phone number <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="phoneNumber"
+                placeholder="+15551234567"
+                value={callerIdForm.phoneNumber}
+                onChange={(e) => setCallerIdForm({ ...callerIdForm, phoneNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="callerIdName">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="callerIdName"
+                value={callerIdForm.name}
+                onChange={(e) => setCallerIdForm({ ...callerIdForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="poolId">Pool</Label>
+              <Select
+                value={callerIdForm.poolId}
+                onValueChange={(value) => setCallerIdForm({ ...callerIdForm, poolId: value })}
+              >
+                <SelectTrigger id="poolId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No pool</SelectItem>
+                  {pools.map((pool) => (
+                    <SelectItem key={pool.id} value={pool.id}>
+                      {pool.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCallerIdFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveCallerId}
+              disabled={!callerIdForm.phoneNumber || !callerIdForm.name || isSavingCallerId}
+            >
+              {isSavingCallerId && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingCallerId ? 'Save Changes' : 'Add Number'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reputation History Dialog */}
+      <Dialog open={!!historyCallerId} onOpenChange={(open) => !open && setHistoryCallerId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Reputation: {historyCallerId?.phoneNumber}</DialogTitle>
+            <DialogDescription>
+              Daily answer rate, short calls and STIR/SHAKEN attestations over the last 30 days
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingHistory ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No calls recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Answer rate</TableHead>
+                  <TableHead className="text-right">Short calls</TableHead>
+                  <TableHead>Attestation</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((day) => (
+                  <TableRow key={day.date}>
+                    <TableCell>{day.date}</TableCell>
+                    <TableCell className="text-right">{day.attempts}</TableCell>
+                    <TableCell className="text-right">{day.answerRate}%</TableCell>
+                    <TableCell className="text-right">
+                      {day.answered ? `${day.shortCallRatio}%` : '-'}
+                    </TableCell>
+                    <TableCell>{formatAttestations(day.attestations)}</TableCell>
+                    <TableCell>
+                      {day.spamLikely && <Badge variant="warning">Spam likely</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={!!deletingPool || !!deletingCallerId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeletingPool(null);
+            setDeletingCallerId(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{deletingPool ? 'Delete Pool' : 'Delete Caller ID'}</DialogTitle>
+            <DialogDescription>
+              {deletingPool
+                ? `Numbers in ${deletingPool.name} are kept outside any pool, and its campaigns
+                  go back to their single caller ID.`
+                : `Deleting ${deletingCallerId?.phoneNumber} also deletes its reputation history.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setDeletingPool(null);
+                setDeletingCallerId(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deletePool.isPending || deleteCallerId.isPending}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Scale, Trash2 } from 'lucide-react';
+import {
+  useCampaigns,
+  useRetention,
+  useRetentionAudit,
+  useUpdateRetention,
+} from '@/hooks/use-api';
+import type { RetentionPolicyInput } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface Policy {
+  recordingDays?: number;
+  transcriptDays?: number;
+}
+
+const FOREVER = 'forever';
+
+const PERIODS: { days: number; label: string }[] = [
+  { days: 30, label: '30 Days' },
+  { days: 90, label: '90 Days' },
+  { days: 180, label: '6 Months' },
+  { days: 365, label: '1 Year' },
+  { days: 730, label: '2 Years' },
+  { days: 1825, label: '5 Years' },
+  { days: 2555, label: '7 Years' },
+];
+
+function formatPeriod(days?: number) {
+  if (days === undefined) return 'Forever';
+  return PERIODS.find((period) => period.days === days)?.label ?? `${days} Days`;
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : 'None';
+}
+
+function PeriodSelect({
+  value,
+  onChange,
+}: {
+  value?: number;
+  onChange: (days: number | undefined) => void;
+}) {
+  const custom = value !== undefined && !PERIODS.some((period) => period.days === value);
+
+  return (
+    <Select
+      value={value === undefined ? FOREVER : String(value)}
+      onValueChange={(next) => onChange(next === FOREVER ? undefined : Number(next))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={FOREVER}>Keep Forever</SelectItem>
+        {custom && <SelectItem value={String(value)}>{value} Days</SelectItem>}
+        {PERIODS.map((period) => (
+          <SelectItem key={period.days} value={String(period.days)}>
+            {period.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The API clears a period with null; undefined would leave it unchanged
+function toInput(policy: Policy): RetentionPolicyInput {
+  return {
+    recordingDays: policy.recordingDays ?? null,
+    transcriptDays: policy.transcriptDays ?? null,
+  };
+}
+
+/**
+ * Retention policy for recordings and transcripts, with per-campaign
+ * overrides and what is currently held under it
+ */
+export function DataRetention() {
+  const { toast } = useToast();
+  const { data, isLoading } = useRetention();
+  const { data: campaignsData } = useCampaigns();
+  const { data: auditData } = useRetentionAudit({ action: 'retention.purge', limit: 5 });
+  const updateRetention = useUpdateRetention();
+
+  const [policy, setPolicy] = useState<Policy>({});
+  const [overrides, setOverrides] = useState<Record<string, Policy>>({});
+  const [removed, setRemoved] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!data?.policy) return;
+    const { campaigns = {}, ...tenantPolicy } = data.policy;
+    setPolicy(tenantPolicy);
+    setOverrides(campaigns);
+    setRemoved([]);
+  }, [data]);
+
+  const campaigns: any[] = campaignsData?.campaigns ?? [];
+  const holdings = data?.holdings;
+  const purges: any[] = auditData?.entries ?? [];
+  const available = campaigns.filter((campaign) => !overrides[campaign.id]);
+
+  const addOverride = (campaignId: string) => {
+    setOverrides((current) => ({ ...current, [campaignId]: { ...policy } }));
+    setRemoved((current) => current.filter((id) => id !== campaignId));
+  };
+
+  const removeOverride = (campaignId: string) => {
+    setOverrides(({ [campaignId]: _, ...rest }) => rest);
+    setRemoved((current) => [...current, campaignId]);
+  };
+
+  const save = async () => {
+    const campaignInputs: Record<string, RetentionPolicyInput> = {};
+
+    for (const [campaignId, override] of Object.entries(overrides)) {
+      campaignInputs[campaignId] = toInput(override);
+    }
+
+    // An override with no periods is dropped by the API
+    for (const campaignId of removed) {
+      campaignInputs[campaignId] = { recordingDays: null, transcriptDays: null };
+    }
+
+    try {
+      await updateRetention.mutateAsync({ ...toInput(policy), campaigns: campaignInputs });
+      toast({
+        title: 'Retention policy saved',
+        description: 'The next purge will apply the new periods.',
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to save retention policy',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium">Data Retention</h4>
+        <p className="text-sm text-muted-foreground">
+          Recordings and transcripts are deleted once their call is older than the period. Call
+          records are always kept, and calls or customers on legal hold are never purged.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Recording Retention</Label>
+          <PeriodSelect
+            value={policy.recordingDays}
+            onChange={(recordingDays) => setPolicy({ ...policy, recordingDays })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Transcript Retention</Label>
+          <PeriodSelect
+            value={policy.transcriptDays}
+            onChange={(transcriptDays) => setPolicy({ ...policy, transcriptDays })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Campaign Overrides</Label>
+        {Object.entries(overrides).map(([campaignId, override]) => (
+          <div key={campaignId} className="grid gap-2 md:grid-cols-[1fr_1fr_1fr_auto] items-center">
+            <span className="text-sm font-medium">
+              {campaigns.find((campaign) => campaign.id === campaignId)?.name ?? campaignId}
+            </span>
+            <PeriodSelect
+              value={override.recordingDays}
+              onChange={(recordingDays) =>
+                setOverrides({ ...overrides, [campaignId]: { ...override, recordingDays } })
+              }
+            />
+            <PeriodSelect
+              value={override.transcriptDays}
+              onChange={(transcriptDays) =>
+                setOverrides({ ...overrides, [campaignId]: { ...override, transcriptDays } })
+              }
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Remove override"
+              onClick={() => removeOverride(campaignId)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {available.length > 0 && (
+          <Select value="" onValueChange={addOverride}>
+            <SelectTrigger className="w-[260px]">
+              <Plus className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Add campaign override" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((campaign) => (
+                <SelectItem key={campaign.id} value={campaign.id}>
+                  {campaign.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {holdings && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="p-3 border rounded-lg">
+            <p className="text-sm text-muted-foreground">Recordings Held</p>
+            <p className="font-medium">{holdings.recordings.stored.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">
+              Oldest from {formatDate(holdings.recordings.oldest)} · kept{' '}
+              {formatPeriod(data?.policy?.recordingDays).toLowerCase()}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-sm text-muted-foreground">Transcripts Held</p>
+            <p className="font-medium">{holdings.transcripts.stored.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">
+              Oldest from {formatDate(holdings.transcripts.oldest)} · kept{' '}
+              {formatPeriod(data?.policy?.transcriptDays).toLowerCase()}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Scale className="h-3 w-3" />
+              Legal Holds
+            </p>
+            <p className="font-medium">
+              {holdings.legalHolds.calls} calls · {holdings.legalHolds.leads} customers
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Last purge {formatDate(holdings.lastPurgeAt)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {purges.length > 0 && (
+        <div className="space-y-1">
+          <Label>Recent Purges</Label>
+          {purges.map((entry) => (
+            <p key={entry.id} className="text-sm text-muted-foreground">
+              {new Date(entry.createdAt).toLocaleString()} ·{' '}
+              {entry.resourceType === 'recording'
+                ? `Recording of call ${entry.details.callId}`
+                : `Transcript of call ${entry.resourceId}`}{' '}
+              · {entry.details.retentionDays} day policy
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={save} disabled={updateRetention.isPending}>
+          {updateRetention.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Retention Policy
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   Phone,
   Upload,
 } from 'lucide-react';
+import { DataRetention } from './components/data-retention';
 
 export default function TenantSettingsPage() {
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
@@ -520,39 +521,7 @@ export default function TenantSettingsPage() {
                 </div>
               </div>
 
-              <div className="space-y-4">
-                <h4 className="font-medium">Data Retention</h4>
-                <div className="grid gap-4 md:grid-cols-2">
-                  <div className="space-y-2">
-                    <Label>Call Records Retention</Label>
-                    <Select defaultValue="2years">
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="1year">1 Year</SelectItem>
-                        <SelectItem value="2years">2 Years</SelectItem>
-                        <SelectItem value="5years">5 Years</SelectItem>
-                        <SelectItem value="7years">7 Years</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Recording Retention</Label>
-                    <Select defaultValue="1year">
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="90days">90 Days</SelectItem>
-                        <SelectItem value="1year">1 Year</SelectItem>
-                        <SelectItem value="2years">2 Years</SelectItem>
-                        <SelectItem value="5years">5 Years</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-              </div>
+              <DataRetention />
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,549 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Edit, Trash2, Loader2, Network } from 'lucide-react';
+import {
+  useTrunks,
+  useTrunkStats,
+  useCreateTrunk,
+  useUpdateTrunk,
+  useDeleteTrunk,
+} from '@/hooks/use-api';
+import type { TrunkInput } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface Trunk {
+  id: string;
+  name: string;
+  gateway: string;
+  transport: 'udp' | 'tcp' | 'tls';
+  username: string | null;
+  hasPassword: boolean;
+  codecs: string[];
+  maxChannels: number | null;
+  costPerMinute: number;
+  prefixes: string[];
+  priority: number;
+  failoverCauses: string[];
+  enabled: boolean;
+  activeChannels: number;
+}
+
+interface TrunkStats {
+  trunkId: string;
+  attempts: number;
+  answered: number;
+  asr: number; // percent
+  acd: number; // seconds
+  minutes: number;
+  cost: number;
+}
+
+interface TrunkForm {
+  name: string;
+  gateway: string;
+  transport: 'udp' | 'tcp' | 'tls';
+  username: string;
+  password: string;
+  codecs: string;
+  maxChannels: string;
+  costPerMinute: string;
+  prefixes: string;
+  priority: string;
+  failoverCauses: string;
+}
+
+const EMPTY_FORM: TrunkForm = {
+  name: '',
+  gateway: '',
+  transport: 'udp',
+  username: '',
+  password: '',
+  codecs: 'PCMU, PCMA',
+  maxChannels: '',
+  costPerMinute: '0',
+  prefixes: '',
+  priority: '0',
+  failoverCauses: '',
+};
+
+const STATS_PERIODS = [
+  { value: '1', label: 'Today' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+];
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function TrunksPage() {
+  const [statsDays, setStatsDays] = useState('7');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTrunk, setEditingTrunk] = useState<Trunk | null>(null);
+  const [deletingTrunk, setDeletingTrunk] = useState<Trunk | null>(null);
+  const [formData, setFormData] = useState<TrunkForm>(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const { data: trunksData, isLoading } = useTrunks();
+  const { data: statsData } = useTrunkStats(Number(statsDays));
+  const createTrunk = useCreateTrunk();
+  const updateTrunk = useUpdateTrunk();
+  const deleteTrunk = useDeleteTrunk();
+
+  const trunks: Trunk[] = trunksData?.trunks ?? [];
+  const stats = new Map<string, TrunkStats>(
+    (statsData?.trunks ?? []).map((row: TrunkStats) => [row.trunkId, row])
+  );
+
+  const openCreateDialog = () => {
+    setEditingTrunk(null);
+    setFormData(EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const openEditDialog = (trunk: Trunk) => {
+    setEditingTrunk(trunk);
+    setFormData({
+      name: trunk.name,
+      gateway: trunk.gateway,
+      transport: trunk.transport,
+      username: trunk.username ?? '',
+      password: '',
+      codecs: trunk.codecs.join(', '),
+      maxChannels: trunk.maxChannels ? String(trunk.maxChannels) : '',
+      costPerMinute: String(trunk.costPerMinute),
+      prefixes: trunk.prefixes.join(', '),
+      priority: String(trunk.priority),
+      failoverCauses: trunk.failoverCauses.join(', '),
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const data: TrunkInput = {
+      name: formData.name,
+      gateway: formData.gateway,
+      transport: formData.transport,
+      username: formData.username || null,
+      codecs: splitList(formData.codecs),
+      maxChannels: formData.maxChannels ? Number(formData.maxChannels) : null,
+      costPerMinute: Number(formData.costPerMinute) || 0,
+      prefixes: splitList(formData.prefixes),
+      priority: Number(formData.priority) || 0,
+    };
+
+    // A blank password keeps the one already set
+    if (formData.password) {
+      data.password = formData.password;
+    }
+
+    // New trunks get the default failover causes when none are given
+    const failoverCauses = splitList(formData.failoverCauses);
+    if (failoverCauses.length || editingTrunk) {
+      data.failoverCauses = failoverCauses;
+    }
+
+    try {
+      if (editingTrunk) {
+        await updateTrunk.mutateAsync({ id: editingTrunk.id, data });
+      } else {
+        await createTrunk.mutateAsync(data);
+      }
+
+      setFormOpen(false);
+      toast({
+        title: editingTrunk ? 'Trunk updated' : 'Trunk created',
+        description: `${formData.name} has been saved.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not save trunk',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggle = async (trunk: Trunk, enabled: boolean) => {
+    try {
+      await updateTrunk.mutateAsync({ id: trunk.id, data: { enabled } });
+    } catch (error) {
+      toast({
+        title: 'Could not update trunk',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTrunk) return;
+
+    try {
+      await deleteTrunk.mutateAsync(deletingTrunk.id);
+      toast({
+        title: 'Trunk deleted',
+        description: `${deletingTrunk.name} has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not delete trunk',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingTrunk(null);
+    }
+  };
+
+  const isSaving = createTrunk.isPending || updateTrunk.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">SIP Trunks</h1>
+          <p className="text-muted-foreground">
+            Carriers for outbound calls, chosen by number prefix and cost
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Trunk
+        </Button>
+      </div>
+
+      {/* Trunks Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Trunks ({trunks.length})</CardTitle>
+              <CardDescription>
+                Calls fail over to the next cheapest trunk on the listed hangup causes
+              </CardDescription>
+            </div>
+            <Select value={statsDays} onValueChange={setStatsDays}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATS_PERIODS.map((period) => (
+                  <SelectItem key={period.value} value={period.value}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : trunks.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              No trunks yet. Calls go out through the default carrier gateway.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trunk</TableHead>
+                  <TableHead>Prefixes</TableHead>
+                  <TableHead className="text-right">Cost / min</TableHead>
+                  <TableHead className="text-center">Channels</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead className="text-right">ASR</TableHead>
+                  <TableHead className="text-right">ACD</TableHead>
+                  <TableHead className="text-center">Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trunks.map((trunk) => {
+                  const trunkStats = stats.get(trunk.id);
+
+                  return (
+                    <TableRow key={trunk.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary/10 text-primary">
+                            <Network className="h-4 w-4" />
+                          </div>
+                          <div>
+                            <p className="font-medium">{trunk.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {trunk.gateway} ({trunk.transport.toUpperCase()})
+                            </p>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {trunk.prefixes.length ? (
+                          <div className="flex flex-wrap gap-1">
+                            {trunk.prefixes.map((prefix) => (
+                              <Badge key={prefix} variant="outline">
+                                +{prefix}
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Any</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        ${trunk.costPerMinute.toFixed(4)}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {trunk.activeChannels} / {trunk.maxChannels ?? '∞'}
+                      </TableCell>
+                      <TableCell className="text-right">{trunkStats?.attempts ?? 0}</TableCell>
+                      <TableCell className="text-right">
+                        {trunkStats ? `${trunkStats.asr}%` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {trunkStats?.answered ? formatDuration(trunkStats.acd) : '-'}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={trunk.enabled}
+                          onCheckedChange={(checked) => handleToggle(trunk, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(trunk)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => setDeletingTrunk(trunk)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Trunk Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingTrunk ? 'Edit Trunk' : 'Add Trunk'}</DialogTitle>
+            <DialogDescription>
+              The dialer sends calls straight to the carrier&apos;s gateway with these
+              credentials
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="name"
+                placeholder="e.g., Carrier A"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gateway">
+                Gateway <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="gateway"
+                placeholder="sip.carrier.com:5060"
+                value={formData.gateway}
+                onChange={(e) => setFormData({ ...formData, gateway: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                value={formData.username}
+                onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder={editingTrunk?.hasPassword ? 'Leave blank to keep' : ''}
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transport">Transport</Label>
+              <Select
+                value={formData.transport}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, transport: value as TrunkForm['transport'] })
+                }
+              >
+                <SelectTrigger id="transport">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="udp">UDP</SelectItem>
+                  <SelectItem value="tcp">TCP</SelectItem>
+                  <SelectItem value="tls">TLS</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="codecs">Codecs</Label>
+              <Input
+                id="codecs"
+                placeholder="PCMU, PCMA, G729"
+                value={formData.codecs}
+                onChange={(e) => setFormData({ ...formData, codecs: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="costPerMinute">Cost per minute ($)</Label>
+              <Input
+                id="costPerMinute"
+                type="number"
+                min={0}
+                step="0.0001"
+                value={formData.costPerMinute}
+                onChange={(e) => setFormData({ ...formData, costPerMinute: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxChannels">Max channels</Label>
+              <Input
+                id="maxChannels"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={formData.maxChannels}
+                onChange={(e) => setFormData({ ...formData, maxChannels: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prefixes">Country / number prefixes</Label>
+              <Input
+                id="prefixes"
+                placeholder="1, 44 (blank for any number)"
+                value={formData.prefixes}
+                onChange={(e) => setFormData({ ...formData, prefixes: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priority">Priority</Label>
+              <Input
+                id="priority"
+                type="number"
+                min={0}
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Breaks ties between trunks of the same cost; lowest first
+              </p>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="failoverCauses">Failover hangup causes</Label>
+              <Input
+                id="failoverCauses"
+                placeholder="Defaults: NORMAL_TEMPORARY_FAILURE, SERVICE_UNAVAILABLE, ..."
+                value={formData.failoverCauses}
+                onChange={(e) => setFormData({ ...formData, failoverCauses: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!formData.name || !formData.gateway || isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingTrunk ? 'Save Changes' : 'Add Trunk'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deletingTrunk} onOpenChange={(open) => !open && setDeletingTrunk(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Trunk</DialogTitle>
+            <DialogDescription>
+              Deleting {deletingTrunk?.name} also deletes its ASR and ACD history. Disable it
+              instead to keep the history.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingTrunk(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteTrunk.isPending}
+            >
+              Delete Trunk
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -35,123 +35,187 @@ import {
   Calendar,
   Clock,
   User,
-  MapPin,
   Search,
-  Plus,
   Edit,
-  Trash2,
   CheckCircle,
   AlertCircle,
   PhoneCall,
+  PhoneMissed,
   CalendarClock,
-  StickyNote,
   Building,
+  Bell,
+  X,
+  Loader2,
 } from 'lucide-react';
+import { useMyCallbacks, useRescheduleCallback } from '@/hooks/use-api';
+import { useCallbackEvents } from '@/hooks/use-socket';
+import { useToast } from '@/hooks/use-toast';
 
-// Mock callbacks data
-const mockCallbacks = [
-  {
-    id: '1',
-    customer: { name: 'John Smith', phone: '+1 (555) 123-4567', company: 'Acme Corp', location: 'New York, NY' },
-    scheduledDate: '2024-01-10',
-    scheduledTime: '10:00',
-    campaign: 'Sales Q1',
-    priority: 'high',
-    status: 'pending',
-    notes: 'Interested in premium plan, needs pricing details',
-    createdAt: '2024-01-08',
-    attempts: 1,
-  },
-  {
-    id: '2',
-    customer: { name: 'Jane Doe', phone: '+1 (555) 234-5678', company: 'Tech Solutions', location: 'San Francisco, CA' },
-    scheduledDate: '2024-01-10',
-    scheduledTime: '11:30',
-    campaign: 'Renewals',
-    priority: 'medium',
-    status: 'pending',
-    notes: 'Contract renewal discussion, decision maker available',
-    createdAt: '2024-01-09',
-    attempts: 0,
-  },
-  {
-    id: '3',
-    customer: { name: 'Bob Wilson', phone: '+1 (555) 345-6789', company: 'Global Industries', location: 'Chicago, IL' },
-    scheduledDate: '2024-01-10',
-    scheduledTime: '14:00',
-    campaign: 'Sales Q1',
-    priority: 'low',
-    status: 'pending',
-    notes: 'Follow up on product demo, send brochure first',
-    createdAt: '2024-01-07',
-    attempts: 2,
-  },
-  {
-    id: '4',
-    customer: { name: 'Alice Brown', phone: '+1 (555) 456-7890', company: 'StartUp Inc', location: 'Austin, TX' },
-    scheduledDate: '2024-01-11',
-    scheduledTime: '09:00',
-    campaign: 'New Leads',
-    priority: 'high',
-    status: 'pending',
-    notes: 'Hot lead from webinar, very interested',
-    createdAt: '2024-01-10',
-    attempts: 0,
-  },
-  {
-    id: '5',
-    customer: { name: 'Charlie Davis', phone: '+1 (555) 567-8901', company: 'Enterprise LLC', location: 'Seattle, WA' },
-    scheduledDate: '2024-01-09',
-    scheduledTime: '16:00',
-    campaign: 'Sales Q1',
-    priority: 'medium',
-    status: 'overdue',
-    notes: 'Missed yesterday, try again today',
-    createdAt: '2024-01-05',
-    attempts: 3,
-  },
-];
+interface Callback {
+  id: string;
+  leadId: string | null;
+  scheduledAt: string;
+  callbackType: 'any' | 'agent_specific';
+  notes: string | null;
+  status: string;
+  completedAt: string | null;
+  phoneNumber: string | null;
+  leadFirstName: string | null;
+  leadLastName: string | null;
+  leadCompany: string | null;
+}
+
+// Show the past week alongside everything still to come
+const HISTORY_DAYS = 7;
+
+const getCustomerName = (callback: Callback) =>
+  [callback.leadFirstName, callback.leadLastName].filter(Boolean).join(' ') ||
+  callback.phoneNumber ||
+  'Unknown';
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+
+const toTimeInput = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
 
 export default function CallbacksPage() {
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
-  const [priorityFilter, setPriorityFilter] = useState('all');
-  const [isNewCallbackOpen, setIsNewCallbackOpen] = useState(false);
-  const [selectedCallback, setSelectedCallback] = useState<typeof mockCallbacks[0] | null>(null);
+  const [selectedCallback, setSelectedCallback] = useState<Callback | null>(null);
+  const [rescheduleForm, setRescheduleForm] = useState({ date: '', time: '', notes: '' });
+  const [from] = useState(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - HISTORY_DAYS);
+    return start.toISOString();
+  });
+
+  const { data, isLoading, error, refetch } = useMyCallbacks({ from });
+  const rescheduleCallback = useRescheduleCallback();
+  const { reminders, lastStatus, dismissReminder } = useCallbackEvents();
+
+  const callbacks: Callback[] = data ?? [];
+  const now = new Date();
+
+  // Keep the list in step with the callback scheduler
+  useEffect(() => {
+    if (!lastStatus) return;
+
+    refetch();
 
-  const filteredCallbacks = mockCallbacks.filter((callback) => {
+    const name = lastStatus.leadName || lastStatus.phoneNumber || 'your callback';
+
+    if (lastStatus.status === 'dialing') {
+      toast({
+        title: 'Callback starting',
+        description: `Calling ${name} in a few seconds.`,
+      });
+    } else if (lastStatus.status === 'missed') {
+      toast({
+        title: 'Callback missed',
+        description: lastStatus.reason
+          ? `Could not reach ${name}: ${lastStatus.reason}`
+          : `Could not reach ${name}.`,
+        variant: 'destructive',
+      });
+    }
+  }, [lastStatus, refetch, toast]);
+
+  const isOverdue = (callback: Callback) =>
+    callback.status === 'pending' && new Date(callback.scheduledAt) < now;
+
+  const filteredCallbacks = callbacks.filter((callback) => {
+    const term = searchTerm.toLowerCase();
     const matchesSearch =
-      callback.customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      callback.customer.phone.includes(searchTerm) ||
-      callback.customer.company.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || callback.status === statusFilter;
-    const matchesPriority = priorityFilter === 'all' || callback.priority === priorityFilter;
-    return matchesSearch && matchesStatus && matchesPriority;
+      getCustomerName(callback).toLowerCase().includes(term) ||
+      (callback.phoneNumber ?? '').includes(searchTerm) ||
+      (callback.leadCompany ?? '').toLowerCase().includes(term);
+    const matchesStatus =
+      statusFilter === 'all' ||
+      (statusFilter === 'overdue' ? isOverdue(callback) : callback.status === statusFilter);
+    return matchesSearch && matchesStatus;
   });
 
-  const todayCallbacks = mockCallbacks.filter(
-    (cb) => cb.scheduledDate === '2024-01-10' && cb.status === 'pending'
+  const pendingCallbacks = callbacks.filter((cb) => cb.status === 'pending');
+  const todayCallbacks = pendingCallbacks.filter(
+    (cb) => isSameDay(new Date(cb.scheduledAt), now) && !isOverdue(cb)
+  );
+  const overdueCallbacks = pendingCallbacks.filter(isOverdue);
+  const upcomingCallbacks = pendingCallbacks.filter(
+    (cb) => new Date(cb.scheduledAt) > now && !isSameDay(new Date(cb.scheduledAt), now)
   );
-  const overdueCallbacks = mockCallbacks.filter((cb) => cb.status === 'overdue');
-  const upcomingCallbacks = mockCallbacks.filter(
-    (cb) => cb.scheduledDate > '2024-01-10' && cb.status === 'pending'
+  const completedToday = callbacks.filter(
+    (cb) => cb.status === 'completed' && cb.completedAt && isSameDay(new Date(cb.completedAt), now)
   );
 
-  const getPriorityBadge = (priority: string) => {
-    switch (priority) {
-      case 'high':
-        return <Badge variant="destructive">High</Badge>;
-      case 'medium':
-        return <Badge variant="default">Medium</Badge>;
-      case 'low':
-        return <Badge variant="secondary">Low</Badge>;
-      default:
-        return <Badge variant="outline">{priority}</Badge>;
+  const openReschedule = (callback: Callback) => {
+    const next = new Date(Math.max(new Date(callback.scheduledAt).getTime(), Date.now() + 3600000));
+    setRescheduleForm({
+      date: toDateInput(next),
+      time: toTimeInput(next),
+      notes: callback.notes ?? '',
+    });
+    setSelectedCallback(callback);
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedCallback) return;
+
+    const scheduledAt = new Date(`${rescheduleForm.date}T${rescheduleForm.time}`);
+
+    if (Number.isNaN(scheduledAt.getTime()) || scheduledAt <= new Date()) {
+      toast({
+        title: 'Invalid time',
+        description: 'Pick a date and time in the future.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await rescheduleCallback.mutateAsync({
+        id: selectedCallback.id,
+        scheduledAt: scheduledAt.toISOString(),
+        notes: rescheduleForm.notes || undefined,
+      });
+      toast({
+        title: 'Callback rescheduled',
+        description: `${getCustomerName(selectedCallback)} will be called ${scheduledAt.toLocaleString()}.`,
+      });
+      setSelectedCallback(null);
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to reschedule callback.',
+        variant: 'destructive',
+      });
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+  const getTypeBadge = (type: Callback['callbackType']) =>
+    type === 'agent_specific' ? (
+      <Badge variant="default">Just me</Badge>
+    ) : (
+      <Badge variant="secondary">Any agent</Badge>
+    );
+
+  const getStatusBadge = (callback: Callback) => {
+    if (isOverdue(callback)) {
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <AlertCircle className="h-3 w-3" />
+          Overdue
+        </Badge>
+      );
+    }
+
+    switch (callback.status) {
       case 'pending':
         return (
           <Badge variant="outline" className="gap-1 bg-blue-50 text-blue-700 border-blue-200">
@@ -159,11 +223,11 @@ export default function CallbacksPage() {
             Pending
           </Badge>
         );
-      case 'overdue':
+      case 'dialing':
         return (
-          <Badge variant="destructive" className="gap-1">
-            <AlertCircle className="h-3 w-3" />
-            Overdue
+          <Badge variant="outline" className="gap-1 bg-amber-50 text-amber-700 border-amber-200">
+            <PhoneCall className="h-3 w-3" />
+            Dialing
           </Badge>
         );
       case 'completed':
@@ -173,8 +237,22 @@ export default function CallbacksPage() {
             Completed
           </Badge>
         );
+      case 'missed':
+        return (
+          <Badge variant="destructive" className="gap-1">
+            <PhoneMissed className="h-3 w-3" />
+            Missed
+          </Badge>
+        );
+      case 'rescheduled':
+        return (
+          <Badge variant="outline" className="gap-1">
+            <CalendarClock className="h-3 w-3" />
+            Rescheduled
+          </Badge>
+        );
       default:
-        return <Badge variant="outline">{status}</Badge>;
+        return <Badge variant="outline">{callback.status}</Badge>;
     }
   };
 
@@ -184,14 +262,47 @@ export default function CallbacksPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">Callbacks</h1>
-          <p className="text-muted-foreground">Manage your scheduled callback appointments</p>
+          <p className="text-muted-foreground">
+            Callbacks you scheduled are dialed for you when they come due
+          </p>
         </div>
-        <Button onClick={() => setIsNewCallbackOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Callback
-        </Button>
       </div>
 
+      {/* Reminders pushed a few minutes before a callback is due */}
+      {reminders.length > 0 && (
+        <div className="space-y-2">
+          {reminders.map((reminder) => (
+            <div
+              key={reminder.callbackId}
+              className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 p-3"
+            >
+              <div className="flex items-center gap-3">
+                <Bell className="h-5 w-5 text-amber-600" />
+                <div>
+                  <p className="font-medium">
+                    Callback to {reminder.leadName || reminder.phoneNumber} at{' '}
+                    {new Date(reminder.scheduledAt).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                  {reminder.notes && (
+                    <p className="text-sm text-muted-foreground">{reminder.notes}</p>
+                  )}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => dismissReminder(reminder.callbackId)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card className="border-l-4 border-l-blue-500">
@@ -201,7 +312,7 @@ export default function CallbacksPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{todayCallbacks.length}</div>
-            <p className="text-xs text-muted-foreground">Scheduled for today</p>
+            <p className="text-xs text-muted-foreground">Still to come today</p>
           </CardContent>
         </Card>
         <Card className="border-l-4 border-l-red-500">
@@ -211,7 +322,7 @@ export default function CallbacksPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{overdueCallbacks.length}</div>
-            <p className="text-xs text-muted-foreground">Need immediate attention</p>
+            <p className="text-xs text-muted-foreground">Waiting for you to be available</p>
           </CardContent>
         </Card>
         <Card className="border-l-4 border-l-green-500">
@@ -230,7 +341,7 @@ export default function CallbacksPage() {
             <CheckCircle className="h-4 w-4 text-purple-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">7</div>
+            <div className="text-2xl font-bold">{completedToday.length}</div>
             <p className="text-xs text-muted-foreground">Successfully reached</p>
           </CardContent>
         </Card>
@@ -259,18 +370,10 @@ export default function CallbacksPage() {
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="dialing">Dialing</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
-              </SelectContent>
-            </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
-              <SelectTrigger className="w-[150px]">
-                <SelectValue placeholder="Priority" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Priority</SelectItem>
-                <SelectItem value="high">High</SelectItem>
-                <SelectItem value="medium">Medium</SelectItem>
-                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="missed">Missed</SelectItem>
+                <SelectItem value="rescheduled">Rescheduled</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -286,182 +389,120 @@ export default function CallbacksPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Customer</TableHead>
-                <TableHead>Scheduled</TableHead>
-                <TableHead>Campaign</TableHead>
-                <TableHead>Priority</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Attempts</TableHead>
-                <TableHead>Notes</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredCallbacks.map((callback) => (
-                <TableRow key={callback.id} className={callback.status === 'overdue' ? 'bg-red-50' : ''}>
-                  <TableCell>
-                    <div className="flex items-start gap-3">
-                      <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                        <User className="h-5 w-5 text-primary" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{callback.customer.name}</p>
-                        <p className="text-sm text-muted-foreground flex items-center gap-1">
-                          <Phone className="h-3 w-3" />
-                          {callback.customer.phone}
-                        </p>
-                        <p className="text-xs text-muted-foreground flex items-center gap-1">
-                          <Building className="h-3 w-3" />
-                          {callback.customer.company}
-                        </p>
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-1">
-                      <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <span>{callback.scheduledDate}</span>
-                    </div>
-                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                      <Clock className="h-3 w-3" />
-                      <span>{callback.scheduledTime}</span>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="outline">{callback.campaign}</Badge>
-                  </TableCell>
-                  <TableCell>{getPriorityBadge(callback.priority)}</TableCell>
-                  <TableCell>{getStatusBadge(callback.status)}</TableCell>
-                  <TableCell>
-                    <span className={callback.attempts >= 3 ? 'text-red-600 font-medium' : ''}>
-                      {callback.attempts}
-                    </span>
-                  </TableCell>
-                  <TableCell className="max-w-[200px]">
-                    <p className="text-sm text-muted-foreground truncate" title={callback.notes}>
-                      {callback.notes}
-                    </p>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex items-center justify-end gap-1">
-                      <Button
-                        size="sm"
-                        className="gap-1"
-                        onClick={() => console.log('Calling:', callback.customer.phone)}
-                      >
-                        <PhoneCall className="h-4 w-4" />
-                        Call
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => setSelectedCallback(callback)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button size="sm" variant="ghost" className="text-red-600">
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              {error.message || 'Failed to load callbacks.'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead>Taken By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {filteredCallbacks.map((callback) => {
+                  const scheduledAt = new Date(callback.scheduledAt);
+
+                  return (
+                    <TableRow
+                      key={callback.id}
+                      className={isOverdue(callback) ? 'bg-red-50' : ''}
+                    >
+                      <TableCell>
+                        <div className="flex items-start gap-3">
+                          <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+                            <User className="h-5 w-5 text-primary" />
+                          </div>
+                          <div>
+                            <p className="font-medium">{getCustomerName(callback)}</p>
+                            <p className="text-sm text-muted-foreground flex items-center gap-1">
+                              <Phone className="h-3 w-3" />
+                              {callback.phoneNumber}
+                            </p>
+                            {callback.leadCompany && (
+                              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Building className="h-3 w-3" />
+                                {callback.leadCompany}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                          <span>{scheduledAt.toLocaleDateString()}</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          <span>
+                            {scheduledAt.toLocaleTimeString([], {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{getTypeBadge(callback.callbackType)}</TableCell>
+                      <TableCell>{getStatusBadge(callback)}</TableCell>
+                      <TableCell className="max-w-[200px]">
+                        <p
+                          className="text-sm text-muted-foreground truncate"
+                          title={callback.notes ?? undefined}
+                        >
+                          {callback.notes}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(callback.status === 'pending' || callback.status === 'missed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            onClick={() => openReschedule(callback)}
+                          >
+                            <Edit className="h-4 w-4" />
+                            Reschedule
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {filteredCallbacks.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No callbacks found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
 
-      {/* New Callback Dialog */}
-      <Dialog open={isNewCallbackOpen} onOpenChange={setIsNewCallbackOpen}>
-        <DialogContent className="sm:max-w-[500px]">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <CalendarClock className="h-5 w-5" />
-              Schedule New Callback
-            </DialogTitle>
-            <DialogDescription>
-              Create a new callback appointment with a customer.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="customer-name">Customer Name</Label>
-                <Input id="customer-name" placeholder="Enter name" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="phone">Phone Number</Label>
-                <Input id="phone" placeholder="+1 (555) 000-0000" />
-              </div>
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="date">Date</Label>
-                <Input id="date" type="date" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="time">Time</Label>
-                <Input id="time" type="time" />
-              </div>
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="campaign">Campaign</Label>
-                <Select>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select campaign" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="sales-q1">Sales Q1</SelectItem>
-                    <SelectItem value="renewals">Renewals</SelectItem>
-                    <SelectItem value="new-leads">New Leads</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="priority">Priority</Label>
-                <Select>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select priority" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="high">High</SelectItem>
-                    <SelectItem value="medium">Medium</SelectItem>
-                    <SelectItem value="low">Low</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="notes">Notes</Label>
-              <Textarea id="notes" placeholder="Add notes about this callback..." rows={3} />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsNewCallbackOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={() => setIsNewCallbackOpen(false)}>
-              <CalendarClock className="h-4 w-4 mr-2" />
-              Schedule Callback
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      {/* Edit Callback Dialog */}
+      {/* Reschedule Callback Dialog */}
       <Dialog open={!!selectedCallback} onOpenChange={() => setSelectedCallback(null)}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
-              <Edit className="h-5 w-5" />
-              Edit Callback
+              <CalendarClock className="h-5 w-5" />
+              Reschedule Callback
             </DialogTitle>
             <DialogDescription>
-              Update callback details for {selectedCallback?.customer.name}
+              Pick a new time to call {selectedCallback && getCustomerName(selectedCallback)}
             </DialogDescription>
           </DialogHeader>
           {selectedCallback && (
@@ -472,37 +513,39 @@ export default function CallbacksPage() {
                     <User className="h-5 w-5 text-primary" />
                   </div>
                   <div>
-                    <p className="font-medium">{selectedCallback.customer.name}</p>
-                    <p className="text-sm text-muted-foreground">{selectedCallback.customer.phone}</p>
+                    <p className="font-medium">{getCustomerName(selectedCallback)}</p>
+                    <p className="text-sm text-muted-foreground">{selectedCallback.phoneNumber}</p>
                   </div>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-date">Date</Label>
-                  <Input id="edit-date" type="date" defaultValue={selectedCallback.scheduledDate} />
+                  <Label htmlFor="reschedule-date">Date</Label>
+                  <Input
+                    id="reschedule-date"
+                    type="date"
+                    value={rescheduleForm.date}
+                    onChange={(e) => setRescheduleForm({ ...rescheduleForm, date: e.target.value })}
+                  />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-time">Time</Label>
-                  <Input id="edit-time" type="time" defaultValue={selectedCallback.scheduledTime} />
+                  <Label htmlFor="reschedule-time">Time</Label>
+                  <Input
+                    id="reschedule-time"
+                    type="time"
+                    value={rescheduleForm.time}
+                    onChange={(e) => setRescheduleForm({ ...rescheduleForm, time: e.target.value })}
+                  />
                 </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-priority">Priority</Label>
-                <Select defaultValue={selectedCallback.priority}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="high">High</SelectItem>
-                    <SelectItem value="medium">Medium</SelectItem>
-                    <SelectItem value="low">Low</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-notes">Notes</Label>
-                <Textarea id="edit-notes" defaultValue={selectedCallback.notes} rows={3} />
+                <Label htmlFor="reschedule-notes">Notes</Label>
+                <Textarea
+                  id="reschedule-notes"
+                  value={rescheduleForm.notes}
+                  onChange={(e) => setRescheduleForm({ ...rescheduleForm, notes: e.target.value })}
+                  rows={3}
+                />
               </div>
             </div>
           )}
@@ -510,8 +553,9 @@ export default function CallbacksPage() {
             <Button variant="outline" onClick={() => setSelectedCallback(null)}>
               Cancel
             </Button>
-            <Button onClick={() => setSelectedCallback(null)}>
-              Save Changes
+            <Button onClick={handleReschedule} disabled={rescheduleCallback.isPending}>
+              {rescheduleCallback.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reschedule
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -16,116 +16,78 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
 import {
   CheckCircle2,
   XCircle,
-  PhoneCall,
   PhoneMissed,
   PhoneOff,
   Calendar,
-  Clock,
   FileText,
   DollarSign,
   UserX,
   AlertTriangle,
+  Loader2,
 } from 'lucide-react';
+import { useDispositions, useDispositionCall } from '@/hooks/use-api';
+import { useToast } from '@/hooks/use-toast';
 
 interface Disposition {
   id: string;
-  label: string;
-  icon: React.ReactNode;
-  color: string;
-  category: 'positive' | 'neutral' | 'negative';
-  requiresNotes?: boolean;
-  requiresCallback?: boolean;
-  requiresAmount?: boolean;
+  code: string;
+  name: string;
+  campaignId: string | null;
+  isPositive: number;
+  requiresCallback: number;
+  nextAction: string;
 }
 
-const dispositions: Disposition[] = [
-  {
-    id: 'sale',
-    label: 'Sale',
-    icon: <CheckCircle2 className="h-5 w-5" />,
-    color: 'bg-green-500 hover:bg-green-600',
-    category: 'positive',
-    requiresNotes: true,
-    requiresAmount: true,
-  },
-  {
-    id: 'interested',
-    label: 'Interested',
-    icon: <PhoneCall className="h-5 w-5" />,
-    color: 'bg-blue-500 hover:bg-blue-600',
-    category: 'positive',
-    requiresCallback: true,
-    requiresNotes: true,
-  },
-  {
-    id: 'callback',
-    label: 'Callback',
-    icon: <Calendar className="h-5 w-5" />,
-    color: 'bg-orange-500 hover:bg-orange-600',
-    category: 'neutral',
-    requiresCallback: true,
-    requiresNotes: true,
-  },
-  {
-    id: 'no-answer',
-    label: 'No Answer',
-    icon: <PhoneMissed className="h-5 w-5" />,
-    color: 'bg-yellow-500 hover:bg-yellow-600',
-    category: 'neutral',
-  },
-  {
-    id: 'not-interested',
-    label: 'Not Interested',
-    icon: <XCircle className="h-5 w-5" />,
-    color: 'bg-red-500 hover:bg-red-600',
-    category: 'negative',
-    requiresNotes: true,
-  },
-  {
-    id: 'dnc',
-    label: 'Do Not Call',
-    icon: <UserX className="h-5 w-5" />,
-    color: 'bg-purple-500 hover:bg-purple-600',
-    category: 'negative',
-    requiresNotes: true,
-  },
-  {
-    id: 'wrong-number',
-    label: 'Wrong Number',
-    icon: <PhoneOff className="h-5 w-5" />,
-    color: 'bg-gray-500 hover:bg-gray-600',
-    category: 'negative',
-  },
-  {
-    id: 'voicemail',
-    label: 'Voicemail',
-    icon: <FileText className="h-5 w-5" />,
-    color: 'bg-indigo-500 hover:bg-indigo-600',
-    category: 'neutral',
-  },
-];
+// The call being dispositioned; kept after it ends, for wrap-up
+export interface DispositionCall {
+  callId: string;
+  campaignId?: string;
+}
 
-interface DispositionPanelProps {
-  onSubmit?: (data: DispositionData) => void;
+function dispositionStyle(disposition: Disposition): { icon: React.ReactNode; color: string } {
+  if (disposition.isPositive) {
+    return { icon: <CheckCircle2 className="h-5 w-5" />, color: 'bg-green-500 hover:bg-green-600' };
+  }
+
+  switch (disposition.nextAction) {
+    case 'callback':
+      return { icon: <Calendar className="h-5 w-5" />, color: 'bg-orange-500 hover:bg-orange-600' };
+    case 'dnc':
+      return { icon: <UserX className="h-5 w-5" />, color: 'bg-purple-500 hover:bg-purple-600' };
+    case 'remove':
+      return { icon: <PhoneOff className="h-5 w-5" />, color: 'bg-gray-500 hover:bg-gray-600' };
+    case 'recycle':
+      return {
+        icon: <PhoneMissed className="h-5 w-5" />,
+        color: 'bg-yellow-500 hover:bg-yellow-600',
+      };
+    default:
+      return { icon: <XCircle className="h-5 w-5" />, color: 'bg-red-500 hover:bg-red-600' };
+  }
+}
+
+// The server refuses these without a callback time, as it schedules the callback
+function needsCallback(disposition?: Disposition): boolean {
+  return (
+    !!disposition && (disposition.requiresCallback === 1 || disposition.nextAction === 'callback')
+  );
 }
 
-interface DispositionData {
-  disposition: string;
-  notes: string;
-  callbackDate?: string;
-  callbackTime?: string;
-  amount?: string;
-  customFields: Record<string, string>;
+interface DispositionPanelProps {
+  call: DispositionCall | null;
+  onSubmitted?: () => void;
 }
 
-export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
+export function DispositionPanel({ call, onSubmitted }: DispositionPanelProps) {
   const [selectedDisposition, setSelectedDisposition] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
   const [callbackDate, setCallbackDate] = useState('');
   const [callbackTime, setCallbackTime] = useState('');
+  const [callbackType, setCallbackType] = useState<'any' | 'agent_specific'>('agent_specific');
   const [amount, setAmount] = useState('');
   const [customFields, setCustomFields] = useState<Record<string, string>>({
     priority: '',
@@ -133,37 +95,25 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
     productInterest: '',
   });
 
-  const selectedDispositionConfig = dispositions.find(
-    (d) => d.id === selectedDisposition
-  );
-
-  const handleSubmit = () => {
-    if (!selectedDisposition) {
-      return;
-    }
+  const { data: dispositionsData, isLoading } = useDispositions({ limit: 100 });
+  const dispositionCall = useDispositionCall();
+  const { toast } = useToast();
 
-    const data: DispositionData = {
-      disposition: selectedDisposition,
-      notes,
-      customFields,
-    };
-
-    if (selectedDispositionConfig?.requiresCallback) {
-      data.callbackDate = callbackDate;
-      data.callbackTime = callbackTime;
-    }
-
-    if (selectedDispositionConfig?.requiresAmount) {
-      data.amount = amount;
-    }
+  // Tenant-wide dispositions, and the call's campaign's own
+  const dispositions: Disposition[] = (dispositionsData?.dispositions ?? []).filter(
+    (disposition: Disposition) =>
+      !disposition.campaignId || disposition.campaignId === call?.campaignId
+  );
 
-    onSubmit?.(data);
+  const selectedDispositionConfig = dispositions.find((d) => d.id === selectedDisposition);
+  const requiresCallback = needsCallback(selectedDispositionConfig);
 
-    // Reset form
+  const resetForm = () => {
     setSelectedDisposition(null);
     setNotes('');
     setCallbackDate('');
     setCallbackTime('');
+    setCallbackType('agent_specific');
     setAmount('');
     setCustomFields({
       priority: '',
@@ -172,12 +122,59 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
     });
   };
 
+  const handleSubmit = async () => {
+    if (!call || !selectedDisposition) {
+      return;
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries({ ...customFields, amount }).filter(([, value]) => value)
+    );
+
+    try {
+      const result = await dispositionCall.mutateAsync({
+        id: call.callId,
+        data: {
+          dispositionId: selectedDisposition,
+          notes: notes || undefined,
+          callbackAt: requiresCallback
+            ? new Date(`${callbackDate}T${callbackTime}`).toISOString()
+            : undefined,
+          callbackType: requiresCallback ? callbackType : undefined,
+          fields,
+        },
+      });
+
+      const problems = (result?.actions ?? []).filter(
+        (action) => action.status === 'failed' || action.status === 'skipped'
+      );
+
+      toast({
+        title: 'Disposition saved',
+        description: problems.length
+          ? problems
+              .map(
+                (action) => `${action.action.replace('_', ' ')} ${action.status}: ${action.reason}`
+              )
+              .join('; ')
+          : undefined,
+        variant: problems.some((action) => action.status === 'failed') ? 'destructive' : 'default',
+      });
+
+      resetForm();
+      onSubmitted?.();
+    } catch (err) {
+      toast({
+        title: 'Disposition not saved',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const isFormValid = () => {
-    if (!selectedDisposition) return false;
-    if (selectedDispositionConfig?.requiresNotes && !notes) return false;
-    if (selectedDispositionConfig?.requiresCallback && (!callbackDate || !callbackTime))
-      return false;
-    if (selectedDispositionConfig?.requiresAmount && !amount) return false;
+    if (!call || !selectedDisposition) return false;
+    if (requiresCallback && (!callbackDate || !callbackTime)) return false;
     return true;
   };
 
@@ -189,9 +186,12 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
           {selectedDisposition && (
             <Badge
               variant="outline"
-              className={selectedDispositionConfig?.color.replace('bg-', 'border-')}
+              className={
+                selectedDispositionConfig &&
+                dispositionStyle(selectedDispositionConfig).color.replace('bg-', 'border-')
+              }
             >
-              {selectedDispositionConfig?.label}
+              {selectedDispositionConfig?.name}
             </Badge>
           )}
         </div>
@@ -203,23 +203,25 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
             <div className="space-y-2">
               <Label>Select Disposition</Label>
               <div className="grid grid-cols-2 gap-2">
-                {dispositions.map((disposition) => (
-                  <Button
-                    key={disposition.id}
-                    variant={
-                      selectedDisposition === disposition.id ? 'default' : 'outline'
-                    }
-                    className={`justify-start h-auto py-3 ${
-                      selectedDisposition === disposition.id
-                        ? disposition.color + ' text-white'
-                        : ''
-                    }`}
-                    onClick={() => setSelectedDisposition(disposition.id)}
-                  >
-                    {disposition.icon}
-                    <span className="ml-2">{disposition.label}</span>
-                  </Button>
-                ))}
+                {isLoading &&
+                  Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-12" />)}
+                {dispositions.map((disposition) => {
+                  const { icon, color } = dispositionStyle(disposition);
+
+                  return (
+                    <Button
+                      key={disposition.id}
+                      variant={selectedDisposition === disposition.id ? 'default' : 'outline'}
+                      className={`justify-start h-auto py-3 ${
+                        selectedDisposition === disposition.id ? color + ' text-white' : ''
+                      }`}
+                      onClick={() => setSelectedDisposition(disposition.id)}
+                    >
+                      {icon}
+                      <span className="ml-2">{disposition.name}</span>
+                    </Button>
+                  );
+                })}
               </div>
             </div>
 
@@ -229,12 +231,11 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                 <Separator />
 
                 {/* Sale Amount Field */}
-                {selectedDispositionConfig?.requiresAmount && (
+                {selectedDispositionConfig?.isPositive === 1 && (
                   <div className="space-y-2">
                     <Label htmlFor="amount" className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
                       Sale Amount
-                      <span className="text-destructive">*</span>
                     </Label>
                     <Input
                       id="amount"
@@ -248,7 +249,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                 )}
 
                 {/* Callback Scheduler */}
-                {selectedDispositionConfig?.requiresCallback && (
+                {requiresCallback && (
                   <div className="space-y-3">
                     <Label className="flex items-center gap-2">
                       <Calendar className="h-4 w-4" />
@@ -280,6 +281,23 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="callback-type" className="text-xs">
+                        Called Back By
+                      </Label>
+                      <Select
+                        value={callbackType}
+                        onValueChange={(value) => setCallbackType(value as typeof callbackType)}
+                      >
+                        <SelectTrigger id="callback-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="agent_specific">Me</SelectItem>
+                          <SelectItem value="any">Any agent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 )}
 
@@ -288,9 +306,6 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                   <Label htmlFor="notes" className="flex items-center gap-2">
                     <FileText className="h-4 w-4" />
                     Call Notes
-                    {selectedDispositionConfig?.requiresNotes && (
-                      <span className="text-destructive">*</span>
-                    )}
                   </Label>
                   <Textarea
                     id="notes"
@@ -300,9 +315,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                     rows={4}
                     className="resize-none"
                   />
-                  <p className="text-xs text-muted-foreground">
-                    {notes.length} characters
-                  </p>
+                  <p className="text-xs text-muted-foreground">{notes.length} characters</p>
                 </div>
 
                 <Separator />
@@ -333,7 +346,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                     </Select>
                   </div>
 
-                  {selectedDisposition === 'callback' && (
+                  {requiresCallback && (
                     <div className="space-y-2">
                       <Label htmlFor="followUpReason" className="text-xs">
                         Callback Reason
@@ -348,15 +361,9 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                           <SelectValue placeholder="Select reason..." />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="requested-info">
-                            Requested More Information
-                          </SelectItem>
-                          <SelectItem value="decision-pending">
-                            Decision Pending
-                          </SelectItem>
-                          <SelectItem value="budget-approval">
-                            Budget Approval Needed
-                          </SelectItem>
+                          <SelectItem value="requested-info">Requested More Information</SelectItem>
+                          <SelectItem value="decision-pending">Decision Pending</SelectItem>
+                          <SelectItem value="budget-approval">Budget Approval Needed</SelectItem>
                           <SelectItem value="schedule-demo">Schedule Demo</SelectItem>
                           <SelectItem value="other">Other</SelectItem>
                         </SelectContent>
@@ -364,8 +371,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                     </div>
                   )}
 
-                  {(selectedDisposition === 'sale' ||
-                    selectedDisposition === 'interested') && (
+                  {selectedDispositionConfig?.isPositive === 1 && (
                     <div className="space-y-2">
                       <Label htmlFor="productInterest" className="text-xs">
                         Product/Service Interest
@@ -381,9 +387,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="basic">Basic Plan</SelectItem>
-                          <SelectItem value="professional">
-                            Professional Plan
-                          </SelectItem>
+                          <SelectItem value="professional">Professional Plan</SelectItem>
                           <SelectItem value="enterprise">Enterprise Plan</SelectItem>
                           <SelectItem value="custom">Custom Solution</SelectItem>
                         </SelectContent>
@@ -398,17 +402,25 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
                 <div className="space-y-2">
                   <Button
                     onClick={handleSubmit}
-                    disabled={!isFormValid()}
+                    disabled={!isFormValid() || dispositionCall.isPending}
                     className="w-full"
                     size="lg"
                   >
-                    <CheckCircle2 className="h-5 w-5 mr-2" />
+                    {dispositionCall.isPending ? (
+                      <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCircle2 className="h-5 w-5 mr-2" />
+                    )}
                     Save Disposition
                   </Button>
                   {!isFormValid() && (
                     <div className="flex items-start gap-2 text-xs text-amber-600 bg-amber-50 p-2 rounded-md border border-amber-200">
                       <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
-                      <span>Please fill in all required fields before submitting.</span>
+                      <span>
+                        {call
+                          ? 'Please fill in all required fields before submitting.'
+                          : 'There is no call to disposition yet.'}
+                      </span>
                     </div>
                   )}
                 </div>
@@ -418,7 +430,7 @@ export function DispositionPanel({ onSubmit }: DispositionPanelProps) {
             {!selectedDisposition && (
               <div className="text-center py-12 text-muted-foreground">
                 <AlertTriangle className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                <p>Select a disposition to continue</p>
+                <p>{call ? 'Select a disposition to continue' : 'Take a call to disposition it'}</p>
               </div>
             )}
           </div>
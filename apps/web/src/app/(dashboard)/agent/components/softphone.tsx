@@ -18,7 +18,11 @@ import {
   Volume2,
   VolumeX,
   Circle,
+  PauseCircle,
+  PlayCircle,
 } from 'lucide-react';
+import { useCallRecording } from '@/hooks/use-socket';
+import { useToast } from '@/hooks/use-toast';
 
 export type CallStatus = 'idle' | 'ringing' | 'connected' | 'on-hold';
 
@@ -51,6 +55,33 @@ export function Softphone({
     number: '+1 (555) 123-4567',
     location: 'New York, NY',
   });
+  const [isRecordingRequestPending, setIsRecordingRequestPending] = useState(false);
+  const { toast } = useToast();
+  const {
+    callId,
+    isPaused: isRecordingPaused,
+    lastState: recordingState,
+    pauseRecording,
+    resumeRecording,
+  } = useCallRecording();
+
+  // The dialer engine reports whether the pause or resume took effect
+  useEffect(() => {
+    setIsRecordingRequestPending(false);
+
+    if (recordingState?.error) {
+      toast({
+        title: 'Recording not changed',
+        description: recordingState.error,
+        variant: 'destructive',
+      });
+    } else if (recordingState?.paused && recordingState.source === 'auto') {
+      toast({
+        title: 'Recording paused',
+        description: 'Payment details were mentioned. Resume recording once they are taken.',
+      });
+    }
+  }, [recordingState, toast]);
 
   // Call timer
   useEffect(() => {
@@ -120,6 +151,23 @@ export function Softphone({
     onTransfer?.();
   };
 
+  const handleRecordingToggle = async () => {
+    setIsRecordingRequestPending(true);
+
+    const result = isRecordingPaused
+      ? await resumeRecording()
+      : await pauseRecording('Payment details');
+
+    if (!result.success) {
+      setIsRecordingRequestPending(false);
+      toast({
+        title: isRecordingPaused ? 'Could not resume recording' : 'Could not pause recording',
+        description: result.error,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getStatusBadge = () => {
     switch (callStatus) {
       case 'idle':
@@ -192,12 +240,21 @@ export function Softphone({
                 {callStatus === 'ringing' && (
                   <PhoneIncoming className="h-8 w-8 text-green-500 animate-bounce" />
                 )}
-                {isRecording && (
+                {isRecording && !isRecordingPaused && (
                   <div className="flex items-center gap-2 ml-auto">
                     <Circle className="h-2 w-2 fill-red-500 text-red-500 animate-pulse" />
                     <span className="text-xs text-muted-foreground">Recording</span>
                   </div>
                 )}
+                {isRecording && isRecordingPaused && (
+                  <div className="flex items-center gap-2 ml-auto">
+                    <Circle className="h-2 w-2 fill-orange-500 text-orange-500" />
+                    <span className="text-xs text-muted-foreground">
+                      Recording paused
+                      {recordingState?.source === 'auto' && ' (payment detected)'}
+                    </span>
+                  </div>
+                )}
               </div>
               <div className="text-center">
                 <h3 className="font-semibold text-lg">{callerInfo.name}</h3>
@@ -247,6 +304,20 @@ export function Softphone({
               <PhoneForwarded className="h-5 w-5" />
               <span className="text-xs">Transfer</span>
             </Button>
+            <Button
+              variant={isRecordingPaused ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={handleRecordingToggle}
+              className="col-span-3 gap-2"
+              disabled={callStatus !== 'connected' || !callId || isRecordingRequestPending}
+            >
+              {isRecordingPaused ? (
+                <PlayCircle className="h-4 w-4" />
+              ) : (
+                <PauseCircle className="h-4 w-4" />
+              )}
+              {isRecordingPaused ? 'Resume Recording' : 'Pause Recording'}
+            </Button>
           </div>
         )}
 
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import type { TransferTarget, TransferType } from '@nexusdialer/events';
 import { useAuthStore } from '@/stores/auth-store';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,6 +15,14 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -24,26 +33,57 @@ import {
   Users,
   PhoneForwarded,
   Target,
+  Users2,
 } from 'lucide-react';
-import { useAgentDashboard, useUpdateAgentState } from '@/hooks/use-api';
+import {
+  useAgentDashboard,
+  useUpdateAgentState,
+  useAgents,
+  useQueues,
+} from '@/hooks/use-api';
+import { useCall } from '@/hooks/use-call';
+import { useToast } from '@/hooks/use-toast';
 
 // Import agent desktop components
 import { AgentStatusSelector, type AgentStatus } from './components/agent-status-selector';
 import { Softphone } from './components/softphone';
 import { CustomerPanel } from './components/customer-panel';
 import { ScriptPanel } from './components/script-panel';
-import { DispositionPanel } from './components/disposition-panel';
+import { DispositionPanel, type DispositionCall } from './components/disposition-panel';
 
 export default function AgentDashboard() {
   const { user } = useAuthStore();
   const [agentStatus, setAgentStatus] = useState<AgentStatus>('available');
   const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
-  const [transferNumber, setTransferNumber] = useState('');
+  const [transferTargetType, setTransferTargetType] = useState<TransferTarget['type']>('agent');
+  const [transferTargetId, setTransferTargetId] = useState('');
   const [sessionTime, setSessionTime] = useState(9870); // seconds
+  // The latest call, until it is dispositioned; outlives the call for wrap-up
+  const [dispositionCall, setDispositionCall] = useState<DispositionCall | null>(null);
 
   // Fetch dashboard data from API
   const { data: dashboardData, isLoading } = useAgentDashboard();
   const updateAgentState = useUpdateAgentState();
+  const { data: agentsData } = useAgents();
+  const { data: queuesData } = useQueues();
+  const {
+    activeCall,
+    transfer,
+    activeTransfer,
+    completeTransfer,
+    cancelTransfer,
+    conferenceTransfer,
+    clearTransfer,
+    error: callError,
+    clearError,
+  } = useCall();
+  const { toast } = useToast();
+
+  // Agents who can be rung on their softphone
+  const transferAgents: any[] = (agentsData?.agents ?? []).filter(
+    (agent: any) => agent.id !== user?.id && agent.extension
+  );
+  const transferQueues: any[] = queuesData?.queues ?? [];
 
   const stats = dashboardData?.stats || {
     callsToday: 0,
@@ -75,12 +115,53 @@ export default function AgentDashboard() {
     }
   };
 
-  const handleTransfer = () => {
-    console.log('Transferring call to:', transferNumber);
+  useEffect(() => {
+    if (!activeCall) return;
+    setDispositionCall({ callId: activeCall.callId, campaignId: activeCall.campaignId });
+  }, [activeCall?.callId]);
+
+  useEffect(() => {
+    if (!callError) return;
+    toast({ title: 'Transfer failed', description: callError, variant: 'destructive' });
+    clearError();
+  }, [callError]);
+
+  // Tell the agent how a transfer ended, then forget it
+  useEffect(() => {
+    if (!activeTransfer) return;
+
+    const messages: Partial<Record<typeof activeTransfer.status, string>> = {
+      completed: 'The call has been handed over.',
+      conferenced: 'Everyone is now in a conference.',
+      cancelled: 'You are back with the customer.',
+      failed: activeTransfer.error || 'You are back with the customer.',
+    };
+    const description = messages[activeTransfer.status];
+    if (!description) return;
+
+    toast({
+      title: activeTransfer.status === 'failed' ? 'Transfer failed' : 'Transfer finished',
+      description,
+      variant: activeTransfer.status === 'failed' ? 'destructive' : 'default',
+    });
+    clearTransfer();
+  }, [activeTransfer?.status]);
+
+  const closeTransferDialog = () => {
     setIsTransferDialogOpen(false);
-    setTransferNumber('');
+    setTransferTargetId('');
+  };
+
+  const handleTransfer = async (type: TransferType) => {
+    const started = await transfer({ type: transferTargetType, id: transferTargetId }, type);
+    if (started) {
+      closeTransferDialog();
+    }
   };
 
+  const isConsulting = activeTransfer?.transferType === 'warm';
+  const isTargetConnected = activeTransfer?.status === 'connected';
+
   const formatSessionTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -214,11 +295,7 @@ export default function AgentDashboard() {
 
         {/* Right Column - Disposition */}
         <div className="lg:col-span-4">
-          <DispositionPanel
-            onSubmit={(data) => {
-              console.log('Disposition submitted:', data);
-            }}
-          />
+          <DispositionPanel call={dispositionCall} onSubmitted={() => setDispositionCall(null)} />
         </div>
       </div>
 
@@ -236,64 +313,122 @@ export default function AgentDashboard() {
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="transfer-number">Transfer To</Label>
-              <Input
-                id="transfer-number"
-                placeholder="Enter phone number or extension..."
-                value={transferNumber}
-                onChange={(e) => setTransferNumber(e.target.value)}
-              />
+              <Label>Transfer To</Label>
+              <Select
+                value={transferTargetType}
+                onValueChange={(value) => {
+                  setTransferTargetType(value as TransferTarget['type']);
+                  setTransferTargetId('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="agent">Agent</SelectItem>
+                  <SelectItem value="queue">Queue</SelectItem>
+                  <SelectItem value="external">Phone Number</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
             <Separator />
             <div className="space-y-2">
-              <Label>Quick Transfer to Agents</Label>
-              <div className="grid gap-2">
-                <Button
-                  variant="outline"
-                  className="justify-start"
-                  onClick={() => {
-                    setTransferNumber('ext:101');
-                    handleTransfer();
-                  }}
-                >
-                  Sarah Johnson - Sales (Ext. 101)
-                </Button>
-                <Button
-                  variant="outline"
-                  className="justify-start"
-                  onClick={() => {
-                    setTransferNumber('ext:102');
-                    handleTransfer();
-                  }}
-                >
-                  Mike Davis - Support (Ext. 102)
-                </Button>
-                <Button
-                  variant="outline"
-                  className="justify-start"
-                  onClick={() => {
-                    setTransferNumber('ext:103');
-                    handleTransfer();
-                  }}
-                >
-                  Tom Wilson - Manager (Ext. 103)
-                </Button>
-              </div>
+              {transferTargetType === 'external' ? (
+                <>
+                  <Label htmlFor="transfer-number">Phone Number</Label>
+                  <Input
+                    id="transfer-number"
+                    placeholder="+15551234567"
+                    value={transferTargetId}
+                    onChange={(e) => setTransferTargetId(e.target.value)}
+                  />
+                </>
+              ) : (
+                <>
+                  <Label>{transferTargetType === 'agent' ? 'Agent' : 'Queue'}</Label>
+                  <Select value={transferTargetId} onValueChange={setTransferTargetId}>
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={
+                          transferTargetType === 'agent' ? 'Select an agent' : 'Select a queue'
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {transferTargetType === 'agent'
+                        ? transferAgents.map((agent) => (
+                            <SelectItem key={agent.id} value={agent.id}>
+                              {agent.firstName} {agent.lastName} (Ext. {agent.extension})
+                            </SelectItem>
+                          ))
+                        : transferQueues.map((queue) => (
+                            <SelectItem key={queue.id} value={queue.id}>
+                              {queue.name}
+                            </SelectItem>
+                          ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">
+                A blind transfer hands the call over straight away. Consult first to talk to the
+                target before completing the transfer; queues only take blind transfers.
+              </p>
             </div>
           </div>
           <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeTransferDialog}>
+              Cancel
+            </Button>
             <Button
               variant="outline"
-              onClick={() => {
-                setIsTransferDialogOpen(false);
-                setTransferNumber('');
-              }}
+              onClick={() => handleTransfer('warm')}
+              disabled={!transferTargetId || transferTargetType === 'queue'}
             >
-              Cancel
+              <Phone className="h-4 w-4 mr-2" />
+              Consult
+            </Button>
+            <Button onClick={() => handleTransfer('blind')} disabled={!transferTargetId}>
+              <PhoneForwarded className="h-4 w-4 mr-2" />
+              Blind Transfer
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Warm Transfer Controls */}
+      <Dialog open={isConsulting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <PhoneForwarded className="h-5 w-5" />
+              Consulting {activeTransfer?.targetName || activeTransfer?.target.id}
+            </DialogTitle>
+            <DialogDescription>
+              The customer is on hold while you talk to the transfer target.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Badge variant={isTargetConnected ? 'default' : 'secondary'}>
+              {isTargetConnected ? 'Connected' : 'Ringing'}
+            </Badge>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => cancelTransfer()}>
+              <PhoneOff className="h-4 w-4 mr-2" />
+              Cancel Transfer
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => conferenceTransfer()}
+              disabled={!isTargetConnected}
+            >
+              <Users2 className="h-4 w-4 mr-2" />
+              Conference
             </Button>
-            <Button onClick={handleTransfer} disabled={!transferNumber}>
+            <Button onClick={() => completeTransfer()} disabled={!isTargetConnected}>
               <PhoneForwarded className="h-4 w-4 mr-2" />
-              Transfer
+              Complete Transfer
             </Button>
           </div>
         </DialogContent>
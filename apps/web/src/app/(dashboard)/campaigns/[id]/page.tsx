@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect } from "react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import {
@@ -49,6 +50,7 @@ import {
   useLeadLists,
   useAgents,
 } from "@/hooks/use-api";
+import { useCampaignStatus } from "@/hooks/use-socket";
 import { useToast } from "@/hooks/use-toast";
 
 const agentStatusColors: Record<string, string> = {
@@ -104,7 +106,7 @@ export default function CampaignDetailPage() {
   const campaignId = params.id as string;
 
   // Fetch campaign data
-  const { data: campaignData, isLoading, error } = useCampaign(campaignId);
+  const { data: campaignData, isLoading, error, refetch } = useCampaign(campaignId);
   const campaign = campaignData?.campaign;
 
   // Fetch related data for assigned agents and lead lists
@@ -116,6 +118,30 @@ export default function CampaignDetailPage() {
   const pauseCampaign = usePauseCampaign();
   const stopCampaign = useStopCampaign();
 
+  // Dialer engine confirmation of start/pause/stop commands
+  const { status: dialerStatus } = useCampaignStatus(campaignId);
+
+  useEffect(() => {
+    if (!dialerStatus) return;
+
+    refetch();
+
+    if (dialerStatus.error) {
+      toast({
+        title: "Dialer engine error",
+        description: dialerStatus.error,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: dialerStatus.isRunning ? "Dialer running" : "Dialer stopped",
+        description: dialerStatus.isRunning
+          ? "The dialer engine is now dialing this campaign."
+          : "The dialer engine is no longer dialing this campaign.",
+      });
+    }
+  }, [dialerStatus, refetch, toast]);
+
   // Handle loading state
   if (isLoading) {
     return <CampaignDetailSkeleton />;
@@ -196,7 +222,7 @@ export default function CampaignDetailPage() {
     try {
       if (action === "start" || action === "resume") {
         await startCampaign.mutateAsync(campaignId);
-        toast({ title: "Campaign started", description: "The campaign is now active." });
+        toast({ title: "Campaign start requested", description: "Waiting for the dialer engine to confirm." });
       } else if (action === "pause") {
         await pauseCampaign.mutateAsync(campaignId);
         toast({ title: "Campaign paused", description: "The campaign has been paused." });
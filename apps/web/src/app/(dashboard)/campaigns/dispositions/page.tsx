@@ -0,0 +1,624 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Edit, Trash2, Loader2, X } from 'lucide-react';
+import {
+  useCampaigns,
+  useLeadLists,
+  useDispositions,
+  useCreateDisposition,
+  useUpdateDisposition,
+  useDeleteDisposition,
+} from '@/hooks/use-api';
+import type { DispositionAction, DispositionInput, DispositionNextAction } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface Disposition {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  campaignId: string | null;
+  isPositive: number;
+  requiresCallback: number;
+  nextAction: DispositionNextAction;
+  actions: DispositionAction[];
+  sortOrder: number;
+}
+
+interface DispositionForm {
+  code: string;
+  name: string;
+  description: string;
+  campaignId: string;
+  isPositive: boolean;
+  requiresCallback: boolean;
+  nextAction: DispositionNextAction;
+  actions: DispositionAction[];
+  sortOrder: string;
+}
+
+const NEXT_ACTIONS: Record<DispositionNextAction, string> = {
+  none: 'Nothing',
+  callback: 'Schedule a callback',
+  recycle: 'Retry by the dialing rules',
+  dnc: 'Add the number to Do Not Call',
+  remove: 'Mark the lead invalid',
+};
+
+const ACTION_TYPES: Record<DispositionAction['type'], string> = {
+  set_status: 'Set lead status',
+  move_list: 'Move lead to list',
+  webhook: 'Send webhook',
+  sms: 'Send SMS',
+  email: 'Send email',
+};
+
+const FOLLOW_UP_STATUSES: Record<string, string> = {
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  converted: 'Converted',
+  not_interested: 'Not Interested',
+};
+
+const NEW_ACTIONS: Record<DispositionAction['type'], DispositionAction> = {
+  set_status: { type: 'set_status', status: 'converted' },
+  move_list: { type: 'move_list', listId: '' },
+  webhook: { type: 'webhook', url: '' },
+  sms: { type: 'sms', message: '' },
+  email: { type: 'email', subject: '', message: '' },
+};
+
+const EMPTY_FORM: DispositionForm = {
+  code: '',
+  name: '',
+  description: '',
+  campaignId: 'all',
+  isPositive: false,
+  requiresCallback: false,
+  nextAction: 'none',
+  actions: [],
+  sortOrder: '0',
+};
+
+function toForm(disposition: Disposition): DispositionForm {
+  return {
+    code: disposition.code,
+    name: disposition.name,
+    description: disposition.description ?? '',
+    campaignId: disposition.campaignId ?? 'all',
+    isPositive: disposition.isPositive === 1,
+    requiresCallback: disposition.requiresCallback === 1,
+    nextAction: disposition.nextAction,
+    actions: disposition.actions ?? [],
+    sortOrder: String(disposition.sortOrder),
+  };
+}
+
+function isActionComplete(action: DispositionAction): boolean {
+  switch (action.type) {
+    case 'set_status':
+      return !!action.status;
+    case 'move_list':
+      return !!action.listId;
+    case 'webhook':
+      return /^https?:\/\/\S+$/.test(action.url);
+    case 'sms':
+      return !!action.message;
+    case 'email':
+      return !!action.subject && !!action.message;
+  }
+}
+
+export default function DispositionsPage() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingDisposition, setEditingDisposition] = useState<Disposition | null>(null);
+  const [deletingDisposition, setDeletingDisposition] = useState<Disposition | null>(null);
+  const [form, setForm] = useState<DispositionForm>(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const { data: dispositionsData, isLoading } = useDispositions({ limit: 100 });
+  const { data: campaignsData } = useCampaigns();
+  const { data: leadListsData } = useLeadLists({ limit: 100 });
+  const createDisposition = useCreateDisposition();
+  const updateDisposition = useUpdateDisposition();
+  const deleteDisposition = useDeleteDisposition();
+
+  const dispositions: Disposition[] = dispositionsData?.dispositions ?? [];
+  const campaigns: any[] = campaignsData?.campaigns ?? [];
+  const leadLists: any[] = leadListsData?.leadLists ?? [];
+  const campaignNames = new Map(campaigns.map((campaign) => [campaign.id, campaign.name]));
+  const listNames = new Map(leadLists.map((list) => [list.id, list.name]));
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const updateForm = (changes: Partial<DispositionForm>) => {
+    setForm({ ...form, ...changes });
+  };
+
+  const updateAction = (index: number, action: DispositionAction) => {
+    updateForm({ actions: form.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const describeAction = (action: DispositionAction): string => {
+    switch (action.type) {
+      case 'set_status':
+        return `Status: ${FOLLOW_UP_STATUSES[action.status] ?? action.status}`;
+      case 'move_list':
+        return `Move to ${listNames.get(action.listId) ?? 'list'}`;
+      case 'webhook':
+        return `Webhook: ${new URL(action.url).host}`;
+      default:
+        return ACTION_TYPES[action.type];
+    }
+  };
+
+  const openDialog = (disposition: Disposition | null) => {
+    setEditingDisposition(disposition);
+    setForm(disposition ? toForm(disposition) : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const data: DispositionInput = {
+      code: form.code,
+      name: form.name,
+      description: form.description || null,
+      isPositive: form.isPositive,
+      requiresCallback: form.requiresCallback,
+      nextAction: form.nextAction,
+      actions: form.actions.map((action) =>
+        action.type === 'webhook' && !action.secret ? { type: 'webhook', url: action.url } : action
+      ),
+      sortOrder: Number(form.sortOrder) || 0,
+    };
+
+    try {
+      if (editingDisposition) {
+        await updateDisposition.mutateAsync({ id: editingDisposition.id, data });
+      } else {
+        await createDisposition.mutateAsync({
+          ...data,
+          description: data.description ?? undefined,
+          campaignId: form.campaignId === 'all' ? undefined : form.campaignId,
+        });
+      }
+
+      setFormOpen(false);
+      toast({
+        title: editingDisposition ? 'Disposition updated' : 'Disposition created',
+        description: `${form.name} has been saved.`,
+      });
+    } catch (error) {
+      showError('Could not save disposition', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingDisposition) return;
+
+    try {
+      await deleteDisposition.mutateAsync(deletingDisposition.id);
+      toast({
+        title: 'Disposition deleted',
+        description: `${deletingDisposition.name} has been removed.`,
+      });
+    } catch (error) {
+      showError('Could not delete disposition', error);
+    } finally {
+      setDeletingDisposition(null);
+    }
+  };
+
+  const isSaving = createDisposition.isPending || updateDisposition.isPending;
+  const isFormValid = !!form.code && !!form.name && form.actions.every(isActionComplete);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Dispositions</h1>
+          <p className="text-muted-foreground">
+            Decide what happens to a lead when an agent dispositions its call
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Disposition
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dispositions ({dispositions.length})</CardTitle>
+          <CardDescription>
+            The next action runs first, then the follow-ups in order. Everything done is written to
+            the lead&apos;s history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : dispositions.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground">No dispositions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Next action</TableHead>
+                  <TableHead>Follow-ups</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dispositions.map((disposition) => (
+                  <TableRow key={disposition.id}>
+                    <TableCell className="font-mono text-sm">{disposition.code}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{disposition.name}</p>
+                      <div className="flex gap-1">
+                        {disposition.isPositive === 1 && (
+                          <Badge className="bg-green-100 text-green-800">Positive</Badge>
+                        )}
+                        {disposition.requiresCallback === 1 && (
+                          <Badge variant="outline">Callback time required</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {disposition.campaignId
+                        ? (campaignNames.get(disposition.campaignId) ?? '-')
+                        : 'All campaigns'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {NEXT_ACTIONS[disposition.nextAction] ?? disposition.nextAction}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(disposition.actions ?? []).map((action, index) => (
+                          <Badge key={index} variant="secondary">
+                            {describeAction(action)}
+                          </Badge>
+                        ))}
+                        {!disposition.actions?.length && (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(disposition)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => setDeletingDisposition(disposition)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Disposition Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingDisposition ? 'Edit Disposition' : 'Add Disposition'}</DialogTitle>
+            <DialogDescription>
+              Agents pick it after a call; the lead is then changed as set up here
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="dispositionCode">
+                Code <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="dispositionCode"
+                placeholder="e.g. SALE"
+                maxLength={20}
+                value={form.code}
+                onChange={(e) => updateForm({ code: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispositionName">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="dispositionName"
+                placeholder="e.g. Sale Made"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Campaign</Label>
+              <Select
+                value={form.campaignId}
+                onValueChange={(value) => updateForm({ campaignId: value })}
+                disabled={!!editingDisposition}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All campaigns</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispositionSortOrder">Sort order</Label>
+              <Input
+                id="dispositionSortOrder"
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => updateForm({ sortOrder: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="dispositionDescription">Description</Label>
+              <Input
+                id="dispositionDescription"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="dispositionPositive">Positive outcome</Label>
+              <Switch
+                id="dispositionPositive"
+                checked={form.isPositive}
+                onCheckedChange={(checked) => updateForm({ isPositive: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="dispositionCallback">Callback time required</Label>
+              <Switch
+                id="dispositionCallback"
+                checked={form.requiresCallback || form.nextAction === 'callback'}
+                disabled={form.nextAction === 'callback'}
+                onCheckedChange={(checked) => updateForm({ requiresCallback: checked })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Next action</Label>
+              <Select
+                value={form.nextAction}
+                onValueChange={(value) =>
+                  updateForm({ nextAction: value as DispositionNextAction })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NEXT_ACTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="col-span-2 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Follow-ups</Label>
+                <Select
+                  value=""
+                  onValueChange={(value) =>
+                    updateForm({
+                      actions: [...form.actions, NEW_ACTIONS[value as DispositionAction['type']]],
+                    })
+                  }
+                  disabled={form.actions.length >= 10}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Add follow-up" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACTION_TYPES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.actions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No follow-ups</p>
+              )}
+              {form.actions.map((action, index) => (
+                <div key={index} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{ACTION_TYPES[action.type]}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateForm({ actions: form.actions.filter((_, i) => i !== index) })
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {action.type === 'set_status' && (
+                    <Select
+                      value={action.status}
+                      onValueChange={(value) => updateAction(index, { ...action, status: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(FOLLOW_UP_STATUSES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {action.type === 'move_list' && (
+                    <Select
+                      value={action.listId}
+                      onValueChange={(value) => updateAction(index, { ...action, listId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a list" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {leadLists.map((list) => (
+                          <SelectItem key={list.id} value={list.id}>
+                            {list.name}
+                            {list.campaignId && campaignNames.has(list.campaignId)
+                              ? ` (${campaignNames.get(list.campaignId)})`
+                              : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {action.type === 'webhook' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        placeholder="https://example.com/hooks/dispositions"
+                        value={action.url}
+                        onChange={(e) => updateAction(index, { ...action, url: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Signing secret (optional)"
+                        value={action.secret ?? ''}
+                        onChange={(e) => updateAction(index, { ...action, secret: e.target.value })}
+                      />
+                    </div>
+                  )}
+
+                  {action.type === 'email' && (
+                    <Input
+                      placeholder="Subject"
+                      value={action.subject}
+                      onChange={(e) => updateAction(index, { ...action, subject: e.target.value })}
+                    />
+                  )}
+
+                  {(action.type === 'sms' || action.type === 'email') && (
+                    <>
+                      <Textarea
+                        rows={3}
+                        placeholder="Hi {{firstName}}, thanks for your time today..."
+                        value={action.message}
+                        onChange={(e) =>
+                          updateAction(index, { ...action, message: e.target.value })
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {'Use {{firstName}}, {{lastName}}, {{company}}, {{phoneNumber}}, '}
+                        {'{{email}} or {{custom.<field>}}'}
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!isFormValid || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingDisposition ? 'Save Changes' : 'Add Disposition'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog
+        open={!!deletingDisposition}
+        onOpenChange={(open) => !open && setDeletingDisposition(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Disposition</DialogTitle>
+            <DialogDescription>
+              Calls already given {deletingDisposition?.name} keep their history but lose the
+              disposition.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingDisposition(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteDisposition.isPending}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,655 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Edit, Trash2, Loader2, FlaskConical } from 'lucide-react';
+import {
+  useCampaigns,
+  useDispositions,
+  useDialingRules,
+  useDialingRulesDryRun,
+  useDryRunDialingRule,
+  useCreateDialingRule,
+  useUpdateDialingRule,
+  useDeleteDialingRule,
+} from '@/hooks/use-api';
+import type { DialingRuleInput, RecycleRuleActions, RecycleRuleConditions } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface DialingRule {
+  id: string;
+  name: string;
+  ruleType: string;
+  campaignId: string | null;
+  conditions: RecycleRuleConditions;
+  actions: RecycleRuleActions;
+  priority: number;
+  isActive: boolean;
+}
+
+interface RuleForm {
+  name: string;
+  campaignId: string;
+  priority: string;
+  outcomes: string[];
+  minOutcomeCount: string;
+  minAttempts: string;
+  maxAttempts: string;
+  retryAfter: string;
+  retryUnit: 'minutes' | 'hours' | 'days';
+  retryHourOffset: string;
+  status: string;
+  leadPriority: string;
+}
+
+const RECYCLE = 'recycle';
+
+// How calls no agent dispositioned ended
+const CALL_OUTCOMES = ['NO_ANSWER', 'BUSY', 'VOICEMAIL', 'FAILED', 'ABANDONED'];
+
+const LEAD_STATUSES: Record<string, string> = {
+  new: 'New',
+  callback: 'Callback',
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  not_interested: 'Not Interested',
+};
+
+const UNIT_MINUTES = { minutes: 1, hours: 60, days: 24 * 60 };
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  campaignId: 'all',
+  priority: '0',
+  outcomes: [],
+  minOutcomeCount: '',
+  minAttempts: '',
+  maxAttempts: '',
+  retryAfter: '',
+  retryUnit: 'hours',
+  retryHourOffset: '',
+  status: 'unchanged',
+  leadPriority: '',
+};
+
+function toOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % UNIT_MINUTES.days === 0) return `${minutes / UNIT_MINUTES.days} day(s)`;
+  if (minutes % UNIT_MINUTES.hours === 0) return `${minutes / UNIT_MINUTES.hours} hour(s)`;
+  return `${minutes} minute(s)`;
+}
+
+function describeConditions(conditions: RecycleRuleConditions): string {
+  const parts: string[] = [];
+
+  if (conditions.outcomes?.length) {
+    parts.push(
+      conditions.minOutcomeCount
+        ? `${conditions.outcomes.join(' or ')} ${conditions.minOutcomeCount}+ times`
+        : `last call ${conditions.outcomes.join(' or ')}`
+    );
+  }
+  if (conditions.minAttempts !== undefined) parts.push(`${conditions.minAttempts}+ attempts`);
+  if (conditions.maxAttempts !== undefined) {
+    parts.push(`at most ${conditions.maxAttempts} attempts`);
+  }
+  if (conditions.statuses?.length) parts.push(`status ${conditions.statuses.join(' or ')}`);
+
+  return parts.length ? parts.join(', ') : 'Any new lead';
+}
+
+function describeActions(actions: RecycleRuleActions): string {
+  const parts: string[] = [];
+
+  if (actions.retryAfterMinutes !== undefined) {
+    parts.push(
+      `retry after ${formatMinutes(actions.retryAfterMinutes)}` +
+        (actions.retryHourOffset ? `, ${actions.retryHourOffset}h later in the day` : '')
+    );
+  }
+  if (actions.status) parts.push(`set status ${LEAD_STATUSES[actions.status] ?? actions.status}`);
+  if (actions.priority !== undefined) parts.push(`set priority ${actions.priority}`);
+
+  return parts.join(', ') || '-';
+}
+
+function toForm(rule: DialingRule): RuleForm {
+  const { conditions, actions } = rule;
+  const minutes = actions.retryAfterMinutes;
+  const retryUnit =
+    minutes === undefined
+      ? 'hours'
+      : minutes % UNIT_MINUTES.days === 0
+        ? 'days'
+        : minutes % UNIT_MINUTES.hours === 0
+          ? 'hours'
+          : 'minutes';
+
+  return {
+    name: rule.name,
+    campaignId: rule.campaignId ?? 'all',
+    priority: String(rule.priority),
+    outcomes: conditions.outcomes ?? [],
+    minOutcomeCount: conditions.minOutcomeCount?.toString() ?? '',
+    minAttempts: conditions.minAttempts?.toString() ?? '',
+    maxAttempts: conditions.maxAttempts?.toString() ?? '',
+    retryAfter: minutes !== undefined ? String(minutes / UNIT_MINUTES[retryUnit]) : '',
+    retryUnit,
+    retryHourOffset: actions.retryHourOffset?.toString() ?? '',
+    status: actions.status ?? 'unchanged',
+    leadPriority: actions.priority?.toString() ?? '',
+  };
+}
+
+function fromForm(form: RuleForm) {
+  const retryAfter = toOptionalNumber(form.retryAfter);
+  const conditions: RecycleRuleConditions = {
+    ...(form.outcomes.length ? { outcomes: form.outcomes } : {}),
+    minOutcomeCount: form.outcomes.length ? toOptionalNumber(form.minOutcomeCount) : undefined,
+    minAttempts: toOptionalNumber(form.minAttempts),
+    maxAttempts: toOptionalNumber(form.maxAttempts),
+  };
+  const actions: RecycleRuleActions = {
+    retryAfterMinutes:
+      retryAfter !== undefined ? Math.round(retryAfter * UNIT_MINUTES[form.retryUnit]) : undefined,
+    retryHourOffset: retryAfter !== undefined ? toOptionalNumber(form.retryHourOffset) : undefined,
+    status: form.status === 'unchanged' ? undefined : form.status,
+    priority: toOptionalNumber(form.leadPriority),
+  };
+
+  return {
+    campaignId: form.campaignId === 'all' ? null : form.campaignId,
+    priority: Number(form.priority) || 0,
+    // Leave unset fields out rather than sending undefined
+    conditions: JSON.parse(JSON.stringify(conditions)) as RecycleRuleConditions,
+    actions: JSON.parse(JSON.stringify(actions)) as RecycleRuleActions,
+  };
+}
+
+export default function DialingRulesPage() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<DialingRule | null>(null);
+  const [deletingRule, setDeletingRule] = useState<DialingRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [draftCount, setDraftCount] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: rulesData, isLoading } = useDialingRules();
+  const {
+    data: dryRunData,
+    refetch: refetchDryRun,
+    isFetching: isDryRunning,
+  } = useDialingRulesDryRun();
+  const { data: campaignsData } = useCampaigns();
+  const { data: dispositionsData } = useDispositions();
+  const dryRunDraft = useDryRunDialingRule();
+  const createRule = useCreateDialingRule();
+  const updateRule = useUpdateDialingRule();
+  const deleteRule = useDeleteDialingRule();
+
+  const rules: DialingRule[] = rulesData?.rules ?? [];
+  const campaigns: any[] = campaignsData?.campaigns ?? [];
+  const campaignNames = new Map(campaigns.map((campaign) => [campaign.id, campaign.name]));
+  const affectedLeads = new Map(
+    (dryRunData?.rules ?? []).map((row) => [row.id, row.affectedLeads])
+  );
+  const outcomeOptions = Array.from(
+    new Set([
+      ...(dispositionsData?.dispositions ?? []).map((disposition: any) => disposition.code),
+      ...CALL_OUTCOMES,
+    ])
+  );
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm({ ...form, ...changes });
+    setDraftCount(null);
+  };
+
+  const openDialog = (rule: DialingRule | null) => {
+    setEditingRule(rule);
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setDraftCount(null);
+    setFormOpen(true);
+  };
+
+  const toggleOutcome = (outcome: string) => {
+    updateForm({
+      outcomes: form.outcomes.includes(outcome)
+        ? form.outcomes.filter((o) => o !== outcome)
+        : [...form.outcomes, outcome],
+    });
+  };
+
+  const handleDryRunDraft = async () => {
+    try {
+      const result = await dryRunDraft.mutateAsync(fromForm(form));
+      setDraftCount(result?.affectedLeads ?? 0);
+    } catch (error) {
+      showError('Could not dry-run rule', error);
+    }
+  };
+
+  const handleSave = async () => {
+    const data: DialingRuleInput = { name: form.name, ruleType: RECYCLE, ...fromForm(form) };
+
+    try {
+      if (editingRule) {
+        await updateRule.mutateAsync({ id: editingRule.id, data });
+      } else {
+        await createRule.mutateAsync(data);
+      }
+
+      setFormOpen(false);
+      refetchDryRun();
+      toast({
+        title: editingRule ? 'Rule updated' : 'Rule created',
+        description: `${form.name} has been saved.`,
+      });
+    } catch (error) {
+      showError('Could not save rule', error);
+    }
+  };
+
+  const handleToggle = async (rule: DialingRule, isActive: boolean) => {
+    try {
+      await updateRule.mutateAsync({ id: rule.id, data: { isActive } });
+      refetchDryRun();
+    } catch (error) {
+      showError('Could not update rule', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRule) return;
+
+    try {
+      await deleteRule.mutateAsync(deletingRule.id);
+      toast({ title: 'Rule deleted', description: `${deletingRule.name} has been removed.` });
+    } catch (error) {
+      showError('Could not delete rule', error);
+    } finally {
+      setDeletingRule(null);
+    }
+  };
+
+  const isSaving = createRule.isPending || updateRule.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Dialing Rules</h1>
+          <p className="text-muted-foreground">
+            Decide when leads are dialed again from how their calls ended
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetchDryRun()} disabled={isDryRunning}>
+            {isDryRunning ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="h-4 w-4 mr-2" />
+            )}
+            Dry Run
+          </Button>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules ({rules.length})</CardTitle>
+          <CardDescription>
+            Rules run after every call and on a schedule. Each lead is changed by the first rule
+            that covers it, highest priority first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground">
+              No rules yet. Leads are retried after each campaign&apos;s retry interval.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-center">Priority</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Then</TableHead>
+                  <TableHead className="text-right">Leads affected now</TableHead>
+                  <TableHead className="text-center">Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => {
+                  const isRecycle = rule.ruleType === RECYCLE;
+
+                  return (
+                    <TableRow key={rule.id}>
+                      <TableCell className="text-center">{rule.priority}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{rule.name}</p>
+                        {!isRecycle && <Badge variant="outline">{rule.ruleType}</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {rule.campaignId
+                          ? (campaignNames.get(rule.campaignId) ?? '-')
+                          : 'All campaigns'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {isRecycle ? describeConditions(rule.conditions) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {isRecycle ? describeActions(rule.actions) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isRecycle ? (affectedLeads.get(rule.id)?.toLocaleString() ?? '-') : '-'}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={(checked) => handleToggle(rule, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!isRecycle}
+                          onClick={() => openDialog(rule)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => setDeletingRule(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Rule Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+            <DialogDescription>
+              Applies to leads the dialers can still call, once their latest call has ended
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="ruleName"
+                placeholder="e.g. No answer three times"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rulePriority">Priority</Label>
+              <Input
+                id="rulePriority"
+                type="number"
+                value={form.priority}
+                onChange={(e) => updateForm({ priority: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Campaign</Label>
+              <Select
+                value={form.campaignId}
+                onValueChange={(value) => updateForm({ campaignId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All campaigns</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <Label>When the last call ended as</Label>
+              <div className="flex flex-wrap gap-2">
+                {outcomeOptions.map((outcome) => (
+                  <Badge
+                    key={outcome}
+                    variant={form.outcomes.includes(outcome) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleOutcome(outcome)}
+                  >
+                    {outcome}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected matches any outcome</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minOutcomeCount">...at least this many times</Label>
+              <Input
+                id="minOutcomeCount"
+                type="number"
+                min={1}
+                placeholder="Once"
+                disabled={form.outcomes.length === 0}
+                value={form.minOutcomeCount}
+                onChange={(e) => updateForm({ minOutcomeCount: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="minAttempts">Min attempts</Label>
+                <Input
+                  id="minAttempts"
+                  type="number"
+                  min={0}
+                  value={form.minAttempts}
+                  onChange={(e) => updateForm({ minAttempts: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxAttempts">Max attempts</Label>
+                <Input
+                  id="maxAttempts"
+                  type="number"
+                  min={0}
+                  value={form.maxAttempts}
+                  onChange={(e) => updateForm({ maxAttempts: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="retryAfter">Retry after</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="retryAfter"
+                  type="number"
+                  min={0}
+                  placeholder="Don't reschedule"
+                  value={form.retryAfter}
+                  onChange={(e) => updateForm({ retryAfter: e.target.value })}
+                />
+                <Select
+                  value={form.retryUnit}
+                  onValueChange={(value) =>
+                    updateForm({ retryUnit: value as RuleForm['retryUnit'] })
+                  }
+                >
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minutes">Minutes</SelectItem>
+                    <SelectItem value="hours">Hours</SelectItem>
+                    <SelectItem value="days">Days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retryHourOffset">...and this many hours later in the day</Label>
+              <Input
+                id="retryHourOffset"
+                type="number"
+                min={0}
+                max={23}
+                placeholder="Same time"
+                disabled={form.retryAfter === ''}
+                value={form.retryHourOffset}
+                onChange={(e) => updateForm({ retryHourOffset: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Set lead status</Label>
+              <Select value={form.status} onValueChange={(value) => updateForm({ status: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unchanged">Leave unchanged</SelectItem>
+                  {Object.entries(LEAD_STATUSES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leadPriority">Set lead priority</Label>
+              <Input
+                id="leadPriority"
+                type="number"
+                placeholder="Leave unchanged"
+                value={form.leadPriority}
+                onChange={(e) => updateForm({ leadPriority: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter className="sm:justify-between">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={handleDryRunDraft}
+                disabled={dryRunDraft.isPending}
+              >
+                {dryRunDraft.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FlaskConical className="h-4 w-4 mr-2" />
+                )}
+                Dry Run
+              </Button>
+              {draftCount !== null && (
+                <span className="text-sm text-muted-foreground">
+                  Would change {draftCount.toLocaleString()} lead(s) now
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!form.name || isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingRule ? 'Save Changes' : 'Add Rule'}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deletingRule} onOpenChange={(open) => !open && setDeletingRule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Rule</DialogTitle>
+            <DialogDescription>
+              Leads {deletingRule?.name} already changed keep their status, priority and next
+              attempt time.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingRule(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteRule.isPending}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
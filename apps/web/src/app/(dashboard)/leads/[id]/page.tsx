@@ -41,7 +41,7 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useLead, useUpdateLead, useLeadList } from "@/hooks/use-api";
+import { useLead, useUpdateLead, useLeadList, useLeadHistory } from "@/hooks/use-api";
 import { useToast } from "@/hooks/use-toast";
 
 // Loading skeleton component
@@ -111,6 +111,9 @@ export default function LeadDetailPage() {
   // Fetch lead list info
   const { data: leadList } = useLeadList(lead?.listId || "");
 
+  // Fetch dispositions recorded against the lead
+  const { data: dispositionData } = useLeadHistory(leadId, "disposition");
+
   // Update lead mutation
   const updateLead = useUpdateLead();
 
@@ -212,14 +215,17 @@ export default function LeadDetailPage() {
     content: string;
   }> = [];
 
-  // Placeholder disposition history
   const dispositionHistory: Array<{
     id: string;
     date: string;
-    agent: string;
     disposition: string;
     notes: string;
-  }> = [];
+  }> = (dispositionData?.history || []).map((entry: any) => ({
+    id: entry.id,
+    date: entry.createdAt,
+    disposition: entry.newValue?.name || entry.newValue?.code,
+    notes: entry.metadata?.notes || "",
+  }));
 
   return (
     <div className="flex flex-col gap-6 p-6">
@@ -701,9 +707,11 @@ export default function LeadDetailPage() {
                           </p>
                         </div>
                       </div>
-                      <p className="mt-1 text-xs text-muted-foreground">
-                        By {disp.agent}
-                      </p>
+                      {disp.notes && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {disp.notes}
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
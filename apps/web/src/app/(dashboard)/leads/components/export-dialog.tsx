@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useLeadExports,
+  useLeadExport,
+  useCreateLeadExport,
+  useLeadExportDownload,
+} from "@/hooks/use-api";
+import { useToast } from "@/hooks/use-toast";
+import type { LeadExportFilters } from "@/lib/api";
+
+const columnLabels: Record<string, string> = {
+  id: "Lead ID",
+  phoneNumber: "Phone Number",
+  altPhone: "Alternate Phone",
+  firstName: "First Name",
+  lastName: "Last Name",
+  email: "Email",
+  company: "Company",
+  timezone: "Timezone",
+  status: "Status",
+  priority: "Priority",
+  listName: "List",
+  attemptCount: "Attempts",
+  lastAttemptAt: "Last Attempt",
+  nextAttemptAt: "Next Attempt",
+  callCount: "Calls",
+  lastCallAt: "Last Call",
+  lastDisposition: "Last Disposition",
+  totalTalkTime: "Total Talk Time (s)",
+  createdAt: "Created",
+};
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: LeadExportFilters;
+  description?: string;
+}
+
+export function ExportDialog({ open, onOpenChange, filters, description }: ExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<"csv" | "xlsx">("csv");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [customFields, setCustomFields] = useState("");
+  const [exportId, setExportId] = useState<string | null>(null);
+
+  const { data: exportsData } = useLeadExports();
+  const { data: exportData } = useLeadExport(exportId);
+  const createExport = useCreateLeadExport();
+  const download = useLeadExportDownload();
+
+  const availableColumns = exportsData?.columns || [];
+  const leadExport = exportData?.export;
+
+  useEffect(() => {
+    if (exportsData?.defaultColumns && columns.length === 0) {
+      setColumns(exportsData.defaultColumns);
+    }
+  }, [exportsData?.defaultColumns]);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setExportId(null);
+    }
+  }, [open]);
+
+  const toggleColumn = (column: string) => {
+    setColumns((current) =>
+      current.includes(column)
+        ? current.filter((c) => c !== column)
+        : // Keep the order the columns are offered in
+          availableColumns.filter((c) => c === column || current.includes(c))
+    );
+  };
+
+  const handleExport = async () => {
+    const customColumns = customFields
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => `custom:${key}`);
+
+    try {
+      const result = await createExport.mutateAsync({
+        format,
+        filters,
+        columns: [...columns, ...customColumns],
+      });
+      setExportId(result?.export.id ?? null);
+    } catch (err) {
+      toast({
+        title: "Failed to start export",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!exportId) return;
+
+    try {
+      const result = await download.mutateAsync(exportId);
+      if (result) {
+        window.location.href = result.url;
+      }
+    } catch (err) {
+      toast({
+        title: "Failed to download export",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isRunning =
+    !!exportId && (!leadExport || ["pending", "processing"].includes(leadExport.status));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export Leads</DialogTitle>
+          <DialogDescription>
+            {description || "Export the leads matching the current filters"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {exportId ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            {isRunning && (
+              <>
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">Preparing your export...</p>
+              </>
+            )}
+            {leadExport?.status === "completed" && (
+              <>
+                <CheckCircle2 className="h-8 w-8 text-green-600" />
+                <p className="text-sm">
+                  {leadExport.rowCount.toLocaleString()} leads exported
+                </p>
+              </>
+            )}
+            {leadExport?.status === "failed" && (
+              <>
+                <AlertCircle className="h-8 w-8 text-destructive" />
+                <p className="text-sm text-destructive">
+                  {leadExport.error || "The export failed"}
+                </p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as "csv" | "xlsx")}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="grid grid-cols-2 gap-2 md:grid-cols-3">
+                {availableColumns.map((column: string) => (
+                  <label key={column} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={columns.includes(column)}
+                      onCheckedChange={() => toggleColumn(column)}
+                    />
+                    {columnLabels[column] || column}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-custom-fields">Custom Fields</Label>
+              <Input
+                id="export-custom-fields"
+                placeholder="e.g. account_id, region"
+                value={customFields}
+                onChange={(e) => setCustomFields(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated custom field names to add as columns
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {exportId ? (
+            <Button
+              onClick={handleDownload}
+              disabled={leadExport?.status !== "completed" || download.isPending}
+            >
+              {download.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Download
+            </Button>
+          ) : (
+            <Button
+              onClick={handleExport}
+              disabled={createExport.isPending || (columns.length === 0 && !customFields.trim())}
+            >
+              {createExport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Export
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Merge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useMergeLeads } from "@/hooks/use-api";
+import { useToast } from "@/hooks/use-toast";
+import type { LeadDuplicateGroup, LeadMergeField } from "@/lib/api";
+
+const fieldLabels: Record<LeadMergeField, string> = {
+  phoneNumber: "Phone Number",
+  altPhone: "Alternate Phone",
+  firstName: "First Name",
+  lastName: "Last Name",
+  email: "Email",
+  company: "Company",
+  timezone: "Timezone",
+};
+
+interface Conflict {
+  key: string;
+  label: string;
+  // Distinct values, each with the first lead holding it
+  options: Array<{ leadId: string; value: string }>;
+}
+
+interface MergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: LeadDuplicateGroup | null;
+}
+
+function display(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function leadName(lead: any): string {
+  return [lead.firstName, lead.lastName].filter(Boolean).join(" ") || lead.phoneNumber;
+}
+
+/**
+ * Values the included leads disagree on, with the canonical lead's first
+ */
+function findConflicts(
+  leads: any[],
+  keys: string[],
+  valueOf: (lead: any, key: string) => unknown,
+  labelOf: (key: string) => string
+): Conflict[] {
+  return keys.flatMap((key) => {
+    const options: Conflict["options"] = [];
+
+    for (const lead of leads) {
+      const value = display(valueOf(lead, key));
+      if (value && !options.some((option) => option.value === value)) {
+        options.push({ leadId: lead.id, value });
+      }
+    }
+
+    return options.length > 1 ? [{ key, label: labelOf(key), options }] : [];
+  });
+}
+
+export function MergeDialog({ open, onOpenChange, group }: MergeDialogProps) {
+  const { toast } = useToast();
+  const mergeLeads = useMergeLeads();
+  const [canonicalId, setCanonicalId] = useState("");
+  const [includedIds, setIncludedIds] = useState<string[]>([]);
+  const [fieldChoices, setFieldChoices] = useState<Record<string, string>>({});
+  const [customChoices, setCustomChoices] = useState<Record<string, string>>({});
+
+  const groupLeads = group?.leads || [];
+
+  useEffect(() => {
+    setCanonicalId(groupLeads[0]?.id || "");
+    setIncludedIds(groupLeads.map((lead) => lead.id));
+    setFieldChoices({});
+    setCustomChoices({});
+  }, [group]);
+
+  // Canonical lead first, so its values are the defaults
+  const mergedLeads = useMemo(
+    () =>
+      groupLeads
+        .filter((lead) => includedIds.includes(lead.id))
+        .sort((a, b) => (a.id === canonicalId ? -1 : b.id === canonicalId ? 1 : 0)),
+    [groupLeads, includedIds, canonicalId]
+  );
+
+  const fieldConflicts = findConflicts(
+    mergedLeads,
+    Object.keys(fieldLabels),
+    (lead, key) => lead[key],
+    (key) => fieldLabels[key as LeadMergeField]
+  );
+
+  const customKeys = Array.from(
+    new Set(mergedLeads.flatMap((lead) => Object.keys(lead.customFields || {})))
+  ).sort();
+
+  const customConflicts = findConflicts(
+    mergedLeads,
+    customKeys,
+    (lead, key) => lead.customFields?.[key],
+    (key) => key
+  );
+
+  const chosen = (choices: Record<string, string>, conflict: Conflict) => {
+    const leadId = choices[conflict.key];
+    return conflict.options.some((option) => option.leadId === leadId)
+      ? leadId
+      : conflict.options[0].leadId;
+  };
+
+  const toggleLead = (id: string, checked: boolean) => {
+    setIncludedIds(checked ? [...includedIds, id] : includedIds.filter((other) => other !== id));
+  };
+
+  const duplicateIds = mergedLeads.filter((lead) => lead.id !== canonicalId).map((lead) => lead.id);
+
+  const handleMerge = async () => {
+    try {
+      await mergeLeads.mutateAsync({
+        canonicalId,
+        duplicateIds,
+        fields: Object.fromEntries(
+          fieldConflicts.map((conflict) => [conflict.key, chosen(fieldChoices, conflict)])
+        ),
+        customFields: Object.fromEntries(
+          customConflicts.map((conflict) => [conflict.key, chosen(customChoices, conflict)])
+        ),
+      });
+
+      toast({
+        title: "Leads merged",
+        description: `${duplicateIds.length + 1} leads are now one.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderConflict = (
+    conflict: Conflict,
+    choices: Record<string, string>,
+    setChoices: (choices: Record<string, string>) => void
+  ) => (
+    <div key={conflict.key} className="grid grid-cols-3 items-center gap-4">
+      <Label className="truncate">{conflict.label}</Label>
+      <Select
+        value={chosen(choices, conflict)}
+        onValueChange={(value) => setChoices({ ...choices, [conflict.key]: value })}
+      >
+        <SelectTrigger className="col-span-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {conflict.options.map((option) => (
+            <SelectItem key={option.leadId} value={option.leadId}>
+              {option.value}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Leads</DialogTitle>
+          <DialogDescription>
+            The other leads are deleted and their calls, callbacks and history move to the lead you
+            keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>Keep</Label>
+            <RadioGroup value={canonicalId} onValueChange={setCanonicalId}>
+              {groupLeads.map((lead) => (
+                <div key={lead.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <Checkbox
+                    checked={includedIds.includes(lead.id)}
+                    disabled={lead.id === canonicalId}
+                    onCheckedChange={(checked) => toggleLead(lead.id, checked === true)}
+                  />
+                  <RadioGroupItem
+                    value={lead.id}
+                    id={`canonical-${lead.id}`}
+                    disabled={!includedIds.includes(lead.id)}
+                  />
+                  <label htmlFor={`canonical-${lead.id}`} className="flex-1 text-sm">
+                    <span className="font-medium">{leadName(lead)}</span>
+                    <span className="ml-2 text-muted-foreground">{lead.phoneNumber}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {lead.listName || "Unknown list"} · {lead.attemptCount} attempts · added{" "}
+                      {new Date(lead.createdAt).toLocaleDateString()}
+                    </span>
+                  </label>
+                  <Badge variant="outline">{lead.status}</Badge>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              Untick a lead to leave it out of the merge.
+            </p>
+          </div>
+
+          {fieldConflicts.length > 0 && (
+            <div className="space-y-3">
+              <Label>Conflicting fields</Label>
+              {fieldConflicts.map((conflict) =>
+                renderConflict(conflict, fieldChoices, setFieldChoices)
+              )}
+            </div>
+          )}
+
+          {customConflicts.length > 0 && (
+            <div className="space-y-3">
+              <Label>Conflicting custom fields</Label>
+              {customConflicts.map((conflict) =>
+                renderConflict(conflict, customChoices, setCustomChoices)
+              )}
+            </div>
+          )}
+
+          {fieldConflicts.length === 0 && customConflicts.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              The leads do not disagree on any field; values missing from the kept lead are filled
+              from the others.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={duplicateIds.length === 0 || mergeLeads.isPending}
+          >
+            {mergeLeads.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Merge className="mr-2 h-4 w-4" />
+            )}
+            Merge {duplicateIds.length + 1} Leads
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Copy, Loader2, AlertCircle, Merge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLeadDuplicates, useLeadLists } from "@/hooks/use-api";
+import type { LeadDuplicateGroup, LeadDuplicateMatch } from "@/lib/api";
+import { MergeDialog } from "../components/merge-dialog";
+
+const matchLabels: Record<LeadDuplicateMatch, string> = {
+  phone: "Same phone",
+  email: "Same email",
+  name: "Similar name, same company",
+};
+
+export default function DuplicateLeadsPage() {
+  const [matchBy, setMatchBy] = useState<LeadDuplicateMatch[]>(["phone", "email", "name"]);
+  const [listId, setListId] = useState("all");
+  const [mergingGroup, setMergingGroup] = useState<LeadDuplicateGroup | null>(null);
+
+  const { data: leadListsData } = useLeadLists({ limit: 100 });
+  const { data, isLoading, error } = useLeadDuplicates({
+    matchBy: matchBy.join(","),
+    ...(listId !== "all" && { listId }),
+  });
+
+  const leadLists = leadListsData?.leadLists || [];
+  const groups = data?.groups || [];
+
+  const toggleMatch = (match: LeadDuplicateMatch, checked: boolean) => {
+    setMatchBy(checked ? [...matchBy, match] : matchBy.filter((other) => other !== match));
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href="/leads">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Duplicate Leads</h1>
+          <p className="text-muted-foreground">
+            Find the same person across lead lists and merge them into one lead
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-6 pt-6">
+          {(Object.keys(matchLabels) as LeadDuplicateMatch[]).map((match) => (
+            <div key={match} className="flex items-center gap-2">
+              <Checkbox
+                id={`match-${match}`}
+                checked={matchBy.includes(match)}
+                disabled={matchBy.length === 1 && matchBy.includes(match)}
+                onCheckedChange={(checked) => toggleMatch(match, checked === true)}
+              />
+              <Label htmlFor={`match-${match}`}>{matchLabels[match]}</Label>
+            </div>
+          ))}
+          <Select value={listId} onValueChange={setListId}>
+            <SelectTrigger className="ml-auto w-[220px]">
+              <SelectValue placeholder="Lead list" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Lists</SelectItem>
+              {leadLists.map((list: any) => (
+                <SelectItem key={list.id} value={list.id}>
+                  {list.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error instanceof Error ? error.message : "Failed to find duplicate leads"}</span>
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+            <Copy className="h-8 w-8" />
+            <p>No duplicate leads found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Showing {groups.length} of {data?.total} groups of duplicates
+          </p>
+          {groups.map((group) => (
+            <Card key={group.leads.map((lead) => lead.id).join()}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-base">{group.leads.length} leads</CardTitle>
+                  <CardDescription className="flex gap-1">
+                    {group.matchedBy.map((match) => (
+                      <Badge key={match} variant="secondary">
+                        {matchLabels[match]}
+                      </Badge>
+                    ))}
+                  </CardDescription>
+                </div>
+                <Button size="sm" onClick={() => setMergingGroup(group)}>
+                  <Merge className="mr-2 h-4 w-4" />
+                  Review & Merge
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Company</TableHead>
+                      <TableHead>List</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.leads.map((lead) => (
+                      <TableRow key={lead.id}>
+                        <TableCell>
+                          <Link href={`/leads/${lead.id}`} className="font-medium hover:underline">
+                            {[lead.firstName, lead.lastName].filter(Boolean).join(" ") || "-"}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{lead.phoneNumber}</TableCell>
+                        <TableCell>{lead.email || "-"}</TableCell>
+                        <TableCell>{lead.company || "-"}</TableCell>
+                        <TableCell>{lead.listName || "-"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{lead.status}</Badge>
+                        </TableCell>
+                        <TableCell>{lead.attemptCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+
+      <MergeDialog
+        open={!!mergingGroup}
+        onOpenChange={(open) => !open && setMergingGroup(null)}
+        group={mergingGroup}
+      />
+    </div>
+  );
+}
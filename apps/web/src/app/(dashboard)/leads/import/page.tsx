@@ -1,16 +1,17 @@
 "use client";
 
 import { useState } from "react";
-import { useRouter } from "next/navigation";
 import Link from "next/link";
 import {
   ArrowLeft,
   ArrowRight,
   Check,
+  Download,
   Upload,
   FileSpreadsheet,
   AlertCircle,
   Info,
+  Loader2,
   X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -33,6 +34,7 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Table,
   TableBody,
@@ -41,9 +43,20 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useLeadLists,
+  useCreateLeadList,
+  useLeadImportMappings,
+  useUploadLeadImport,
+  useStartLeadImport,
+  useDeleteLeadImport,
+} from "@/hooks/use-api";
+import { useLeadImportProgress } from "@/hooks/use-socket";
+import { leadImportsApi, type LeadImportDuplicatePolicy } from "@/lib/api";
 
 const STEPS = [
-  { id: 1, name: "Upload File", description: "Choose your file" },
+  { id: 1, name: "Upload File", description: "Choose your file and list" },
   { id: 2, name: "Map Columns", description: "Match fields" },
   { id: 3, name: "Options", description: "Import settings" },
   { id: 4, name: "Preview", description: "Review data" },
@@ -51,106 +64,230 @@ const STEPS = [
 ];
 
 const FIELD_MAPPINGS = [
-  { field: "firstName", label: "First Name", required: true },
-  { field: "lastName", label: "Last Name", required: true },
+  { field: "phoneNumber", label: "Phone", required: true },
+  { field: "altPhone", label: "Alternate Phone", required: false },
+  { field: "firstName", label: "First Name", required: false },
+  { field: "lastName", label: "Last Name", required: false },
   { field: "email", label: "Email", required: false },
-  { field: "phone", label: "Phone", required: true },
   { field: "company", label: "Company", required: false },
-  { field: "position", label: "Position", required: false },
-  { field: "industry", label: "Industry", required: false },
-  { field: "address", label: "Address", required: false },
-  { field: "city", label: "City", required: false },
-  { field: "state", label: "State", required: false },
-  { field: "zip", label: "ZIP Code", required: false },
-  { field: "country", label: "Country", required: false },
+  { field: "timezone", label: "Timezone", required: false },
+  { field: "priority", label: "Priority", required: false },
 ];
 
-const mockCsvColumns = [
-  "First Name",
-  "Last Name",
-  "Email Address",
-  "Phone Number",
-  "Company Name",
-  "Job Title",
-  "Industry",
-  "Street Address",
-  "City",
-  "State",
-  "Postal Code",
-  "Country",
+const CUSTOM_FIELD_PREFIX = "custom:";
+const SKIP_COLUMN = "skip";
+const CUSTOM_COLUMN = "custom";
+
+// Header patterns for mapping columns without a saved mapping
+const FIELD_GUESSES: Array<{ field: string; pattern: RegExp }> = [
+  { field: "altPhone", pattern: /^(alt|alternate|secondary|other)\s*(phone|number)/ },
+  { field: "phoneNumber", pattern: /phone|mobile|cell/ },
+  { field: "firstName", pattern: /^first|given/ },
+  { field: "lastName", pattern: /^last|surname|family/ },
+  { field: "email", pattern: /e-?mail/ },
+  { field: "company", pattern: /company|organi[sz]ation|business/ },
+  { field: "timezone", pattern: /time\s*zone/ },
+  { field: "priority", pattern: /priority/ },
 ];
 
-const mockPreviewData = [
+const DUPLICATE_POLICIES: Array<{
+  value: LeadImportDuplicatePolicy;
+  label: string;
+  description: string;
+}> = [
   {
-    firstName: "John",
-    lastName: "Anderson",
-    email: "john.anderson@techcorp.com",
-    phone: "+1 (555) 123-4567",
-    company: "TechCorp Solutions",
-    position: "CTO",
-    industry: "Technology",
-    address: "123 Tech Street",
-    city: "San Francisco",
-    state: "CA",
-    zip: "94105",
-    country: "USA",
+    value: "skip",
+    label: "Skip duplicates",
+    description:
+      "Skip rows whose phone number is already a lead, or appears earlier in the file",
   },
   {
-    firstName: "Sarah",
-    lastName: "Martinez",
-    email: "s.martinez@innovatesoft.io",
-    phone: "+1 (555) 234-5678",
-    company: "InnovateSoft",
-    position: "VP of Engineering",
-    industry: "Software",
-    address: "456 Innovation Ave",
-    city: "Austin",
-    state: "TX",
-    zip: "78701",
-    country: "USA",
+    value: "update",
+    label: "Update duplicates",
+    description: "Update the existing leads with the information from the file",
   },
   {
-    firstName: "Michael",
-    lastName: "Chen",
-    email: "mchen@healthtech.com",
-    phone: "+1 (555) 345-6789",
-    company: "HealthTech Innovations",
-    position: "Director of IT",
-    industry: "Healthcare",
-    address: "789 Medical Blvd",
-    city: "Boston",
-    state: "MA",
-    zip: "02115",
-    country: "USA",
+    value: "allow",
+    label: "Create duplicates",
+    description: "Create new leads even if the phone number is already a lead",
   },
 ];
 
-const mockLeadLists = [
-  { id: "1", name: "Enterprise Tech Companies" },
-  { id: "2", name: "SaaS Startups - Series A+" },
-  { id: "3", name: "Healthcare Industry Leads" },
-  { id: "4", name: "Financial Services Prospects" },
-];
+function toCustomKey(header: string) {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)?/g, (_, next: string | undefined) => (next ? next.toUpperCase() : ""));
+}
+
+function guessMapping(headers: string[]) {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const normalized = header.trim().toLowerCase();
+    const guess = FIELD_GUESSES.find(
+      ({ field, pattern }) => !used.has(field) && pattern.test(normalized)
+    );
+
+    if (guess) {
+      used.add(guess.field);
+      mapping[header] = guess.field;
+    } else if (toCustomKey(header)) {
+      mapping[header] = `${CUSTOM_FIELD_PREFIX}${toCustomKey(header)}`;
+    }
+  }
+
+  return mapping;
+}
 
 export default function ImportLeadsPage() {
-  const router = useRouter();
+  const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(1);
-  const [fileName, setFileName] = useState<string>("");
-  const [columnMappings, setColumnMappings] = useState<Record<string, string>>(
-    {}
-  );
-  const [importOptions, setImportOptions] = useState({
+  const [file, setFile] = useState<File | null>(null);
+  const [listOptions, setListOptions] = useState({
     targetList: "",
     createNewList: false,
     newListName: "",
-    duplicateHandling: "skip",
-    skipValidation: false,
   });
-  const [isImporting, setIsImporting] = useState(false);
-  const [importProgress, setImportProgress] = useState(0);
-  const [importComplete, setImportComplete] = useState(false);
+  // The uploaded file, as the server read it: headers and sample rows
+  const [leadImport, setLeadImport] = useState<any>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [saveMappingAs, setSaveMappingAs] = useState("");
+  const [importOptions, setImportOptions] = useState({
+    duplicatePolicy: "skip" as LeadImportDuplicatePolicy,
+    duplicateScope: "list" as "list" | "tenant",
+    scrubDnc: true,
+  });
+  const [started, setStarted] = useState(false);
+
+  const { data: leadListsData } = useLeadLists();
+  const { data: mappingsData } = useLeadImportMappings();
+  const createLeadList = useCreateLeadList();
+  const uploadLeadImport = useUploadLeadImport();
+  const startLeadImport = useStartLeadImport();
+  const deleteLeadImport = useDeleteLeadImport();
+  const { progress } = useLeadImportProgress(started ? leadImport?.id : null);
+
+  const leadLists: any[] = leadListsData?.leadLists || [];
+  const savedMappings: any[] = mappingsData?.mappings || [];
+  const headers: string[] = leadImport?.headers || [];
+  const sampleRows: string[][] = leadImport?.sampleRows || [];
+
+  const mappedTargets = Object.values(mapping);
+  const phoneMapped = mappedTargets.includes("phoneNumber");
+  const repeatedTargets = mappedTargets.filter(
+    (target, index) => mappedTargets.indexOf(target) !== index
+  );
+
+  const targetListName = listOptions.createNewList
+    ? listOptions.newListName
+    : leadLists.find((list) => list.id === listOptions.targetList)?.name;
+
+  // A different file or list needs a new upload
+  const discardUpload = () => {
+    if (leadImport && !started) {
+      deleteLeadImport.mutate(leadImport.id);
+    }
+    setLeadImport(null);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) {
+      discardUpload();
+      setFile(selected);
+    }
+  };
+
+  const uploadFile = async () => {
+    if (!file) return;
+
+    try {
+      let listId = listOptions.targetList;
+
+      if (listOptions.createNewList) {
+        const created = await createLeadList.mutateAsync({ name: listOptions.newListName });
+        listId = created?.leadList.id;
+        setListOptions({ targetList: listId, createNewList: false, newListName: "" });
+      }
+
+      const uploaded = await uploadLeadImport.mutateAsync({ listId, file });
+      setLeadImport(uploaded?.import);
+      setMapping(guessMapping(uploaded?.import.headers || []));
+      setCurrentStep(2);
+    } catch (err) {
+      toast({
+        title: "Upload failed",
+        description: err instanceof Error ? err.message : "The file could not be uploaded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applySavedMapping = (id: string) => {
+    const saved = savedMappings.find((item) => item.id === id);
+    if (!saved) return;
+
+    setMapping(
+      Object.fromEntries(
+        Object.entries(saved.mapping as Record<string, string>).filter(([header]) =>
+          headers.includes(header)
+        )
+      )
+    );
+    setSaveMappingAs(saved.name);
+  };
+
+  const setColumnTarget = (header: string, value: string) => {
+    const next = { ...mapping };
+
+    if (value === SKIP_COLUMN) {
+      delete next[header];
+    } else if (value === CUSTOM_COLUMN) {
+      next[header] = `${CUSTOM_FIELD_PREFIX}${toCustomKey(header) || "field"}`;
+    } else {
+      next[header] = value;
+    }
+
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    try {
+      await startLeadImport.mutateAsync({
+        id: leadImport.id,
+        data: {
+          mapping,
+          saveMappingAs: saveMappingAs.trim() || undefined,
+          ...importOptions,
+        },
+      });
+      setStarted(true);
+    } catch (err) {
+      toast({
+        title: "Import failed to start",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetImport = () => {
+    setCurrentStep(1);
+    setFile(null);
+    setLeadImport(null);
+    setMapping({});
+    setSaveMappingAs("");
+    setStarted(false);
+  };
 
   const nextStep = () => {
+    if (currentStep === 1 && !leadImport) {
+      uploadFile();
+      return;
+    }
+
     if (currentStep < STEPS.length) {
       setCurrentStep(currentStep + 1);
     }
@@ -162,45 +299,17 @@ export default function ImportLeadsPage() {
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setFileName(file.name);
-      // Auto-map columns based on common naming patterns
-      const autoMappings: Record<string, string> = {
-        firstName: "First Name",
-        lastName: "Last Name",
-        email: "Email Address",
-        phone: "Phone Number",
-        company: "Company Name",
-        position: "Job Title",
-        industry: "Industry",
-        address: "Street Address",
-        city: "City",
-        state: "State",
-        zip: "Postal Code",
-        country: "Country",
-      };
-      setColumnMappings(autoMappings);
-    }
-  };
-
-  const handleImport = () => {
-    setIsImporting(true);
-    // Simulate import progress
-    let progress = 0;
-    const interval = setInterval(() => {
-      progress += 10;
-      setImportProgress(progress);
-      if (progress >= 100) {
-        clearInterval(interval);
-        setIsImporting(false);
-        setImportComplete(true);
-      }
-    }, 300);
+  const previewValue = (row: string[], target: string) => {
+    const header = Object.keys(mapping).find((key) => mapping[key] === target);
+    return header ? row[headers.indexOf(header)] || "" : "";
   };
 
   const progressPercent = (currentStep / STEPS.length) * 100;
+  const importComplete = progress?.status === "completed";
+  const importFailed = progress?.status === "failed";
+  const rejectedRows = progress
+    ? progress.errorRows + progress.dncRows + progress.duplicateRows
+    : 0;
 
   return (
     <div className="flex flex-col gap-6 p-6">
@@ -268,7 +377,7 @@ export default function ImportLeadsPage() {
         <CardContent className="space-y-6">
           {/* Step 1: Upload File */}
           {currentStep === 1 && (
-            <div className="space-y-4">
+            <div className="space-y-6">
               <div className="flex items-center justify-center rounded-lg border-2 border-dashed p-12">
                 <div className="flex flex-col items-center gap-4">
                   <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
@@ -282,18 +391,21 @@ export default function ImportLeadsPage() {
                   </div>
                   <Input
                     type="file"
-                    accept=".csv,.xlsx,.xls"
+                    accept=".csv,.txt,.xlsx"
                     onChange={handleFileUpload}
                     className="max-w-xs"
                   />
-                  {fileName && (
+                  {file && (
                     <div className="flex items-center gap-2 rounded-md bg-muted p-3">
                       <FileSpreadsheet className="h-5 w-5 text-primary" />
-                      <span className="font-medium">{fileName}</span>
+                      <span className="font-medium">{file.name}</span>
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => setFileName("")}
+                        onClick={() => {
+                          discardUpload();
+                          setFile(null);
+                        }}
                       >
                         <X className="h-4 w-4" />
                       </Button>
@@ -302,15 +414,58 @@ export default function ImportLeadsPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Target Lead List *</Label>
+                <RadioGroup
+                  value={listOptions.createNewList ? "new" : listOptions.targetList}
+                  onValueChange={(value) => {
+                    discardUpload();
+                    setListOptions({
+                      ...listOptions,
+                      createNewList: value === "new",
+                      targetList: value === "new" ? "" : value,
+                    });
+                  }}
+                >
+                  {leadLists.map((list) => (
+                    <div key={list.id} className="flex items-center space-x-2">
+                      <RadioGroupItem value={list.id} id={list.id} />
+                      <Label htmlFor={list.id} className="font-normal">
+                        {list.name}
+                      </Label>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="new" id="new" />
+                    <Label htmlFor="new" className="font-normal">
+                      Create new list
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {listOptions.createNewList && (
+                <div className="space-y-2">
+                  <Label htmlFor="newListName">New List Name *</Label>
+                  <Input
+                    id="newListName"
+                    placeholder="Enter list name..."
+                    value={listOptions.newListName}
+                    onChange={(e) =>
+                      setListOptions({ ...listOptions, newListName: e.target.value })
+                    }
+                  />
+                </div>
+              )}
+
               <div className="flex items-start gap-2 rounded-md bg-blue-50 p-4 text-sm text-blue-900">
                 <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />
                 <div>
                   <p className="font-medium">Supported formats</p>
                   <ul className="mt-1 list-inside list-disc text-blue-800">
                     <li>CSV files (.csv)</li>
-                    <li>Excel files (.xlsx, .xls)</li>
-                    <li>Maximum file size: 10 MB</li>
-                    <li>Maximum records: 50,000 per import</li>
+                    <li>Excel files (.xlsx), first sheet only</li>
+                    <li>The first row must hold the column names</li>
                   </ul>
                 </div>
               </div>
@@ -321,186 +476,191 @@ export default function ImportLeadsPage() {
           {currentStep === 2 && (
             <div className="space-y-4">
               <p className="text-sm text-muted-foreground">
-                Map the columns from your file to lead fields. Required fields
-                are marked with an asterisk (*).
+                Map the columns of {leadImport?.fileName} to lead fields. Columns
+                mapped to a custom field are kept with the lead under that name.
+                A column must be mapped to Phone.
               </p>
 
-              <div className="space-y-3">
-                {FIELD_MAPPINGS.map((mapping) => (
-                  <div
-                    key={mapping.field}
-                    className="grid grid-cols-2 items-center gap-4"
-                  >
-                    <Label htmlFor={mapping.field}>
-                      {mapping.label}
-                      {mapping.required && (
-                        <span className="text-destructive"> *</span>
-                      )}
-                    </Label>
-                    <Select
-                      value={columnMappings[mapping.field] || ""}
-                      onValueChange={(value) =>
-                        setColumnMappings({
-                          ...columnMappings,
-                          [mapping.field]: value,
-                        })
-                      }
-                    >
-                      <SelectTrigger id={mapping.field}>
-                        <SelectValue placeholder="Select column..." />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="">
-                          <span className="text-muted-foreground">
-                            - Do not import -
-                          </span>
+              {savedMappings.length > 0 && (
+                <div className="grid grid-cols-2 items-center gap-4">
+                  <Label>Use a saved mapping</Label>
+                  <Select onValueChange={applySavedMapping}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select mapping..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedMappings.map((saved) => (
+                        <SelectItem key={saved.id} value={saved.id}>
+                          {saved.name}
                         </SelectItem>
-                        {mockCsvColumns.map((col) => (
-                          <SelectItem key={col} value={col}>
-                            {col}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                ))}
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File Column</TableHead>
+                      <TableHead>Example</TableHead>
+                      <TableHead>Lead Field</TableHead>
+                      <TableHead>Custom Field Name</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {headers.map((header, index) => {
+                      const target = mapping[header];
+                      const isCustom = target?.startsWith(CUSTOM_FIELD_PREFIX);
+
+                      return (
+                        <TableRow key={header}>
+                          <TableCell className="font-medium">{header}</TableCell>
+                          <TableCell className="max-w-[200px] truncate text-muted-foreground">
+                            {sampleRows[0]?.[index]}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={!target ? SKIP_COLUMN : isCustom ? CUSTOM_COLUMN : target}
+                              onValueChange={(value) => setColumnTarget(header, value)}
+                            >
+                              <SelectTrigger className="w-[180px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SKIP_COLUMN}>
+                                  <span className="text-muted-foreground">
+                                    - Do not import -
+                                  </span>
+                                </SelectItem>
+                                {FIELD_MAPPINGS.map((field) => (
+                                  <SelectItem key={field.field} value={field.field}>
+                                    {field.label}
+                                    {field.required && " *"}
+                                  </SelectItem>
+                                ))}
+                                <SelectItem value={CUSTOM_COLUMN}>Custom field</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {isCustom && (
+                              <Input
+                                className="w-[180px]"
+                                value={target.slice(CUSTOM_FIELD_PREFIX.length)}
+                                onChange={(e) =>
+                                  setMapping({
+                                    ...mapping,
+                                    [header]: `${CUSTOM_FIELD_PREFIX}${e.target.value}`,
+                                  })
+                                }
+                              />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
               </div>
 
-              <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-4 text-sm text-yellow-900">
-                <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
-                <p>
-                  Ensure all required fields are mapped before proceeding.
-                  Unmapped fields will not be imported.
-                </p>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="saveMappingAs">Save this mapping as</Label>
+                <Input
+                  id="saveMappingAs"
+                  placeholder="Optional mapping name..."
+                  value={saveMappingAs}
+                  onChange={(e) => setSaveMappingAs(e.target.value)}
+                />
               </div>
+
+              {(!phoneMapped || repeatedTargets.length > 0) && (
+                <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-4 text-sm text-yellow-900">
+                  <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                  <p>
+                    {!phoneMapped
+                      ? "Map a column to Phone before proceeding."
+                      : `Each field can only be mapped from one column: ${Array.from(
+                          new Set(repeatedTargets)
+                        ).join(", ")}.`}
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
           {/* Step 3: Import Options */}
           {currentStep === 3 && (
             <div className="space-y-6">
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Target Lead List *</Label>
-                  <RadioGroup
-                    value={
-                      importOptions.createNewList ? "new" : importOptions.targetList
-                    }
-                    onValueChange={(value) => {
-                      if (value === "new") {
-                        setImportOptions({
-                          ...importOptions,
-                          createNewList: true,
-                          targetList: "",
-                        });
-                      } else {
-                        setImportOptions({
-                          ...importOptions,
-                          createNewList: false,
-                          targetList: value,
-                        });
-                      }
-                    }}
-                  >
-                    {mockLeadLists.map((list) => (
-                      <div
-                        key={list.id}
-                        className="flex items-center space-x-2"
-                      >
-                        <RadioGroupItem value={list.id} id={list.id} />
-                        <Label htmlFor={list.id} className="font-normal">
-                          {list.name}
-                        </Label>
-                      </div>
-                    ))}
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="new" id="new" />
-                      <Label htmlFor="new" className="font-normal">
-                        Create new list
-                      </Label>
-                    </div>
-                  </RadioGroup>
-                </div>
-
-                {importOptions.createNewList && (
-                  <div className="space-y-2">
-                    <Label htmlFor="newListName">New List Name *</Label>
-                    <Input
-                      id="newListName"
-                      placeholder="Enter list name..."
-                      value={importOptions.newListName}
-                      onChange={(e) =>
-                        setImportOptions({
-                          ...importOptions,
-                          newListName: e.target.value,
-                        })
-                      }
-                    />
-                  </div>
-                )}
-              </div>
-
               <div className="space-y-2">
                 <Label>Duplicate Handling</Label>
                 <RadioGroup
-                  value={importOptions.duplicateHandling}
+                  value={importOptions.duplicatePolicy}
                   onValueChange={(value) =>
                     setImportOptions({
                       ...importOptions,
-                      duplicateHandling: value,
+                      duplicatePolicy: value as LeadImportDuplicatePolicy,
                     })
                   }
                 >
-                  <Card className="cursor-pointer hover:bg-accent">
-                    <CardContent className="flex items-start space-x-2 p-4">
-                      <RadioGroupItem value="skip" id="skip" />
-                      <div className="flex-1">
-                        <Label htmlFor="skip" className="cursor-pointer font-medium">
-                          Skip duplicates
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Skip any records that match existing leads (by email or
-                          phone)
-                        </p>
-                      </div>
-                    </CardContent>
-                  </Card>
+                  {DUPLICATE_POLICIES.map((policy) => (
+                    <Card key={policy.value} className="cursor-pointer hover:bg-accent">
+                      <CardContent className="flex items-start space-x-2 p-4">
+                        <RadioGroupItem value={policy.value} id={policy.value} />
+                        <div className="flex-1">
+                          <Label htmlFor={policy.value} className="cursor-pointer font-medium">
+                            {policy.label}
+                          </Label>
+                          <p className="text-sm text-muted-foreground">
+                            {policy.description}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </RadioGroup>
+              </div>
 
-                  <Card className="cursor-pointer hover:bg-accent">
-                    <CardContent className="flex items-start space-x-2 p-4">
-                      <RadioGroupItem value="update" id="update" />
-                      <div className="flex-1">
-                        <Label
-                          htmlFor="update"
-                          className="cursor-pointer font-medium"
-                        >
-                          Update duplicates
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Update existing lead records with new information from
-                          the import
-                        </p>
-                      </div>
-                    </CardContent>
-                  </Card>
+              {importOptions.duplicatePolicy !== "allow" && (
+                <div className="grid grid-cols-2 items-center gap-4">
+                  <Label>Look for duplicates in</Label>
+                  <Select
+                    value={importOptions.duplicateScope}
+                    onValueChange={(value) =>
+                      setImportOptions({
+                        ...importOptions,
+                        duplicateScope: value as "list" | "tenant",
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="list">This list</SelectItem>
+                      <SelectItem value="tenant">All lists</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
 
-                  <Card className="cursor-pointer hover:bg-accent">
-                    <CardContent className="flex items-start space-x-2 p-4">
-                      <RadioGroupItem value="create" id="create" />
-                      <div className="flex-1">
-                        <Label
-                          htmlFor="create"
-                          className="cursor-pointer font-medium"
-                        >
-                          Create duplicates
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Create new lead records even if duplicates exist
-                        </p>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </RadioGroup>
+              <div className="flex items-center justify-between rounded-md border p-4">
+                <div>
+                  <Label htmlFor="scrubDnc" className="font-medium">
+                    Scrub against Do Not Call list
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Leave out rows whose phone number is on the DNC list
+                  </p>
+                </div>
+                <Switch
+                  id="scrubDnc"
+                  checked={importOptions.scrubDnc}
+                  onCheckedChange={(checked) =>
+                    setImportOptions({ ...importOptions, scrubDnc: checked })
+                  }
+                />
               </div>
             </div>
           )}
@@ -512,33 +672,33 @@ export default function ImportLeadsPage() {
                 <div className="grid gap-2 text-sm">
                   <div className="flex justify-between">
                     <span className="font-medium">File:</span>
-                    <span>{fileName}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="font-medium">Total Records:</span>
-                    <span>{mockPreviewData.length.toLocaleString()}</span>
+                    <span>{leadImport?.fileName}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="font-medium">Target List:</span>
-                    <span>
-                      {importOptions.createNewList
-                        ? importOptions.newListName
-                        : mockLeadLists.find(
-                            (l) => l.id === importOptions.targetList
-                          )?.name}
-                    </span>
+                    <span>{targetListName}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="font-medium">Duplicate Handling:</span>
                     <span className="capitalize">
-                      {importOptions.duplicateHandling}
+                      {importOptions.duplicatePolicy}
+                      {importOptions.duplicatePolicy !== "allow" &&
+                        (importOptions.duplicateScope === "list"
+                          ? " (this list)"
+                          : " (all lists)")}
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="font-medium">DNC Scrub:</span>
+                    <span>{importOptions.scrubDnc ? "On" : "Off"}</span>
+                  </div>
                 </div>
               </div>
 
               <div>
-                <h3 className="mb-2 font-medium">Preview (First 3 records)</h3>
+                <h3 className="mb-2 font-medium">
+                  Preview (First {sampleRows.length} records)
+                </h3>
                 <div className="overflow-auto rounded-md border">
                   <Table>
                     <TableHeader>
@@ -547,19 +707,23 @@ export default function ImportLeadsPage() {
                         <TableHead>Email</TableHead>
                         <TableHead>Phone</TableHead>
                         <TableHead>Company</TableHead>
-                        <TableHead>Position</TableHead>
+                        <TableHead>Custom Fields</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {mockPreviewData.map((lead, index) => (
+                      {sampleRows.map((row, index) => (
                         <TableRow key={index}>
                           <TableCell>
-                            {lead.firstName} {lead.lastName}
+                            {previewValue(row, "firstName")} {previewValue(row, "lastName")}
+                          </TableCell>
+                          <TableCell>{previewValue(row, "email")}</TableCell>
+                          <TableCell>{previewValue(row, "phoneNumber")}</TableCell>
+                          <TableCell>{previewValue(row, "company")}</TableCell>
+                          <TableCell>
+                            {mappedTargets.filter((target) =>
+                              target.startsWith(CUSTOM_FIELD_PREFIX)
+                            ).length}
                           </TableCell>
-                          <TableCell>{lead.email}</TableCell>
-                          <TableCell>{lead.phone}</TableCell>
-                          <TableCell>{lead.company}</TableCell>
-                          <TableCell>{lead.position}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -570,8 +734,9 @@ export default function ImportLeadsPage() {
               <div className="flex items-start gap-2 rounded-md bg-blue-50 p-4 text-sm text-blue-900">
                 <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />
                 <p>
-                  Please review the preview data carefully. Click "Start Import"
-                  to begin the import process.
+                  Phone numbers are checked and normalized as the file is
+                  imported. Rows that cannot be imported are listed in a report
+                  you can download at the end.
                 </p>
               </div>
             </div>
@@ -580,7 +745,7 @@ export default function ImportLeadsPage() {
           {/* Step 5: Import Progress */}
           {currentStep === 5 && (
             <div className="space-y-6">
-              {!importComplete ? (
+              {!importComplete && !importFailed ? (
                 <>
                   <div className="flex flex-col items-center gap-4 py-8">
                     <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
@@ -588,29 +753,40 @@ export default function ImportLeadsPage() {
                     </div>
                     <div className="text-center">
                       <h3 className="font-medium">
-                        {isImporting ? "Importing leads..." : "Ready to import"}
+                        {started ? "Importing leads..." : "Ready to import"}
                       </h3>
                       <p className="mt-1 text-sm text-muted-foreground">
-                        {isImporting
-                          ? "Please wait while we process your file"
+                        {started
+                          ? "You can leave this page; the import keeps running"
                           : "Click Start Import to begin"}
                       </p>
                     </div>
                   </div>
 
-                  {isImporting && (
+                  {started && (
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span>Progress</span>
-                        <span className="font-medium">{importProgress}%</span>
+                        <span>
+                          {(progress?.processedRows ?? 0).toLocaleString()} rows processed
+                        </span>
+                        <span className="font-medium">{progress?.percent ?? 0}%</span>
                       </div>
-                      <Progress value={importProgress} />
+                      <Progress value={progress?.percent ?? 0} />
                     </div>
                   )}
 
-                  {!isImporting && (
-                    <Button onClick={handleImport} className="w-full" size="lg">
-                      <Upload className="mr-2 h-4 w-4" />
+                  {!started && (
+                    <Button
+                      onClick={handleImport}
+                      className="w-full"
+                      size="lg"
+                      disabled={startLeadImport.isPending}
+                    >
+                      {startLeadImport.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Upload className="mr-2 h-4 w-4" />
+                      )}
                       Start Import
                     </Button>
                   )}
@@ -618,13 +794,25 @@ export default function ImportLeadsPage() {
               ) : (
                 <div className="space-y-6">
                   <div className="flex flex-col items-center gap-4 py-8">
-                    <div className="flex h-16 w-16 items-center justify-center rounded-full bg-green-100">
-                      <Check className="h-8 w-8 text-green-600" />
+                    <div
+                      className={`flex h-16 w-16 items-center justify-center rounded-full ${
+                        importFailed ? "bg-red-100" : "bg-green-100"
+                      }`}
+                    >
+                      {importFailed ? (
+                        <AlertCircle className="h-8 w-8 text-red-600" />
+                      ) : (
+                        <Check className="h-8 w-8 text-green-600" />
+                      )}
                     </div>
                     <div className="text-center">
-                      <h3 className="font-medium">Import Complete!</h3>
+                      <h3 className="font-medium">
+                        {importFailed ? "Import Failed" : "Import Complete!"}
+                      </h3>
                       <p className="mt-1 text-sm text-muted-foreground">
-                        Successfully imported {mockPreviewData.length} leads
+                        {importFailed
+                          ? progress?.error
+                          : `Successfully imported ${progress?.importedRows.toLocaleString()} leads`}
                       </p>
                     </div>
                   </div>
@@ -635,39 +823,55 @@ export default function ImportLeadsPage() {
                     </CardHeader>
                     <CardContent className="space-y-2">
                       <div className="flex justify-between">
-                        <span className="text-sm">Total Records:</span>
-                        <Badge variant="outline">
-                          {mockPreviewData.length}
-                        </Badge>
+                        <span className="text-sm">Rows Processed:</span>
+                        <Badge variant="outline">{progress?.processedRows}</Badge>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm">Successfully Imported:</span>
-                        <Badge className="bg-green-500">
-                          {mockPreviewData.length}
-                        </Badge>
+                        <Badge className="bg-green-500">{progress?.importedRows}</Badge>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Existing Leads Updated:</span>
+                        <Badge variant="outline">{progress?.updatedRows}</Badge>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm">Duplicates Skipped:</span>
-                        <Badge variant="outline">0</Badge>
+                        <Badge variant="outline">{progress?.duplicateRows}</Badge>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">On DNC List:</span>
+                        <Badge variant="outline">{progress?.dncRows}</Badge>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm">Errors:</span>
-                        <Badge variant="outline">0</Badge>
+                        <Badge variant="outline">{progress?.errorRows}</Badge>
                       </div>
                     </CardContent>
                   </Card>
 
+                  {rejectedRows > 0 && (
+                    <a href={leadImportsApi.getErrorReportUrl(leadImport.id)} download>
+                      <Button variant="outline" className="w-full">
+                        <Download className="mr-2 h-4 w-4" />
+                        Download Error Report
+                      </Button>
+                    </a>
+                  )}
+
                   <div className="flex gap-2">
                     <Link href="/leads" className="flex-1">
                       <Button className="w-full" size="lg">
                         View Leads
                       </Button>
                     </Link>
-                    <Link href="/leads/import" className="flex-1">
-                      <Button variant="outline" className="w-full" size="lg">
-                        Import More
-                      </Button>
-                    </Link>
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      size="lg"
+                      onClick={resetImport}
+                    >
+                      Import More
+                    </Button>
                   </div>
                 </div>
               )}
@@ -691,12 +895,15 @@ export default function ImportLeadsPage() {
           <Button
             onClick={nextStep}
             disabled={
-              (currentStep === 1 && !fileName) ||
-              (currentStep === 3 &&
-                !importOptions.targetList &&
-                !importOptions.newListName)
+              (currentStep === 1 &&
+                (!file ||
+                  (!listOptions.targetList && !listOptions.newListName.trim()) ||
+                  uploadLeadImport.isPending ||
+                  createLeadList.isPending)) ||
+              (currentStep === 2 && (!phoneMapped || repeatedTargets.length > 0))
             }
           >
+            {uploadLeadImport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Next
             <ArrowRight className="ml-2 h-4 w-4" />
           </Button>
@@ -64,6 +64,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useLeadLists, useCreateLeadList, useDeleteLeadList } from "@/hooks/use-api";
 import { useToast } from "@/hooks/use-toast";
+import { ExportDialog } from "../components/export-dialog";
 
 const statusColors: Record<string, string> = {
   active: "bg-green-100 text-green-800 border-green-200",
@@ -116,6 +117,7 @@ export default function LeadListsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [exportList, setExportList] = useState<{ id: string; name: string } | null>(null);
   const [newList, setNewList] = useState({
     name: "",
     description: "",
@@ -393,7 +395,7 @@ export default function LeadListsPage() {
                             <Edit className="mr-2 h-4 w-4" />
                             Edit List
                           </DropdownMenuItem>
-                          <DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setExportList(list)}>
                             <Download className="mr-2 h-4 w-4" />
                             Export Leads
                           </DropdownMenuItem>
@@ -475,6 +477,13 @@ export default function LeadListsPage() {
           </CardContent>
         </Card>
       )}
+
+      <ExportDialog
+        open={!!exportList}
+        onOpenChange={(open) => !open && setExportList(null)}
+        filters={{ listId: exportList?.id }}
+        description={exportList ? `Export the leads in ${exportList.name}` : undefined}
+      />
     </div>
   );
 }
@@ -13,6 +13,7 @@ import {
   Edit,
   Trash2,
   Loader2,
+  Copy,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -51,8 +52,17 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLeads, useLeadLists, useDeleteLead, useUpdateLead } from "@/hooks/use-api";
 import { useToast } from "@/hooks/use-toast";
+import { ExportDialog } from "./components/export-dialog";
 
-type LeadStatus = "new" | "contacted" | "qualified" | "converted" | "not_interested" | "dnc";
+type LeadStatus =
+  | "new"
+  | "contacted"
+  | "qualified"
+  | "converted"
+  | "not_interested"
+  | "dnc"
+  | "invalid"
+  | "exhausted";
 
 const statusColors: Record<string, string> = {
   new: "bg-blue-100 text-blue-800 border-blue-200",
@@ -61,6 +71,8 @@ const statusColors: Record<string, string> = {
   converted: "bg-emerald-100 text-emerald-800 border-emerald-200",
   not_interested: "bg-gray-100 text-gray-800 border-gray-200",
   dnc: "bg-red-100 text-red-800 border-red-200",
+  invalid: "bg-orange-100 text-orange-800 border-orange-200",
+  exhausted: "bg-slate-100 text-slate-800 border-slate-200",
 };
 
 const statusLabels: Record<string, string> = {
@@ -70,6 +82,8 @@ const statusLabels: Record<string, string> = {
   converted: "Converted",
   not_interested: "Not Interested",
   dnc: "Do Not Call",
+  invalid: "Invalid",
+  exhausted: "Attempts Exhausted",
 };
 
 export default function LeadsPage() {
@@ -77,14 +91,17 @@ export default function LeadsPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [listFilter, setListFilter] = useState<string>("all");
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const { toast } = useToast();
 
-  // API hooks
-  const { data: leadsResponse, isLoading: leadsLoading } = useLeads({
+  const filters = {
     status: statusFilter !== "all" ? statusFilter : undefined,
     listId: listFilter !== "all" ? listFilter : undefined,
     search: searchQuery || undefined,
-  });
+  };
+
+  // API hooks
+  const { data: leadsResponse, isLoading: leadsLoading } = useLeads(filters);
 
   const { data: leadListsResponse } = useLeadLists();
   const deleteLead = useDeleteLead();
@@ -150,12 +167,22 @@ export default function LeadsPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Link href="/leads/duplicates">
+            <Button variant="outline">
+              <Copy className="mr-2 h-4 w-4" />
+              Duplicates
+            </Button>
+          </Link>
           <Link href="/leads/import">
             <Button variant="outline">
               <Upload className="mr-2 h-4 w-4" />
               Import
             </Button>
           </Link>
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
           <Button>
             <Plus className="mr-2 h-4 w-4" />
             Add Lead
@@ -228,6 +255,8 @@ export default function LeadsPage() {
                     <SelectItem value="converted">Converted</SelectItem>
                     <SelectItem value="not_interested">Not Interested</SelectItem>
                     <SelectItem value="dnc">Do Not Call</SelectItem>
+                    <SelectItem value="invalid">Invalid</SelectItem>
+                    <SelectItem value="exhausted">Attempts Exhausted</SelectItem>
                   </SelectContent>
                 </Select>
                 <Select value={listFilter} onValueChange={setListFilter}>
@@ -269,10 +298,6 @@ export default function LeadsPage() {
                       <SelectItem value="not_interested">Not Interested</SelectItem>
                     </SelectContent>
                   </Select>
-                  <Button variant="outline" size="sm">
-                    <Download className="mr-2 h-4 w-4" />
-                    Export
-                  </Button>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -442,6 +467,8 @@ export default function LeadsPage() {
           )}
         </CardContent>
       </Card>
+
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} filters={filters} />
     </div>
   );
 }
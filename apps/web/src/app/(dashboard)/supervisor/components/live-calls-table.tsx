@@ -18,11 +18,27 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Headphones, MessageSquare, Phone, MoreVertical, PhoneOff } from 'lucide-react';
+import {
+  Headphones,
+  HeadphoneOff,
+  MessageSquare,
+  Phone,
+  MoreVertical,
+  PhoneOff,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { MonitorMode } from '@/lib/api';
 
 export type CallStatus = 'talking' | 'hold' | 'wrap-up' | 'ringing';
 
+export interface CallMonitor {
+  sessionId: string;
+  supervisorId: string;
+  supervisorName: string;
+  mode: MonitorMode;
+  status: 'connecting' | 'active';
+}
+
 interface LiveCall {
   id: string;
   agentName: string;
@@ -31,13 +47,16 @@ interface LiveCall {
   queue: string;
   status: CallStatus;
   direction: 'inbound' | 'outbound';
+  monitors?: CallMonitor[];
 }
 
 interface LiveCallsTableProps {
   calls: LiveCall[];
+  currentUserId?: string;
   onListen?: (callId: string) => void;
   onWhisper?: (callId: string) => void;
   onBarge?: (callId: string) => void;
+  onStopMonitoring?: (sessionId: string) => void;
   onDisconnect?: (callId: string) => void;
 }
 
@@ -51,11 +70,22 @@ const statusConfig: Record<
   ringing: { label: 'Ringing', variant: 'default' },
 };
 
+const monitorLabels: Record<MonitorMode, string> = {
+  listen: 'Listening',
+  whisper: 'Whispering',
+  barge: 'Barged in',
+};
+
+// Only one supervisor at a time may whisper or barge on a call
+const isSpeaking = (monitor: CallMonitor) => monitor.mode !== 'listen';
+
 export function LiveCallsTable({
   calls,
+  currentUserId,
   onListen,
   onWhisper,
   onBarge,
+  onStopMonitoring,
   onDisconnect,
 }: LiveCallsTableProps) {
   if (calls.length === 0) {
@@ -81,12 +111,21 @@ export function LiveCallsTable({
             <TableHead>Direction</TableHead>
             <TableHead>Status</TableHead>
             <TableHead>Duration</TableHead>
+            <TableHead>Monitoring</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {calls.map((call) => {
             const status = statusConfig[call.status];
+            const monitors = call.monitors ?? [];
+            const mine = monitors.find((monitor) => monitor.supervisorId === currentUserId);
+            const speaker = monitors.find(
+              (monitor) => monitor !== mine && isSpeaking(monitor)
+            );
+            const speakingTitle = speaker
+              ? `${speaker.supervisorName} is already ${monitorLabels[speaker.mode].toLowerCase()}`
+              : undefined;
             return (
               <TableRow key={call.id}>
                 <TableCell className="font-medium">{call.agentName}</TableCell>
@@ -112,6 +151,25 @@ export function LiveCallsTable({
                     {call.duration}
                   </span>
                 </TableCell>
+                <TableCell>
+                  {monitors.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">-</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {monitors.map((monitor) => (
+                        <Badge
+                          key={monitor.sessionId}
+                          variant={isSpeaking(monitor) ? 'warning' : 'secondary'}
+                        >
+                          {monitor === mine ? 'You' : monitor.supervisorName}:{' '}
+                          {monitor.status === 'connecting'
+                            ? 'Connecting'
+                            : monitorLabels[monitor.mode]}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell className="text-right">
                   <div className="flex items-center justify-end gap-2">
                     {call.status === 'talking' && (
@@ -119,7 +177,7 @@ export function LiveCallsTable({
                         <Button
                           variant="ghost"
                           size="icon"
-                          className="h-8 w-8"
+                          className={cn('h-8 w-8', mine?.mode === 'listen' && 'bg-accent')}
                           onClick={() => onListen?.(call.id)}
                           title="Listen"
                         >
@@ -128,21 +186,34 @@ export function LiveCallsTable({
                         <Button
                           variant="ghost"
                           size="icon"
-                          className="h-8 w-8"
+                          className={cn('h-8 w-8', mine?.mode === 'whisper' && 'bg-accent')}
                           onClick={() => onWhisper?.(call.id)}
-                          title="Whisper"
+                          disabled={!!speaker}
+                          title={speakingTitle ?? 'Whisper'}
                         >
                           <MessageSquare className="h-4 w-4" />
                         </Button>
                         <Button
                           variant="ghost"
                           size="icon"
-                          className="h-8 w-8"
+                          className={cn('h-8 w-8', mine?.mode === 'barge' && 'bg-accent')}
                           onClick={() => onBarge?.(call.id)}
-                          title="Barge In"
+                          disabled={!!speaker}
+                          title={speakingTitle ?? 'Barge In'}
                         >
                           <Phone className="h-4 w-4" />
                         </Button>
+                        {mine && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => onStopMonitoring?.(mine.sessionId)}
+                            title="Stop Monitoring"
+                          >
+                            <HeadphoneOff className="h-4 w-4" />
+                          </Button>
+                        )}
                       </>
                     )}
                     <DropdownMenu>
@@ -160,14 +231,28 @@ export function LiveCallsTable({
                               <Headphones className="mr-2 h-4 w-4" />
                               Listen
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => onWhisper?.(call.id)}>
+                            <DropdownMenuItem
+                              onClick={() => onWhisper?.(call.id)}
+                              disabled={!!speaker}
+                            >
                               <MessageSquare className="mr-2 h-4 w-4" />
                               Whisper
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => onBarge?.(call.id)}>
+                            <DropdownMenuItem
+                              onClick={() => onBarge?.(call.id)}
+                              disabled={!!speaker}
+                            >
                               <Phone className="mr-2 h-4 w-4" />
                               Barge In
                             </DropdownMenuItem>
+                            {mine && (
+                              <DropdownMenuItem
+                                onClick={() => onStopMonitoring?.(mine.sessionId)}
+                              >
+                                <HeadphoneOff className="mr-2 h-4 w-4" />
+                                Stop Monitoring
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                           </>
                         )}
@@ -16,7 +16,7 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { AgentCard, AgentStatus } from './components/agent-card';
 import { QueueWidget } from './components/queue-widget';
-import { LiveCallsTable, CallStatus } from './components/live-calls-table';
+import { LiveCallsTable, CallStatus, CallMonitor } from './components/live-calls-table';
 import {
   Users,
   Phone,
@@ -30,7 +30,18 @@ import {
   AlertCircle,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useAgents, useQueues } from '@/hooks/use-api';
+import {
+  useAgents,
+  useQueues,
+  useLiveCalls,
+  useStartMonitoring,
+  useChangeMonitorMode,
+  useStopMonitoring,
+} from '@/hooks/use-api';
+import { useMonitorUpdates, useCallQualityAlerts } from '@/hooks/use-socket';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/stores/auth-store';
+import type { MonitorMode } from '@/lib/api';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 // Map agent states from API to component status
@@ -48,13 +59,29 @@ const mapAgentState = (state: string): AgentStatus => {
   return stateMap[state?.toLowerCase()] || 'offline';
 };
 
+// Elapsed time since the call was answered, as mm:ss
+const formatElapsed = (since: string | null, now: Date): string => {
+  if (!since) return '00:00';
+  const seconds = Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
 export default function SupervisorDashboard() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const { user } = useAuthStore();
+  const { toast } = useToast();
 
   // Fetch real data from API
   const { data: agentsData, isLoading: agentsLoading, error: agentsError } = useAgents();
   const { data: queuesData, isLoading: queuesLoading, error: queuesError } = useQueues();
+  const { data: liveCallsData, refetch: refetchLiveCalls } = useLiveCalls();
+  const startMonitoring = useStartMonitoring();
+  const changeMonitorMode = useChangeMonitorMode();
+  const stopMonitoring = useStopMonitoring();
+  const { lastUpdate } = useMonitorUpdates();
+  const { lastAlert } = useCallQualityAlerts();
 
   const agents = agentsData?.items || [];
   const queues = queuesData?.items || [];
@@ -87,18 +114,18 @@ export default function SupervisorDashboard() {
     trend: 'stable' as const,
   }));
 
-  // For active calls, we'll show agents that are on-call
-  const activeCalls = transformedAgents
-    .filter((a: any) => a.status === 'on-call')
-    .map((agent: any, index: number) => ({
-      id: `c${index + 1}`,
-      agentName: agent.name,
-      customerNumber: 'In progress',
-      duration: '00:00',
-      queue: 'General',
-      status: 'talking' as CallStatus,
-      direction: 'inbound' as const,
-    }));
+  // Connected calls, with the supervisors monitoring them
+  const activeCalls = (liveCallsData?.calls || []).map((call: any) => ({
+    id: call.id,
+    agentId: call.agentId,
+    agentName: call.agentName || 'Unknown Agent',
+    customerNumber: call.phoneNumber,
+    duration: formatElapsed(call.answerTime, currentTime),
+    queue: call.queueName || call.campaignName || '-',
+    status: 'talking' as CallStatus,
+    direction: call.direction,
+    monitors: call.monitors as CallMonitor[],
+  }));
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -107,6 +134,94 @@ export default function SupervisorDashboard() {
     return () => clearInterval(timer);
   }, []);
 
+  // Another supervisor joined or left a call, or our own session changed
+  useEffect(() => {
+    if (!lastUpdate) return;
+    refetchLiveCalls();
+
+    if (lastUpdate.supervisorId === user?.id && lastUpdate.status === 'failed') {
+      toast({
+        title: 'Monitoring failed',
+        description: lastUpdate.error || 'Could not connect your softphone to the call.',
+        variant: 'destructive',
+      });
+    }
+  }, [lastUpdate, refetchLiveCalls, user?.id, toast]);
+
+  // An agent's call quality dropped or recovered
+  useEffect(() => {
+    if (!lastAlert) return;
+
+    const agentName = lastAlert.agentName || 'An agent';
+
+    if (lastAlert.status === 'degraded') {
+      toast({
+        title: 'Poor call quality',
+        description:
+          `${agentName}'s call is at MOS ${lastAlert.mos.toFixed(1)} ` +
+          `(${lastAlert.packetLoss}% loss, ${lastAlert.jitter} ms jitter, ` +
+          `${lastAlert.roundTripTime} ms round trip).`,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Call quality recovered',
+        description: `${agentName}'s call is back at MOS ${lastAlert.mos.toFixed(1)}.`,
+      });
+    }
+  }, [lastAlert, toast]);
+
+  // Join a call, or switch mode if already in it
+  const monitorCall = async (callId: string, mode: MonitorMode) => {
+    const call = activeCalls.find((c: any) => c.id === callId);
+    const session = call?.monitors?.find((m: CallMonitor) => m.supervisorId === user?.id);
+
+    try {
+      if (session) {
+        await changeMonitorMode.mutateAsync({ sessionId: session.sessionId, mode });
+      } else {
+        await startMonitoring.mutateAsync({ callId, mode });
+        toast({
+          title: 'Joining call',
+          description: 'Answer your softphone to start monitoring.',
+        });
+      }
+    } catch (err) {
+      toast({
+        title: 'Failed to monitor call',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const monitorAgent = (agentId: string, mode: MonitorMode) => {
+    const call = activeCalls.find((c: any) => c.agentId === agentId);
+
+    if (!call) {
+      toast({
+        title: 'Agent is not on a call',
+        description: 'Only connected calls can be monitored.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    monitorCall(call.id, mode);
+  };
+
+  const handleStopMonitoring = async (sessionId: string) => {
+    try {
+      await stopMonitoring.mutateAsync(sessionId);
+    } catch (err) {
+      toast({
+        title: 'Failed to stop monitoring',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Calculate summary statistics
   const totalAgents = transformedAgents.length;
   const availableAgents = transformedAgents.filter((a: any) => a.status === 'available').length;
@@ -329,9 +444,9 @@ export default function SupervisorDashboard() {
                   <AgentCard
                     key={agent.id}
                     agent={agent}
-                    onListen={(id) => console.log('Listen to agent:', id)}
-                    onWhisper={(id) => console.log('Whisper to agent:', id)}
-                    onBarge={(id) => console.log('Barge in on agent:', id)}
+                    onListen={(id) => monitorAgent(id, 'listen')}
+                    onWhisper={(id) => monitorAgent(id, 'whisper')}
+                    onBarge={(id) => monitorAgent(id, 'barge')}
                   />
                 ))}
               </div>
@@ -359,9 +474,9 @@ export default function SupervisorDashboard() {
                 <AgentCard
                   key={agent.id}
                   agent={agent}
-                  onListen={(id) => console.log('Listen to agent:', id)}
-                  onWhisper={(id) => console.log('Whisper to agent:', id)}
-                  onBarge={(id) => console.log('Barge in on agent:', id)}
+                  onListen={(id) => monitorAgent(id, 'listen')}
+                  onWhisper={(id) => monitorAgent(id, 'whisper')}
+                  onBarge={(id) => monitorAgent(id, 'barge')}
                   onForceBreak={(id) => console.log('Force break agent:', id)}
                   onForceLogout={(id) => console.log('Force logout agent:', id)}
                 />
@@ -382,9 +497,11 @@ export default function SupervisorDashboard() {
           ) : (
             <LiveCallsTable
               calls={activeCalls}
-              onListen={(id) => console.log('Listen to call:', id)}
-              onWhisper={(id) => console.log('Whisper on call:', id)}
-              onBarge={(id) => console.log('Barge into call:', id)}
+              currentUserId={user?.id}
+              onListen={(id) => monitorCall(id, 'listen')}
+              onWhisper={(id) => monitorCall(id, 'whisper')}
+              onBarge={(id) => monitorCall(id, 'barge')}
+              onStopMonitoring={handleStopMonitoring}
               onDisconnect={(id) => console.log('Disconnect call:', id)}
             />
           )}
@@ -30,116 +30,185 @@ import {
   Phone,
   User,
   FileAudio,
-  Star,
+  HardDrive,
   MessageSquare,
   Filter,
+  Loader2,
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Scale,
 } from 'lucide-react';
+import {
+  useRecordings,
+  useRecordingStats,
+  useAgents,
+  useCampaigns,
+  useSetLegalHold,
+} from '@/hooks/use-api';
+import { recordingsApi } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface Recording {
+  id: string;
+  callId: string;
+  duration: number | null;
+  fileSize: number | null;
+  direction: 'inbound' | 'outbound';
+  phoneNumber: string;
+  startTime: string;
+  hasTranscript: boolean;
+  legalHold: boolean;
+  leadLegalHold: boolean | null;
+  agentId: string | null;
+  agentFirstName: string | null;
+  agentLastName: string | null;
+  leadFirstName: string | null;
+  leadLastName: string | null;
+  campaignName: string | null;
+  dispositionName: string | null;
+}
+
+interface Playback {
+  recording: Recording;
+  url: string;
+}
+
+const PAGE_SIZE = 25;
 
-// Mock data for recordings
-const mockRecordings = [
-  {
-    id: '1',
-    callId: 'CALL-2024-001234',
-    agent: 'Andy Agent',
-    customer: '+1 (555) 123-4567',
-    customerName: 'John Smith',
-    date: '2024-01-10',
-    time: '09:15:32',
-    duration: '04:23',
-    campaign: 'Sales Q1',
-    disposition: 'Sale',
-    quality: 4.5,
-    hasTranscript: true,
-  },
-  {
-    id: '2',
-    callId: 'CALL-2024-001235',
-    agent: 'Sarah Supervisor',
-    customer: '+1 (555) 234-5678',
-    customerName: 'Jane Doe',
-    date: '2024-01-10',
-    time: '09:32:15',
-    duration: '06:47',
-    campaign: 'Customer Service',
-    disposition: 'Resolved',
-    quality: 5.0,
-    hasTranscript: true,
-  },
-  {
-    id: '3',
-    callId: 'CALL-2024-001236',
-    agent: 'Andy Agent',
-    customer: '+1 (555) 345-6789',
-    customerName: 'Bob Wilson',
-    date: '2024-01-10',
-    time: '10:05:22',
-    duration: '02:15',
-    campaign: 'Sales Q1',
-    disposition: 'Callback',
-    quality: 3.5,
-    hasTranscript: false,
-  },
-  {
-    id: '4',
-    callId: 'CALL-2024-001237',
-    agent: 'Mike Manager',
-    customer: '+1 (555) 456-7890',
-    customerName: 'Alice Brown',
-    date: '2024-01-10',
-    time: '10:45:10',
-    duration: '08:32',
-    campaign: 'Support Tier 2',
-    disposition: 'Escalated',
-    quality: 4.0,
-    hasTranscript: true,
-  },
-  {
-    id: '5',
-    callId: 'CALL-2024-001238',
-    agent: 'Andy Agent',
-    customer: '+1 (555) 567-8901',
-    customerName: 'Charlie Davis',
-    date: '2024-01-09',
-    time: '14:20:45',
-    duration: '03:56',
-    campaign: 'Sales Q1',
-    disposition: 'No Answer',
-    quality: null,
-    hasTranscript: false,
-  },
-];
+const DATE_RANGES: Record<string, { label: string; days: number | null }> = {
+  '1d': { label: 'Today', days: 1 },
+  '7d': { label: 'Last 7 days', days: 7 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  all: { label: 'All time', days: null },
+};
+
+function formatDuration(seconds: number | null) {
+  if (seconds === null) return '--:--';
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function getName(first: string | null, last: string | null, fallback: string) {
+  const name = [first, last].filter(Boolean).join(' ');
+  return name || fallback;
+}
 
 export default function RecordingsPage() {
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedAgent, setSelectedAgent] = useState('all');
   const [selectedCampaign, setSelectedCampaign] = useState('all');
-  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState('7d');
+  const [page, setPage] = useState(1);
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
 
-  const filteredRecordings = mockRecordings.filter((recording) => {
-    const matchesSearch =
-      recording.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      recording.customer.includes(searchTerm) ||
-      recording.callId.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesAgent = selectedAgent === 'all' || recording.agent === selectedAgent;
-    const matchesCampaign = selectedCampaign === 'all' || recording.campaign === selectedCampaign;
-    return matchesSearch && matchesAgent && matchesCampaign;
+  const [from] = useState(() => {
+    const starts: Record<string, string> = {};
+    for (const [key, { days }] of Object.entries(DATE_RANGES)) {
+      if (days === null) continue;
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - (days - 1));
+      starts[key] = start.toISOString();
+    }
+    return starts;
   });
 
-  const renderQualityStars = (quality: number | null) => {
-    if (quality === null) return <span className="text-muted-foreground text-sm">N/A</span>;
-    return (
-      <div className="flex items-center gap-1">
-        {[1, 2, 3, 4, 5].map((star) => (
-          <Star
-            key={star}
-            className={`h-3 w-3 ${
-              star <= quality ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
-            }`}
-          />
-        ))}
-        <span className="text-sm ml-1">{quality.toFixed(1)}</span>
-      </div>
-    );
+  // Only send the filters that are set
+  const filters = {
+    page,
+    limit: PAGE_SIZE,
+    ...(searchTerm && { search: searchTerm }),
+    ...(selectedAgent !== 'all' && { agentId: selectedAgent }),
+    ...(selectedCampaign !== 'all' && { campaignId: selectedCampaign }),
+    ...(from[dateRange] && { from: from[dateRange] }),
+  };
+
+  const { data, isLoading, error } = useRecordings(filters);
+  const { data: stats } = useRecordingStats();
+  const { data: agentsData } = useAgents();
+  const { data: campaignsData } = useCampaigns();
+  const setLegalHold = useSetLegalHold();
+
+  const recordings: Recording[] = data?.recordings ?? [];
+  const pagination = data?.pagination;
+  const agents: any[] = agentsData?.agents ?? [];
+  const campaigns: any[] = campaignsData?.campaigns ?? [];
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  // Signed URLs expire within minutes, so fetch one per play or download
+  const fetchUrl = async (recording: Recording, download: boolean) => {
+    setLoadingId(recording.callId);
+    try {
+      const response = await recordingsApi.getUrl(recording.callId, download);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Recording unavailable');
+      }
+      return response.data.url;
+    } catch (err) {
+      toast({
+        title: 'Recording unavailable',
+        description: err instanceof Error ? err.message : 'Could not load the recording.',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const togglePlay = async (recording: Recording) => {
+    if (playback?.recording.callId === recording.callId) {
+      setPlayback(null);
+      return;
+    }
+
+    const url = await fetchUrl(recording, false);
+    if (url) {
+      setPlayback({ recording, url });
+    }
+  };
+
+  // Held recordings and transcripts are skipped by retention purges
+  const toggleLegalHold = async (recording: Recording) => {
+    try {
+      await setLegalHold.mutateAsync({
+        resource: 'calls',
+        id: recording.callId,
+        legalHold: !recording.legalHold,
+      });
+      toast({
+        title: recording.legalHold ? 'Legal hold released' : 'Legal hold placed',
+        description: recording.legalHold
+          ? 'This recording will be purged under the retention policy.'
+          : 'This recording will be kept until the hold is released.',
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to update legal hold',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+    const download = async (recording: Recording) => {
+    const url = await fetchUrl(recording, true);
+    if (url) {
+      window.location.assign(url);
+    }
   };
 
   return (
@@ -148,13 +217,7 @@ export default function RecordingsPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">Call Recordings</h1>
-          <p className="text-muted-foreground">Search, play, and analyze call recordings</p>
-        </div>
-        <div className="flex gap-2">
-          <Button variant="outline">
-            <Download className="h-4 w-4 mr-2" />
-            Export Selected
-          </Button>
+          <p className="text-muted-foreground">Search, play, and download call recordings</p>
         </div>
       </div>
 
@@ -166,38 +229,40 @@ export default function RecordingsPage() {
             <FileAudio className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">1,234</div>
+            <div className="text-2xl font-bold">{(stats?.thisMonth ?? 0).toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">This month</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Storage Used</CardTitle>
-            <FileAudio className="h-4 w-4 text-muted-foreground" />
+            <HardDrive className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">45.2 GB</div>
-            <p className="text-xs text-muted-foreground">Of 100 GB</p>
+            <div className="text-2xl font-bold">{formatBytes(stats?.storageBytes ?? 0)}</div>
+            <p className="text-xs text-muted-foreground">
+              {(stats?.total ?? 0).toLocaleString()} recordings in total
+            </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Avg Quality Score</CardTitle>
-            <Star className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Avg Duration</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">4.2</div>
-            <p className="text-xs text-muted-foreground">Out of 5.0</p>
+            <div className="text-2xl font-bold">{formatDuration(stats?.avgDuration ?? 0)}</div>
+            <p className="text-xs text-muted-foreground">Per recording</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Transcribed</CardTitle>
-            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Processing</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">89%</div>
-            <p className="text-xs text-muted-foreground">Auto-transcription rate</p>
+            <div className="text-2xl font-bold">{stats?.processing ?? 0}</div>
+            <p className="text-xs text-muted-foreground">{stats?.failed ?? 0} failed to upload</p>
           </CardContent>
         </Card>
       </div>
@@ -220,45 +285,58 @@ export default function RecordingsPage() {
                   id="search"
                   placeholder="Call ID, customer, phone..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => updateFilter(setSearchTerm)(e.target.value)}
                   className="pl-9"
                 />
               </div>
             </div>
             <div className="space-y-2">
               <Label>Agent</Label>
-              <Select value={selectedAgent} onValueChange={setSelectedAgent}>
+              <Select value={selectedAgent} onValueChange={updateFilter(setSelectedAgent)}>
                 <SelectTrigger>
                   <SelectValue placeholder="All agents" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Agents</SelectItem>
-                  <SelectItem value="Andy Agent">Andy Agent</SelectItem>
-                  <SelectItem value="Sarah Supervisor">Sarah Supervisor</SelectItem>
-                  <SelectItem value="Mike Manager">Mike Manager</SelectItem>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.firstName} {agent.lastName}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div className="space-y-2">
               <Label>Campaign</Label>
-              <Select value={selectedCampaign} onValueChange={setSelectedCampaign}>
+              <Select value={selectedCampaign} onValueChange={updateFilter(setSelectedCampaign)}>
                 <SelectTrigger>
                   <SelectValue placeholder="All campaigns" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Campaigns</SelectItem>
-                  <SelectItem value="Sales Q1">Sales Q1</SelectItem>
-                  <SelectItem value="Customer Service">Customer Service</SelectItem>
-                  <SelectItem value="Support Tier 2">Support Tier 2</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div className="space-y-2">
               <Label>Date Range</Label>
-              <Button variant="outline" className="w-full justify-start">
-                <Calendar className="h-4 w-4 mr-2" />
-                Last 7 days
-              </Button>
+              <Select value={dateRange} onValueChange={updateFilter(setDateRange)}>
+                <SelectTrigger>
+                  <Calendar className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DATE_RANGES).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardContent>
@@ -268,135 +346,205 @@ export default function RecordingsPage() {
       <Card>
         <CardHeader>
           <CardTitle>Recordings</CardTitle>
-          <CardDescription>
-            {filteredRecordings.length} recordings found
-          </CardDescription>
+          <CardDescription>{pagination?.total ?? 0} recordings found</CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[50px]">Play</TableHead>
-                <TableHead>Call ID</TableHead>
-                <TableHead>Agent</TableHead>
-                <TableHead>Customer</TableHead>
-                <TableHead>Date/Time</TableHead>
-                <TableHead>Duration</TableHead>
-                <TableHead>Campaign</TableHead>
-                <TableHead>Disposition</TableHead>
-                <TableHead>Quality</TableHead>
-                <TableHead className="w-[100px]">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredRecordings.map((recording) => (
-                <TableRow key={recording.id}>
-                  <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() =>
-                        setPlayingId(playingId === recording.id ? null : recording.id)
-                      }
-                    >
-                      {playingId === recording.id ? (
-                        <Pause className="h-4 w-4" />
-                      ) : (
-                        <Play className="h-4 w-4" />
-                      )}
-                    </Button>
-                  </TableCell>
-                  <TableCell className="font-mono text-sm">{recording.callId}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <User className="h-4 w-4 text-muted-foreground" />
-                      {recording.agent}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium">{recording.customerName}</div>
-                      <div className="text-sm text-muted-foreground flex items-center gap-1">
-                        <Phone className="h-3 w-3" />
-                        {recording.customer}
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-1">
-                      <Calendar className="h-3 w-3 text-muted-foreground" />
-                      {recording.date}
-                    </div>
-                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                      <Clock className="h-3 w-3" />
-                      {recording.time}
-                    </div>
-                  </TableCell>
-                  <TableCell>{recording.duration}</TableCell>
-                  <TableCell>
-                    <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-1 text-xs font-medium text-blue-700">
-                      {recording.campaign}
-                    </span>
-                  </TableCell>
-                  <TableCell>
-                    <span
-                      className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${
-                        recording.disposition === 'Sale'
-                          ? 'bg-green-100 text-green-700'
-                          : recording.disposition === 'Resolved'
-                          ? 'bg-green-100 text-green-700'
-                          : recording.disposition === 'Callback'
-                          ? 'bg-yellow-100 text-yellow-700'
-                          : recording.disposition === 'Escalated'
-                          ? 'bg-orange-100 text-orange-700'
-                          : 'bg-gray-100 text-gray-700'
-                      }`}
-                    >
-                      {recording.disposition}
-                    </span>
-                  </TableCell>
-                  <TableCell>{renderQualityStars(recording.quality)}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-1">
-                      <Button variant="ghost" size="icon" title="Download">
-                        <Download className="h-4 w-4" />
-                      </Button>
-                      {recording.hasTranscript && (
-                        <Button variant="ghost" size="icon" title="View Transcript">
-                          <MessageSquare className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </div>
-                  </TableCell>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center text-sm text-destructive">
+              {error.message || 'Failed to load recordings.'}
+            </div>
+          ) : recordings.length === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              No recordings match these filters.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[50px]">Play</TableHead>
+                  <TableHead>Call ID</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Date/Time</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Disposition</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {recordings.map((recording) => {
+                  const startTime = new Date(recording.startTime);
+                  const isPlaying = playback?.recording.callId === recording.callId;
+
+                  return (
+                    <TableRow key={recording.id}>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={loadingId === recording.callId}
+                          onClick={() => togglePlay(recording)}
+                        >
+                          {loadingId === recording.callId ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : isPlaying ? (
+                            <Pause className="h-4 w-4" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm" title={recording.callId}>
+                        {recording.callId.slice(0, 8)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                          {getName(recording.agentFirstName, recording.agentLastName, 'Unassigned')}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>
+                          <div className="font-medium">
+                            {getName(recording.leadFirstName, recording.leadLastName, 'Unknown')}
+                          </div>
+                          <div className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Phone className="h-3 w-3" />
+                            {recording.phoneNumber}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3 text-muted-foreground" />
+                          {startTime.toLocaleDateString()}
+                        </div>
+                        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {startTime.toLocaleTimeString()}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDuration(recording.duration)}</TableCell>
+                      <TableCell>
+                        {recording.campaignName ? (
+                          <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-1 text-xs font-medium text-blue-700">
+                            {recording.campaignName}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground capitalize">
+                            {recording.direction}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {recording.dispositionName ? (
+                          <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-1 text-xs font-medium text-gray-700">
+                            {recording.dispositionName}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">N/A</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Download"
+                            disabled={loadingId === recording.callId}
+                            onClick={() => download(recording)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={
+                              recording.leadLegalHold
+                                ? 'Customer is on legal hold'
+                                : recording.legalHold
+                                  ? 'Release legal hold'
+                                  : 'Place legal hold'
+                            }
+                            disabled={!!recording.leadLegalHold || setLegalHold.isPending}
+                            onClick={() => toggleLegalHold(recording)}
+                          >
+                            <Scale
+                              className={`h-4 w-4 ${
+                                recording.legalHold || recording.leadLegalHold
+                                  ? 'text-amber-600'
+                                  : ''
+                              }`}
+                            />
+                          </Button>
+                          {recording.hasTranscript && (
+                            <Button variant="ghost" size="icon" title="View Transcript">
+                              <MessageSquare className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={page >= pagination.totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Audio Player (when playing) */}
-      {playingId && (
+      {playback && (
         <Card className="fixed bottom-4 left-1/2 -translate-x-1/2 w-[600px] shadow-lg">
           <CardContent className="p-4">
             <div className="flex items-center gap-4">
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={() => setPlayingId(null)}
-              >
+              <Button variant="outline" size="icon" onClick={() => setPlayback(null)}>
                 <Pause className="h-4 w-4" />
               </Button>
-              <div className="flex-1">
-                <div className="flex items-center justify-between text-sm mb-1">
-                  <span>Call ID: {mockRecordings.find((r) => r.id === playingId)?.callId}</span>
-                  <span>00:45 / {mockRecordings.find((r) => r.id === playingId)?.duration}</span>
-                </div>
-                <div className="h-2 bg-secondary rounded-full">
-                  <div className="h-full w-1/4 bg-primary rounded-full" />
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-mono">Call ID: {playback.recording.callId.slice(0, 8)}</span>
+                  <span>{formatDuration(playback.recording.duration)}</span>
                 </div>
+                <audio
+                  key={playback.url}
+                  src={playback.url}
+                  controls
+                  autoPlay
+                  className="w-full h-8"
+                  onEnded={() => setPlayback(null)}
+                />
               </div>
-              <Button variant="ghost" size="icon">
+              <Button variant="ghost" size="icon" onClick={() => download(playback.recording)}>
                 <Download className="h-4 w-4" />
               </Button>
             </div>
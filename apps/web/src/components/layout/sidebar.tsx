@@ -23,6 +23,10 @@ import {
   Mic,
   Bot,
   Workflow,
+  Network,
+  PhoneOutgoing,
+  Repeat,
+  Tags,
 } from 'lucide-react';
 import type { UserRole } from '@nexusdialer/types';
 
@@ -91,6 +95,18 @@ const navItems: NavItem[] = [
     icon: FileText,
     roles: ['supervisor'],
   },
+  {
+    title: 'Dialing Rules',
+    href: '/campaigns/rules',
+    icon: Repeat,
+    roles: ['supervisor'],
+  },
+  {
+    title: 'Dispositions',
+    href: '/campaigns/dispositions',
+    icon: Tags,
+    roles: ['supervisor'],
+  },
   {
     title: 'Reports',
     href: '/reports',
@@ -135,6 +151,18 @@ const navItems: NavItem[] = [
     icon: FileText,
     roles: ['admin'],
   },
+  {
+    title: 'Dialing Rules',
+    href: '/campaigns/rules',
+    icon: Repeat,
+    roles: ['admin'],
+  },
+  {
+    title: 'Dispositions',
+    href: '/campaigns/dispositions',
+    icon: Tags,
+    roles: ['admin'],
+  },
   {
     title: 'Queues',
     href: '/queues',
@@ -147,6 +175,18 @@ const navItems: NavItem[] = [
     icon: Workflow,
     roles: ['admin'],
   },
+  {
+    title: 'SIP Trunks',
+    href: '/admin/trunks',
+    icon: Network,
+    roles: ['admin'],
+  },
+  {
+    title: 'Caller IDs',
+    href: '/admin/caller-ids',
+    icon: PhoneOutgoing,
+    roles: ['admin'],
+  },
   {
     title: 'DNC Lists',
     href: '/dnc',
@@ -6,14 +6,32 @@ import {
   campaignsApi,
   leadsApi,
   leadListsApi,
+  leadImportsApi,
+  leadExportsApi,
   queuesApi,
   teamsApi,
   skillsApi,
   dispositionsApi,
+  callsApi,
   dncApi,
   agentsApi,
   tenantsApi,
   scriptsApi,
+  recordingsApi,
+  retentionApi,
+  monitoringApi,
+  trunksApi,
+  callerIdsApi,
+  dialingRulesApi,
+  type MonitorMode,
+  type TrunkInput,
+  type CallerIdInput,
+  type CallerIdPoolInput,
+  type StartLeadImportInput,
+  type CreateLeadExportInput,
+  type DialingRuleInput,
+  type DispositionCallInput,
+  type MergeLeadsInput,
 } from '@/lib/api';
 
 // Query Keys
@@ -24,8 +42,14 @@ export const queryKeys = {
   campaign: (id: string) => ['campaigns', id] as const,
   leads: ['leads'] as const,
   lead: (id: string) => ['leads', id] as const,
+  leadHistory: (id: string) => ['leads', id, 'history'] as const,
+  leadDuplicates: ['leads', 'duplicates'] as const,
   leadLists: ['leadLists'] as const,
   leadList: (id: string) => ['leadLists', id] as const,
+  leadImport: (id: string) => ['leadImports', id] as const,
+  leadImportMappings: ['leadImports', 'mappings'] as const,
+  leadExports: ['leadExports'] as const,
+  leadExport: (id: string) => ['leadExports', id] as const,
   queues: ['queues'] as const,
   queue: (id: string) => ['queues', id] as const,
   queueStats: (id: string) => ['queues', id, 'stats'] as const,
@@ -41,6 +65,20 @@ export const queryKeys = {
   agent: (id: string) => ['agents', id] as const,
   agentState: (id: string) => ['agents', id, 'state'] as const,
   agentDashboard: ['agents', 'dashboard'] as const,
+  myCallbacks: ['agents', 'me', 'callbacks'] as const,
+  recordings: ['recordings'] as const,
+  recordingStats: ['recordings', 'stats'] as const,
+  retention: ['retention'] as const,
+  retentionAudit: ['retention', 'audit'] as const,
+  liveCalls: ['monitoring', 'calls'] as const,
+  trunks: ['trunks'] as const,
+  trunkStats: (days: number) => ['trunks', 'stats', days] as const,
+  callerIds: ['callerIds'] as const,
+  callerIdPools: ['callerIds', 'pools'] as const,
+  callerIdStats: (hours: number) => ['callerIds', 'stats', hours] as const,
+  callerIdReputation: (id: string) => ['callerIds', id, 'reputation'] as const,
+  dialingRules: ['dialingRules'] as const,
+  dialingRulesDryRun: ['dialingRules', 'dryRun'] as const,
   tenant: ['tenant'] as const,
   tenantStats: ['tenant', 'stats'] as const,
   scripts: ['scripts'] as const,
@@ -282,6 +320,20 @@ export function useLead(id: string) {
   });
 }
 
+export function useLeadHistory(id: string, eventType?: string) {
+  return useQuery({
+    queryKey: [...queryKeys.leadHistory(id), eventType],
+    queryFn: async () => {
+      const response = await leadsApi.history(id, eventType);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch lead history');
+      }
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
 export function useCreateLead() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -351,6 +403,169 @@ export function useImportLeads() {
   });
 }
 
+export function useLeadDuplicates(params?: Parameters<typeof leadsApi.duplicates>[0]) {
+  return useQuery({
+    queryKey: [...queryKeys.leadDuplicates, params],
+    queryFn: async () => {
+      const response = await leadsApi.duplicates(params);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to find duplicate leads');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useMergeLeads() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: MergeLeadsInput) => {
+      const response = await leadsApi.merge(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to merge leads');
+      }
+      return response.data;
+    },
+    onSuccess: (_, { duplicateIds }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.leads });
+      queryClient.invalidateQueries({ queryKey: queryKeys.leadLists });
+      for (const id of duplicateIds) {
+        queryClient.removeQueries({ queryKey: queryKeys.lead(id) });
+      }
+    },
+  });
+}
+
+// ============ LEAD IMPORTS ============
+export function useLeadImport(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.leadImport(id ?? ''),
+    queryFn: async () => {
+      const response = await leadImportsApi.getById(id!);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch import');
+      }
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useLeadImportMappings() {
+  return useQuery({
+    queryKey: queryKeys.leadImportMappings,
+    queryFn: async () => {
+      const response = await leadImportsApi.listMappings();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch import mappings');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useUploadLeadImport() {
+  return useMutation({
+    mutationFn: async ({ listId, file }: { listId: string; file: File }) => {
+      const response = await leadImportsApi.upload(listId, file);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to upload file');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useStartLeadImport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: StartLeadImportInput }) => {
+      const response = await leadImportsApi.start(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to start import');
+      }
+      return response.data;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.leadImport(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.leadImportMappings });
+    },
+  });
+}
+
+export function useDeleteLeadImport() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await leadImportsApi.delete(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete import');
+      }
+      return response.data;
+    },
+  });
+}
+
+// ============ LEAD EXPORTS ============
+export function useLeadExports() {
+  return useQuery({
+    queryKey: queryKeys.leadExports,
+    queryFn: async () => {
+      const response = await leadExportsApi.list();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch exports');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useLeadExport(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.leadExport(id ?? ''),
+    queryFn: async () => {
+      const response = await leadExportsApi.getById(id!);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch export');
+      }
+      return response.data;
+    },
+    enabled: !!id,
+    // Poll until the export has finished
+    refetchInterval: (query) => {
+      const status = query.state.data?.export?.status;
+      return status === 'completed' || status === 'failed' ? false : 2000;
+    },
+  });
+}
+
+export function useCreateLeadExport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CreateLeadExportInput) => {
+      const response = await leadExportsApi.create(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to start export');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.leadExports });
+    },
+  });
+}
+
+export function useLeadExportDownload() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await leadExportsApi.getDownloadUrl(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to get download link');
+      }
+      return response.data;
+    },
+  });
+}
+
 // ============ LEAD LISTS ============
 export function useLeadLists(params?: Parameters<typeof leadListsApi.list>[0]) {
   return useQuery({
@@ -791,6 +1006,25 @@ export function useReorderDispositions() {
   });
 }
 
+// ============ CALLS ============
+export function useDispositionCall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: DispositionCallInput }) => {
+      const response = await callsApi.disposition(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to save disposition');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.leads });
+      queryClient.invalidateQueries({ queryKey: queryKeys.myCallbacks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dnc });
+    },
+  });
+}
+
 // ============ DNC ============
 export function useDncList(params?: Parameters<typeof dncApi.list>[0]) {
   return useQuery({
@@ -959,6 +1193,533 @@ export function useAgentDashboard() {
   });
 }
 
+export function useMyCallbacks(params?: Parameters<typeof agentsApi.myCallbacks>[0]) {
+  return useQuery({
+    queryKey: [...queryKeys.myCallbacks, params],
+    queryFn: async () => {
+      const response = await agentsApi.myCallbacks(params);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch callbacks');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useRescheduleCallback() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      scheduledAt,
+      notes,
+    }: {
+      id: string;
+      scheduledAt: string;
+      notes?: string;
+    }) => {
+      const response = await agentsApi.rescheduleCallback(id, scheduledAt, notes);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to reschedule callback');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.myCallbacks });
+    },
+  });
+}
+
+// ============ RECORDINGS ============
+export function useRecordings(params?: Parameters<typeof recordingsApi.list>[0]) {
+  return useQuery({
+    queryKey: [...queryKeys.recordings, params],
+    queryFn: async () => {
+      const response = await recordingsApi.list(params);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch recordings');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useRecordingStats() {
+  return useQuery({
+    queryKey: queryKeys.recordingStats,
+    queryFn: async () => {
+      const response = await recordingsApi.getStats();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch recording stats');
+      }
+      return response.data;
+    },
+  });
+}
+
+// ============ RETENTION ============
+export function useRetention() {
+  return useQuery({
+    queryKey: queryKeys.retention,
+    queryFn: async () => {
+      const response = await retentionApi.get();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch retention policy');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useUpdateRetention() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: Parameters<typeof retentionApi.update>[0]) => {
+      const response = await retentionApi.update(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update retention policy');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retention });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tenant });
+    },
+  });
+}
+
+export function useRetentionAudit(params?: Parameters<typeof retentionApi.getAudit>[0]) {
+  return useQuery({
+    queryKey: [...queryKeys.retentionAudit, params],
+    queryFn: async () => {
+      const response = await retentionApi.getAudit(params);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch audit log');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useSetLegalHold() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      resource,
+      id,
+      ...data
+    }: {
+      resource: 'calls' | 'leads';
+      id: string;
+      legalHold: boolean;
+      reason?: string;
+    }) => {
+      const response = await retentionApi.setLegalHold(resource, id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update legal hold');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retention });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recordings });
+    },
+  });
+}
+
+// ============ MONITORING ============
+export function useLiveCalls() {
+  return useQuery({
+    queryKey: queryKeys.liveCalls,
+    queryFn: async () => {
+      const response = await monitoringApi.getCalls();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch live calls');
+      }
+      return response.data;
+    },
+    refetchInterval: 5000, // Real-time calls
+  });
+}
+
+export function useStartMonitoring() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ callId, mode }: { callId: string; mode: MonitorMode }) => {
+      const response = await monitoringApi.start(callId, mode);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to monitor call');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.liveCalls });
+    },
+  });
+}
+
+export function useChangeMonitorMode() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, mode }: { sessionId: string; mode: MonitorMode }) => {
+      const response = await monitoringApi.changeMode(sessionId, mode);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to switch mode');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.liveCalls });
+    },
+  });
+}
+
+export function useStopMonitoring() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await monitoringApi.stop(sessionId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to stop monitoring');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.liveCalls });
+    },
+  });
+}
+
+// ============ TRUNKS ============
+export function useTrunks() {
+  return useQuery({
+    queryKey: queryKeys.trunks,
+    queryFn: async () => {
+      const response = await trunksApi.list();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch trunks');
+      }
+      return response.data;
+    },
+    refetchInterval: 10000, // Channels in use
+  });
+}
+
+export function useTrunkStats(days = 7) {
+  return useQuery({
+    queryKey: queryKeys.trunkStats(days),
+    queryFn: async () => {
+      const response = await trunksApi.getStats(days);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch trunk stats');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useCreateTrunk() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: TrunkInput) => {
+      const response = await trunksApi.create(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create trunk');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trunks });
+    },
+  });
+}
+
+export function useUpdateTrunk() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<TrunkInput> }) => {
+      const response = await trunksApi.update(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update trunk');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trunks });
+    },
+  });
+}
+
+export function useDeleteTrunk() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await trunksApi.delete(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete trunk');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trunks });
+    },
+  });
+}
+
+// ============ CALLER IDS ============
+export function useCallerIdPools() {
+  return useQuery({
+    queryKey: queryKeys.callerIdPools,
+    queryFn: async () => {
+      const response = await callerIdsApi.listPools();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch caller ID pools');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useCallerIds() {
+  return useQuery({
+    queryKey: queryKeys.callerIds,
+    queryFn: async () => {
+      const response = await callerIdsApi.list();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch caller IDs');
+      }
+      return response.data;
+    },
+    refetchInterval: 30000, // Calls today and quarantines
+  });
+}
+
+export function useCallerIdStats(hours = 24) {
+  return useQuery({
+    queryKey: queryKeys.callerIdStats(hours),
+    queryFn: async () => {
+      const response = await callerIdsApi.getStats(hours);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch caller ID stats');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useCallerIdReputation(id: string | null, days = 30) {
+  return useQuery({
+    queryKey: queryKeys.callerIdReputation(id ?? ''),
+    queryFn: async () => {
+      const response = await callerIdsApi.getReputation(id!, days);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch caller ID reputation');
+      }
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useCreateCallerIdPool() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CallerIdPoolInput) => {
+      const response = await callerIdsApi.createPool(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create caller ID pool');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIdPools });
+    },
+  });
+}
+
+export function useUpdateCallerIdPool() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<CallerIdPoolInput> }) => {
+      const response = await callerIdsApi.updatePool(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update caller ID pool');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIdPools });
+    },
+  });
+}
+
+export function useDeleteCallerIdPool() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await callerIdsApi.deletePool(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete caller ID pool');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIds });
+    },
+  });
+}
+
+export function useCreateCallerId() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CallerIdInput) => {
+      const response = await callerIdsApi.create(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to add caller ID');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIds });
+    },
+  });
+}
+
+export function useUpdateCallerId() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<CallerIdInput> }) => {
+      const response = await callerIdsApi.update(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update caller ID');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIds });
+    },
+  });
+}
+
+export function useReleaseCallerId() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await callerIdsApi.release(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to release caller ID');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIds });
+    },
+  });
+}
+
+export function useDeleteCallerId() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await callerIdsApi.delete(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete caller ID');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.callerIds });
+    },
+  });
+}
+
+// ============ DIALING RULES ============
+export function useDialingRules() {
+  return useQuery({
+    queryKey: queryKeys.dialingRules,
+    queryFn: async () => {
+      const response = await dialingRulesApi.list();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch dialing rules');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useDialingRulesDryRun() {
+  return useQuery({
+    queryKey: queryKeys.dialingRulesDryRun,
+    queryFn: async () => {
+      const response = await dialingRulesApi.dryRun();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to dry-run dialing rules');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useDryRunDialingRule() {
+  return useMutation({
+    mutationFn: async (data: Parameters<typeof dialingRulesApi.dryRunDraft>[0]) => {
+      const response = await dialingRulesApi.dryRunDraft(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to dry-run dialing rule');
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useCreateDialingRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: DialingRuleInput) => {
+      const response = await dialingRulesApi.create(data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create dialing rule');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dialingRules });
+    },
+  });
+}
+
+export function useUpdateDialingRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<DialingRuleInput> }) => {
+      const response = await dialingRulesApi.update(id, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update dialing rule');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dialingRules });
+    },
+  });
+}
+
+export function useDeleteDialingRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await dialingRulesApi.delete(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete dialing rule');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dialingRules });
+    },
+  });
+}
+
 // ============ TENANT ============
 export function useTenant() {
   return useQuery({
@@ -2,10 +2,14 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { useSocket } from './use-socket';
+import { useAuthStore } from '@/stores/auth-store';
 import type {
   CallStartedPayload,
   CallAnsweredPayload,
   CallEndedPayload,
+  CallTransferPayload,
+  TransferTarget,
+  TransferType,
 } from '@nexusdialer/events';
 
 export type CallState = 'idle' | 'dialing' | 'ringing' | 'connected' | 'held' | 'ended';
@@ -26,9 +30,12 @@ export interface ActiveCall {
 
 export function useCall() {
   const [activeCall, setActiveCall] = useState<ActiveCall | null>(null);
+  // The transfer of the active call in progress, or just settled
+  const [activeTransfer, setActiveTransfer] = useState<CallTransferPayload | null>(null);
   const [isDialing, setIsDialing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { emit, on, isConnected } = useSocket();
+  const { user } = useAuthStore();
 
   // Update duration while on call
   useEffect(() => {
@@ -103,10 +110,21 @@ export function useCall() {
       // Clear call after a delay
       setTimeout(() => {
         setActiveCall(null);
+        setActiveTransfer(null);
       }, 3000);
     });
 
+    // Only the transferring agent's own transfers; a target agent gets the
+    // call itself once it is handed over
+    const unsubscribeTransfer = on('call:transfer-updated', (payload: CallTransferPayload) => {
+      setActiveTransfer((prev) => {
+        if (!prev || prev.transferId !== payload.transferId) return prev;
+        return payload;
+      });
+    });
+
     return () => {
+      unsubscribeTransfer();
       unsubscribeStarted();
       unsubscribeRinging();
       unsubscribeAnswered();
@@ -242,7 +260,7 @@ export function useCall() {
     });
   }, [emit, activeCall]);
 
-  const transfer = useCallback(async (target: string, type: 'blind' | 'warm') => {
+  const transfer = useCallback(async (target: TransferTarget, type: TransferType) => {
     if (!activeCall) {
       setError('No active call');
       return false;
@@ -250,15 +268,61 @@ export function useCall() {
 
     return new Promise<boolean>((resolve) => {
       emit('call:transfer', { callId: activeCall.callId, target, type }, (result) => {
-        if (!result.success) {
+        if (!result.success || !result.transferId) {
           setError(result.error || 'Failed to transfer');
           resolve(false);
         } else {
+          setActiveTransfer({
+            transferId: result.transferId,
+            callId: activeCall.callId,
+            agentId: user?.id ?? '',
+            transferType: type,
+            target,
+            status: 'consulting',
+            timestamp: new Date().toISOString(),
+          });
           resolve(true);
         }
       });
     });
-  }, [emit, activeCall]);
+  }, [emit, activeCall, user?.id]);
+
+  // Settle a warm transfer: complete, cancel or conference
+  const settleTransfer = useCallback(
+    async (
+      event: 'call:transfer-complete' | 'call:transfer-cancel' | 'call:transfer-conference'
+    ) => {
+      if (!activeTransfer) {
+        setError('No transfer in progress');
+        return false;
+      }
+
+      return new Promise<boolean>((resolve) => {
+        emit(event, { transferId: activeTransfer.transferId }, (result) => {
+          if (!result.success) {
+            setError(result.error || 'Failed to update transfer');
+            resolve(false);
+          } else {
+            resolve(true);
+          }
+        });
+      });
+    },
+    [emit, activeTransfer]
+  );
+
+  const completeTransfer = useCallback(
+    () => settleTransfer('call:transfer-complete'),
+    [settleTransfer]
+  );
+  const cancelTransfer = useCallback(
+    () => settleTransfer('call:transfer-cancel'),
+    [settleTransfer]
+  );
+  const conferenceTransfer = useCallback(
+    () => settleTransfer('call:transfer-conference'),
+    [settleTransfer]
+  );
 
   const formatDuration = useCallback((seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -278,6 +342,11 @@ export function useCall() {
     unhold,
     mute,
     transfer,
+    activeTransfer,
+    completeTransfer,
+    cancelTransfer,
+    conferenceTransfer,
+    clearTransfer: () => setActiveTransfer(null),
     formatDuration,
     clearError: () => setError(null),
   };
@@ -8,6 +8,13 @@ import type {
   AgentStateChangePayload,
   QueueStatsPayload,
   DashboardStatsPayload,
+  CampaignStatusPayload,
+  CallbackReminderPayload,
+  CallbackStatusPayload,
+  CallRecordingStatePayload,
+  MonitorSessionPayload,
+  CallQualityAlertPayload,
+  LeadImportProgressPayload,
   NotificationPayload,
 } from '@nexusdialer/events';
 import { useAuthStore } from '@/stores/auth-store';
@@ -28,7 +35,7 @@ export function useSocket(options: UseSocketOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const socketRef = useRef<TypedSocket | null>(null);
-  const { user, token, isAuthenticated } = useAuthStore();
+  const { token, isAuthenticated, clearAuth } = useAuthStore();
 
   // Initialize socket connection
   useEffect(() => {
@@ -37,12 +44,8 @@ export function useSocket(options: UseSocketOptions = {}) {
     }
 
     const socket: TypedSocket = io(SOCKET_URL, {
-      auth: {
-        token,
-        userId: user?.id,
-        tenantId: user?.tenant?.id,
-        role: user?.role,
-      },
+      // The gateway derives user, tenant and role from the token
+      auth: { token },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 5,
@@ -69,13 +72,18 @@ export function useSocket(options: UseSocketOptions = {}) {
 
     socket.on('error', (payload) => {
       setConnectionError(payload.message);
+
+      // The server has dropped the session; the token is no longer usable
+      if (payload.code === 'SESSION_REVOKED' || payload.code === 'SESSION_EXPIRED') {
+        clearAuth();
+      }
     });
 
     return () => {
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [autoConnect, isAuthenticated, token, user, onConnect, onDisconnect, onError]);
+  }, [autoConnect, isAuthenticated, token, clearAuth, onConnect, onDisconnect, onError]);
 
   // Emit helper
   const emit = useCallback(<E extends keyof ClientToServerEvents>(
@@ -191,6 +199,188 @@ export function useQueueStats(queueId?: string) {
   return { stats };
 }
 
+// Hook for campaign dialer state reported by the dialer engine
+export function useCampaignStatus(campaignId?: string) {
+  const [status, setStatus] = useState<CampaignStatusPayload | null>(null);
+  const { on } = useSocket();
+
+  useEffect(() => {
+    if (!campaignId) return;
+
+    const unsubscribe = on('campaign:status-changed', (payload) => {
+      if (payload.campaignId === campaignId) {
+        setStatus(payload);
+      }
+    });
+
+    return unsubscribe;
+  }, [campaignId, on]);
+
+  return { status };
+}
+
+// Hook for reminders and live status of the current agent's callbacks
+export function useCallbackEvents() {
+  const [reminders, setReminders] = useState<CallbackReminderPayload[]>([]);
+  const [lastStatus, setLastStatus] = useState<CallbackStatusPayload | null>(null);
+  const { on } = useSocket();
+
+  useEffect(() => {
+    const unsubscribeReminder = on('callback:reminder', (payload) => {
+      setReminders((prev) => [
+        payload,
+        ...prev.filter((reminder) => reminder.callbackId !== payload.callbackId),
+      ]);
+    });
+
+    const unsubscribeStatus = on('callback:status-changed', (payload) => {
+      setLastStatus(payload);
+      // A reminder is moot once the callback is under way or settled
+      setReminders((prev) => prev.filter((reminder) => reminder.callbackId !== payload.callbackId));
+    });
+
+    return () => {
+      unsubscribeReminder();
+      unsubscribeStatus();
+    };
+  }, [on]);
+
+  const dismissReminder = useCallback((callbackId: string) => {
+    setReminders((prev) => prev.filter((reminder) => reminder.callbackId !== callbackId));
+  }, []);
+
+  return { reminders, lastStatus, dismissReminder };
+}
+
+// Hook for pausing and resuming the recording of the current agent's live call
+export function useCallRecording() {
+  const [callId, setCallId] = useState<string | null>(null);
+  const [state, setState] = useState<CallRecordingStatePayload | null>(null);
+  const { on, emit } = useSocket();
+  const { user } = useAuthStore();
+
+  useEffect(() => {
+    const unsubscribeAnswered = on('call:answered', (payload) => {
+      if (payload.agentId === user?.id) {
+        setCallId(payload.callId);
+        setState(null);
+      }
+    });
+
+    const unsubscribeEnded = on('call:ended', (payload) => {
+      setCallId((current) => (current === payload.callId ? null : current));
+    });
+
+    // Sent for this agent's calls only, including pauses made by agent assist
+    const unsubscribeState = on('call:recording-state', (payload) => {
+      setCallId(payload.callId);
+      setState(payload);
+    });
+
+    return () => {
+      unsubscribeAnswered();
+      unsubscribeEnded();
+      unsubscribeState();
+    };
+  }, [on, user?.id]);
+
+  const request = useCallback(
+    (action: 'pause' | 'resume', reason?: string) => {
+      return new Promise<{ success: boolean; error?: string }>((resolve) => {
+        if (!callId) {
+          resolve({ success: false, error: 'No active call' });
+          return;
+        }
+
+        if (action === 'pause') {
+          emit('call:recording-pause', { callId, reason }, resolve);
+        } else {
+          emit('call:recording-resume', { callId }, resolve);
+        }
+      });
+    },
+    [callId, emit]
+  );
+
+  const pauseRecording = useCallback((reason?: string) => request('pause', reason), [request]);
+  const resumeRecording = useCallback(() => request('resume'), [request]);
+
+  return {
+    callId,
+    isPaused: state?.callId === callId ? state.paused : false,
+    lastState: state,
+    pauseRecording,
+    resumeRecording,
+  };
+}
+
+// Hook for supervisors joining, switching mode on and leaving live calls
+export function useMonitorUpdates() {
+  const [lastUpdate, setLastUpdate] = useState<MonitorSessionPayload | null>(null);
+  const { on, subscribeToDashboard, unsubscribeFromDashboard, isConnected } = useSocket();
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    // Other supervisors' sessions are sent to the dashboard room
+    subscribeToDashboard();
+
+    const unsubscribe = on('call:monitor-updated', (payload) => {
+      setLastUpdate(payload);
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeFromDashboard();
+    };
+  }, [isConnected, on, subscribeToDashboard, unsubscribeFromDashboard]);
+
+  return { lastUpdate };
+}
+
+// Hook for agents' call quality dropping below the threshold and recovering
+export function useCallQualityAlerts() {
+  const [lastAlert, setLastAlert] = useState<CallQualityAlertPayload | null>(null);
+  const { on, subscribeToDashboard, unsubscribeFromDashboard, isConnected } = useSocket();
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    subscribeToDashboard();
+
+    const unsubscribe = on('call:quality-alert', (payload) => {
+      setLastAlert(payload);
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeFromDashboard();
+    };
+  }, [isConnected, on, subscribeToDashboard, unsubscribeFromDashboard]);
+
+  return { lastAlert };
+}
+
+// Hook for the progress of a lead import the current user started
+export function useLeadImportProgress(importId?: string | null) {
+  const [progress, setProgress] = useState<LeadImportProgressPayload | null>(null);
+  const { on, isConnected } = useSocket();
+
+  useEffect(() => {
+    if (!importId || !isConnected) return;
+
+    const unsubscribe = on('leads:import-progress', (payload) => {
+      if (payload.importId === importId) {
+        setProgress(payload);
+      }
+    });
+
+    return unsubscribe;
+  }, [importId, isConnected, on]);
+
+  return { progress };
+}
+
 // Hook for dashboard stats
 export function useDashboardStats() {
   const [stats, setStats] = useState<DashboardStatsPayload | null>(null);
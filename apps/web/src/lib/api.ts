@@ -23,8 +23,9 @@ class ApiClient {
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
 
+    // Uploads leave it to the browser, which adds the multipart boundary
     const headers: HeadersInit = {
-      'Content-Type': 'application/json',
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -91,6 +92,14 @@ class ApiClient {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
 
+  async upload<T>(
+    endpoint: string,
+    body: FormData,
+    options?: RequestInit
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>(endpoint, { ...options, method: 'POST', body });
+  }
+
   async put<T>(
     endpoint: string,
     body?: unknown,
@@ -223,6 +232,29 @@ export const leadListsApi = {
 };
 
 // Leads API
+export type LeadDuplicateMatch = 'phone' | 'email' | 'name';
+
+export type LeadMergeField =
+  | 'phoneNumber'
+  | 'altPhone'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'company'
+  | 'timezone';
+
+export interface LeadDuplicateGroup {
+  matchedBy: LeadDuplicateMatch[];
+  leads: any[]; // with their list's listName and campaignId
+}
+
+export interface MergeLeadsInput {
+  canonicalId: string;
+  duplicateIds: string[];
+  fields?: Partial<Record<LeadMergeField, string>>; // field -> ID of the lead whose value to keep
+  customFields?: Record<string, string>;
+}
+
 export const leadsApi = {
   list: (params?: { page?: number; limit?: number; listId?: string; status?: string; search?: string }) => {
     const query = new URLSearchParams(params as Record<string, string>).toString();
@@ -233,10 +265,82 @@ export const leadsApi = {
     api.post<{ lead: any }>('/api/v1/leads', data),
   update: (id: string, data: any) => api.put<{ lead: any }>(`/api/v1/leads/${id}`, data),
   delete: (id: string) => api.delete(`/api/v1/leads/${id}`),
+  history: (id: string, eventType?: string) =>
+    api.get<{ history: any[] }>(
+      `/api/v1/leads/${id}/history${eventType ? `?eventType=${eventType}` : ''}`
+    ),
+  duplicates: (params?: { matchBy?: string; listId?: string; limit?: number }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return api.get<{ groups: LeadDuplicateGroup[]; total: number }>(
+      `/api/v1/leads/duplicates${query ? `?${query}` : ''}`
+    );
+  },
+  merge: (data: MergeLeadsInput) => api.post<{ lead: any }>('/api/v1/leads/merge', data),
   import: (listId: string, leads: any[]) =>
     api.post<{ imported: number; leads: any[] }>('/api/v1/leads/import', { listId, leads }),
 };
 
+// Lead imports API
+export type LeadImportDuplicatePolicy = 'skip' | 'update' | 'allow';
+
+export interface StartLeadImportInput {
+  mapping?: Record<string, string>; // file column -> lead field, or custom:<key>
+  mappingId?: string;
+  saveMappingAs?: string;
+  duplicatePolicy?: LeadImportDuplicatePolicy;
+  duplicateScope?: 'list' | 'tenant';
+  scrubDnc?: boolean;
+}
+
+export const leadImportsApi = {
+  list: (listId?: string) =>
+    api.get<{ imports: any[] }>(`/api/v1/leads/imports${listId ? `?listId=${listId}` : ''}`),
+  upload: (listId: string, file: File) => {
+    const body = new FormData();
+    body.append('file', file);
+    return api.upload<{ import: any }>(`/api/v1/leads/imports?listId=${listId}`, body);
+  },
+  getById: (id: string) => api.get<{ import: any }>(`/api/v1/leads/imports/${id}`),
+  start: (id: string, data: StartLeadImportInput) =>
+    api.post<{ import: any }>(`/api/v1/leads/imports/${id}/start`, data),
+  delete: (id: string) => api.delete(`/api/v1/leads/imports/${id}`),
+  // Downloaded with the session cookie, so a plain link will do
+  getErrorReportUrl: (id: string) => `${API_BASE}/api/v1/leads/imports/${id}/errors`,
+  listMappings: () => api.get<{ mappings: any[] }>('/api/v1/leads/imports/mappings'),
+  saveMapping: (data: { name: string; mapping: Record<string, string> }) =>
+    api.post<{ mapping: any }>('/api/v1/leads/imports/mappings', data),
+  deleteMapping: (id: string) => api.delete(`/api/v1/leads/imports/mappings/${id}`),
+};
+
+// Lead exports API
+export interface LeadExportFilters {
+  listId?: string;
+  status?: string;
+  search?: string;
+  minAttempts?: number;
+  maxAttempts?: number;
+  lastDisposition?: string;
+  customFields?: Record<string, string>;
+}
+
+export interface CreateLeadExportInput {
+  format?: 'csv' | 'xlsx';
+  filters?: LeadExportFilters;
+  columns?: string[]; // lead columns, or custom:<key>
+}
+
+export const leadExportsApi = {
+  list: () =>
+    api.get<{ exports: any[]; columns: string[]; defaultColumns: string[] }>(
+      '/api/v1/leads/exports'
+    ),
+  getById: (id: string) => api.get<{ export: any }>(`/api/v1/leads/exports/${id}`),
+  create: (data: CreateLeadExportInput) =>
+    api.post<{ export: any }>('/api/v1/leads/exports', data),
+  getDownloadUrl: (id: string) =>
+    api.get<{ url: string; expiresAt: string }>(`/api/v1/leads/exports/${id}/download`),
+};
+
 // Queues API
 export const queuesApi = {
   list: (params?: { page?: number; limit?: number }) => {
@@ -261,23 +365,74 @@ export const agentsApi = {
   updateState: (id: string, state: string, reason?: string) =>
     api.post<any>(`/api/v1/agents/${id}/state`, { state, reason }),
   dashboard: () => api.get<any>('/api/v1/agents/dashboard'),
+  myCallbacks: (params?: { status?: string; from?: string; to?: string; limit?: number }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return api.get<any[]>(`/api/v1/agents/me/callbacks${query ? `?${query}` : ''}`);
+  },
+  rescheduleCallback: (id: string, scheduledAt: string, notes?: string) =>
+    api.post<any>(`/api/v1/agents/me/callbacks/${id}/reschedule`, { scheduledAt, notes }),
 };
 
 // Dispositions API
+export type DispositionNextAction = 'none' | 'callback' | 'recycle' | 'dnc' | 'remove';
+
+export type DispositionAction =
+  | { type: 'move_list'; listId: string }
+  | { type: 'set_status'; status: string }
+  | { type: 'webhook'; url: string; secret?: string }
+  | { type: 'sms'; message: string }
+  | { type: 'email'; subject: string; message: string };
+
+export interface DispositionInput {
+  code: string;
+  name: string;
+  campaignId?: string;
+  description?: string | null;
+  isPositive?: boolean;
+  requiresCallback?: boolean;
+  nextAction?: DispositionNextAction;
+  actions?: DispositionAction[];
+  sortOrder?: number;
+}
+
 export const dispositionsApi = {
   list: (params?: { page?: number; limit?: number; campaignId?: string }) => {
     const query = new URLSearchParams(params as Record<string, string>).toString();
     return api.get<PaginatedResponse<any>>(`/api/v1/dispositions${query ? `?${query}` : ''}`);
   },
   getById: (id: string) => api.get<{ disposition: any }>(`/api/v1/dispositions/${id}`),
-  create: (data: { code: string; name: string; campaignId?: string; isPositive?: boolean }) =>
+  create: (data: DispositionInput) =>
     api.post<{ disposition: any }>('/api/v1/dispositions', data),
-  update: (id: string, data: any) => api.put<{ disposition: any }>(`/api/v1/dispositions/${id}`, data),
+  update: (id: string, data: Partial<Omit<DispositionInput, 'campaignId'>>) =>
+    api.put<{ disposition: any }>(`/api/v1/dispositions/${id}`, data),
   delete: (id: string) => api.delete(`/api/v1/dispositions/${id}`),
   reorder: (orders: Array<{ id: string; sortOrder: number }>) =>
     api.post('/api/v1/dispositions/reorder', { orders }),
 };
 
+// Calls API
+export interface DispositionCallInput {
+  dispositionId: string;
+  notes?: string;
+  callbackAt?: string;
+  callbackType?: 'any' | 'agent_specific';
+  fields?: Record<string, string>;
+}
+
+export interface DispositionActionOutcome {
+  action: string;
+  status: 'completed' | 'queued' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export const callsApi = {
+  disposition: (id: string, data: DispositionCallInput) =>
+    api.post<{ call: any; callbackId?: string; actions: DispositionActionOutcome[] }>(
+      `/api/v1/calls/${id}/disposition`,
+      data
+    ),
+};
+
 // DNC API
 export const dncApi = {
   list: (params?: { page?: number; limit?: number; search?: string; source?: string }) => {
@@ -307,6 +462,173 @@ export const scriptsApi = {
   delete: (id: string) => api.delete(`/api/v1/scripts/${id}`),
 };
 
+// Recordings API
+export const recordingsApi = {
+  list: (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    agentId?: string;
+    campaignId?: string;
+    from?: string;
+    to?: string;
+  }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return api.get<PaginatedResponse<any>>(`/api/v1/recordings${query ? `?${query}` : ''}`);
+  },
+  getStats: () => api.get<any>('/api/v1/recordings/stats'),
+  getUrl: (callId: string, download = false) =>
+    api.get<{ url: string; expiresAt: string; duration: number | null }>(
+      `/api/v1/recordings/${callId}/url${download ? '?download=true' : ''}`
+    ),
+};
+
+// Retention API
+export interface RetentionPolicyInput {
+  recordingDays?: number | null; // null keeps recordings forever
+  transcriptDays?: number | null;
+}
+
+export const retentionApi = {
+  get: () => api.get<any>('/api/v1/retention'),
+  update: (data: RetentionPolicyInput & { campaigns?: Record<string, RetentionPolicyInput> }) =>
+    api.put<any>('/api/v1/retention', data),
+  getAudit: (params?: {
+    page?: number;
+    limit?: number;
+    action?: string;
+    resourceType?: string;
+  }) => {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    return api.get<any>(`/api/v1/retention/audit${query ? `?${query}` : ''}`);
+  },
+  getLegalHolds: () => api.get<any>('/api/v1/retention/legal-holds'),
+  setLegalHold: (
+    resource: 'calls' | 'leads',
+    id: string,
+    data: { legalHold: boolean; reason?: string }
+  ) => api.put<any>(`/api/v1/retention/legal-holds/${resource}/${id}`, data),
+};
+
+// Supervisor monitoring API
+export type MonitorMode = 'listen' | 'whisper' | 'barge';
+
+export const monitoringApi = {
+  getCalls: () => api.get<any>('/api/v1/monitoring/calls'),
+  start: (callId: string, mode: MonitorMode) =>
+    api.post<any>(`/api/v1/monitoring/calls/${callId}`, { mode }),
+  changeMode: (sessionId: string, mode: MonitorMode) =>
+    api.put<any>(`/api/v1/monitoring/sessions/${sessionId}`, { mode }),
+  stop: (sessionId: string) => api.delete(`/api/v1/monitoring/sessions/${sessionId}`),
+};
+
+// SIP trunks API
+export interface TrunkInput {
+  name: string;
+  gateway: string; // carrier proxy, host[:port]
+  transport?: 'udp' | 'tcp' | 'tls';
+  username?: string | null;
+  password?: string | null; // leave out to keep the current one
+  codecs?: string[];
+  maxChannels?: number | null;
+  costPerMinute?: number;
+  prefixes?: string[];
+  priority?: number;
+  failoverCauses?: string[];
+  enabled?: boolean;
+}
+
+export const trunksApi = {
+  list: () => api.get<{ trunks: any[] }>('/api/v1/trunks'),
+  getStats: (days?: number) =>
+    api.get<{ days: number; trunks: any[] }>(`/api/v1/trunks/stats${days ? `?days=${days}` : ''}`),
+  create: (data: TrunkInput) => api.post<{ trunk: any }>('/api/v1/trunks', data),
+  update: (id: string, data: Partial<TrunkInput>) =>
+    api.put<{ trunk: any }>(`/api/v1/trunks/${id}`, data),
+  delete: (id: string) => api.delete(`/api/v1/trunks/${id}`),
+};
+
+// Caller IDs API
+export interface CallerIdPoolInput {
+  name: string;
+  description?: string | null;
+  localPresence?: boolean;
+  dailyCapPerNumber?: number | null;
+  minAnswerRate?: number | null; // percent; null turns quarantining off
+  minCallsForQuarantine?: number;
+  answerRateWindowHours?: number;
+  quarantineHours?: number;
+}
+
+export interface CallerIdInput {
+  phoneNumber: string;
+  name: string;
+  description?: string | null;
+  poolId?: string | null;
+  status?: 'active' | 'inactive';
+}
+
+export const callerIdsApi = {
+  listPools: () => api.get<{ pools: any[] }>('/api/v1/caller-ids/pools'),
+  createPool: (data: CallerIdPoolInput) =>
+    api.post<{ pool: any }>('/api/v1/caller-ids/pools', data),
+  updatePool: (id: string, data: Partial<CallerIdPoolInput>) =>
+    api.put<{ pool: any }>(`/api/v1/caller-ids/pools/${id}`, data),
+  deletePool: (id: string) => api.delete(`/api/v1/caller-ids/pools/${id}`),
+  list: () => api.get<{ callerIds: any[] }>('/api/v1/caller-ids'),
+  getStats: (hours?: number) =>
+    api.get<{ hours: number; callerIds: any[] }>(
+      `/api/v1/caller-ids/stats${hours ? `?hours=${hours}` : ''}`
+    ),
+  getReputation: (id: string, days?: number) =>
+    api.get<{ callerId: any; history: any[] }>(
+      `/api/v1/caller-ids/${id}/reputation${days ? `?days=${days}` : ''}`
+    ),
+  create: (data: CallerIdInput) => api.post<{ callerId: any }>('/api/v1/caller-ids', data),
+  update: (id: string, data: Partial<CallerIdInput>) =>
+    api.put<{ callerId: any }>(`/api/v1/caller-ids/${id}`, data),
+  release: (id: string) => api.post<{ callerId: any }>(`/api/v1/caller-ids/${id}/release`),
+  delete: (id: string) => api.delete(`/api/v1/caller-ids/${id}`),
+};
+
+// Dialing rules API
+export interface RecycleRuleConditions {
+  outcomes?: string[]; // disposition codes, or call statuses in capitals, e.g. NO_ANSWER
+  minOutcomeCount?: number;
+  minAttempts?: number;
+  maxAttempts?: number;
+  statuses?: string[];
+}
+
+export interface RecycleRuleActions {
+  retryAfterMinutes?: number;
+  retryHourOffset?: number;
+  status?: string;
+  priority?: number;
+}
+
+export interface DialingRuleInput {
+  name: string;
+  ruleType: string;
+  campaignId?: string | null;
+  conditions: RecycleRuleConditions;
+  actions: RecycleRuleActions;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export const dialingRulesApi = {
+  list: () => api.get<{ rules: any[] }>('/api/v1/dialing-rules'),
+  dryRun: () =>
+    api.get<{ rules: { id: string; affectedLeads: number }[] }>('/api/v1/dialing-rules/dry-run'),
+  dryRunDraft: (data: Omit<DialingRuleInput, 'name' | 'ruleType' | 'isActive'>) =>
+    api.post<{ affectedLeads: number }>('/api/v1/dialing-rules/dry-run', data),
+  create: (data: DialingRuleInput) => api.post<{ rule: any }>('/api/v1/dialing-rules', data),
+  update: (id: string, data: Partial<DialingRuleInput>) =>
+    api.put<{ rule: any }>(`/api/v1/dialing-rules/${id}`, data),
+  delete: (id: string) => api.delete(`/api/v1/dialing-rules/${id}`),
+};
+
 // Tenants API
 export const tenantsApi = {
   getCurrent: () => api.get<any>('/api/v1/tenants'),
@@ -0,0 +1,6 @@
+ALTER TABLE "callback_schedules" ALTER COLUMN "lead_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "callback_schedules" ADD COLUMN "queue_id" uuid;--> statement-breakpoint
+ALTER TABLE "callback_schedules" ADD COLUMN "phone_number" varchar(20);--> statement-breakpoint
+ALTER TABLE "callback_schedules" ADD COLUMN "source" varchar(20) DEFAULT 'manual' NOT NULL;--> statement-breakpoint
+ALTER TABLE "callback_schedules" ADD CONSTRAINT "callback_schedules_queue_id_queues_id_fk" FOREIGN KEY ("queue_id") REFERENCES "public"."queues"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "callback_schedules_queue_idx" ON "callback_schedules" USING btree ("queue_id","status","scheduled_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "recordings" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"call_id" uuid NOT NULL,
+	"storage_url" text,
+	"format" varchar(10) DEFAULT 'wav' NOT NULL,
+	"codec" varchar(20),
+	"channels" integer,
+	"sample_rate" integer,
+	"duration" integer,
+	"file_size" integer,
+	"status" varchar(20) DEFAULT 'processing' NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recordings" ADD CONSTRAINT "recordings_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recordings" ADD CONSTRAINT "recordings_call_id_calls_id_fk" FOREIGN KEY ("call_id") REFERENCES "public"."calls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recordings_tenant_idx" ON "recordings" USING btree ("tenant_id","created_at");--> statement-breakpoint
+CREATE INDEX "recordings_call_idx" ON "recordings" USING btree ("call_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "recordings" ADD COLUMN "pause_windows" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
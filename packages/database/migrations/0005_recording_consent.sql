@@ -0,0 +1,3 @@
+ALTER TABLE "calls" ADD COLUMN "recording_consent_mode" varchar(20);--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "recording_consent" varchar(20);--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "consent_jurisdiction" varchar(10);
\ No newline at end of file
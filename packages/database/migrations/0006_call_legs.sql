@@ -0,0 +1,23 @@
+CREATE TABLE "call_legs" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"call_id" uuid NOT NULL,
+	"parent_leg_id" uuid,
+	"transfer_id" uuid,
+	"agent_id" uuid,
+	"leg_type" varchar(20) NOT NULL,
+	"target_type" varchar(20),
+	"target" varchar(50),
+	"start_time" timestamp with time zone NOT NULL,
+	"answer_time" timestamp with time zone,
+	"end_time" timestamp with time zone,
+	"duration" integer,
+	"end_reason" varchar(20),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "call_legs" ADD CONSTRAINT "call_legs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "call_legs" ADD CONSTRAINT "call_legs_call_id_calls_id_fk" FOREIGN KEY ("call_id") REFERENCES "public"."calls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "call_legs" ADD CONSTRAINT "call_legs_agent_id_users_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "call_legs_call_idx" ON "call_legs" USING btree ("call_id");--> statement-breakpoint
+CREATE INDEX "call_legs_agent_idx" ON "call_legs" USING btree ("agent_id","start_time");
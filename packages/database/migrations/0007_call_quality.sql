@@ -0,0 +1,5 @@
+ALTER TABLE "calls" ADD COLUMN "mos" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "min_mos" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "jitter" integer;--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "packet_loss" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "round_trip_time" integer;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE "sip_trunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"gateway" varchar(255) NOT NULL,
+	"transport" varchar(10) DEFAULT 'udp' NOT NULL,
+	"username" varchar(100),
+	"password" varchar(255),
+	"codecs" jsonb DEFAULT '["PCMU","PCMA"]'::jsonb NOT NULL,
+	"max_channels" integer,
+	"cost_per_minute" numeric(10, 5) DEFAULT '0' NOT NULL,
+	"prefixes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"failover_causes" jsonb DEFAULT '["NORMAL_TEMPORARY_FAILURE","NO_ROUTE_DESTINATION","SERVICE_UNAVAILABLE","NETWORK_OUT_OF_ORDER","RECOVERY_ON_TIMER_EXPIRE","SWITCH_CONGESTION"]'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "trunk_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"call_id" uuid NOT NULL,
+	"trunk_id" uuid NOT NULL,
+	"start_time" timestamp with time zone NOT NULL,
+	"answer_time" timestamp with time zone,
+	"end_time" timestamp with time zone,
+	"duration" integer,
+	"hangup_cause" varchar(50),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calls" ADD COLUMN "trunk_id" uuid;--> statement-breakpoint
+ALTER TABLE "sip_trunks" ADD CONSTRAINT "sip_trunks_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trunk_attempts" ADD CONSTRAINT "trunk_attempts_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trunk_attempts" ADD CONSTRAINT "trunk_attempts_call_id_calls_id_fk" FOREIGN KEY ("call_id") REFERENCES "public"."calls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trunk_attempts" ADD CONSTRAINT "trunk_attempts_trunk_id_sip_trunks_id_fk" FOREIGN KEY ("trunk_id") REFERENCES "public"."sip_trunks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calls" ADD CONSTRAINT "calls_trunk_id_sip_trunks_id_fk" FOREIGN KEY ("trunk_id") REFERENCES "public"."sip_trunks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sip_trunks_tenant_idx" ON "sip_trunks" USING btree ("tenant_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "sip_trunks_tenant_name_idx" ON "sip_trunks" USING btree ("tenant_id","name");--> statement-breakpoint
+CREATE INDEX "trunk_attempts_trunk_idx" ON "trunk_attempts" USING btree ("trunk_id","start_time");--> statement-breakpoint
+CREATE INDEX "trunk_attempts_call_idx" ON "trunk_attempts" USING btree ("call_id");--> statement-breakpoint
+CREATE INDEX "calls_trunk_idx" ON "calls" USING btree ("trunk_id","start_time");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "caller_id_pools" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"local_presence" boolean DEFAULT true NOT NULL,
+	"daily_cap_per_number" integer,
+	"min_answer_rate" numeric(5, 2),
+	"min_calls_for_quarantine" integer DEFAULT 50 NOT NULL,
+	"answer_rate_window_hours" integer DEFAULT 24 NOT NULL,
+	"quarantine_hours" integer DEFAULT 72 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "caller_id_pool_id" uuid;--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD COLUMN "pool_id" uuid;--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD COLUMN "quarantined_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "caller_id_pools" ADD CONSTRAINT "caller_id_pools_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_caller_id_pool_id_caller_id_pools_id_fk" FOREIGN KEY ("caller_id_pool_id") REFERENCES "public"."caller_id_pools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD CONSTRAINT "caller_ids_pool_id_caller_id_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "public"."caller_id_pools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "caller_id_pools_tenant_name_idx" ON "caller_id_pools" USING btree ("tenant_id","name");--> statement-breakpoint
+CREATE INDEX "caller_ids_pool_idx" ON "caller_ids" USING btree ("pool_id");
\ No newline at end of file
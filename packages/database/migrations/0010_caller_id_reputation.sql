@@ -0,0 +1,23 @@
+CREATE TABLE "caller_id_reputation" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"caller_id_id" uuid NOT NULL,
+	"date" date NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"answered" integer DEFAULT 0 NOT NULL,
+	"short_calls" integer DEFAULT 0 NOT NULL,
+	"answer_rate" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"short_call_ratio" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"attestations" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"spam_likely" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD COLUMN "quarantine_reason" varchar(30);--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD COLUMN "attestation" varchar(1);--> statement-breakpoint
+ALTER TABLE "caller_ids" ADD COLUMN "spam_likely" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "caller_id_reputation" ADD CONSTRAINT "caller_id_reputation_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "caller_id_reputation" ADD CONSTRAINT "caller_id_reputation_caller_id_id_caller_ids_id_fk" FOREIGN KEY ("caller_id_id") REFERENCES "public"."caller_ids"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "caller_id_reputation_caller_date_idx" ON "caller_id_reputation" USING btree ("caller_id_id","date");--> statement-breakpoint
+CREATE INDEX "caller_id_reputation_tenant_date_idx" ON "caller_id_reputation" USING btree ("tenant_id","date");
@@ -0,0 +1,57 @@
+CREATE TABLE "lead_import_errors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"import_id" uuid NOT NULL,
+	"row_number" integer NOT NULL,
+	"reason" varchar(30) NOT NULL,
+	"message" text,
+	"row" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lead_import_mappings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"mapping" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lead_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"list_id" uuid NOT NULL,
+	"created_by" uuid,
+	"file_name" varchar(255) NOT NULL,
+	"file_type" varchar(10) NOT NULL,
+	"file_size" integer DEFAULT 0 NOT NULL,
+	"file_path" text,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"headers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"sample_rows" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"mapping" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"duplicate_policy" varchar(10) DEFAULT 'skip' NOT NULL,
+	"duplicate_scope" varchar(10) DEFAULT 'list' NOT NULL,
+	"scrub_dnc" boolean DEFAULT true NOT NULL,
+	"total_rows" integer DEFAULT 0 NOT NULL,
+	"imported_rows" integer DEFAULT 0 NOT NULL,
+	"updated_rows" integer DEFAULT 0 NOT NULL,
+	"duplicate_rows" integer DEFAULT 0 NOT NULL,
+	"dnc_rows" integer DEFAULT 0 NOT NULL,
+	"error_rows" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lead_import_errors" ADD CONSTRAINT "lead_import_errors_import_id_lead_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."lead_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_import_mappings" ADD CONSTRAINT "lead_import_mappings_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_imports" ADD CONSTRAINT "lead_imports_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_imports" ADD CONSTRAINT "lead_imports_list_id_lead_lists_id_fk" FOREIGN KEY ("list_id") REFERENCES "public"."lead_lists"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lead_import_errors_import_idx" ON "lead_import_errors" USING btree ("import_id","row_number");--> statement-breakpoint
+CREATE UNIQUE INDEX "lead_import_mappings_tenant_name_idx" ON "lead_import_mappings" USING btree ("tenant_id","name");--> statement-breakpoint
+CREATE INDEX "lead_imports_tenant_idx" ON "lead_imports" USING btree ("tenant_id","created_at");--> statement-breakpoint
+CREATE INDEX "lead_imports_list_idx" ON "lead_imports" USING btree ("list_id");
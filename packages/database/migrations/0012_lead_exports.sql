@@ -0,0 +1,19 @@
+CREATE TABLE "lead_exports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"created_by" uuid,
+	"format" varchar(10) NOT NULL,
+	"filters" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"columns" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"row_count" integer DEFAULT 0 NOT NULL,
+	"file_size" integer,
+	"storage_url" text,
+	"error" text,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lead_exports" ADD CONSTRAINT "lead_exports_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lead_exports_tenant_idx" ON "lead_exports" USING btree ("tenant_id","created_at");
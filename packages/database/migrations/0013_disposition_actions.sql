@@ -0,0 +1 @@
+ALTER TABLE "dispositions" ADD COLUMN "actions" jsonb DEFAULT '[]'::jsonb NOT NULL;
@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import { TOPICS, type CampaignCommandAction, type CampaignCommandEvent } from '@nexusdialer/events';
+import { campaigns, type Campaign } from './schema';
+import { getDb } from './index';
+
+/**
+ * Publishes an event with the given message key; each server passes its
+ * own Kafka producer
+ */
+export type CampaignCommandPublisher = (
+  topic: string,
+  event: CampaignCommandEvent,
+  key: string
+) => Promise<void>;
+
+/**
+ * The command could not be handed to the dialer engine
+ */
+export class DialerUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super('Dialer engine is unavailable, please try again', { cause });
+    this.name = 'DialerUnavailableError';
+  }
+}
+
+/**
+ * Persist a campaign status change and publish the matching dialer command.
+ * Commands are keyed by campaign so one campaign's commands are consumed in
+ * order. The previous status is restored if the command cannot be published,
+ * so the stored status never claims a state the dialer engine was not asked for,
+ * unless another request has changed it since.
+ */
+export async function dispatchCampaignCommand(
+  campaign: Campaign,
+  status: string,
+  action: CampaignCommandAction,
+  requestedBy: string,
+  publish: CampaignCommandPublisher
+): Promise<{ campaign: Campaign; commandId: string }> {
+  const db = getDb();
+
+  const [updated] = await db
+    .update(campaigns)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(campaigns.id, campaign.id))
+    .returning();
+
+  const commandId = randomUUID();
+  const event: CampaignCommandEvent = {
+    eventId: randomUUID(),
+    tenantId: campaign.tenantId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type: 'campaigns.command',
+    payload: {
+      commandId,
+      campaignId: campaign.id,
+      action,
+      requestedBy,
+    },
+  };
+
+  try {
+    await publish(TOPICS.CAMPAIGNS_COMMANDS, event, campaign.id);
+  } catch (error) {
+    await db
+      .update(campaigns)
+      .set({ status: campaign.status, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, campaign.id), eq(campaigns.status, status)));
+
+    throw new DialerUnavailableError(error);
+  }
+
+  return { campaign: updated, commandId };
+}
@@ -4,6 +4,8 @@ import * as schema from './schema';
 
 // Re-export schema
 export * from './schema';
+export * from './secrets';
+export * from './campaign-commands';
 
 // Database client singleton
 let db: ReturnType<typeof createDb> | null = null;
@@ -7,12 +7,14 @@ import {
   timestamp,
   integer,
   decimal,
+  boolean,
   index,
 } from 'drizzle-orm/pg-core';
 import { tenants } from './tenants';
 import { users } from './users';
 import { campaigns } from './campaigns';
 import { leads } from './leads';
+import { sipTrunks } from './trunks';
 
 export const queues = pgTable(
   'queues',
@@ -56,7 +58,10 @@ export const dispositions = pgTable(
     description: text('description'),
     isPositive: integer('is_positive').default(0).notNull(), // 0 = false, 1 = true
     requiresCallback: integer('requires_callback').default(0).notNull(),
+    // What dispositioning a call with it does to the lead: none, callback, recycle, dnc, remove
     nextAction: varchar('next_action', { length: 20 }).default('none').notNull(),
+    // Follow-ups run after nextAction: [{ type: move_list|set_status|webhook|sms|email, ... }]
+    actions: jsonb('actions').default([]).notNull(),
     sortOrder: integer('sort_order').default(0).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
@@ -85,6 +90,8 @@ export const calls = pgTable(
     }),
     phoneNumber: varchar('phone_number', { length: 20 }).notNull(),
     callerId: varchar('caller_id', { length: 20 }),
+    // Outbound carrier; the last one tried when the call failed over
+    trunkId: uuid('trunk_id').references(() => sipTrunks.id, { onDelete: 'set null' }),
     sipCallId: varchar('sip_call_id', { length: 255 }),
     startTime: timestamp('start_time', { withTimezone: true }).notNull(),
     answerTime: timestamp('answer_time', { withTimezone: true }),
@@ -94,9 +101,21 @@ export const calls = pgTable(
     holdDuration: integer('hold_duration'), // seconds
     wrapDuration: integer('wrap_duration'), // seconds
     recordingUrl: text('recording_url'),
+    // record, announce, dtmf, never; resolved from the number's jurisdiction
+    recordingConsentMode: varchar('recording_consent_mode', { length: 20 }),
+    // not_required, announced, granted, declined, no_response, not_recorded
+    recordingConsent: varchar('recording_consent', { length: 20 }),
+    consentJurisdiction: varchar('consent_jurisdiction', { length: 10 }), // e.g. US-CA, GB
+    // Softphone media quality over the call, from the WebRTC gateway's samples
+    mos: decimal('mos', { precision: 3, scale: 2 }), // average estimated MOS, 1-5
+    minMos: decimal('min_mos', { precision: 3, scale: 2 }),
+    jitter: integer('jitter'), // average, ms
+    packetLoss: decimal('packet_loss', { precision: 5, scale: 2 }), // average, percent
+    roundTripTime: integer('round_trip_time'), // average, ms
     transcriptUrl: text('transcript_url'),
     aiSummary: text('ai_summary'),
     sentimentScore: decimal('sentiment_score', { precision: 3, scale: 2 }),
+    legalHold: boolean('legal_hold').default(false).notNull(), // exempt from retention purges
     metadata: jsonb('metadata').default({}).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   },
@@ -108,6 +127,7 @@ export const calls = pgTable(
     index('calls_lead_idx').on(table.leadId),
     index('calls_queue_idx').on(table.queueId, table.startTime),
     index('calls_sip_id_idx').on(table.sipCallId),
+    index('calls_trunk_idx').on(table.trunkId, table.startTime),
   ]
 );
 
@@ -141,14 +161,18 @@ export const callbackSchedules = pgTable(
     tenantId: uuid('tenant_id')
       .notNull()
       .references(() => tenants.id, { onDelete: 'cascade' }),
-    leadId: uuid('lead_id')
-      .notNull()
-      .references(() => leads.id, { onDelete: 'cascade' }),
+    // Null for inbound callers, who are called back on their ANI
+    leadId: uuid('lead_id').references(() => leads.id, { onDelete: 'cascade' }),
     callId: uuid('call_id').references(() => calls.id, { onDelete: 'set null' }),
     agentId: uuid('agent_id').references(() => users.id, { onDelete: 'set null' }),
+    queueId: uuid('queue_id').references(() => queues.id, { onDelete: 'set null' }),
+    phoneNumber: varchar('phone_number', { length: 20 }),
     scheduledAt: timestamp('scheduled_at', { withTimezone: true }).notNull(),
     callbackType: varchar('callback_type', { length: 20 }).default('any').notNull(), // any, agent_specific
+    source: varchar('source', { length: 20 }).default('manual').notNull(), // manual, virtual_hold
     notes: text('notes'),
+    // pending, queued (holding a virtual place in its queue), dialing, completed, missed,
+    // rescheduled (replaced by a new row), failed
     status: varchar('status', { length: 20 }).default('pending').notNull(),
     completedAt: timestamp('completed_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -158,6 +182,102 @@ export const callbackSchedules = pgTable(
     index('callback_schedules_tenant_idx').on(table.tenantId),
     index('callback_schedules_scheduled_idx').on(table.tenantId, table.status, table.scheduledAt),
     index('callback_schedules_agent_idx').on(table.agentId, table.status, table.scheduledAt),
+    index('callback_schedules_queue_idx').on(table.queueId, table.status, table.scheduledAt),
+  ]
+);
+
+export const recordings = pgTable(
+  'recordings',
+  {
+    // Assigned by the dialer engine when FreeSWITCH closes the file
+    id: uuid('id').primaryKey(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    callId: uuid('call_id')
+      .notNull()
+      .references(() => calls.id, { onDelete: 'cascade' }),
+    storageUrl: text('storage_url'), // s3://bucket/key, set once uploaded
+    format: varchar('format', { length: 10 }).default('wav').notNull(),
+    codec: varchar('codec', { length: 20 }),
+    channels: integer('channels'),
+    sampleRate: integer('sample_rate'), // Hz
+    duration: integer('duration'), // seconds
+    fileSize: integer('file_size'), // bytes
+    // processing, ready, failed, purged (audio deleted under the tenant's retention policy)
+    status: varchar('status', { length: 20 }).default('processing').notNull(),
+    error: text('error'),
+    // Stretches masked with silence: [{ start, end, pausedAt, resumedAt, source, reason }]
+    pauseWindows: jsonb('pause_windows').default([]).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('recordings_tenant_idx').on(table.tenantId, table.createdAt),
+    index('recordings_call_idx').on(table.callId),
+  ]
+);
+
+// Who handled which part of a call that was transferred or conferenced. Calls
+// that never were have no legs; the whole call is its agent's.
+export const callLegs = pgTable(
+  'call_legs',
+  {
+    // Assigned by the dialer engine while the call is live
+    id: uuid('id').primaryKey(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    callId: uuid('call_id')
+      .notNull()
+      .references(() => calls.id, { onDelete: 'cascade' }),
+    parentLegId: uuid('parent_leg_id'), // the leg this one was transferred or dialed from
+    transferId: uuid('transfer_id'),
+    agentId: uuid('agent_id').references(() => users.id, { onDelete: 'set null' }),
+    // agent: talking to the customer; consult: the agent and target talking
+    // privately; conference: in a conference with the customer
+    legType: varchar('leg_type', { length: 20 }).notNull(),
+    targetType: varchar('target_type', { length: 20 }), // agent, queue, external
+    target: varchar('target', { length: 50 }), // extension, queue id or phone number
+    startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+    answerTime: timestamp('answer_time', { withTimezone: true }),
+    endTime: timestamp('end_time', { withTimezone: true }),
+    duration: integer('duration'), // seconds, from answer
+    // hangup, transferred, completed, cancelled, conferenced, failed
+    endReason: varchar('end_reason', { length: 20 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('call_legs_call_idx').on(table.callId),
+    index('call_legs_agent_idx').on(table.agentId, table.startTime),
+  ]
+);
+
+// Each trunk an outbound call was sent out on, for the trunks' ASR and ACD.
+// A call failed over to another trunk has one row per trunk tried.
+export const trunkAttempts = pgTable(
+  'trunk_attempts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    callId: uuid('call_id')
+      .notNull()
+      .references(() => calls.id, { onDelete: 'cascade' }),
+    trunkId: uuid('trunk_id')
+      .notNull()
+      .references(() => sipTrunks.id, { onDelete: 'cascade' }),
+    startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+    answerTime: timestamp('answer_time', { withTimezone: true }),
+    endTime: timestamp('end_time', { withTimezone: true }),
+    duration: integer('duration'), // seconds, from answer
+    hangupCause: varchar('hangup_cause', { length: 50 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('trunk_attempts_trunk_idx').on(table.trunkId, table.startTime),
+    index('trunk_attempts_call_idx').on(table.callId),
   ]
 );
 
@@ -171,3 +291,9 @@ export type AgentState = typeof agentStates.$inferSelect;
 export type NewAgentState = typeof agentStates.$inferInsert;
 export type CallbackSchedule = typeof callbackSchedules.$inferSelect;
 export type NewCallbackSchedule = typeof callbackSchedules.$inferInsert;
+export type Recording = typeof recordings.$inferSelect;
+export type NewRecording = typeof recordings.$inferInsert;
+export type CallLeg = typeof callLegs.$inferSelect;
+export type NewCallLeg = typeof callLegs.$inferInsert;
+export type TrunkAttempt = typeof trunkAttempts.$inferSelect;
+export type NewTrunkAttempt = typeof trunkAttempts.$inferInsert;
@@ -5,13 +5,40 @@ import {
   text,
   jsonb,
   timestamp,
+  date,
   integer,
+  decimal,
   boolean,
   index,
   uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { tenants } from './tenants';
 
+// Caller IDs a campaign rotates through. With local presence on, a lead is
+// shown a number from its own area code, or failing that its own state.
+export const callerIdPools = pgTable(
+  'caller_id_pools',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    description: text('description'),
+    localPresence: boolean('local_presence').default(true).notNull(),
+    dailyCapPerNumber: integer('daily_cap_per_number'), // calls per number per day, null for no cap
+    // Numbers answered less often than this (percent) over the window are quarantined;
+    // null turns quarantining off
+    minAnswerRate: decimal('min_answer_rate', { precision: 5, scale: 2 }),
+    minCallsForQuarantine: integer('min_calls_for_quarantine').default(50).notNull(),
+    answerRateWindowHours: integer('answer_rate_window_hours').default(24).notNull(),
+    quarantineHours: integer('quarantine_hours').default(72).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('caller_id_pools_tenant_name_idx').on(table.tenantId, table.name)]
+);
+
 export const campaigns = pgTable(
   'campaigns',
   {
@@ -42,7 +69,10 @@ export const campaigns = pgTable(
         hours: {},
       })
       .notNull(),
-    callerIdId: uuid('caller_id_id'),
+    callerIdId: uuid('caller_id_id'), // a single number, used when the campaign has no pool
+    callerIdPoolId: uuid('caller_id_pool_id').references(() => callerIdPools.id, {
+      onDelete: 'set null',
+    }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
@@ -64,13 +94,51 @@ export const callerIds = pgTable(
     name: varchar('name', { length: 100 }).notNull(),
     description: text('description'),
     isVerified: boolean('is_verified').default(false).notNull(),
+    poolId: uuid('pool_id').references(() => callerIdPools.id, { onDelete: 'set null' }),
+    // active, inactive, quarantined (until quarantinedUntil)
     status: varchar('status', { length: 20 }).default('active').notNull(),
+    quarantinedUntil: timestamp('quarantined_until', { withTimezone: true }),
+    quarantineReason: varchar('quarantine_reason', { length: 30 }), // low_answer_rate, spam_likely
+    // STIR/SHAKEN attestation carriers gave most of today's calls from the number (A, B, C)
+    attestation: varchar('attestation', { length: 1 }),
+    // Answer rate or short-call trends suggest the number is labeled as spam
+    spamLikely: boolean('spam_likely').default(false).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => [
     index('caller_ids_tenant_idx').on(table.tenantId),
     uniqueIndex('caller_ids_tenant_phone_idx').on(table.tenantId, table.phoneNumber),
+    index('caller_ids_pool_idx').on(table.poolId),
+  ]
+);
+
+// A caller ID's calling metrics per day (UTC), its reputation history
+export const callerIdReputation = pgTable(
+  'caller_id_reputation',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    callerIdId: uuid('caller_id_id')
+      .notNull()
+      .references(() => callerIds.id, { onDelete: 'cascade' }),
+    date: date('date').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    answered: integer('answered').default(0).notNull(), // by a person, not a machine
+    shortCalls: integer('short_calls').default(0).notNull(), // answered, hung up within seconds
+    // Percent of attempts answered, and of answered calls that were short
+    answerRate: decimal('answer_rate', { precision: 5, scale: 2 }).default('0').notNull(),
+    shortCallRatio: decimal('short_call_ratio', { precision: 5, scale: 2 }).default('0').notNull(),
+    attestations: jsonb('attestations').default({}).notNull(), // calls per level, e.g. { A: 120 }
+    spamLikely: boolean('spam_likely').default(false).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('caller_id_reputation_caller_date_idx').on(table.callerIdId, table.date),
+    index('caller_id_reputation_tenant_date_idx').on(table.tenantId, table.date),
   ]
 );
 
@@ -105,7 +173,7 @@ export const dncLists = pgTable(
       .notNull()
       .references(() => tenants.id, { onDelete: 'cascade' }),
     phoneNumber: varchar('phone_number', { length: 20 }).notNull(),
-    source: varchar('source', { length: 50 }).default('manual').notNull(), // manual, api, import, customer_request
+    source: varchar('source', { length: 50 }).default('manual').notNull(), // manual, api, import, customer_request, disposition
     reason: text('reason'),
     expiresAt: timestamp('expires_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -116,10 +184,14 @@ export const dncLists = pgTable(
   ]
 );
 
+export type CallerIdPool = typeof callerIdPools.$inferSelect;
+export type NewCallerIdPool = typeof callerIdPools.$inferInsert;
 export type Campaign = typeof campaigns.$inferSelect;
 export type NewCampaign = typeof campaigns.$inferInsert;
 export type CallerId = typeof callerIds.$inferSelect;
 export type NewCallerId = typeof callerIds.$inferInsert;
+export type CallerIdReputation = typeof callerIdReputation.$inferSelect;
+export type NewCallerIdReputation = typeof callerIdReputation.$inferInsert;
 export type DialingRule = typeof dialingRules.$inferSelect;
 export type NewDialingRule = typeof dialingRules.$inferInsert;
 export type DncEntry = typeof dncLists.$inferSelect;
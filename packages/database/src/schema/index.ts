@@ -14,6 +14,9 @@ export * from './campaigns';
 // Leads & Lists
 export * from './leads';
 
+// Carriers & Trunks
+export * from './trunks';
+
 // Calls & Queues
 export * from './calls';
 
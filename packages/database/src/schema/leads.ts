@@ -7,7 +7,9 @@ import {
   timestamp,
   integer,
   decimal,
+  boolean,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { tenants } from './tenants';
 import { campaigns } from './campaigns';
@@ -59,6 +61,8 @@ export const leads = pgTable(
     nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
     attemptCount: integer('attempt_count').default(0).notNull(),
     assignedAgentId: uuid('assigned_agent_id'),
+    // Exempts every call with this lead from retention purges
+    legalHold: boolean('legal_hold').default(false).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
@@ -95,9 +99,120 @@ export const leadHistory = pgTable(
   ]
 );
 
+// Column mappings saved to reuse on later imports of files laid out the same
+export const leadImportMappings = pgTable(
+  'lead_import_mappings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    // File column header -> lead field, or custom:<key> for a custom field
+    mapping: jsonb('mapping').default({}).notNull(),
+    createdBy: uuid('created_by'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('lead_import_mappings_tenant_name_idx').on(table.tenantId, table.name)]
+);
+
+export const leadImports = pgTable(
+  'lead_imports',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    listId: uuid('list_id')
+      .notNull()
+      .references(() => leadLists.id, { onDelete: 'cascade' }),
+    createdBy: uuid('created_by'),
+    fileName: varchar('file_name', { length: 255 }).notNull(),
+    fileType: varchar('file_type', { length: 10 }).notNull(), // csv, xlsx
+    fileSize: integer('file_size').default(0).notNull(),
+    filePath: text('file_path'), // the uploaded file, removed once the import ends
+    // pending, processing, completed, failed
+    status: varchar('status', { length: 20 }).default('pending').notNull(),
+    headers: jsonb('headers').default([]).notNull(),
+    sampleRows: jsonb('sample_rows').default([]).notNull(),
+    mapping: jsonb('mapping').default({}).notNull(),
+    // What to do with a row whose phone number is already a lead in the list,
+    // or anywhere in the tenant: skip it, update that lead, or allow a new one
+    duplicatePolicy: varchar('duplicate_policy', { length: 10 }).default('skip').notNull(),
+    duplicateScope: varchar('duplicate_scope', { length: 10 }).default('list').notNull(),
+    scrubDnc: boolean('scrub_dnc').default(true).notNull(),
+    totalRows: integer('total_rows').default(0).notNull(),
+    importedRows: integer('imported_rows').default(0).notNull(),
+    updatedRows: integer('updated_rows').default(0).notNull(),
+    duplicateRows: integer('duplicate_rows').default(0).notNull(),
+    dncRows: integer('dnc_rows').default(0).notNull(),
+    errorRows: integer('error_rows').default(0).notNull(),
+    error: text('error'),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('lead_imports_tenant_idx').on(table.tenantId, table.createdAt),
+    index('lead_imports_list_idx').on(table.listId),
+  ]
+);
+
+// Rows an import did not load, for its downloadable report
+export const leadImportErrors = pgTable(
+  'lead_import_errors',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    importId: uuid('import_id')
+      .notNull()
+      .references(() => leadImports.id, { onDelete: 'cascade' }),
+    rowNumber: integer('row_number').notNull(),
+    // missing_phone, invalid_phone, invalid_email, duplicate, dnc, ...
+    reason: varchar('reason', { length: 30 }).notNull(),
+    message: text('message'),
+    row: jsonb('row').default([]).notNull(), // the row's cells, as in the file
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('lead_import_errors_import_idx').on(table.importId, table.rowNumber)]
+);
+
+export const leadExports = pgTable(
+  'lead_exports',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    createdBy: uuid('created_by'),
+    format: varchar('format', { length: 10 }).notNull(), // csv, xlsx
+    filters: jsonb('filters').default({}).notNull(), // as GET /leads takes them
+    columns: jsonb('columns').default([]).notNull(),
+    // pending, processing, completed, failed
+    status: varchar('status', { length: 20 }).default('pending').notNull(),
+    rowCount: integer('row_count').default(0).notNull(),
+    fileSize: integer('file_size'),
+    storageUrl: text('storage_url'), // s3://bucket/key, never a signed URL
+    error: text('error'),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('lead_exports_tenant_idx').on(table.tenantId, table.createdAt)]
+);
+
 export type LeadList = typeof leadLists.$inferSelect;
 export type NewLeadList = typeof leadLists.$inferInsert;
 export type Lead = typeof leads.$inferSelect;
 export type NewLead = typeof leads.$inferInsert;
 export type LeadHistoryEntry = typeof leadHistory.$inferSelect;
 export type NewLeadHistoryEntry = typeof leadHistory.$inferInsert;
+export type LeadImportMapping = typeof leadImportMappings.$inferSelect;
+export type NewLeadImportMapping = typeof leadImportMappings.$inferInsert;
+export type LeadImport = typeof leadImports.$inferSelect;
+export type NewLeadImport = typeof leadImports.$inferInsert;
+export type LeadImportError = typeof leadImportErrors.$inferSelect;
+export type NewLeadImportError = typeof leadImportErrors.$inferInsert;
+export type LeadExport = typeof leadExports.$inferSelect;
+export type NewLeadExport = typeof leadExports.$inferInsert;
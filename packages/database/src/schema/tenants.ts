@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, jsonb, timestamp, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, jsonb, timestamp, integer, index } from 'drizzle-orm/pg-core';
 
 export const tenants = pgTable('tenants', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -24,5 +24,29 @@ export const tenants = pgTable('tenants', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Compliance trail: legal hold changes, retention policy changes and purges
+export const auditLogs = pgTable(
+  'audit_logs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    actorId: uuid('actor_id'), // null for system jobs
+    actorType: varchar('actor_type', { length: 20 }).notNull(), // user, system, api
+    action: varchar('action', { length: 100 }).notNull(), // e.g. retention.purge, legal_hold.set
+    resourceType: varchar('resource_type', { length: 50 }).notNull(),
+    resourceId: uuid('resource_id').notNull(),
+    details: jsonb('details').default({}).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('audit_logs_tenant_idx').on(table.tenantId, table.createdAt),
+    index('audit_logs_resource_idx').on(table.resourceType, table.resourceId),
+  ]
+);
+
 export type Tenant = typeof tenants.$inferSelect;
 export type NewTenant = typeof tenants.$inferInsert;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type NewAuditLog = typeof auditLogs.$inferInsert;
@@ -0,0 +1,57 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  jsonb,
+  timestamp,
+  integer,
+  decimal,
+  boolean,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { tenants } from './tenants';
+
+// Carriers outbound calls are sent to. FreeSWITCH dials the gateway directly
+// from the external profile, answering its auth challenge with the credentials.
+export const sipTrunks = pgTable(
+  'sip_trunks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    gateway: varchar('gateway', { length: 255 }).notNull(), // carrier proxy, host[:port]
+    transport: varchar('transport', { length: 10 }).default('udp').notNull(), // udp, tcp, tls
+    username: varchar('username', { length: 100 }),
+    password: varchar('password', { length: 255 }),
+    codecs: jsonb('codecs').default(['PCMU', 'PCMA']).notNull(), // in order of preference
+    maxChannels: integer('max_channels'), // concurrent calls, null for no cap
+    costPerMinute: decimal('cost_per_minute', { precision: 10, scale: 5 }).default('0').notNull(),
+    // Dialed number prefixes the trunk carries, digits only (e.g. 1, 44); empty for any
+    prefixes: jsonb('prefixes').default([]).notNull(),
+    priority: integer('priority').default(0).notNull(), // breaks cost ties, lowest first
+    // Hangup causes of an unanswered call that send it to the next trunk
+    failoverCauses: jsonb('failover_causes')
+      .default([
+        'NORMAL_TEMPORARY_FAILURE',
+        'NO_ROUTE_DESTINATION',
+        'SERVICE_UNAVAILABLE',
+        'NETWORK_OUT_OF_ORDER',
+        'RECOVERY_ON_TIMER_EXPIRE',
+        'SWITCH_CONGESTION',
+      ])
+      .notNull(),
+    enabled: boolean('enabled').default(true).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('sip_trunks_tenant_idx').on(table.tenantId),
+    uniqueIndex('sip_trunks_tenant_name_idx').on(table.tenantId, table.name),
+  ]
+);
+
+export type SipTrunk = typeof sipTrunks.$inferSelect;
+export type NewSipTrunk = typeof sipTrunks.$inferInsert;
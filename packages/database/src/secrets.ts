@@ -0,0 +1,47 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Credentials stored in the database (SIP trunk passwords) are encrypted
+// with AES-256-GCM under a key derived from SECRETS_ENCRYPTION_KEY
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function getKey(): Buffer {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY;
+
+  if (!secret) {
+    throw new Error('SECRETS_ENCRYPTION_KEY environment variable is not set');
+  }
+
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt a stored secret. Values saved before encryption was introduced
+ * are returned as they are.
+ */
+export function decryptSecret(stored: string): string {
+  if (!stored.startsWith(PREFIX)) {
+    return stored;
+  }
+
+  const data = Buffer.from(stored.slice(PREFIX.length), 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -478,8 +478,8 @@ async function seed() {
       campaignId: winbackCampaign.id,
       name: 'No Answer Recycle',
       ruleType: 'recycle',
-      conditions: { disposition: 'NA' },
-      actions: { recycleAfter: 24, maxRecycles: 3 },
+      conditions: { outcomes: ['NA', 'NO_ANSWER'], maxAttempts: 3 },
+      actions: { retryAfterMinutes: 24 * 60, retryHourOffset: 3 },
       priority: 1,
       isActive: true,
     },
@@ -492,14 +492,14 @@ async function seed() {
   // ============================================
   console.log('\nCreating dispositions...');
   const createdDispositions = await db.insert(dispositions).values([
-    { tenantId: tenant.id, code: 'SALE', name: 'Sale Made', isPositive: 1, requiresCallback: 0, nextAction: 'none', sortOrder: 1 },
+    { tenantId: tenant.id, code: 'SALE', name: 'Sale Made', isPositive: 1, requiresCallback: 0, nextAction: 'none', actions: [{ type: 'set_status', status: 'converted' }], sortOrder: 1 },
     { tenantId: tenant.id, code: 'CB', name: 'Callback Scheduled', isPositive: 0, requiresCallback: 1, nextAction: 'callback', sortOrder: 2 },
     { tenantId: tenant.id, code: 'NI', name: 'Not Interested', isPositive: 0, requiresCallback: 0, nextAction: 'dnc', sortOrder: 3 },
-    { tenantId: tenant.id, code: 'NA', name: 'No Answer', isPositive: 0, requiresCallback: 0, nextAction: 'retry', sortOrder: 4 },
-    { tenantId: tenant.id, code: 'BUSY', name: 'Busy', isPositive: 0, requiresCallback: 0, nextAction: 'retry', sortOrder: 5 },
-    { tenantId: tenant.id, code: 'VM', name: 'Voicemail', isPositive: 0, requiresCallback: 0, nextAction: 'retry', sortOrder: 6 },
+    { tenantId: tenant.id, code: 'NA', name: 'No Answer', isPositive: 0, requiresCallback: 0, nextAction: 'recycle', sortOrder: 4 },
+    { tenantId: tenant.id, code: 'BUSY', name: 'Busy', isPositive: 0, requiresCallback: 0, nextAction: 'recycle', sortOrder: 5 },
+    { tenantId: tenant.id, code: 'VM', name: 'Voicemail', isPositive: 0, requiresCallback: 0, nextAction: 'recycle', sortOrder: 6 },
     { tenantId: tenant.id, code: 'DNC', name: 'Do Not Call', isPositive: 0, requiresCallback: 0, nextAction: 'dnc', sortOrder: 7 },
-    { tenantId: tenant.id, code: 'QUALIFIED', name: 'Qualified Lead', isPositive: 1, requiresCallback: 1, nextAction: 'callback', sortOrder: 8 },
+    { tenantId: tenant.id, code: 'QUALIFIED', name: 'Qualified Lead', isPositive: 1, requiresCallback: 1, nextAction: 'callback', actions: [{ type: 'set_status', status: 'qualified' }], sortOrder: 8 },
     { tenantId: tenant.id, code: 'WRONG', name: 'Wrong Number', isPositive: 0, requiresCallback: 0, nextAction: 'remove', sortOrder: 9 },
     { tenantId: tenant.id, code: 'TRANSFER', name: 'Transferred', isPositive: 1, requiresCallback: 0, nextAction: 'none', sortOrder: 10 },
   ]).returning();
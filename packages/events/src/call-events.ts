@@ -14,6 +14,8 @@ const baseEventSchema = z.object({
 export const callDirectionSchema = z.enum(['inbound', 'outbound']);
 export type CallDirection = z.infer<typeof callDirectionSchema>;
 
+export const recordingConsentModeSchema = z.enum(['record', 'announce', 'dtmf', 'never']);
+
 // ============ Call Started Event ============
 
 export const callStartedSchema = baseEventSchema.extend({
@@ -28,6 +30,8 @@ export const callStartedSchema = baseEventSchema.extend({
     leadId: z.string().uuid().optional(),
     agentId: z.string().uuid().optional(),
     sipCallId: z.string().optional(),
+    // Set when the recording waits on a disclosure or the caller's consent
+    recordingConsent: recordingConsentModeSchema.optional(),
     metadata: z.record(z.unknown()).optional(),
   }),
 });
@@ -83,11 +87,27 @@ export const callTransferredSchema = baseEventSchema.extend({
     toExternalNumber: z.string().optional(),
     transferType: z.enum(['warm', 'cold', 'blind']),
     transferTime: z.string().datetime(),
+    phoneNumber: z.string().optional(), // the customer's, for queues the call is sent to
   }),
 });
 
 export type CallTransferredEvent = z.infer<typeof callTransferredSchema>;
 
+// ============ Recording Pause Window ============
+
+// A stretch of a recording masked with silence, e.g. while card details are taken.
+// start/end are seconds into the recording; end is unset if the call ended paused.
+export const recordingPauseWindowSchema = z.object({
+  start: z.number(),
+  end: z.number().optional(),
+  pausedAt: z.string().datetime(),
+  resumedAt: z.string().datetime().optional(),
+  source: z.enum(['agent', 'auto']),
+  reason: z.string().optional(),
+});
+
+export type RecordingPauseWindow = z.infer<typeof recordingPauseWindowSchema>;
+
 // ============ Call Recorded Event ============
 
 export const callRecordedSchema = baseEventSchema.extend({
@@ -95,11 +115,17 @@ export const callRecordedSchema = baseEventSchema.extend({
   payload: z.object({
     callId: z.string().uuid(),
     recordingId: z.string().uuid(),
-    recordingUrl: z.string(),
+    recordingUrl: z.string().optional(), // storage URL, set once ready
+    filePath: z.string().optional(), // path on the media server while processing
     duration: z.number(), // seconds
-    fileSize: z.number(), // bytes
+    fileSize: z.number().optional(), // bytes
     format: z.enum(['mp3', 'wav', 'ogg']),
+    codec: z.string().optional(),
+    channels: z.number().int().optional(),
+    sampleRate: z.number().int().optional(), // Hz
     status: z.enum(['processing', 'ready', 'failed']),
+    error: z.string().optional(),
+    pauseWindows: z.array(recordingPauseWindowSchema).optional(),
   }),
 });
 
@@ -120,6 +146,178 @@ export const callOnHoldSchema = baseEventSchema.extend({
 
 export type CallOnHoldEvent = z.infer<typeof callOnHoldSchema>;
 
+// ============ Recording Control Event ============
+
+export const recordingControlActionSchema = z.enum(['pause', 'resume']);
+export type RecordingControlAction = z.infer<typeof recordingControlActionSchema>;
+
+export const callRecordingControlSchema = baseEventSchema.extend({
+  type: z.literal('calls.recording-control'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    action: recordingControlActionSchema,
+    source: z.enum(['agent', 'auto']),
+    agentId: z.string().uuid().optional(), // set for agent requests; must own the call
+    reason: z.string().optional(),
+  }),
+});
+
+export type CallRecordingControlEvent = z.infer<typeof callRecordingControlSchema>;
+
+// ============ Recording State Event ============
+
+export const callRecordingStateSchema = baseEventSchema.extend({
+  type: z.literal('calls.recording-state'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    agentId: z.string().uuid().optional(),
+    action: recordingControlActionSchema,
+    status: z.enum(['applied', 'failed']),
+    paused: z.boolean(), // actual recording state after handling the request
+    source: z.enum(['agent', 'auto']),
+    reason: z.string().optional(),
+    error: z.string().optional(),
+    pauseWindows: z.array(recordingPauseWindowSchema),
+  }),
+});
+
+export type CallRecordingStateEvent = z.infer<typeof callRecordingStateSchema>;
+
+// ============ Recording Consent Event ============
+
+export const callRecordingConsentSchema = baseEventSchema.extend({
+  type: z.literal('calls.recording-consent'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    campaignId: z.string().uuid().optional(),
+    queueId: z.string().uuid().optional(),
+    agentId: z.string().uuid().optional(),
+    mode: recordingConsentModeSchema,
+    outcome: z.enum([
+      'not_required',
+      'announced',
+      'granted',
+      'declined',
+      'no_response',
+      'not_recorded',
+    ]),
+    recording: z.boolean(), // whether the call is being recorded
+    jurisdiction: z.string().optional(), // e.g. US-CA, GB
+  }),
+});
+
+export type CallRecordingConsentEvent = z.infer<typeof callRecordingConsentSchema>;
+
+// ============ Call Monitoring Events ============
+
+// listen: hear both sides; whisper: only the agent hears the supervisor;
+// barge: both sides hear the supervisor
+export const monitorModeSchema = z.enum(['listen', 'whisper', 'barge']);
+export type MonitorMode = z.infer<typeof monitorModeSchema>;
+
+export const callMonitorControlSchema = baseEventSchema.extend({
+  type: z.literal('calls.monitor-control'),
+  payload: z.object({
+    sessionId: z.string().uuid(),
+    callId: z.string().uuid(),
+    supervisorId: z.string().uuid(),
+    extension: z.string(), // the supervisor's softphone, rung to join the call
+    action: z.enum(['start', 'mode', 'stop']),
+    mode: monitorModeSchema,
+  }),
+});
+
+export type CallMonitorControlEvent = z.infer<typeof callMonitorControlSchema>;
+
+export const callMonitorStateSchema = baseEventSchema.extend({
+  type: z.literal('calls.monitor-state'),
+  payload: z.object({
+    sessionId: z.string().uuid(),
+    callId: z.string().uuid(),
+    supervisorId: z.string().uuid(),
+    mode: monitorModeSchema,
+    status: z.enum(['active', 'ended', 'failed']),
+    error: z.string().optional(),
+  }),
+});
+
+export type CallMonitorStateEvent = z.infer<typeof callMonitorStateSchema>;
+
+// ============ Call Transfer Events ============
+
+// id is the agent's user id, the queue id or the phone number
+export const transferTargetSchema = z.object({
+  type: z.enum(['agent', 'queue', 'external']),
+  id: z.string(),
+});
+
+export type TransferTarget = z.infer<typeof transferTargetSchema>;
+
+// blind: the customer goes straight to the target; warm: the agent talks to
+// the target first while the customer is on hold
+export const transferTypeSchema = z.enum(['blind', 'warm']);
+export type TransferType = z.infer<typeof transferTypeSchema>;
+
+export const callTransferControlSchema = baseEventSchema.extend({
+  type: z.literal('calls.transfer-control'),
+  payload: z.object({
+    transferId: z.string().uuid(),
+    callId: z.string().uuid(),
+    agentId: z.string().uuid(),
+    action: z.enum(['start', 'complete', 'cancel', 'conference']),
+    transferType: transferTypeSchema,
+    target: transferTargetSchema,
+    extension: z.string().optional(), // the target agent's softphone
+  }),
+});
+
+export type CallTransferControlEvent = z.infer<typeof callTransferControlSchema>;
+
+// consulting: the target is being dialed; connected: the agent and target
+// are talking while the customer is on hold
+export const callTransferStateSchema = baseEventSchema.extend({
+  type: z.literal('calls.transfer-state'),
+  payload: z.object({
+    transferId: z.string().uuid(),
+    callId: z.string().uuid(),
+    agentId: z.string().uuid(),
+    transferType: transferTypeSchema,
+    target: transferTargetSchema,
+    status: z.enum(['consulting', 'connected', 'completed', 'cancelled', 'conferenced', 'failed']),
+    error: z.string().optional(),
+  }),
+});
+
+export type CallTransferStateEvent = z.infer<typeof callTransferStateSchema>;
+
+// ============ Call Quality Events ============
+
+// One sample of an agent's softphone media, taken by the WebRTC gateway.
+// sessionCallId is the gateway's own call id; the dialer engine puts the
+// sample on the call the agent is on. Jitter and round trip time are in ms,
+// packet loss in percent and bitrate in kbps. alert is set when the call
+// crosses the quality threshold in either direction.
+export const callQualitySampleSchema = baseEventSchema.extend({
+  type: z.literal('calls.quality'),
+  payload: z.object({
+    agentId: z.string().uuid(),
+    sessionCallId: z.string().uuid(),
+    codec: z.string().optional(),
+    jitter: z.number().nonnegative(),
+    packetLoss: z.number().min(0).max(100),
+    roundTripTime: z.number().nonnegative(),
+    bitrate: z.object({
+      incoming: z.number().nonnegative(),
+      outgoing: z.number().nonnegative(),
+    }),
+    mos: z.number().min(1).max(5),
+    degraded: z.boolean(),
+    alert: z.enum(['degraded', 'recovered']).optional(),
+  }),
+});
+
+export type CallQualitySampleEvent = z.infer<typeof callQualitySampleSchema>;
+
 // ============ Queue Events ============
 
 export const queueCallEnqueuedSchema = baseEventSchema.extend({
@@ -149,6 +347,54 @@ export const queueCallDequeuedSchema = baseEventSchema.extend({
 
 export type QueueCallDequeuedEvent = z.infer<typeof queueCallDequeuedSchema>;
 
+export const queueCallOfferedSchema = baseEventSchema.extend({
+  type: z.literal('queues.call-offered'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    queueId: z.string().uuid(),
+    agentIds: z.array(z.string().uuid()), // More than one for ring_all
+    ringTimeout: z.number(), // seconds
+    // Set when the caller left a callback request; the engine dials them back
+    callback: z
+      .object({
+        callbackId: z.string().uuid(),
+        phoneNumber: z.string(),
+      })
+      .optional(),
+  }),
+});
+
+export type QueueCallOfferedEvent = z.infer<typeof queueCallOfferedSchema>;
+
+export const queueCallAnnouncementSchema = baseEventSchema.extend({
+  type: z.literal('queues.call-announcement'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    queueId: z.string().uuid(),
+    position: z.number(),
+    estimatedWaitTime: z.number().optional(), // seconds
+    prompt: z.array(z.string()), // Sound files to play in order
+    callbackOffered: z.boolean().optional(), // Prompt ends with the callback offer
+  }),
+});
+
+export type QueueCallAnnouncementEvent = z.infer<typeof queueCallAnnouncementSchema>;
+
+export const queueCallbackRequestedSchema = baseEventSchema.extend({
+  type: z.literal('queues.callback-requested'),
+  payload: z.object({
+    callId: z.string().uuid(),
+    queueId: z.string().uuid(),
+    phoneNumber: z.string(),
+    requestedTime: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .optional(), // HH:mm in the tenant's timezone; as soon as their turn comes if unset
+  }),
+});
+
+export type QueueCallbackRequestedEvent = z.infer<typeof queueCallbackRequestedSchema>;
+
 export const queueThresholdBreachedSchema = baseEventSchema.extend({
   type: z.literal('queues.threshold-breached'),
   payload: z.object({
@@ -171,9 +417,20 @@ export type CallEvent =
   | CallEndedEvent
   | CallTransferredEvent
   | CallRecordedEvent
-  | CallOnHoldEvent;
+  | CallOnHoldEvent
+  | CallRecordingControlEvent
+  | CallRecordingStateEvent
+  | CallMonitorControlEvent
+  | CallMonitorStateEvent
+  | CallTransferControlEvent
+  | CallTransferStateEvent
+  | CallQualitySampleEvent
+  | CallRecordingConsentEvent;
 
 export type QueueEvent =
   | QueueCallEnqueuedEvent
   | QueueCallDequeuedEvent
+  | QueueCallOfferedEvent
+  | QueueCallAnnouncementEvent
+  | QueueCallbackRequestedEvent
   | QueueThresholdBreachedEvent;
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// ============ Base Event Schema ============
+
+const baseEventSchema = z.object({
+  eventId: z.string().uuid(),
+  tenantId: z.string().uuid(),
+  timestamp: z.string().datetime(),
+  version: z.string().default('1.0'),
+});
+
+export const callbackStatusSchema = z.enum([
+  'pending',
+  'queued',
+  'dialing',
+  'completed',
+  'missed',
+  'rescheduled',
+  'failed',
+]);
+
+export type CallbackStatus = z.infer<typeof callbackStatusSchema>;
+
+// ============ Callback Reminder Event ============
+
+export const callbackReminderSchema = baseEventSchema.extend({
+  type: z.literal('callbacks.reminder'),
+  payload: z.object({
+    callbackId: z.string().uuid(),
+    agentId: z.string().uuid(),
+    leadId: z.string().uuid().optional(),
+    leadName: z.string().optional(),
+    phoneNumber: z.string(),
+    scheduledAt: z.string().datetime(),
+    notes: z.string().optional(),
+  }),
+});
+
+export type CallbackReminderEvent = z.infer<typeof callbackReminderSchema>;
+
+// ============ Callback Status Changed Event ============
+
+export const callbackStatusChangedSchema = baseEventSchema.extend({
+  type: z.literal('callbacks.status-changed'),
+  payload: z.object({
+    callbackId: z.string().uuid(),
+    agentId: z.string().uuid().optional(), // agent the callback is with, notified over the socket
+    status: callbackStatusSchema,
+    previousStatus: callbackStatusSchema,
+    phoneNumber: z.string().optional(),
+    leadName: z.string().optional(),
+    callId: z.string().uuid().optional(),
+    dialAt: z.string().datetime().optional(), // dialing: end of the agent's preview
+    rescheduledTo: z
+      .object({
+        callbackId: z.string().uuid(),
+        scheduledAt: z.string().datetime(),
+      })
+      .optional(),
+    reason: z.string().optional(),
+  }),
+});
+
+export type CallbackStatusChangedEvent = z.infer<typeof callbackStatusChangedSchema>;
+
+// ============ Union Type ============
+
+export type CallbackEvent = CallbackReminderEvent | CallbackStatusChangedEvent;
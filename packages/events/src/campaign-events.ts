@@ -110,6 +110,43 @@ export const campaignListExhaustedSchema = baseEventSchema.extend({
 
 export type CampaignListExhaustedEvent = z.infer<typeof campaignListExhaustedSchema>;
 
+// ============ Campaign Command Event ============
+
+export const campaignCommandActionSchema = z.enum(['start', 'pause', 'stop']);
+export type CampaignCommandAction = z.infer<typeof campaignCommandActionSchema>;
+
+export const campaignCommandSchema = baseEventSchema.extend({
+  type: z.literal('campaigns.command'),
+  payload: z.object({
+    commandId: z.string().uuid(),
+    campaignId: z.string().uuid(),
+    action: campaignCommandActionSchema,
+    requestedBy: z.string().uuid(),
+    reason: z.string().optional(),
+  }),
+});
+
+export type CampaignCommandEvent = z.infer<typeof campaignCommandSchema>;
+
+// ============ Campaign Command Result Event ============
+
+export const campaignCommandResultSchema = baseEventSchema.extend({
+  type: z.literal('campaigns.command-result'),
+  payload: z.object({
+    commandId: z.string().uuid(),
+    campaignId: z.string().uuid(),
+    action: campaignCommandActionSchema,
+    status: z.enum(['acknowledged', 'failed']),
+    isRunning: z.boolean(), // actual dialer state after handling the command
+    dialMode: z.enum(['predictive', 'progressive', 'preview', 'power', 'manual']).optional(),
+    error: z.string().optional(),
+    handledBy: z.string(), // dialer engine instance
+    handledAt: z.string().datetime(),
+  }),
+});
+
+export type CampaignCommandResultEvent = z.infer<typeof campaignCommandResultSchema>;
+
 // ============ Union Type ============
 
 export type CampaignEvent =
@@ -117,4 +154,6 @@ export type CampaignEvent =
   | CampaignPausedEvent
   | CampaignCompletedEvent
   | CampaignLeadDialedEvent
-  | CampaignListExhaustedEvent;
+  | CampaignListExhaustedEvent
+  | CampaignCommandEvent
+  | CampaignCommandResultEvent;
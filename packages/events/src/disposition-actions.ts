@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+// ============ Disposition Next Actions ============
+
+// What dispositioning a call does to its lead:
+// callback - schedule a callback at the time the agent gives
+// recycle  - leave the next attempt to the recycle rules (as does none)
+// dnc      - add the number called to the Do Not Call list
+// remove   - mark the lead invalid, e.g. a wrong number
+export const NEXT_ACTIONS = ['none', 'callback', 'recycle', 'dnc', 'remove'] as const;
+
+export type NextAction = (typeof NEXT_ACTIONS)[number];
+
+// ============ Disposition Follow-up Actions ============
+
+// Statuses a follow-up may set; new and callback would put the lead back in the dialers
+export const FOLLOW_UP_STATUSES = [
+  'contacted',
+  'qualified',
+  'converted',
+  'not_interested',
+] as const;
+
+// Run in order after the next action. The REST API and tRPC both validate
+// against this, so a disposition saved through either can be run.
+export const dispositionActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('move_list'), listId: z.string().uuid() }).strict(),
+  z.object({ type: z.literal('set_status'), status: z.enum(FOLLOW_UP_STATUSES) }).strict(),
+  z
+    .object({
+      type: z.literal('webhook'),
+      url: z
+        .string()
+        .url()
+        .regex(/^https?:\/\//, 'Webhook URL must be http or https'),
+      secret: z.string().max(255).optional(), // signs webhook bodies
+    })
+    .strict(),
+  z.object({ type: z.literal('sms'), message: z.string().min(1).max(2000) }).strict(),
+  z
+    .object({
+      type: z.literal('email'),
+      subject: z.string().min(1).max(255),
+      message: z.string().min(1).max(2000),
+    })
+    .strict(),
+]);
+
+export const dispositionActionsSchema = z.array(dispositionActionSchema).max(10);
+
+export type DispositionAction = z.infer<typeof dispositionActionSchema>;
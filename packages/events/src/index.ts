@@ -6,6 +6,9 @@ export * from './topics';
 export * from './call-events';
 export * from './agent-events';
 export * from './campaign-events';
+export * from './callback-events';
+export * from './lead-events';
 export * from './ai-events';
 export * from './system-events';
 export * from './socket-events';
+export * from './disposition-actions';
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// ============ Base Event Schema ============
+
+const baseEventSchema = z.object({
+  eventId: z.string().uuid(),
+  tenantId: z.string().uuid(),
+  timestamp: z.string().datetime(),
+  version: z.string().default('1.0'),
+});
+
+// ============ Lead Follow-up Event ============
+
+// An SMS or email to a lead, queued by a call's disposition for the messaging
+// service to send. The message is already rendered for the lead.
+export const leadFollowUpSchema = baseEventSchema.extend({
+  type: z.literal('leads.follow-up'),
+  payload: z.object({
+    followUpId: z.string().uuid(),
+    leadId: z.string().uuid(),
+    callId: z.string().uuid(),
+    dispositionCode: z.string(),
+    channel: z.enum(['sms', 'email']),
+    to: z.string(), // phone number or email address
+    subject: z.string().optional(), // email only
+    body: z.string(),
+  }),
+});
+
+export type LeadFollowUpEvent = z.infer<typeof leadFollowUpSchema>;
+
+// ============ Union Type ============
+
+export type LeadEvent = LeadFollowUpEvent;
@@ -1,7 +1,8 @@
 // Socket.io event definitions for real-time client communication
 
 import type { AgentState } from './agent-events';
-import type { CallDirection } from './call-events';
+import type { CallDirection, MonitorMode, TransferTarget, TransferType } from './call-events';
+import type { CallbackStatus } from './callback-events';
 
 // ============================================
 // Server to Client Events
@@ -77,6 +78,100 @@ export interface DashboardStatsPayload {
   timestamp: string;
 }
 
+export interface CampaignStatusPayload {
+  campaignId: string;
+  status: string;
+  isRunning: boolean;
+  commandId?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export interface CallbackReminderPayload {
+  callbackId: string;
+  leadId?: string;
+  leadName?: string;
+  phoneNumber: string;
+  scheduledAt: string;
+  notes?: string;
+  timestamp: string;
+}
+
+export interface CallbackStatusPayload {
+  callbackId: string;
+  status: CallbackStatus;
+  previousStatus: CallbackStatus;
+  phoneNumber?: string;
+  leadName?: string;
+  callId?: string;
+  dialAt?: string;
+  rescheduledTo?: { callbackId: string; scheduledAt: string };
+  reason?: string;
+  timestamp: string;
+}
+
+export interface CallRecordingStatePayload {
+  callId: string;
+  paused: boolean;
+  source: 'agent' | 'auto';
+  reason?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export interface MonitorSessionPayload {
+  sessionId: string;
+  callId: string;
+  agentId?: string;
+  supervisorId: string;
+  supervisorName: string;
+  mode: MonitorMode;
+  status: 'connecting' | 'active' | 'ended' | 'failed';
+  error?: string;
+  startedAt: string;
+  timestamp: string;
+}
+
+export interface CallTransferPayload {
+  transferId: string;
+  callId: string;
+  agentId: string; // the agent who started the transfer
+  transferType: TransferType;
+  target: TransferTarget;
+  targetName?: string;
+  status: 'consulting' | 'connected' | 'completed' | 'cancelled' | 'conferenced' | 'failed';
+  error?: string;
+  timestamp: string;
+}
+
+export interface CallQualityAlertPayload {
+  callId?: string; // unset if the agent's softphone call is not one the dialer placed
+  agentId: string;
+  agentName?: string;
+  phoneNumber?: string;
+  status: 'degraded' | 'recovered';
+  mos: number;
+  jitter: number; // ms
+  packetLoss: number; // percent
+  roundTripTime: number; // ms
+  timestamp: string;
+}
+
+export interface LeadImportProgressPayload {
+  importId: string;
+  listId: string;
+  status: 'processing' | 'completed' | 'failed';
+  percent: number; // of the file read so far
+  processedRows: number;
+  importedRows: number;
+  updatedRows: number;
+  duplicateRows: number;
+  dncRows: number;
+  errorRows: number;
+  error?: string;
+  timestamp: string;
+}
+
 export interface NotificationPayload {
   id: string;
   type: 'info' | 'warning' | 'error' | 'success';
@@ -103,11 +198,28 @@ export interface ServerToClientEvents {
   'call:ended': (payload: CallEndedPayload) => void;
   'call:ringing': (payload: { callId: string; phoneNumber: string }) => void;
   'call:held': (payload: { callId: string; isOnHold: boolean }) => void;
+  'call:recording-state': (payload: CallRecordingStatePayload) => void;
+  // Sent to supervisors' dashboards whenever someone joins, switches mode or leaves
+  'call:monitor-updated': (payload: MonitorSessionPayload) => void;
+  // Sent to the transferring agent, and to the target agent, as a transfer progresses
+  'call:transfer-updated': (payload: CallTransferPayload) => void;
+  // Sent to supervisors' dashboards when an agent's call quality drops or recovers
+  'call:quality-alert': (payload: CallQualityAlertPayload) => void;
 
   // Queue events
   'queue:stats-updated': (payload: QueueStatsPayload) => void;
   'queue:call-waiting': (payload: { queueId: string; callId: string; position: number }) => void;
 
+  // Campaign events
+  'campaign:status-changed': (payload: CampaignStatusPayload) => void;
+
+  // Callback events, sent to the agent the callback is with
+  'callback:reminder': (payload: CallbackReminderPayload) => void;
+  'callback:status-changed': (payload: CallbackStatusPayload) => void;
+
+  // Lead import events, sent to the user who started the import
+  'leads:import-progress': (payload: LeadImportProgressPayload) => void;
+
   // Dashboard events
   'dashboard:stats-updated': (payload: DashboardStatsPayload) => void;
 
@@ -160,7 +272,43 @@ export interface ClientToServerEvents {
     callback: (result: { success: boolean; error?: string }) => void
   ) => void;
   'call:transfer': (
-    data: { callId: string; target: string; type: 'blind' | 'warm' },
+    data: { callId: string; target: TransferTarget; type: TransferType },
+    callback: (result: { success: boolean; transferId?: string; error?: string }) => void
+  ) => void;
+  // Warm transfers: hand the customer to the target, go back to the
+  // customer, or bring everyone into a conference
+  'call:transfer-complete': (
+    data: { transferId: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+  'call:transfer-cancel': (
+    data: { transferId: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+  'call:transfer-conference': (
+    data: { transferId: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+  'call:recording-pause': (
+    data: { callId: string; reason?: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+  'call:recording-resume': (
+    data: { callId: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+
+  // Supervisor monitoring; the supervisor's softphone is rung to join the call
+  'call:monitor-start': (
+    data: { callId: string; mode: MonitorMode },
+    callback: (result: { success: boolean; sessionId?: string; error?: string }) => void
+  ) => void;
+  'call:monitor-mode': (
+    data: { sessionId: string; mode: MonitorMode },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
+  'call:monitor-stop': (
+    data: { sessionId: string },
     callback: (result: { success: boolean; error?: string }) => void
   ) => void;
 
@@ -178,5 +326,8 @@ export interface SocketData {
   tenantId: string;
   role: string;
   agentId?: string;
+  sessionId?: string; // JWT ID; the socket is dropped when the session is revoked
+  issuedAt?: number; // token iat, seconds
+  expiresAt?: number; // token exp, seconds
   authenticatedAt: string;
 }
@@ -10,6 +10,14 @@ export const TOPICS = {
   CALLS_TRANSFERRED: 'calls.transferred',
   CALLS_RECORDED: 'calls.recorded',
   CALLS_ON_HOLD: 'calls.on-hold',
+  CALLS_RECORDING_CONTROL: 'calls.recording-control',
+  CALLS_RECORDING_STATE: 'calls.recording-state',
+  CALLS_RECORDING_CONSENT: 'calls.recording-consent',
+  CALLS_MONITOR_CONTROL: 'calls.monitor-control',
+  CALLS_MONITOR_STATE: 'calls.monitor-state',
+  CALLS_TRANSFER_CONTROL: 'calls.transfer-control',
+  CALLS_TRANSFER_STATE: 'calls.transfer-state',
+  CALLS_QUALITY: 'calls.quality',
 
   // Agent events
   AGENTS_STATE_CHANGED: 'agents.state-changed',
@@ -22,6 +30,9 @@ export const TOPICS = {
   // Queue events
   QUEUES_CALL_ENQUEUED: 'queues.call-enqueued',
   QUEUES_CALL_DEQUEUED: 'queues.call-dequeued',
+  QUEUES_CALL_OFFERED: 'queues.call-offered',
+  QUEUES_CALL_ANNOUNCEMENT: 'queues.call-announcement',
+  QUEUES_CALLBACK_REQUESTED: 'queues.callback-requested',
   QUEUES_THRESHOLD_BREACHED: 'queues.threshold-breached',
   QUEUES_SLA_WARNING: 'queues.sla-warning',
 
@@ -31,6 +42,15 @@ export const TOPICS = {
   CAMPAIGNS_COMPLETED: 'campaigns.completed',
   CAMPAIGNS_LEAD_DIALED: 'campaigns.lead-dialed',
   CAMPAIGNS_LIST_EXHAUSTED: 'campaigns.list-exhausted',
+  CAMPAIGNS_COMMANDS: 'campaigns.commands',
+  CAMPAIGNS_COMMAND_RESULTS: 'campaigns.command-results',
+
+  // Scheduled callback events
+  CALLBACKS_REMINDER: 'callbacks.reminder',
+  CALLBACKS_STATUS_CHANGED: 'callbacks.status-changed',
+
+  // Lead events
+  LEADS_FOLLOW_UP: 'leads.follow-up',
 
   // AI events
   AI_TRANSCRIPTION_STARTED: 'ai.transcription-started',
@@ -67,6 +87,46 @@ export const TOPIC_CONFIG: Record<
   [TOPICS.CALLS_TRANSFERRED]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
   [TOPICS.CALLS_RECORDED]: { partitions: 6, replicationFactor: 2, retentionMs: 604800000 },
   [TOPICS.CALLS_ON_HOLD]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
+  [TOPICS.CALLS_RECORDING_CONTROL]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 3600000,
+  },
+  [TOPICS.CALLS_RECORDING_STATE]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+  [TOPICS.CALLS_RECORDING_CONSENT]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+  [TOPICS.CALLS_MONITOR_CONTROL]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 3600000,
+  },
+  [TOPICS.CALLS_MONITOR_STATE]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+  [TOPICS.CALLS_TRANSFER_CONTROL]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 3600000,
+  },
+  [TOPICS.CALLS_TRANSFER_STATE]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+  [TOPICS.CALLS_QUALITY]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
 
   // Agent events - medium throughput
   [TOPICS.AGENTS_STATE_CHANGED]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
@@ -79,6 +139,17 @@ export const TOPIC_CONFIG: Record<
   // Queue events
   [TOPICS.QUEUES_CALL_ENQUEUED]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
   [TOPICS.QUEUES_CALL_DEQUEUED]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
+  [TOPICS.QUEUES_CALL_OFFERED]: { partitions: 6, replicationFactor: 2, retentionMs: 86400000 },
+  [TOPICS.QUEUES_CALL_ANNOUNCEMENT]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 3600000,
+  },
+  [TOPICS.QUEUES_CALLBACK_REQUESTED]: {
+    partitions: 6,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
   [TOPICS.QUEUES_THRESHOLD_BREACHED]: {
     partitions: 3,
     replicationFactor: 2,
@@ -96,6 +167,23 @@ export const TOPIC_CONFIG: Record<
     replicationFactor: 2,
     retentionMs: 604800000,
   },
+  [TOPICS.CAMPAIGNS_COMMANDS]: { partitions: 3, replicationFactor: 2, retentionMs: 86400000 },
+  [TOPICS.CAMPAIGNS_COMMAND_RESULTS]: {
+    partitions: 3,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+
+  // Callback events - low throughput, only useful while the agent is online
+  [TOPICS.CALLBACKS_REMINDER]: { partitions: 3, replicationFactor: 2, retentionMs: 86400000 },
+  [TOPICS.CALLBACKS_STATUS_CHANGED]: {
+    partitions: 3,
+    replicationFactor: 2,
+    retentionMs: 86400000,
+  },
+
+  // Lead events - SMS and email follow-ups waiting to be sent
+  [TOPICS.LEADS_FOLLOW_UP]: { partitions: 3, replicationFactor: 2, retentionMs: 604800000 },
 
   // AI events
   [TOPICS.AI_TRANSCRIPTION_STARTED]: {
@@ -0,0 +1,57 @@
+import { Kafka, Producer } from 'kafkajs';
+
+let producer: Producer | null = null;
+let connecting: Promise<Producer> | null = null;
+
+/**
+ * Get the shared Kafka producer, connecting lazily on first use since
+ * routers are mounted by whichever server hosts them.
+ */
+async function getProducer(): Promise<Producer> {
+  if (producer) {
+    return producer;
+  }
+
+  if (!connecting) {
+    const kafka = new Kafka({
+      clientId: 'trpc',
+      brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+      retry: {
+        initialRetryTime: 100,
+        retries: 8,
+      },
+    });
+
+    const instance = kafka.producer({ allowAutoTopicCreation: true });
+
+    connecting = instance
+      .connect()
+      .then(() => {
+        producer = instance;
+        return instance;
+      })
+      .finally(() => {
+        connecting = null;
+      });
+  }
+
+  return connecting;
+}
+
+/**
+ * Publish an event. The key defaults to the event ID.
+ */
+export async function publishEvent(topic: string, event: any, key?: string): Promise<void> {
+  const kafkaProducer = await getProducer();
+
+  await kafkaProducer.send({
+    topic,
+    messages: [
+      {
+        key: key || event.eventId,
+        value: JSON.stringify(event),
+        timestamp: Date.now().toString(),
+      },
+    ],
+  });
+}
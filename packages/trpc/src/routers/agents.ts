@@ -239,18 +239,22 @@ export const agentsRouter = router({
     }),
 
   /**
-   * Get my callbacks (for agents)
+   * Get my callbacks (for agents): ones scheduled for me and queue callbacks
+   * (virtual hold) I was assigned to dial
    */
   myCallbacks: agentProcedure
     .input(
       z.object({
-        status: z.enum(['pending', 'completed']).optional(),
+        status: z
+          .enum(['pending', 'queued', 'dialing', 'completed', 'missed', 'rescheduled', 'failed'])
+          .optional(),
+        source: z.enum(['manual', 'virtual_hold']).optional(),
         page: z.number().min(1).default(1),
         limit: z.number().min(1).max(50).default(20),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { status, page, limit } = input;
+      const { status, source, page, limit } = input;
       const offset = (page - 1) * limit;
 
       const conditions = [
@@ -262,6 +266,10 @@ export const agentsRouter = router({
         conditions.push(eq(callbackSchedules.status, status));
       }
 
+      if (source) {
+        conditions.push(eq(callbackSchedules.source, source));
+      }
+
       const [callbacks, [{ total }]] = await Promise.all([
         db.query.callbackSchedules.findMany({
           where: and(...conditions),
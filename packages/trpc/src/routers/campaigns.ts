@@ -1,10 +1,42 @@
 import { z } from 'zod';
 import { eq, and, desc, count, sql } from 'drizzle-orm';
-import { getDb, campaigns, leads, leadLists, dispositions, calls } from '@nexusdialer/database';
+import {
+  getDb,
+  campaigns,
+  leads,
+  leadLists,
+  dispositions,
+  calls,
+  dispatchCampaignCommand,
+  DialerUnavailableError,
+  type Campaign,
+} from '@nexusdialer/database';
+import type { CampaignCommandAction } from '@nexusdialer/events';
 import { router, protectedProcedure, supervisorProcedure, adminProcedure, TRPCError } from '../server';
+import { publishEvent } from '../lib/kafka';
 
 const db = getDb();
 
+/**
+ * Change a campaign's status and send the dialer engine the matching command
+ */
+async function sendCampaignCommand(
+  campaign: Campaign,
+  status: string,
+  action: CampaignCommandAction,
+  requestedBy: string
+): Promise<{ campaign: Campaign; commandId: string }> {
+  try {
+    return await dispatchCampaignCommand(campaign, status, action, requestedBy, publishEvent);
+  } catch (error) {
+    if (error instanceof DialerUnavailableError) {
+      throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: error.message, cause: error });
+    }
+
+    throw error;
+  }
+}
+
 export const campaignsRouter = router({
   /**
    * List campaigns with pagination
@@ -235,15 +267,14 @@ export const campaignsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
       }
 
-      const [updated] = await db
-        .update(campaigns)
-        .set({ status: 'active', updatedAt: new Date() })
-        .where(eq(campaigns.id, input.id))
-        .returning();
-
-      // TODO: Emit event to start dialer engine
+      const { campaign: updated, commandId } = await sendCampaignCommand(
+        existing,
+        'active',
+        'start',
+        ctx.user.id
+      );
 
-      return updated;
+      return { ...updated, commandId };
     }),
 
   /**
@@ -260,13 +291,14 @@ export const campaignsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
       }
 
-      const [updated] = await db
-        .update(campaigns)
-        .set({ status: 'paused', updatedAt: new Date() })
-        .where(eq(campaigns.id, input.id))
-        .returning();
+      const { campaign: updated, commandId } = await sendCampaignCommand(
+        existing,
+        'paused',
+        'pause',
+        ctx.user.id
+      );
 
-      return updated;
+      return { ...updated, commandId };
     }),
 
   /**
@@ -283,12 +315,13 @@ export const campaignsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
       }
 
-      const [updated] = await db
-        .update(campaigns)
-        .set({ status: 'stopped', updatedAt: new Date() })
-        .where(eq(campaigns.id, input.id))
-        .returning();
+      const { campaign: updated, commandId } = await sendCampaignCommand(
+        existing,
+        'stopped',
+        'stop',
+        ctx.user.id
+      );
 
-      return updated;
+      return { ...updated, commandId };
     }),
 });
@@ -1,10 +1,35 @@
 import { z } from 'zod';
-import { eq, and, asc, count } from 'drizzle-orm';
-import { getDb, dispositions } from '@nexusdialer/database';
+import { eq, and, asc, count, inArray } from 'drizzle-orm';
+import { getDb, dispositions, leadLists } from '@nexusdialer/database';
+import {
+  NEXT_ACTIONS,
+  dispositionActionsSchema,
+  type DispositionAction,
+} from '@nexusdialer/events';
 import { router, protectedProcedure, supervisorProcedure, adminProcedure, TRPCError } from '../server';
 
 const db = getDb();
 
+/**
+ * Check the lists a disposition's follow-ups move leads to are the tenant's
+ */
+async function checkActionLists(tenantId: string, actions: DispositionAction[]): Promise<void> {
+  const listIds = actions.flatMap((action) => (action.type === 'move_list' ? [action.listId] : []));
+
+  if (listIds.length === 0) {
+    return;
+  }
+
+  const lists = await db.query.leadLists.findMany({
+    where: and(eq(leadLists.tenantId, tenantId), inArray(leadLists.id, listIds)),
+    columns: { id: true },
+  });
+
+  if (lists.length < new Set(listIds).size) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Lead list not found' });
+  }
+}
+
 export const dispositionsRouter = router({
   /**
    * List dispositions for a campaign or all
@@ -74,13 +99,16 @@ export const dispositionsRouter = router({
         description: z.string().optional(),
         isPositive: z.boolean().default(false),
         requiresCallback: z.boolean().default(false),
-        nextAction: z.enum(['none', 'callback', 'recycle', 'dnc']).default('none'),
+        nextAction: z.enum(NEXT_ACTIONS).default('none'),
+        actions: dispositionActionsSchema.default([]),
         sortOrder: z.number().default(0),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { isPositive, requiresCallback, ...rest } = input;
 
+      await checkActionLists(ctx.user.tenantId, rest.actions);
+
       const [newDisposition] = await db
         .insert(dispositions)
         .values({
@@ -106,7 +134,8 @@ export const dispositionsRouter = router({
         description: z.string().nullable().optional(),
         isPositive: z.boolean().optional(),
         requiresCallback: z.boolean().optional(),
-        nextAction: z.enum(['none', 'callback', 'recycle', 'dnc']).optional(),
+        nextAction: z.enum(NEXT_ACTIONS).optional(),
+        actions: dispositionActionsSchema.optional(),
         sortOrder: z.number().optional(),
       })
     )
@@ -121,6 +150,10 @@ export const dispositionsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Disposition not found' });
       }
 
+      if (rest.actions) {
+        await checkActionLists(ctx.user.tenantId, rest.actions);
+      }
+
       const updates: any = { ...rest, updatedAt: new Date() };
       if (isPositive !== undefined) updates.isPositive = isPositive ? 1 : 0;
       if (requiresCallback !== undefined) updates.requiresCallback = requiresCallback ? 1 : 0;
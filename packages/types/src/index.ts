@@ -49,6 +49,20 @@ export interface TenantSettings {
     omnichannelEnabled: boolean;
     recordingEnabled: boolean;
   };
+  retention?: TenantRetentionSettings;
+}
+
+/**
+ * How long call data is kept, in days from the call. Unset means forever.
+ */
+export interface RetentionPolicy {
+  recordingDays?: number; // audio in object storage
+  transcriptDays?: number; // transcriptions and agent assist events
+}
+
+export interface TenantRetentionSettings extends RetentionPolicy {
+  // Per-campaign overrides, keyed by campaign id; unset fields fall back to the tenant's
+  campaigns?: Record<UUID, RetentionPolicy>;
 }
 
 // ============ User Types ============
@@ -122,7 +136,8 @@ export interface Campaign extends Timestamps {
   status: CampaignStatus;
   settings: CampaignSettings;
   schedule: CampaignSchedule;
-  callerIdId?: UUID;
+  callerIdId?: UUID; // a single number, used when the campaign has no pool
+  callerIdPoolId?: UUID;
 }
 
 export interface CampaignSettings {
@@ -132,8 +147,39 @@ export interface CampaignSettings {
   retryInterval: number;
   amdEnabled: boolean;
   amdAction: 'hangup' | 'leave_message' | 'transfer';
+  amdVoicemailAudioId?: UUID; // Audio file dropped when amdAction is leave_message
+  amdTransferQueueId?: UUID; // Queue machine-answered calls go to when amdAction is transfer
   wrapUpTime: number;
   priorityWeight: number;
+  recordingConsent?: RecordingConsentSettings;
+}
+
+export type RecordingConsentMode =
+  | 'record' // no disclosure needed
+  | 'announce' // play the recording disclosure, then record
+  | 'dtmf' // record only once the callee presses 1
+  | 'never'; // do not record
+
+export type RecordingConsentOutcome =
+  | 'not_required'
+  | 'announced'
+  | 'granted'
+  | 'declined'
+  | 'no_response'
+  | 'not_recorded';
+
+/**
+ * How a campaign or queue gets consent to record, by where the other party's
+ * number is. The most specific rule wins: state, then all-party-consent
+ * states, then country, then defaultMode.
+ */
+export interface RecordingConsentSettings {
+  defaultMode: RecordingConsentMode;
+  allPartyMode?: RecordingConsentMode; // US states where every party must consent
+  states?: Record<string, RecordingConsentMode>; // by US state, e.g. { CA: 'dtmf' }
+  countries?: Record<string, RecordingConsentMode>; // by ISO country, e.g. { DE: 'never' }
+  announcementAudioId?: UUID; // Audio file for the disclosure
+  consentPromptAudioId?: UUID; // Audio file asking the callee to press 1
 }
 
 export interface CampaignSchedule {
@@ -153,6 +199,7 @@ export type LeadStatus =
   | 'not_interested'
   | 'dnc'
   | 'invalid'
+  | 'exhausted'
   | 'converted';
 
 export interface Lead extends Timestamps {
@@ -266,9 +313,16 @@ export interface QueueSettings {
   announcePosition: boolean;
   announceWaitTime: boolean;
   announceInterval: number;
+  positionPromptId?: UUID; // Audio file played before the caller's position
+  waitTimePromptId?: UUID; // Audio file played before the estimated wait
+  callbackEnabled?: boolean; // Offer waiting callers a callback that keeps their place
+  callbackOfferAfter?: number; // seconds waited before the callback offer is played
+  callbackPromptId?: UUID; // Audio file for the callback offer
   wrapUpTime: number;
   serviceLevelTarget: number; // seconds
   serviceLevelThreshold: number; // percentage
+  requiredSkills?: AgentSkill[]; // level is the minimum an agent needs to take calls
+  recordingConsent?: RecordingConsentSettings;
 }
 
 // ============ Agent State Types ============
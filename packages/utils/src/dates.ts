@@ -8,7 +8,7 @@ import {
   addSeconds,
   differenceInSeconds,
 } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
 
 /**
  * Format date to ISO string
@@ -58,6 +58,19 @@ export function getDateInTimezone(date: Date, timezone: string): Date {
   return toZonedTime(date, timezone);
 }
 
+/**
+ * Next occurrence of a wall-clock time (HH:mm) in a timezone: today if it is
+ * still ahead, otherwise tomorrow
+ */
+export function getNextTimeOfDay(time: string, timezone: string, from: Date = new Date()): Date {
+  const atTime = (day: Date) =>
+    fromZonedTime(`${formatInTimeZone(day, timezone, 'yyyy-MM-dd')}T${time}:00`, timezone);
+
+  const today = atTime(from);
+
+  return today > from ? today : atTime(addSeconds(from, 86400));
+}
+
 /**
  * Format relative time (e.g., "5 minutes ago")
  */
@@ -4,7 +4,10 @@
 
 export * from './dates';
 export * from './phone';
+export * from './area-codes';
 export * from './validation';
 export * from './ids';
 export * from './errors';
 export * from './format';
+export * from './redaction';
+export * from './recording-consent';
@@ -0,0 +1,75 @@
+/**
+ * Recording consent rules by jurisdiction
+ */
+
+import { getCountryCode } from './phone';
+import { getUSStateForPhoneNumber } from './area-codes';
+
+// States whose wiretap laws require every party to consent to a recording.
+// Deliberately broad: includes states where courts have read it that way.
+export const ALL_PARTY_CONSENT_STATES = [
+  'CA',
+  'CT',
+  'DE',
+  'FL',
+  'IL',
+  'MD',
+  'MA',
+  'MI',
+  'MT',
+  'NV',
+  'NH',
+  'OR',
+  'PA',
+  'WA',
+];
+
+export interface RecordingConsentRules<Mode extends string> {
+  defaultMode: Mode;
+  allPartyMode?: Mode;
+  states?: Record<string, Mode>;
+  countries?: Record<string, Mode>;
+}
+
+/**
+ * Where a number is, as precisely as we can tell: US-CA, US, GB
+ */
+export function getJurisdiction(phone: string): string | null {
+  const country = getCountryCode(phone);
+
+  if (country === 'US') {
+    const state = getUSStateForPhoneNumber(phone);
+    return state ? `US-${state}` : country;
+  }
+
+  return country;
+}
+
+/**
+ * Pick the consent mode for a call to or from a number. The most specific
+ * rule wins: the number's US state, then the all-party-consent states, then
+ * its country, then the default.
+ */
+export function resolveRecordingConsent<Mode extends string>(
+  phone: string,
+  rules: RecordingConsentRules<Mode>
+): { mode: Mode; jurisdiction: string | null } {
+  const jurisdiction = getJurisdiction(phone);
+  const [country, state] = jurisdiction?.split('-') ?? [];
+
+  if (state) {
+    const stateMode = rules.states?.[state];
+
+    if (stateMode) {
+      return { mode: stateMode, jurisdiction };
+    }
+
+    if (rules.allPartyMode && ALL_PARTY_CONSENT_STATES.includes(state)) {
+      return { mode: rules.allPartyMode, jurisdiction };
+    }
+  }
+
+  const countryMode = country ? rules.countries?.[country] : undefined;
+
+  return { mode: countryMode ?? rules.defaultMode, jurisdiction };
+}
@@ -0,0 +1,52 @@
+/**
+ * Payment card redaction for transcripts and other free text
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// 13-19 digits, optionally grouped with single spaces or dashes
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+// A 3-4 digit code spoken shortly after naming it
+const SECURITY_CODE_PATTERN = /\b(cvv2?|cvc2?|security code)\b(\D{0,20}?)\d{3,4}\b/gi;
+
+/**
+ * Luhn checksum, which every issued card number passes
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+
+    sum += digit;
+  }
+
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Check text for something that looks like a card number
+ */
+export function containsCardNumber(text: string): boolean {
+  return (text.match(CARD_NUMBER_PATTERN) ?? []).some((match) =>
+    isLuhnValid(match.replace(/\D/g, ''))
+  );
+}
+
+/**
+ * Replace card numbers and security codes in text. Digit runs that fail
+ * the Luhn check (phone numbers, order numbers) are left alone.
+ */
+export function redactCardNumbers(text: string): string {
+  return text
+    .replace(CARD_NUMBER_PATTERN, (match) =>
+      isLuhnValid(match.replace(/\D/g, '')) ? REDACTED : match
+    )
+    .replace(SECURITY_CODE_PATTERN, `$1$2${REDACTED}`);
+}
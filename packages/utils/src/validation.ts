@@ -53,6 +53,8 @@ export const campaignSettingsSchema = z.object({
   retryInterval: z.number().min(60).max(86400).default(3600),
   amdEnabled: z.boolean().default(true),
   amdAction: z.enum(['hangup', 'leave_message', 'transfer']).default('hangup'),
+  amdVoicemailAudioId: z.string().uuid().optional(),
+  amdTransferQueueId: z.string().uuid().optional(),
   wrapUpTime: z.number().min(0).max(600).default(30),
   priorityWeight: z.number().min(1).max(100).default(50),
 });
@@ -106,9 +108,17 @@ export const queueSettingsSchema = z.object({
   announcePosition: z.boolean().default(true),
   announceWaitTime: z.boolean().default(true),
   announceInterval: z.number().min(10).max(300).default(60),
+  positionPromptId: uuidSchema.optional(),
+  waitTimePromptId: uuidSchema.optional(),
+  callbackEnabled: z.boolean().default(false),
+  callbackOfferAfter: z.number().min(0).max(3600).default(120),
+  callbackPromptId: uuidSchema.optional(),
   wrapUpTime: z.number().min(0).max(600).default(30),
   serviceLevelTarget: z.number().min(1).max(300).default(20),
   serviceLevelThreshold: z.number().min(1).max(100).default(80),
+  requiredSkills: z
+    .array(z.object({ skillId: uuidSchema, level: z.number().min(1).max(10) }))
+    .optional(),
 });
 
 export const createQueueSchema = z.object({
@@ -9,12 +9,15 @@ declare module '@fastify/jwt' {
       tenantId: string;
       email: string;
       role: UserRole;
+      jti: string;
     };
     user: {
       userId: string;
       tenantId: string;
       email: string;
       role: UserRole;
+      jti?: string;
+      exp?: number;
     };
   }
 }
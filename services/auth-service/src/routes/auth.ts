@@ -2,6 +2,7 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { authService } from '../services/auth.service.js';
 import { authenticate } from '../middleware/auth.js';
+import { revokeSession } from '../services/session.service.js';
 import { loginSchema, passwordSchema } from '@nexusdialer/utils';
 
 // Request schemas
@@ -108,9 +109,19 @@ export async function authRoutes(app: FastifyInstance) {
 
   /**
    * POST /api/v1/auth/logout
-   * Clear authentication cookie
+   * Revoke the session and clear authentication cookie
    */
   app.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await request.jwtVerify();
+    } catch {
+      // An invalid or expired token has nothing left to revoke
+    }
+
+    if (request.user?.jti) {
+      await revokeSession(request.user.jti, request.user.exp);
+    }
+
     reply.clearCookie('token', { path: '/' });
 
     return reply.send({
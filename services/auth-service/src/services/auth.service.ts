@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import * as argon2 from 'argon2';
 import { eq, and } from 'drizzle-orm';
 import { getDb, users, tenants, agentProfiles } from '@nexusdialer/database';
@@ -29,6 +30,7 @@ export interface TokenPayload {
   tenantId: string;
   email: string;
   role: UserRole;
+  jti: string; // session ID, so a logout can revoke the token
 }
 
 export interface UserWithTenant {
@@ -285,6 +287,7 @@ class AuthService {
       tenantId: user.tenantId,
       email: user.email,
       role: user.role,
+      jti: randomUUID(),
     };
   }
 }
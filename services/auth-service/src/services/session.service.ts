@@ -0,0 +1,33 @@
+import { Redis } from 'ioredis';
+
+// Shared with the API gateway, which checks these keys on every request
+// and socket connection and drops sockets on the channel's messages
+const SESSION_KEYS = {
+  revoked: (sessionId: string) => `session:revoked:${sessionId}`,
+  channel: 'sessions:revoked',
+};
+
+let redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!redis) {
+    redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+  }
+
+  return redis;
+}
+
+/**
+ * Revoke the session a token belongs to, until the token would have expired
+ */
+export async function revokeSession(sessionId: string, expiresAt?: number): Promise<void> {
+  const ttl = expiresAt ? expiresAt - Math.floor(Date.now() / 1000) : 30 * 24 * 60 * 60;
+
+  if (ttl <= 0) {
+    return;
+  }
+
+  const client = getRedis();
+  await client.setex(SESSION_KEYS.revoked(sessionId), ttl, '1');
+  await client.publish(SESSION_KEYS.channel, JSON.stringify({ sessionId }));
+}
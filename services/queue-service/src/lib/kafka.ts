@@ -0,0 +1,76 @@
+import { Kafka, Producer, Consumer } from 'kafkajs';
+
+let kafka: Kafka | null = null;
+let producer: Producer | null = null;
+
+function getKafka(): Kafka {
+  if (!kafka) {
+    kafka = new Kafka({
+      clientId: 'queue-service',
+      brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+      retry: {
+        initialRetryTime: 100,
+        retries: 8,
+      },
+    });
+  }
+  return kafka;
+}
+
+export async function initKafkaProducer(): Promise<Producer> {
+  if (producer) {
+    return producer;
+  }
+
+  producer = getKafka().producer({
+    allowAutoTopicCreation: true,
+  });
+
+  await producer.connect();
+
+  return producer;
+}
+
+/**
+ * Create and connect a consumer for the given group.
+ * Each caller owns its consumer and is responsible for disconnecting it.
+ */
+export async function createKafkaConsumer(groupId: string): Promise<Consumer> {
+  const consumer = getKafka().consumer({
+    groupId,
+    sessionTimeout: 30000,
+    heartbeatInterval: 3000,
+  });
+
+  await consumer.connect();
+
+  return consumer;
+}
+
+/**
+ * Publish an event. The key defaults to the event ID; pass an explicit key
+ * (e.g. a call ID) when ordering per entity matters.
+ */
+export async function publishEvent(topic: string, event: any, key?: string): Promise<void> {
+  if (!producer) {
+    throw new Error('Kafka producer not initialized');
+  }
+
+  await producer.send({
+    topic,
+    messages: [
+      {
+        key: key || event.eventId,
+        value: JSON.stringify(event),
+        timestamp: Date.now().toString(),
+      },
+    ],
+  });
+}
+
+export async function disconnectKafka(): Promise<void> {
+  if (producer) {
+    await producer.disconnect();
+    producer = null;
+  }
+}
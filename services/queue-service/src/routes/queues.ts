@@ -0,0 +1,41 @@
+import type { FastifyInstance } from 'fastify';
+import type { QueueEngine } from '../services/queue-engine.js';
+
+export async function queueRoutes(app: FastifyInstance, opts: { engine: QueueEngine }) {
+  const { engine } = opts;
+
+  /**
+   * GET /:id/realtime
+   * Callers waiting right now and the longest wait
+   */
+  app.get<{ Params: { id: string } }>('/:id/realtime', async (request, reply) => {
+    const stats = await engine.getStats(request.params.id);
+
+    return reply.send({
+      success: true,
+      data: stats,
+    });
+  });
+
+  /**
+   * GET /:id/calls
+   * Waiting callers in queue order
+   */
+  app.get<{ Params: { id: string } }>('/:id/calls', async (request, reply) => {
+    const calls = await engine.listWaiting(request.params.id);
+    const now = Date.now();
+
+    return reply.send({
+      success: true,
+      data: {
+        calls: calls.map((call, index) => ({
+          callId: call.callId,
+          phoneNumber: call.phoneNumber,
+          position: index + 1,
+          waitTime: Math.floor((now - call.enqueuedAt) / 1000),
+          offeredTo: call.offer?.agentIds ?? [],
+        })),
+      },
+    });
+  });
+}
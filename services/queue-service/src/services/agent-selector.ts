@@ -0,0 +1,80 @@
+import type { AgentSkill, QueueStrategy } from '@nexusdialer/types';
+
+export interface CandidateAgent {
+  agentId: string;
+  extension: string;
+  idleSince: number; // ms
+  totalCalls: number;
+  skills: AgentSkill[];
+}
+
+/**
+ * Whether an agent has every skill a queue requires, at or above the level set
+ */
+export function meetsSkillRequirements(agent: CandidateAgent, required: AgentSkill[]): boolean {
+  return required.every((requirement) =>
+    agent.skills.some(
+      (skill) => skill.skillId === requirement.skillId && skill.level >= requirement.level
+    )
+  );
+}
+
+/**
+ * Sum of the agent's levels in the queue's skills; all skills when the
+ * queue has no requirements
+ */
+function skillScore(agent: CandidateAgent, required: AgentSkill[]): number {
+  const relevant =
+    required.length > 0
+      ? agent.skills.filter((skill) => required.some((r) => r.skillId === skill.skillId))
+      : agent.skills;
+
+  return relevant.reduce((sum, skill) => sum + skill.level, 0);
+}
+
+const byLongestIdle = (a: CandidateAgent, b: CandidateAgent) => a.idleSince - b.idleSince;
+
+/**
+ * Pick the agent(s) to offer a call to. Candidates must already be available
+ * and qualified; ring_all returns all of them, every other strategy one.
+ */
+export function selectAgents(
+  strategy: QueueStrategy,
+  candidates: CandidateAgent[],
+  required: AgentSkill[],
+  lastRoundRobinAgentId?: string | null
+): CandidateAgent[] {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  switch (strategy) {
+    case 'ring_all':
+      return [...candidates];
+
+    case 'round_robin': {
+      const ordered = [...candidates].sort((a, b) => a.agentId.localeCompare(b.agentId));
+      const next = lastRoundRobinAgentId
+        ? ordered.find((agent) => agent.agentId.localeCompare(lastRoundRobinAgentId) > 0)
+        : undefined;
+
+      return [next ?? ordered[0]];
+    }
+
+    case 'least_calls':
+      return [
+        [...candidates].sort((a, b) => a.totalCalls - b.totalCalls || byLongestIdle(a, b))[0],
+      ];
+
+    case 'skills_based':
+      return [
+        [...candidates].sort(
+          (a, b) => skillScore(b, required) - skillScore(a, required) || byLongestIdle(a, b)
+        )[0],
+      ];
+
+    case 'longest_idle':
+    default:
+      return [[...candidates].sort(byLongestIdle)[0]];
+  }
+}
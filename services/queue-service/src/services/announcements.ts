@@ -0,0 +1,106 @@
+/**
+ * Queue announcement prompts, played to waiting callers as FreeSWITCH
+ * sound files. Numbers are spoken with the stock digits/ and time/ sounds,
+ * the same files mod_say_en uses.
+ */
+
+// Stock lead-ins when the queue has no tenant prompt configured
+const DEFAULT_POSITION_PROMPT = 'ivr/ivr-you_are_number.wav';
+const DEFAULT_WAIT_TIME_PROMPT = 'ivr/ivr-estimated_wait_time.wav';
+// "Press 1 to be called back when it is your turn, or 2 to pick a time"
+const DEFAULT_CALLBACK_PROMPT = 'nexus/queue-callback-offer.wav';
+
+/**
+ * Sound files that speak a whole number (0-999999)
+ */
+export function numberToSpeech(value: number): string[] {
+  const n = Math.max(0, Math.floor(value));
+
+  if (n < 20) {
+    return [`digits/${n}.wav`];
+  }
+
+  if (n < 100) {
+    const tens = Math.floor(n / 10) * 10;
+    return n % 10 === 0 ? [`digits/${tens}.wav`] : [`digits/${tens}.wav`, `digits/${n % 10}.wav`];
+  }
+
+  if (n < 1000) {
+    const rest = n % 100;
+    return [
+      `digits/${Math.floor(n / 100)}.wav`,
+      'digits/hundred.wav',
+      ...(rest > 0 ? numberToSpeech(rest) : []),
+    ];
+  }
+
+  const rest = n % 1000;
+  return [
+    ...numberToSpeech(Math.floor(n / 1000)),
+    'digits/thousand.wav',
+    ...(rest > 0 ? numberToSpeech(rest) : []),
+  ];
+}
+
+/**
+ * Estimated wait for a caller at a position: callers ahead are shared
+ * across the staffed agents, each taking the average handle time.
+ * Unknown when nobody is staffed.
+ */
+export function estimateWaitTime(
+  position: number,
+  avgHandleTime: number,
+  staffedAgents: number
+): number | undefined {
+  if (staffedAgents <= 0) {
+    return undefined;
+  }
+
+  return Math.round((position * avgHandleTime) / staffedAgents);
+}
+
+/**
+ * Build the announcement for a caller, e.g. "you are number 3 ...
+ * estimated wait 4 minutes", optionally followed by the callback offer.
+ * Wait times are rounded up to whole minutes.
+ */
+export function buildAnnouncement(params: {
+  position?: number;
+  estimatedWaitTime?: number;
+  offerCallback?: boolean;
+  positionPrompt?: string | null;
+  waitTimePrompt?: string | null;
+  callbackPrompt?: string | null;
+}): string[] {
+  const prompt: string[] = [];
+
+  if (params.position !== undefined) {
+    prompt.push(
+      params.positionPrompt || DEFAULT_POSITION_PROMPT,
+      ...numberToSpeech(params.position)
+    );
+  }
+
+  if (params.estimatedWaitTime !== undefined) {
+    const minutes = Math.max(1, Math.ceil(params.estimatedWaitTime / 60));
+
+    prompt.push(
+      params.waitTimePrompt || DEFAULT_WAIT_TIME_PROMPT,
+      ...numberToSpeech(minutes),
+      minutes === 1 ? 'time/minute.wav' : 'time/minutes.wav'
+    );
+  }
+
+  if (params.offerCallback) {
+    prompt.push(params.callbackPrompt || DEFAULT_CALLBACK_PROMPT);
+  }
+
+  return prompt;
+}
+
+/**
+ * Playable path for a tenant audio file; remote files go through mod_http_cache
+ */
+export function toPlayablePath(fileUrl: string): string {
+  return /^https?:\/\//.test(fileUrl) ? `http_cache://${fileUrl}` : fileUrl;
+}
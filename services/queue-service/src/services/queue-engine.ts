@@ -0,0 +1,892 @@
+import { randomUUID } from 'crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { Redis } from 'ioredis';
+import type { Consumer } from 'kafkajs';
+import { eq, and, inArray, isNotNull, desc, lte } from 'drizzle-orm';
+import {
+  getDb,
+  queues,
+  agentProfiles,
+  calls,
+  audioFiles,
+  callbackSchedules,
+  tenants,
+  type Queue,
+} from '@nexusdialer/database';
+import {
+  TOPICS,
+  callStartedSchema,
+  callAnsweredSchema,
+  callEndedSchema,
+  callTransferredSchema,
+  callRecordingConsentSchema,
+  queueCallbackRequestedSchema,
+  type QueueCallEnqueuedEvent,
+  type QueueCallDequeuedEvent,
+  type QueueCallOfferedEvent,
+  type QueueCallAnnouncementEvent,
+  type QueueCallbackRequestedEvent,
+} from '@nexusdialer/events';
+import type { AgentSkill, QueueSettings, QueueStrategy, TenantSettings } from '@nexusdialer/types';
+import { getNextTimeOfDay } from '@nexusdialer/utils';
+import { createKafkaConsumer, publishEvent } from '../lib/kafka.js';
+import { QueueStore, type QueuedCall, type QueueMetrics } from './queue-store.js';
+import { selectAgents, meetsSkillRequirements, type CandidateAgent } from './agent-selector.js';
+import { buildAnnouncement, estimateWaitTime, toPlayablePath } from './announcements.js';
+
+type DequeueReason = QueueCallDequeuedEvent['payload']['reason'];
+
+/**
+ * An agent staffing a queue: logged in, with an extension and the queue's skills
+ */
+interface QueueAgent extends CandidateAgent {
+  state: string;
+}
+
+const DISTRIBUTION_INTERVAL = 1000;
+const QUEUE_CACHE_TTL = 30000;
+// Extra time past the ring timeout before an unanswered offer is withdrawn
+const OFFER_GRACE_SECONDS = 5;
+// Handle time assumed until a queue has answered calls to average
+const DEFAULT_HANDLE_TIME = 180;
+const HANDLE_TIME_SAMPLE_SIZE = 50;
+const HANDLE_TIME_CACHE_TTL = 60000;
+const DEFAULT_ANNOUNCE_INTERVAL = 60;
+const DEFAULT_CALLBACK_OFFER_AFTER = 120;
+// How often callbacks for a chosen time are checked, and how long the caller is rung
+const CALLBACK_POLL_INTERVAL = 15000;
+const CALLBACK_RING_TIMEOUT = 30;
+const DEFAULT_TIMEZONE = 'America/New_York';
+// Longest a caller is held back from agents for the recording consent prompt
+const CONSENT_WAIT_LIMIT = 30000;
+
+/**
+ * ACD queue engine. Inbound callers are enqueued when the dialer engine
+ * reports them (calls.started with a queueId, or calls.transferred to a
+ * queue), offered to agents by the queue's strategy, overflowed once they
+ * wait past maxWaitTime, and removed when an agent answers or the caller
+ * hangs up. Callers who leave a callback request keep their place and are
+ * dialed back when it reaches an agent.
+ */
+export class QueueEngine {
+  private db = getDb();
+  private store: QueueStore;
+  private consumer?: Consumer;
+  private distributionInterval?: NodeJS.Timeout;
+  private callbackInterval?: NodeJS.Timeout;
+  private isDistributing = false;
+  private queueCache: Map<string, { queue: Queue; loadedAt: number }> = new Map();
+  private handleTimeCache: Map<string, { avgHandleTime: number; loadedAt: number }> = new Map();
+
+  constructor(
+    redis: Redis,
+    private log: FastifyBaseLogger
+  ) {
+    this.store = new QueueStore(redis);
+  }
+
+  async start(): Promise<void> {
+    this.consumer = await createKafkaConsumer('queue-service');
+
+    await this.consumer.subscribe({
+      topics: [
+        TOPICS.CALLS_STARTED,
+        TOPICS.CALLS_ANSWERED,
+        TOPICS.CALLS_ENDED,
+        TOPICS.CALLS_TRANSFERRED,
+        TOPICS.CALLS_RECORDING_CONSENT,
+        TOPICS.QUEUES_CALLBACK_REQUESTED,
+      ],
+      fromBeginning: false,
+    });
+
+    await this.consumer.run({
+      eachMessage: async ({ topic, message }) => {
+        if (!message.value) return;
+
+        try {
+          await this.handleCallEvent(topic, JSON.parse(message.value.toString()));
+        } catch (error) {
+          this.log.error({ error, topic, offset: message.offset }, 'Error handling call event');
+        }
+      },
+    });
+
+    this.distributionInterval = setInterval(() => {
+      this.distribute().catch((error) => {
+        this.log.error({ error }, 'Error distributing queued calls');
+      });
+    }, DISTRIBUTION_INTERVAL);
+
+    this.callbackInterval = setInterval(() => {
+      this.enqueueDueCallbacks().catch((error) => {
+        this.log.error({ error }, 'Error queueing scheduled callbacks');
+      });
+    }, CALLBACK_POLL_INTERVAL);
+
+    this.log.info('Queue engine started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.distributionInterval) {
+      clearInterval(this.distributionInterval);
+      this.distributionInterval = undefined;
+    }
+
+    if (this.callbackInterval) {
+      clearInterval(this.callbackInterval);
+      this.callbackInterval = undefined;
+    }
+
+    await this.consumer?.disconnect();
+  }
+
+  getStats(queueId: string) {
+    return this.store.getStats(queueId);
+  }
+
+  listWaiting(queueId: string) {
+    return this.store.listWaiting(queueId);
+  }
+
+  private async handleCallEvent(topic: string, event: unknown): Promise<void> {
+    switch (topic) {
+      case TOPICS.CALLS_STARTED: {
+        const { tenantId, payload } = callStartedSchema.parse(event);
+
+        if (payload.direction === 'inbound' && payload.queueId) {
+          await this.enqueue({
+            callId: payload.callId,
+            tenantId,
+            queueId: payload.queueId,
+            phoneNumber: payload.phoneNumber,
+            consentPending:
+              payload.recordingConsent === 'announce' || payload.recordingConsent === 'dtmf',
+          });
+        }
+        break;
+      }
+
+      case TOPICS.CALLS_ANSWERED: {
+        const { payload } = callAnsweredSchema.parse(event);
+        const call = await this.store.get(payload.callId);
+
+        if (call) {
+          await this.dequeue(call, 'answered', payload.agentId);
+        }
+        break;
+      }
+
+      case TOPICS.CALLS_ENDED: {
+        const { payload } = callEndedSchema.parse(event);
+        const call = await this.store.get(payload.callId);
+
+        // A caller waiting for a callback has hung up on purpose
+        if (call && !call.callbackId) {
+          await this.dequeue(call, 'abandoned');
+        }
+        break;
+      }
+
+      case TOPICS.CALLS_TRANSFERRED: {
+        const { tenantId, payload } = callTransferredSchema.parse(event);
+
+        // An agent sent their call to a queue; it waits like a new caller
+        if (payload.toQueueId && payload.phoneNumber) {
+          await this.enqueue({
+            callId: payload.callId,
+            tenantId,
+            queueId: payload.toQueueId,
+            phoneNumber: payload.phoneNumber,
+          });
+        }
+        break;
+      }
+
+      case TOPICS.CALLS_RECORDING_CONSENT: {
+        const { payload } = callRecordingConsentSchema.parse(event);
+        const call = await this.store.get(payload.callId);
+
+        // The caller has heard the prompt and can be offered to agents
+        if (call?.consentPendingSince) {
+          await this.store.save({ ...call, consentPendingSince: undefined });
+        }
+        break;
+      }
+
+      case TOPICS.QUEUES_CALLBACK_REQUESTED:
+        await this.requestCallback(queueCallbackRequestedSchema.parse(event));
+        break;
+    }
+  }
+
+  /**
+   * Add a caller to the back of a queue
+   */
+  async enqueue(params: {
+    callId: string;
+    tenantId: string;
+    queueId: string;
+    phoneNumber: string;
+    consentPending?: boolean;
+  }): Promise<void> {
+    const { consentPending, ...call } = params;
+    const queue = await this.getQueue(params.queueId);
+
+    if (!queue || queue.tenantId !== params.tenantId) {
+      this.log.warn({ ...params }, 'Call reported for unknown queue');
+      return;
+    }
+
+    if (await this.store.get(params.callId)) {
+      return; // Already queued
+    }
+
+    const now = Date.now();
+
+    await this.store.add({
+      ...call,
+      enqueuedAt: now,
+      queuedAt: now,
+      visitedQueueIds: [params.queueId],
+      consentPendingSince: consentPending ? now : undefined,
+    });
+
+    await this.publishEnqueued(params.callId, queue);
+  }
+
+  /**
+   * Take a caller out of their queue and free any agents being rung for them
+   */
+  private async dequeue(call: QueuedCall, reason: DequeueReason, agentId?: string): Promise<void> {
+    await this.releaseOffer(call);
+    await this.store.remove(call);
+
+    const event: QueueCallDequeuedEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'queues.call-dequeued',
+      payload: {
+        callId: call.callId,
+        queueId: call.queueId,
+        agentId,
+        reason,
+        waitTime: Math.floor((Date.now() - call.enqueuedAt) / 1000),
+      },
+    };
+
+    await publishEvent(TOPICS.QUEUES_CALL_DEQUEUED, event, call.callId);
+
+    this.log.info({ callId: call.callId, queueId: call.queueId, reason }, 'Call dequeued');
+  }
+
+  /**
+   * A caller on hold asked to be called back. Without a time they keep their
+   * place as a virtual caller and are dialed when it comes up; with one they
+   * leave the queue and rejoin at that time.
+   */
+  private async requestCallback(event: QueueCallbackRequestedEvent): Promise<void> {
+    const { callId, queueId, phoneNumber, requestedTime } = event.payload;
+    const call = await this.store.get(callId);
+
+    const scheduledAt = requestedTime
+      ? getNextTimeOfDay(requestedTime, await this.getTenantTimezone(event.tenantId))
+      : new Date();
+    const keepPlace = Boolean(call) && !requestedTime;
+
+    const [callback] = await this.db
+      .insert(callbackSchedules)
+      .values({
+        tenantId: event.tenantId,
+        queueId: call?.queueId ?? queueId,
+        callId,
+        phoneNumber,
+        scheduledAt,
+        source: 'virtual_hold',
+        status: keepPlace ? 'queued' : 'pending',
+      })
+      .returning();
+
+    if (call && keepPlace) {
+      // The agents offered the live caller are free for other calls again
+      await this.releaseOffer(call);
+      await this.store.save({ ...call, callbackId: callback.id, offer: undefined });
+    } else if (call) {
+      await this.dequeue(call, 'callback');
+    }
+
+    this.log.info(
+      { callId, callbackId: callback.id, scheduledAt, keepPlace },
+      'Callback requested'
+    );
+  }
+
+  /**
+   * Put callbacks whose chosen time has come back in their queue. They are
+   * scored by that time, so they go ahead of callers who joined later.
+   */
+  private async enqueueDueCallbacks(): Promise<void> {
+    const due = await this.db.query.callbackSchedules.findMany({
+      where: and(
+        eq(callbackSchedules.source, 'virtual_hold'),
+        eq(callbackSchedules.status, 'pending'),
+        lte(callbackSchedules.scheduledAt, new Date())
+      ),
+      limit: 100,
+    });
+
+    for (const callback of due) {
+      const queue = callback.queueId ? await this.getQueue(callback.queueId) : null;
+
+      if (!queue || !callback.phoneNumber) {
+        await this.db
+          .update(callbackSchedules)
+          .set({ status: 'failed', updatedAt: new Date() })
+          .where(eq(callbackSchedules.id, callback.id));
+        continue;
+      }
+
+      // Claim it; another instance may be polling too
+      const [claimed] = await this.db
+        .update(callbackSchedules)
+        .set({ status: 'queued', updatedAt: new Date() })
+        .where(and(eq(callbackSchedules.id, callback.id), eq(callbackSchedules.status, 'pending')))
+        .returning();
+
+      if (!claimed) {
+        continue;
+      }
+
+      const callId = callback.callId ?? callback.id;
+
+      await this.store.add({
+        callId,
+        tenantId: callback.tenantId,
+        queueId: queue.id,
+        phoneNumber: callback.phoneNumber,
+        enqueuedAt: callback.scheduledAt.getTime(),
+        queuedAt: Date.now(),
+        visitedQueueIds: [queue.id],
+        callbackId: callback.id,
+      });
+
+      await this.publishEnqueued(callId, queue);
+    }
+  }
+
+  /**
+   * One pass over every queue with callers waiting
+   */
+  private async distribute(): Promise<void> {
+    if (this.isDistributing) {
+      return;
+    }
+
+    this.isDistributing = true;
+
+    try {
+      for (const queueId of await this.store.getActiveQueueIds()) {
+        try {
+          await this.distributeQueue(queueId);
+        } catch (error) {
+          this.log.error({ error, queueId }, 'Error distributing queue');
+        }
+      }
+    } finally {
+      this.isDistributing = false;
+    }
+  }
+
+  /**
+   * Withdraw stale offers, overflow callers past maxWaitTime, offer the
+   * longest-waiting callers to agents until no one is free, then play
+   * position and wait-time announcements to those still waiting
+   */
+  private async distributeQueue(queueId: string): Promise<void> {
+    const queue = await this.getQueue(queueId);
+
+    if (!queue) {
+      return;
+    }
+
+    const now = Date.now();
+    const waiting: QueuedCall[] = [];
+    const queued = await this.store.listWaiting(queueId);
+    const required = this.getRequiredSkills(queue);
+    const agents = await this.getQueueAgents(queue, required);
+    const metrics = await this.updateMetrics(queue, agents.length, queued.length);
+
+    for (const call of queued) {
+      if (call.offer) {
+        if (now - call.offer.offeredAt > (queue.ringTimeout + OFFER_GRACE_SECONDS) * 1000) {
+          this.log.info(
+            { callId: call.callId, queueId },
+            'Offer not answered, caller back in queue'
+          );
+          await this.releaseOffer(call);
+          await this.store.save({ ...call, offer: undefined });
+        }
+        continue;
+      }
+
+      // Still hearing the recording disclosure or consent prompt
+      if (call.consentPendingSince && now - call.consentPendingSince < CONSENT_WAIT_LIMIT) {
+        continue;
+      }
+
+      if (now - call.queuedAt > queue.maxWaitTime * 1000 && this.canOverflow(call, queue)) {
+        await this.overflow(call, queue);
+        continue;
+      }
+
+      waiting.push(call);
+    }
+
+    if (waiting.length === 0) {
+      return;
+    }
+
+    const strategy = queue.strategy as QueueStrategy;
+    const offeredCallIds = new Set<string>();
+    let candidates = await this.getCandidateAgents(agents);
+
+    for (const call of waiting) {
+      const lastAgentId =
+        strategy === 'round_robin' ? await this.store.getLastRoundRobinAgent(queueId) : null;
+      const selected = selectAgents(strategy, candidates, required, lastAgentId);
+
+      if (selected.length === 0) {
+        break;
+      }
+
+      const offered = await this.offer(call, queue, selected);
+
+      if (offered.length > 0) {
+        offeredCallIds.add(call.callId);
+      }
+
+      candidates = candidates.filter((agent) => !offered.includes(agent.agentId));
+    }
+
+    // Callers being rung are no longer listening to hold
+    const due = waiting.filter(
+      (call) => !offeredCallIds.has(call.callId) && this.isAnnouncementDue(call, queue, now)
+    );
+
+    if (due.length > 0) {
+      await this.announce(queue, due, metrics);
+    }
+  }
+
+  /**
+   * Snapshot the inputs to the wait-time estimate for the stats API
+   */
+  private async updateMetrics(
+    queue: Queue,
+    staffedAgents: number,
+    callsWaiting: number
+  ): Promise<QueueMetrics> {
+    const avgHandleTime = await this.getAvgHandleTime(queue.id);
+
+    const metrics: QueueMetrics = {
+      avgHandleTime,
+      staffedAgents,
+      estimatedWaitTime: estimateWaitTime(callsWaiting + 1, avgHandleTime, staffedAgents) ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.store.saveMetrics(queue.id, metrics);
+
+    return metrics;
+  }
+
+  private isAnnouncementDue(call: QueuedCall, queue: Queue, now: number): boolean {
+    const settings = (queue.settings as QueueSettings) ?? {};
+
+    // Virtual callers are not on the line
+    if (call.callbackId) {
+      return false;
+    }
+
+    if (!settings.announcePosition && !settings.announceWaitTime && !settings.callbackEnabled) {
+      return false;
+    }
+
+    const interval = (settings.announceInterval ?? DEFAULT_ANNOUNCE_INTERVAL) * 1000;
+
+    return now - (call.lastAnnouncedAt ?? call.queuedAt) >= interval;
+  }
+
+  /**
+   * Ask the dialer engine to play each caller their position and estimated wait
+   */
+  private async announce(queue: Queue, due: QueuedCall[], metrics: QueueMetrics): Promise<void> {
+    const settings = (queue.settings as QueueSettings) ?? {};
+    const prompts = await this.getPromptPaths(queue.tenantId, settings);
+
+    for (const call of due) {
+      const position = await this.store.getPosition(queue.id, call.callId);
+
+      if (position === null) {
+        continue;
+      }
+
+      const estimatedWaitTime = estimateWaitTime(
+        position,
+        metrics.avgHandleTime,
+        metrics.staffedAgents
+      );
+
+      const callbackOffered =
+        Boolean(settings.callbackEnabled) &&
+        Date.now() - call.enqueuedAt >=
+          (settings.callbackOfferAfter ?? DEFAULT_CALLBACK_OFFER_AFTER) * 1000;
+
+      const prompt = buildAnnouncement({
+        position: settings.announcePosition ? position : undefined,
+        estimatedWaitTime: settings.announceWaitTime ? estimatedWaitTime : undefined,
+        offerCallback: callbackOffered,
+        ...prompts,
+      });
+
+      await this.store.save({ ...call, lastAnnouncedAt: Date.now() });
+
+      // Nothing to say yet, e.g. wait time only with no agents staffed
+      if (prompt.length === 0) {
+        continue;
+      }
+
+      const event: QueueCallAnnouncementEvent = {
+        eventId: randomUUID(),
+        tenantId: call.tenantId,
+        timestamp: new Date().toISOString(),
+        version: '1.0',
+        type: 'queues.call-announcement',
+        payload: {
+          callId: call.callId,
+          queueId: queue.id,
+          position,
+          estimatedWaitTime,
+          prompt,
+          callbackOffered,
+        },
+      };
+
+      await publishEvent(TOPICS.QUEUES_CALL_ANNOUNCEMENT, event, call.callId);
+
+      this.log.debug(
+        { callId: call.callId, queueId: queue.id, position, estimatedWaitTime },
+        'Announcement queued'
+      );
+    }
+  }
+
+  /**
+   * The queue's tenant prompts for the announcement lead-ins, if configured
+   */
+  private async getPromptPaths(
+    tenantId: string,
+    settings: QueueSettings
+  ): Promise<{ positionPrompt?: string; waitTimePrompt?: string; callbackPrompt?: string }> {
+    const audioIds = [
+      settings.positionPromptId,
+      settings.waitTimePromptId,
+      settings.callbackPromptId,
+    ].filter((id): id is string => Boolean(id));
+
+    if (audioIds.length === 0) {
+      return {};
+    }
+
+    const files = await this.db.query.audioFiles.findMany({
+      where: and(eq(audioFiles.tenantId, tenantId), inArray(audioFiles.id, audioIds)),
+    });
+    const pathById = new Map(files.map((file) => [file.id, toPlayablePath(file.fileUrl)]));
+
+    return {
+      positionPrompt: settings.positionPromptId
+        ? pathById.get(settings.positionPromptId)
+        : undefined,
+      waitTimePrompt: settings.waitTimePromptId
+        ? pathById.get(settings.waitTimePromptId)
+        : undefined,
+      callbackPrompt: settings.callbackPromptId
+        ? pathById.get(settings.callbackPromptId)
+        : undefined,
+    };
+  }
+
+  /**
+   * Reserve the selected agents and ask the dialer engine to ring them. A
+   * virtual caller goes to one agent and the engine dials the caller back;
+   * they leave the queue as soon as the callback is placed.
+   */
+  private async offer(
+    call: QueuedCall,
+    queue: Queue,
+    agents: CandidateAgent[]
+  ): Promise<string[]> {
+    const ringTimeout = call.callbackId ? CALLBACK_RING_TIMEOUT : queue.ringTimeout;
+    const ttl = ringTimeout + OFFER_GRACE_SECONDS;
+    const agentIds: string[] = [];
+
+    for (const agent of call.callbackId ? agents.slice(0, 1) : agents) {
+      if (await this.store.reserveAgent(agent.agentId, call.callId, ttl)) {
+        agentIds.push(agent.agentId);
+      }
+    }
+
+    if (agentIds.length === 0) {
+      return [];
+    }
+
+    if (call.callbackId) {
+      await this.db
+        .update(callbackSchedules)
+        .set({ status: 'dialing', agentId: agentIds[0], updatedAt: new Date() })
+        .where(eq(callbackSchedules.id, call.callbackId));
+    } else {
+      await this.store.save({ ...call, offer: { agentIds, offeredAt: Date.now() } });
+    }
+
+    if (queue.strategy === 'round_robin') {
+      await this.store.setLastRoundRobinAgent(queue.id, agentIds[0]);
+    }
+
+    const event: QueueCallOfferedEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'queues.call-offered',
+      payload: {
+        callId: call.callId,
+        queueId: queue.id,
+        agentIds,
+        ringTimeout,
+        callback: call.callbackId
+          ? { callbackId: call.callbackId, phoneNumber: call.phoneNumber }
+          : undefined,
+      },
+    };
+
+    await publishEvent(TOPICS.QUEUES_CALL_OFFERED, event, call.callId);
+
+    this.log.info({ callId: call.callId, queueId: queue.id, agentIds }, 'Call offered');
+
+    // The agent stays reserved until the engine puts them on the callback
+    if (call.callbackId) {
+      await this.dequeue(call, 'callback', agentIds[0]);
+    }
+
+    return agentIds;
+  }
+
+  private async releaseOffer(call: QueuedCall): Promise<void> {
+    for (const agentId of call.offer?.agentIds ?? []) {
+      await this.store.releaseAgent(agentId, call.callId);
+    }
+  }
+
+  /**
+   * Overflow only to a queue the caller has not already passed through,
+   * so A -> B -> A chains cannot loop
+   */
+  private canOverflow(call: QueuedCall, queue: Queue): boolean {
+    return Boolean(queue.overflowQueueId) && !call.visitedQueueIds.includes(queue.overflowQueueId!);
+  }
+
+  private async overflow(call: QueuedCall, queue: Queue): Promise<void> {
+    const target = await this.getQueue(queue.overflowQueueId!);
+
+    if (!target) {
+      this.log.warn(
+        { queueId: queue.id, overflowQueueId: queue.overflowQueueId },
+        'Overflow queue not found'
+      );
+      return;
+    }
+
+    const event: QueueCallDequeuedEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'queues.call-dequeued',
+      payload: {
+        callId: call.callId,
+        queueId: queue.id,
+        reason: 'overflow',
+        waitTime: Math.floor((Date.now() - call.queuedAt) / 1000),
+      },
+    };
+
+    await publishEvent(TOPICS.QUEUES_CALL_DEQUEUED, event, call.callId);
+    await this.store.move(call, target.id);
+    await this.publishEnqueued(call.callId, target);
+
+    this.log.info({ callId: call.callId, from: queue.id, to: target.id }, 'Call overflowed');
+  }
+
+  private async publishEnqueued(callId: string, queue: Queue): Promise<void> {
+    const call = await this.store.get(callId);
+    const position = await this.store.getPosition(queue.id, callId);
+
+    if (!call || position === null) {
+      return;
+    }
+
+    const agents = await this.getQueueAgents(queue, this.getRequiredSkills(queue));
+    const estimatedWaitTime = estimateWaitTime(
+      position,
+      await this.getAvgHandleTime(queue.id),
+      agents.length
+    );
+
+    const event: QueueCallEnqueuedEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'queues.call-enqueued',
+      payload: {
+        callId,
+        queueId: queue.id,
+        queueName: queue.name,
+        position,
+        priority: 0,
+        estimatedWaitTime,
+      },
+    };
+
+    await publishEvent(TOPICS.QUEUES_CALL_ENQUEUED, event, callId);
+
+    this.log.info({ callId, queueId: queue.id, position }, 'Call enqueued');
+  }
+
+  /**
+   * Agents staffing a queue: logged in, in any state, with an extension and
+   * the queue's skill requirements
+   */
+  private async getQueueAgents(queue: Queue, required: AgentSkill[]): Promise<QueueAgent[]> {
+    const loggedIn = (await this.store.getTenantAgents(queue.tenantId)).filter(
+      (agent) => agent.state !== 'offline'
+    );
+
+    if (loggedIn.length === 0) {
+      return [];
+    }
+
+    const agentIds = loggedIn.map((agent) => agent.agentId);
+
+    const profiles = await this.db.query.agentProfiles.findMany({
+      where: and(
+        eq(agentProfiles.tenantId, queue.tenantId),
+        inArray(agentProfiles.userId, agentIds)
+      ),
+    });
+    const profileByUser = new Map(profiles.map((profile) => [profile.userId, profile]));
+
+    const staffed: QueueAgent[] = [];
+
+    for (const agent of loggedIn) {
+      const profile = profileByUser.get(agent.agentId);
+
+      if (!profile?.extension) {
+        continue;
+      }
+
+      staffed.push({
+        agentId: agent.agentId,
+        extension: profile.extension,
+        state: agent.state,
+        idleSince: new Date(agent.lastStateChange).getTime(),
+        totalCalls: agent.totalCalls,
+        skills: (profile.skills as AgentSkill[]) ?? [],
+      });
+    }
+
+    return staffed.filter((agent) => meetsSkillRequirements(agent, required));
+  }
+
+  /**
+   * Staffed agents who are available and not already being rung
+   */
+  private async getCandidateAgents(agents: QueueAgent[]): Promise<CandidateAgent[]> {
+    const available = agents.filter((agent) => agent.state === 'available');
+    const reserved = await this.store.getReservedAgentIds(
+      available.map((agent) => agent.agentId)
+    );
+
+    return available.filter((agent) => !reserved.has(agent.agentId));
+  }
+
+  /**
+   * Average talk plus wrap time of the queue's recent answered calls, in seconds
+   */
+  private async getAvgHandleTime(queueId: string): Promise<number> {
+    const cached = this.handleTimeCache.get(queueId);
+
+    if (cached && Date.now() - cached.loadedAt < HANDLE_TIME_CACHE_TTL) {
+      return cached.avgHandleTime;
+    }
+
+    const recent = await this.db
+      .select({ talkDuration: calls.talkDuration, wrapDuration: calls.wrapDuration })
+      .from(calls)
+      .where(and(eq(calls.queueId, queueId), isNotNull(calls.answerTime)))
+      .orderBy(desc(calls.startTime))
+      .limit(HANDLE_TIME_SAMPLE_SIZE);
+
+    const handleTimes = recent
+      .filter((call) => call.talkDuration !== null)
+      .map((call) => (call.talkDuration ?? 0) + (call.wrapDuration ?? 0));
+
+    const avgHandleTime =
+      handleTimes.length > 0
+        ? Math.round(handleTimes.reduce((sum, time) => sum + time, 0) / handleTimes.length)
+        : DEFAULT_HANDLE_TIME;
+
+    this.handleTimeCache.set(queueId, { avgHandleTime, loadedAt: Date.now() });
+
+    return avgHandleTime;
+  }
+
+  private getRequiredSkills(queue: Queue): AgentSkill[] {
+    return (queue.settings as QueueSettings)?.requiredSkills ?? [];
+  }
+
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await this.db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    return (tenant?.settings as TenantSettings | undefined)?.timezone ?? DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Load a queue, cached briefly so the distribution loop does not query every second
+   */
+  private async getQueue(queueId: string): Promise<Queue | null> {
+    const cached = this.queueCache.get(queueId);
+
+    if (cached && Date.now() - cached.loadedAt < QUEUE_CACHE_TTL) {
+      return cached.queue;
+    }
+
+    const queue = await this.db.query.queues.findFirst({
+      where: eq(queues.id, queueId),
+    });
+
+    if (!queue) {
+      this.queueCache.delete(queueId);
+      return null;
+    }
+
+    this.queueCache.set(queueId, { queue, loadedAt: Date.now() });
+
+    return queue;
+  }
+}
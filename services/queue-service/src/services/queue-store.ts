@@ -0,0 +1,256 @@
+import type { Redis } from 'ioredis';
+
+export interface QueuedCall {
+  callId: string;
+  tenantId: string;
+  queueId: string;
+  phoneNumber: string;
+  enqueuedAt: number; // ms; first queue entered, keeps the caller's place across overflow
+  queuedAt: number; // ms; entered the current queue, measured against maxWaitTime
+  visitedQueueIds: string[];
+  lastAnnouncedAt?: number; // ms
+  callbackId?: string; // Caller hung up for a callback; holds their place without a live leg
+  consentPendingSince?: number; // ms; hearing the recording disclosure or consent prompt
+  offer?: {
+    agentIds: string[];
+    offeredAt: number;
+  };
+}
+
+/**
+ * Agent presence as written by the dialer engine under agent:<id>
+ */
+export interface AgentPresence {
+  agentId: string;
+  tenantId: string;
+  state: string;
+  currentCallId?: string;
+  lastStateChange: string;
+  totalCalls: number;
+}
+
+/**
+ * Inputs to the wait-time estimate, refreshed by the distribution loop
+ */
+export interface QueueMetrics {
+  avgHandleTime: number; // seconds
+  staffedAgents: number;
+  estimatedWaitTime: number | null; // seconds, for the next caller to join
+  updatedAt: string;
+}
+
+export interface QueueRealtimeStats {
+  callsWaiting: number;
+  callsOffered: number;
+  callbacksWaiting: number;
+  longestWaitTime: number; // seconds
+  estimatedWaitTime: number | null; // seconds
+  staffedAgents: number;
+}
+
+/**
+ * Redis key layout. The api-gateway reads the waiting sets and metrics for
+ * queue stats, so changes here must be mirrored there.
+ */
+export const QUEUE_KEYS = {
+  waiting: (queueId: string) => `queue:waiting:${queueId}`,
+  call: (callId: string) => `queue:call:${callId}`,
+  active: 'queues:active',
+  roundRobin: (queueId: string) => `queue:rr:${queueId}`,
+  metrics: (queueId: string) => `queue:metrics:${queueId}`,
+  reservation: (agentId: string) => `queue:reserved:${agentId}`,
+};
+
+const AGENT_KEY_PREFIX = 'agent:';
+const CALL_TTL = 86400;
+const METRICS_TTL = 60;
+
+/**
+ * Waiting callers, per queue, in Redis. Each queue is a sorted set of call IDs
+ * scored by enqueue time; call details live in a JSON key per call.
+ */
+export class QueueStore {
+  constructor(private redis: Redis) {}
+
+  async add(call: QueuedCall): Promise<void> {
+    await this.redis
+      .multi()
+      .setex(QUEUE_KEYS.call(call.callId), CALL_TTL, JSON.stringify(call))
+      .zadd(QUEUE_KEYS.waiting(call.queueId), call.enqueuedAt, call.callId)
+      .sadd(QUEUE_KEYS.active, call.queueId)
+      .exec();
+  }
+
+  async get(callId: string): Promise<QueuedCall | null> {
+    const data = await this.redis.get(QUEUE_KEYS.call(callId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  async save(call: QueuedCall): Promise<void> {
+    await this.redis.setex(QUEUE_KEYS.call(call.callId), CALL_TTL, JSON.stringify(call));
+  }
+
+  async remove(call: QueuedCall): Promise<void> {
+    await this.redis
+      .multi()
+      .del(QUEUE_KEYS.call(call.callId))
+      .zrem(QUEUE_KEYS.waiting(call.queueId), call.callId)
+      .exec();
+  }
+
+  /**
+   * Move a caller to another queue, keeping their original enqueue time
+   */
+  async move(call: QueuedCall, toQueueId: string): Promise<QueuedCall> {
+    const moved: QueuedCall = {
+      ...call,
+      queueId: toQueueId,
+      queuedAt: Date.now(),
+      visitedQueueIds: [...call.visitedQueueIds, toQueueId],
+      offer: undefined,
+    };
+
+    await this.redis
+      .multi()
+      .zrem(QUEUE_KEYS.waiting(call.queueId), call.callId)
+      .setex(QUEUE_KEYS.call(call.callId), CALL_TTL, JSON.stringify(moved))
+      .zadd(QUEUE_KEYS.waiting(toQueueId), moved.enqueuedAt, call.callId)
+      .sadd(QUEUE_KEYS.active, toQueueId)
+      .exec();
+
+    return moved;
+  }
+
+  /**
+   * Callers in a queue, longest waiting first. Callers whose details have
+   * expired are dropped from the queue.
+   */
+  async listWaiting(queueId: string): Promise<QueuedCall[]> {
+    const callIds = await this.redis.zrange(QUEUE_KEYS.waiting(queueId), 0, -1);
+
+    if (callIds.length === 0) {
+      return [];
+    }
+
+    const data = await this.redis.mget(callIds.map(QUEUE_KEYS.call));
+    const expired = callIds.filter((_, index) => data[index] === null);
+
+    if (expired.length > 0) {
+      await this.redis.zrem(QUEUE_KEYS.waiting(queueId), ...expired);
+    }
+
+    return data
+      .filter((item): item is string => item !== null)
+      .map((item) => JSON.parse(item) as QueuedCall);
+  }
+
+  /**
+   * 1-based position of a caller in their queue
+   */
+  async getPosition(queueId: string, callId: string): Promise<number | null> {
+    const rank = await this.redis.zrank(QUEUE_KEYS.waiting(queueId), callId);
+    return rank === null ? null : rank + 1;
+  }
+
+  /**
+   * Queues with callers waiting; queues that have emptied are dropped
+   */
+  async getActiveQueueIds(): Promise<string[]> {
+    const queueIds = await this.redis.smembers(QUEUE_KEYS.active);
+    const active: string[] = [];
+
+    for (const queueId of queueIds) {
+      if ((await this.redis.zcard(QUEUE_KEYS.waiting(queueId))) > 0) {
+        active.push(queueId);
+      } else {
+        await this.redis.srem(QUEUE_KEYS.active, queueId);
+      }
+    }
+
+    return active;
+  }
+
+  async getStats(queueId: string): Promise<QueueRealtimeStats> {
+    const calls = await this.listWaiting(queueId);
+    const metrics = await this.getMetrics(queueId);
+    const oldest = calls[0]?.enqueuedAt;
+
+    return {
+      callsWaiting: calls.length,
+      callsOffered: calls.filter((call) => call.offer).length,
+      callbacksWaiting: calls.filter((call) => call.callbackId).length,
+      longestWaitTime: oldest ? Math.floor((Date.now() - oldest) / 1000) : 0,
+      estimatedWaitTime: metrics?.estimatedWaitTime ?? null,
+      staffedAgents: metrics?.staffedAgents ?? 0,
+    };
+  }
+
+  async saveMetrics(queueId: string, metrics: QueueMetrics): Promise<void> {
+    await this.redis.setex(QUEUE_KEYS.metrics(queueId), METRICS_TTL, JSON.stringify(metrics));
+  }
+
+  async getMetrics(queueId: string): Promise<QueueMetrics | null> {
+    const data = await this.redis.get(QUEUE_KEYS.metrics(queueId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Agents of a tenant with a presence record, in any state
+   */
+  async getTenantAgents(tenantId: string): Promise<AgentPresence[]> {
+    const keys = await this.redis.keys(`${AGENT_KEY_PREFIX}*`);
+
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const data = await this.redis.mget(keys);
+
+    return data
+      .filter((item): item is string => item !== null)
+      .map((item) => JSON.parse(item) as AgentPresence)
+      .filter((agent) => agent.tenantId === tenantId);
+  }
+
+  /**
+   * Hold an agent for a call while they are being rung. Expires on its own
+   * so a lost offer never blocks the agent for long.
+   */
+  async reserveAgent(agentId: string, callId: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis.set(
+      QUEUE_KEYS.reservation(agentId),
+      callId,
+      'EX',
+      ttlSeconds,
+      'NX'
+    );
+
+    return result === 'OK';
+  }
+
+  async releaseAgent(agentId: string, callId: string): Promise<void> {
+    const key = QUEUE_KEYS.reservation(agentId);
+
+    if ((await this.redis.get(key)) === callId) {
+      await this.redis.del(key);
+    }
+  }
+
+  async getReservedAgentIds(agentIds: string[]): Promise<Set<string>> {
+    if (agentIds.length === 0) {
+      return new Set();
+    }
+
+    const reservations = await this.redis.mget(agentIds.map(QUEUE_KEYS.reservation));
+
+    return new Set(agentIds.filter((_, index) => reservations[index] !== null));
+  }
+
+  async getLastRoundRobinAgent(queueId: string): Promise<string | null> {
+    return this.redis.get(QUEUE_KEYS.roundRobin(queueId));
+  }
+
+  async setLastRoundRobinAgent(queueId: string, agentId: string): Promise<void> {
+    await this.redis.set(QUEUE_KEYS.roundRobin(queueId), agentId);
+  }
+}
@@ -1,2 +1,82 @@
-// recording-service placeholder - implementation in progress
-export {};
+import Fastify from 'fastify';
+import cors from '@fastify/cors';
+import { Redis } from 'ioredis';
+
+import { healthRoutes } from './routes/health.js';
+import { recordingRoutes } from './routes/recordings.js';
+import { RecordingProcessor } from './services/recording-processor.js';
+import { RetentionPurger } from './services/retention-purger.js';
+import { initKafkaProducer, disconnectKafka } from './lib/kafka.js';
+
+const envToLogger = {
+  development: {
+    transport: {
+      target: 'pino-pretty',
+      options: {
+        translateTime: 'HH:MM:ss Z',
+        ignore: 'pid,hostname',
+      },
+    },
+  },
+  production: true,
+  test: false,
+};
+
+async function buildApp() {
+  const app = Fastify({
+    logger: envToLogger[process.env.NODE_ENV as keyof typeof envToLogger] ?? true,
+  });
+
+  const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+  const processor = new RecordingProcessor(redis, app.log);
+  const purger = new RetentionPurger(redis, app.log);
+
+  // Register plugins
+  await app.register(cors, {
+    origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
+    credentials: true,
+  });
+
+  // Register routes
+  await app.register(healthRoutes, { prefix: '/health', redis });
+  await app.register(recordingRoutes, { prefix: '/api/v1/recordings' });
+
+  app.addHook('onReady', async () => {
+    await initKafkaProducer();
+    await processor.start();
+    purger.start();
+  });
+
+  app.addHook('onClose', async () => {
+    await processor.stop();
+    await purger.stop();
+    await disconnectKafka();
+    await redis.quit();
+  });
+
+  return app;
+}
+
+async function start() {
+  const app = await buildApp();
+  const port = parseInt(process.env.PORT || '4006', 10);
+  const host = process.env.HOST || '0.0.0.0';
+
+  for (const signal of ['SIGINT', 'SIGTERM']) {
+    process.on(signal, () => {
+      app.close().then(() => process.exit(0));
+    });
+  }
+
+  try {
+    await app.listen({ port, host });
+    app.log.info(`Recording service listening on ${host}:${port}`);
+  } catch (err) {
+    app.log.error(err);
+    process.exit(1);
+  }
+}
+
+start();
+
+export { buildApp };
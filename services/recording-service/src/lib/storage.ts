@@ -0,0 +1,115 @@
+import { createReadStream } from 'fs';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadBucketCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export const RECORDINGS_BUCKET = process.env.S3_BUCKET_RECORDINGS || 'recordings';
+
+// Playback links are handed to browsers, so keep them short-lived
+const PLAYBACK_URL_TTL = parseInt(process.env.RECORDING_URL_TTL || '300', 10);
+
+function createClient(endpoint: string): S3Client {
+  return new S3Client({
+    endpoint,
+    region: process.env.S3_REGION || 'us-east-1',
+    forcePathStyle: true, // MinIO serves buckets by path, not subdomain
+    credentials: {
+      accessKeyId: process.env.S3_ACCESS_KEY || 'minioadmin',
+      secretAccessKey: process.env.S3_SECRET_KEY || 'minioadmin',
+    },
+  });
+}
+
+const endpoint = process.env.S3_ENDPOINT || 'http://localhost:9000';
+const client = createClient(endpoint);
+
+// Signed URLs must use the host browsers reach, which inside docker differs
+// from the one this service uploads to
+const signingClient = createClient(process.env.S3_PUBLIC_ENDPOINT || endpoint);
+
+/**
+ * calls.recordingUrl holds the object location, never a signed URL
+ */
+export function toStorageUrl(key: string, bucket = RECORDINGS_BUCKET): string {
+  return `s3://${bucket}/${key}`;
+}
+
+export function parseStorageUrl(url: string): { bucket: string; key: string } | null {
+  const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(url);
+  return match ? { bucket: match[1], key: match[2] } : null;
+}
+
+export async function uploadRecording(params: {
+  key: string;
+  filePath: string;
+  size: number;
+  contentType: string;
+  metadata: Record<string, string>;
+}): Promise<void> {
+  await client.send(
+    new PutObjectCommand({
+      Bucket: RECORDINGS_BUCKET,
+      Key: params.key,
+      Body: createReadStream(params.filePath),
+      ContentLength: params.size,
+      ContentType: params.contentType,
+      Metadata: params.metadata,
+    })
+  );
+}
+
+/**
+ * Short-lived GET URL for a stored recording. Downloads are served as an
+ * attachment so the browser saves rather than plays them.
+ */
+export async function getPlaybackUrl(
+  storageUrl: string,
+  options: { download?: boolean; fileName?: string } = {}
+): Promise<{ url: string; expiresAt: string } | null> {
+  const location = parseStorageUrl(storageUrl);
+
+  if (!location) {
+    return null;
+  }
+
+  const url = await getSignedUrl(
+    signingClient,
+    new GetObjectCommand({
+      Bucket: location.bucket,
+      Key: location.key,
+      ResponseContentDisposition: options.download
+        ? `attachment; filename="${options.fileName ?? location.key.split('/').pop()}"`
+        : undefined,
+    }),
+    { expiresIn: PLAYBACK_URL_TTL }
+  );
+
+  return {
+    url,
+    expiresAt: new Date(Date.now() + PLAYBACK_URL_TTL * 1000).toISOString(),
+  };
+}
+
+/**
+ * Remove a stored recording. Deleting an object that is already gone
+ * succeeds, so an interrupted purge can simply run again.
+ */
+export async function deleteRecording(storageUrl: string): Promise<void> {
+  const location = parseStorageUrl(storageUrl);
+
+  if (!location) {
+    return;
+  }
+
+  await client.send(new DeleteObjectCommand({ Bucket: location.bucket, Key: location.key }));
+}
+
+export async function checkStorage(): Promise<boolean> {
+  await client.send(new HeadBucketCommand({ Bucket: RECORDINGS_BUCKET }));
+  return true;
+}
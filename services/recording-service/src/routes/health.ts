@@ -0,0 +1,73 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { Redis } from 'ioredis';
+import { sql } from 'drizzle-orm';
+import { getDb } from '@nexusdialer/database';
+import { checkStorage } from '../lib/storage.js';
+
+export async function healthRoutes(app: FastifyInstance, opts: { redis: Redis }) {
+  /**
+   * GET /health
+   * Basic health check
+   */
+  app.get('/', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      status: 'ok',
+      service: 'recording-service',
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * GET /health/ready
+   * Readiness check (includes dependency checks)
+   */
+  app.get('/ready', async (request: FastifyRequest, reply: FastifyReply) => {
+    const checks = {
+      database: false,
+      redis: false,
+      storage: false,
+    };
+
+    try {
+      await getDb().execute(sql`SELECT 1`);
+      checks.database = true;
+    } catch (error) {
+      request.log.warn({ error }, 'Database health check failed');
+    }
+
+    try {
+      checks.redis = (await opts.redis.ping()) === 'PONG';
+    } catch (error) {
+      request.log.warn({ error }, 'Redis health check failed');
+    }
+
+    try {
+      checks.storage = await checkStorage();
+    } catch (error) {
+      request.log.warn({ error }, 'Storage health check failed');
+    }
+
+    const allHealthy = Object.values(checks).every(Boolean);
+
+    return reply.status(allHealthy ? 200 : 503).send({
+      status: allHealthy ? 'ready' : 'not_ready',
+      service: 'recording-service',
+      timestamp: new Date().toISOString(),
+      checks,
+    });
+  });
+
+  /**
+   * GET /health/live
+   * Liveness check (basic process health)
+   */
+  app.get('/live', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      status: 'alive',
+      service: 'recording-service',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      memory: process.memoryUsage(),
+    });
+  });
+}
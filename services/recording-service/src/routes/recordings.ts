@@ -0,0 +1,110 @@
+import { timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { eq, and, desc } from 'drizzle-orm';
+import { getDb, recordings } from '@nexusdialer/database';
+import { getPlaybackUrl } from '../lib/storage.js';
+
+interface PlaybackQuery {
+  tenantId: string;
+  download?: boolean;
+}
+
+/**
+ * Whether the request carries the token services share with each other
+ * (INTERNAL_SERVICE_TOKEN). Without one configured nothing is let in.
+ */
+function hasServiceToken(request: FastifyRequest): boolean {
+  const expected = process.env.INTERNAL_SERVICE_TOKEN;
+  const header = request.headers.authorization;
+
+  if (!expected || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const given = Buffer.from(header.slice('Bearer '.length));
+  const wanted = Buffer.from(expected);
+
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+/**
+ * Internal API; the gateway authenticates the user and passes their tenant,
+ * so only callers holding the service token are trusted with it
+ */
+export async function recordingRoutes(app: FastifyInstance) {
+  const db = getDb();
+
+  app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!hasServiceToken(request)) {
+      return reply.status(401).send({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'A valid service token is required',
+        },
+      });
+    }
+  });
+
+  /**
+   * GET /:callId/url
+   * Short-lived signed URL to play or download a call's recording
+   */
+  app.get<{ Params: { callId: string }; Querystring: PlaybackQuery }>(
+    '/:callId/url',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          required: ['tenantId'],
+          properties: {
+            tenantId: { type: 'string', format: 'uuid' },
+            download: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { callId } = request.params;
+      const { tenantId, download } = request.query;
+
+      const recording = await db.query.recordings.findFirst({
+        where: and(
+          eq(recordings.callId, callId),
+          eq(recordings.tenantId, tenantId),
+          eq(recordings.status, 'ready')
+        ),
+        orderBy: [desc(recordings.createdAt)],
+      });
+
+      const playback = recording?.storageUrl
+        ? await getPlaybackUrl(recording.storageUrl, {
+            download,
+            fileName: `${callId}.${recording.format}`,
+          })
+        : null;
+
+      if (!recording || !playback) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Recording not found',
+          },
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          recordingId: recording.id,
+          callId,
+          duration: recording.duration,
+          fileSize: recording.fileSize,
+          format: recording.format,
+          ...playback,
+        },
+      });
+    }
+  );
+}
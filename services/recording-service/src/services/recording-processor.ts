@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { unlink } from 'fs/promises';
+import path from 'path';
+import type { FastifyBaseLogger } from 'fastify';
+import type { Redis } from 'ioredis';
+import type { Consumer } from 'kafkajs';
+import { eq } from 'drizzle-orm';
+import { getDb, calls, recordings, type Call } from '@nexusdialer/database';
+import {
+  TOPICS,
+  callEndedSchema,
+  callRecordedSchema,
+  type CallRecordedEvent,
+  type RecordingPauseWindow,
+} from '@nexusdialer/events';
+import { createKafkaConsumer, publishEvent } from '../lib/kafka.js';
+import { toStorageUrl, uploadRecording } from '../lib/storage.js';
+import { readWavInfo } from './wav-info.js';
+
+/**
+ * A finished recording waiting for its call to be persisted
+ */
+interface PendingRecording {
+  recordingId: string;
+  tenantId: string;
+  filePath: string;
+  pauseWindows: RecordingPauseWindow[];
+  attempts: number;
+}
+
+// Hash of the call's pending recordings by recording ID; a call can have
+// several, e.g. after a consent restart or a transfer
+const PENDING_KEY = (callId: string) => `recording:pending:${callId}`;
+// Recordings whose call never ends are dropped after a day
+const PENDING_TTL = 86400;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 30000;
+
+// FreeSWITCH's recordings directory, mounted into this service
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || '/var/lib/freeswitch/recordings';
+
+/**
+ * Moves finished call recordings into object storage. The dialer engine
+ * reports a file when FreeSWITCH closes it (calls.recorded, processing);
+ * the call row only exists once the call has ended, so whichever of that
+ * and calls.ended arrives second triggers the upload.
+ */
+export class RecordingProcessor {
+  private db = getDb();
+  private consumer?: Consumer;
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+
+  constructor(
+    private redis: Redis,
+    private log: FastifyBaseLogger
+  ) {}
+
+  async start(): Promise<void> {
+    this.consumer = await createKafkaConsumer('recording-service');
+
+    await this.consumer.subscribe({
+      topics: [TOPICS.CALLS_RECORDED, TOPICS.CALLS_ENDED],
+      fromBeginning: false,
+    });
+
+    await this.consumer.run({
+      eachMessage: async ({ topic, message }) => {
+        if (!message.value) return;
+
+        try {
+          await this.handleCallEvent(topic, JSON.parse(message.value.toString()));
+        } catch (error) {
+          this.log.error({ error, topic, offset: message.offset }, 'Error handling call event');
+        }
+      },
+    });
+
+    this.log.info('Recording processor started');
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+
+    await this.consumer?.disconnect();
+  }
+
+  private async handleCallEvent(topic: string, event: unknown): Promise<void> {
+    switch (topic) {
+      case TOPICS.CALLS_RECORDED: {
+        const { tenantId, payload } = callRecordedSchema.parse(event);
+
+        // Our own ready/failed events come back on the same topic
+        if (payload.status !== 'processing' || !payload.filePath) {
+          break;
+        }
+
+        const pending: PendingRecording = {
+          recordingId: payload.recordingId,
+          tenantId,
+          filePath: payload.filePath,
+          pauseWindows: payload.pauseWindows ?? [],
+          attempts: 0,
+        };
+
+        await this.savePending(payload.callId, pending);
+        await this.processCall(payload.callId);
+        break;
+      }
+
+      case TOPICS.CALLS_ENDED: {
+        const { payload } = callEndedSchema.parse(event);
+        await this.processCall(payload.callId);
+        break;
+      }
+    }
+  }
+
+  private async savePending(callId: string, pending: PendingRecording): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(PENDING_KEY(callId), pending.recordingId, JSON.stringify(pending))
+      .expire(PENDING_KEY(callId), PENDING_TTL)
+      .exec();
+  }
+
+  /**
+   * Upload the call's recordings if both the files and the call row are there
+   */
+  private async processCall(callId: string): Promise<void> {
+    const call = await this.db.query.calls.findFirst({
+      where: eq(calls.id, callId),
+    });
+
+    if (!call) {
+      return; // Still in progress; calls.ended will bring us back
+    }
+
+    const entries = await this.redis.hgetall(PENDING_KEY(callId));
+
+    for (const [recordingId, raw] of Object.entries(entries)) {
+      // HDEL makes exactly one of the two triggers the owner of each upload
+      if (!(await this.redis.hdel(PENDING_KEY(callId), recordingId))) {
+        continue;
+      }
+
+      const pending: PendingRecording = JSON.parse(raw);
+
+      try {
+        await this.store(call, pending);
+      } catch (error) {
+        await this.handleFailure(call, pending, error as Error);
+      }
+    }
+  }
+
+  private async store(call: Call, pending: PendingRecording): Promise<void> {
+    await this.db
+      .insert(recordings)
+      .values({
+        id: pending.recordingId,
+        tenantId: call.tenantId,
+        callId: call.id,
+        format: 'wav',
+        pauseWindows: pending.pauseWindows,
+      })
+      .onConflictDoNothing();
+
+    // The dialer reports FreeSWITCH's path; only the file name is shared
+    const filePath = path.join(RECORDINGS_DIR, path.basename(pending.filePath));
+    const info = await readWavInfo(filePath);
+    const key = this.objectKey(call);
+    const storageUrl = toStorageUrl(key);
+
+    await uploadRecording({
+      key,
+      filePath,
+      size: info.size,
+      contentType: 'audio/wav',
+      metadata: {
+        'call-id': call.id,
+        'tenant-id': call.tenantId,
+        'recording-id': pending.recordingId,
+        duration: String(info.duration),
+        size: String(info.size),
+        codec: info.codec,
+        channels: String(info.channels),
+        'sample-rate': String(info.sampleRate),
+      },
+    });
+
+    const duration = Math.round(info.duration);
+
+    await this.db
+      .update(recordings)
+      .set({
+        storageUrl,
+        codec: info.codec,
+        channels: info.channels,
+        sampleRate: info.sampleRate,
+        duration,
+        fileSize: info.size,
+        status: 'ready',
+        error: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(recordings.id, pending.recordingId));
+
+    await this.db.update(calls).set({ recordingUrl: storageUrl }).where(eq(calls.id, call.id));
+
+    // The upload is the copy of record now
+    await unlink(filePath).catch((error) => {
+      this.log.warn({ error, filePath }, 'Failed to remove uploaded recording');
+    });
+
+    this.log.info(
+      { callId: call.id, recordingId: pending.recordingId, key, size: info.size },
+      'Recording stored'
+    );
+
+    await this.publishRecorded(call, pending.recordingId, {
+      recordingUrl: storageUrl,
+      duration,
+      fileSize: info.size,
+      codec: info.codec,
+      channels: info.channels,
+      sampleRate: info.sampleRate,
+      status: 'ready',
+      pauseWindows: pending.pauseWindows,
+    });
+  }
+
+  /**
+   * Retry transient failures (storage down, file still being flushed);
+   * give up and mark the recording failed after a few attempts. The local
+   * file is kept so it can be recovered by hand.
+   */
+  private async handleFailure(call: Call, pending: PendingRecording, error: Error): Promise<void> {
+    const attempts = pending.attempts + 1;
+
+    if (attempts < MAX_ATTEMPTS) {
+      this.log.warn({ error, callId: call.id, attempts }, 'Recording upload failed, retrying');
+
+      await this.savePending(call.id, { ...pending, attempts });
+
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.processCall(call.id).catch((retryError) => {
+          this.log.error({ error: retryError, callId: call.id }, 'Recording retry failed');
+        });
+      }, RETRY_DELAY * attempts);
+
+      this.retryTimers.add(timer);
+      return;
+    }
+
+    this.log.error({ error, callId: call.id, filePath: pending.filePath }, 'Recording failed');
+
+    await this.db
+      .update(recordings)
+      .set({ status: 'failed', error: error.message, updatedAt: new Date() })
+      .where(eq(recordings.id, pending.recordingId));
+
+    await this.publishRecorded(call, pending.recordingId, {
+      duration: 0,
+      status: 'failed',
+      error: error.message,
+    });
+  }
+
+  /**
+   * tenant/yyyy/mm/dd/callId.wav, so a tenant's recordings can be listed,
+   * retained or purged by prefix
+   */
+  private objectKey(call: Call): string {
+    const date = call.startTime.toISOString().slice(0, 10).replace(/-/g, '/');
+    return `${call.tenantId}/${date}/${call.id}.wav`;
+  }
+
+  private async publishRecorded(
+    call: Call,
+    recordingId: string,
+    payload: Omit<CallRecordedEvent['payload'], 'callId' | 'recordingId' | 'format'>
+  ): Promise<void> {
+    const event: CallRecordedEvent = {
+      eventId: randomUUID(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.recorded',
+      payload: {
+        callId: call.id,
+        recordingId,
+        format: 'wav',
+        ...payload,
+      },
+    };
+
+    await publishEvent(TOPICS.CALLS_RECORDED, event, call.id);
+  }
+}
@@ -0,0 +1,340 @@
+import { hostname } from 'os';
+import type { FastifyBaseLogger } from 'fastify';
+import type { Redis } from 'ioredis';
+import { and, eq, exists, inArray, isNull, lt, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import {
+  getDb,
+  tenants,
+  calls,
+  leads,
+  recordings,
+  transcriptions,
+  agentAssistEvents,
+  auditLogs,
+  type NewAuditLog,
+} from '@nexusdialer/database';
+import type { RetentionPolicy, TenantSettings } from '@nexusdialer/types';
+import { deleteRecording } from '../lib/storage.js';
+
+/**
+ * Calls one retention period applies to: a campaign with its own period,
+ * or everything else in the tenant
+ */
+interface PurgeScope {
+  days: number;
+  campaignId?: string;
+  excludeCampaignIds: string[];
+}
+
+const PURGE_INTERVAL = parseInt(process.env.RETENTION_PURGE_INTERVAL || '3600', 10); // seconds
+const LOCK_KEY = 'retention:purge:lock';
+// Outlives any run, so a crashed replica cannot hold the lock for long
+const LOCK_TTL = 1800;
+const BATCH_SIZE = 200;
+const DAY_MS = 86400000;
+
+/**
+ * Applies tenants' retention policies (settings.retention): deletes
+ * recording audio, transcriptions and agent assist events once their call
+ * is older than the policy allows. Calls on legal hold, or with a lead on
+ * legal hold, are skipped. Call rows themselves are kept. Every purge is
+ * written to audit_logs.
+ */
+export class RetentionPurger {
+  private db = getDb();
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private redis: Redis,
+    private log: FastifyBaseLogger
+  ) {}
+
+  start(): void {
+    this.timer = setInterval(() => this.schedule(), PURGE_INTERVAL * 1000);
+    this.schedule();
+
+    this.log.info({ interval: PURGE_INTERVAL }, 'Retention purger started');
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    await this.running;
+  }
+
+  private schedule(): void {
+    if (this.running) return;
+
+    this.running = this.run()
+      .catch((error) => {
+        this.log.error({ error }, 'Retention purge failed');
+      })
+      .finally(() => {
+        this.running = undefined;
+      });
+  }
+
+  /**
+   * One pass over every tenant. Each replica runs on its own timer; the
+   * lock makes sure only one of them purges at a time.
+   */
+  async run(): Promise<void> {
+    const owner = `${hostname()}:${process.pid}`;
+    const locked = await this.redis.set(LOCK_KEY, owner, 'EX', LOCK_TTL, 'NX');
+
+    if (!locked) {
+      return;
+    }
+
+    try {
+      const tenantRows = await this.db
+        .select({ id: tenants.id, settings: tenants.settings })
+        .from(tenants);
+
+      for (const tenant of tenantRows) {
+        const retention = (tenant.settings as Partial<TenantSettings>).retention;
+
+        if (!retention) continue;
+
+        try {
+          for (const scope of this.scopes(retention, 'recordingDays')) {
+            await this.purgeRecordings(tenant.id, scope);
+          }
+
+          for (const scope of this.scopes(retention, 'transcriptDays')) {
+            await this.purgeTranscripts(tenant.id, scope);
+          }
+        } catch (error) {
+          this.log.error({ error, tenantId: tenant.id }, 'Retention purge failed for tenant');
+        }
+      }
+    } finally {
+      if ((await this.redis.get(LOCK_KEY)) === owner) {
+        await this.redis.del(LOCK_KEY);
+      }
+    }
+  }
+
+  /**
+   * Campaign overrides first, then the tenant policy for every call not
+   * covered by one. A period left unset keeps the data forever.
+   */
+  private scopes(
+    retention: NonNullable<TenantSettings['retention']>,
+    field: keyof RetentionPolicy
+  ): PurgeScope[] {
+    const overrides = Object.entries(retention.campaigns ?? {}).filter(
+      ([, policy]) => policy[field] !== undefined
+    );
+
+    const scopes: PurgeScope[] = overrides.map(([campaignId, policy]) => ({
+      days: policy[field]!,
+      campaignId,
+      excludeCampaignIds: [],
+    }));
+
+    if (retention[field] !== undefined) {
+      scopes.push({
+        days: retention[field]!,
+        excludeCampaignIds: overrides.map(([campaignId]) => campaignId),
+      });
+    }
+
+    return scopes;
+  }
+
+  /**
+   * Expired calls in scope that are not on legal hold. Queries using it
+   * must left join leads on the call's lead.
+   */
+  private expiredCalls(tenantId: string, scope: PurgeScope): SQL {
+    const cutoff = new Date(Date.now() - scope.days * DAY_MS);
+
+    const conditions = [
+      eq(calls.tenantId, tenantId),
+      lt(calls.startTime, cutoff),
+      eq(calls.legalHold, false),
+      sql`COALESCE(${leads.legalHold}, false) = false`,
+    ];
+
+    if (scope.campaignId) {
+      conditions.push(eq(calls.campaignId, scope.campaignId));
+    }
+
+    if (scope.excludeCampaignIds.length > 0) {
+      conditions.push(
+        or(isNull(calls.campaignId), notInArray(calls.campaignId, scope.excludeCampaignIds))!
+      );
+    }
+
+    return and(...conditions)!;
+  }
+
+  /**
+   * Delete expired audio from object storage. The recording row stays,
+   * marked purged, so the call's history shows it was recorded.
+   */
+  private async purgeRecordings(tenantId: string, scope: PurgeScope): Promise<void> {
+    const failed = new Set<string>();
+    let purged = 0;
+
+    for (;;) {
+      const batch = await this.db
+        .select({
+          id: recordings.id,
+          callId: recordings.callId,
+          storageUrl: recordings.storageUrl,
+          duration: recordings.duration,
+          fileSize: recordings.fileSize,
+        })
+        .from(recordings)
+        .innerJoin(calls, eq(recordings.callId, calls.id))
+        .leftJoin(leads, eq(calls.leadId, leads.id))
+        .where(and(eq(recordings.status, 'ready'), this.expiredCalls(tenantId, scope)))
+        .limit(BATCH_SIZE + failed.size);
+
+      const pending = batch.filter((recording) => !failed.has(recording.id));
+
+      if (pending.length === 0) break;
+
+      const audit: NewAuditLog[] = [];
+
+      for (const recording of pending) {
+        try {
+          if (recording.storageUrl) {
+            await deleteRecording(recording.storageUrl);
+          }
+        } catch (error) {
+          // Left ready so the next run tries again
+          this.log.warn({ error, recordingId: recording.id }, 'Failed to delete recording');
+          failed.add(recording.id);
+          continue;
+        }
+
+        await this.db
+          .update(recordings)
+          .set({ status: 'purged', storageUrl: null, updatedAt: new Date() })
+          .where(eq(recordings.id, recording.id));
+
+        await this.db
+          .update(calls)
+          .set({ recordingUrl: null })
+          .where(eq(calls.id, recording.callId));
+
+        audit.push({
+          tenantId,
+          actorType: 'system',
+          action: 'retention.purge',
+          resourceType: 'recording',
+          resourceId: recording.id,
+          details: {
+            callId: recording.callId,
+            storageUrl: recording.storageUrl,
+            duration: recording.duration,
+            fileSize: recording.fileSize,
+            retentionDays: scope.days,
+            campaignId: scope.campaignId ?? null,
+          },
+        });
+      }
+
+      if (audit.length > 0) {
+        await this.db.insert(auditLogs).values(audit);
+        purged += audit.length;
+      }
+
+      if (pending.length < BATCH_SIZE) break;
+    }
+
+    if (purged > 0 || failed.size > 0) {
+      this.log.info(
+        { tenantId, campaignId: scope.campaignId, days: scope.days, purged, failed: failed.size },
+        'Purged expired recordings'
+      );
+    }
+  }
+
+  /**
+   * Delete expired transcriptions and agent assist events, one audit
+   * entry per call
+   */
+  private async purgeTranscripts(tenantId: string, scope: PurgeScope): Promise<void> {
+    let purged = 0;
+
+    for (;;) {
+      const batch = await this.db
+        .select({ id: calls.id })
+        .from(calls)
+        .leftJoin(leads, eq(calls.leadId, leads.id))
+        .where(
+          and(
+            this.expiredCalls(tenantId, scope),
+            or(
+              exists(
+                this.db
+                  .select({ id: transcriptions.id })
+                  .from(transcriptions)
+                  .where(eq(transcriptions.callId, calls.id))
+              ),
+              exists(
+                this.db
+                  .select({ id: agentAssistEvents.id })
+                  .from(agentAssistEvents)
+                  .where(eq(agentAssistEvents.callId, calls.id))
+              )
+            )
+          )
+        )
+        .limit(BATCH_SIZE);
+
+      if (batch.length === 0) break;
+
+      const callIds = batch.map((call) => call.id);
+
+      const deletedTranscripts = await this.db
+        .delete(transcriptions)
+        .where(inArray(transcriptions.callId, callIds))
+        .returning({ callId: transcriptions.callId });
+
+      const deletedEvents = await this.db
+        .delete(agentAssistEvents)
+        .where(inArray(agentAssistEvents.callId, callIds))
+        .returning({ callId: agentAssistEvents.callId });
+
+      await this.db
+        .update(calls)
+        .set({ transcriptUrl: null })
+        .where(inArray(calls.id, callIds));
+
+      const countFor = (rows: { callId: string }[], callId: string) =>
+        rows.filter((row) => row.callId === callId).length;
+
+      await this.db.insert(auditLogs).values(
+        callIds.map((callId) => ({
+          tenantId,
+          actorType: 'system',
+          action: 'retention.purge',
+          resourceType: 'call',
+          resourceId: callId,
+          details: {
+            transcriptions: countFor(deletedTranscripts, callId),
+            assistEvents: countFor(deletedEvents, callId),
+            retentionDays: scope.days,
+            campaignId: scope.campaignId ?? null,
+          },
+        }))
+      );
+
+      purged += callIds.length;
+
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    if (purged > 0) {
+      this.log.info(
+        { tenantId, campaignId: scope.campaignId, days: scope.days, calls: purged },
+        'Purged expired transcripts'
+      );
+    }
+  }
+}
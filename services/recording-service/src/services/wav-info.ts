@@ -0,0 +1,95 @@
+import { open } from 'fs/promises';
+
+export interface WavInfo {
+  codec: string;
+  channels: number;
+  sampleRate: number; // Hz
+  bitsPerSample: number;
+  duration: number; // seconds
+  size: number; // bytes, whole file
+}
+
+interface WavFormat {
+  code: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  bits: number;
+}
+
+// Chunks before the audio data are small; this covers fmt, LIST and fact
+const HEADER_READ_SIZE = 4096;
+
+const WAVE_FORMATS: Record<number, string> = {
+  1: 'pcm',
+  3: 'pcm_float',
+  6: 'alaw',
+  7: 'mulaw',
+};
+
+/**
+ * Read format and duration from a WAV file's header. FreeSWITCH writes the
+ * data chunk size when the recording closes, but a crashed channel can leave
+ * it at zero, so the duration falls back to the bytes actually on disk.
+ */
+export async function readWavInfo(filePath: string): Promise<WavInfo> {
+  const file = await open(filePath, 'r');
+
+  try {
+    const { size } = await file.stat();
+    const header = Buffer.alloc(Math.min(HEADER_READ_SIZE, size));
+    await file.read(header, 0, header.length, 0);
+
+    if (
+      header.length < 12 ||
+      header.toString('ascii', 0, 4) !== 'RIFF' ||
+      header.toString('ascii', 8, 12) !== 'WAVE'
+    ) {
+      throw new Error('Not a WAV file');
+    }
+
+    let offset = 12;
+    let format: WavFormat | null = null;
+
+    while (offset + 8 <= header.length) {
+      const chunkId = header.toString('ascii', offset, offset + 4);
+      const chunkSize = header.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (chunkId === 'fmt ' && body + 16 <= header.length) {
+        format = {
+          code: header.readUInt16LE(body),
+          channels: header.readUInt16LE(body + 2),
+          sampleRate: header.readUInt32LE(body + 4),
+          byteRate: header.readUInt32LE(body + 8),
+          bits: header.readUInt16LE(body + 14),
+        };
+      }
+
+      if (chunkId === 'data') {
+        if (!format || format.byteRate === 0) {
+          throw new Error('WAV data chunk before format chunk');
+        }
+
+        const dataSize = chunkSize > 0 ? Math.min(chunkSize, size - body) : size - body;
+        const codecName = WAVE_FORMATS[format.code] ?? `wav_${format.code}`;
+
+        return {
+          codec: codecName === 'pcm' ? `pcm_s${format.bits}le` : codecName,
+          channels: format.channels,
+          sampleRate: format.sampleRate,
+          bitsPerSample: format.bits,
+          duration: Math.round((dataSize / format.byteRate) * 100) / 100,
+          size,
+        };
+      }
+
+      // Chunks are word aligned
+      offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV data chunk not found');
+  } finally {
+    await file.close();
+  }
+}
@@ -1,18 +1,53 @@
 import { EventEmitter } from 'events';
+import os from 'os';
 import pino from 'pino';
-import { Kafka, Producer } from 'kafkajs';
+import { Kafka, Producer, Consumer } from 'kafkajs';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '@nexusdialer/database';
-import { campaigns } from '@nexusdialer/database/schema';
-import { eq } from 'drizzle-orm';
-import { TOPICS } from '@nexusdialer/events';
-import type { CallStartedEvent, CallAnsweredEvent, CallEndedEvent } from '@nexusdialer/events';
+import { campaigns, audioFiles } from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import type { CampaignSettings } from '@nexusdialer/types';
+import {
+  TOPICS,
+  campaignCommandSchema,
+  callRecordingControlSchema,
+  callMonitorControlSchema,
+  callTransferControlSchema,
+  callQualitySampleSchema,
+  queueCallOfferedSchema,
+  queueCallAnnouncementSchema,
+} from '@nexusdialer/events';
+import type {
+  CallStartedEvent,
+  CallAnsweredEvent,
+  CallEndedEvent,
+  CallRecordedEvent,
+  CallRecordingControlEvent,
+  CallRecordingStateEvent,
+  CallQualitySampleEvent,
+  RecordingPauseWindow,
+  CampaignCommandEvent,
+  CampaignCommandResultEvent,
+} from '@nexusdialer/events';
 import { FreeSWITCHClient, CallEvent } from '../freeswitch/client';
 import { FreeSWITCHCommands } from '../freeswitch/commands';
-import { CallService } from '../services/call-service';
+import { CallService, type CallState } from '../services/call-service';
+import { ComplianceGate } from '../services/compliance-gate';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector } from '../services/caller-id-selector';
+import { CallerIdReputation } from '../services/caller-id-reputation';
+import { parseAttestation } from '../services/attestation';
+import { QueueRouter } from '../services/queue-router';
+import { CallbackScheduler } from '../services/callback-scheduler';
+import { RecordingConsent, type ActiveRecording } from '../services/recording-consent';
+import { CallMonitor } from '../services/call-monitor';
+import { CallTransfer } from '../services/call-transfer';
+import { CampaignOwnership } from '../services/campaign-ownership';
 import { PredictiveDialer, PredictiveDialerConfig } from './predictive';
 import { ProgressiveDialer, ProgressiveDialerConfig } from './progressive';
 import { PreviewDialer, PreviewDialerConfig } from './preview';
+import { PowerDialer, PowerDialerConfig } from './power';
+import { ManualDialer, ManualDialerConfig, ManualDialRequest } from './manual';
 
 const logger = pino({ name: 'dialer-manager' });
 
@@ -24,19 +59,89 @@ export interface DialerManagerConfig {
   kafkaBrokers: string[];
 }
 
-type DialMode = 'predictive' | 'progressive' | 'preview';
+type DialMode = 'predictive' | 'progressive' | 'preview' | 'power' | 'manual';
+
+type CampaignDialer =
+  | PredictiveDialer
+  | ProgressiveDialer
+  | PreviewDialer
+  | PowerDialer
+  | ManualDialer;
+
+type AmdResult = 'human' | 'machine' | 'notsure';
+
+interface AmdSettings {
+  enabled: boolean;
+  action: CampaignSettings['amdAction'];
+  voicemailAudioId?: string;
+  transferQueueId?: string;
+}
+
+interface PendingAmd {
+  callId: string;
+  tenantId: string;
+  campaignId: string;
+  startedAt: number;
+  timeout: NodeJS.Timeout;
+}
+
+// Modes where nobody is on the line when the call is answered
+const AMD_DIAL_MODES: DialMode[] = ['predictive', 'progressive', 'power'];
+
+// Give up on detection and treat the call as human after this long
+const AMD_TIMEOUT_MS = 5000;
+
+// Regulators (e.g. FTC TSR) count an answered call as abandoned unless an
+// agent is on the line within two seconds of the greeting
+const SAFE_HARBOR_SECONDS = 2;
+
+// Wait for the greeting to finish before dropping a message:
+// silence threshold, silent frames, listen hits, max wait (ms)
+const VOICEMAIL_DROP_WAIT = '200 25 3 30000';
+
+/**
+ * Raised for a request about a campaign another dialer instance runs
+ */
+export class CampaignNotLocalError extends Error {
+  constructor(
+    public readonly campaignId: string,
+    public readonly owner: string
+  ) {
+    super(`Campaign ${campaignId} is running on dialer instance ${owner}`);
+    this.name = 'CampaignNotLocalError';
+  }
+}
 
 export class DialerManager extends EventEmitter {
   private config: DialerManagerConfig;
   private fsClient: FreeSWITCHClient;
   private fsCommands: FreeSWITCHCommands;
   private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
+  private callerIdReputation: CallerIdReputation;
+  private queueRouter: QueueRouter;
+  private recordingConsent: RecordingConsent;
+  private callMonitor: CallMonitor;
+  private callTransfer: CallTransfer;
+  private callbackScheduler: CallbackScheduler;
+  private campaignOwnership: CampaignOwnership;
   private kafka: Kafka;
   private producer: Producer;
+  private commandConsumer: Consumer;
+  private queueConsumer: Consumer;
+  private recordingConsumer: Consumer;
+  private monitorConsumer: Consumer;
+  private transferConsumer: Consumer;
+  private qualityConsumer: Consumer;
+  private readonly instanceId = `${os.hostname()}-${process.pid}`;
   private activeCampaigns: Map<string, {
-    dialer: PredictiveDialer | ProgressiveDialer | PreviewDialer;
+    dialer: CampaignDialer;
     mode: DialMode;
+    amd: AmdSettings;
   }> = new Map();
+  private pendingAmd: Map<string, PendingAmd> = new Map();
   private isInitialized = false;
 
   constructor(config: DialerManagerConfig) {
@@ -52,6 +157,37 @@ export class DialerManager extends EventEmitter {
 
     this.fsCommands = new FreeSWITCHCommands(this.fsClient);
     this.callService = new CallService(config.redisUrl);
+    this.complianceGate = new ComplianceGate(this.callService);
+    this.trunkRouter = new TrunkRouter(this.fsCommands, this.callService);
+    this.callerIdSelector = new CallerIdSelector(config.redisUrl);
+    this.callerIdReputation = new CallerIdReputation(config.redisUrl);
+    this.recordingConsent = new RecordingConsent(
+      this.fsCommands,
+      this.callService,
+      (topic, event) => this.publishEvent(topic, event)
+    );
+    this.queueRouter = new QueueRouter(
+      this.fsCommands,
+      this.callService,
+      this.trunkRouter,
+      this.recordingConsent,
+      (topic, event) => this.publishEvent(topic, event)
+    );
+    this.callMonitor = new CallMonitor(this.fsCommands, this.callService, (topic, event) =>
+      this.publishEvent(topic, event)
+    );
+    this.callTransfer = new CallTransfer(this.fsCommands, this.callService, (topic, event) =>
+      this.publishEvent(topic, event)
+    );
+    this.campaignOwnership = new CampaignOwnership(config.redisUrl, this.instanceId);
+    this.callbackScheduler = new CallbackScheduler(
+      config.redisUrl,
+      this.callService,
+      this.complianceGate,
+      this.trunkRouter,
+      this.callerIdSelector,
+      (topic, event) => this.publishEvent(topic, event)
+    );
 
     // Initialize Kafka
     this.kafka = new Kafka({
@@ -59,6 +195,12 @@ export class DialerManager extends EventEmitter {
       brokers: config.kafkaBrokers,
     });
     this.producer = this.kafka.producer();
+    this.commandConsumer = this.kafka.consumer({ groupId: 'dialer-engine-commands' });
+    this.queueConsumer = this.kafka.consumer({ groupId: 'dialer-engine-queues' });
+    this.recordingConsumer = this.kafka.consumer({ groupId: 'dialer-engine-recording' });
+    this.monitorConsumer = this.kafka.consumer({ groupId: 'dialer-engine-monitor' });
+    this.transferConsumer = this.kafka.consumer({ groupId: 'dialer-engine-transfer' });
+    this.qualityConsumer = this.kafka.consumer({ groupId: 'dialer-engine-quality' });
   }
 
   /**
@@ -80,11 +222,274 @@ export class DialerManager extends EventEmitter {
     // Set up FreeSWITCH event handlers
     this.setupFreeSWITCHEventHandlers();
 
+    // Listen for campaign commands from the API, and those other instances
+    // forward here for the campaigns this instance runs
+    await this.campaignOwnership.start((command) => this.handleCampaignCommand(command));
+    await this.subscribeToCampaignCommands();
+
+    // Listen for queue service routing decisions
+    await this.subscribeToQueueOffers();
+
+    // Listen for recording pause/resume requests from agents and agent assist
+    await this.subscribeToRecordingControl();
+
+    // Listen for supervisors joining, switching mode on or leaving calls
+    await this.subscribeToMonitorControl();
+
+    // Listen for agents transferring or conferencing their calls
+    await this.subscribeToTransferControl();
+
+    // Keep the WebRTC gateway's call quality samples for the call record
+    await this.subscribeToCallQuality();
+
+    // Dial scheduled callbacks as they come due
+    this.callbackScheduler.start();
+
+    // Track caller ID reputation and pull spam-labeled numbers from rotation
+    this.callerIdReputation.start();
+
     this.isInitialized = true;
 
     logger.info('Dialer manager initialized');
   }
 
+  /**
+   * Subscribe to campaign start/pause/stop commands
+   */
+  private async subscribeToCampaignCommands(): Promise<void> {
+    await this.commandConsumer.connect();
+    await this.commandConsumer.subscribe({
+      topic: TOPICS.CAMPAIGNS_COMMANDS,
+      fromBeginning: false,
+    });
+
+    await this.commandConsumer.run({
+      eachMessage: async ({ message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const command = campaignCommandSchema.parse(JSON.parse(message.value.toString()));
+
+          if (!(await this.campaignOwnership.forward(command))) {
+            await this.handleCampaignCommand(command);
+          }
+        } catch (error) {
+          logger.error({ error, offset: message.offset }, 'Invalid campaign command');
+        }
+      },
+    });
+
+    logger.info({ topic: TOPICS.CAMPAIGNS_COMMANDS }, 'Subscribed to campaign commands');
+  }
+
+  /**
+   * Subscribe to agent offers and hold announcements for queued inbound calls
+   */
+  private async subscribeToQueueOffers(): Promise<void> {
+    const topics = [TOPICS.QUEUES_CALL_OFFERED, TOPICS.QUEUES_CALL_ANNOUNCEMENT];
+
+    await this.queueConsumer.connect();
+    await this.queueConsumer.subscribe({ topics, fromBeginning: false });
+
+    await this.queueConsumer.run({
+      eachMessage: async ({ topic, message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const event = JSON.parse(message.value.toString());
+
+          if (topic === TOPICS.QUEUES_CALL_ANNOUNCEMENT) {
+            await this.queueRouter.handleAnnouncement(queueCallAnnouncementSchema.parse(event));
+          } else {
+            await this.queueRouter.handleCallOffered(queueCallOfferedSchema.parse(event));
+          }
+        } catch (error) {
+          logger.error({ error, topic, offset: message.offset }, 'Error handling queue event');
+        }
+      },
+    });
+
+    logger.info({ topics }, 'Subscribed to queue events');
+  }
+
+  /**
+   * Subscribe to recording pause/resume requests for live calls
+   */
+  private async subscribeToRecordingControl(): Promise<void> {
+    await this.recordingConsumer.connect();
+    await this.recordingConsumer.subscribe({
+      topic: TOPICS.CALLS_RECORDING_CONTROL,
+      fromBeginning: false,
+    });
+
+    await this.recordingConsumer.run({
+      eachMessage: async ({ message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const command = callRecordingControlSchema.parse(JSON.parse(message.value.toString()));
+          await this.handleRecordingControl(command);
+        } catch (error) {
+          logger.error({ error, offset: message.offset }, 'Invalid recording control request');
+        }
+      },
+    });
+
+    logger.info({ topic: TOPICS.CALLS_RECORDING_CONTROL }, 'Subscribed to recording control');
+  }
+
+  /**
+   * Subscribe to supervisor listen/whisper/barge requests
+   */
+  private async subscribeToMonitorControl(): Promise<void> {
+    await this.monitorConsumer.connect();
+    await this.monitorConsumer.subscribe({
+      topic: TOPICS.CALLS_MONITOR_CONTROL,
+      fromBeginning: false,
+    });
+
+    await this.monitorConsumer.run({
+      eachMessage: async ({ message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const command = callMonitorControlSchema.parse(JSON.parse(message.value.toString()));
+          await this.callMonitor.handleControl(command);
+        } catch (error) {
+          logger.error({ error, offset: message.offset }, 'Invalid monitor control request');
+        }
+      },
+    });
+
+    logger.info({ topic: TOPICS.CALLS_MONITOR_CONTROL }, 'Subscribed to monitor control');
+  }
+
+  /**
+   * Subscribe to blind/warm transfer and conference requests
+   */
+  private async subscribeToTransferControl(): Promise<void> {
+    await this.transferConsumer.connect();
+    await this.transferConsumer.subscribe({
+      topic: TOPICS.CALLS_TRANSFER_CONTROL,
+      fromBeginning: false,
+    });
+
+    await this.transferConsumer.run({
+      eachMessage: async ({ message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const command = callTransferControlSchema.parse(JSON.parse(message.value.toString()));
+          await this.callTransfer.handleControl(command);
+        } catch (error) {
+          logger.error({ error, offset: message.offset }, 'Invalid transfer control request');
+        }
+      },
+    });
+
+    logger.info({ topic: TOPICS.CALLS_TRANSFER_CONTROL }, 'Subscribed to transfer control');
+  }
+
+  /**
+   * Subscribe to softphone media quality samples
+   */
+  private async subscribeToCallQuality(): Promise<void> {
+    await this.qualityConsumer.connect();
+    await this.qualityConsumer.subscribe({ topic: TOPICS.CALLS_QUALITY, fromBeginning: false });
+
+    await this.qualityConsumer.run({
+      eachMessage: async ({ message }) => {
+        if (!message.value) {
+          return;
+        }
+
+        try {
+          const sample = callQualitySampleSchema.parse(JSON.parse(message.value.toString()));
+          await this.handleCallQuality(sample);
+        } catch (error) {
+          logger.error({ error, offset: message.offset }, 'Invalid call quality sample');
+        }
+      },
+    });
+
+    logger.info({ topic: TOPICS.CALLS_QUALITY }, 'Subscribed to call quality');
+  }
+
+  /**
+   * Put a quality sample on the call the agent is on. The gateway only knows
+   * its own softphone call, so samples of calls the dialer did not place,
+   * or that arrive after the agent hung up, are dropped.
+   */
+  private async handleCallQuality(event: CallQualitySampleEvent): Promise<void> {
+    const { agentId, mos, jitter, packetLoss, roundTripTime } = event.payload;
+    const agent = await this.callService.getAgentStatus(agentId);
+
+    if (agent?.tenantId !== event.tenantId || agent.state !== 'on_call' || !agent.currentCallId) {
+      return;
+    }
+
+    await this.callService.addQualitySample(agent.currentCallId, {
+      mos,
+      jitter,
+      packetLoss,
+      roundTripTime,
+    });
+  }
+
+  /**
+   * Apply a campaign command and report the resulting dialer state
+   */
+  private async handleCampaignCommand(command: CampaignCommandEvent): Promise<void> {
+    const { commandId, campaignId, action } = command.payload;
+
+    logger.info({ commandId, campaignId, action }, 'Received campaign command');
+
+    let error: string | undefined;
+
+    try {
+      if (action === 'start') {
+        await this.startCampaign(campaignId);
+      } else {
+        // Pause and stop both halt dialing; in-flight calls run to completion
+        await this.stopCampaign(campaignId);
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+      logger.error({ error: err, commandId, campaignId, action }, 'Campaign command failed');
+    }
+
+    const running = this.activeCampaigns.get(campaignId);
+
+    await this.publishEvent<CampaignCommandResultEvent>(TOPICS.CAMPAIGNS_COMMAND_RESULTS, {
+      eventId: uuidv4(),
+      tenantId: command.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'campaigns.command-result',
+      payload: {
+        commandId,
+        campaignId,
+        action,
+        status: error ? 'failed' : 'acknowledged',
+        isRunning: running !== undefined,
+        dialMode: running?.mode,
+        error,
+        handledBy: this.instanceId,
+        handledAt: new Date().toISOString(),
+      },
+    });
+  }
+
   /**
    * Set up FreeSWITCH event handlers
    */
@@ -103,12 +508,142 @@ export class DialerManager extends EventEmitter {
       });
     });
 
+    // Supervisor answered their softphone to monitor a call
+    this.fsClient.on('event:CHANNEL_ANSWER', (event: CallEvent) => {
+      this.callMonitor.handleAnswer(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling monitor answer');
+      });
+    });
+
+    // Answering machine detection finished (mod_amd)
+    this.fsClient.on('event:CHANNEL_EXECUTE_COMPLETE', (event: CallEvent) => {
+      if (event.raw?.Application !== 'amd') {
+        return;
+      }
+
+      this.handleAmdResult(event.uuid, this.parseAmdResult(event.raw), {
+        cause: event.raw?.variable_amd_cause,
+        detector: 'amd',
+      }).catch((error) => {
+        logger.error({ error, event }, 'Error handling AMD result');
+      });
+    });
+
+    // Recording disclosure finished playing
+    this.fsClient.on('event:CHANNEL_EXECUTE_COMPLETE', (event: CallEvent) => {
+      if (event.raw?.Application !== 'playback') {
+        return;
+      }
+
+      this.recordingConsent.handlePlaybackComplete(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling playback completion');
+      });
+    });
+
+    // Inbound caller placed in a queue by the dialplan
+    this.fsClient.on('event:CUSTOM', (event: CallEvent) => {
+      if (event.raw?.['Event-Subclass'] !== 'nexus::queue_enter') {
+        return;
+      }
+
+      this.queueRouter.handleQueueEnter(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling queue entry');
+      });
+    });
+
+    // Queued caller accepted a callback
+    this.fsClient.on('event:CUSTOM', (event: CallEvent) => {
+      if (event.raw?.['Event-Subclass'] !== 'nexus::queue_callback') {
+        return;
+      }
+
+      this.queueRouter.handleCallbackRequest(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling callback request');
+      });
+    });
+
+    // Keypresses from callers on hold, for the callback offer
+    this.fsClient.on('event:DTMF', (event: CallEvent) => {
+      this.queueRouter.handleDtmf(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling DTMF');
+      });
+    });
+
+    // Answers to the recording consent prompt
+    this.fsClient.on('event:DTMF', (event: CallEvent) => {
+      this.recordingConsent.handleDtmf(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling recording consent');
+      });
+    });
+
+    // Agent picked up a queued call
+    this.fsClient.on('event:CHANNEL_BRIDGE', (event: CallEvent) => {
+      this.queueRouter.handleBridge(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling CHANNEL_BRIDGE');
+      });
+    });
+
+    // Transfer target answered a consult or blind transfer
+    this.fsClient.on('event:CHANNEL_BRIDGE', (event: CallEvent) => {
+      this.callTransfer.handleBridge(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling transfer bridge');
+      });
+    });
+
+    // Consult call of a warm transfer ended
+    this.fsClient.on('event:CHANNEL_EXECUTE_COMPLETE', (event: CallEvent) => {
+      if (event.raw?.Application !== 'bridge') {
+        return;
+      }
+
+      this.callTransfer.handleConsultEnded(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling consult end');
+      });
+    });
+
+    // Voicemail beep detection (mod_avmd)
+    this.fsClient.on('event:CUSTOM', (event: CallEvent) => {
+      const subclass = event.raw?.['Event-Subclass'];
+
+      if (subclass !== 'avmd::beep' && subclass !== 'avmd::timeout') {
+        return;
+      }
+
+      this.handleAmdResult(event.uuid, subclass === 'avmd::beep' ? 'machine' : 'notsure', {
+        cause: subclass,
+        detector: 'avmd',
+      }).catch((error) => {
+        logger.error({ error, event }, 'Error handling AVMD result');
+      });
+    });
+
+    // A recording file was closed and is ready to upload
+    this.fsClient.on('event:RECORD_STOP', (event: CallEvent) => {
+      this.handleRecordStop(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling RECORD_STOP');
+      });
+    });
+
     // Channel hangup
     this.fsClient.on('event:CHANNEL_HANGUP_COMPLETE', (event: CallEvent) => {
       this.handleChannelHangup(event).catch((error) => {
         logger.error({ error, event }, 'Error handling CHANNEL_HANGUP_COMPLETE');
       });
     });
+
+    // Supervisor left a monitored call
+    this.fsClient.on('event:CHANNEL_HANGUP_COMPLETE', (event: CallEvent) => {
+      this.callMonitor.handleHangup(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling monitor hangup');
+      });
+    });
+
+    // Agent or transfer target left a conference
+    this.fsClient.on('event:CHANNEL_HANGUP_COMPLETE', (event: CallEvent) => {
+      this.callTransfer.handleConferenceHangup(event).catch((error) => {
+        logger.error({ error, event }, 'Error handling conference hangup');
+      });
+    });
   }
 
   /**
@@ -156,6 +691,63 @@ export class DialerManager extends EventEmitter {
       return;
     }
 
+    const campaign = campaignId ? this.activeCampaigns.get(campaignId) : undefined;
+
+    // Hold auto-dialed calls until we know a person picked up
+    if (campaign?.amd.enabled && AMD_DIAL_MODES.includes(campaign.mode)) {
+      const result = this.parseAmdResult(event.raw);
+
+      this.pendingAmd.set(event.uuid, {
+        callId,
+        tenantId,
+        campaignId: campaignId!,
+        startedAt: Date.now(),
+        timeout: setTimeout(() => {
+          this.handleAmdResult(event.uuid, 'notsure', { cause: 'timeout', detector: 'amd' }).catch(
+            (error) => {
+              logger.error({ error, callId }, 'Error handling AMD timeout');
+            }
+          );
+        }, AMD_TIMEOUT_MS),
+      });
+
+      // Detection may already have run in the dialplan before the answer event
+      if (result) {
+        await this.handleAmdResult(event.uuid, result, {
+          cause: event.raw?.variable_amd_cause,
+          detector: 'amd',
+        });
+        return;
+      }
+
+      try {
+        await this.fsCommands.detectAnsweringMachine(event.uuid);
+      } catch (error) {
+        logger.warn({ error, callId }, 'AMD unavailable, treating call as human');
+        await this.handleAmdResult(event.uuid, 'notsure', {
+          cause: 'unavailable',
+          detector: 'amd',
+        });
+      }
+
+      return;
+    }
+
+    await this.connectAnsweredCall(call, tenantId);
+  }
+
+  /**
+   * Announce a live answered call and hand it to the campaign dialer
+   */
+  private async connectAnsweredCall(call: CallState, tenantId: string): Promise<void> {
+    // Inbound calls are recorded from the queue; a failed recording must
+    // not hold up the call
+    if (call.direction === 'outbound') {
+      await this.recordingConsent.begin(call).catch((error) => {
+        logger.error({ error, callId: call.id }, 'Failed to start call recording');
+      });
+    }
+
     // Publish event
     await this.publishEvent<CallAnsweredEvent>(TOPICS.CALLS_ANSWERED, {
       eventId: uuidv4(),
@@ -164,7 +756,7 @@ export class DialerManager extends EventEmitter {
       version: '1.0',
       type: 'calls.answered',
       payload: {
-        callId,
+        callId: call.id,
         agentId: call.agentId!,
         answerTime: call.answerTime!,
         ringDuration: call.ringDuration!,
@@ -172,17 +764,274 @@ export class DialerManager extends EventEmitter {
     });
 
     // Notify campaign dialer
-    if (campaignId) {
-      const campaign = this.activeCampaigns.get(campaignId);
+    if (call.campaignId) {
+      const campaign = this.activeCampaigns.get(call.campaignId);
 
       if (campaign) {
         if (campaign.mode === 'progressive') {
-          (campaign.dialer as ProgressiveDialer).onCallAnswered(callId, call.phoneNumber);
+          (campaign.dialer as ProgressiveDialer).onCallAnswered(call.id, call.phoneNumber);
+        } else if (campaign.mode === 'predictive') {
+          (campaign.dialer as PredictiveDialer).onCallAnswered(call.id, call.phoneNumber);
+        } else if (campaign.mode === 'power') {
+          (campaign.dialer as PowerDialer).onCallAnswered(call.id, call.phoneNumber);
         }
       }
     }
   }
 
+  /**
+   * Pause or resume a live call's recording, keeping the call's pause
+   * windows, and report the resulting state. Asking for the state the
+   * recording is already in is not an error, so agent assist can request a
+   * pause each time it hears card details.
+   */
+  private async handleRecordingControl(command: CallRecordingControlEvent): Promise<void> {
+    const { callId, action, source, agentId, reason } = command.payload;
+
+    const call = await this.callService.getCall(callId);
+    const recording = call?.metadata?.recording as ActiveRecording | undefined;
+    const windows = await this.callService.getRecordingPauses(callId);
+    const openWindow = windows.find((window) => window.end === undefined);
+
+    let error: string | undefined;
+
+    if (!call || call.tenantId !== command.tenantId) {
+      error = 'Call not found';
+    } else if (agentId && call.agentId !== agentId) {
+      error = 'Not your call';
+    } else if (!recording || !call.freeswitchUuid || call.endTime) {
+      error = 'Call is not being recorded';
+    } else {
+      const now = new Date();
+      const offset =
+        Math.round((now.getTime() - new Date(recording.startedAt).getTime()) / 100) / 10;
+
+      try {
+        if (action === 'pause' && !openWindow) {
+          await this.fsCommands.pauseRecording(call.freeswitchUuid, recording.filePath);
+          windows.push({ start: offset, pausedAt: now.toISOString(), source, reason });
+          await this.callService.setRecordingPauses(callId, windows);
+        } else if (action === 'resume' && openWindow) {
+          await this.fsCommands.resumeRecording(call.freeswitchUuid, recording.filePath);
+          openWindow.end = offset;
+          openWindow.resumedAt = now.toISOString();
+          await this.callService.setRecordingPauses(callId, windows);
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Unknown error';
+      }
+    }
+
+    const paused = windows.some((window) => window.end === undefined);
+
+    if (error) {
+      logger.warn({ callId, action, source, error }, 'Recording control failed');
+    } else {
+      logger.info({ callId, action, source, paused }, 'Recording control applied');
+    }
+
+    await this.publishEvent<CallRecordingStateEvent>(TOPICS.CALLS_RECORDING_STATE, {
+      eventId: uuidv4(),
+      tenantId: command.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.recording-state',
+      payload: {
+        callId,
+        agentId: call?.agentId,
+        action,
+        status: error ? 'failed' : 'applied',
+        paused,
+        source,
+        reason,
+        error,
+        pauseWindows: windows,
+      },
+    });
+  }
+
+  /**
+   * Report a closed recording file to the recording service
+   */
+  private async handleRecordStop(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const tenantId = event.raw?.variable_nexus_tenant_id;
+    const filePath = event.raw?.['Record-File-Path'];
+
+    if (!callId || !tenantId || !filePath) {
+      return;
+    }
+
+    logger.info({ callId, uuid: event.uuid, filePath }, 'Recording finished');
+
+    const duration = Number(event.raw?.variable_record_seconds) || 0;
+
+    // A call that ends paused stays masked to the end of the file
+    const pauseWindows: RecordingPauseWindow[] = (
+      await this.callService.getRecordingPauses(callId)
+    ).map((window) => (window.end === undefined ? { ...window, end: duration } : window));
+
+    if (pauseWindows.length > 0) {
+      await this.callService.setRecordingPauses(callId, pauseWindows);
+    }
+
+    await this.publishEvent<CallRecordedEvent>(TOPICS.CALLS_RECORDED, {
+      eventId: uuidv4(),
+      tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.recorded',
+      payload: {
+        callId,
+        recordingId: uuidv4(),
+        filePath,
+        duration,
+        format: 'wav',
+        status: 'processing',
+        pauseWindows,
+      },
+    });
+  }
+
+  /**
+   * Read an AMD verdict from channel variables, if detection has run
+   */
+  private parseAmdResult(headers?: Record<string, string>): AmdResult | null {
+    switch (headers?.variable_amd_result?.toUpperCase()) {
+      case 'HUMAN':
+        return 'human';
+      case 'MACHINE':
+        return 'machine';
+      case 'NOTSURE':
+        return 'notsure';
+    }
+
+    if (headers?.variable_avmd_detect === 'TRUE') {
+      return 'machine';
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the AMD verdict on the call, then connect a live person or apply
+   * the campaign's machine action. Undecided calls are treated as human.
+   */
+  private async handleAmdResult(
+    uuid: string,
+    result: AmdResult | null,
+    details: { cause?: string; detector: 'amd' | 'avmd' }
+  ): Promise<void> {
+    const pending = this.pendingAmd.get(uuid);
+
+    if (!pending) {
+      return; // Not waiting on detection for this channel
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingAmd.delete(uuid);
+
+    const call = await this.callService.getCall(pending.callId);
+
+    if (!call) {
+      logger.warn({ callId: pending.callId }, 'Call not found for AMD result');
+      return;
+    }
+
+    const amd = {
+      result: result ?? 'notsure',
+      cause: details.cause,
+      detector: details.detector,
+      latencyMs: Date.now() - pending.startedAt,
+    };
+
+    logger.info({ callId: call.id, ...amd }, 'Answering machine detection result');
+
+    if (amd.result !== 'machine') {
+      const updated = await this.callService.updateCall(call.id, {
+        metadata: { ...call.metadata, amd },
+      });
+      await this.connectAnsweredCall(updated ?? call, pending.tenantId);
+      return;
+    }
+
+    const settings = this.activeCampaigns.get(pending.campaignId)?.amd;
+    await this.handleMachineAnswer(call, uuid, pending.tenantId, amd, settings);
+  }
+
+  /**
+   * Apply the campaign's amdAction to a machine-answered call. Falls back to
+   * hanging up when no voicemail drop or transfer queue is configured, or
+   * when the action cannot be carried out.
+   */
+  private async handleMachineAnswer(
+    call: CallState,
+    uuid: string,
+    tenantId: string,
+    amd: Record<string, unknown>,
+    settings?: AmdSettings
+  ): Promise<void> {
+    let action: CampaignSettings['amdAction'] = 'hangup';
+    let destination: { destination: string; dialplan?: string } | undefined;
+
+    if (settings?.action === 'leave_message' && settings.voicemailAudioId) {
+      const audioFile = await this.getVoicemailDropFile(tenantId, settings.voicemailAudioId);
+
+      if (audioFile) {
+        action = 'leave_message';
+        destination = {
+          destination: `wait_for_silence:${VOICEMAIL_DROP_WAIT},playback:${audioFile},hangup`,
+          dialplan: 'inline',
+        };
+      } else {
+        logger.warn(
+          { callId: call.id, audioId: settings.voicemailAudioId },
+          'Voicemail drop audio not found'
+        );
+      }
+    } else if (settings?.action === 'transfer' && settings.transferQueueId) {
+      action = 'transfer';
+      destination = { destination: `queue_${settings.transferQueueId}` };
+    }
+
+    // Mark the call before acting so the hangup that follows keeps the status
+    await this.callService.updateCall(call.id, {
+      status: 'voicemail',
+      metadata: { ...call.metadata, amd: { ...amd, action } },
+    });
+
+    if (destination) {
+      try {
+        await this.fsCommands.transfer({ uuid, ...destination });
+        return;
+      } catch (error) {
+        logger.error({ error, callId: call.id, action }, 'AMD action failed, hanging up');
+
+        await this.callService.updateCall(call.id, {
+          metadata: { ...call.metadata, amd: { ...amd, action: 'hangup', failedAction: action } },
+        });
+      }
+    }
+
+    await this.fsCommands.hangup(uuid, 'NORMAL_CLEARING');
+  }
+
+  /**
+   * Playable path for a tenant's voicemail drop recording
+   */
+  private async getVoicemailDropFile(tenantId: string, audioId: string): Promise<string | null> {
+    const audio = await db.query.audioFiles.findFirst({
+      where: and(eq(audioFiles.id, audioId), eq(audioFiles.tenantId, tenantId)),
+    });
+
+    if (!audio) {
+      return null;
+    }
+
+    // Remote files are fetched and cached by mod_http_cache
+    return /^https?:\/\//.test(audio.fileUrl) ? `http_cache://${audio.fileUrl}` : audio.fileUrl;
+  }
+
   /**
    * Handle channel hangup event
    */
@@ -197,8 +1046,24 @@ export class DialerManager extends EventEmitter {
 
     logger.info({ callId, uuid: event.uuid, hangupCause }, 'Channel hangup');
 
+    // A carrier failure before answer may send the call out on another trunk
+    if (await this.trunkRouter.handleHangup(event)) {
+      return;
+    }
+
+    // Hung up while detection was still running
+    const pending = this.pendingAmd.get(event.uuid);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingAmd.delete(event.uuid);
+    }
+
+    // Hung up during the recording disclosure or consent prompt
+    await this.recordingConsent.cancel(callId);
+
     // Determine call status
-    let status: 'completed' | 'abandoned' | 'failed' | 'no_answer' | 'busy' = 'completed';
+    let status: 'completed' | 'abandoned' | 'failed' | 'no_answer' | 'busy' | 'voicemail' =
+      'completed';
 
     switch (hangupCause) {
       case 'NO_ANSWER':
@@ -221,6 +1086,50 @@ export class DialerManager extends EventEmitter {
         status = 'failed';
     }
 
+    // Machine-answered calls keep their voicemail status whatever the cause,
+    // and calls the dialer hung up for want of an agent stay abandoned
+    const current = await this.callService.getCall(callId);
+    if (current?.status === 'voicemail' || current?.status === 'abandoned') {
+      status = current.status;
+    }
+
+    // Inbound callers who hang up before an agent answers abandoned the queue,
+    // unless they hung up to wait for a callback
+    if (
+      current?.direction === 'inbound' &&
+      !current.answerTime &&
+      !current.metadata?.callbackRequested &&
+      status === 'completed'
+    ) {
+      status = 'abandoned';
+    }
+
+    // So did people an auto-dialed call reached who hung up before an agent
+    // was connected; not callers sent on to a queue, nor calls still in AMD
+    const campaignMode = current?.campaignId
+      ? this.activeCampaigns.get(current.campaignId)?.mode
+      : undefined;
+    if (
+      current?.direction === 'outbound' &&
+      current.answerTime &&
+      !current.agentId &&
+      !current.queueId &&
+      !pending &&
+      campaignMode &&
+      AMD_DIAL_MODES.includes(campaignMode) &&
+      status === 'completed'
+    ) {
+      status = 'abandoned';
+    }
+
+    // STIR/SHAKEN level the carrier signed the caller ID with, for reputation tracking
+    const attestation = current?.direction === 'outbound' ? parseAttestation(event.raw) : null;
+    if (current && attestation) {
+      await this.callService.updateCall(callId, {
+        metadata: { ...current.metadata, attestation },
+      });
+    }
+
     // End call
     const call = await this.callService.endCall(callId, status);
 
@@ -248,6 +1157,10 @@ export class DialerManager extends EventEmitter {
       },
     });
 
+    await this.queueRouter.handleCallbackEnded(call);
+    await this.callbackScheduler.handleCallEnded(call);
+    await this.callTransfer.handleCallEnded(call);
+
     // Update agent status if call had an agent
     if (call.agentId) {
       await this.callService.updateAgentStatus(
@@ -257,16 +1170,22 @@ export class DialerManager extends EventEmitter {
       );
     }
 
-    // Record outcome for predictive dialer
+    // Record outcome for dialers that track it
     if (call.campaignId) {
       const campaign = this.activeCampaigns.get(call.campaignId);
-
-      if (campaign && campaign.mode === 'predictive') {
-        (campaign.dialer as PredictiveDialer).recordCallOutcome({
-          answered: status === 'completed',
-          abandoned: status === 'abandoned',
-          talkTime: call.talkDuration || 0,
-        });
+      const outcome = {
+        answered: status === 'completed',
+        abandoned: status === 'abandoned',
+        talkTime: call.talkDuration || 0,
+        timeToAnswer: call.answerTime ? call.ringDuration : undefined,
+      };
+
+      if (campaign?.mode === 'predictive') {
+        (campaign.dialer as PredictiveDialer).recordCallOutcome(outcome);
+      } else if (campaign?.mode === 'power') {
+        (campaign.dialer as PowerDialer).recordCallOutcome(outcome);
+      } else if (campaign?.mode === 'manual') {
+        (campaign.dialer as ManualDialer).recordCallOutcome(outcome);
       }
     }
   }
@@ -297,7 +1216,7 @@ export class DialerManager extends EventEmitter {
 
     logger.info({ campaignId, dialMode }, 'Starting campaign');
 
-    let dialer: PredictiveDialer | ProgressiveDialer | PreviewDialer;
+    let dialer: CampaignDialer;
 
     // Create appropriate dialer
     switch (dialMode) {
@@ -311,10 +1230,19 @@ export class DialerManager extends EventEmitter {
           answerRate: 0.25,
           avgTalkTime: 180,
           avgWrapTime: campaign.settings.wrapUpTime || 30,
+          avgTimeToAnswer: 12,
           adjustmentInterval: 30000,
           callTimeout: campaign.settings.ringTimeout || 30,
+          agentWaitTime: SAFE_HARBOR_SECONDS,
         };
-        dialer = new PredictiveDialer(predictiveConfig, this.fsCommands, this.callService);
+        dialer = new PredictiveDialer(
+          predictiveConfig,
+          this.fsCommands,
+          this.callService,
+          this.complianceGate,
+          this.trunkRouter,
+          this.callerIdSelector
+        );
         break;
 
       case 'progressive':
@@ -325,7 +1253,14 @@ export class DialerManager extends EventEmitter {
           callTimeout: campaign.settings.ringTimeout || 30,
           agentWaitTime: 10,
         };
-        dialer = new ProgressiveDialer(progressiveConfig, this.fsCommands, this.callService);
+        dialer = new ProgressiveDialer(
+          progressiveConfig,
+          this.fsCommands,
+          this.callService,
+          this.complianceGate,
+          this.trunkRouter,
+          this.callerIdSelector
+        );
         break;
 
       case 'preview':
@@ -336,19 +1271,80 @@ export class DialerManager extends EventEmitter {
           callTimeout: campaign.settings.ringTimeout || 30,
           autoDialAfterPreview: false,
         };
-        dialer = new PreviewDialer(previewConfig, this.fsCommands, this.callService);
+        dialer = new PreviewDialer(
+          previewConfig,
+          this.fsCommands,
+          this.callService,
+          this.complianceGate,
+          this.trunkRouter,
+          this.callerIdSelector
+        );
+        break;
+
+      case 'power':
+        const powerConfig: PowerDialerConfig = {
+          campaignId,
+          tenantId: campaign.tenantId,
+          linesPerAgent: Math.max(1, Math.round(campaign.settings.dialRatio || 2)),
+          callTimeout: campaign.settings.ringTimeout || 30,
+          agentWaitTime: SAFE_HARBOR_SECONDS,
+        };
+        dialer = new PowerDialer(
+          powerConfig,
+          this.fsCommands,
+          this.callService,
+          this.complianceGate,
+          this.trunkRouter,
+          this.callerIdSelector
+        );
+        break;
+
+      case 'manual':
+        const manualConfig: ManualDialerConfig = {
+          campaignId,
+          tenantId: campaign.tenantId,
+          callTimeout: campaign.settings.ringTimeout || 30,
+        };
+        dialer = new ManualDialer(
+          manualConfig,
+          this.fsCommands,
+          this.callService,
+          this.complianceGate,
+          this.trunkRouter,
+          this.callerIdSelector
+        );
         break;
 
       default:
         throw new Error(`Unsupported dial mode: ${dialMode}`);
     }
 
+    if (!(await this.campaignOwnership.claim(campaignId))) {
+      throw new Error(`Campaign ${campaignId} is running on another dialer instance`);
+    }
+
     // Set up dialer event handlers
     this.setupDialerEventHandlers(dialer, campaignId, campaign.tenantId);
 
     // Store and start dialer
-    this.activeCampaigns.set(campaignId, { dialer, mode: dialMode });
-    await dialer.start();
+    this.activeCampaigns.set(campaignId, {
+      dialer,
+      mode: dialMode,
+      amd: {
+        enabled: campaign.settings.amdEnabled ?? false,
+        action: campaign.settings.amdAction || 'hangup',
+        voicemailAudioId: campaign.settings.amdVoicemailAudioId,
+        transferQueueId: campaign.settings.amdTransferQueueId,
+      },
+    });
+
+    try {
+      await dialer.start();
+    } catch (error) {
+      this.activeCampaigns.delete(campaignId);
+      await this.campaignOwnership.release(campaignId);
+      throw error;
+    }
 
     logger.info({ campaignId, dialMode }, 'Campaign started');
   }
@@ -368,6 +1364,7 @@ export class DialerManager extends EventEmitter {
 
     await campaign.dialer.stop();
     this.activeCampaigns.delete(campaignId);
+    await this.campaignOwnership.release(campaignId);
 
     logger.info({ campaignId }, 'Campaign stopped');
   }
@@ -376,7 +1373,7 @@ export class DialerManager extends EventEmitter {
    * Set up dialer event handlers
    */
   private setupDialerEventHandlers(
-    dialer: PredictiveDialer | ProgressiveDialer | PreviewDialer,
+    dialer: CampaignDialer,
     campaignId: string,
     tenantId: string
   ): void {
@@ -410,6 +1407,11 @@ export class DialerManager extends EventEmitter {
       logger.error({ campaignId, ...data }, 'Call failed');
     });
 
+    // Lead blocked by the compliance gate
+    dialer.on('call-blocked', (data) => {
+      logger.info({ campaignId, ...data }, 'Call blocked by compliance gate');
+    });
+
     // No leads available
     dialer.on('no-leads-available', () => {
       logger.warn({ campaignId }, 'No leads available for campaign');
@@ -425,7 +1427,10 @@ export class DialerManager extends EventEmitter {
         topic,
         messages: [
           {
-            key: (event as any).payload.callId || (event as any).eventId,
+            key:
+              (event as any).payload.callId ||
+              (event as any).payload.campaignId ||
+              (event as any).eventId,
             value: JSON.stringify(event),
             timestamp: new Date().getTime().toString(),
           },
@@ -515,6 +1520,28 @@ export class DialerManager extends EventEmitter {
     return (campaign.dialer as PreviewDialer).skipPreview(previewId);
   }
 
+  /**
+   * Manual dialer: Place an agent-initiated call
+   */
+  async manualDial(campaignId: string, request: ManualDialRequest): Promise<CallState> {
+    const campaign = this.activeCampaigns.get(campaignId);
+
+    // The agent's call must be placed by the instance running the campaign
+    if (!campaign) {
+      const owner = await this.campaignOwnership.ownerOf(campaignId);
+
+      if (owner && owner !== this.instanceId) {
+        throw new CampaignNotLocalError(campaignId, owner);
+      }
+    }
+
+    if (!campaign || campaign.mode !== 'manual') {
+      throw new Error('Campaign not running in manual mode');
+    }
+
+    return (campaign.dialer as ManualDialer).dial(request);
+  }
+
   /**
    * Shutdown the dialer manager
    */
@@ -526,10 +1553,22 @@ export class DialerManager extends EventEmitter {
       await this.stopCampaign(campaignId);
     }
 
+    await this.campaignOwnership.stop();
+    await this.callbackScheduler.stop();
+    await this.callerIdSelector.stop();
+    await this.callerIdReputation.stop();
+    this.recordingConsent.stop();
+
     // Disconnect from FreeSWITCH
     this.fsClient.disconnect();
 
     // Disconnect from Kafka
+    await this.commandConsumer.disconnect();
+    await this.queueConsumer.disconnect();
+    await this.recordingConsumer.disconnect();
+    await this.monitorConsumer.disconnect();
+    await this.transferConsumer.disconnect();
+    await this.qualityConsumer.disconnect();
     await this.producer.disconnect();
 
     // Close Redis
@@ -0,0 +1,306 @@
+import { EventEmitter } from 'events';
+import pino from 'pino';
+import { db } from '@nexusdialer/database';
+import { leads, users } from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import {
+  ComplianceGate,
+  type ComplianceBlockReason,
+  type DialableLead,
+} from '../services/compliance-gate';
+import { CallService, type CallState } from '../services/call-service';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector, type SelectedCallerId } from '../services/caller-id-selector';
+
+const logger = pino({ name: 'manual-dialer' });
+
+export interface ManualDialerConfig {
+  campaignId: string;
+  tenantId: string;
+  callTimeout: number; // Call timeout in seconds
+}
+
+export interface ManualMetrics {
+  totalCalls: number;
+  answeredCalls: number;
+  failedCalls: number;
+  blockedCalls: number;
+  blockedByReason: Partial<Record<ComplianceBlockReason, number>>;
+}
+
+export interface ManualDialRequest {
+  agentId: string;
+  phoneNumber: string;
+  leadId?: string;
+}
+
+/**
+ * Raised when a manual dial is refused by the compliance gate
+ */
+export class DialBlockedError extends Error {
+  constructor(public readonly reason: ComplianceBlockReason, message: string) {
+    super(message);
+    this.name = 'DialBlockedError';
+  }
+}
+
+/**
+ * Raised when the agent placing a manual dial is not in the campaign's tenant
+ */
+export class AgentNotFoundError extends Error {
+  constructor(agentId: string) {
+    super(`Agent ${agentId} not found`);
+    this.name = 'AgentNotFoundError';
+  }
+}
+
+/**
+ * Manual dialer: the agent supplies the number (typed or clicked from a lead)
+ * and the engine places the call. Every attempt gets a CallState and a CDR,
+ * including attempts blocked by the compliance gate.
+ */
+export class ManualDialer extends EventEmitter {
+  private config: ManualDialerConfig;
+  private fsCommands: FreeSWITCHCommands;
+  private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
+  private isRunning = false;
+  private metrics: ManualMetrics;
+
+  constructor(
+    config: ManualDialerConfig,
+    fsCommands: FreeSWITCHCommands,
+    callService: CallService,
+    complianceGate: ComplianceGate,
+    trunkRouter: TrunkRouter,
+    callerIdSelector: CallerIdSelector
+  ) {
+    super();
+    this.config = config;
+    this.fsCommands = fsCommands;
+    this.callService = callService;
+    this.complianceGate = complianceGate;
+    this.trunkRouter = trunkRouter;
+    this.callerIdSelector = callerIdSelector;
+
+    this.metrics = {
+      totalCalls: 0,
+      answeredCalls: 0,
+      failedCalls: 0,
+      blockedCalls: 0,
+      blockedByReason: {},
+    };
+  }
+
+  /**
+   * Start accepting manual dial requests
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn({ campaignId: this.config.campaignId }, 'Dialer already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info({ campaignId: this.config.campaignId }, 'Starting manual dialer');
+
+    this.emit('started', { campaignId: this.config.campaignId });
+  }
+
+  /**
+   * Stop accepting manual dial requests; calls in progress are not affected
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    logger.info({ campaignId: this.config.campaignId }, 'Stopping manual dialer');
+
+    this.emit('stopped', { campaignId: this.config.campaignId });
+  }
+
+  /**
+   * Place an agent-initiated call
+   */
+  async dial(request: ManualDialRequest): Promise<CallState> {
+    if (!this.isRunning) {
+      throw new Error('Manual dialer is not running');
+    }
+
+    const { agentId, phoneNumber, leadId } = request;
+
+    logger.info({ agentId, phoneNumber, leadId }, 'Manual dial requested');
+
+    // The call is bridged to the agent, who must be one of the tenant's own
+    const agent = await db.query.users.findFirst({
+      where: and(eq(users.id, agentId), eq(users.tenantId, this.config.tenantId)),
+      columns: { id: true },
+    });
+
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    const dialableLead = await this.getDialableLead(phoneNumber, leadId);
+
+    const call = await this.callService.createCall({
+      tenantId: this.config.tenantId,
+      campaignId: this.config.campaignId,
+      leadId,
+      phoneNumber,
+      direction: 'outbound',
+      metadata: {
+        dialMode: 'manual',
+        requestedBy: agentId,
+      },
+    });
+
+    const decision = await this.complianceGate.screen(this.config.campaignId, dialableLead);
+
+    if (!decision.allowed) {
+      const blocked = new DialBlockedError(decision.reason, decision.detail);
+
+      this.metrics.blockedCalls++;
+      this.metrics.blockedByReason[blocked.reason] =
+        (this.metrics.blockedByReason[blocked.reason] ?? 0) + 1;
+
+      // Keep a CDR of the refused attempt for compliance reporting
+      await this.callService.updateCall(call.id, {
+        agentId,
+        metadata: { ...call.metadata, blockedReason: blocked.reason },
+      });
+      await this.callService.endCall(call.id, 'failed');
+
+      this.emit('call-blocked', {
+        callId: call.id,
+        agentId,
+        leadId,
+        phoneNumber,
+        reason: blocked.reason,
+      });
+
+      logger.warn({ callId: call.id, phoneNumber, reason: blocked.reason }, 'Manual dial blocked');
+
+      throw blocked;
+    }
+
+    let callerId: SelectedCallerId | null = null;
+    let placed = false;
+
+    try {
+      callerId = await this.callerIdSelector.select(this.config.campaignId, phoneNumber);
+
+      await this.callService.updateCall(call.id, { agentId, callerId: callerId?.phoneNumber });
+      await this.callService.updateAgentStatus(agentId, this.config.tenantId, 'on_call', call.id);
+
+      const jobId = await this.trunkRouter.originate(call, {
+        phoneNumber,
+        callerId: callerId?.phoneNumber,
+        timeout: this.config.callTimeout,
+        variables: {
+          nexus_call_id: call.id,
+          nexus_campaign_id: this.config.campaignId,
+          nexus_lead_id: leadId || '',
+          nexus_agent_id: agentId,
+          nexus_tenant_id: this.config.tenantId,
+        },
+        ignoreEarlyMedia: false,
+        ringReady: true,
+      });
+
+      // The caller ID slot now counts against its daily cap
+      placed = true;
+
+      if (leadId) {
+        await this.complianceGate.recordAttempt(this.config.campaignId, leadId);
+      }
+
+      this.metrics.totalCalls++;
+
+      this.emit('call-initiated', {
+        callId: call.id,
+        agentId,
+        leadId,
+        phoneNumber,
+        jobId,
+      });
+
+      logger.info({ callId: call.id, agentId, jobId }, 'Manual call initiated');
+
+      return (await this.callService.getCall(call.id)) ?? call;
+    } catch (error) {
+      logger.error({ error, callId: call.id, agentId }, 'Error placing manual call');
+
+      if (!placed) {
+        await this.callerIdSelector.release(callerId);
+      }
+
+      this.metrics.failedCalls++;
+      await this.callService.endCall(call.id, 'failed');
+      await this.callService.updateAgentStatus(agentId, this.config.tenantId, 'available');
+
+      this.emit('call-failed', {
+        callId: call.id,
+        leadId,
+        phoneNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Use the lead's record when the agent dialed from one, so attempt limits
+   * and lead timezone apply; otherwise screen the bare number
+   */
+  private async getDialableLead(phoneNumber: string, leadId?: string): Promise<DialableLead> {
+    if (!leadId) {
+      return { phoneNumber };
+    }
+
+    const lead = await db.query.leads.findFirst({
+      where: and(eq(leads.id, leadId), eq(leads.tenantId, this.config.tenantId)),
+    });
+
+    if (!lead) {
+      throw new Error(`Lead ${leadId} not found`);
+    }
+
+    // The agent may dial an alternate number for the lead
+    return { ...lead, phoneNumber };
+  }
+
+  /**
+   * Record call outcome for metrics
+   */
+  recordCallOutcome(outcome: { answered: boolean }): void {
+    if (outcome.answered) {
+      this.metrics.answeredCalls++;
+    }
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): ManualMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(updates: Partial<ManualDialerConfig>): void {
+    this.config = {
+      ...this.config,
+      ...updates,
+    };
+
+    logger.info({ updates }, 'Configuration updated');
+  }
+}
@@ -0,0 +1,370 @@
+import { EventEmitter } from 'events';
+import pino from 'pino';
+import { db } from '@nexusdialer/database';
+import { leads, leadLists } from '@nexusdialer/database/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { ComplianceGate } from '../services/compliance-gate';
+import { CallService } from '../services/call-service';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector, type SelectedCallerId } from '../services/caller-id-selector';
+import { AnsweredCallConnector } from '../services/agent-connector';
+
+const logger = pino({ name: 'power-dialer' });
+
+export interface PowerDialerConfig {
+  campaignId: string;
+  tenantId: string;
+  linesPerAgent: number; // Fixed number of lines dialed per available agent (e.g., 3)
+  callTimeout: number; // Call timeout in seconds
+  agentWaitTime: number; // Safe harbor: seconds an answered call may wait for an agent
+}
+
+export interface PowerMetrics {
+  totalCalls: number;
+  answeredCalls: number;
+  abandonedCalls: number;
+  availableAgents: number;
+  linesPerAgent: number;
+  abandonRate: number;
+  callsInProgress: number;
+  blockedCalls: number;
+}
+
+/**
+ * Power dialer: keeps a fixed number of lines per available agent in flight.
+ * Unlike the predictive dialer the ratio never adapts to call outcomes.
+ * Answered calls go to the next free agent, or are abandoned once they have
+ * waited past the safe harbor.
+ */
+export class PowerDialer extends EventEmitter {
+  private config: PowerDialerConfig;
+  private fsCommands: FreeSWITCHCommands;
+  private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
+  private isRunning = false;
+  private dialInterval?: NodeJS.Timeout;
+  private connectInterval?: NodeJS.Timeout;
+  private answeredCalls: AnsweredCallConnector;
+  private metrics: PowerMetrics;
+
+  constructor(
+    config: PowerDialerConfig,
+    fsCommands: FreeSWITCHCommands,
+    callService: CallService,
+    complianceGate: ComplianceGate,
+    trunkRouter: TrunkRouter,
+    callerIdSelector: CallerIdSelector
+  ) {
+    super();
+    this.config = config;
+    this.fsCommands = fsCommands;
+    this.callService = callService;
+    this.complianceGate = complianceGate;
+    this.trunkRouter = trunkRouter;
+    this.callerIdSelector = callerIdSelector;
+    this.answeredCalls = new AnsweredCallConnector(
+      fsCommands,
+      callService,
+      config.tenantId,
+      config.agentWaitTime
+    );
+
+    this.metrics = {
+      totalCalls: 0,
+      answeredCalls: 0,
+      abandonedCalls: 0,
+      availableAgents: 0,
+      linesPerAgent: config.linesPerAgent,
+      abandonRate: 0,
+      callsInProgress: 0,
+      blockedCalls: 0,
+    };
+  }
+
+  /**
+   * Start the power dialer
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn({ campaignId: this.config.campaignId }, 'Dialer already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info(
+      { campaignId: this.config.campaignId, linesPerAgent: this.config.linesPerAgent },
+      'Starting power dialer'
+    );
+
+    // Start dialing loop
+    this.dialInterval = setInterval(() => {
+      this.dialLoop().catch((error) => {
+        logger.error({ error }, 'Error in dial loop');
+      });
+    }, 1000); // Check every second
+
+    // Answered calls go to an agent or are abandoned within the safe harbor
+    this.connectInterval = setInterval(() => {
+      this.connectAnsweredCalls().catch((error) => {
+        logger.error({ error }, 'Error connecting answered calls to agents');
+      });
+    }, 500);
+
+    this.emit('started', { campaignId: this.config.campaignId });
+  }
+
+  /**
+   * Stop the power dialer
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    logger.info({ campaignId: this.config.campaignId }, 'Stopping power dialer');
+
+    if (this.dialInterval) {
+      clearInterval(this.dialInterval);
+      this.dialInterval = undefined;
+    }
+
+    if (this.connectInterval) {
+      clearInterval(this.connectInterval);
+      this.connectInterval = undefined;
+    }
+
+    await this.answeredCalls.abandonAll();
+
+    this.emit('stopped', { campaignId: this.config.campaignId });
+  }
+
+  /**
+   * Main dialing loop
+   */
+  private async dialLoop(): Promise<void> {
+    try {
+      const availableAgents = await this.callService.getAvailableAgents(this.config.tenantId);
+      const activeCalls = await this.callService.getCampaignActiveCalls(this.config.campaignId);
+
+      this.metrics.availableAgents = availableAgents.length;
+      this.metrics.callsInProgress = activeCalls.length;
+
+      if (availableAgents.length === 0) {
+        logger.debug('No available agents');
+        return;
+      }
+
+      // Answered calls waiting for an agent will take free agents first, and
+      // calls still ringing count against the lines of the agents they will reach
+      const waitingCalls = activeCalls.filter((call) => call.answerTime && !call.agentId).length;
+      const freeAgents = Math.max(0, availableAgents.length - waitingCalls);
+      const targetCalls = freeAgents * this.config.linesPerAgent;
+      const ringingCalls = activeCalls.filter((call) => !call.answerTime).length;
+      const callsToMake = Math.max(0, targetCalls - ringingCalls);
+
+      if (callsToMake === 0) {
+        return;
+      }
+
+      logger.debug(
+        {
+          availableAgents: availableAgents.length,
+          linesPerAgent: this.config.linesPerAgent,
+          targetCalls,
+          ringingCalls,
+          callsToMake,
+        },
+        'Calculating calls to make'
+      );
+
+      const leadsToCall = await this.getLeadsToCall(callsToMake);
+
+      if (leadsToCall.length === 0) {
+        logger.debug('No leads available to call');
+        this.emit('no-leads-available', { campaignId: this.config.campaignId });
+        return;
+      }
+
+      for (const lead of leadsToCall) {
+        await this.dialLead(lead);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Error in dial loop');
+    }
+  }
+
+  /**
+   * Get leads to call from the lists assigned to the campaign
+   */
+  private async getLeadsToCall(count: number): Promise<any[]> {
+    try {
+      const campaignLists = db
+        .select({ id: leadLists.id })
+        .from(leadLists)
+        .where(and(eq(leadLists.campaignId, this.config.campaignId), eq(leadLists.status, 'active')));
+
+      return await db.query.leads.findMany({
+        where: and(
+          eq(leads.tenantId, this.config.tenantId),
+          inArray(leads.listId, campaignLists),
+          inArray(leads.status, ['new', 'callback']),
+          sql`(${leads.nextAttemptAt} IS NULL OR ${leads.nextAttemptAt} <= NOW())`
+        ),
+        limit: count,
+        orderBy: (leads, { desc, asc }) => [desc(leads.priority), asc(leads.lastAttemptAt)],
+      });
+    } catch (error) {
+      logger.error({ error }, 'Error fetching leads');
+      return [];
+    }
+  }
+
+  /**
+   * Dial a lead
+   */
+  private async dialLead(lead: any): Promise<void> {
+    let callerId: SelectedCallerId | null = null;
+    let placed = false;
+
+    try {
+      logger.info({ leadId: lead.id, phoneNumber: lead.phoneNumber }, 'Dialing lead');
+
+      // Screen against DNC, calling windows and attempt limits before dialing
+      const decision = await this.complianceGate.screen(this.config.campaignId, lead);
+
+      if (!decision.allowed) {
+        this.metrics.blockedCalls++;
+        this.emit('call-blocked', {
+          leadId: lead.id,
+          phoneNumber: lead.phoneNumber,
+          reason: decision.reason,
+        });
+        return;
+      }
+
+      callerId = await this.callerIdSelector.select(
+        this.config.campaignId,
+        lead.phoneNumber
+      );
+
+      const call = await this.callService.createCall({
+        tenantId: this.config.tenantId,
+        campaignId: this.config.campaignId,
+        leadId: lead.id,
+        phoneNumber: lead.phoneNumber,
+        callerId: callerId?.phoneNumber,
+        direction: 'outbound',
+        metadata: {
+          dialMode: 'power',
+          linesPerAgent: this.config.linesPerAgent,
+        },
+      });
+
+      const jobId = await this.trunkRouter.originate(call, {
+        phoneNumber: lead.phoneNumber,
+        callerId: callerId?.phoneNumber,
+        timeout: this.config.callTimeout,
+        variables: {
+          nexus_call_id: call.id,
+          nexus_campaign_id: this.config.campaignId,
+          nexus_lead_id: lead.id,
+          nexus_tenant_id: this.config.tenantId,
+        },
+        ignoreEarlyMedia: true,
+        ringReady: false,
+      });
+
+      // The caller ID slot now counts against its daily cap
+      placed = true;
+
+      // Count the attempt and hold the lead out until its retry interval
+      await this.complianceGate.recordAttempt(this.config.campaignId, lead.id);
+
+      this.metrics.totalCalls++;
+
+      this.emit('call-initiated', {
+        callId: call.id,
+        leadId: lead.id,
+        phoneNumber: lead.phoneNumber,
+        jobId,
+      });
+
+      logger.info({ callId: call.id, leadId: lead.id, jobId }, 'Call initiated');
+    } catch (error) {
+      logger.error({ error, leadId: lead.id }, 'Error dialing lead');
+
+      if (!placed) {
+        await this.callerIdSelector.release(callerId);
+      }
+
+      this.emit('call-failed', {
+        leadId: lead.id,
+        phoneNumber: lead.phoneNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Handle call answered by a person: it waits for the next free agent
+   */
+  onCallAnswered(callId: string, phoneNumber: string): void {
+    logger.info({ callId, phoneNumber }, 'Call answered, waiting for agent');
+
+    this.answeredCalls.add(callId);
+    this.emit('call-answered', { callId, phoneNumber });
+  }
+
+  private async connectAnsweredCalls(): Promise<void> {
+    const { connected, abandoned } = await this.answeredCalls.connectWaiting();
+
+    for (const call of connected) {
+      this.emit('call-connected', call);
+    }
+
+    for (const call of abandoned) {
+      this.emit('call-abandoned', call);
+    }
+  }
+
+  /**
+   * Record call outcome for metrics (does not change the dial ratio)
+   */
+  recordCallOutcome(outcome: { answered: boolean; abandoned: boolean }): void {
+    if (outcome.answered) {
+      this.metrics.answeredCalls++;
+    }
+
+    if (outcome.abandoned) {
+      this.metrics.abandonedCalls++;
+    }
+
+    const connected = this.metrics.answeredCalls + this.metrics.abandonedCalls;
+    this.metrics.abandonRate = connected > 0 ? this.metrics.abandonedCalls / connected : 0;
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): PowerMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(updates: Partial<PowerDialerConfig>): void {
+    this.config = {
+      ...this.config,
+      ...updates,
+    };
+
+    this.metrics.linesPerAgent = this.config.linesPerAgent;
+
+    logger.info({ updates }, 'Configuration updated');
+  }
+}
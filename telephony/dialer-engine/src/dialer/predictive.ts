@@ -1,10 +1,14 @@
 import { EventEmitter } from 'events';
 import pino from 'pino';
 import { db } from '@nexusdialer/database';
-import { leads, campaigns } from '@nexusdialer/database/schema';
-import { eq, and, inArray, sql } from 'drizzle-orm';
+import { leads, leadLists, calls } from '@nexusdialer/database/schema';
+import { eq, and, gte, inArray, sql } from 'drizzle-orm';
 import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { ComplianceGate } from '../services/compliance-gate';
 import { CallService } from '../services/call-service';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector, type SelectedCallerId } from '../services/caller-id-selector';
+import { AnsweredCallConnector } from '../services/agent-connector';
 
 const logger = pino({ name: 'predictive-dialer' });
 
@@ -13,12 +17,43 @@ export interface PredictiveDialerConfig {
   tenantId: string;
   maxDialRatio: number; // Maximum calls per agent (e.g., 2.5)
   minDialRatio: number; // Minimum calls per agent (e.g., 1.2)
-  abandonRateTarget: number; // Target abandon rate (e.g., 0.03 = 3%)
-  answerRate: number; // Expected answer rate (0-1)
+  abandonRateTarget: number; // Max abandon rate over the rolling window (e.g., 0.03 = 3%)
+  answerRate: number; // Expected answer rate (0-1), used until enough calls are measured
   avgTalkTime: number; // Average talk time in seconds
   avgWrapTime: number; // Average wrap time in seconds
-  adjustmentInterval: number; // How often to adjust dial ratio (ms)
+  avgTimeToAnswer: number; // Expected seconds from originate to answer, used until measured
+  adjustmentInterval: number; // How often to refresh the rolling abandon window (ms)
   callTimeout: number; // Call timeout in seconds
+  agentWaitTime: number; // Safe harbor: seconds an answered call may wait for an agent
+}
+
+/**
+ * Inputs and outputs of the last pacing decision, exposed so supervisors
+ * can see why the dialer is dialing at its current rate.
+ */
+export interface PacingModelMetrics {
+  // Inputs
+  availableAgents: number;
+  onCallAgents: number;
+  wrapUpAgents: number;
+  ringingCalls: number;
+  waitingCalls: number; // answered, not yet connected to an agent
+  answerRate: number;
+  avgTimeToAnswer: number;
+  avgTalkTime: number;
+  avgWrapTime: number;
+  abandonRateTarget: number;
+  rollingAnsweredCalls: number;
+  rollingAbandonedCalls: number;
+  rollingAbandonRate: number;
+  // Outputs
+  forecastFreeAgents: number;
+  targetCalls: number;
+  predictedAbandons: number;
+  predictedAbandonRate: number;
+  abandonBudget: number;
+  limitedBy: 'abandon_cap' | 'max_dial_ratio' | 'no_agents';
+  calculatedAt: string;
 }
 
 export interface DialerMetrics {
@@ -32,35 +67,62 @@ export interface DialerMetrics {
   answerRate: number;
   avgTalkTime: number;
   callsInProgress: number;
+  blockedCalls: number;
+  pacing: PacingModelMetrics | null;
 }
 
+// Regulators (e.g. FTC TSR) measure abandonment per campaign over 30 days
+const ROLLING_WINDOW_DAYS = 30;
+
+// Samples needed before measured rates replace configured priors
+const MIN_SAMPLES = 20;
+
 export class PredictiveDialer extends EventEmitter {
   private config: PredictiveDialerConfig;
   private fsCommands: FreeSWITCHCommands;
   private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
   private isRunning = false;
   private dialInterval?: NodeJS.Timeout;
   private adjustmentInterval?: NodeJS.Timeout;
+  private connectInterval?: NodeJS.Timeout;
+  private answeredCalls: AnsweredCallConnector;
   private metrics: DialerMetrics;
   private currentDialRatio: number;
   private callHistory: Array<{
     answered: boolean;
     abandoned: boolean;
     talkTime: number;
+    timeToAnswer?: number;
     timestamp: Date;
   }> = [];
   private readonly HISTORY_SIZE = 100;
+  private rollingWindow = { answered: 0, abandoned: 0 };
 
   constructor(
     config: PredictiveDialerConfig,
     fsCommands: FreeSWITCHCommands,
-    callService: CallService
+    callService: CallService,
+    complianceGate: ComplianceGate,
+    trunkRouter: TrunkRouter,
+    callerIdSelector: CallerIdSelector
   ) {
     super();
     this.config = config;
     this.fsCommands = fsCommands;
     this.callService = callService;
-    this.currentDialRatio = (config.maxDialRatio + config.minDialRatio) / 2; // Start in the middle
+    this.complianceGate = complianceGate;
+    this.trunkRouter = trunkRouter;
+    this.callerIdSelector = callerIdSelector;
+    this.currentDialRatio = config.minDialRatio;
+    this.answeredCalls = new AnsweredCallConnector(
+      fsCommands,
+      callService,
+      config.tenantId,
+      config.agentWaitTime
+    );
 
     this.metrics = {
       totalCalls: 0,
@@ -73,6 +135,8 @@ export class PredictiveDialer extends EventEmitter {
       answerRate: config.answerRate,
       avgTalkTime: config.avgTalkTime,
       callsInProgress: 0,
+      blockedCalls: 0,
+      pacing: null,
     };
   }
 
@@ -88,6 +152,9 @@ export class PredictiveDialer extends EventEmitter {
     this.isRunning = true;
     logger.info({ campaignId: this.config.campaignId }, 'Starting predictive dialer');
 
+    // Load the rolling abandon window before the first pacing decision
+    await this.refreshRollingWindow();
+
     // Start dialing loop
     this.dialInterval = setInterval(() => {
       this.dialLoop().catch((error) => {
@@ -95,11 +162,20 @@ export class PredictiveDialer extends EventEmitter {
       });
     }, 1000); // Check every second
 
-    // Start adjustment loop
+    // Start rolling window refresh loop
     this.adjustmentInterval = setInterval(() => {
-      this.adjustDialRatio();
+      this.refreshRollingWindow().catch((error) => {
+        logger.error({ error }, 'Error refreshing rolling abandon window');
+      });
     }, this.config.adjustmentInterval);
 
+    // Answered calls go to an agent or are abandoned within the safe harbor
+    this.connectInterval = setInterval(() => {
+      this.connectAnsweredCalls().catch((error) => {
+        logger.error({ error }, 'Error connecting answered calls to agents');
+      });
+    }, 500);
+
     this.emit('started', { campaignId: this.config.campaignId });
   }
 
@@ -124,6 +200,13 @@ export class PredictiveDialer extends EventEmitter {
       this.adjustmentInterval = undefined;
     }
 
+    if (this.connectInterval) {
+      clearInterval(this.connectInterval);
+      this.connectInterval = undefined;
+    }
+
+    await this.answeredCalls.abandonAll();
+
     this.emit('stopped', { campaignId: this.config.campaignId });
   }
 
@@ -133,11 +216,12 @@ export class PredictiveDialer extends EventEmitter {
   private async dialLoop(): Promise<void> {
     try {
       // Update metrics
-      await this.updateMetrics();
+      const pacing = await this.updateMetrics();
 
-      // Calculate how many calls we should have in progress
-      const targetCalls = this.calculateTargetCalls();
-      const currentCalls = this.metrics.callsInProgress;
+      // Run the pacing model to get how many calls we should have ringing;
+      // answered calls are already accounted for through agent state
+      const targetCalls = this.calculateTargetCalls(pacing);
+      const currentCalls = pacing.ringingCalls;
       const callsToMake = Math.max(0, targetCalls - currentCalls);
 
       if (callsToMake === 0) {
@@ -173,88 +257,212 @@ export class PredictiveDialer extends EventEmitter {
   }
 
   /**
-   * Calculate target number of concurrent calls
+   * Pacing model: pick the largest number of calls in flight whose predicted
+   * abandons stay within the abandon cap.
+   *
+   * Agents free up during the time-to-answer window: talk and wrap are treated
+   * as exponential (the Erlang-C assumption), so an agent finishes before an
+   * answer with probability 1 - e^(-t/mean), averaged over the measured
+   * time-to-answer samples. Answers are binomial in the calls in flight at the
+   * measured answer rate; any answer beyond the free agents is an abandon.
    */
-  private calculateTargetCalls(): number {
-    const { availableAgents, onCallAgents } = this.metrics;
-    const totalAgents = availableAgents + onCallAgents;
+  private calculateTargetCalls(pacing: PacingModelMetrics): number {
+    const { abandonRateTarget, minDialRatio, maxDialRatio, avgWrapTime } = this.config;
+    const { availableAgents, onCallAgents, wrapUpAgents, ringingCalls, waitingCalls, answerRate } =
+      pacing;
+
+    const timesToAnswer = this.getTimeToAnswerSamples();
+    const freeOnCall = this.probabilityFreeWithin(timesToAnswer, pacing.avgTalkTime + avgWrapTime);
+    const freeInWrap = this.probabilityFreeWithin(timesToAnswer, avgWrapTime);
+    const forecastFreeAgents = Math.max(
+      0,
+      availableAgents + onCallAgents * freeOnCall + wrapUpAgents * freeInWrap - waitingCalls
+    );
 
-    if (totalAgents === 0) {
-      return 0;
+    pacing.forecastFreeAgents = forecastFreeAgents;
+
+    if (availableAgents + onCallAgents + wrapUpAgents === 0) {
+      return this.applyPacingDecision(pacing, 0, 0, 'no_agents');
     }
 
-    // Calculate based on dial ratio and available agents
-    // We want to keep enough calls in progress to ensure agents are always busy
-    const targetCalls = Math.ceil(availableAgents * this.currentDialRatio);
+    // Keep the 30-day rate at or under target: abandons already spent in the
+    // window reduce what the next calls may risk
+    const { answered, abandoned } = this.rollingWindow;
+    const budgetFor = (calls: number) =>
+      Math.min(
+        abandonRateTarget * calls * answerRate,
+        abandonRateTarget * (answered + calls * answerRate) - abandoned
+      );
 
-    return targetCalls;
+    const fits = (calls: number) =>
+      this.expectedAbandons(calls, answerRate, forecastFreeAgents) <= budgetFor(calls);
+
+    // Dialing one line per free agent cannot abandon; the abandon search
+    // decides anything above that, bounded by the max ratio
+    const freeAgents = Math.max(0, availableAgents - waitingCalls);
+    const floor = Math.max(ringingCalls, freeAgents);
+    const ceiling = Math.max(floor, Math.ceil(forecastFreeAgents * maxDialRatio));
+    let targetCalls = floor;
+    let limitedBy: PacingModelMetrics['limitedBy'] = 'max_dial_ratio';
+
+    for (let calls = floor + 1; calls <= ceiling; calls++) {
+      if (!fits(calls)) {
+        limitedBy = 'abandon_cap';
+        break;
+      }
+      targetCalls = calls;
+    }
+
+    // The campaign's min ratio applies only where it stays within the cap
+    const minCalls = Math.ceil(freeAgents * minDialRatio);
+
+    if (targetCalls < minCalls && fits(minCalls)) {
+      targetCalls = minCalls;
+    }
+
+    return this.applyPacingDecision(pacing, targetCalls, budgetFor(targetCalls), limitedBy);
   }
 
   /**
-   * Adjust dial ratio based on performance
+   * Record the pacing outputs and derived dial ratio
    */
-  private adjustDialRatio(): void {
-    const { abandonRate, abandonRateTarget, minDialRatio, maxDialRatio } = this.config;
+  private applyPacingDecision(
+    pacing: PacingModelMetrics,
+    targetCalls: number,
+    abandonBudget: number,
+    limitedBy: PacingModelMetrics['limitedBy']
+  ): number {
+    const predictedAbandons = this.expectedAbandons(
+      targetCalls,
+      pacing.answerRate,
+      pacing.forecastFreeAgents
+    );
+    const predictedAnswers = targetCalls * pacing.answerRate;
+
+    pacing.targetCalls = targetCalls;
+    pacing.predictedAbandons = predictedAbandons;
+    pacing.predictedAbandonRate = predictedAnswers > 0 ? predictedAbandons / predictedAnswers : 0;
+    pacing.abandonBudget = Math.max(0, abandonBudget);
+    pacing.limitedBy = limitedBy;
+    pacing.calculatedAt = new Date().toISOString();
+
+    const previousRatio = this.currentDialRatio;
+    this.currentDialRatio =
+      pacing.availableAgents > 0 ? targetCalls / pacing.availableAgents : 0;
+    this.metrics.currentDialRatio = this.currentDialRatio;
 
-    if (this.callHistory.length < 20) {
-      // Not enough data yet
-      return;
+    if (Math.abs(this.currentDialRatio - previousRatio) >= 0.1) {
+      logger.info({ pacing }, 'Pacing model changed dial ratio');
+
+      this.emit('dial-ratio-adjusted', {
+        dialRatio: this.currentDialRatio,
+        abandonRate: pacing.rollingAbandonRate,
+        predictedAbandonRate: pacing.predictedAbandonRate,
+      });
     }
 
-    // Calculate recent abandon rate
-    const recentAbandons = this.callHistory.filter((call) => call.abandoned).length;
-    const currentAbandonRate = recentAbandons / this.callHistory.length;
+    return targetCalls;
+  }
+
+  /**
+   * Expected answered calls with no free agent: E[max(0, X - agents)]
+   * for X ~ Binomial(calls, answerRate)
+   */
+  private expectedAbandons(calls: number, answerRate: number, agents: number): number {
+    if (calls <= 0 || answerRate <= 0) {
+      return 0;
+    }
 
-    this.metrics.abandonRate = currentAbandonRate;
+    if (answerRate >= 1) {
+      return Math.max(0, calls - agents);
+    }
 
-    // Adjust dial ratio
-    const abandonDiff = currentAbandonRate - abandonRateTarget;
+    const odds = answerRate / (1 - answerRate);
+    let probability = Math.pow(1 - answerRate, calls);
+    let expected = 0;
 
-    if (Math.abs(abandonDiff) < 0.01) {
-      // Within acceptable range, no adjustment needed
-      return;
+    for (let answers = 0; answers <= calls; answers++) {
+      if (answers > agents) {
+        expected += (answers - agents) * probability;
+      }
+      probability *= ((calls - answers) / (answers + 1)) * odds;
     }
 
-    let adjustment = 0;
+    return expected;
+  }
 
-    if (abandonDiff > 0) {
-      // Too many abandons, reduce dial ratio
-      adjustment = -0.1 * (abandonDiff / abandonRateTarget);
-    } else {
-      // Too few abandons, increase dial ratio (we can be more aggressive)
-      adjustment = 0.1 * Math.abs(abandonDiff / abandonRateTarget);
+  /**
+   * Probability that an activity with the given mean duration (seconds)
+   * finishes within the time-to-answer, averaged over the samples
+   */
+  private probabilityFreeWithin(timesToAnswer: number[], meanDuration: number): number {
+    if (meanDuration <= 0) {
+      return 1;
     }
 
-    this.currentDialRatio = Math.max(
-      minDialRatio,
-      Math.min(maxDialRatio, this.currentDialRatio + adjustment)
+    const total = timesToAnswer.reduce(
+      (sum, seconds) => sum + (1 - Math.exp(-seconds / meanDuration)),
+      0
     );
 
-    this.metrics.currentDialRatio = this.currentDialRatio;
+    return total / timesToAnswer.length;
+  }
 
-    logger.info(
-      {
-        currentAbandonRate,
-        targetAbandonRate: abandonRateTarget,
-        newDialRatio: this.currentDialRatio,
-        adjustment,
-      },
-      'Adjusted dial ratio'
-    );
+  /**
+   * Measured time-to-answer samples, or the configured prior until enough
+   * answered calls have been seen
+   */
+  private getTimeToAnswerSamples(): number[] {
+    const samples = this.callHistory
+      .filter((call) => call.timeToAnswer !== undefined)
+      .map((call) => call.timeToAnswer!);
 
-    this.emit('dial-ratio-adjusted', {
-      dialRatio: this.currentDialRatio,
-      abandonRate: currentAbandonRate,
-    });
+    return samples.length >= MIN_SAMPLES ? samples : [this.config.avgTimeToAnswer];
+  }
+
+  /**
+   * Reload answered/abandoned counts for the campaign over the rolling window
+   */
+  private async refreshRollingWindow(): Promise<void> {
+    const since = new Date(Date.now() - ROLLING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const [row] = await db
+      .select({
+        // Machine answers (AMD, voicemail drops) never reach an agent, so
+        // they are neither answers nor abandons for the abandon rate
+        answered: sql<number>`count(*) filter (
+          where ${calls.answerTime} is not null and ${calls.status} <> 'voicemail'
+        )`,
+        abandoned: sql<number>`count(*) filter (where ${calls.status} = 'abandoned')`,
+      })
+      .from(calls)
+      .where(and(eq(calls.campaignId, this.config.campaignId), gte(calls.startTime, since)));
+
+    this.rollingWindow = {
+      answered: Number(row?.answered ?? 0),
+      abandoned: Number(row?.abandoned ?? 0),
+    };
+
+    this.metrics.abandonRate =
+      this.rollingWindow.answered > 0
+        ? this.rollingWindow.abandoned / this.rollingWindow.answered
+        : 0;
+
+    logger.debug(
+      { campaignId: this.config.campaignId, ...this.rollingWindow },
+      'Rolling abandon window refreshed'
+    );
   }
 
   /**
-   * Update dialer metrics
+   * Update dialer metrics and return the pacing model inputs
    */
-  private async updateMetrics(): Promise<void> {
-    // Get available agents
-    const availableAgents = await this.callService.getAvailableAgents(this.config.tenantId);
-    this.metrics.availableAgents = availableAgents.length;
+  private async updateMetrics(): Promise<PacingModelMetrics> {
+    // Get agents for the tenant by state
+    const agents = await this.callService.getTenantAgents(this.config.tenantId);
+    const availableAgents = agents.filter((agent) => agent.state === 'available').length;
+    const wrapUpAgents = agents.filter((agent) => agent.state === 'wrap_up').length;
+    this.metrics.availableAgents = availableAgents;
 
     // Get active calls for campaign
     const activeCalls = await this.callService.getCampaignActiveCalls(this.config.campaignId);
@@ -263,18 +471,47 @@ export class PredictiveDialer extends EventEmitter {
     // Count agents on call
     this.metrics.onCallAgents = activeCalls.filter((call) => call.agentId).length;
 
-    // Update answer rate if we have recent data
-    if (this.callHistory.length > 0) {
+    // Update answer rate and talk time once we have enough recent data
+    if (this.callHistory.length >= MIN_SAMPLES) {
       const recentAnswers = this.callHistory.filter((call) => call.answered).length;
       this.metrics.answerRate = recentAnswers / this.callHistory.length;
 
-      // Update average talk time
       const answeredCalls = this.callHistory.filter((call) => call.answered);
       if (answeredCalls.length > 0) {
         const totalTalkTime = answeredCalls.reduce((sum, call) => sum + call.talkTime, 0);
         this.metrics.avgTalkTime = totalTalkTime / answeredCalls.length;
       }
     }
+
+    const timesToAnswer = this.getTimeToAnswerSamples();
+    const { answered, abandoned } = this.rollingWindow;
+
+    const pacing: PacingModelMetrics = {
+      availableAgents,
+      onCallAgents: this.metrics.onCallAgents,
+      wrapUpAgents,
+      ringingCalls: activeCalls.filter((call) => !call.answerTime).length,
+      waitingCalls: activeCalls.filter((call) => call.answerTime && !call.agentId).length,
+      answerRate: this.metrics.answerRate,
+      avgTimeToAnswer: timesToAnswer.reduce((sum, t) => sum + t, 0) / timesToAnswer.length,
+      avgTalkTime: this.metrics.avgTalkTime,
+      avgWrapTime: this.config.avgWrapTime,
+      abandonRateTarget: this.config.abandonRateTarget,
+      rollingAnsweredCalls: answered,
+      rollingAbandonedCalls: abandoned,
+      rollingAbandonRate: this.metrics.abandonRate,
+      forecastFreeAgents: 0,
+      targetCalls: 0,
+      predictedAbandons: 0,
+      predictedAbandonRate: 0,
+      abandonBudget: 0,
+      limitedBy: 'no_agents',
+      calculatedAt: new Date().toISOString(),
+    };
+
+    this.metrics.pacing = pacing;
+
+    return pacing;
   }
 
   /**
@@ -282,24 +519,21 @@ export class PredictiveDialer extends EventEmitter {
    */
   private async getLeadsToCall(count: number): Promise<any[]> {
     try {
-      const campaign = await db.query.campaigns.findFirst({
-        where: eq(campaigns.id, this.config.campaignId),
-      });
-
-      if (!campaign) {
-        logger.warn({ campaignId: this.config.campaignId }, 'Campaign not found');
-        return [];
-      }
+      const campaignLists = db
+        .select({ id: leadLists.id })
+        .from(leadLists)
+        .where(and(eq(leadLists.campaignId, this.config.campaignId), eq(leadLists.status, 'active')));
 
-      // Get leads that haven't been called or need retry
+      // Get leads that haven't been called or are due for retry
       const leadsToCall = await db.query.leads.findMany({
         where: and(
-          eq(leads.campaignId, this.config.campaignId),
-          eq(leads.status, 'active'),
-          sql`(${leads.lastCallAttempt} IS NULL OR ${leads.lastCallAttempt} < NOW() - INTERVAL '1 hour')`
+          eq(leads.tenantId, this.config.tenantId),
+          inArray(leads.listId, campaignLists),
+          inArray(leads.status, ['new', 'callback']),
+          sql`(${leads.nextAttemptAt} IS NULL OR ${leads.nextAttemptAt} <= NOW())`
         ),
         limit: count,
-        orderBy: (leads, { asc }) => [asc(leads.priority), asc(leads.lastCallAttempt)],
+        orderBy: (leads, { desc, asc }) => [desc(leads.priority), asc(leads.lastAttemptAt)],
       });
 
       return leadsToCall;
@@ -313,19 +547,41 @@ export class PredictiveDialer extends EventEmitter {
    * Dial a lead
    */
   private async dialLead(lead: any): Promise<void> {
+    let callerId: SelectedCallerId | null = null;
+    let placed = false;
+
     try {
       logger.info(
         { leadId: lead.id, phoneNumber: lead.phoneNumber },
         'Dialing lead'
       );
 
+      // Screen against DNC, calling windows and attempt limits before dialing
+      const decision = await this.complianceGate.screen(this.config.campaignId, lead);
+
+      if (!decision.allowed) {
+        this.metrics.blockedCalls++;
+        this.emit('call-blocked', {
+          leadId: lead.id,
+          phoneNumber: lead.phoneNumber,
+          reason: decision.reason,
+        });
+        return;
+      }
+
+      // Caller ID from the campaign's pool, local to the lead where it can be
+      callerId = await this.callerIdSelector.select(
+        this.config.campaignId,
+        lead.phoneNumber
+      );
+
       // Create call record
       const call = await this.callService.createCall({
         tenantId: this.config.tenantId,
         campaignId: this.config.campaignId,
         leadId: lead.id,
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         direction: 'outbound',
         metadata: {
           dialMode: 'predictive',
@@ -334,9 +590,9 @@ export class PredictiveDialer extends EventEmitter {
       });
 
       // Originate call
-      const jobId = await this.fsCommands.originate({
+      const jobId = await this.trunkRouter.originate(call, {
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         timeout: this.config.callTimeout,
         variables: {
           nexus_call_id: call.id,
@@ -348,15 +604,11 @@ export class PredictiveDialer extends EventEmitter {
         ringReady: false,
       });
 
-      // Update lead
-      await db
-        .update(leads)
-        .set({
-          status: 'dialing',
-          lastCallAttempt: new Date(),
-          callAttempts: sql`${leads.callAttempts} + 1`,
-        })
-        .where(eq(leads.id, lead.id));
+      // The caller ID slot now counts against its daily cap
+      placed = true;
+
+      // Count the attempt and hold the lead out until its retry interval
+      await this.complianceGate.recordAttempt(this.config.campaignId, lead.id);
 
       this.metrics.totalCalls++;
 
@@ -374,6 +626,10 @@ export class PredictiveDialer extends EventEmitter {
     } catch (error) {
       logger.error({ error, leadId: lead.id }, 'Error dialing lead');
 
+      if (!placed) {
+        await this.callerIdSelector.release(callerId);
+      }
+
       this.emit('call-failed', {
         leadId: lead.id,
         phoneNumber: lead.phoneNumber,
@@ -389,6 +645,7 @@ export class PredictiveDialer extends EventEmitter {
     answered: boolean;
     abandoned: boolean;
     talkTime: number;
+    timeToAnswer?: number;
   }): void {
     this.callHistory.push({
       ...outcome,
@@ -409,6 +666,28 @@ export class PredictiveDialer extends EventEmitter {
     }
   }
 
+  /**
+   * Handle call answered by a person: it waits for the next free agent
+   */
+  onCallAnswered(callId: string, phoneNumber: string): void {
+    logger.info({ callId, phoneNumber }, 'Call answered, waiting for agent');
+
+    this.answeredCalls.add(callId);
+    this.emit('call-answered', { callId, phoneNumber });
+  }
+
+  private async connectAnsweredCalls(): Promise<void> {
+    const { connected, abandoned } = await this.answeredCalls.connectWaiting();
+
+    for (const call of connected) {
+      this.emit('call-connected', call);
+    }
+
+    for (const call of abandoned) {
+      this.emit('call-abandoned', call);
+    }
+  }
+
   /**
    * Get current metrics
    */
@@ -1,10 +1,13 @@
 import { EventEmitter } from 'events';
 import pino from 'pino';
 import { db } from '@nexusdialer/database';
-import { leads, campaigns } from '@nexusdialer/database/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { leads, leadLists } from '@nexusdialer/database/schema';
+import { eq, and, inArray, notInArray, sql } from 'drizzle-orm';
 import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { ComplianceGate } from '../services/compliance-gate';
 import { CallService } from '../services/call-service';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector, type SelectedCallerId } from '../services/caller-id-selector';
 
 const logger = pino({ name: 'preview-dialer' });
 
@@ -23,6 +26,7 @@ export interface PreviewMetrics {
   rejectedPreviews: number;
   skippedPreviews: number;
   activeAgents: number;
+  blockedCalls: number;
 }
 
 export interface PreviewRequest {
@@ -39,6 +43,9 @@ export class PreviewDialer extends EventEmitter {
   private config: PreviewDialerConfig;
   private fsCommands: FreeSWITCHCommands;
   private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
   private isRunning = false;
   private activePreviewRequests: Map<string, PreviewRequest> = new Map();
   private metrics: PreviewMetrics;
@@ -47,12 +54,18 @@ export class PreviewDialer extends EventEmitter {
   constructor(
     config: PreviewDialerConfig,
     fsCommands: FreeSWITCHCommands,
-    callService: CallService
+    callService: CallService,
+    complianceGate: ComplianceGate,
+    trunkRouter: TrunkRouter,
+    callerIdSelector: CallerIdSelector
   ) {
     super();
     this.config = config;
     this.fsCommands = fsCommands;
     this.callService = callService;
+    this.complianceGate = complianceGate;
+    this.trunkRouter = trunkRouter;
+    this.callerIdSelector = callerIdSelector;
 
     this.metrics = {
       totalPreviews: 0,
@@ -61,6 +74,7 @@ export class PreviewDialer extends EventEmitter {
       rejectedPreviews: 0,
       skippedPreviews: 0,
       activeAgents: 0,
+      blockedCalls: 0,
     };
   }
 
@@ -196,6 +210,16 @@ export class PreviewDialer extends EventEmitter {
       throw new Error('Preview has expired');
     }
 
+    // Rules may have changed while the agent was previewing
+    const decision = await this.complianceGate.screen(this.config.campaignId, preview.lead);
+
+    if (!decision.allowed) {
+      preview.status = 'expired';
+      this.activePreviewRequests.delete(previewId);
+      this.metrics.blockedCalls++;
+      throw new Error(`Lead can no longer be dialed: ${decision.detail}`);
+    }
+
     preview.status = 'accepted';
     this.metrics.acceptedPreviews++;
 
@@ -358,26 +382,40 @@ export class PreviewDialer extends EventEmitter {
    */
   private async getNextLead(): Promise<any | null> {
     try {
-      const campaign = await db.query.campaigns.findFirst({
-        where: eq(campaigns.id, this.config.campaignId),
-      });
+      const campaignLists = db
+        .select({ id: leadLists.id })
+        .from(leadLists)
+        .where(and(eq(leadLists.campaignId, this.config.campaignId), eq(leadLists.status, 'active')));
 
-      if (!campaign) {
-        logger.warn({ campaignId: this.config.campaignId }, 'Campaign not found');
-        return null;
-      }
+      const previewedLeadIds = Array.from(this.activePreviewRequests.values()).map(
+        (p) => p.leadId
+      );
 
-      // Get next lead that hasn't been called recently
-      const nextLead = await db.query.leads.findFirst({
+      // Get leads that haven't been called or are due for retry
+      const candidates = await db.query.leads.findMany({
         where: and(
-          eq(leads.campaignId, this.config.campaignId),
-          eq(leads.status, 'active'),
-          sql`(${leads.lastCallAttempt} IS NULL OR ${leads.lastCallAttempt} < NOW() - INTERVAL '1 hour')`
+          eq(leads.tenantId, this.config.tenantId),
+          inArray(leads.listId, campaignLists),
+          inArray(leads.status, ['new', 'callback']),
+          sql`(${leads.nextAttemptAt} IS NULL OR ${leads.nextAttemptAt} <= NOW())`,
+          previewedLeadIds.length > 0 ? notInArray(leads.id, previewedLeadIds) : undefined
         ),
-        orderBy: (leads, { asc }) => [asc(leads.priority), asc(leads.lastCallAttempt)],
+        limit: 10,
+        orderBy: (leads, { desc, asc }) => [desc(leads.priority), asc(leads.lastAttemptAt)],
       });
 
-      return nextLead || null;
+      // Only offer leads that can be dialed right now; blocked ones are rescheduled
+      for (const lead of candidates) {
+        const decision = await this.complianceGate.screen(this.config.campaignId, lead);
+
+        if (decision.allowed) {
+          return lead;
+        }
+
+        this.metrics.blockedCalls++;
+      }
+
+      return null;
     } catch (error) {
       logger.error({ error }, 'Error fetching next lead');
       return null;
@@ -388,19 +426,42 @@ export class PreviewDialer extends EventEmitter {
    * Dial a lead
    */
   private async dialLead(lead: any, agentId: string): Promise<void> {
+    let callerId: SelectedCallerId | null = null;
+    let placed = false;
+
     try {
       logger.info(
         { leadId: lead.id, phoneNumber: lead.phoneNumber, agentId },
         'Dialing lead'
       );
 
+      // Screen against DNC, calling windows and attempt limits before dialing
+      const decision = await this.complianceGate.screen(this.config.campaignId, lead);
+
+      if (!decision.allowed) {
+        this.metrics.blockedCalls++;
+        this.emit('call-blocked', {
+          leadId: lead.id,
+          agentId,
+          phoneNumber: lead.phoneNumber,
+          reason: decision.reason,
+        });
+        return;
+      }
+
+      // Caller ID from the campaign's pool, local to the lead where it can be
+      callerId = await this.callerIdSelector.select(
+        this.config.campaignId,
+        lead.phoneNumber
+      );
+
       // Create call record
       const call = await this.callService.createCall({
         tenantId: this.config.tenantId,
         campaignId: this.config.campaignId,
         leadId: lead.id,
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         direction: 'outbound',
         metadata: {
           dialMode: 'preview',
@@ -418,9 +479,9 @@ export class PreviewDialer extends EventEmitter {
       );
 
       // Originate call
-      const jobId = await this.fsCommands.originate({
+      const jobId = await this.trunkRouter.originate(call, {
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         timeout: this.config.callTimeout,
         variables: {
           nexus_call_id: call.id,
@@ -433,15 +494,11 @@ export class PreviewDialer extends EventEmitter {
         ringReady: true,
       });
 
-      // Update lead
-      await db
-        .update(leads)
-        .set({
-          status: 'dialing',
-          lastCallAttempt: new Date(),
-          callAttempts: sql`${leads.callAttempts} + 1`,
-        })
-        .where(eq(leads.id, lead.id));
+      // The caller ID slot now counts against its daily cap
+      placed = true;
+
+      // Count the attempt and hold the lead out until its retry interval
+      await this.complianceGate.recordAttempt(this.config.campaignId, lead.id);
 
       this.metrics.totalCalls++;
 
@@ -460,6 +517,10 @@ export class PreviewDialer extends EventEmitter {
     } catch (error) {
       logger.error({ error, leadId: lead.id, agentId }, 'Error dialing lead');
 
+      if (!placed) {
+        await this.callerIdSelector.release(callerId);
+      }
+
       this.emit('call-failed', {
         leadId: lead.id,
         agentId,
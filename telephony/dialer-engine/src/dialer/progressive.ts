@@ -1,10 +1,13 @@
 import { EventEmitter } from 'events';
 import pino from 'pino';
 import { db } from '@nexusdialer/database';
-import { leads, campaigns } from '@nexusdialer/database/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { leads, leadLists } from '@nexusdialer/database/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
 import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { ComplianceGate } from '../services/compliance-gate';
 import { CallService, type AgentStatus } from '../services/call-service';
+import { TrunkRouter } from '../services/trunk-router';
+import { CallerIdSelector, type SelectedCallerId } from '../services/caller-id-selector';
 
 const logger = pino({ name: 'progressive-dialer' });
 
@@ -23,12 +26,16 @@ export interface ProgressiveMetrics {
   availableAgents: number;
   busyAgents: number;
   callsWaitingForAgent: number;
+  blockedCalls: number;
 }
 
 export class ProgressiveDialer extends EventEmitter {
   private config: ProgressiveDialerConfig;
   private fsCommands: FreeSWITCHCommands;
   private callService: CallService;
+  private complianceGate: ComplianceGate;
+  private trunkRouter: TrunkRouter;
+  private callerIdSelector: CallerIdSelector;
   private isRunning = false;
   private dialInterval?: NodeJS.Timeout;
   private metrics: ProgressiveMetrics;
@@ -37,12 +44,18 @@ export class ProgressiveDialer extends EventEmitter {
   constructor(
     config: ProgressiveDialerConfig,
     fsCommands: FreeSWITCHCommands,
-    callService: CallService
+    callService: CallService,
+    complianceGate: ComplianceGate,
+    trunkRouter: TrunkRouter,
+    callerIdSelector: CallerIdSelector
   ) {
     super();
     this.config = config;
     this.fsCommands = fsCommands;
     this.callService = callService;
+    this.complianceGate = complianceGate;
+    this.trunkRouter = trunkRouter;
+    this.callerIdSelector = callerIdSelector;
 
     this.metrics = {
       totalCalls: 0,
@@ -51,6 +64,7 @@ export class ProgressiveDialer extends EventEmitter {
       availableAgents: 0,
       busyAgents: 0,
       callsWaitingForAgent: 0,
+      blockedCalls: 0,
     };
   }
 
@@ -316,24 +330,21 @@ export class ProgressiveDialer extends EventEmitter {
    */
   private async getLeadsToCall(count: number): Promise<any[]> {
     try {
-      const campaign = await db.query.campaigns.findFirst({
-        where: eq(campaigns.id, this.config.campaignId),
-      });
-
-      if (!campaign) {
-        logger.warn({ campaignId: this.config.campaignId }, 'Campaign not found');
-        return [];
-      }
+      const campaignLists = db
+        .select({ id: leadLists.id })
+        .from(leadLists)
+        .where(and(eq(leadLists.campaignId, this.config.campaignId), eq(leadLists.status, 'active')));
 
-      // Get leads that haven't been called or need retry
+      // Get leads that haven't been called or are due for retry
       const leadsToCall = await db.query.leads.findMany({
         where: and(
-          eq(leads.campaignId, this.config.campaignId),
-          eq(leads.status, 'active'),
-          sql`(${leads.lastCallAttempt} IS NULL OR ${leads.lastCallAttempt} < NOW() - INTERVAL '1 hour')`
+          eq(leads.tenantId, this.config.tenantId),
+          inArray(leads.listId, campaignLists),
+          inArray(leads.status, ['new', 'callback']),
+          sql`(${leads.nextAttemptAt} IS NULL OR ${leads.nextAttemptAt} <= NOW())`
         ),
         limit: count,
-        orderBy: (leads, { asc }) => [asc(leads.priority), asc(leads.lastCallAttempt)],
+        orderBy: (leads, { desc, asc }) => [desc(leads.priority), asc(leads.lastAttemptAt)],
       });
 
       return leadsToCall;
@@ -347,19 +358,41 @@ export class ProgressiveDialer extends EventEmitter {
    * Dial a lead
    */
   private async dialLead(lead: any): Promise<void> {
+    let callerId: SelectedCallerId | null = null;
+    let placed = false;
+
     try {
       logger.info(
         { leadId: lead.id, phoneNumber: lead.phoneNumber },
         'Dialing lead'
       );
 
+      // Screen against DNC, calling windows and attempt limits before dialing
+      const decision = await this.complianceGate.screen(this.config.campaignId, lead);
+
+      if (!decision.allowed) {
+        this.metrics.blockedCalls++;
+        this.emit('call-blocked', {
+          leadId: lead.id,
+          phoneNumber: lead.phoneNumber,
+          reason: decision.reason,
+        });
+        return;
+      }
+
+      // Caller ID from the campaign's pool, local to the lead where it can be
+      callerId = await this.callerIdSelector.select(
+        this.config.campaignId,
+        lead.phoneNumber
+      );
+
       // Create call record
       const call = await this.callService.createCall({
         tenantId: this.config.tenantId,
         campaignId: this.config.campaignId,
         leadId: lead.id,
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         direction: 'outbound',
         metadata: {
           dialMode: 'progressive',
@@ -368,9 +401,9 @@ export class ProgressiveDialer extends EventEmitter {
       });
 
       // Originate call
-      const jobId = await this.fsCommands.originate({
+      const jobId = await this.trunkRouter.originate(call, {
         phoneNumber: lead.phoneNumber,
-        callerId: lead.callerId,
+        callerId: callerId?.phoneNumber,
         timeout: this.config.callTimeout,
         variables: {
           nexus_call_id: call.id,
@@ -382,15 +415,11 @@ export class ProgressiveDialer extends EventEmitter {
         ringReady: true,
       });
 
-      // Update lead
-      await db
-        .update(leads)
-        .set({
-          status: 'dialing',
-          lastCallAttempt: new Date(),
-          callAttempts: sql`${leads.callAttempts} + 1`,
-        })
-        .where(eq(leads.id, lead.id));
+      // The caller ID slot now counts against its daily cap
+      placed = true;
+
+      // Count the attempt and hold the lead out until its retry interval
+      await this.complianceGate.recordAttempt(this.config.campaignId, lead.id);
 
       this.metrics.totalCalls++;
 
@@ -408,6 +437,10 @@ export class ProgressiveDialer extends EventEmitter {
     } catch (error) {
       logger.error({ error, leadId: lead.id }, 'Error dialing lead');
 
+      if (!placed) {
+        await this.callerIdSelector.release(callerId);
+      }
+
       this.emit('call-failed', {
         leadId: lead.id,
         phoneNumber: lead.phoneNumber,
@@ -100,7 +100,9 @@ export class FreeSWITCHClient extends EventEmitter {
       'CHANNEL_HANGUP_COMPLETE',
       'CHANNEL_PROGRESS',
       'CHANNEL_PROGRESS_MEDIA',
+      'CHANNEL_EXECUTE_COMPLETE',
       'DTMF',
+      'RECORD_STOP',
       'CUSTOM',
     ];
 
@@ -14,6 +14,16 @@ export interface OriginateOptions {
   variables?: Record<string, string | number>;
   ignoreEarlyMedia?: boolean;
   ringReady?: boolean;
+  route?: OriginateRoute;
+}
+
+// A carrier to send the call to instead of the external profile's default
+export interface OriginateRoute {
+  gateway: string; // host[:port]
+  transport?: 'udp' | 'tcp' | 'tls';
+  username?: string;
+  password?: string;
+  codecs?: string[];
 }
 
 export interface BridgeOptions {
@@ -28,6 +38,17 @@ export interface TransferOptions {
   context?: string;
 }
 
+export interface EavesdropOptions {
+  targetUuid: string;
+  extension: string;
+  mode: 'listen' | 'whisper' | 'barge';
+  uuid: string; // for the eavesdropping leg
+  timeout?: number;
+  variables?: Record<string, string | number>;
+}
+
+const UNSAFE_VARIABLE_CHARS = /[',{}]/;
+
 export class FreeSWITCHCommands {
   constructor(private client: FreeSWITCHClient) {}
 
@@ -46,14 +67,27 @@ export class FreeSWITCHCommands {
       variables = {},
       ignoreEarlyMedia = false,
       ringReady = false,
+      route,
     } = options;
 
+    // A quote, comma or brace in a credential would break out of the
+    // {key='value',...} block and inject channel variables
+    for (const credential of [route?.username, route?.password]) {
+      if (credential && UNSAFE_VARIABLE_CHARS.test(credential)) {
+        throw new Error('Trunk credentials contain characters not allowed in channel variables');
+      }
+    }
+
     // Build channel variables
     const vars: Record<string, string | number> = {
       ignore_early_media: ignoreEarlyMedia ? 'true' : 'false',
       ring_ready: ringReady ? 'true' : 'false',
       origination_caller_id_number: callerId || '',
       origination_caller_id_name: callerIdName || '',
+      // Answer the carrier's digest challenge and offer only the codecs it takes
+      sip_auth_username: route?.username || '',
+      sip_auth_password: route?.password || '',
+      absolute_codec_string: route?.codecs?.join(':') || '',
       ...variables,
     };
 
@@ -70,11 +104,18 @@ export class FreeSWITCHCommands {
       destination = `&${destinationApp}(${destinationAppArgs})`;
     }
 
+    let endpoint = `sofia/external/${phoneNumber}`;
+    if (route) {
+      const transport =
+        route.transport && route.transport !== 'udp' ? `;transport=${route.transport}` : '';
+      endpoint = `sofia/external/${phoneNumber}@${route.gateway}${transport}`;
+    }
+
     // Build originate command
-    const originateCmd = `originate {${varString}}sofia/external/${phoneNumber} ${destination}`;
+    const originateCmd = `originate {${varString}}${endpoint} ${destination}`;
 
     logger.info(
-      { phoneNumber, callerId, destination: destinationApp },
+      { phoneNumber, callerId, destination: destinationApp, gateway: route?.gateway },
       'Originating call'
     );
 
@@ -137,6 +178,41 @@ export class FreeSWITCHCommands {
     }
   }
 
+  /**
+   * Send a channel to a dialplan extension, whatever it is running; unlike
+   * transfer() this works on a bridged leg
+   */
+  async transferLeg(
+    uuid: string,
+    destination: string,
+    context: string = 'default'
+  ): Promise<void> {
+    logger.info({ uuid, destination, context }, 'Transferring call leg');
+
+    try {
+      await this.client.api(`uuid_transfer ${uuid} ${destination} XML ${context}`);
+      logger.info({ uuid, destination }, 'Call leg transferred');
+    } catch (error) {
+      logger.error({ error, uuid, destination }, 'Failed to transfer call leg');
+      throw error;
+    }
+  }
+
+  /**
+   * Bridge two existing channels, taking each out of what it is doing
+   */
+  async bridgeLegs(uuid1: string, uuid2: string): Promise<void> {
+    logger.info({ uuid1, uuid2 }, 'Bridging call legs');
+
+    try {
+      await this.client.api(`uuid_bridge ${uuid1} ${uuid2}`);
+      logger.info({ uuid1, uuid2 }, 'Call legs bridged');
+    } catch (error) {
+      logger.error({ error, uuid1, uuid2 }, 'Failed to bridge call legs');
+      throw error;
+    }
+  }
+
   /**
    * Put a call on hold
    */
@@ -189,7 +265,7 @@ export class FreeSWITCHCommands {
     logger.info({ uuid, filePath }, 'Starting call recording');
 
     try {
-      await this.client.execute(uuid, 'record_session', filePath);
+      await this.client.api(`uuid_record ${uuid} start ${filePath}`);
       logger.info({ uuid, filePath }, 'Call recording started');
     } catch (error) {
       logger.error({ error, uuid }, 'Failed to start recording');
@@ -197,6 +273,35 @@ export class FreeSWITCHCommands {
     }
   }
 
+  /**
+   * Pause a call recording. The file keeps running with silence in place of
+   * the audio, so offsets into the recording stay true to the call.
+   */
+  async pauseRecording(uuid: string, filePath: string): Promise<void> {
+    logger.info({ uuid, filePath }, 'Pausing call recording');
+
+    try {
+      await this.client.api(`uuid_record ${uuid} mask ${filePath}`);
+    } catch (error) {
+      logger.error({ error, uuid }, 'Failed to pause recording');
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused call recording
+   */
+  async resumeRecording(uuid: string, filePath: string): Promise<void> {
+    logger.info({ uuid, filePath }, 'Resuming call recording');
+
+    try {
+      await this.client.api(`uuid_record ${uuid} unmask ${filePath}`);
+    } catch (error) {
+      logger.error({ error, uuid }, 'Failed to resume recording');
+      throw error;
+    }
+  }
+
   /**
    * Stop recording a call
    */
@@ -302,16 +407,53 @@ export class FreeSWITCHCommands {
   }
 
   /**
-   * Eavesdrop on a call (for monitoring/coaching)
+   * Ring an extension and have it eavesdrop on a call once answered (for
+   * monitoring/coaching). The target is the customer leg; the agent is the
+   * other half of its bridge.
+   */
+  async eavesdrop(options: EavesdropOptions): Promise<void> {
+    const { targetUuid, extension, mode, uuid, timeout = 30, variables = {} } = options;
+
+    const vars: Record<string, string | number> = {
+      origination_uuid: uuid,
+      originate_timeout: timeout,
+      // Lets the mode be switched mid-call with uuid_recv_dtmf
+      eavesdrop_enable_dtmf: 'true',
+      eavesdrop_whisper_aleg: mode === 'barge' ? 'true' : 'false',
+      eavesdrop_whisper_bleg: mode === 'listen' ? 'false' : 'true',
+      ...variables,
+    };
+
+    const varString = Object.entries(vars)
+      .map(([key, value]) => `${key}='${value}'`)
+      .join(',');
+
+    const originateCmd = `originate {${varString}}user/${extension} &eavesdrop(${targetUuid})`;
+
+    logger.info({ targetUuid, extension, mode }, 'Starting eavesdrop');
+
+    try {
+      await this.client.bgapi(originateCmd);
+      logger.info({ targetUuid, extension, mode }, 'Eavesdrop originated');
+    } catch (error) {
+      logger.error({ error, targetUuid, extension, mode }, 'Failed to start eavesdrop');
+      throw error;
+    }
+  }
+
+  /**
+   * Switch a running eavesdrop between listen, whisper and barge
    */
-  async eavesdrop(targetUuid: string, mode: 'listen' | 'whisper' | 'barge' = 'listen'): Promise<void> {
-    logger.info({ targetUuid, mode }, 'Starting eavesdrop');
+  async setEavesdropMode(uuid: string, mode: 'listen' | 'whisper' | 'barge'): Promise<void> {
+    // 0 listens only, 1 talks to the other half (the agent), 3 talks to both
+    const digit = { listen: '0', whisper: '1', barge: '3' }[mode];
+
+    logger.info({ uuid, mode }, 'Switching eavesdrop mode');
 
     try {
-      await this.client.execute(targetUuid, 'eavesdrop', mode);
-      logger.info({ targetUuid, mode }, 'Eavesdrop started');
+      await this.client.api(`uuid_recv_dtmf ${uuid} ${digit}`);
     } catch (error) {
-      logger.error({ error, targetUuid, mode }, 'Failed to start eavesdrop');
+      logger.error({ error, uuid, mode }, 'Failed to switch eavesdrop mode');
       throw error;
     }
   }
@@ -347,6 +489,22 @@ export class FreeSWITCHCommands {
     }
   }
 
+  /**
+   * Run answering machine detection (mod_amd) on an answered call. The result
+   * is reported in the amd_result variable when the application completes.
+   */
+  async detectAnsweringMachine(uuid: string): Promise<void> {
+    logger.info({ uuid }, 'Starting answering machine detection');
+
+    try {
+      await this.client.api(`uuid_broadcast ${uuid} amd:: aleg`);
+      logger.info({ uuid }, 'Answering machine detection started');
+    } catch (error) {
+      logger.error({ error, uuid }, 'Failed to start answering machine detection');
+      throw error;
+    }
+  }
+
   /**
    * Deflect a call (302 redirect)
    */
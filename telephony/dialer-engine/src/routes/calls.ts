@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import pino from 'pino';
-import { DialerManager } from '../dialer/manager';
+import { CampaignNotLocalError, DialerManager } from '../dialer/manager';
+import { AgentNotFoundError, DialBlockedError } from '../dialer/manual';
 import { CallService } from '../services/call-service';
 
 const logger = pino({ name: 'calls-routes' });
@@ -28,6 +29,13 @@ const previewActionSchema = z.object({
   reason: z.string().optional(),
 });
 
+const manualDialSchema = z.object({
+  campaignId: z.string().uuid(),
+  agentId: z.string().uuid(),
+  phoneNumber: z.string().min(3).max(20),
+  leadId: z.string().uuid().optional(),
+});
+
 const updateAgentStatusSchema = z.object({
   agentId: z.string().uuid(),
   tenantId: z.string().uuid(),
@@ -308,6 +316,64 @@ export function initializeCallRoutes(dialerManager: DialerManager, callService:
     }
   });
 
+  /**
+   * POST /manual/dial
+   * Place an agent-initiated call (Manual mode only)
+   */
+  router.post('/manual/dial', async (req: Request, res: Response) => {
+    try {
+      const { campaignId, ...request } = manualDialSchema.parse(req.body);
+
+      const call = await dialerManager.manualDial(campaignId, request);
+
+      logger.info({ campaignId, agentId: request.agentId, callId: call.id }, 'Manual dial via API');
+
+      res.json({
+        success: true,
+        data: call,
+      });
+    } catch (error) {
+      logger.error({ error, body: req.body }, 'Error placing manual call');
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof DialBlockedError) {
+        return res.status(403).json({
+          success: false,
+          error: error.message,
+          reason: error.reason,
+        });
+      }
+
+      if (error instanceof AgentNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      // Placing the call here would leave it outside the campaign's dialer
+      if (error instanceof CampaignNotLocalError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          owner: error.owner,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   /**
    * GET /calls/:callId
    * Get call details
@@ -0,0 +1,159 @@
+import pino from 'pino';
+import { db } from '@nexusdialer/database';
+import { agentProfiles } from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { CallService, type AgentStatus } from './call-service';
+
+const logger = pino({ name: 'agent-connector' });
+
+// Long enough to move the agent to on_call; expires on its own otherwise
+const RESERVATION_TTL = 10;
+
+export interface ConnectResult {
+  connected: Array<{ callId: string; agentId: string }>;
+  abandoned: Array<{ callId: string; waitTime: number }>;
+}
+
+/**
+ * Answered auto-dialed calls waiting for an agent. Each pass hands the
+ * longest-waiting calls to the longest-idle agents, through
+ * queue_agent_<ext>, and hangs up calls that waited past the safe-harbor
+ * time. Abandoned calls are marked before the hangup, so the hangup
+ * handler keeps the status and the campaign's abandon rate counts them.
+ */
+export class AnsweredCallConnector {
+  private waiting: Map<string, Date> = new Map();
+
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService,
+    private tenantId: string,
+    private agentWaitTime: number // seconds
+  ) {}
+
+  get waitingCount(): number {
+    return this.waiting.size;
+  }
+
+  add(callId: string): void {
+    this.waiting.set(callId, new Date());
+  }
+
+  async connectWaiting(): Promise<ConnectResult> {
+    const result: ConnectResult = { connected: [], abandoned: [] };
+
+    if (this.waiting.size === 0) {
+      return result;
+    }
+
+    // Longest idle first
+    const agents = (await this.callService.getAvailableAgents(this.tenantId)).sort(
+      (a, b) => new Date(a.lastStateChange).getTime() - new Date(b.lastStateChange).getTime()
+    );
+
+    for (const [callId, answeredAt] of this.waiting) {
+      const call = await this.callService.getCall(callId);
+
+      // The called party hung up first; the hangup handler ends the call
+      if (!call?.freeswitchUuid || call.endTime) {
+        this.waiting.delete(callId);
+        continue;
+      }
+
+      let connectedTo: string | null = null;
+
+      while (!connectedTo && agents.length > 0) {
+        const agent = agents.shift()!;
+
+        if (await this.connect(callId, call.freeswitchUuid, agent)) {
+          connectedTo = agent.agentId;
+        }
+      }
+
+      if (connectedTo) {
+        this.waiting.delete(callId);
+        result.connected.push({ callId, agentId: connectedTo });
+        continue;
+      }
+
+      const waitTime = (Date.now() - answeredAt.getTime()) / 1000;
+
+      if (waitTime > this.agentWaitTime) {
+        this.waiting.delete(callId);
+        await this.abandon(callId, call.freeswitchUuid, waitTime);
+        result.abandoned.push({ callId, waitTime });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Hang up every waiting call, e.g. when the campaign stops
+   */
+  async abandonAll(): Promise<void> {
+    for (const [callId, answeredAt] of this.waiting) {
+      this.waiting.delete(callId);
+
+      const call = await this.callService.getCall(callId);
+
+      if (call?.freeswitchUuid && !call.endTime) {
+        await this.abandon(callId, call.freeswitchUuid, (Date.now() - answeredAt.getTime()) / 1000);
+      }
+    }
+  }
+
+  private async connect(callId: string, uuid: string, agent: AgentStatus): Promise<boolean> {
+    if (!(await this.callService.reserveAgent(agent.agentId, callId, RESERVATION_TTL))) {
+      return false;
+    }
+
+    try {
+      const profile = await db.query.agentProfiles.findFirst({
+        where: and(
+          eq(agentProfiles.tenantId, this.tenantId),
+          eq(agentProfiles.userId, agent.agentId)
+        ),
+        columns: { extension: true },
+      });
+
+      if (!profile?.extension) {
+        logger.warn({ callId, agentId: agent.agentId }, 'No agent extension to connect to');
+        return false;
+      }
+
+      await this.callService.updateAgentStatus(agent.agentId, this.tenantId, 'on_call', callId);
+      await this.callService.updateCall(callId, { agentId: agent.agentId, status: 'connected' });
+
+      try {
+        await this.fsCommands.transferLeg(uuid, `queue_agent_${profile.extension}`);
+      } catch (error) {
+        await this.callService.updateCall(callId, { agentId: undefined, status: 'answered' });
+        await this.callService.updateAgentStatus(agent.agentId, this.tenantId, 'available');
+        throw error;
+      }
+
+      await this.callService.incrementAgentCallCount(agent.agentId);
+
+      logger.info({ callId, agentId: agent.agentId }, 'Answered call connected to agent');
+      return true;
+    } catch (error) {
+      logger.error({ error, callId, agentId: agent.agentId }, 'Error connecting call to agent');
+      return false;
+    } finally {
+      await this.callService.releaseAgent(agent.agentId, callId);
+    }
+  }
+
+  private async abandon(callId: string, uuid: string, waitTime: number): Promise<void> {
+    logger.warn({ callId, waitTime }, 'Call abandoned - no agent available');
+
+    try {
+      await this.callService.updateCall(callId, { status: 'abandoned' });
+      await this.fsCommands.hangup(uuid, 'NORMAL_CLEARING');
+    } catch (error) {
+      logger.error({ error, callId }, 'Error abandoning call');
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * STIR/SHAKEN attestation of an outbound call, as the trunk reports it back
+ * to us. A: the carrier knows the customer and that they may use the caller
+ * ID; B: it knows the customer but not the number; C: it knows neither.
+ */
+export type AttestationLevel = 'A' | 'B' | 'C';
+
+// Headers carriers report the level in, on the provisional or final response
+const ATTESTATION_HEADERS = ['P-Attestation-Indicator', 'X-Attestation', 'X-Attestation-Level'];
+
+// FreeSWITCH channel variable prefixes for headers of the 200 OK, of the
+// 18x, and of the request
+const HEADER_VARIABLE_PREFIXES = ['variable_sip_rh_', 'variable_sip_ph_', 'variable_sip_h_'];
+
+/**
+ * Read the attestation level from a channel's variables. An Identity header
+ * echoed back by the carrier is read from its PASSporT's attest claim.
+ */
+export function parseAttestation(raw: Record<string, string> | undefined): AttestationLevel | null {
+  if (!raw) {
+    return null;
+  }
+
+  for (const prefix of HEADER_VARIABLE_PREFIXES) {
+    for (const header of ATTESTATION_HEADERS) {
+      const level = toAttestationLevel(raw[`${prefix}${header}`]);
+
+      if (level) {
+        return level;
+      }
+    }
+
+    const identity = raw[`${prefix}Identity`];
+
+    if (identity) {
+      const level = parsePassport(identity);
+
+      if (level) {
+        return level;
+      }
+    }
+  }
+
+  return null;
+}
+
+function toAttestationLevel(value: string | undefined): AttestationLevel | null {
+  const level = value?.trim().toUpperCase();
+
+  return level === 'A' || level === 'B' || level === 'C' ? level : null;
+}
+
+/**
+ * Identity: <header>.<payload>.<signature>;info=<...>;alg=ES256;ppt=shaken
+ */
+function parsePassport(identity: string): AttestationLevel | null {
+  const payload = identity.split(';')[0].split('.')[1];
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return toAttestationLevel(claims.attest);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,233 @@
+import pino from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { TOPICS } from '@nexusdialer/events';
+import type {
+  CallMonitorControlEvent,
+  CallMonitorStateEvent,
+  MonitorMode,
+} from '@nexusdialer/events';
+import { CallEvent } from '../freeswitch/client';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { CallService } from './call-service';
+
+const logger = pino({ name: 'call-monitor' });
+
+interface MonitorLeg {
+  sessionId: string;
+  tenantId: string;
+  callId: string;
+  supervisorId: string;
+  uuid: string; // the supervisor's leg
+  mode: MonitorMode;
+  originatedMode: MonitorMode;
+  answered: boolean;
+}
+
+type PublishEvent = <T>(topic: string, event: T) => Promise<void>;
+
+// How long the supervisor's softphone rings before the session fails
+const MONITOR_RING_TIMEOUT = 30;
+
+/**
+ * Supervisor listen, whisper and barge. The API gateway authorizes each
+ * session and sends it on calls.monitor-control; this class rings the
+ * supervisor's softphone into an eavesdrop on the call's customer leg,
+ * switches modes mid-call and reports each change on calls.monitor-state.
+ */
+export class CallMonitor {
+  // By session id, from the ring until the supervisor's leg hangs up
+  private legs: Map<string, MonitorLeg> = new Map();
+
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService,
+    private publishEvent: PublishEvent
+  ) {}
+
+  async handleControl(command: CallMonitorControlEvent): Promise<void> {
+    switch (command.payload.action) {
+      case 'start':
+        await this.start(command);
+        return;
+
+      case 'mode':
+        await this.changeMode(command);
+        return;
+
+      case 'stop':
+        await this.stop(command);
+        return;
+    }
+  }
+
+  /**
+   * The supervisor picked up; the eavesdrop is live
+   */
+  async handleAnswer(event: CallEvent): Promise<void> {
+    const leg = this.getLeg(event);
+
+    if (!leg) {
+      return;
+    }
+
+    leg.answered = true;
+
+    // Switched while the softphone was still ringing
+    if (leg.mode !== leg.originatedMode) {
+      await this.fsCommands.setEavesdropMode(leg.uuid, leg.mode);
+    }
+
+    logger.info({ sessionId: leg.sessionId, callId: leg.callId }, 'Supervisor joined call');
+
+    await this.publishState(leg, 'active');
+  }
+
+  /**
+   * The supervisor's leg ended: they hung up, the monitored call ended or
+   * the softphone was never answered
+   */
+  async handleHangup(event: CallEvent): Promise<void> {
+    const leg = this.getLeg(event);
+
+    if (!leg) {
+      return;
+    }
+
+    this.legs.delete(leg.sessionId);
+
+    logger.info({ sessionId: leg.sessionId, callId: leg.callId }, 'Supervisor left call');
+
+    if (leg.answered) {
+      await this.publishState(leg, 'ended');
+    } else {
+      await this.publishState(leg, 'failed', `Softphone not answered (${event.hangupCause})`);
+    }
+  }
+
+  private async start(command: CallMonitorControlEvent): Promise<void> {
+    const { sessionId, callId, supervisorId, extension, mode } = command.payload;
+
+    const leg: MonitorLeg = {
+      sessionId,
+      tenantId: command.tenantId,
+      callId,
+      supervisorId,
+      uuid: uuidv4(),
+      mode,
+      originatedMode: mode,
+      answered: false,
+    };
+
+    const call = await this.callService.getCall(callId);
+
+    if (!call?.freeswitchUuid || !call.answerTime || call.endTime) {
+      await this.publishState(leg, 'failed', 'Call is not connected');
+      return;
+    }
+
+    if (call.tenantId !== command.tenantId) {
+      await this.publishState(leg, 'failed', 'Call not found');
+      return;
+    }
+
+    this.legs.set(sessionId, leg);
+
+    try {
+      await this.fsCommands.eavesdrop({
+        targetUuid: call.freeswitchUuid,
+        extension,
+        mode,
+        uuid: leg.uuid,
+        timeout: MONITOR_RING_TIMEOUT,
+        variables: {
+          nexus_monitor_session: sessionId,
+          // Tells the WebRTC gateway this is a monitoring session, not a call
+          'sip_h_X-Nexus-Monitor': sessionId,
+          origination_caller_id_number: call.phoneNumber,
+        },
+      });
+    } catch (error) {
+      this.legs.delete(sessionId);
+      await this.publishState(leg, 'failed', 'Could not ring softphone');
+      return;
+    }
+
+    logger.info({ sessionId, callId, supervisorId, mode }, 'Ringing supervisor to monitor call');
+  }
+
+  private async changeMode(command: CallMonitorControlEvent): Promise<void> {
+    const leg = this.legs.get(command.payload.sessionId);
+
+    if (!leg) {
+      logger.warn({ sessionId: command.payload.sessionId }, 'Mode change for unknown session');
+      return;
+    }
+
+    const previous = leg.mode;
+    leg.mode = command.payload.mode;
+
+    // Applied on answer if the softphone is still ringing
+    if (!leg.answered) {
+      return;
+    }
+
+    try {
+      await this.fsCommands.setEavesdropMode(leg.uuid, leg.mode);
+    } catch (error) {
+      leg.mode = previous;
+      await this.publishState(leg, 'active', 'Could not switch mode');
+      return;
+    }
+
+    await this.publishState(leg, 'active');
+  }
+
+  private async stop(command: CallMonitorControlEvent): Promise<void> {
+    const leg = this.legs.get(command.payload.sessionId);
+
+    // Already gone; make sure the gateway lets go of the session too
+    if (!leg) {
+      await this.publishState(
+        {
+          sessionId: command.payload.sessionId,
+          tenantId: command.tenantId,
+          callId: command.payload.callId,
+          supervisorId: command.payload.supervisorId,
+          mode: command.payload.mode,
+        },
+        'ended'
+      );
+      return;
+    }
+
+    // The hangup is reported from handleHangup
+    await this.fsCommands.hangup(leg.uuid);
+  }
+
+  private getLeg(event: CallEvent): MonitorLeg | undefined {
+    const sessionId = event.raw?.variable_nexus_monitor_session;
+    return sessionId ? this.legs.get(sessionId) : undefined;
+  }
+
+  private async publishState(
+    leg: Pick<MonitorLeg, 'sessionId' | 'tenantId' | 'callId' | 'supervisorId' | 'mode'>,
+    status: CallMonitorStateEvent['payload']['status'],
+    error?: string
+  ): Promise<void> {
+    await this.publishEvent<CallMonitorStateEvent>(TOPICS.CALLS_MONITOR_STATE, {
+      eventId: uuidv4(),
+      tenantId: leg.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.monitor-state',
+      payload: {
+        sessionId: leg.sessionId,
+        callId: leg.callId,
+        supervisorId: leg.supervisorId,
+        mode: leg.mode,
+        status,
+        error,
+      },
+    });
+  }
+}
@@ -2,8 +2,17 @@ import Redis from 'ioredis';
 import { v4 as uuidv4 } from 'uuid';
 import pino from 'pino';
 import { db } from '@nexusdialer/database';
-import { calls, type NewCall } from '@nexusdialer/database/schema';
+import {
+  calls,
+  callLegs,
+  trunkAttempts,
+  type NewCall,
+  type NewCallLeg,
+  type NewTrunkAttempt,
+} from '@nexusdialer/database/schema';
 import { eq } from 'drizzle-orm';
+import type { RecordingPauseWindow, TransferTarget } from '@nexusdialer/events';
+import type { RecordingConsentMode, RecordingConsentOutcome } from '@nexusdialer/types';
 
 const logger = pino({ name: 'call-service' });
 
@@ -11,12 +20,15 @@ export interface CallState {
   id: string;
   tenantId: string;
   campaignId?: string;
+  queueId?: string;
   leadId?: string;
   agentId?: string;
   direction: 'inbound' | 'outbound';
   status: string;
   phoneNumber: string;
   callerId?: string;
+  trunkId?: string;
+  trunkAttempts?: TrunkAttemptState[];
   sipCallId?: string;
   freeswitchUuid?: string;
   startTime: string;
@@ -24,9 +36,56 @@ export interface CallState {
   endTime?: string;
   ringDuration?: number;
   talkDuration?: number;
+  recordingConsent?: RecordingConsentState;
+  legs?: CallLegState[];
   metadata: Record<string, any>;
 }
 
+// Stored in call_legs when the call ends. The first transfer opens a leg
+// for the agent who had the call; calls never transferred have none.
+export interface CallLegState {
+  id: string;
+  type: 'agent' | 'consult' | 'conference';
+  uuid?: string; // the party's FreeSWITCH channel
+  agentId?: string;
+  targetType?: TransferTarget['type'];
+  target?: string;
+  parentLegId?: string;
+  transferId?: string;
+  startTime: string;
+  answerTime?: string;
+  endTime?: string;
+  endReason?: 'hangup' | 'transferred' | 'completed' | 'cancelled' | 'conferenced' | 'failed';
+}
+
+// Stored in trunk_attempts when the call ends, one per trunk the call was
+// sent out on
+export interface TrunkAttemptState {
+  trunkId: string;
+  startTime: string;
+  answerTime?: string;
+  endTime?: string;
+  hangupCause?: string;
+}
+
+// Outcome is unset while a disclosure or consent prompt is playing
+export interface RecordingConsentState {
+  mode: RecordingConsentMode;
+  outcome?: RecordingConsentOutcome;
+  jurisdiction?: string;
+}
+
+// Running totals of the WebRTC gateway's quality samples for a call; the
+// averages are stored on the call record when it ends
+export interface CallQualityState {
+  samples: number;
+  mosTotal: number;
+  minMos: number;
+  jitterTotal: number; // ms
+  packetLossTotal: number; // percent
+  roundTripTimeTotal: number; // ms
+}
+
 export interface AgentStatus {
   agentId: string;
   tenantId: string;
@@ -46,6 +105,13 @@ export class CallService {
   private readonly CAMPAIGN_CALLS_KEY_PREFIX = 'campaign:calls:';
   private readonly ACTIVE_CALLS_KEY = 'calls:active';
   private readonly AGENT_CALLS_INDEX = 'index:agent:calls:';
+  // Shared with the queue service, which also skips reserved agents
+  private readonly AGENT_RESERVATION_PREFIX = 'queue:reserved:';
+  // Shared with the speech service, which redacts transcripts inside these windows
+  private readonly RECORDING_PAUSES_PREFIX = 'recording:pauses:';
+  private readonly CALL_QUALITY_PREFIX = 'call:quality:';
+  // Shared with the API gateway, which shows each trunk's channels in use
+  private readonly TRUNK_CHANNELS_PREFIX = 'trunk:channels:';
 
   constructor(redisUrl: string) {
     this.redis = new Redis(redisUrl);
@@ -65,6 +131,7 @@ export class CallService {
   async createCall(data: {
     tenantId: string;
     campaignId?: string;
+    queueId?: string;
     leadId?: string;
     phoneNumber: string;
     callerId?: string;
@@ -78,6 +145,7 @@ export class CallService {
       id: callId,
       tenantId: data.tenantId,
       campaignId: data.campaignId,
+      queueId: data.queueId,
       leadId: data.leadId,
       direction: data.direction,
       status: 'initiated',
@@ -146,6 +214,112 @@ export class CallService {
     return JSON.parse(data);
   }
 
+  /**
+   * Open a leg on a call
+   */
+  async addLeg(
+    callId: string,
+    leg: Omit<CallLegState, 'id' | 'startTime'>
+  ): Promise<CallLegState | null> {
+    const call = await this.getCall(callId);
+
+    if (!call) {
+      return null;
+    }
+
+    const legs = this.withAgentLeg(call);
+    const added: CallLegState = {
+      parentLegId: this.findOpenLeg(legs, call.agentId)?.id,
+      ...leg,
+      id: uuidv4(),
+      startTime: new Date().toISOString(),
+    };
+
+    await this.updateCall(callId, { legs: [...legs, added] });
+
+    return added;
+  }
+
+  /**
+   * Close the leg an agent is on, e.g. when they transfer the call away
+   */
+  async endAgentLeg(
+    callId: string,
+    agentId: string,
+    endReason: CallLegState['endReason']
+  ): Promise<CallLegState | null> {
+    const call = await this.getCall(callId);
+
+    if (!call) {
+      return null;
+    }
+
+    const legs = this.withAgentLeg(call);
+    const leg = this.findOpenLeg(legs, agentId);
+
+    if (!leg) {
+      return null;
+    }
+
+    const ended = { ...leg, endTime: new Date().toISOString(), endReason };
+
+    await this.updateCall(callId, {
+      legs: legs.map((existing) => (existing.id === leg.id ? ended : existing)),
+    });
+
+    return ended;
+  }
+
+  async updateLeg(
+    callId: string,
+    legId: string,
+    updates: Partial<CallLegState>
+  ): Promise<CallLegState | null> {
+    const call = await this.getCall(callId);
+    const leg = call?.legs?.find((existing) => existing.id === legId);
+
+    if (!call || !leg) {
+      return null;
+    }
+
+    const updated = { ...leg, ...updates };
+
+    await this.updateCall(callId, {
+      legs: call.legs!.map((existing) => (existing.id === legId ? updated : existing)),
+    });
+
+    return updated;
+  }
+
+  /**
+   * A call's legs, starting with its agent's from answer if this is the
+   * first time it is transferred
+   */
+  private withAgentLeg(call: CallState): CallLegState[] {
+    if (call.legs?.length || !call.agentId) {
+      return call.legs ?? [];
+    }
+
+    return [
+      {
+        id: uuidv4(),
+        type: 'agent',
+        agentId: call.agentId,
+        startTime: call.answerTime ?? call.startTime,
+        answerTime: call.answerTime,
+      },
+    ];
+  }
+
+  /**
+   * The leg an agent is still on, if any
+   */
+  findOpenLeg(legs: CallLegState[], agentId?: string): CallLegState | undefined {
+    return [...legs]
+      .reverse()
+      .find((leg) => !leg.endTime && leg.type !== 'consult' && leg.agentId === agentId);
+  }
+
   /**
    * Mark call as answered
    */
@@ -162,12 +336,30 @@ export class CallService {
       (answerTime.getTime() - new Date(call.startTime).getTime()) / 1000
     );
 
-    const updates: Partial<CallState> = {
-      status: 'answered',
-      answerTime: answerTime.toISOString(),
-      ringDuration,
-      agentId,
-    };
+    // A call transferred to a queue is answered again by its next agent;
+    // it keeps its first answer time and the new agent gets a leg
+    const updates: Partial<CallState> = call.answerTime
+      ? { status: 'answered' }
+      : { status: 'answered', answerTime: answerTime.toISOString(), ringDuration };
+
+    // Keep an agent assigned at dial time (manual/preview) when none is given
+    if (agentId) {
+      updates.agentId = agentId;
+    }
+
+    if (call.legs?.length && agentId) {
+      updates.legs = [
+        ...call.legs,
+        {
+          id: uuidv4(),
+          type: 'agent',
+          agentId,
+          parentLegId: call.legs[call.legs.length - 1].id,
+          startTime: answerTime.toISOString(),
+          answerTime: answerTime.toISOString(),
+        },
+      ];
+    }
 
     const updatedCall = await this.updateCall(callId, updates);
 
@@ -186,7 +378,7 @@ export class CallService {
    */
   async endCall(
     callId: string,
-    status: 'completed' | 'abandoned' | 'failed' | 'no_answer' | 'busy'
+    status: 'completed' | 'abandoned' | 'failed' | 'no_answer' | 'busy' | 'voicemail'
   ): Promise<CallState | null> {
     const call = await this.getCall(callId);
 
@@ -209,6 +401,13 @@ export class CallService {
       talkDuration,
     };
 
+    // Whoever was still on the call hung up with the customer
+    if (call.legs) {
+      updates.legs = call.legs.map((leg) =>
+        leg.endTime ? leg : { ...leg, endTime: updates.endTime, endReason: 'hangup' }
+      );
+    }
+
     const updatedCall = await this.updateCall(callId, updates);
 
     // Remove from active calls
@@ -227,27 +426,92 @@ export class CallService {
    */
   private async persistCallToDatabase(callState: CallState): Promise<void> {
     try {
+      const quality = await this.getCallQuality(callState.id);
+      const average = (total: number) => (quality ? total / quality.samples : 0);
+
       const newCall: NewCall = {
         id: callState.id,
         tenantId: callState.tenantId,
         campaignId: callState.campaignId,
+        queueId: callState.queueId,
         leadId: callState.leadId,
         agentId: callState.agentId,
         direction: callState.direction,
         status: callState.status,
         phoneNumber: callState.phoneNumber,
         callerId: callState.callerId,
+        trunkId: callState.trunkId,
         sipCallId: callState.sipCallId,
         startTime: new Date(callState.startTime),
         answerTime: callState.answerTime ? new Date(callState.answerTime) : null,
         endTime: callState.endTime ? new Date(callState.endTime) : null,
         ringDuration: callState.ringDuration,
         talkDuration: callState.talkDuration,
+        recordingConsentMode: callState.recordingConsent?.mode,
+        recordingConsent: callState.recordingConsent?.outcome,
+        consentJurisdiction: callState.recordingConsent?.jurisdiction,
+        mos: quality ? average(quality.mosTotal).toFixed(2) : null,
+        minMos: quality ? quality.minMos.toFixed(2) : null,
+        jitter: quality ? Math.round(average(quality.jitterTotal)) : null,
+        packetLoss: quality ? average(quality.packetLossTotal).toFixed(2) : null,
+        roundTripTime: quality ? Math.round(average(quality.roundTripTimeTotal)) : null,
         metadata: callState.metadata,
       };
 
       await db.insert(calls).values(newCall);
 
+      if (callState.legs?.length) {
+        await db.insert(callLegs).values(
+          callState.legs.map(
+            (leg): NewCallLeg => ({
+              id: leg.id,
+              tenantId: callState.tenantId,
+              callId: callState.id,
+              parentLegId: leg.parentLegId,
+              transferId: leg.transferId,
+              agentId: leg.agentId,
+              legType: leg.type,
+              targetType: leg.targetType,
+              target: leg.target,
+              startTime: new Date(leg.startTime),
+              answerTime: leg.answerTime ? new Date(leg.answerTime) : null,
+              endTime: leg.endTime ? new Date(leg.endTime) : null,
+              duration:
+                leg.answerTime && leg.endTime
+                  ? Math.floor(
+                      (new Date(leg.endTime).getTime() - new Date(leg.answerTime).getTime()) / 1000
+                    )
+                  : null,
+              endReason: leg.endReason,
+            })
+          )
+        );
+      }
+
+      if (callState.trunkAttempts?.length) {
+        await db.insert(trunkAttempts).values(
+          callState.trunkAttempts.map(
+            (attempt): NewTrunkAttempt => ({
+              tenantId: callState.tenantId,
+              callId: callState.id,
+              trunkId: attempt.trunkId,
+              startTime: new Date(attempt.startTime),
+              answerTime: attempt.answerTime ? new Date(attempt.answerTime) : null,
+              endTime: attempt.endTime ? new Date(attempt.endTime) : null,
+              duration:
+                attempt.answerTime && attempt.endTime
+                  ? Math.floor(
+                      (new Date(attempt.endTime).getTime() -
+                        new Date(attempt.answerTime).getTime()) /
+                        1000
+                    )
+                  : null,
+              hangupCause: attempt.hangupCause,
+            })
+          )
+        );
+      }
+
       logger.info({ callId: callState.id }, 'Call persisted to database');
     } catch (error) {
       logger.error({ error, callId: callState.id }, 'Failed to persist call to database');
@@ -335,9 +599,9 @@ export class CallService {
   }
 
   /**
-   * Get available agents for a tenant
+   * Get all agents with a status for a tenant, in any state
    */
-  async getAvailableAgents(tenantId: string): Promise<AgentStatus[]> {
+  async getTenantAgents(tenantId: string): Promise<AgentStatus[]> {
     const pattern = `${this.AGENT_KEY_PREFIX}*`;
     const keys = await this.redis.keys(pattern);
 
@@ -349,11 +613,191 @@ export class CallService {
     );
 
     return agents.filter(
-      (agent): agent is AgentStatus =>
-        agent !== null &&
-        agent.tenantId === tenantId &&
-        agent.state === 'available'
+      (agent): agent is AgentStatus => agent !== null && agent.tenantId === tenantId
+    );
+  }
+
+  /**
+   * Get available agents for a tenant
+   */
+  async getAvailableAgents(tenantId: string): Promise<AgentStatus[]> {
+    const agents = (await this.getTenantAgents(tenantId)).filter(
+      (agent) => agent.state === 'available'
+    );
+
+    if (agents.length === 0) {
+      return [];
+    }
+
+    // Agents held for a queued call or a scheduled callback are not free
+    const reservations = await this.redis.mget(
+      agents.map((agent) => `${this.AGENT_RESERVATION_PREFIX}${agent.agentId}`)
+    );
+
+    return agents.filter((_, index) => reservations[index] === null);
+  }
+
+  /**
+   * Hold an available agent for a call about to be placed to them.
+   * Expires on its own so a lost call never blocks the agent for long.
+   */
+  async reserveAgent(agentId: string, holderId: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis.set(
+      `${this.AGENT_RESERVATION_PREFIX}${agentId}`,
+      holderId,
+      'EX',
+      ttlSeconds,
+      'NX'
     );
+
+    return result === 'OK';
+  }
+
+  /**
+   * Release an agent reservation, if it is still held for the same call
+   */
+  async releaseAgent(agentId: string, holderId: string): Promise<void> {
+    const key = `${this.AGENT_RESERVATION_PREFIX}${agentId}`;
+
+    if ((await this.redis.get(key)) === holderId) {
+      await this.redis.del(key);
+    }
+  }
+
+  /**
+   * Pause windows recorded so far for a call's recording
+   */
+  async getRecordingPauses(callId: string): Promise<RecordingPauseWindow[]> {
+    const data = await this.redis.get(`${this.RECORDING_PAUSES_PREFIX}${callId}`);
+    return data ? JSON.parse(data) : [];
+  }
+
+  async setRecordingPauses(callId: string, windows: RecordingPauseWindow[]): Promise<void> {
+    await this.redis.setex(
+      `${this.RECORDING_PAUSES_PREFIX}${callId}`,
+      86400,
+      JSON.stringify(windows)
+    );
+  }
+
+  /**
+   * Quality sampled so far on a call's softphone media
+   */
+  async getCallQuality(callId: string): Promise<CallQualityState | null> {
+    const data = await this.redis.get(`${this.CALL_QUALITY_PREFIX}${callId}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async addQualitySample(
+    callId: string,
+    sample: { mos: number; jitter: number; packetLoss: number; roundTripTime: number }
+  ): Promise<void> {
+    const quality = (await this.getCallQuality(callId)) ?? {
+      samples: 0,
+      mosTotal: 0,
+      minMos: sample.mos,
+      jitterTotal: 0,
+      packetLossTotal: 0,
+      roundTripTimeTotal: 0,
+    };
+
+    quality.samples++;
+    quality.mosTotal += sample.mos;
+    quality.minMos = Math.min(quality.minMos, sample.mos);
+    quality.jitterTotal += sample.jitter;
+    quality.packetLossTotal += sample.packetLoss;
+    quality.roundTripTimeTotal += sample.roundTripTime;
+
+    await this.redis.setex(
+      `${this.CALL_QUALITY_PREFIX}${callId}`,
+      86400,
+      JSON.stringify(quality)
+    );
+  }
+
+  /**
+   * Take one of a trunk's channels for a call. Entries older than a day are
+   * dropped first, so a call whose hangup was never seen frees its channel.
+   */
+  async acquireTrunkChannel(
+    trunkId: string,
+    callId: string,
+    maxChannels: number | null
+  ): Promise<boolean> {
+    const key = `${this.TRUNK_CHANNELS_PREFIX}${trunkId}`;
+    const now = Date.now();
+
+    const results = await this.redis
+      .multi()
+      .zremrangebyscore(key, 0, now - 86400 * 1000)
+      .zadd(key, now, callId)
+      .zcard(key)
+      .expire(key, 86400)
+      .exec();
+
+    const inUse = Number(results?.[2]?.[1] ?? 0);
+
+    // Over the cap: give the channel back
+    if (maxChannels !== null && inUse > maxChannels) {
+      await this.redis.zrem(key, callId);
+      return false;
+    }
+
+    return true;
+  }
+
+  async releaseTrunkChannel(trunkId: string, callId: string): Promise<void> {
+    await this.redis.zrem(`${this.TRUNK_CHANNELS_PREFIX}${trunkId}`, callId);
+  }
+
+  /**
+   * Record that a call is being sent out on a trunk
+   */
+  async startTrunkAttempt(callId: string, trunkId: string): Promise<CallState | null> {
+    const call = await this.getCall(callId);
+
+    if (!call) {
+      return null;
+    }
+
+    return this.updateCall(callId, {
+      trunkId,
+      trunkAttempts: [
+        ...(call.trunkAttempts ?? []),
+        { trunkId, startTime: new Date().toISOString() },
+      ],
+    });
+  }
+
+  /**
+   * Close a call's open attempt on a trunk when its carrier leg hangs up
+   */
+  async endTrunkAttempt(
+    callId: string,
+    trunkId: string,
+    hangupCause: string
+  ): Promise<CallState | null> {
+    const call = await this.getCall(callId);
+    const attempt = call?.trunkAttempts?.find(
+      (existing) => existing.trunkId === trunkId && !existing.endTime
+    );
+
+    if (!call || !attempt) {
+      return call;
+    }
+
+    const ended: TrunkAttemptState = {
+      ...attempt,
+      answerTime: call.answerTime,
+      endTime: new Date().toISOString(),
+      hangupCause,
+    };
+
+    return this.updateCall(callId, {
+      trunkAttempts: call.trunkAttempts!.map((existing) =>
+        existing === attempt ? ended : existing
+      ),
+    });
   }
 
   /**
@@ -0,0 +1,659 @@
+import pino from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { TOPICS } from '@nexusdialer/events';
+import type {
+  CallTransferControlEvent,
+  CallTransferStateEvent,
+  CallTransferredEvent,
+  TransferTarget,
+  TransferType,
+} from '@nexusdialer/events';
+import { CallEvent } from '../freeswitch/client';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { CallService, type CallState } from './call-service';
+
+const logger = pino({ name: 'call-transfer' });
+
+interface ActiveTransfer {
+  transferId: string;
+  tenantId: string;
+  callId: string;
+  agentId: string;
+  transferType: TransferType;
+  target: TransferTarget;
+  customerUuid: string;
+  agentUuid: string;
+  consultUuid: string;
+  consultLegId: string;
+  answered: boolean;
+}
+
+type PublishEvent = <T>(topic: string, event: T) => Promise<void>;
+
+type TransferStatus = CallTransferStateEvent['payload']['status'];
+
+/**
+ * Blind and warm transfers and three-way conferences. The API gateway
+ * checks each request and sends it on calls.transfer-control; this class
+ * moves the call's channels around and reports each step on
+ * calls.transfer-state. Every party's part of the call is kept as a leg on
+ * the call, stored in call_legs when it ends.
+ *
+ * A warm transfer holds the customer, sends the agent's leg to the
+ * nexus_consult extension to dial the target, then bridges the customer to
+ * the target (complete), back to the agent (cancel) or moves all three into
+ * a conference room.
+ */
+export class CallTransfer {
+  // By transfer id, from the consult call being dialed until it is settled
+  private transfers: Map<string, ActiveTransfer> = new Map();
+
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService,
+    private publishEvent: PublishEvent
+  ) {}
+
+  async handleControl(command: CallTransferControlEvent): Promise<void> {
+    switch (command.payload.action) {
+      case 'start':
+        if (command.payload.transferType === 'blind') {
+          await this.blindTransfer(command);
+        } else {
+          await this.startConsult(command);
+        }
+        return;
+
+      case 'complete':
+        await this.complete(command);
+        return;
+
+      case 'cancel':
+        await this.cancel(command);
+        return;
+
+      case 'conference':
+        await this.conference(command);
+        return;
+    }
+  }
+
+  /**
+   * The consult call was answered (on the agent's leg), or a blind
+   * transfer reached its target (on the customer's leg)
+   */
+  async handleBridge(event: CallEvent): Promise<void> {
+    const transfer = this.getTransfer(event);
+
+    if (transfer && event.raw?.['Other-Leg-Unique-ID'] === transfer.consultUuid) {
+      transfer.answered = true;
+
+      await this.callService.updateLeg(transfer.callId, transfer.consultLegId, {
+        answerTime: new Date().toISOString(),
+      });
+
+      logger.info({ transferId: transfer.transferId }, 'Consult connected');
+
+      await this.publishState(transfer, 'connected');
+      return;
+    }
+
+    await this.handleBlindAnswer(event);
+  }
+
+  /**
+   * The consult call ended while the transfer was still open: the target
+   * never answered or hung up. The customer goes back to the agent.
+   */
+  async handleConsultEnded(event: CallEvent): Promise<void> {
+    const transfer = this.getTransfer(event);
+
+    // The agent may have had a bridge of their own before the consult
+    if (!transfer || !event.raw?.['Application-Data']?.includes(transfer.consultUuid)) {
+      return;
+    }
+
+    this.transfers.delete(transfer.transferId);
+
+    const { answered } = transfer;
+
+    await this.callService.updateLeg(transfer.callId, transfer.consultLegId, {
+      endTime: new Date().toISOString(),
+      endReason: answered ? 'hangup' : 'failed',
+    });
+
+    await this.reconnect(transfer);
+
+    logger.info({ transferId: transfer.transferId, answered }, 'Consult call ended');
+
+    if (answered) {
+      await this.publishState(transfer, 'cancelled', 'The transfer target hung up');
+    } else {
+      const cause = event.raw?.variable_originate_disposition || 'no answer';
+      await this.publishState(transfer, 'failed', `Transfer target not reached (${cause})`);
+    }
+  }
+
+  /**
+   * A party left a conference; once only the customer is left they are
+   * hung up too
+   */
+  async handleConferenceHangup(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_conference_call;
+    const call = callId ? await this.callService.getCall(callId) : null;
+    const leg = call?.legs?.find((existing) => existing.uuid === event.uuid && !existing.endTime);
+
+    if (!call || !leg || call.endTime) {
+      return;
+    }
+
+    await this.callService.updateLeg(call.id, leg.id, {
+      endTime: new Date().toISOString(),
+      endReason: 'hangup',
+    });
+
+    if (leg.agentId) {
+      await this.callService.updateAgentStatus(leg.agentId, call.tenantId, 'wrap_up');
+    }
+
+    const remaining = call.legs!.filter((existing) => existing.id !== leg.id && !existing.endTime);
+
+    if (remaining.length === 0 && call.freeswitchUuid) {
+      logger.info({ callId: call.id }, 'Conference emptied, hanging up customer');
+      await this.fsCommands.hangup(call.freeswitchUuid);
+    }
+  }
+
+  /**
+   * The customer hung up. A consult still going on is left to the agent and
+   * target, who are hung up when they finish rather than parked.
+   */
+  async handleCallEnded(call: CallState): Promise<void> {
+    for (const transfer of this.transfers.values()) {
+      if (transfer.callId !== call.id) {
+        continue;
+      }
+
+      this.transfers.delete(transfer.transferId);
+
+      await this.fsCommands
+        .setVariable(transfer.agentUuid, 'park_after_bridge', 'false')
+        .then(() => this.fsCommands.setVariable(transfer.agentUuid, 'hangup_after_bridge', 'true'))
+        .catch((error) => {
+          logger.warn({ error, transferId: transfer.transferId }, 'Could not release agent leg');
+        });
+
+      await this.publishState(transfer, 'failed', 'The customer hung up');
+    }
+
+    // The call's own agent is wrapped up by the manager; anyone else still
+    // on it (a conference, a transfer target) is wrapped up here
+    for (const leg of call.legs ?? []) {
+      if (leg.agentId && leg.agentId !== call.agentId && leg.endTime === call.endTime) {
+        await this.callService.updateAgentStatus(leg.agentId, call.tenantId, 'wrap_up');
+      }
+    }
+  }
+
+  /**
+   * Send the customer straight to the target; the agent's leg is hung up
+   */
+  private async blindTransfer(command: CallTransferControlEvent): Promise<void> {
+    const { transferId, callId, agentId, target, extension } = command.payload;
+    const call = await this.getConnectedCall(command);
+
+    if (!call) {
+      return;
+    }
+
+    try {
+      if (target.type === 'queue') {
+        await this.callService.updateCall(callId, { queueId: target.id });
+        await this.fsCommands.transferLeg(call.freeswitchUuid!, `queue_${target.id}`);
+      } else {
+        // A queued call's bridge would otherwise be taken for a queue answer
+        await this.fsCommands.setVariable(call.freeswitchUuid!, 'nexus_queue_id', '');
+        await this.fsCommands.setVariable(
+          call.freeswitchUuid!,
+          'nexus_transfer_dial',
+          this.dialString(target, extension)
+        );
+        await this.fsCommands.transferLeg(call.freeswitchUuid!, 'nexus_transfer');
+      }
+    } catch (error) {
+      await this.publishCommandState(command, 'failed', 'Could not transfer the call');
+      return;
+    }
+
+    // A queue is not a party; the next agent's leg is opened when they answer
+    if (target.type !== 'queue') {
+      await this.callService.addLeg(callId, {
+        type: 'agent',
+        agentId: target.type === 'agent' ? target.id : undefined,
+        targetType: target.type,
+        target: target.type === 'agent' ? extension : target.id,
+        transferId,
+      });
+    }
+
+    await this.callService.endAgentLeg(callId, agentId, 'transferred');
+    await this.callService.updateAgentStatus(agentId, command.tenantId, 'wrap_up');
+
+    logger.info({ transferId, callId, target }, 'Call blind transferred');
+
+    await this.publishTransferred(call, command);
+    await this.publishCommandState(command, 'completed');
+  }
+
+  /**
+   * A blind transfer's target answered: they now have the call
+   */
+  private async handleBlindAnswer(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const destination = event.raw?.['Other-Leg-Destination-Number'];
+    const call = callId ? await this.callService.getCall(callId) : null;
+
+    const leg = call?.legs?.find(
+      (existing) =>
+        existing.type === 'agent' &&
+        existing.transferId &&
+        !existing.answerTime &&
+        !existing.endTime &&
+        existing.target === destination
+    );
+
+    if (!call || !leg) {
+      return;
+    }
+
+    await this.callService.updateLeg(call.id, leg.id, {
+      uuid: event.raw?.['Other-Leg-Unique-ID'],
+      answerTime: new Date().toISOString(),
+    });
+
+    if (leg.agentId) {
+      await this.callService.updateCall(call.id, { agentId: leg.agentId });
+      await this.callService.updateAgentStatus(leg.agentId, call.tenantId, 'on_call', call.id);
+    }
+
+    logger.info({ callId: call.id, legId: leg.id }, 'Blind transfer answered');
+  }
+
+  /**
+   * Hold the customer and dial the target from the agent's leg
+   */
+  private async startConsult(command: CallTransferControlEvent): Promise<void> {
+    const { transferId, callId, agentId, target, extension } = command.payload;
+
+    if (target.type === 'queue') {
+      await this.publishCommandState(command, 'failed', 'Queues only take blind transfers');
+      return;
+    }
+
+    const call = await this.getConnectedCall(command);
+
+    if (!call) {
+      return;
+    }
+
+    const customerUuid = call.freeswitchUuid!;
+    const agentUuid = await this.fsCommands.getVariable(customerUuid, 'signal_bond');
+
+    if (!agentUuid || agentUuid === '_undef_') {
+      await this.publishCommandState(command, 'failed', 'Call is not connected to an agent');
+      return;
+    }
+
+    const consultUuid = uuidv4();
+    const consultLeg = await this.callService.addLeg(callId, {
+      type: 'consult',
+      uuid: consultUuid,
+      agentId: target.type === 'agent' ? target.id : undefined,
+      targetType: target.type,
+      target: target.type === 'agent' ? extension : target.id,
+      transferId,
+    });
+
+    const transfer: ActiveTransfer = {
+      transferId,
+      tenantId: command.tenantId,
+      callId,
+      agentId,
+      transferType: 'warm',
+      target,
+      customerUuid,
+      agentUuid,
+      consultUuid,
+      consultLegId: consultLeg!.id,
+      answered: false,
+    };
+
+    this.transfers.set(transferId, transfer);
+
+    try {
+      // The agent's leg is parked rather than hung up when the customer
+      // leaves its bridge, and the customer is hung up if whoever they are
+      // bridged to next hangs up
+      await this.fsCommands.setVariable(agentUuid, 'park_after_bridge', 'true');
+      await this.fsCommands.setVariable(agentUuid, 'nexus_transfer_id', transferId);
+      await this.fsCommands.setVariable(
+        agentUuid,
+        'nexus_consult_dial',
+        this.dialString(target, extension, {
+          origination_uuid: consultUuid,
+          // An agent target sees who the call is about
+          ...(target.type === 'agent' && { origination_caller_id_number: call.phoneNumber }),
+        })
+      );
+      await this.fsCommands.setVariable(customerUuid, 'hangup_after_bridge', 'true');
+
+      await this.fsCommands.transferLeg(customerUuid, 'nexus_transfer_hold');
+      await this.fsCommands.transferLeg(agentUuid, 'nexus_consult');
+    } catch (error) {
+      this.transfers.delete(transferId);
+      await this.callService.updateLeg(callId, transfer.consultLegId, {
+        endTime: new Date().toISOString(),
+        endReason: 'failed',
+      });
+      await this.reconnect(transfer);
+      await this.publishState(transfer, 'failed', 'Could not dial the transfer target');
+      return;
+    }
+
+    logger.info({ transferId, callId, target }, 'Consulting transfer target');
+
+    await this.publishState(transfer, 'consulting');
+  }
+
+  /**
+   * Hand the customer to the target and hang up the agent
+   */
+  private async complete(command: CallTransferControlEvent): Promise<void> {
+    const transfer = await this.takeTransfer(command);
+
+    if (!transfer) {
+      return;
+    }
+
+    if (!transfer.answered) {
+      this.transfers.set(transfer.transferId, transfer);
+      await this.publishState(transfer, 'consulting', 'The transfer target has not answered yet');
+      return;
+    }
+
+    await this.fsCommands.bridgeLegs(transfer.customerUuid, transfer.consultUuid);
+    await this.fsCommands.hangup(transfer.agentUuid);
+
+    const now = new Date().toISOString();
+    const call = await this.callService.getCall(transfer.callId);
+
+    await this.callService.endAgentLeg(transfer.callId, transfer.agentId, 'transferred');
+
+    const consultLeg = await this.callService.updateLeg(transfer.callId, transfer.consultLegId, {
+      endTime: now,
+      endReason: 'completed',
+    });
+
+    await this.callService.addLeg(transfer.callId, {
+      type: 'agent',
+      uuid: transfer.consultUuid,
+      agentId: consultLeg?.agentId,
+      targetType: consultLeg?.targetType,
+      target: consultLeg?.target,
+      parentLegId: transfer.consultLegId,
+      transferId: transfer.transferId,
+      answerTime: now,
+    });
+
+    await this.callService.updateAgentStatus(transfer.agentId, transfer.tenantId, 'wrap_up');
+
+    if (transfer.target.type === 'agent') {
+      await this.callService.updateCall(transfer.callId, { agentId: transfer.target.id });
+      await this.callService.updateAgentStatus(
+        transfer.target.id,
+        transfer.tenantId,
+        'on_call',
+        transfer.callId
+      );
+    }
+
+    logger.info({ transferId: transfer.transferId, callId: transfer.callId }, 'Transfer completed');
+
+    if (call) {
+      await this.publishTransferred(call, command);
+    }
+    await this.publishState(transfer, 'completed');
+  }
+
+  /**
+   * Drop the target and put the customer back through to the agent
+   */
+  private async cancel(command: CallTransferControlEvent): Promise<void> {
+    const transfer = await this.takeTransfer(command);
+
+    if (!transfer) {
+      return;
+    }
+
+    // Also stops a target that is still ringing
+    await this.fsCommands.hangup(transfer.consultUuid);
+
+    await this.callService.updateLeg(transfer.callId, transfer.consultLegId, {
+      endTime: new Date().toISOString(),
+      endReason: 'cancelled',
+    });
+
+    await this.reconnect(transfer);
+
+    logger.info({ transferId: transfer.transferId, callId: transfer.callId }, 'Transfer cancelled');
+
+    await this.publishState(transfer, 'cancelled');
+  }
+
+  /**
+   * Move the customer, agent and target into a conference room of the call
+   */
+  private async conference(command: CallTransferControlEvent): Promise<void> {
+    const transfer = await this.takeTransfer(command);
+
+    if (!transfer) {
+      return;
+    }
+
+    if (!transfer.answered) {
+      this.transfers.set(transfer.transferId, transfer);
+      await this.publishState(transfer, 'consulting', 'The transfer target has not answered yet');
+      return;
+    }
+
+    const room = `nexus_conference_${transfer.callId}`;
+
+    // Tags the agent and target so leaving the room closes their leg
+    for (const uuid of [transfer.agentUuid, transfer.consultUuid]) {
+      await this.fsCommands.setVariable(uuid, 'nexus_conference_call', transfer.callId);
+    }
+
+    await this.fsCommands.transferLeg(transfer.customerUuid, room);
+    await this.fsCommands.transferLeg(transfer.consultUuid, room);
+    await this.fsCommands.transferLeg(transfer.agentUuid, room);
+
+    const now = new Date().toISOString();
+    const call = await this.callService.getCall(transfer.callId);
+    const agentLeg = this.callService.findOpenLeg(call?.legs ?? [], transfer.agentId);
+
+    if (agentLeg) {
+      await this.callService.updateLeg(transfer.callId, agentLeg.id, { uuid: transfer.agentUuid });
+    }
+
+    const consultLeg = await this.callService.updateLeg(transfer.callId, transfer.consultLegId, {
+      endTime: now,
+      endReason: 'conferenced',
+    });
+
+    await this.callService.addLeg(transfer.callId, {
+      type: 'conference',
+      uuid: transfer.consultUuid,
+      agentId: consultLeg?.agentId,
+      targetType: consultLeg?.targetType,
+      target: consultLeg?.target,
+      parentLegId: transfer.consultLegId,
+      transferId: transfer.transferId,
+      answerTime: now,
+    });
+
+    if (transfer.target.type === 'agent') {
+      await this.callService.updateAgentStatus(
+        transfer.target.id,
+        transfer.tenantId,
+        'on_call',
+        transfer.callId
+      );
+    }
+
+    logger.info({ transferId: transfer.transferId, callId: transfer.callId }, 'Call conferenced');
+
+    await this.publishState(transfer, 'conferenced');
+  }
+
+  /**
+   * Bridge the customer back to the agent after a consult
+   */
+  private async reconnect(transfer: ActiveTransfer): Promise<void> {
+    try {
+      await this.fsCommands.setVariable(transfer.agentUuid, 'park_after_bridge', 'false');
+      await this.fsCommands.bridgeLegs(transfer.customerUuid, transfer.agentUuid);
+    } catch (error) {
+      logger.error({ error, transferId: transfer.transferId }, 'Failed to reconnect customer');
+    }
+  }
+
+  /**
+   * A live, answered call of the requesting agent, or null once the failure
+   * is reported
+   */
+  private async getConnectedCall(command: CallTransferControlEvent): Promise<CallState | null> {
+    const call = await this.callService.getCall(command.payload.callId);
+
+    if (!call || call.tenantId !== command.tenantId) {
+      await this.publishCommandState(command, 'failed', 'Call not found');
+      return null;
+    }
+
+    if (!call.freeswitchUuid || !call.answerTime || call.endTime) {
+      await this.publishCommandState(command, 'failed', 'Call is not connected');
+      return null;
+    }
+
+    if (call.agentId !== command.payload.agentId) {
+      await this.publishCommandState(command, 'failed', 'Call is not connected to this agent');
+      return null;
+    }
+
+    return call;
+  }
+
+  /**
+   * Remove and return the transfer a complete, cancel or conference
+   * request is for; removing it first keeps the bridge events this causes
+   * from being taken for the target hanging up
+   */
+  private async takeTransfer(command: CallTransferControlEvent): Promise<ActiveTransfer | null> {
+    const transfer = this.transfers.get(command.payload.transferId);
+
+    if (!transfer) {
+      await this.publishCommandState(command, 'failed', 'Transfer is no longer in progress');
+      return null;
+    }
+
+    this.transfers.delete(transfer.transferId);
+
+    return transfer;
+  }
+
+  private getTransfer(event: CallEvent): ActiveTransfer | undefined {
+    const transferId = event.raw?.variable_nexus_transfer_id;
+    return transferId ? this.transfers.get(transferId) : undefined;
+  }
+
+  /**
+   * What to bridge to for an agent or external target
+   */
+  private dialString(
+    target: TransferTarget,
+    extension?: string,
+    variables: Record<string, string> = {}
+  ): string {
+    const vars = Object.entries(variables)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',');
+    const endpoint =
+      target.type === 'agent' ? `user/${extension}` : `sofia/external/${target.id}`;
+
+    return vars ? `[${vars}]${endpoint}` : endpoint;
+  }
+
+  private async publishTransferred(
+    call: CallState,
+    command: CallTransferControlEvent
+  ): Promise<void> {
+    const { target, transferType, agentId } = command.payload;
+
+    await this.publishEvent<CallTransferredEvent>(TOPICS.CALLS_TRANSFERRED, {
+      eventId: uuidv4(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.transferred',
+      payload: {
+        callId: call.id,
+        fromAgentId: agentId,
+        toAgentId: target.type === 'agent' ? target.id : undefined,
+        toQueueId: target.type === 'queue' ? target.id : undefined,
+        toExternalNumber: target.type === 'external' ? target.id : undefined,
+        transferType,
+        transferTime: new Date().toISOString(),
+        phoneNumber: call.phoneNumber,
+      },
+    });
+  }
+
+  private async publishCommandState(
+    command: CallTransferControlEvent,
+    status: TransferStatus,
+    error?: string
+  ): Promise<void> {
+    const { transferId, callId, agentId, transferType, target } = command.payload;
+
+    await this.publishState(
+      { transferId, tenantId: command.tenantId, callId, agentId, transferType, target },
+      status,
+      error
+    );
+  }
+
+  private async publishState(
+    transfer: Pick<
+      ActiveTransfer,
+      'transferId' | 'tenantId' | 'callId' | 'agentId' | 'transferType' | 'target'
+    >,
+    status: TransferStatus,
+    error?: string
+  ): Promise<void> {
+    await this.publishEvent<CallTransferStateEvent>(TOPICS.CALLS_TRANSFER_STATE, {
+      eventId: uuidv4(),
+      tenantId: transfer.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.transfer-state',
+      payload: {
+        transferId: transfer.transferId,
+        callId: transfer.callId,
+        agentId: transfer.agentId,
+        transferType: transfer.transferType,
+        target: transfer.target,
+        status,
+        error,
+      },
+    });
+  }
+}
@@ -0,0 +1,557 @@
+import pino from 'pino';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@nexusdialer/database';
+import {
+  callbackSchedules,
+  leads,
+  leadLists,
+  agentProfiles,
+  type CallbackSchedule,
+} from '@nexusdialer/database/schema';
+import { eq, and, lte, lt, asc } from 'drizzle-orm';
+import { TOPICS } from '@nexusdialer/events';
+import type {
+  CallbackReminderEvent,
+  CallbackStatusChangedEvent,
+  CallbackStatus,
+} from '@nexusdialer/events';
+import { CallService, type CallState } from './call-service';
+import { ComplianceGate } from './compliance-gate';
+import { TrunkRouter } from './trunk-router';
+import { CallerIdSelector } from './caller-id-selector';
+
+const logger = pino({ name: 'callback-scheduler' });
+
+const POLL_INTERVAL = 10000;
+const BATCH_SIZE = 50;
+
+// Agents are reminded this long before a callback is due
+const REMINDER_LEAD_MS = 5 * 60 * 1000;
+
+// Agent-specific callbacks wait this long for their agent before any agent may take them
+const AGENT_GRACE_MS = 5 * 60 * 1000;
+
+// Callbacks nobody could take within this long of their time are missed
+const MISSED_AFTER_MS = 60 * 60 * 1000;
+
+// Rows left dialing this long were lost with an engine instance
+const STALE_DIALING_MS = 4 * 60 * 60 * 1000;
+
+// Seconds the agent sees the callback before it is dialed
+const PREVIEW_TIME = 15;
+const RING_TIMEOUT = 30;
+
+interface CallbackTarget {
+  phoneNumber: string;
+  leadName?: string;
+  campaignId?: string;
+  timezone?: string | null;
+  customFields?: Record<string, unknown> | null;
+}
+
+type PublishEvent = <T>(topic: string, event: T) => Promise<void>;
+
+/**
+ * Dials scheduled callbacks set from the disposition panel. Agents are
+ * reminded shortly before a callback is due; once due, the callback is held
+ * for its agent (or any agent after a grace period), shown to them as a
+ * preview and then dialed. Virtual hold callbacks belong to the queue service.
+ */
+export class CallbackScheduler {
+  private redis: Redis;
+  private pollInterval?: NodeJS.Timeout;
+  private previewTimers: Map<string, NodeJS.Timeout> = new Map();
+  private isPolling = false;
+
+  constructor(
+    redisUrl: string,
+    private callService: CallService,
+    private complianceGate: ComplianceGate,
+    private trunkRouter: TrunkRouter,
+    private callerIdSelector: CallerIdSelector,
+    private publishEvent: PublishEvent
+  ) {
+    this.redis = new Redis(redisUrl);
+
+    this.redis.on('error', (error) => {
+      logger.error({ error }, 'Redis connection error');
+    });
+  }
+
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.poll().catch((error) => {
+        logger.error({ error }, 'Error polling callbacks');
+      });
+    }, POLL_INTERVAL);
+
+    logger.info('Callback scheduler started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+
+    // Previews not yet dialed go back to their agent on the next poll
+    for (const [callbackId, timer] of this.previewTimers) {
+      clearTimeout(timer);
+      await db
+        .update(callbackSchedules)
+        .set({ status: 'pending', updatedAt: new Date() })
+        .where(and(eq(callbackSchedules.id, callbackId), eq(callbackSchedules.status, 'dialing')));
+    }
+
+    this.previewTimers.clear();
+    await this.redis.quit();
+
+    logger.info('Callback scheduler stopped');
+  }
+
+  /**
+   * One pass over callbacks that are due or about to be
+   */
+  private async poll(): Promise<void> {
+    // A slow pass must not overlap the next one
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const now = Date.now();
+
+      const upcoming = await db.query.callbackSchedules.findMany({
+        where: and(
+          eq(callbackSchedules.source, 'manual'),
+          eq(callbackSchedules.status, 'pending'),
+          lte(callbackSchedules.scheduledAt, new Date(now + REMINDER_LEAD_MS))
+        ),
+        orderBy: [asc(callbackSchedules.scheduledAt)],
+        limit: BATCH_SIZE,
+      });
+
+      for (const callback of upcoming) {
+        try {
+          if (callback.scheduledAt.getTime() > now) {
+            await this.remind(callback);
+          } else if (now - callback.scheduledAt.getTime() > MISSED_AFTER_MS) {
+            await this.setStatus(callback, 'missed', { reason: 'No agent took the callback' });
+          } else {
+            await this.assign(callback);
+          }
+        } catch (error) {
+          logger.error({ error, callbackId: callback.id }, 'Error processing callback');
+        }
+      }
+
+      await this.sweepStaleDialing();
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Tell the agent a callback is coming up, once
+   */
+  private async remind(callback: CallbackSchedule): Promise<void> {
+    if (!callback.agentId) {
+      return;
+    }
+
+    const first = await this.redis.set(
+      `callback:reminded:${callback.id}`,
+      '1',
+      'PX',
+      REMINDER_LEAD_MS * 2,
+      'NX'
+    );
+
+    if (first !== 'OK') {
+      return;
+    }
+
+    const target = await this.getTarget(callback);
+
+    await this.publishEvent<CallbackReminderEvent>(TOPICS.CALLBACKS_REMINDER, {
+      eventId: uuidv4(),
+      tenantId: callback.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'callbacks.reminder',
+      payload: {
+        callbackId: callback.id,
+        agentId: callback.agentId,
+        leadId: callback.leadId ?? undefined,
+        leadName: target?.leadName,
+        phoneNumber: target?.phoneNumber ?? '',
+        scheduledAt: callback.scheduledAt.toISOString(),
+        notes: callback.notes ?? undefined,
+      },
+    });
+  }
+
+  /**
+   * Hold an agent for a due callback and show it to them before dialing
+   */
+  private async assign(callback: CallbackSchedule): Promise<void> {
+    for (const agentId of await this.getCandidateAgents(callback)) {
+      const profile = await db.query.agentProfiles.findFirst({
+        where: and(
+          eq(agentProfiles.tenantId, callback.tenantId),
+          eq(agentProfiles.userId, agentId)
+        ),
+      });
+
+      if (!profile?.extension) {
+        continue;
+      }
+
+      const reserved = await this.callService.reserveAgent(
+        agentId,
+        callback.id,
+        PREVIEW_TIME + RING_TIMEOUT
+      );
+
+      if (!reserved) {
+        continue;
+      }
+
+      // Another engine instance may have claimed it in the meantime
+      const [claimed] = await db
+        .update(callbackSchedules)
+        .set({ status: 'dialing', agentId, updatedAt: new Date() })
+        .where(and(eq(callbackSchedules.id, callback.id), eq(callbackSchedules.status, 'pending')))
+        .returning();
+
+      if (!claimed) {
+        await this.callService.releaseAgent(agentId, callback.id);
+        return;
+      }
+
+      await this.preview(callback, claimed, profile.extension);
+      return;
+    }
+  }
+
+  /**
+   * Available agents who may take a callback, best first: its own agent,
+   * then (for any-agent callbacks, or once the grace period is over) the
+   * agent who has been idle longest
+   */
+  private async getCandidateAgents(callback: CallbackSchedule): Promise<string[]> {
+    const available = await this.callService.getAvailableAgents(callback.tenantId);
+    const owner = available.find((agent) => agent.agentId === callback.agentId);
+
+    if (owner) {
+      return [owner.agentId];
+    }
+
+    const overdue = Date.now() - callback.scheduledAt.getTime();
+
+    const heldForOwner =
+      callback.callbackType === 'agent_specific' && callback.agentId && overdue < AGENT_GRACE_MS;
+
+    if (heldForOwner) {
+      return [];
+    }
+
+    return available
+      .sort(
+        (a, b) => new Date(a.lastStateChange).getTime() - new Date(b.lastStateChange).getTime()
+      )
+      .map((agent) => agent.agentId);
+  }
+
+  private async preview(
+    original: CallbackSchedule,
+    callback: CallbackSchedule,
+    extension: string
+  ): Promise<void> {
+    const agentId = callback.agentId!;
+    const target = await this.getTarget(callback);
+
+    if (!target) {
+      await this.callService.releaseAgent(agentId, callback.id);
+      await this.setStatus(callback, 'failed', { reason: 'No number to call back' });
+      return;
+    }
+
+    // Only the legal checks apply; the customer asked for this call
+    if (target.campaignId) {
+      const decision = await this.complianceGate.screen(target.campaignId, {
+        id: callback.leadId ?? undefined,
+        phoneNumber: target.phoneNumber,
+        timezone: target.timezone,
+        customFields: target.customFields,
+      });
+
+      if (!decision.allowed) {
+        await this.callService.releaseAgent(agentId, callback.id);
+
+        if (decision.retryAt) {
+          await this.reschedule(
+            { ...callback, agentId: original.agentId },
+            decision.retryAt,
+            decision.detail
+          );
+        } else {
+          await this.setStatus(callback, 'failed', { reason: decision.detail });
+        }
+
+        return;
+      }
+    }
+
+    const dialAt = new Date(Date.now() + PREVIEW_TIME * 1000);
+
+    await this.publishStatus(callback, 'dialing', 'pending', {
+      phoneNumber: target.phoneNumber,
+      leadName: target.leadName,
+      dialAt: dialAt.toISOString(),
+    });
+
+    logger.info(
+      { callbackId: callback.id, agentId, scheduledAt: callback.scheduledAt },
+      'Callback assigned, previewing'
+    );
+
+    this.previewTimers.set(
+      callback.id,
+      setTimeout(() => {
+        this.previewTimers.delete(callback.id);
+        this.dial(original, callback, extension, target).catch((error) => {
+          logger.error({ error, callbackId: callback.id }, 'Error dialing callback');
+        });
+      }, PREVIEW_TIME * 1000)
+    );
+  }
+
+  /**
+   * Call the customer; they are bridged to the agent through
+   * queue_agent_<ext> once they answer
+   */
+  private async dial(
+    original: CallbackSchedule,
+    callback: CallbackSchedule,
+    extension: string,
+    target: CallbackTarget
+  ): Promise<void> {
+    const agentId = callback.agentId!;
+    const agent = await this.callService.getAgentStatus(agentId);
+
+    // The agent went on break or took another call during the preview
+    if (agent?.state !== 'available') {
+      await this.callService.releaseAgent(agentId, callback.id);
+      await db
+        .update(callbackSchedules)
+        .set({ status: 'pending', agentId: original.agentId, updatedAt: new Date() })
+        .where(and(eq(callbackSchedules.id, callback.id), eq(callbackSchedules.status, 'dialing')));
+      await this.publishStatus(callback, 'pending', 'dialing', {
+        reason: 'Agent became unavailable',
+      });
+      return;
+    }
+
+    const callerId = target.campaignId
+      ? await this.callerIdSelector.select(target.campaignId, target.phoneNumber)
+      : null;
+
+    const call = await this.callService.createCall({
+      tenantId: callback.tenantId,
+      leadId: callback.leadId ?? undefined,
+      phoneNumber: target.phoneNumber,
+      callerId: callerId?.phoneNumber,
+      direction: 'outbound',
+      metadata: { dialMode: 'callback', callbackId: callback.id, agentId },
+    });
+
+    await this.callService.updateCall(call.id, { agentId });
+    await this.callService.updateAgentStatus(agentId, callback.tenantId, 'on_call', call.id);
+
+    await this.trunkRouter.originate(call, {
+      phoneNumber: target.phoneNumber,
+      callerId: callerId?.phoneNumber,
+      timeout: RING_TIMEOUT,
+      destinationExtension: `queue_agent_${extension} XML default`,
+      variables: {
+        nexus_call_id: call.id,
+        nexus_tenant_id: callback.tenantId,
+        nexus_agent_id: agentId,
+        nexus_callback_id: callback.id,
+        ...(callback.leadId ? { nexus_lead_id: callback.leadId } : {}),
+      },
+    });
+
+    if (target.campaignId && callback.leadId) {
+      await this.complianceGate.recordAttempt(target.campaignId, callback.leadId);
+    }
+
+    logger.info({ callId: call.id, callbackId: callback.id, agentId }, 'Dialing callback');
+  }
+
+  /**
+   * Settle a scheduled callback once its call hangs up
+   */
+  async handleCallEnded(call: CallState): Promise<void> {
+    if (call.metadata?.dialMode !== 'callback') {
+      return;
+    }
+
+    const callback = await db.query.callbackSchedules.findFirst({
+      where: eq(callbackSchedules.id, call.metadata.callbackId),
+    });
+
+    if (call.agentId) {
+      await this.callService.releaseAgent(call.agentId, call.metadata.callbackId);
+    }
+
+    if (!callback || callback.status !== 'dialing') {
+      return;
+    }
+
+    if (call.answerTime) {
+      await this.setStatus(callback, 'completed', { callId: call.id });
+    } else {
+      await this.setStatus(callback, 'missed', { callId: call.id, reason: call.status });
+    }
+  }
+
+  /**
+   * Move a callback to a new time. The old row is kept, marked rescheduled.
+   */
+  private async reschedule(
+    callback: CallbackSchedule,
+    scheduledAt: Date,
+    reason: string
+  ): Promise<void> {
+    const [next] = await db
+      .insert(callbackSchedules)
+      .values({
+        tenantId: callback.tenantId,
+        leadId: callback.leadId,
+        callId: callback.callId,
+        agentId: callback.agentId,
+        queueId: callback.queueId,
+        phoneNumber: callback.phoneNumber,
+        scheduledAt,
+        callbackType: callback.callbackType,
+        source: callback.source,
+        notes: callback.notes,
+      })
+      .returning();
+
+    await this.setStatus(callback, 'rescheduled', {
+      reason,
+      rescheduledTo: { callbackId: next.id, scheduledAt: scheduledAt.toISOString() },
+    });
+  }
+
+  /**
+   * Dialing rows whose engine instance went away before the call ended
+   */
+  private async sweepStaleDialing(): Promise<void> {
+    const stale = await db.query.callbackSchedules.findMany({
+      where: and(
+        eq(callbackSchedules.source, 'manual'),
+        eq(callbackSchedules.status, 'dialing'),
+        lt(callbackSchedules.updatedAt, new Date(Date.now() - STALE_DIALING_MS))
+      ),
+      limit: BATCH_SIZE,
+    });
+
+    for (const callback of stale) {
+      await this.setStatus(callback, 'missed', { reason: 'Callback call was lost' });
+    }
+  }
+
+  private async setStatus(
+    callback: CallbackSchedule,
+    status: CallbackStatus,
+    details: Pick<
+      CallbackStatusChangedEvent['payload'],
+      'callId' | 'reason' | 'rescheduledTo'
+    > = {}
+  ): Promise<void> {
+    const now = new Date();
+
+    const [updated] = await db
+      .update(callbackSchedules)
+      .set({ status, completedAt: status === 'completed' ? now : null, updatedAt: now })
+      .where(
+        and(eq(callbackSchedules.id, callback.id), eq(callbackSchedules.status, callback.status))
+      )
+      .returning();
+
+    if (!updated) {
+      return;
+    }
+
+    logger.info({ callbackId: callback.id, status, reason: details.reason }, 'Callback updated');
+
+    await this.publishStatus(callback, status, callback.status as CallbackStatus, details);
+  }
+
+  private async publishStatus(
+    callback: CallbackSchedule,
+    status: CallbackStatus,
+    previousStatus: CallbackStatus,
+    details: Omit<
+      CallbackStatusChangedEvent['payload'],
+      'callbackId' | 'agentId' | 'status' | 'previousStatus'
+    > = {}
+  ): Promise<void> {
+    await this.publishEvent<CallbackStatusChangedEvent>(TOPICS.CALLBACKS_STATUS_CHANGED, {
+      eventId: uuidv4(),
+      tenantId: callback.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'callbacks.status-changed',
+      payload: {
+        callbackId: callback.id,
+        agentId: callback.agentId ?? undefined,
+        status,
+        previousStatus,
+        ...details,
+      },
+    });
+  }
+
+  /**
+   * Number to call and who is being called. Lead callbacks use the lead's
+   * number and the campaign of its list.
+   */
+  private async getTarget(callback: CallbackSchedule): Promise<CallbackTarget | null> {
+    if (!callback.leadId) {
+      return callback.phoneNumber ? { phoneNumber: callback.phoneNumber } : null;
+    }
+
+    const [row] = await db
+      .select({ lead: leads, campaignId: leadLists.campaignId })
+      .from(leads)
+      .innerJoin(leadLists, eq(leads.listId, leadLists.id))
+      .where(eq(leads.id, callback.leadId))
+      .limit(1);
+
+    if (!row) {
+      return callback.phoneNumber ? { phoneNumber: callback.phoneNumber } : null;
+    }
+
+    const leadName = [row.lead.firstName, row.lead.lastName].filter(Boolean).join(' ');
+
+    return {
+      phoneNumber: callback.phoneNumber || row.lead.phoneNumber,
+      leadName: leadName || undefined,
+      campaignId: row.campaignId ?? undefined,
+      timezone: row.lead.timezone,
+      customFields: row.lead.customFields as Record<string, unknown> | null,
+    };
+  }
+}
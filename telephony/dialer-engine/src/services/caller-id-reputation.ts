@@ -0,0 +1,378 @@
+import { hostname } from 'os';
+import pino from 'pino';
+import Redis from 'ioredis';
+import { db } from '@nexusdialer/database';
+import {
+  auditLogs,
+  callerIdPools,
+  callerIdReputation,
+  callerIds,
+  calls,
+} from '@nexusdialer/database/schema';
+import { eq, and, gte, lt, lte, sql, count } from 'drizzle-orm';
+import type { AttestationLevel } from './attestation';
+
+const logger = pino({ name: 'caller-id-reputation' });
+
+const CHECK_INTERVAL = 15 * 60 * 1000;
+const LOCK_KEY = 'callerid:reputation:lock';
+// Outlives any check, so a crashed instance cannot hold the lock for long
+const LOCK_TTL = 600;
+
+// Answered calls the called party hangs up on this quickly count as short;
+// a rising share of them is a sign the number is being shown as spam
+const SHORT_CALL_SECONDS = 6;
+const MAX_SHORT_CALL_RATIO = 30; // percent of answered calls
+const MIN_ANSWERED_FOR_SHORT_CALLS = 10;
+
+// A number is also spam-likely when its answer rate falls below this share
+// of its own rate over the previous days
+const BASELINE_DAYS = 7;
+const ANSWER_RATE_DROP = 0.5;
+
+// For numbers outside any pool
+const DEFAULT_MIN_CALLS = 50;
+const DEFAULT_WINDOW_HOURS = 24;
+const DEFAULT_QUARANTINE_HOURS = 72;
+
+const ATTESTATION_LEVELS: AttestationLevel[] = ['A', 'B', 'C'];
+
+type QuarantineReason = 'low_answer_rate' | 'spam_likely';
+
+// Same test as the answer rates shown per caller ID: a person, not a machine
+const answeredByPerson = sql`${calls.answerTime} IS NOT NULL AND ${calls.status} <> 'voicemail'`;
+
+/**
+ * Tracks each caller ID's reputation: a daily history of its answer rate,
+ * short-call ratio and STIR/SHAKEN attestations, and whether its trends
+ * suggest carriers are labeling it as spam. Pool numbers that look like
+ * spam, or that fall under the pool's minimum answer rate, are quarantined
+ * and come back into rotation when the quarantine ends.
+ */
+export class CallerIdReputation {
+  private redis: Redis;
+  private checkInterval?: NodeJS.Timeout;
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl);
+
+    this.redis.on('error', (error) => {
+      logger.error({ error }, 'Redis connection error');
+    });
+  }
+
+  start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.check().catch((error) => {
+        logger.error({ error }, 'Error checking caller ID reputation');
+      });
+    }, CHECK_INTERVAL);
+
+    logger.info('Caller ID reputation monitor started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = undefined;
+    }
+
+    await this.redis.quit();
+  }
+
+  /**
+   * Every dialer instance runs on its own timer; the lock makes sure only
+   * one of them checks at a time, so each quarantine is recorded once.
+   */
+  private async check(): Promise<void> {
+    const owner = `${hostname()}:${process.pid}`;
+    const locked = await this.redis.set(LOCK_KEY, owner, 'EX', LOCK_TTL, 'NX');
+
+    if (!locked) {
+      return;
+    }
+
+    try {
+      await this.releaseExpired();
+
+      const day = new Date().toISOString().slice(0, 10);
+
+      await this.recordDay(day);
+      await this.evaluate(day);
+    } finally {
+      if ((await this.redis.get(LOCK_KEY)) === owner) {
+        await this.redis.del(LOCK_KEY);
+      }
+    }
+  }
+
+  private async releaseExpired(): Promise<void> {
+    const now = new Date();
+
+    const released = await db
+      .update(callerIds)
+      .set({
+        status: 'active',
+        quarantinedUntil: null,
+        quarantineReason: null,
+        spamLikely: false,
+        updatedAt: now,
+      })
+      .where(and(eq(callerIds.status, 'quarantined'), lte(callerIds.quarantinedUntil, now)))
+      .returning({ id: callerIds.id });
+
+    if (released.length > 0) {
+      logger.info({ count: released.length }, 'Released caller IDs from quarantine');
+    }
+  }
+
+  /**
+   * Write the day's metrics so far into each number's history
+   */
+  private async recordDay(day: string): Promise<void> {
+    const rows = await db
+      .select({
+        tenantId: callerIds.tenantId,
+        callerIdId: callerIds.id,
+        attempts: count(),
+        answered: sql<number>`COUNT(*) FILTER (WHERE ${answeredByPerson})`,
+        shortCalls: sql<number>`COUNT(*) FILTER (WHERE ${answeredByPerson}
+          AND ${calls.talkDuration} < ${SHORT_CALL_SECONDS})`,
+        attestedA: sql<number>`COUNT(*) FILTER (WHERE ${calls.metadata}->>'attestation' = 'A')`,
+        attestedB: sql<number>`COUNT(*) FILTER (WHERE ${calls.metadata}->>'attestation' = 'B')`,
+        attestedC: sql<number>`COUNT(*) FILTER (WHERE ${calls.metadata}->>'attestation' = 'C')`,
+      })
+      .from(callerIds)
+      .innerJoin(
+        calls,
+        and(
+          eq(calls.tenantId, callerIds.tenantId),
+          eq(calls.callerId, callerIds.phoneNumber),
+          eq(calls.direction, 'outbound'),
+          gte(calls.startTime, new Date(`${day}T00:00:00.000Z`))
+        )
+      )
+      .groupBy(callerIds.tenantId, callerIds.id);
+
+    for (const row of rows) {
+      const answered = Number(row.answered);
+      const shortCalls = Number(row.shortCalls);
+      const attested = [row.attestedA, row.attestedB, row.attestedC].map(Number);
+      const attestations: Partial<Record<AttestationLevel, number>> = {};
+      ATTESTATION_LEVELS.forEach((level, index) => {
+        if (attested[index] > 0) {
+          attestations[level] = attested[index];
+        }
+      });
+
+      const metrics = {
+        attempts: row.attempts,
+        answered,
+        shortCalls,
+        answerRate: String(toPercent(answered, row.attempts)),
+        shortCallRatio: String(toPercent(shortCalls, answered)),
+        attestations,
+        updatedAt: new Date(),
+      };
+
+      await db
+        .insert(callerIdReputation)
+        .values({ tenantId: row.tenantId, callerIdId: row.callerIdId, date: day, ...metrics })
+        .onConflictDoUpdate({
+          target: [callerIdReputation.callerIdId, callerIdReputation.date],
+          set: metrics,
+        });
+
+      const mostAttested = Math.max(...attested);
+
+      if (mostAttested > 0) {
+        await db
+          .update(callerIds)
+          .set({ attestation: ATTESTATION_LEVELS[attested.indexOf(mostAttested)] })
+          .where(eq(callerIds.id, row.callerIdId));
+      }
+    }
+  }
+
+  /**
+   * Flag numbers whose recent calls look like spam labeling, and quarantine
+   * pool numbers that look like spam or are answered too rarely
+   */
+  private async evaluate(day: string): Promise<void> {
+    // Calls from before the number was last changed, e.g. released from
+    // quarantine, do not count against it
+    const rows = await db
+      .select({
+        id: callerIds.id,
+        tenantId: callerIds.tenantId,
+        phoneNumber: callerIds.phoneNumber,
+        spamLikely: callerIds.spamLikely,
+        poolId: callerIdPools.id,
+        minAnswerRate: callerIdPools.minAnswerRate,
+        minCallsForQuarantine: callerIdPools.minCallsForQuarantine,
+        quarantineHours: callerIdPools.quarantineHours,
+        attempts: count(),
+        answered: sql<number>`COUNT(*) FILTER (WHERE ${answeredByPerson})`,
+        shortCalls: sql<number>`COUNT(*) FILTER (WHERE ${answeredByPerson}
+          AND ${calls.talkDuration} < ${SHORT_CALL_SECONDS})`,
+      })
+      .from(callerIds)
+      .leftJoin(callerIdPools, eq(callerIdPools.id, callerIds.poolId))
+      .innerJoin(
+        calls,
+        and(
+          eq(calls.tenantId, callerIds.tenantId),
+          eq(calls.callerId, callerIds.phoneNumber),
+          eq(calls.direction, 'outbound'),
+          sql`${calls.startTime} >= GREATEST(
+            NOW() - make_interval(hours => COALESCE(${callerIdPools.answerRateWindowHours},
+              ${DEFAULT_WINDOW_HOURS})),
+            ${callerIds.updatedAt}
+          )`
+        )
+      )
+      .where(eq(callerIds.status, 'active'))
+      .groupBy(callerIds.id, callerIdPools.id);
+
+    const baselines = await this.getBaselines(day);
+
+    for (const row of rows) {
+      const minCalls = row.minCallsForQuarantine ?? DEFAULT_MIN_CALLS;
+
+      if (row.attempts < minCalls) {
+        continue;
+      }
+
+      const answered = Number(row.answered);
+      const answerRate = toPercent(answered, row.attempts);
+      const shortCallRatio = toPercent(Number(row.shortCalls), answered);
+
+      const baseline = baselines.get(row.id);
+      const baselineRate =
+        baseline && baseline.attempts >= minCalls
+          ? toPercent(baseline.answered, baseline.attempts)
+          : null;
+
+      const spamLikely =
+        (baselineRate !== null && answerRate < baselineRate * ANSWER_RATE_DROP) ||
+        (answered >= MIN_ANSWERED_FOR_SHORT_CALLS && shortCallRatio >= MAX_SHORT_CALL_RATIO);
+
+      if (spamLikely !== row.spamLikely) {
+        await db.update(callerIds).set({ spamLikely }).where(eq(callerIds.id, row.id));
+        await db
+          .update(callerIdReputation)
+          .set({ spamLikely })
+          .where(and(eq(callerIdReputation.callerIdId, row.id), eq(callerIdReputation.date, day)));
+
+        logger.warn(
+          { callerIdId: row.id, answerRate, baselineRate, shortCallRatio, spamLikely },
+          spamLikely ? 'Caller ID looks spam-labeled' : 'Caller ID no longer looks spam-labeled'
+        );
+      }
+
+      // Only pool numbers rotate, so only they can be taken out of rotation
+      if (!row.poolId) {
+        continue;
+      }
+
+      const minAnswerRate = row.minAnswerRate === null ? null : Number(row.minAnswerRate);
+      const reason: QuarantineReason | null = spamLikely
+        ? 'spam_likely'
+        : minAnswerRate !== null && answerRate < minAnswerRate
+          ? 'low_answer_rate'
+          : null;
+
+      if (reason) {
+        await this.quarantine(row, reason, row.quarantineHours ?? DEFAULT_QUARANTINE_HOURS, {
+          attempts: row.attempts,
+          answered,
+          answerRate,
+          baselineAnswerRate: baselineRate,
+          minAnswerRate,
+          shortCallRatio,
+        });
+      }
+    }
+  }
+
+  /**
+   * Attempts and person-answered calls per number over the days before today
+   */
+  private async getBaselines(
+    day: string
+  ): Promise<Map<string, { attempts: number; answered: number }>> {
+    const from = new Date(`${day}T00:00:00.000Z`);
+    from.setUTCDate(from.getUTCDate() - BASELINE_DAYS);
+
+    const rows = await db
+      .select({
+        callerIdId: callerIdReputation.callerIdId,
+        attempts: sql<number>`SUM(${callerIdReputation.attempts})`,
+        answered: sql<number>`SUM(${callerIdReputation.answered})`,
+      })
+      .from(callerIdReputation)
+      .where(
+        and(
+          gte(callerIdReputation.date, from.toISOString().slice(0, 10)),
+          lt(callerIdReputation.date, day)
+        )
+      )
+      .groupBy(callerIdReputation.callerIdId);
+
+    const baselines = new Map<string, { attempts: number; answered: number }>();
+
+    for (const row of rows) {
+      baselines.set(row.callerIdId, {
+        attempts: Number(row.attempts),
+        answered: Number(row.answered),
+      });
+    }
+
+    return baselines;
+  }
+
+  private async quarantine(
+    callerId: { id: string; tenantId: string; phoneNumber: string; poolId: string | null },
+    reason: QuarantineReason,
+    hours: number,
+    metrics: Record<string, number | null>
+  ): Promise<void> {
+    const quarantinedUntil = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const [quarantined] = await db
+      .update(callerIds)
+      .set({ status: 'quarantined', quarantinedUntil, quarantineReason: reason })
+      .where(and(eq(callerIds.id, callerId.id), eq(callerIds.status, 'active')))
+      .returning({ id: callerIds.id });
+
+    // Already taken out of rotation
+    if (!quarantined) {
+      return;
+    }
+
+    await db.insert(auditLogs).values({
+      tenantId: callerId.tenantId,
+      actorType: 'system',
+      action: 'caller_id.quarantine',
+      resourceType: 'caller_id',
+      resourceId: callerId.id,
+      details: {
+        phoneNumber: callerId.phoneNumber,
+        poolId: callerId.poolId,
+        reason,
+        ...metrics,
+        quarantinedUntil: quarantinedUntil.toISOString(),
+      },
+    });
+
+    logger.warn({ callerIdId: callerId.id, reason, ...metrics }, 'Caller ID quarantined');
+  }
+}
+
+function toPercent(part: number, whole: number): number {
+  return whole ? Math.round((part / whole) * 10000) / 100 : 0;
+}
@@ -0,0 +1,226 @@
+import pino from 'pino';
+import Redis from 'ioredis';
+import { db } from '@nexusdialer/database';
+import {
+  callerIdPools,
+  callerIds,
+  campaigns,
+  type CallerId,
+  type CallerIdPool,
+} from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import { getAreaCode, getUSStateForPhoneNumber } from '@nexusdialer/utils';
+
+const logger = pino({ name: 'caller-id-selector' });
+
+const CAMPAIGN_CACHE_TTL = 30000;
+
+// Shared with the API gateway, which shows each number's calls today
+const USAGE_KEY_PREFIX = 'callerid:usage:';
+
+export interface SelectedCallerId {
+  id: string;
+  phoneNumber: string;
+  // area_code/state: local presence match; rotation: any pool number;
+  // fixed: the campaign's single caller ID
+  match: 'area_code' | 'state' | 'rotation' | 'fixed';
+  // The daily usage counter holding the number's slot; null for a fixed caller ID
+  usageKey: string | null;
+}
+
+interface CampaignCallerIds {
+  pool: CallerIdPool | null;
+  numbers: CallerId[]; // the pool's active numbers
+  fixed: CallerId | null;
+  loadedAt: number;
+}
+
+/**
+ * Picks the caller ID for each outbound call from its campaign's pool.
+ * With local presence on, a number from the lead's area code is preferred,
+ * then one from the lead's state, then any. Within each, the number used
+ * least today goes first and numbers at the pool's daily cap are skipped.
+ * Quarantined numbers are left out until CallerIdReputation releases them.
+ * A selected number's slot is held while the call is placed and given back
+ * with release() if it cannot be, so only calls that went out count.
+ */
+export class CallerIdSelector {
+  private redis: Redis;
+  private campaignCache: Map<string, CampaignCallerIds> = new Map();
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl);
+
+    this.redis.on('error', (error) => {
+      logger.error({ error }, 'Redis connection error');
+    });
+  }
+
+  async stop(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  /**
+   * Choose the caller ID to show the called number, holding a slot under
+   * the number's daily cap. Null when the campaign has none to offer.
+   */
+  async select(campaignId: string, phoneNumber: string): Promise<SelectedCallerId | null> {
+    const { pool, numbers, fixed } = await this.getCampaignCallerIds(campaignId);
+
+    if (pool) {
+      for (const tier of this.rankByPresence(numbers, phoneNumber, pool.localPresence)) {
+        const picked = await this.takeLeastUsed(tier.numbers, pool.dailyCapPerNumber);
+
+        if (picked) {
+          return {
+            id: picked.number.id,
+            phoneNumber: picked.number.phoneNumber,
+            match: tier.match,
+            usageKey: picked.usageKey,
+          };
+        }
+      }
+
+      logger.warn({ campaignId, poolId: pool.id }, 'Every caller ID in the pool is at its cap');
+    }
+
+    return fixed
+      ? { id: fixed.id, phoneNumber: fixed.phoneNumber, match: 'fixed', usageKey: null }
+      : null;
+  }
+
+  /**
+   * Give back the slot a selected number holds, when its call was not placed
+   */
+  async release(selected: SelectedCallerId | null): Promise<void> {
+    if (!selected?.usageKey) {
+      return;
+    }
+
+    try {
+      await this.redis.decr(selected.usageKey);
+    } catch (error) {
+      logger.error({ error, callerIdId: selected.id }, 'Error releasing caller ID usage');
+    }
+  }
+
+  private async getCampaignCallerIds(campaignId: string): Promise<CampaignCallerIds> {
+    const cached = this.campaignCache.get(campaignId);
+
+    if (cached && Date.now() - cached.loadedAt < CAMPAIGN_CACHE_TTL) {
+      return cached;
+    }
+
+    const campaign = await db.query.campaigns.findFirst({
+      where: eq(campaigns.id, campaignId),
+      columns: { tenantId: true, callerIdId: true, callerIdPoolId: true },
+    });
+
+    const pool = campaign?.callerIdPoolId
+      ? (await db.query.callerIdPools.findFirst({
+          where: and(
+            eq(callerIdPools.id, campaign.callerIdPoolId),
+            eq(callerIdPools.tenantId, campaign.tenantId)
+          ),
+        })) ?? null
+      : null;
+
+    const numbers = pool
+      ? await db.query.callerIds.findMany({
+          where: and(eq(callerIds.poolId, pool.id), eq(callerIds.status, 'active')),
+        })
+      : [];
+
+    const fixed = campaign?.callerIdId
+      ? (await db.query.callerIds.findFirst({
+          where: and(
+            eq(callerIds.id, campaign.callerIdId),
+            eq(callerIds.tenantId, campaign.tenantId)
+          ),
+        })) ?? null
+      : null;
+
+    const loaded: CampaignCallerIds = { pool, numbers, fixed, loadedAt: Date.now() };
+    this.campaignCache.set(campaignId, loaded);
+
+    return loaded;
+  }
+
+  /**
+   * The pool's numbers grouped by how local they are to the called number,
+   * most local first
+   */
+  private rankByPresence(
+    numbers: CallerId[],
+    phoneNumber: string,
+    localPresence: boolean
+  ): Array<{ match: SelectedCallerId['match']; numbers: CallerId[] }> {
+    if (!localPresence) {
+      return [{ match: 'rotation', numbers }];
+    }
+
+    const areaCode = getAreaCode(phoneNumber);
+    const state = getUSStateForPhoneNumber(phoneNumber);
+
+    const sameAreaCode = numbers.filter(
+      (number) => areaCode !== null && getAreaCode(number.phoneNumber) === areaCode
+    );
+    const sameState = numbers.filter(
+      (number) =>
+        !sameAreaCode.includes(number) &&
+        state !== null &&
+        getUSStateForPhoneNumber(number.phoneNumber) === state
+    );
+    const rest = numbers.filter(
+      (number) => !sameAreaCode.includes(number) && !sameState.includes(number)
+    );
+
+    return [
+      { match: 'area_code' as const, numbers: sameAreaCode },
+      { match: 'state' as const, numbers: sameState },
+      { match: 'rotation' as const, numbers: rest },
+    ].filter((tier) => tier.numbers.length > 0);
+  }
+
+  /**
+   * Take the number used least today that is still under the cap
+   */
+  private async takeLeastUsed(
+    numbers: CallerId[],
+    cap: number | null
+  ): Promise<{ number: CallerId; usageKey: string } | null> {
+    if (numbers.length === 0) {
+      return null;
+    }
+
+    const day = new Date().toISOString().slice(0, 10);
+    const key = (number: CallerId) => `${USAGE_KEY_PREFIX}${number.id}:${day}`;
+
+    const usage = await this.redis.mget(numbers.map(key));
+    const byUsage = numbers
+      .map((number, index) => ({ number, used: Number(usage[index] ?? 0) }))
+      .sort((a, b) => a.used - b.used);
+
+    for (const { number, used } of byUsage) {
+      if (cap !== null && used >= cap) {
+        break;
+      }
+
+      const results = await this.redis
+        .multi()
+        .incr(key(number))
+        .expire(key(number), 2 * 86400)
+        .exec();
+
+      // Another call took the last slot first
+      if (cap !== null && Number(results?.[0]?.[1]) > cap) {
+        await this.redis.decr(key(number));
+        continue;
+      }
+
+      return { number, usageKey: key(number) };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+import Redis from 'ioredis';
+import pino from 'pino';
+import { campaignCommandSchema, type CampaignCommandEvent } from '@nexusdialer/events';
+
+const logger = pino({ name: 'campaign-ownership' });
+
+// An instance that stops renewing, e.g. one that crashed, loses its campaigns
+// after this long
+const OWNER_TTL = 60;
+const RENEW_INTERVAL = 20 * 1000;
+
+const OWNER_KEY = (campaignId: string) => `campaign:owner:${campaignId}`;
+const COMMAND_CHANNEL = (instanceId: string) => `dialer:commands:${instanceId}`;
+
+/**
+ * Which dialer instance runs each campaign. Commands are keyed by campaign,
+ * but the command consumer group can move a campaign's partition to another
+ * instance when it rebalances; that instance forwards the command over Redis
+ * to the instance running the campaign instead of acting on it.
+ */
+export class CampaignOwnership {
+  private redis: Redis;
+  private subscriber: Redis;
+  private owned: Set<string> = new Set();
+  private renewInterval?: NodeJS.Timeout;
+
+  constructor(
+    redisUrl: string,
+    private instanceId: string
+  ) {
+    this.redis = new Redis(redisUrl);
+    this.subscriber = new Redis(redisUrl);
+
+    for (const client of [this.redis, this.subscriber]) {
+      client.on('error', (error) => {
+        logger.error({ error }, 'Redis connection error');
+      });
+    }
+  }
+
+  /**
+   * Listen for commands forwarded to this instance and keep its campaigns
+   */
+  async start(handleCommand: (command: CampaignCommandEvent) => Promise<void>): Promise<void> {
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      const parsed = campaignCommandSchema.safeParse(JSON.parse(message));
+
+      if (!parsed.success) {
+        logger.error({ error: parsed.error.flatten() }, 'Invalid forwarded campaign command');
+        return;
+      }
+
+      handleCommand(parsed.data).catch((error) => {
+        logger.error({ error }, 'Error handling forwarded campaign command');
+      });
+    });
+
+    await this.subscriber.subscribe(COMMAND_CHANNEL(this.instanceId));
+
+    this.renewInterval = setInterval(() => {
+      this.renew().catch((error) => {
+        logger.error({ error }, 'Error renewing campaign ownership');
+      });
+    }, RENEW_INTERVAL);
+  }
+
+  /**
+   * Send a command to the instance running its campaign. False means this
+   * instance should handle it: no instance runs the campaign, this one does,
+   * or the one that did is gone.
+   */
+  async forward(command: CampaignCommandEvent): Promise<boolean> {
+    const key = OWNER_KEY(command.payload.campaignId);
+    const owner = await this.redis.get(key);
+
+    if (!owner || owner === this.instanceId) {
+      return false;
+    }
+
+    const receivers = await this.redis.publish(COMMAND_CHANNEL(owner), JSON.stringify(command));
+
+    if (receivers > 0) {
+      logger.info(
+        { commandId: command.payload.commandId, campaignId: command.payload.campaignId, owner },
+        'Forwarded campaign command to the instance running the campaign'
+      );
+      return true;
+    }
+
+    // The owner is no longer listening, so its claim is stale
+    if ((await this.redis.get(key)) === owner) {
+      await this.redis.del(key);
+    }
+
+    return false;
+  }
+
+  /**
+   * The instance running a campaign, if any
+   */
+  async ownerOf(campaignId: string): Promise<string | null> {
+    return this.redis.get(OWNER_KEY(campaignId));
+  }
+
+  /**
+   * Take a campaign for this instance, unless another instance runs it
+   */
+  async claim(campaignId: string): Promise<boolean> {
+    const key = OWNER_KEY(campaignId);
+    const claimed = await this.redis.set(key, this.instanceId, 'EX', OWNER_TTL, 'NX');
+
+    if (!claimed && (await this.redis.get(key)) !== this.instanceId) {
+      return false;
+    }
+
+    this.owned.add(campaignId);
+    return true;
+  }
+
+  async release(campaignId: string): Promise<void> {
+    const key = OWNER_KEY(campaignId);
+
+    this.owned.delete(campaignId);
+
+    if ((await this.redis.get(key)) === this.instanceId) {
+      await this.redis.del(key);
+    }
+  }
+
+  private async renew(): Promise<void> {
+    for (const campaignId of this.owned) {
+      await this.redis.expire(OWNER_KEY(campaignId), OWNER_TTL);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.renewInterval) {
+      clearInterval(this.renewInterval);
+      this.renewInterval = undefined;
+    }
+
+    for (const campaignId of [...this.owned]) {
+      await this.release(campaignId);
+    }
+
+    await this.subscriber.quit();
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,487 @@
+import pino from 'pino';
+import { db } from '@nexusdialer/database';
+import { calls, campaigns, dncLists, leads, leadHistory } from '@nexusdialer/database/schema';
+import { eq, and, or, ne, inArray, isNull, gt, gte, sql } from 'drizzle-orm';
+import type { BestTimeToCall, CampaignSchedule, CampaignSettings } from '@nexusdialer/types';
+import {
+  normalizePhoneNumber,
+  formatForDNC,
+  getUSStateForPhoneNumber,
+  getTimezoneForUSState,
+  getTimezoneForPhoneNumber,
+} from '@nexusdialer/utils';
+import { CallService } from './call-service';
+
+const logger = pino({ name: 'compliance-gate' });
+
+export type ComplianceBlockReason =
+  | 'dnc'
+  | 'max_attempts'
+  | 'retry_interval'
+  | 'called_by_other_campaign'
+  | 'outside_calling_window'
+  | 'outside_campaign_hours'
+  | 'outside_best_time';
+
+export interface DialableLead {
+  id?: string;
+  phoneNumber: string;
+  timezone?: string | null;
+  bestTimeToCall?: BestTimeToCall | null;
+  attemptCount?: number;
+  lastAttemptAt?: Date | string | null;
+  customFields?: Record<string, unknown> | null;
+}
+
+export type ComplianceDecision =
+  | { allowed: true; timezone: string }
+  | {
+      allowed: false;
+      reason: ComplianceBlockReason;
+      detail: string;
+      timezone: string;
+      retryAt?: Date;
+    };
+
+interface DailyWindow {
+  start: number; // minutes after local midnight
+  end: number;
+}
+
+interface ComplianceCampaign {
+  id: string;
+  tenantId: string;
+  settings: Partial<CampaignSettings>;
+  schedule: CampaignSchedule;
+}
+
+// TCPA allows 8am-9pm at the called party's location; some states are stricter
+const DEFAULT_CALLING_WINDOW: DailyWindow = { start: 8 * 60, end: 21 * 60 };
+const STATE_CALLING_WINDOWS: Record<string, DailyWindow> = {
+  CT: { start: 9 * 60, end: 20 * 60 },
+  FL: { start: 8 * 60, end: 20 * 60 },
+  MD: { start: 8 * 60, end: 20 * 60 },
+  OK: { start: 8 * 60, end: 20 * 60 },
+  WA: { start: 8 * 60, end: 20 * 60 },
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MIN_BEST_TIME_CONFIDENCE = 0.5;
+const CAMPAIGN_CACHE_TTL = 30000;
+
+/**
+ * Shared pre-dial compliance checks. Every dial mode screens a lead here
+ * before originating; blocked leads get a lead history entry and are
+ * rescheduled to the next time they could legally be called.
+ */
+export class ComplianceGate {
+  private campaignCache: Map<string, { campaign: ComplianceCampaign; loadedAt: number }> =
+    new Map();
+
+  constructor(private callService: CallService) {}
+
+  /**
+   * Check a lead and record the reason if it is blocked
+   */
+  async screen(campaignId: string, lead: DialableLead): Promise<ComplianceDecision> {
+    const campaign = await this.getCampaign(campaignId);
+    const decision = await this.check(campaign, lead);
+
+    if (!decision.allowed) {
+      logger.info(
+        { campaignId, leadId: lead.id, reason: decision.reason, retryAt: decision.retryAt },
+        'Dial blocked by compliance gate'
+      );
+
+      if (lead.id) {
+        await this.recordBlock(campaign, lead.id, decision);
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Count a dial attempt and hold the lead out of the dial pool until the
+   * campaign retry interval has passed
+   */
+  async recordAttempt(campaignId: string, leadId: string): Promise<void> {
+    const campaign = await this.getCampaign(campaignId);
+    const now = new Date();
+    const retryInterval = campaign.settings.retryInterval ?? 3600;
+
+    await db
+      .update(leads)
+      .set({
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + retryInterval * 1000),
+        attemptCount: sql`${leads.attemptCount} + 1`,
+        updatedAt: now,
+      })
+      .where(eq(leads.id, leadId));
+  }
+
+  /**
+   * Run all checks in order, returning the first violation
+   */
+  private async check(
+    campaign: ComplianceCampaign,
+    lead: DialableLead,
+    now: Date = new Date()
+  ): Promise<ComplianceDecision> {
+    const state = this.resolveState(lead);
+    const timezone = this.resolveTimezone(lead, state, campaign);
+
+    if (await this.isOnDnc(campaign.tenantId, lead.phoneNumber, now)) {
+      return {
+        allowed: false,
+        reason: 'dnc',
+        detail: `${lead.phoneNumber} is on the do-not-call list`,
+        timezone,
+      };
+    }
+
+    const { maxAttempts, retryInterval } = campaign.settings;
+
+    if (maxAttempts && (lead.attemptCount ?? 0) >= maxAttempts) {
+      return {
+        allowed: false,
+        reason: 'max_attempts',
+        detail: `Lead reached the campaign limit of ${maxAttempts} attempts`,
+        timezone,
+      };
+    }
+
+    if (retryInterval && lead.lastAttemptAt) {
+      const retryAt = new Date(new Date(lead.lastAttemptAt).getTime() + retryInterval * 1000);
+
+      if (retryAt > now) {
+        return {
+          allowed: false,
+          reason: 'retry_interval',
+          detail: `Retry interval of ${retryInterval}s has not elapsed`,
+          timezone,
+          retryAt,
+        };
+      }
+    }
+
+    // The same person can be a lead in several campaigns' lists; only one
+    // of them may call on a given day in the person's timezone
+    if (await this.wasCalledByOtherCampaign(campaign, lead, timezone, now)) {
+      return {
+        allowed: false,
+        reason: 'called_by_other_campaign',
+        detail: `${lead.phoneNumber} was already called today by another campaign`,
+        timezone,
+        retryAt: startOfNextLocalDay(now, timezone),
+      };
+    }
+
+    const legalWindow = (state && STATE_CALLING_WINDOWS[state]) || DEFAULT_CALLING_WINDOW;
+
+    if (!isWithinWindow(now, timezone, () => legalWindow)) {
+      return {
+        allowed: false,
+        reason: 'outside_calling_window',
+        detail: `Outside the legal calling window in ${state ?? timezone}`,
+        timezone,
+        retryAt: nextWindowStart(now, timezone, () => legalWindow),
+      };
+    }
+
+    const campaignHours = this.getCampaignHours(campaign.schedule);
+
+    if (campaignHours && !isWithinWindow(now, campaign.schedule.timezone, campaignHours)) {
+      return {
+        allowed: false,
+        reason: 'outside_campaign_hours',
+        detail: 'Outside the campaign calling schedule',
+        timezone,
+        retryAt: nextWindowStart(now, campaign.schedule.timezone, campaignHours),
+      };
+    }
+
+    const bestTime = lead.bestTimeToCall;
+
+    if (bestTime && bestTime.confidence >= MIN_BEST_TIME_CONFIDENCE) {
+      const preferred = (weekday: number): DailyWindow | null =>
+        bestTime.preferredDays.length === 0 || bestTime.preferredDays.includes(weekday)
+          ? { start: bestTime.preferredHours.start * 60, end: bestTime.preferredHours.end * 60 }
+          : null;
+
+      if (!isWithinWindow(now, timezone, preferred)) {
+        return {
+          allowed: false,
+          reason: 'outside_best_time',
+          detail: "Outside the lead's best time to call",
+          timezone,
+          retryAt: nextWindowStart(now, timezone, preferred),
+        };
+      }
+    }
+
+    return { allowed: true, timezone };
+  }
+
+  /**
+   * Write the block to lead history and keep the lead out of the dial pool
+   * until it can be called again
+   */
+  private async recordBlock(
+    campaign: ComplianceCampaign,
+    leadId: string,
+    decision: Extract<ComplianceDecision, { allowed: false }>
+  ): Promise<void> {
+    try {
+      await db.insert(leadHistory).values({
+        tenantId: campaign.tenantId,
+        leadId,
+        eventType: 'dial_blocked',
+        newValue: { reason: decision.reason, detail: decision.detail },
+        metadata: {
+          campaignId: campaign.id,
+          timezone: decision.timezone,
+          retryAt: decision.retryAt?.toISOString(),
+        },
+      });
+
+      if (decision.reason === 'dnc') {
+        await db
+          .update(leads)
+          .set({ status: 'dnc', updatedAt: new Date() })
+          .where(eq(leads.id, leadId));
+      } else if (decision.reason === 'max_attempts') {
+        // Out of the dial pool for good, unless a recycle rule reopens it
+        await db
+          .update(leads)
+          .set({ status: 'exhausted', updatedAt: new Date() })
+          .where(eq(leads.id, leadId));
+      } else if (decision.retryAt) {
+        await db
+          .update(leads)
+          .set({ nextAttemptAt: decision.retryAt, updatedAt: new Date() })
+          .where(eq(leads.id, leadId));
+      }
+    } catch (error) {
+      logger.error({ error, leadId, reason: decision.reason }, 'Failed to record dial block');
+    }
+  }
+
+  /**
+   * Match the number as stored, in E.164 and in DNC digit format;
+   * entries past their expiry no longer apply
+   */
+  private async isOnDnc(tenantId: string, phoneNumber: string, now: Date): Promise<boolean> {
+    const variants = Array.from(
+      new Set([phoneNumber, normalizePhoneNumber(phoneNumber), formatForDNC(phoneNumber)])
+    );
+
+    const entry = await db.query.dncLists.findFirst({
+      where: and(
+        eq(dncLists.tenantId, tenantId),
+        inArray(dncLists.phoneNumber, variants),
+        or(isNull(dncLists.expiresAt), gt(dncLists.expiresAt, now))
+      ),
+    });
+
+    return Boolean(entry);
+  }
+
+  /**
+   * Whether another campaign of the tenant dialed the lead, or its number
+   * under another lead, since local midnight. Calls that never reached the
+   * network (blocked dials, failed originates) do not count; calls still in
+   * progress do, as their rows are written only when they end.
+   */
+  private async wasCalledByOtherCampaign(
+    campaign: ComplianceCampaign,
+    lead: DialableLead,
+    timezone: string,
+    now: Date
+  ): Promise<boolean> {
+    const { minutes } = getLocalTime(now, timezone);
+    const localMidnight = new Date(
+      now.getTime() - minutes * 60000 - now.getSeconds() * 1000 - now.getMilliseconds()
+    );
+    const variants = Array.from(
+      new Set([
+        lead.phoneNumber,
+        normalizePhoneNumber(lead.phoneNumber),
+        formatForDNC(lead.phoneNumber),
+      ])
+    );
+
+    const call = await db.query.calls.findFirst({
+      where: and(
+        eq(calls.tenantId, campaign.tenantId),
+        eq(calls.direction, 'outbound'),
+        gte(calls.startTime, localMidnight),
+        ne(calls.status, 'failed'),
+        // Manual calls have no campaign and count as another campaign's
+        or(isNull(calls.campaignId), ne(calls.campaignId, campaign.id)),
+        or(inArray(calls.phoneNumber, variants), lead.id ? eq(calls.leadId, lead.id) : undefined)
+      ),
+      columns: { id: true },
+    });
+
+    if (call) {
+      return true;
+    }
+
+    const activeCalls = await this.callService.getActiveCalls();
+
+    return activeCalls.some(
+      (active) =>
+        active.tenantId === campaign.tenantId &&
+        active.direction === 'outbound' &&
+        active.campaignId !== campaign.id &&
+        active.status !== 'failed' &&
+        (variants.includes(active.phoneNumber) || (lead.id && active.leadId === lead.id))
+    );
+  }
+
+  /**
+   * State from the lead's custom fields, falling back to the area code
+   */
+  private resolveState(lead: DialableLead): string | null {
+    const state = lead.customFields?.state;
+
+    if (typeof state === 'string' && state.length === 2) {
+      return state.toUpperCase();
+    }
+
+    return getUSStateForPhoneNumber(lead.phoneNumber);
+  }
+
+  /**
+   * Lead timezone, then state, then area code, then the campaign timezone
+   */
+  private resolveTimezone(
+    lead: DialableLead,
+    state: string | null,
+    campaign: ComplianceCampaign
+  ): string {
+    return (
+      lead.timezone ||
+      (state && getTimezoneForUSState(state)) ||
+      getTimezoneForPhoneNumber(lead.phoneNumber) ||
+      campaign.schedule.timezone
+    );
+  }
+
+  /**
+   * Campaign schedule as daily windows; null when it does not restrict dialing.
+   * Once any day is configured, days that are missing or null are closed.
+   */
+  private getCampaignHours(
+    schedule: CampaignSchedule
+  ): ((weekday: number) => DailyWindow | null) | null {
+    if (!schedule?.enabled || Object.keys(schedule.hours || {}).length === 0) {
+      return null;
+    }
+
+    return (weekday) => {
+      const hours = schedule.hours[WEEKDAYS[weekday]];
+      return hours ? { start: toMinutes(hours.start), end: toMinutes(hours.end) } : null;
+    };
+  }
+
+  /**
+   * Load campaign settings, cached briefly so dial loops do not query per lead
+   */
+  private async getCampaign(campaignId: string): Promise<ComplianceCampaign> {
+    const cached = this.campaignCache.get(campaignId);
+
+    if (cached && Date.now() - cached.loadedAt < CAMPAIGN_CACHE_TTL) {
+      return cached.campaign;
+    }
+
+    const campaign = await db.query.campaigns.findFirst({
+      where: eq(campaigns.id, campaignId),
+    });
+
+    if (!campaign) {
+      throw new Error(`Campaign ${campaignId} not found`);
+    }
+
+    this.campaignCache.set(campaignId, { campaign, loadedAt: Date.now() });
+
+    return campaign;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Local weekday (0 = Sunday) and minutes after midnight in a timezone
+ */
+function getLocalTime(now: Date, timezone: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday').toLowerCase()),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function isWithinWindow(
+  now: Date,
+  timezone: string,
+  windowFor: (weekday: number) => DailyWindow | null
+): boolean {
+  const { weekday, minutes } = getLocalTime(now, timezone);
+  const window = windowFor(weekday);
+
+  return window !== null && minutes >= window.start && minutes < window.end;
+}
+
+/**
+ * Local midnight at the end of the current day in a timezone
+ */
+function startOfNextLocalDay(now: Date, timezone: string): Date {
+  const { minutes } = getLocalTime(now, timezone);
+
+  return new Date(now.getTime() + (24 * 60 - minutes) * 60000 - now.getSeconds() * 1000);
+}
+
+/**
+ * Next time a window opens, looking up to a week ahead
+ */
+function nextWindowStart(
+  now: Date,
+  timezone: string,
+  windowFor: (weekday: number) => DailyWindow | null
+): Date | undefined {
+  const { weekday, minutes } = getLocalTime(now, timezone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const window = windowFor((weekday + offset) % 7);
+
+    if (!window) {
+      continue;
+    }
+
+    const minutesUntil =
+      offset === 0
+        ? window.start - minutes
+        : 24 * 60 - minutes + (offset - 1) * 24 * 60 + window.start;
+
+    if (minutesUntil > 0) {
+      return new Date(now.getTime() + minutesUntil * 60000);
+    }
+  }
+
+  return undefined;
+}
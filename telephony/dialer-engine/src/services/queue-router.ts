@@ -0,0 +1,380 @@
+import pino from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@nexusdialer/database';
+import { queues, agentProfiles, callbackSchedules } from '@nexusdialer/database/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { TOPICS } from '@nexusdialer/events';
+import type {
+  CallStartedEvent,
+  CallAnsweredEvent,
+  QueueCallOfferedEvent,
+  QueueCallAnnouncementEvent,
+  QueueCallbackRequestedEvent,
+} from '@nexusdialer/events';
+import { CallEvent } from '../freeswitch/client';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { CallService, type CallState } from './call-service';
+import { RecordingConsent } from './recording-consent';
+import { TrunkRouter } from './trunk-router';
+
+const logger = pino({ name: 'queue-router' });
+
+// Dialplan extension callers wait in; see queue_hold in default.xml
+const HOLD_EXTENSION = /^queue_[0-9a-f-]{36}$/;
+
+// Answers to the callback offer: 1 for a callback when their turn comes, 2 to pick a time
+const CALLBACK_DESTINATIONS: Record<string, string> = {
+  '1': 'queue_callback',
+  '2': 'queue_callback_time',
+};
+
+type PublishEvent = <T>(topic: string, event: T) => Promise<void>;
+
+/**
+ * Telephony side of the ACD queue. Inbound callers wait on hold in the
+ * queue_<id> dialplan extension while the queue service decides who takes
+ * the call; this class registers callers, rings the agents the queue service
+ * offers a call to, and reports which agent picked up.
+ */
+export class QueueRouter {
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService,
+    private trunkRouter: TrunkRouter,
+    private recordingConsent: RecordingConsent,
+    private publishEvent: PublishEvent
+  ) {}
+
+  /**
+   * A caller entered a queue (nexus::queue_enter from the dialplan)
+   */
+  async handleQueueEnter(event: CallEvent): Promise<void> {
+    const queueId = event.raw?.['Queue-ID'] || event.raw?.variable_nexus_queue_id;
+
+    if (!queueId) {
+      return;
+    }
+
+    // Already tracked; the caller is back on hold after an unanswered offer
+    if (event.raw?.variable_nexus_call_id) {
+      return;
+    }
+
+    const queue = await db.query.queues.findFirst({
+      where: eq(queues.id, queueId),
+    });
+
+    if (!queue) {
+      logger.warn({ queueId, uuid: event.uuid }, 'Caller entered unknown queue');
+      return;
+    }
+
+    const phoneNumber = event.callerIdNumber || 'unknown';
+
+    const call = await this.callService.createCall({
+      tenantId: queue.tenantId,
+      queueId,
+      phoneNumber,
+      direction: 'inbound',
+      metadata: { queueId },
+    });
+
+    await this.callService.updateCall(call.id, {
+      freeswitchUuid: event.uuid,
+      sipCallId: event.callId,
+    });
+
+    // Tag the channel so answer and hangup events map back to the call
+    await this.fsCommands.setVariable(event.uuid, 'nexus_call_id', call.id);
+    await this.fsCommands.setVariable(event.uuid, 'nexus_tenant_id', queue.tenantId);
+
+    const queued = (await this.callService.getCall(call.id))!;
+    const consent = await this.recordingConsent.resolve(queued);
+
+    // The queue service holds the caller back from agents until the
+    // disclosure or consent prompt is over
+    const awaitingConsent = consent?.mode === 'announce' || consent?.mode === 'dtmf';
+
+    logger.info({ callId: call.id, queueId, phoneNumber }, 'Inbound call queued');
+
+    await this.publishEvent<CallStartedEvent>(TOPICS.CALLS_STARTED, {
+      eventId: uuidv4(),
+      tenantId: queue.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.started',
+      payload: {
+        callId: call.id,
+        direction: 'inbound',
+        phoneNumber,
+        queueId,
+        sipCallId: event.callId,
+        recordingConsent: awaitingConsent ? consent.mode : undefined,
+      },
+    });
+
+    // Recorded from the queue rather than the dialplan, once consent allows
+    if (consent) {
+      await this.recordingConsent.begin({ ...queued, recordingConsent: consent });
+    }
+  }
+
+  /**
+   * Ring the agents the queue service picked for a waiting caller
+   */
+  async handleCallOffered(event: QueueCallOfferedEvent): Promise<void> {
+    const { callId, queueId, agentIds, ringTimeout } = event.payload;
+
+    if (event.payload.callback) {
+      await this.placeCallback(event, event.payload.callback);
+      return;
+    }
+
+    const call = await this.callService.getCall(callId);
+
+    if (!call?.freeswitchUuid || call.endTime) {
+      logger.warn({ callId }, 'Offered call is no longer on the line');
+      return;
+    }
+
+    const profiles = await db.query.agentProfiles.findMany({
+      where: and(
+        eq(agentProfiles.tenantId, event.tenantId),
+        inArray(agentProfiles.userId, agentIds)
+      ),
+    });
+
+    const targets = profiles
+      .filter((profile: any) => profile.extension)
+      .map((profile: any) => `[leg_timeout=${ringTimeout}]user/${profile.extension}`);
+
+    if (targets.length === 0) {
+      logger.warn({ callId, agentIds }, 'No agent extensions to ring');
+      return;
+    }
+
+    // The queue may differ from the one entered if the caller overflowed
+    await this.callService.updateCall(callId, { queueId });
+    await this.fsCommands.setVariable(call.freeswitchUuid, 'nexus_ring_targets', targets.join(','));
+    await this.fsCommands.transfer({ uuid: call.freeswitchUuid, destination: 'queue_ring' });
+
+    logger.info({ callId, queueId, agentIds }, 'Ringing agents for queued call');
+  }
+
+  /**
+   * Dial back a caller who left a callback request. The customer leg goes
+   * through queue_agent_<ext> to the agent the queue service reserved once
+   * they answer.
+   */
+  private async placeCallback(
+    event: QueueCallOfferedEvent,
+    callback: { callbackId: string; phoneNumber: string }
+  ): Promise<void> {
+    const { callId, queueId, agentIds, ringTimeout } = event.payload;
+    const agentId = agentIds[0];
+
+    const profile = await db.query.agentProfiles.findFirst({
+      where: and(eq(agentProfiles.tenantId, event.tenantId), eq(agentProfiles.userId, agentId)),
+    });
+
+    if (!profile?.extension) {
+      logger.warn({ callbackId: callback.callbackId, agentId }, 'No agent extension for callback');
+      await this.setCallbackStatus(callback.callbackId, 'failed');
+      return;
+    }
+
+    const call = await this.callService.createCall({
+      tenantId: event.tenantId,
+      queueId,
+      phoneNumber: callback.phoneNumber,
+      direction: 'outbound',
+      metadata: { queueId, callbackId: callback.callbackId, originalCallId: callId },
+    });
+
+    await this.callService.updateCall(call.id, { agentId });
+    await this.callService.updateAgentStatus(agentId, event.tenantId, 'on_call', call.id);
+
+    await this.trunkRouter.originate(call, {
+      phoneNumber: callback.phoneNumber,
+      timeout: ringTimeout,
+      destinationExtension: `queue_agent_${profile.extension} XML default`,
+      variables: {
+        nexus_call_id: call.id,
+        nexus_tenant_id: event.tenantId,
+        nexus_agent_id: agentId,
+        nexus_callback_id: callback.callbackId,
+      },
+    });
+
+    logger.info(
+      { callId: call.id, callbackId: callback.callbackId, agentId },
+      'Calling back queued caller'
+    );
+  }
+
+  /**
+   * Record how a virtual hold callback went once it hangs up. Scheduled
+   * callbacks, which carry no queue, are settled by the callback scheduler.
+   */
+  async handleCallbackEnded(call: CallState): Promise<void> {
+    const callbackId = call.metadata?.callbackId;
+
+    if (!callbackId || !call.metadata?.queueId) {
+      return;
+    }
+
+    await this.setCallbackStatus(callbackId, call.answerTime ? 'completed' : 'failed');
+  }
+
+  private async setCallbackStatus(
+    callbackId: string,
+    status: 'completed' | 'failed'
+  ): Promise<void> {
+    await db
+      .update(callbackSchedules)
+      .set({
+        status,
+        completedAt: status === 'completed' ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(callbackSchedules.id, callbackId));
+  }
+
+  /**
+   * Play a waiting caller their position and estimated wait over the hold music
+   */
+  async handleAnnouncement(event: QueueCallAnnouncementEvent): Promise<void> {
+    const { callId, prompt, callbackOffered } = event.payload;
+
+    const call = await this.callService.getCall(callId);
+
+    // Skip callers who hung up or are already with an agent
+    if (!call?.freeswitchUuid || call.endTime || call.agentId) {
+      return;
+    }
+
+    // Lets handleDtmf act on the caller's answer to the offer
+    if (callbackOffered) {
+      await this.fsCommands.setVariable(call.freeswitchUuid, 'nexus_callback_offered', 'true');
+    }
+
+    await this.fsCommands.broadcast(
+      call.freeswitchUuid,
+      `file_string://${prompt.join('!')}`,
+      'aleg'
+    );
+  }
+
+  /**
+   * A caller on hold answered the callback offer; the dialplan confirms it
+   * or asks for a time
+   */
+  async handleDtmf(event: CallEvent): Promise<void> {
+    const destination = CALLBACK_DESTINATIONS[event.raw?.['DTMF-Digit'] ?? ''];
+
+    if (
+      !destination ||
+      event.raw?.variable_nexus_callback_offered !== 'true' ||
+      !HOLD_EXTENSION.test(event.raw?.['Caller-Destination-Number'] ?? '')
+    ) {
+      return;
+    }
+
+    await this.fsCommands.transfer({ uuid: event.uuid, destination });
+  }
+
+  /**
+   * The caller accepted a callback (nexus::queue_callback from the dialplan)
+   * and is being hung up; hand the request to the queue service
+   */
+  async handleCallbackRequest(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const tenantId = event.raw?.variable_nexus_tenant_id;
+    const queueId = event.raw?.['Queue-ID'] || event.raw?.variable_nexus_queue_id;
+
+    if (!callId || !tenantId || !queueId) {
+      return;
+    }
+
+    const call = await this.callService.getCall(callId);
+
+    if (!call) {
+      return;
+    }
+
+    // HHMM from the keypad, already checked by the dialplan
+    const digits = event.raw?.['Callback-Time'] ?? '';
+    const requestedTime = /^\d{4}$/.test(digits)
+      ? `${digits.slice(0, 2)}:${digits.slice(2)}`
+      : undefined;
+
+    // Not an abandon when the caller hangs up
+    await this.callService.updateCall(callId, {
+      metadata: { ...call.metadata, callbackRequested: true },
+    });
+
+    logger.info({ callId, queueId, requestedTime }, 'Queued caller requested a callback');
+
+    await this.publishEvent<QueueCallbackRequestedEvent>(TOPICS.QUEUES_CALLBACK_REQUESTED, {
+      eventId: uuidv4(),
+      tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'queues.callback-requested',
+      payload: {
+        callId,
+        queueId,
+        phoneNumber: call.phoneNumber,
+        requestedTime,
+      },
+    });
+  }
+
+  /**
+   * An agent picked up a queued call
+   */
+  async handleBridge(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const tenantId = event.raw?.variable_nexus_tenant_id;
+    const extension = event.raw?.['Other-Leg-Destination-Number'];
+
+    if (!callId || !tenantId || !extension || !event.raw?.variable_nexus_queue_id) {
+      return;
+    }
+
+    const profile = await db.query.agentProfiles.findFirst({
+      where: and(eq(agentProfiles.tenantId, tenantId), eq(agentProfiles.extension, extension)),
+    });
+
+    if (!profile) {
+      logger.warn({ callId, extension }, 'Queued call bridged to unknown extension');
+      return;
+    }
+
+    const call = await this.callService.answerCall(callId, profile.userId);
+
+    if (!call) {
+      return;
+    }
+
+    await this.callService.updateAgentStatus(profile.userId, tenantId, 'on_call', callId);
+    await this.callService.incrementAgentCallCount(profile.userId);
+
+    logger.info({ callId, agentId: profile.userId }, 'Queued call answered by agent');
+
+    await this.publishEvent<CallAnsweredEvent>(TOPICS.CALLS_ANSWERED, {
+      eventId: uuidv4(),
+      tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.answered',
+      payload: {
+        callId,
+        agentId: profile.userId,
+        answerTime: call.answerTime!,
+        ringDuration: call.ringDuration!,
+        queueWaitTime: call.ringDuration,
+      },
+    });
+  }
+}
@@ -0,0 +1,351 @@
+import pino from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@nexusdialer/database';
+import { audioFiles, campaigns, queues, tenants } from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import { TOPICS } from '@nexusdialer/events';
+import type { CallRecordingConsentEvent } from '@nexusdialer/events';
+import type {
+  CampaignSettings,
+  QueueSettings,
+  RecordingConsentOutcome,
+  RecordingConsentSettings,
+  TenantSettings,
+} from '@nexusdialer/types';
+import { resolveRecordingConsent } from '@nexusdialer/utils';
+import { CallEvent } from '../freeswitch/client';
+import { FreeSWITCHCommands } from '../freeswitch/commands';
+import { CallService, type CallState, type RecordingConsentState } from './call-service';
+
+const logger = pino({ name: 'recording-consent' });
+
+// Set on the call's metadata once FreeSWITCH is recording it
+export interface ActiveRecording {
+  filePath: string;
+  startedAt: string;
+}
+
+interface PendingConsent {
+  mode: 'announce' | 'dtmf';
+  uuid: string;
+  prompt: string;
+  timeout: NodeJS.Timeout;
+}
+
+type PublishEvent = <T>(topic: string, event: T) => Promise<void>;
+
+// Where FreeSWITCH writes recordings; the recording service uploads them from here
+const RECORDINGS_PATH = process.env.RECORDINGS_PATH || '/var/lib/freeswitch/recordings';
+
+// Played when the campaign or queue has no audio file of its own
+const DISCLOSURE_PROMPT = 'nexus/recording-disclosure.wav';
+const CONSENT_PROMPT = 'nexus/recording-consent.wav';
+
+// The digit that grants consent; any other declines
+const CONSENT_DIGIT = '1';
+
+// Time to hear the consent prompt and answer it
+const CONSENT_TIMEOUT_MS = 20000;
+
+// Start recording anyway if the end of the disclosure is never reported
+const DISCLOSURE_TIMEOUT_MS = 30000;
+
+/**
+ * Applies a campaign's or queue's recording consent settings before a call
+ * is recorded. The mode comes from the jurisdiction of the other party's
+ * number: record straight away, play a disclosure first, ask the callee to
+ * press 1, or never record. The outcome is kept on the call and published
+ * on calls.recording-consent.
+ */
+export class RecordingConsent {
+  // By call id, while a disclosure or consent prompt is playing
+  private pending: Map<string, PendingConsent> = new Map();
+
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService,
+    private publishEvent: PublishEvent
+  ) {}
+
+  /**
+   * Work out and store the consent mode for a call. Returns null when the
+   * tenant has recording turned off.
+   */
+  async resolve(call: CallState): Promise<RecordingConsentState | null> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, call.tenantId),
+    });
+    const tenantSettings = tenant?.settings as TenantSettings | undefined;
+
+    if (tenantSettings?.features?.recordingEnabled === false) {
+      return null;
+    }
+
+    const settings = await this.getSettings(call);
+    const resolved = settings
+      ? resolveRecordingConsent(call.phoneNumber, settings)
+      : { mode: 'record' as const, jurisdiction: null };
+
+    const consent: RecordingConsentState = {
+      mode: resolved.mode,
+      jurisdiction: resolved.jurisdiction ?? undefined,
+    };
+
+    await this.callService.updateCall(call.id, { recordingConsent: consent });
+
+    return consent;
+  }
+
+  /**
+   * Get whatever consent the call's mode needs, then start recording
+   */
+  async begin(call: CallState): Promise<void> {
+    const consent = call.recordingConsent ?? (await this.resolve(call));
+
+    if (!consent || !call.freeswitchUuid) {
+      return;
+    }
+
+    switch (consent.mode) {
+      case 'record':
+        await this.finish(call.id, 'not_required');
+        return;
+
+      case 'never':
+        await this.finish(call.id, 'not_recorded');
+        return;
+
+      case 'announce':
+      case 'dtmf': {
+        const settings = await this.getSettings(call);
+        const [audioId, stockPrompt] =
+          consent.mode === 'announce'
+            ? [settings?.announcementAudioId, DISCLOSURE_PROMPT]
+            : [settings?.consentPromptAudioId, CONSENT_PROMPT];
+        const prompt = await this.getPromptFile(call.tenantId, audioId, stockPrompt);
+
+        const timeout = setTimeout(
+          () => {
+            this.finish(call.id, consent.mode === 'announce' ? 'announced' : 'no_response').catch(
+              (error) => {
+                logger.error({ error, callId: call.id }, 'Error settling recording consent');
+              }
+            );
+          },
+          consent.mode === 'announce' ? DISCLOSURE_TIMEOUT_MS : CONSENT_TIMEOUT_MS
+        );
+
+        this.pending.set(call.id, {
+          mode: consent.mode,
+          uuid: call.freeswitchUuid,
+          prompt,
+          timeout,
+        });
+
+        // Everyone on the line hears a disclosure; only the callee is asked.
+        // Without the prompt there is no consent, so the call is not recorded.
+        try {
+          await this.fsCommands.broadcast(
+            call.freeswitchUuid,
+            prompt,
+            consent.mode === 'announce' ? 'both' : 'aleg'
+          );
+        } catch (error) {
+          logger.error({ error, callId: call.id }, 'Failed to play recording consent prompt');
+          await this.finish(call.id, 'not_recorded');
+          return;
+        }
+
+        logger.info({ callId: call.id, mode: consent.mode }, 'Waiting on recording consent');
+        return;
+      }
+    }
+  }
+
+  /**
+   * The disclosure finished playing; start recording
+   */
+  async handlePlaybackComplete(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const pending = callId ? this.pending.get(callId) : undefined;
+
+    if (!callId || pending?.mode !== 'announce' || pending.uuid !== event.uuid) {
+      return;
+    }
+
+    // Hold music finishing is not the end of the disclosure
+    if (event.raw?.['Application-Data'] !== pending.prompt) {
+      return;
+    }
+
+    await this.finish(callId, 'announced');
+  }
+
+  /**
+   * The callee answered the consent prompt
+   */
+  async handleDtmf(event: CallEvent): Promise<void> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const pending = callId ? this.pending.get(callId) : undefined;
+
+    if (!callId || pending?.mode !== 'dtmf' || pending.uuid !== event.uuid) {
+      return;
+    }
+
+    const digit = event.raw?.['DTMF-Digit'];
+    await this.finish(callId, digit === CONSENT_DIGIT ? 'granted' : 'declined');
+  }
+
+  /**
+   * The call hung up; settle consent that was still being asked for so the
+   * outcome is stored with the call
+   */
+  async cancel(callId: string): Promise<void> {
+    const pending = this.pending.get(callId);
+
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pending.delete(callId);
+
+    await this.settle(callId, pending.mode === 'dtmf' ? 'no_response' : 'not_recorded', false);
+  }
+
+  stop(): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timeout);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Record the outcome and start recording when it allows
+   */
+  private async finish(callId: string, outcome: RecordingConsentOutcome): Promise<void> {
+    const pending = this.pending.get(callId);
+
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pending.delete(callId);
+    }
+
+    const call = await this.callService.getCall(callId);
+
+    if (!call || call.endTime) {
+      return;
+    }
+
+    let recording = outcome === 'not_required' || outcome === 'announced' || outcome === 'granted';
+
+    if (recording) {
+      // A failed recording must not hold up the call
+      recording = await this.startRecording(call)
+        .then(() => true)
+        .catch((error) => {
+          logger.error({ error, callId }, 'Failed to start call recording');
+          return false;
+        });
+    }
+
+    await this.settle(callId, outcome, recording);
+  }
+
+  private async settle(
+    callId: string,
+    outcome: RecordingConsentOutcome,
+    recording: boolean
+  ): Promise<void> {
+    const call = await this.callService.getCall(callId);
+
+    if (!call?.recordingConsent) {
+      return;
+    }
+
+    const consent: RecordingConsentState = { ...call.recordingConsent, outcome };
+    await this.callService.updateCall(callId, { recordingConsent: consent });
+
+    logger.info({ callId, mode: consent.mode, outcome, recording }, 'Recording consent settled');
+
+    await this.publishEvent<CallRecordingConsentEvent>(TOPICS.CALLS_RECORDING_CONSENT, {
+      eventId: uuidv4(),
+      tenantId: call.tenantId,
+      timestamp: new Date().toISOString(),
+      version: '1.0',
+      type: 'calls.recording-consent',
+      payload: {
+        callId,
+        campaignId: call.campaignId,
+        queueId: call.queueId,
+        agentId: call.agentId,
+        mode: consent.mode,
+        outcome,
+        recording,
+        jurisdiction: consent.jurisdiction,
+      },
+    });
+  }
+
+  private async startRecording(call: CallState): Promise<void> {
+    const filePath = `${RECORDINGS_PATH}/${call.id}.wav`;
+
+    await this.fsCommands.setVariable(call.freeswitchUuid!, 'RECORD_STEREO', 'true');
+    await this.fsCommands.startRecording(call.freeswitchUuid!, filePath);
+
+    // Re-read: the consent outcome may have been stored meanwhile
+    const current = await this.callService.getCall(call.id);
+    const recording: ActiveRecording = { filePath, startedAt: new Date().toISOString() };
+
+    await this.callService.updateCall(call.id, {
+      metadata: { ...(current ?? call).metadata, recording },
+    });
+  }
+
+  /**
+   * Consent settings of the call's campaign, or of its queue for inbound
+   * calls and queue callbacks
+   */
+  private async getSettings(call: CallState): Promise<RecordingConsentSettings | undefined> {
+    if (call.campaignId) {
+      const campaign = await db.query.campaigns.findFirst({
+        where: eq(campaigns.id, call.campaignId),
+      });
+      return (campaign?.settings as CampaignSettings | undefined)?.recordingConsent;
+    }
+
+    if (call.queueId) {
+      const queue = await db.query.queues.findFirst({
+        where: eq(queues.id, call.queueId),
+      });
+      return (queue?.settings as QueueSettings | undefined)?.recordingConsent;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Playable path for a tenant's prompt, or the stock prompt
+   */
+  private async getPromptFile(
+    tenantId: string,
+    audioId: string | undefined,
+    fallback: string
+  ): Promise<string> {
+    if (!audioId) {
+      return fallback;
+    }
+
+    const audio = await db.query.audioFiles.findFirst({
+      where: and(eq(audioFiles.id, audioId), eq(audioFiles.tenantId, tenantId)),
+    });
+
+    if (!audio) {
+      logger.warn({ tenantId, audioId }, 'Recording consent prompt not found, using stock prompt');
+      return fallback;
+    }
+
+    // Remote files are fetched and cached by mod_http_cache
+    return /^https?:\/\//.test(audio.fileUrl) ? `http_cache://${audio.fileUrl}` : audio.fileUrl;
+  }
+}
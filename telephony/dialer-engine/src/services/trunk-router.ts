@@ -0,0 +1,199 @@
+import pino from 'pino';
+import { db, decryptSecret } from '@nexusdialer/database';
+import { sipTrunks, type SipTrunk } from '@nexusdialer/database/schema';
+import { eq, and } from 'drizzle-orm';
+import { CallEvent } from '../freeswitch/client';
+import { FreeSWITCHCommands, type OriginateOptions } from '../freeswitch/commands';
+import { CallService, type CallState } from './call-service';
+
+const logger = pino({ name: 'trunk-router' });
+
+const TRUNK_CACHE_TTL = 30000;
+
+/**
+ * Every trunk that could carry the number is at its channel limit
+ */
+export class TrunkUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrunkUnavailableError';
+  }
+}
+
+interface PendingRoute {
+  options: OriginateOptions;
+  trunks: SipTrunk[]; // still to try, in order
+}
+
+/**
+ * Least-cost outbound routing over a tenant's SIP trunks. A call goes out on
+ * the cheapest enabled trunk whose prefixes cover the number and which has a
+ * channel free; if the carrier fails it before answer with one of the
+ * trunk's failover causes, it is dialed again on the next trunk. Tenants
+ * with no trunks dial through the external profile as before.
+ */
+export class TrunkRouter {
+  private trunkCache: Map<string, { trunks: SipTrunk[]; loadedAt: number }> = new Map();
+  private pendingRoutes: Map<string, PendingRoute> = new Map(); // callId -> route
+
+  constructor(
+    private fsCommands: FreeSWITCHCommands,
+    private callService: CallService
+  ) {}
+
+  /**
+   * Originate a call on the best trunk for its number
+   */
+  async originate(call: CallState, options: OriginateOptions): Promise<string> {
+    const trunks = await this.getTrunks(call.tenantId);
+
+    if (trunks.length === 0) {
+      return this.fsCommands.originate(options);
+    }
+
+    const candidates = this.rankTrunks(trunks, options.phoneNumber);
+
+    if (candidates.length === 0) {
+      throw new TrunkUnavailableError(`No trunk carries ${options.phoneNumber}`);
+    }
+
+    return this.dial(call.id, options, candidates);
+  }
+
+  /**
+   * Free the trunk channel of a carrier leg that hung up, and send an
+   * unanswered call on to the next trunk when the cause allows it.
+   * Returns true when the call was dialed again and is still going.
+   */
+  async handleHangup(event: CallEvent): Promise<boolean> {
+    const callId = event.raw?.variable_nexus_call_id;
+    const trunkId = event.raw?.variable_nexus_trunk_id;
+
+    if (!callId || !trunkId) {
+      return false;
+    }
+
+    const hangupCause = event.hangupCause || 'NORMAL_CLEARING';
+
+    await this.callService.releaseTrunkChannel(trunkId, callId);
+    const call = await this.callService.endTrunkAttempt(callId, trunkId, hangupCause);
+
+    const pending = this.pendingRoutes.get(callId);
+    this.pendingRoutes.delete(callId);
+
+    if (!call || call.answerTime || !pending) {
+      return false;
+    }
+
+    const trunk = (await this.getTrunks(call.tenantId)).find((existing) => existing.id === trunkId);
+    const failoverCauses = (trunk?.failoverCauses as string[] | undefined) ?? [];
+
+    if (!failoverCauses.includes(hangupCause) || pending.trunks.length === 0) {
+      return false;
+    }
+
+    logger.warn({ callId, trunkId, hangupCause }, 'Trunk failed the call, trying the next one');
+
+    try {
+      await this.dial(callId, pending.options, pending.trunks);
+      return true;
+    } catch (error) {
+      logger.error({ error, callId }, 'Failover dial failed');
+      return false;
+    }
+  }
+
+  /**
+   * Trunk list changes reach the router within the cache TTL
+   */
+  private async getTrunks(tenantId: string): Promise<SipTrunk[]> {
+    const cached = this.trunkCache.get(tenantId);
+
+    if (cached && Date.now() - cached.loadedAt < TRUNK_CACHE_TTL) {
+      return cached.trunks;
+    }
+
+    const trunks = await db.query.sipTrunks.findMany({
+      where: and(eq(sipTrunks.tenantId, tenantId), eq(sipTrunks.enabled, true)),
+    });
+
+    this.trunkCache.set(tenantId, { trunks, loadedAt: Date.now() });
+
+    return trunks;
+  }
+
+  /**
+   * Trunks that carry the number, cheapest first. Equal costs go to the
+   * lower priority, then to the trunk with the more specific prefix.
+   */
+  private rankTrunks(trunks: SipTrunk[], phoneNumber: string): SipTrunk[] {
+    const digits = phoneNumber.replace(/\D/g, '');
+
+    const matches = trunks.flatMap((trunk) => {
+      const prefixes = trunk.prefixes as string[];
+
+      if (prefixes.length === 0) {
+        return [{ trunk, prefixLength: 0 }];
+      }
+
+      const longest = Math.max(
+        ...prefixes.map((prefix) => (digits.startsWith(prefix) ? prefix.length : -1))
+      );
+
+      return longest >= 0 ? [{ trunk, prefixLength: longest }] : [];
+    });
+
+    return matches
+      .sort(
+        (a, b) =>
+          Number(a.trunk.costPerMinute) - Number(b.trunk.costPerMinute) ||
+          a.trunk.priority - b.trunk.priority ||
+          b.prefixLength - a.prefixLength
+      )
+      .map(({ trunk }) => trunk);
+  }
+
+  /**
+   * Dial on the first of the trunks with a channel free
+   */
+  private async dial(
+    callId: string,
+    options: OriginateOptions,
+    trunks: SipTrunk[]
+  ): Promise<string> {
+    for (const [index, trunk] of trunks.entries()) {
+      if (!(await this.callService.acquireTrunkChannel(trunk.id, callId, trunk.maxChannels))) {
+        logger.debug({ callId, trunkId: trunk.id }, 'Trunk at its channel limit');
+        continue;
+      }
+
+      await this.callService.startTrunkAttempt(callId, trunk.id);
+      this.pendingRoutes.set(callId, { options, trunks: trunks.slice(index + 1) });
+
+      try {
+        const jobId = await this.fsCommands.originate({
+          ...options,
+          route: {
+            gateway: trunk.gateway,
+            transport: trunk.transport as 'udp' | 'tcp' | 'tls',
+            username: trunk.username ?? undefined,
+            password: trunk.password ? decryptSecret(trunk.password) : undefined,
+            codecs: trunk.codecs as string[],
+          },
+          variables: { ...options.variables, nexus_trunk_id: trunk.id },
+        });
+
+        logger.info({ callId, trunkId: trunk.id, gateway: trunk.gateway }, 'Call routed');
+
+        return jobId;
+      } catch (error) {
+        this.pendingRoutes.delete(callId);
+        await this.callService.releaseTrunkChannel(trunk.id, callId);
+        await this.callService.endTrunkAttempt(callId, trunk.id, 'ORIGINATE_FAILED');
+        throw error;
+      }
+    }
+
+    throw new TrunkUnavailableError(`Every trunk for ${options.phoneNumber} is at its limit`);
+  }
+}
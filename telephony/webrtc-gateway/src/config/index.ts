@@ -89,6 +89,13 @@ export const config: WebRTCGatewayConfig = {
     eslPassword: process.env.FREESWITCH_ESL_PASSWORD || 'ClueCon',
   },
 
+  quality: {
+    sampleInterval: Number(process.env.QUALITY_SAMPLE_INTERVAL_MS) || 5000,
+    alertMos: Number(process.env.QUALITY_ALERT_MOS) || 3.5,
+    // An hour of samples at the default interval
+    historySize: Number(process.env.QUALITY_HISTORY_SIZE) || 720,
+  },
+
   redis: process.env.REDIS_HOST
     ? {
         host: process.env.REDIS_HOST || 'localhost',
@@ -167,6 +167,23 @@ export function registerCallHandlers(socket: Socket): void {
   // Call Control Handlers
   // ============================================
 
+  // A customer call and the consult call of its warm transfer
+  const getConsult = (callId: string) => {
+    const callSession = peerManager.getCallSession(callId);
+    if (!callSession?.sipSessionId) {
+      throw new Error('Call session not found');
+    }
+
+    const consultSession = callSession.consultCallId
+      ? peerManager.getCallSession(callSession.consultCallId)
+      : undefined;
+    if (!consultSession) {
+      throw new Error('No transfer in progress');
+    }
+
+    return { callSession, consultSession };
+  };
+
   socket.on(
     'call:dial',
     async (
@@ -404,7 +421,7 @@ export function registerCallHandlers(socket: Socket): void {
         target: string;
         transferType: 'warm' | 'cold' | 'blind';
       },
-      callback: (response: WebRTCResponse) => void
+      callback: (response: CallResponse) => void
     ) => {
       try {
         const callSession = peerManager.getCallSession(data.callId);
@@ -416,14 +433,44 @@ export function registerCallHandlers(socket: Socket): void {
           throw new Error('SIP session not found');
         }
 
-        // Convert transfer type to SIP type
-        const sipTransferType = data.transferType === 'warm' ? 'attended' : 'blind';
+        // Warm: hold the customer and dial the target; the transfer is
+        // settled later with call:transfer-complete, -cancel or -conference
+        if (data.transferType === 'warm') {
+          if (callSession.consultCallId) {
+            throw new Error('A transfer of this call is already in progress');
+          }
 
-        await sipGateway.transfer(
-          callSession.sipSessionId,
-          data.target,
-          sipTransferType
-        );
+          await sipGateway.hold(callSession.sipSessionId);
+          peerManager.setCallHoldState(data.callId, true);
+
+          const consultSession = peerManager.createCallSession(peer.id, data.target, 'outbound', {
+            legType: 'consult',
+            parentCallId: data.callId,
+          });
+          callSession.consultCallId = consultSession.callId;
+
+          const sipSessionId = await sipGateway.makeCall(
+            agentId,
+            tenantId,
+            consultSession.callId,
+            data.target
+          );
+
+          peerManager.setSIPSessionId(consultSession.callId, sipSessionId);
+
+          socket.emit('call:held', { callId: data.callId, isOnHold: true });
+          socket.emit('call:ringing', { callId: consultSession.callId });
+
+          callback({ success: true, callId: consultSession.callId });
+
+          logger.info(
+            { agentId, callId: data.callId, consultCallId: consultSession.callId },
+            'Consulting transfer target'
+          );
+          return;
+        }
+
+        await sipGateway.transfer(callSession.sipSessionId, data.target, 'blind');
 
         peerManager.updateCallState(data.callId, 'transferring');
 
@@ -432,7 +479,7 @@ export function registerCallHandlers(socket: Socket): void {
           target: data.target,
         });
 
-        callback({ success: true });
+        callback({ success: true, callId: data.callId });
 
         logger.info(
           {
@@ -453,6 +500,123 @@ export function registerCallHandlers(socket: Socket): void {
     }
   );
 
+  socket.on(
+    'call:transfer-complete',
+    async (
+      data: { callId: string },
+      callback: (response: WebRTCResponse) => void
+    ) => {
+      try {
+        const { callSession, consultSession } = getConsult(data.callId);
+
+        await sipGateway.transfer(
+          callSession.sipSessionId!,
+          consultSession.sipSessionId!,
+          'attended'
+        );
+
+        peerManager.updateCallState(data.callId, 'transferring');
+
+        socket.emit('call:transferred', {
+          callId: data.callId,
+          target: consultSession.phoneNumber,
+        });
+
+        callback({ success: true });
+
+        logger.info(
+          { agentId, callId: data.callId, consultCallId: consultSession.callId },
+          'Warm transfer completed'
+        );
+      } catch (error) {
+        logger.error({ error, agentId, callId: data.callId }, 'Failed to complete transfer');
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  socket.on(
+    'call:transfer-cancel',
+    async (
+      data: { callId: string },
+      callback: (response: WebRTCResponse) => void
+    ) => {
+      try {
+        const { callSession, consultSession } = getConsult(data.callId);
+
+        if (consultSession.sipSessionId) {
+          await sipGateway.hangup(consultSession.sipSessionId);
+        }
+
+        peerManager.endCallSession(consultSession.callId);
+        socket.emit('call:ended', { callId: consultSession.callId, reason: 'transfer_cancelled' });
+
+        await sipGateway.unhold(callSession.sipSessionId!);
+        peerManager.setCallHoldState(data.callId, false);
+
+        socket.emit('call:held', { callId: data.callId, isOnHold: false });
+
+        callback({ success: true });
+
+        logger.info({ agentId, callId: data.callId }, 'Warm transfer cancelled');
+      } catch (error) {
+        logger.error({ error, agentId, callId: data.callId }, 'Failed to cancel transfer');
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Both parties are sent into a conference room of the call, then the
+  // agent dials in; their two calls are hung up by FreeSWITCH
+  socket.on(
+    'call:transfer-conference',
+    async (
+      data: { callId: string },
+      callback: (response: CallResponse) => void
+    ) => {
+      try {
+        const { callSession, consultSession } = getConsult(data.callId);
+        const room = `nexus_conference_${data.callId}`;
+
+        await sipGateway.transfer(callSession.sipSessionId!, room, 'blind');
+        await sipGateway.transfer(consultSession.sipSessionId!, room, 'blind');
+
+        const conferenceSession = peerManager.createCallSession(peer.id, room, 'outbound', {
+          legType: 'conference',
+          parentCallId: data.callId,
+        });
+
+        const sipSessionId = await sipGateway.makeCall(
+          agentId,
+          tenantId,
+          conferenceSession.callId,
+          room
+        );
+
+        peerManager.setSIPSessionId(conferenceSession.callId, sipSessionId);
+
+        callback({ success: true, callId: conferenceSession.callId });
+
+        logger.info(
+          { agentId, callId: data.callId, conferenceCallId: conferenceSession.callId },
+          'Call conferenced'
+        );
+      } catch (error) {
+        logger.error({ error, agentId, callId: data.callId }, 'Failed to conference call');
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
   socket.on(
     'call:dtmf',
     async (
@@ -508,6 +672,7 @@ export function registerCallHandlers(socket: Socket): void {
       socket.emit('call:incoming', {
         callId: sipSession.callId,
         phoneNumber: sipSession.remoteIdentity,
+        monitorSessionId: sipSession.metadata?.monitorSessionId as string | undefined,
       });
 
       // Create call session in peer manager
@@ -533,8 +698,9 @@ export function registerCallHandlers(socket: Socket): void {
   const handleSessionTerminated = (sessionId: string, reason?: string) => {
     const sipSession = sipGateway.getSession(sessionId);
     if (sipSession && sipSession.agentId === agentId) {
-      const callSession = peerManager.getCallSessionByPeer(peer.id);
-      if (callSession && callSession.sipSessionId === sessionId) {
+      // Not necessarily the current call: a held customer call can end too
+      const callSession = peerManager.getCallSessionBySIPSession(sessionId);
+      if (callSession && callSession.webrtcPeerId === peer.id) {
         const duration = callSession.answerTime
           ? (new Date().getTime() - callSession.answerTime.getTime()) / 1000
           : 0;
@@ -8,6 +8,8 @@ import { config, validateConfig } from './config';
 import { mediaServer } from './webrtc/media-server';
 import { peerManager } from './webrtc/peer-manager';
 import { sipGateway } from './sip/gateway';
+import { qualityMonitor } from './webrtc/quality-monitor';
+import { initKafkaProducer, disconnectKafka } from './lib/kafka';
 import { registerCallHandlers } from './handlers/call-handlers';
 import webrtcRoutes from './routes/webrtc';
 
@@ -196,6 +198,16 @@ async function startServer() {
     await mediaServer.initialize();
     logger.info('MediaSoup media server initialized');
 
+    // Call quality is still sampled for the stats routes without Kafka
+    try {
+      await initKafkaProducer();
+      logger.info('Kafka producer connected');
+    } catch (error) {
+      logger.warn({ error }, 'Failed to connect to Kafka - call quality samples not published');
+    }
+
+    qualityMonitor.start();
+
     // Start HTTP server
     httpServer.listen(config.port, config.host, () => {
       logger.info(
@@ -231,6 +243,9 @@ async function gracefulShutdown(signal: string) {
       logger.info('Socket.IO closed');
     });
 
+    // Stop sampling call quality
+    qualityMonitor.stop();
+
     // Cleanup peer manager
     peerManager.cleanup();
     logger.info('Peer manager cleaned up');
@@ -243,6 +258,8 @@ async function gracefulShutdown(signal: string) {
     await mediaServer.close();
     logger.info('Media server closed');
 
+    await disconnectKafka();
+
     logger.info('Graceful shutdown complete');
     process.exit(0);
   } catch (error) {
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { createLogger } from '../utils/logger';
 import { mediaServer } from '../webrtc/media-server';
 import { peerManager } from '../webrtc/peer-manager';
+import { qualityMonitor } from '../webrtc/quality-monitor';
 import { sipGateway } from '../sip/gateway';
 
 const logger = createLogger('webrtc-routes');
@@ -143,6 +144,7 @@ router.get('/sessions/:callId', async (req, res) => {
         campaignId: session.campaignId,
         leadId: session.leadId,
         queueId: session.queueId,
+        statistics: session.statistics,
       },
     });
   } catch (error) {
@@ -163,11 +165,28 @@ router.get('/stats', async (req, res) => {
     const mediaStats = await mediaServer.getStats();
     const peerStats = peerManager.getStats();
 
+    // Latest quality sample of each answered call
+    const samples = peerManager
+      .getActiveCalls()
+      .filter((session) => session.state === 'answered' && session.statistics)
+      .map((session) => session.statistics!);
+
     res.json({
       success: true,
       timestamp: new Date().toISOString(),
       media: mediaStats,
       peers: peerStats,
+      quality: {
+        sampledCalls: samples.length,
+        degradedCalls: samples.filter((sample) => sample.degraded).length,
+        averageMos:
+          samples.length > 0
+            ? Math.round(
+                (samples.reduce((total, sample) => total + sample.mos, 0) / samples.length) * 100
+              ) / 100
+            : null,
+        calls: samples,
+      },
     });
   } catch (error) {
     logger.error({ error }, 'Failed to get statistics');
@@ -188,6 +207,13 @@ router.get('/stats/agent/:agentId', async (req, res) => {
 
     const activeCalls = peerManager.getActiveCallsForAgent(agentId);
     const peer = peerManager.getPeerByAgentId(agentId);
+    const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+
+    // Samples of the agent's calls, oldest first, kept in memory for the
+    // last QUALITY_HISTORY_SIZE samples
+    const history = qualityMonitor
+      .getAgentHistory(agentId)
+      .filter((sample) => !since || sample.timestamp >= since);
 
     res.json({
       success: true,
@@ -202,7 +228,17 @@ router.get('/stats/agent/:agentId', async (req, res) => {
         duration: call.answerTime
           ? Math.floor((Date.now() - call.answerTime.getTime()) / 1000)
           : 0,
+        statistics: call.statistics,
       })),
+      quality: {
+        averageMos:
+          history.length > 0
+            ? Math.round(
+                (history.reduce((total, sample) => total + sample.mos, 0) / history.length) * 100
+              ) / 100
+            : null,
+        history,
+      },
     });
   } catch (error) {
     logger.error({ error, agentId: req.params.agentId }, 'Failed to get agent statistics');
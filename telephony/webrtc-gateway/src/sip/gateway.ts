@@ -214,6 +214,9 @@ export class SIPGateway extends EventEmitter {
 
     const remoteIdentity = invitation.remoteIdentity.uri.toString();
 
+    // Set by the dialer engine when it rings a supervisor into a call to monitor
+    const monitorSessionId = invitation.request.getHeader('X-Nexus-Monitor');
+
     const sipSession: SIPSession = {
       id: sessionId,
       agentId,
@@ -226,6 +229,7 @@ export class SIPGateway extends EventEmitter {
       startTime: new Date(),
       holdState: false,
       muteState: false,
+      metadata: monitorSessionId ? { monitorSessionId } : undefined,
     };
 
     this.sessions.set(sessionId, sipSession);
@@ -403,6 +407,10 @@ export class SIPGateway extends EventEmitter {
     }
   }
 
+  /**
+   * Blind: target is a number or extension. Attended: target is the SIP
+   * session of the consult call, whose party replaces this session's.
+   */
   async transfer(
     sessionId: string,
     target: string,
@@ -414,12 +422,12 @@ export class SIPGateway extends EventEmitter {
         throw new Error('Session not established');
       }
 
-      const targetURI = UserAgent.makeURI(`sip:${target}@${config.freeswitch.host}`);
-      if (!targetURI) {
-        throw new Error('Invalid transfer target');
-      }
-
       if (transferType === 'blind') {
+        const targetURI = UserAgent.makeURI(`sip:${target}@${config.freeswitch.host}`);
+        if (!targetURI) {
+          throw new Error('Invalid transfer target');
+        }
+
         await session.refer(targetURI, {
           requestDelegate: {
             onAccept: () => {
@@ -431,8 +439,22 @@ export class SIPGateway extends EventEmitter {
           },
         });
       } else {
-        // Attended transfer would require establishing a second call first
-        throw new Error('Attended transfer not yet implemented');
+        const consultSession = this.sipSessions.get(target);
+        if (!consultSession || consultSession.state !== SessionState.Established) {
+          throw new Error('Consult call not established');
+        }
+
+        // REFER with Replaces: the customer is connected to the consult party
+        await session.refer(consultSession, {
+          requestDelegate: {
+            onAccept: () => {
+              logger.info({ sessionId, consultSessionId: target }, 'Attended transfer accepted');
+            },
+            onReject: () => {
+              logger.warn({ sessionId, consultSessionId: target }, 'Transfer rejected');
+            },
+          },
+        });
       }
 
       logger.info({ sessionId, target, transferType }, 'Call transfer initiated');
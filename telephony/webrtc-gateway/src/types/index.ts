@@ -103,6 +103,13 @@ export interface CallSession {
   holdState: boolean;
   muteState: boolean;
   recordingEnabled: boolean;
+  // customer: the agent's call with the customer; consult: the agent's call
+  // to a warm transfer target, dialed from parentCallId; conference: the
+  // agent's leg into a three-way conference
+  legType: 'customer' | 'consult' | 'conference';
+  parentCallId?: string;
+  consultCallId?: string;
+  statistics?: CallStatistics; // latest media quality sample while answered
   metadata?: Record<string, unknown>;
 }
 
@@ -213,13 +220,31 @@ export interface WebRTCSocketEvents {
     callback: (response: WebRTCResponse) => void;
   }) => void;
 
+  // Warm transfers dial the target and answer with the consult call's id
   'call:transfer': (data: {
     callId: string;
     target: string;
     transferType: 'warm' | 'cold' | 'blind';
+    callback: (response: CallResponse) => void;
+  }) => void;
+
+  // Warm transfers, by the customer's call id: hand the customer to the
+  // target, hang up on the target, or bring everyone into a conference
+  'call:transfer-complete': (data: {
+    callId: string;
+    callback: (response: WebRTCResponse) => void;
+  }) => void;
+
+  'call:transfer-cancel': (data: {
+    callId: string;
     callback: (response: WebRTCResponse) => void;
   }) => void;
 
+  'call:transfer-conference': (data: {
+    callId: string;
+    callback: (response: CallResponse) => void;
+  }) => void;
+
   'call:dtmf': (data: {
     callId: string;
     tone: string;
@@ -237,6 +262,7 @@ export interface WebRTCSocketEvents {
     phoneNumber: string;
     callerId?: string;
     queueId?: string;
+    monitorSessionId?: string; // a supervisor joining a call to monitor; answer without ringing
   }) => void;
 
   'call:ringing': (data: { callId: string }) => void;
@@ -289,9 +315,14 @@ export interface ConsumeResponse {
 // Statistics Types
 // ============================================
 
+// incoming is what the gateway receives from the agent's browser, outgoing
+// what the browser reports receiving from the gateway. Jitter and round trip
+// time are in ms, packet loss in percent and bitrate in kbps.
+
 export interface PeerStatistics {
   peerId: string;
   agentId: string;
+  callId?: string;
   bytesReceived: number;
   bytesSent: number;
   packetsLost: number;
@@ -299,6 +330,7 @@ export interface PeerStatistics {
   packetsSent: number;
   jitter: number;
   roundTripTime: number;
+  mos: number;
   audioLevel?: number;
   timestamp: Date;
 }
@@ -317,6 +349,9 @@ export interface CallStatistics {
   };
   jitter: number;
   roundTripTime: number;
+  mos: number; // estimated with the ITU-T G.107 E-model
+  degraded: boolean;
+  timestamp: Date;
 }
 
 // ============================================
@@ -358,6 +393,11 @@ export interface WebRTCGatewayConfig {
     wsUrl: string;
     eslPassword: string;
   };
+  quality: {
+    sampleInterval: number; // ms
+    alertMos: number; // calls below this are degraded
+    historySize: number; // samples kept per agent
+  };
   redis?: {
     host: string;
     port: number;
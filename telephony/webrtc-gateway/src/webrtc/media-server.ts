@@ -6,6 +6,8 @@ type Router = mediasoupTypes.Router;
 type WebRtcTransport = mediasoupTypes.WebRtcTransport;
 type Producer = mediasoupTypes.Producer;
 type Consumer = mediasoupTypes.Consumer;
+type ProducerStat = mediasoupTypes.ProducerStat;
+type ConsumerStat = mediasoupTypes.ConsumerStat;
 type RtpCapabilities = mediasoupTypes.RtpCapabilities;
 type RtpParameters = mediasoupTypes.RtpParameters;
 type DtlsParameters = mediasoupTypes.DtlsParameters;
@@ -336,6 +338,36 @@ export class MediaServer {
     return this.consumers.get(consumerId);
   }
 
+  /**
+   * RTP stats of the stream the gateway receives from a browser. Jitter is
+   * in RTP timestamp units and fractionLost out of 256, as in RFC 3550.
+   */
+  async getProducerStats(producerId: string): Promise<ProducerStat | undefined> {
+    const producer = this.producers.get(producerId);
+
+    if (!producer || producer.closed) {
+      return undefined;
+    }
+
+    const stats = await producer.getStats();
+    return stats.find((stat) => stat.type === 'inbound-rtp');
+  }
+
+  /**
+   * RTP stats of the stream the gateway sends to a browser, with the loss,
+   * jitter and round trip time from the browser's receiver reports
+   */
+  async getConsumerStats(consumerId: string): Promise<ConsumerStat | undefined> {
+    const consumer = this.consumers.get(consumerId);
+
+    if (!consumer || consumer.closed) {
+      return undefined;
+    }
+
+    const stats = await consumer.getStats();
+    return stats.find((stat): stat is ConsumerStat => stat.type === 'outbound-rtp');
+  }
+
   getTransport(transportId: string): WebRtcTransport | undefined {
     return this.transports.get(transportId);
   }
@@ -248,6 +248,8 @@ export class PeerManager {
       campaignId?: string;
       leadId?: string;
       queueId?: string;
+      legType?: CallSession['legType'];
+      parentCallId?: string;
     }
   ): CallSession {
     const peer = this.peers.get(peerId);
@@ -270,6 +272,7 @@ export class PeerManager {
       holdState: false,
       muteState: false,
       recordingEnabled: true,
+      legType: 'customer',
       ...options,
     };
 
@@ -294,6 +297,12 @@ export class PeerManager {
     return this.callSessions.get(callId);
   }
 
+  getCallSessionBySIPSession(sipSessionId: string): CallSession | undefined {
+    return Array.from(this.callSessions.values()).find(
+      (session) => session.sipSessionId === sipSessionId
+    );
+  }
+
   getCallSessionByPeer(peerId: string): CallSession | undefined {
     const peer = this.peers.get(peerId);
     if (peer?.callId) {
@@ -362,10 +371,18 @@ export class PeerManager {
       session.state = 'ended';
       session.endTime = new Date();
 
+      // A consult call ending hands the peer back to the customer's call
+      const parent = session.parentCallId
+        ? this.callSessions.get(session.parentCallId)
+        : undefined;
+      if (parent?.consultCallId === callId) {
+        parent.consultCallId = undefined;
+      }
+
       const peer = this.peers.get(session.webrtcPeerId);
-      if (peer) {
-        peer.callId = undefined;
-        peer.sipCallId = undefined;
+      if (peer && peer.callId === callId) {
+        peer.callId = parent?.callId;
+        peer.sipCallId = parent?.sipSessionId;
       }
 
       this.callSessions.delete(callId);
@@ -388,9 +405,11 @@ export class PeerManager {
     const peer = this.peers.get(peerId);
 
     if (peer) {
-      // Close active call if any
-      if (peer.callId) {
-        this.endCallSession(peer.callId);
+      // Close active calls if any, a customer call held for a consult included
+      for (const session of Array.from(this.callSessions.values())) {
+        if (session.webrtcPeerId === peerId) {
+          this.endCallSession(session.callId);
+        }
       }
 
       // Close media resources
@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TOPICS, type CallQualitySampleEvent } from '@nexusdialer/events';
+import { createLogger } from '../utils/logger';
+import { config } from '../config';
+import { publishEvent } from '../lib/kafka';
+import { mediaServer } from './media-server';
+import { peerManager } from './peer-manager';
+import type { CallSession, CallStatistics, PeerStatistics, WebRTCPeer } from '../types';
+
+const logger = createLogger('quality-monitor');
+
+// A degraded call has to come this far back above the alert MOS to count as
+// recovered, so a call hovering at the threshold does not flap
+const RECOVERY_MARGIN = 0.2;
+
+/**
+ * Estimate MOS from network conditions with the simplified ITU-T G.107
+ * E-model used for VoIP monitoring
+ */
+export function estimateMos(jitter: number, packetLoss: number, roundTripTime: number): number {
+  const effectiveLatency = roundTripTime / 2 + jitter * 2 + 10;
+
+  let rFactor =
+    effectiveLatency < 160 ? 93.2 - effectiveLatency / 40 : 93.2 - (effectiveLatency - 120) / 10;
+  rFactor -= packetLoss * 2.5;
+  rFactor = Math.min(Math.max(rFactor, 0), 100);
+
+  const mos = 1 + 0.035 * rFactor + 0.000007 * rFactor * (rFactor - 60) * (100 - rFactor);
+
+  return Math.round(Math.min(Math.max(mos, 1), 4.5) * 100) / 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Samples the RTP stats of every answered softphone call, keeps the latest
+ * on its call session and a recent history per agent, and publishes each
+ * sample on calls.quality
+ */
+export class QualityMonitor {
+  private timer: NodeJS.Timeout | null = null;
+  private history: Map<string, PeerStatistics[]> = new Map(); // agentId -> samples
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sampleCalls().catch((error) => {
+        logger.error({ error }, 'Call quality sampling failed');
+      });
+    }, config.quality.sampleInterval);
+
+    logger.info({ sampleInterval: config.quality.sampleInterval }, 'Call quality monitor started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getAgentHistory(agentId: string): PeerStatistics[] {
+    return this.history.get(agentId) ?? [];
+  }
+
+  private async sampleCalls(): Promise<void> {
+    for (const session of peerManager.getActiveCalls()) {
+      if (session.state !== 'answered') {
+        continue;
+      }
+
+      const peer = peerManager.getPeer(session.webrtcPeerId);
+
+      // The peer's media belongs to whichever of its calls it is talking on
+      if (!peer || peer.callId !== session.callId) {
+        continue;
+      }
+
+      try {
+        await this.sampleCall(session, peer);
+      } catch (error) {
+        logger.warn({ error, callId: session.callId }, 'Failed to sample call quality');
+      }
+    }
+  }
+
+  private async sampleCall(session: CallSession, peer: WebRTCPeer): Promise<void> {
+    const received = peer.producer
+      ? await mediaServer.getProducerStats(peer.producer.id)
+      : undefined;
+    const sent = peer.consumer ? await mediaServer.getConsumerStats(peer.consumer.id) : undefined;
+
+    if (!received && !sent) {
+      return;
+    }
+
+    const codec =
+      peer.producer?.rtpParameters.codecs[0] ?? peer.consumer?.rtpParameters.codecs[0];
+    const clockRate = codec?.clockRate ?? 48000;
+
+    // mediasoup reports jitter in RTP timestamp units and loss out of 256
+    const toMs = (jitter = 0) => (jitter / clockRate) * 1000;
+    const toPercent = (fractionLost = 0) => (fractionLost / 256) * 100;
+
+    const jitter = round(Math.max(toMs(received?.jitter), toMs(sent?.jitter)));
+    const packetLoss = {
+      incoming: round(toPercent(received?.fractionLost)),
+      outgoing: round(toPercent(sent?.fractionLost)),
+    };
+    const roundTripTime = round(sent?.roundTripTime ?? received?.roundTripTime ?? 0);
+    const mos = estimateMos(
+      jitter,
+      Math.max(packetLoss.incoming, packetLoss.outgoing),
+      roundTripTime
+    );
+
+    const wasDegraded = session.statistics?.degraded ?? false;
+    const degraded = wasDegraded
+      ? mos < config.quality.alertMos + RECOVERY_MARGIN
+      : mos < config.quality.alertMos;
+
+    const statistics: CallStatistics = {
+      callId: session.callId,
+      duration: session.answerTime
+        ? Math.floor((Date.now() - session.answerTime.getTime()) / 1000)
+        : 0,
+      audioCodec: codec?.mimeType ?? 'unknown',
+      bitrate: {
+        incoming: round((received?.bitrate ?? 0) / 1000),
+        outgoing: round((sent?.bitrate ?? 0) / 1000),
+      },
+      packetLoss,
+      jitter,
+      roundTripTime,
+      mos,
+      degraded,
+      timestamp: new Date(),
+    };
+
+    session.statistics = statistics;
+
+    this.record({
+      peerId: peer.id,
+      agentId: session.agentId,
+      callId: session.callId,
+      bytesReceived: received?.byteCount ?? 0,
+      bytesSent: sent?.byteCount ?? 0,
+      packetsLost: (received?.packetsLost ?? 0) + (sent?.packetsLost ?? 0),
+      packetsReceived: received?.packetCount ?? 0,
+      packetsSent: sent?.packetCount ?? 0,
+      jitter,
+      roundTripTime,
+      mos,
+      timestamp: statistics.timestamp,
+    });
+
+    let alert: 'degraded' | 'recovered' | undefined;
+
+    if (degraded !== wasDegraded) {
+      alert = degraded ? 'degraded' : 'recovered';
+      logger.warn(
+        { callId: session.callId, agentId: session.agentId, mos, alert },
+        'Call quality changed'
+      );
+    }
+
+    await this.publish(session, statistics, alert);
+  }
+
+  private record(sample: PeerStatistics): void {
+    const samples = this.history.get(sample.agentId) ?? [];
+
+    samples.push(sample);
+
+    if (samples.length > config.quality.historySize) {
+      samples.splice(0, samples.length - config.quality.historySize);
+    }
+
+    this.history.set(sample.agentId, samples);
+  }
+
+  private async publish(
+    session: CallSession,
+    statistics: CallStatistics,
+    alert?: 'degraded' | 'recovered'
+  ): Promise<void> {
+    const event: CallQualitySampleEvent = {
+      eventId: uuidv4(),
+      tenantId: session.tenantId,
+      timestamp: statistics.timestamp.toISOString(),
+      version: '1.0',
+      type: 'calls.quality',
+      payload: {
+        agentId: session.agentId,
+        sessionCallId: session.callId,
+        codec: statistics.audioCodec,
+        jitter: statistics.jitter,
+        packetLoss: Math.max(statistics.packetLoss.incoming, statistics.packetLoss.outgoing),
+        roundTripTime: statistics.roundTripTime,
+        bitrate: statistics.bitrate,
+        mos: statistics.mos,
+        degraded: statistics.degraded,
+        alert,
+      },
+    };
+
+    await publishEvent(TOPICS.CALLS_QUALITY, event, session.agentId);
+  }
+}
+
+export const qualityMonitor = new QualityMonitor();